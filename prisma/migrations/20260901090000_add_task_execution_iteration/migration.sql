@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TaskExecution" ADD COLUMN     "iteration" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "parentStep" INTEGER;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "TaskExecution" ADD COLUMN     "policy" JSONB;
+
+-- CreateTable
+CREATE TABLE "ToolPolicy" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "tool" TEXT NOT NULL,
+    "conditions" JSONB NOT NULL DEFAULT '[]',
+    "effect" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ToolPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ToolPolicy_workspaceId_enabled_idx" ON "ToolPolicy"("workspaceId", "enabled");
+
+-- AddForeignKey
+ALTER TABLE "ToolPolicy" ADD CONSTRAINT "ToolPolicy_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
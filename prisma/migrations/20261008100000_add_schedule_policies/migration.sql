@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "misfirePolicy" TEXT NOT NULL DEFAULT 'run_once',
+ADD COLUMN     "maxCatchUpRuns" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "overlapPolicy" TEXT NOT NULL DEFAULT 'skip';
+
+-- CreateTable
+CREATE TABLE "ScheduledRun" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "trigger" TEXT NOT NULL DEFAULT 'schedule',
+    "status" TEXT NOT NULL DEFAULT 'waiting',
+    "reason" TEXT,
+    "error" TEXT,
+    "jobId" TEXT,
+    "credits" INTEGER,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScheduledRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduledRun_taskId_scheduledFor_idx" ON "ScheduledRun"("taskId", "scheduledFor");
+
+-- CreateIndex
+CREATE INDEX "ScheduledRun_status_idx" ON "ScheduledRun"("status");
+
+-- AddForeignKey
+ALTER TABLE "ScheduledRun" ADD CONSTRAINT "ScheduledRun_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,88 @@
+-- AlterTable
+ALTER TABLE "MonitorAlert" ADD COLUMN     "triggersCheckedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "TaskTrigger" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "sourceTaskId" TEXT,
+    "monitorId" TEXT,
+    "channel" TEXT,
+    "pattern" TEXT,
+    "secretHash" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "lastFiredAt" TIMESTAMP(3),
+    "fireCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaskTrigger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TriggerEvent" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "sourceId" TEXT,
+    "payload" JSONB NOT NULL DEFAULT '{}',
+    "chain" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TriggerEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TriggerFiring" (
+    "id" TEXT NOT NULL,
+    "triggerId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "reason" TEXT,
+    "error" TEXT,
+    "jobId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TriggerFiring_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MonitorAlert_triggersCheckedAt_idx" ON "MonitorAlert"("triggersCheckedAt");
+
+-- CreateIndex
+CREATE INDEX "TaskTrigger_taskId_idx" ON "TaskTrigger"("taskId");
+
+-- CreateIndex
+CREATE INDEX "TaskTrigger_type_enabled_idx" ON "TaskTrigger"("type", "enabled");
+
+-- CreateIndex
+CREATE INDEX "TaskTrigger_sourceTaskId_idx" ON "TaskTrigger"("sourceTaskId");
+
+-- CreateIndex
+CREATE INDEX "TaskTrigger_monitorId_idx" ON "TaskTrigger"("monitorId");
+
+-- CreateIndex
+CREATE INDEX "TriggerEvent_status_createdAt_idx" ON "TriggerEvent"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TriggerFiring_triggerId_createdAt_idx" ON "TriggerFiring"("triggerId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TriggerFiring_taskId_createdAt_idx" ON "TriggerFiring"("taskId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskTrigger" ADD CONSTRAINT "TaskTrigger_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TriggerFiring" ADD CONSTRAINT "TriggerFiring_triggerId_fkey" FOREIGN KEY ("triggerId") REFERENCES "TaskTrigger"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TriggerFiring" ADD CONSTRAINT "TriggerFiring_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "TriggerEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TriggerFiring" ADD CONSTRAINT "TriggerFiring_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
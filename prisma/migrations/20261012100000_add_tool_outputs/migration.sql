@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "ToolOutput" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "taskId" TEXT,
+    "stepNumber" INTEGER,
+    "tool" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "chars" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ToolOutput_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ToolOutput_userId_createdAt_idx" ON "ToolOutput"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ToolOutput_taskId_idx" ON "ToolOutput"("taskId");
+
+-- CreateIndex
+CREATE INDEX "ToolOutput_expiresAt_idx" ON "ToolOutput"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "ToolOutput" ADD CONSTRAINT "ToolOutput_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ToolOutput" ADD CONSTRAINT "ToolOutput_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "Artifact" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "filename" TEXT,
+    "bytes" INTEGER,
+    "url" TEXT NOT NULL,
+    "persisted" BOOLEAN NOT NULL DEFAULT true,
+    "taskId" TEXT,
+    "conversationId" TEXT,
+    "stepNumber" INTEGER,
+    "tool" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "parentId" TEXT,
+    "lineageId" TEXT,
+    "isLatest" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Artifact_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Artifact_userId_isLatest_createdAt_idx" ON "Artifact"("userId", "isLatest", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Artifact_userId_type_idx" ON "Artifact"("userId", "type");
+
+-- CreateIndex
+CREATE INDEX "Artifact_taskId_idx" ON "Artifact"("taskId");
+
+-- CreateIndex
+CREATE INDEX "Artifact_conversationId_idx" ON "Artifact"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "Artifact_lineageId_idx" ON "Artifact"("lineageId");
+
+-- AddForeignKey
+ALTER TABLE "Artifact" ADD CONSTRAINT "Artifact_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Artifact" ADD CONSTRAINT "Artifact_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Artifact" ADD CONSTRAINT "Artifact_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Artifact" ADD CONSTRAINT "Artifact_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Artifact"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "ChatApproval" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "conversationId" TEXT,
+    "tokenHash" TEXT NOT NULL,
+    "messages" JSONB,
+    "messagesHash" TEXT NOT NULL,
+    "approvedTools" JSONB NOT NULL DEFAULT '[]',
+    "tool" TEXT NOT NULL,
+    "input" JSONB NOT NULL,
+    "description" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "decidedVia" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChatApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatApproval_tokenHash_key" ON "ChatApproval"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "ChatApproval_userId_status_idx" ON "ChatApproval"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "ChatApproval_userId_messagesHash_idx" ON "ChatApproval"("userId", "messagesHash");
+
+-- CreateIndex
+CREATE INDEX "ChatApproval_status_expiresAt_idx" ON "ChatApproval"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "ChatApproval" ADD CONSTRAINT "ChatApproval_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
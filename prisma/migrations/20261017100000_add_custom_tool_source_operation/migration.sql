@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "CustomTool" ADD COLUMN     "sourceOperation" TEXT;
+
+-- CreateIndex
+CREATE INDEX "CustomTool_integrationId_sourceOperation_idx" ON "CustomTool"("integrationId", "sourceOperation");
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "ExternalMcpServer" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "authType" TEXT NOT NULL DEFAULT 'none',
+    "accessToken" TEXT,
+    "refreshToken" TEXT,
+    "tokenExpiresAt" TIMESTAMP(3),
+    "oauthTokenUrl" TEXT,
+    "oauthClientId" TEXT,
+    "oauthClientSecret" TEXT,
+    "tools" JSONB NOT NULL DEFAULT '[]',
+    "discoveredAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExternalMcpServer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExternalMcpServer_userId_name_key" ON "ExternalMcpServer"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "ExternalMcpServer_userId_enabled_idx" ON "ExternalMcpServer"("userId", "enabled");
+
+-- AddForeignKey
+ALTER TABLE "ExternalMcpServer" ADD CONSTRAINT "ExternalMcpServer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN     "egressAllowedDomains" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "egressBlockedDomains" TEXT[] DEFAULT ARRAY[]::TEXT[];
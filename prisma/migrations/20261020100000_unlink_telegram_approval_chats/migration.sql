@@ -0,0 +1,5 @@
+-- Chats linked by whoever first sent /start are not trusted with approvals;
+-- owners link theirs again through a one-time link.
+UPDATE "Integration"
+SET "config" = "config" - 'approvalChatId' - 'approvalUserId'
+WHERE "provider" = 'telegram' AND "config" ? 'approvalChatId';
@@ -42,6 +42,7 @@ if (existsSync(envPath)) {
 
 import { getAgentWorker, closeAgentWorker } from '../src/lib/queue/agent-worker';
 import { getVideoPipelineWorker, closeVideoPipelineWorker } from '../src/lib/video-pipeline/worker';
+import { getWebhookDeliveryWorker, closeWebhookDeliveryWorker } from '../src/lib/webhooks/worker';
 import { getOrchestrator, stopOrchestrator } from '../src/lib/agent/orchestrator';
 import { closeRedisConnection, isRedisAvailable, getRedisHealth } from '../src/lib/queue/redis';
 
@@ -63,6 +64,7 @@ async function shutdown() {
     // Close workers
     await closeAgentWorker();
     await closeVideoPipelineWorker();
+    await closeWebhookDeliveryWorker();
 
     // Close Redis connection
     await closeRedisConnection();
@@ -113,6 +115,10 @@ async function main() {
   getVideoPipelineWorker();
   console.log('✅ Video pipeline worker started\n');
 
+  console.log('📮 Starting webhook delivery worker...');
+  getWebhookDeliveryWorker();
+  console.log('✅ Webhook delivery worker started\n');
+
   // Start orchestrator
   console.log('🎯 Starting orchestrator...');
   const orchestrator = getOrchestrator({
@@ -0,0 +1,238 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useSearchParams } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ShieldCheck, Check, X, Clock } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+interface ApprovalRequest {
+  id: string;
+  stepNumber: number;
+  tool: string;
+  action: string;
+  description: string | null;
+  params: unknown;
+  status: 'pending' | 'approved' | 'denied' | 'expired';
+  reason: string | null;
+  decidedVia: string | null;
+  decidedAt: string | null;
+  expiresAt: string;
+  createdAt: string;
+  task: { id: string; title: string; status: string };
+}
+
+const STATUS_STYLES: Record<ApprovalRequest['status'], string> = {
+  pending: 'text-amber-600 dark:text-amber-400',
+  approved: 'text-green-600 dark:text-green-400',
+  denied: 'text-red-600 dark:text-red-400',
+  expired: 'text-gray-500 dark:text-gray-400',
+};
+
+function ApprovalsInbox() {
+  const { data: session } = useSession();
+  const searchParams = useSearchParams();
+  // Email buttons link here with the request and the decision clicked; the
+  // decision still takes a click on this page, so a link scanner decides nothing
+  const highlighted = searchParams.get('request');
+  const suggested = searchParams.get('decision');
+
+  const [approvals, setApprovals] = useState<ApprovalRequest[]>([]);
+  const [filter, setFilter] = useState<'pending' | 'all'>('pending');
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!session) {
+      setIsLoading(false);
+      return;
+    }
+
+    const fetchApprovals = async () => {
+      setIsLoading(true);
+      try {
+        const query = filter === 'pending' ? '?status=pending' : '';
+        const response = await fetch(`/api/approvals${query}`);
+        const data = await response.json();
+        setApprovals(data.approvals || []);
+      } catch (error) {
+        console.error('Error fetching approvals:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchApprovals();
+  }, [session, filter]);
+
+  const handleDecide = async (approval: ApprovalRequest, decision: 'approve' | 'deny') => {
+    setBusyId(approval.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/approvals/${approval.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, reason: reasons[approval.id] || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to record decision');
+        return;
+      }
+      setApprovals((prev) =>
+        filter === 'pending'
+          ? prev.filter((a) => a.id !== approval.id)
+          : prev.map((a) => (a.id === approval.id ? { ...a, status: data.status, decidedVia: 'web' } : a))
+      );
+    } catch (error) {
+      console.error('Error deciding approval:', error);
+      setError('Failed to record decision');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!session) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <p className="text-center text-gray-600 dark:text-gray-400">
+            Please sign in to see your approvals.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="container max-w-4xl mx-auto py-8 px-4 space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Approvals</CardTitle>
+              <CardDescription>
+                Agent steps that send, share or change something on your behalf wait here for
+                your decision
+              </CardDescription>
+            </div>
+            <div className="flex gap-1 rounded-lg bg-gray-100 dark:bg-gray-800 p-1">
+              {(['pending', 'all'] as const).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setFilter(value)}
+                  className={`px-3 py-1 rounded-md text-sm font-medium capitalize transition-colors ${
+                    filter === value
+                      ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+                      : 'text-gray-600 dark:text-gray-400'
+                  }`}
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="space-y-4">
+        {isLoading ? (
+          <Card>
+            <CardContent className="py-8">
+              <p className="text-center text-gray-600 dark:text-gray-400">Loading...</p>
+            </CardContent>
+          </Card>
+        ) : approvals.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center">
+              <ShieldCheck className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-600 dark:text-gray-400">
+                {filter === 'pending' ? 'Nothing is waiting for you.' : 'No approval requests yet.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          approvals.map((approval) => (
+            <Card
+              key={approval.id}
+              className={approval.id === highlighted ? 'ring-2 ring-blue-500' : undefined}
+            >
+              <CardContent className="pt-6 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <span className={`inline-block text-xs font-medium uppercase tracking-wide mb-1 ${STATUS_STYLES[approval.status]}`}>
+                      {approval.status}
+                      {approval.decidedVia ? ` via ${approval.decidedVia}` : ''}
+                    </span>
+                    <p className="text-gray-900 dark:text-white font-medium">{approval.task.title}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      Step {approval.stepNumber}: {approval.description || approval.action}{' '}
+                      <code className="text-xs">{approval.tool}</code>
+                    </p>
+                  </div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-1 shrink-0">
+                    <Clock className="w-4 h-4" />
+                    {approval.status === 'pending'
+                      ? `Expires ${formatDistanceToNow(new Date(approval.expiresAt), { addSuffix: true })}`
+                      : format(new Date(approval.decidedAt || approval.createdAt), 'MMM d, yyyy h:mm a')}
+                  </p>
+                </div>
+
+                <pre className="text-xs bg-gray-50 dark:bg-gray-900 rounded-lg p-3 overflow-x-auto whitespace-pre-wrap">
+                  {JSON.stringify(approval.params, null, 2)}
+                </pre>
+
+                {approval.reason && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">Reason: {approval.reason}</p>
+                )}
+
+                {approval.status === 'pending' && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      placeholder="Reason (optional, shown to the agent if you deny)"
+                      value={reasons[approval.id] || ''}
+                      onChange={(e) => setReasons((prev) => ({ ...prev, [approval.id]: e.target.value }))}
+                      className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800"
+                    />
+                    <button
+                      onClick={() => handleDecide(approval, 'approve')}
+                      disabled={busyId === approval.id}
+                      className="flex items-center gap-1 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                    >
+                      <Check className="w-4 h-4" />
+                      {approval.id === highlighted && suggested === 'approve' ? 'Confirm approve' : 'Approve'}
+                    </button>
+                    <button
+                      onClick={() => handleDecide(approval, 'deny')}
+                      disabled={busyId === approval.id}
+                      className="flex items-center gap-1 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                    >
+                      <X className="w-4 h-4" />
+                      {approval.id === highlighted && suggested === 'deny' ? 'Confirm deny' : 'Deny'}
+                    </button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ApprovalsPage() {
+  return (
+    <Suspense fallback={<div className="flex items-center justify-center min-h-screen">Loading...</div>}>
+      <ApprovalsInbox />
+    </Suspense>
+  );
+}
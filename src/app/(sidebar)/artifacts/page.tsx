@@ -0,0 +1,331 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useSearchParams } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { FolderOpen, Download, History, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+type ArtifactType = 'document' | 'spreadsheet' | 'presentation' | 'chart' | 'image' | 'audio';
+
+interface Artifact {
+  id: string;
+  type: ArtifactType;
+  mimeType: string;
+  title: string;
+  filename: string | null;
+  bytes: number | null;
+  url: string;
+  tool: string;
+  version: number;
+  stepNumber: number | null;
+  createdAt: string;
+  task: { id: string; title: string } | null;
+  conversation: { id: string; title: string } | null;
+}
+
+interface ArtifactVersion {
+  id: string;
+  version: number;
+  bytes: number | null;
+  url: string;
+  isLatest: boolean;
+  stepNumber: number | null;
+  createdAt: string;
+}
+
+const TYPES: { value: ArtifactType | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'document', label: 'Documents' },
+  { value: 'spreadsheet', label: 'Spreadsheets' },
+  { value: 'presentation', label: 'Decks' },
+  { value: 'chart', label: 'Charts' },
+  { value: 'image', label: 'Images' },
+  { value: 'audio', label: 'Music' },
+];
+
+function formatBytes(bytes: number | null): string {
+  if (bytes === null) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function ArtifactsBrowser() {
+  const { data: session } = useSession();
+  const searchParams = useSearchParams();
+  // Task and chat pages link here filtered to what they produced
+  const taskId = searchParams.get('taskId');
+  const conversationId = searchParams.get('conversationId');
+
+  const [artifacts, setArtifacts] = useState<Artifact[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [type, setType] = useState<ArtifactType | 'all'>('all');
+  const [query, setQuery] = useState('');
+  const [versions, setVersions] = useState<Record<string, ArtifactVersion[]>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const buildQuery = (cursor?: string) => {
+    const params = new URLSearchParams();
+    if (type !== 'all') params.set('type', type);
+    if (query.trim()) params.set('q', query.trim());
+    if (taskId) params.set('taskId', taskId);
+    if (conversationId) params.set('conversationId', conversationId);
+    if (cursor) params.set('cursor', cursor);
+    return params.toString();
+  };
+
+  useEffect(() => {
+    if (!session) {
+      setIsLoading(false);
+      return;
+    }
+
+    const fetchArtifacts = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/artifacts?${buildQuery()}`);
+        const data = await response.json();
+        setArtifacts(data.artifacts || []);
+        setNextCursor(data.nextCursor || null);
+      } catch (error) {
+        console.error('Error fetching artifacts:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    // Wait for typing to settle before searching
+    const timer = setTimeout(fetchArtifacts, 250);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session, type, query, taskId, conversationId]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    try {
+      const response = await fetch(`/api/artifacts?${buildQuery(nextCursor)}`);
+      const data = await response.json();
+      setArtifacts((prev) => [...prev, ...(data.artifacts || [])]);
+      setNextCursor(data.nextCursor || null);
+    } catch (error) {
+      console.error('Error fetching artifacts:', error);
+    }
+  };
+
+  const handleToggleVersions = async (artifact: Artifact) => {
+    if (versions[artifact.id]) {
+      setVersions(({ [artifact.id]: _, ...rest }) => rest);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/artifacts/${artifact.id}`);
+      const data = await response.json();
+      setVersions((prev) => ({ ...prev, [artifact.id]: data.versions || [] }));
+    } catch (error) {
+      console.error('Error fetching versions:', error);
+    }
+  };
+
+  const handleDelete = async (artifact: Artifact) => {
+    const versionNote = artifact.version > 1 ? ` and its ${artifact.version - 1} earlier versions` : '';
+    if (!confirm(`Delete "${artifact.title}"${versionNote}? The file will no longer be available.`)) return;
+
+    setBusyId(artifact.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/artifacts/${artifact.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to delete artifact');
+        return;
+      }
+      setArtifacts((prev) => prev.filter((a) => a.id !== artifact.id));
+    } catch (error) {
+      console.error('Error deleting artifact:', error);
+      setError('Failed to delete artifact');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!session) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <p className="text-center text-gray-600 dark:text-gray-400">
+            Please sign in to see your files.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="container max-w-4xl mx-auto py-8 px-4 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Artifacts</CardTitle>
+          <CardDescription>
+            Documents, spreadsheets, decks, charts, images and music your agents made
+          </CardDescription>
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            <input
+              type="search"
+              placeholder="Search by title"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="flex-1 min-w-[12rem] px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800"
+            />
+            <div className="flex flex-wrap gap-1 rounded-lg bg-gray-100 dark:bg-gray-800 p-1">
+              {TYPES.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setType(value)}
+                  className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                    type === value
+                      ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+                      : 'text-gray-600 dark:text-gray-400'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="space-y-4">
+        {isLoading ? (
+          <Card>
+            <CardContent className="py-8">
+              <p className="text-center text-gray-600 dark:text-gray-400">Loading...</p>
+            </CardContent>
+          </Card>
+        ) : artifacts.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center">
+              <FolderOpen className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-600 dark:text-gray-400">
+                {query || type !== 'all' ? 'No files match.' : 'Files your agents make will show up here.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          artifacts.map((artifact) => (
+            <Card key={artifact.id}>
+              <CardContent className="pt-6 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <span className="inline-block text-xs font-medium uppercase tracking-wide mb-1 text-gray-500 dark:text-gray-400">
+                      {artifact.type}
+                      {artifact.version > 1 ? ` · v${artifact.version}` : ''}
+                    </span>
+                    <p className="text-gray-900 dark:text-white font-medium truncate">{artifact.title}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {artifact.task
+                        ? `${artifact.task.title}${artifact.stepNumber ? `, step ${artifact.stepNumber}` : ''}`
+                        : artifact.conversation
+                          ? artifact.conversation.title
+                          : 'Chat'}{' '}
+                      <code className="text-xs">{artifact.tool}</code>
+                    </p>
+                  </div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 shrink-0 text-right">
+                    {format(new Date(artifact.createdAt), 'MMM d, yyyy h:mm a')}
+                    <br />
+                    {formatBytes(artifact.bytes)}
+                  </p>
+                </div>
+
+                {(artifact.type === 'image' || artifact.type === 'chart') && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={artifact.url} alt={artifact.title} className="max-h-48 rounded-lg" />
+                )}
+                {artifact.type === 'audio' && <audio controls src={artifact.url} className="w-full" />}
+
+                <div className="flex items-center gap-2">
+                  <a
+                    href={artifact.url}
+                    download={artifact.filename || undefined}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors"
+                  >
+                    <Download className="w-4 h-4" />
+                    Open
+                  </a>
+                  {artifact.version > 1 && (
+                    <button
+                      onClick={() => handleToggleVersions(artifact)}
+                      className="flex items-center gap-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium transition-colors"
+                    >
+                      <History className="w-4 h-4" />
+                      {versions[artifact.id] ? 'Hide versions' : `${artifact.version} versions`}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(artifact)}
+                    disabled={busyId === artifact.id}
+                    className="flex items-center gap-1 px-4 py-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-950 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ml-auto"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Delete
+                  </button>
+                </div>
+
+                {versions[artifact.id] && (
+                  <ul className="text-sm divide-y divide-gray-100 dark:divide-gray-800">
+                    {versions[artifact.id].map((version) => (
+                      <li key={version.id} className="flex items-center justify-between py-2">
+                        <span className="text-gray-700 dark:text-gray-300">
+                          v{version.version}
+                          {version.isLatest ? ' (latest)' : ''} ·{' '}
+                          {format(new Date(version.createdAt), 'MMM d, yyyy h:mm a')}
+                          {version.bytes !== null ? ` · ${formatBytes(version.bytes)}` : ''}
+                        </span>
+                        <a
+                          href={version.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          Open
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+
+        {!isLoading && nextCursor && (
+          <button
+            onClick={handleLoadMore}
+            className="w-full py-2 text-sm font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+          >
+            Load more
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ArtifactsPage() {
+  return (
+    <Suspense fallback={<div className="flex items-center justify-center min-h-screen">Loading...</div>}>
+      <ArtifactsBrowser />
+    </Suspense>
+  );
+}
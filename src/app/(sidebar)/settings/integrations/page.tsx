@@ -272,7 +272,9 @@ function IntegrationsPageContent() {
       .then((data) => {
         setMessage({
           type: 'success',
-          text: `Successfully connected Telegram bot: @${data.botInfo.username}`,
+          text:
+            `Successfully connected Telegram bot: @${data.botInfo.username}. ` +
+            `To receive approval requests in Telegram, open ${data.approvalLink} within the hour.`,
         });
         loadIntegrationStatus();
       })
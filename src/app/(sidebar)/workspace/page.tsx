@@ -187,6 +187,7 @@ export default function WorkspacePage() {
               {tasks.slice(0, 10).map((task) => (
                 <div
                   key={task.id}
+                  onClick={() => router.push(`/workspace/tasks/${task.id}`)}
                   className="flex items-start justify-between p-4 border rounded-lg hover:bg-accent/50 transition-colors cursor-pointer"
                 >
                   <div className="flex-1">
@@ -0,0 +1,268 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import { AlertCircle, ArrowLeft, CheckCircle2, Circle, GitCompare, Loader2, ShieldCheck, XCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { TaskTriggersCard } from '@/components/workspace/TaskTriggersCard';
+import { useAgentEvents } from '@/hooks/useAgentEvents';
+import type { AgentEvent, ResultChange, ResultDiff } from '@/lib/agent/types';
+
+interface StatusResponse {
+  taskId: string;
+  status: string;
+  error?: string;
+  totalSteps: number;
+  executions: {
+    step: number;
+    action: string;
+    tool: string;
+    status: string;
+    error: string | null;
+    duration: number | null;
+  }[];
+  runState: Record<string, unknown> | null;
+  resultDiff: ResultDiff | null;
+}
+
+interface StepView {
+  stepNumber: number;
+  label: string;
+  status: 'running' | 'completed' | 'failed' | 'awaiting_approval';
+  output?: unknown;
+  error?: string;
+}
+
+/**
+ * Fold the checkpointed steps and the live events into one row per step, the
+ * latest word on each winning.
+ */
+function buildSteps(initial: StatusResponse | null, events: AgentEvent[]): StepView[] {
+  const steps = new Map<number, StepView>();
+  const labels = new Map<number, string>();
+
+  for (const exec of initial?.executions || []) {
+    // Plan revisions are checkpointed alongside steps but are not steps
+    if (exec.action === 'plan.revise') continue;
+    steps.set(exec.step, {
+      stepNumber: exec.step,
+      label: exec.action,
+      status: exec.status === 'failed' ? 'failed' : 'completed',
+      error: exec.error || undefined,
+    });
+  }
+
+  for (const event of events) {
+    if (event.type === 'task.started') {
+      // The stream starts over with each fresh run, which replays every step
+      steps.clear();
+      event.plan.steps.forEach((step) => labels.set(step.stepNumber, step.description));
+    } else if (event.type === 'task.step.started') {
+      steps.set(event.stepNumber, { stepNumber: event.stepNumber, label: '', status: 'running' });
+    } else if (event.type === 'task.step.completed') {
+      steps.set(event.stepNumber, { stepNumber: event.stepNumber, label: '', status: 'completed', output: event.result.data });
+    } else if (event.type === 'task.step.failed') {
+      steps.set(event.stepNumber, { stepNumber: event.stepNumber, label: '', status: 'failed', error: event.error });
+    } else if (event.type === 'approval.required') {
+      steps.set(event.stepNumber, { stepNumber: event.stepNumber, label: event.action, status: 'awaiting_approval' });
+    }
+  }
+
+  return Array.from(steps.values())
+    .map((step) => ({ ...step, label: labels.get(step.stepNumber) || step.label || `Step ${step.stepNumber}` }))
+    .sort((a, b) => a.stepNumber - b.stepNumber);
+}
+
+function statusOf(initial: StatusResponse | null, events: AgentEvent[]): string | undefined {
+  for (let i = events.length - 1; i >= 0; i--) {
+    const type = events[i].type;
+    if (type === 'task.completed') return 'completed';
+    if (type === 'task.failed') return 'failed';
+    if (type === 'task.cancelled') return 'cancelled';
+    if (type === 'approval.required') return 'awaiting_approval';
+  }
+  return events.length ? 'executing' : initial?.status;
+}
+
+const CHANGE_STYLES: Record<ResultChange['kind'], string> = {
+  added: 'text-green-600 dark:text-green-400',
+  removed: 'text-red-600 dark:text-red-400',
+  changed: 'text-amber-600 dark:text-amber-400',
+};
+
+function shownValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * What changed in the result since the last successful run, and what the
+ * task keeps between runs (see lib/agent/run-state.ts).
+ */
+function SinceLastRunCard({ diff, state }: { diff: ResultDiff | null; state: Record<string, unknown> | null }) {
+  const hasState = !!state && Object.keys(state).length > 0;
+  if (!diff && !hasState) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <GitCompare className="h-4 w-4" />
+          What changed since last run
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!diff ? null : diff.firstRun ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">First run: nothing to compare with yet.</p>
+        ) : !diff.changed ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">Nothing changed.</p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {diff.changes.map((change) => (
+              <li key={change.path} className="flex flex-wrap gap-x-2">
+                <span className={`font-medium ${CHANGE_STYLES[change.kind]}`}>{change.kind}</span>
+                <code className="text-xs">{change.path}</code>
+                <span className="text-gray-600 dark:text-gray-400 break-all">
+                  {change.kind === 'added' && shownValue(change.after)}
+                  {change.kind === 'removed' && shownValue(change.before)}
+                  {change.kind === 'changed' && `${shownValue(change.before)} → ${shownValue(change.after)}`}
+                </span>
+              </li>
+            ))}
+            {diff.total > diff.changes.length && (
+              <li className="text-gray-500 dark:text-gray-400">…and {diff.total - diff.changes.length} more</li>
+            )}
+          </ul>
+        )}
+        {hasState && (
+          <details className="text-sm">
+            <summary className="cursor-pointer text-gray-600 dark:text-gray-400">Remembered between runs</summary>
+            <pre className="mt-2 text-xs bg-gray-50 dark:bg-gray-900 rounded-lg p-3 overflow-x-auto whitespace-pre-wrap max-h-64">
+              {JSON.stringify(state, null, 2)}
+            </pre>
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const STEP_ICONS: Record<StepView['status'], JSX.Element> = {
+  running: <Loader2 className="h-4 w-4 animate-spin text-blue-500" />,
+  completed: <CheckCircle2 className="h-4 w-4 text-green-500" />,
+  failed: <XCircle className="h-4 w-4 text-red-500" />,
+  awaiting_approval: <ShieldCheck className="h-4 w-4 text-amber-500" />,
+};
+
+export default function WorkspaceTaskPage() {
+  const { status: sessionStatus } = useSession();
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const [initial, setInitial] = useState<StatusResponse | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const { events, live } = useAgentEvents(sessionStatus === 'authenticated' ? params.id : null);
+
+  useEffect(() => {
+    if (sessionStatus === 'unauthenticated') {
+      router.push('/');
+    }
+  }, [sessionStatus, router]);
+
+  useEffect(() => {
+    if (sessionStatus !== 'authenticated') return;
+
+    fetch(`/api/agent/status/${params.id}`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Failed to load task');
+        setInitial(json);
+      })
+      .catch((e) => setLoadError(e instanceof Error ? e.message : 'Failed to load task'));
+  }, [sessionStatus, params.id]);
+
+  const steps = useMemo(() => buildSteps(initial, events), [initial, events]);
+  const status = statusOf(initial, events);
+  const failure = [...events].reverse().find((e) => e.type === 'task.failed');
+  const completion = [...events].reverse().find((e) => e.type === 'task.completed');
+  const resultDiff =
+    (completion?.type === 'task.completed' ? completion.result.resultDiff : undefined) ?? initial?.resultDiff ?? null;
+
+  return (
+    <div className="container max-w-4xl mx-auto py-8 px-4 space-y-6">
+      <Link
+        href="/workspace"
+        className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+      >
+        <ArrowLeft className="h-3.5 w-3.5" />
+        Workspace
+      </Link>
+
+      {loadError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{loadError}</AlertDescription>
+        </Alert>
+      )}
+
+      {status === 'awaiting_approval' && (
+        <Alert>
+          <ShieldCheck className="h-4 w-4" />
+          <AlertDescription>
+            A step is waiting for your approval. <Link href="/approvals" className="underline">Open approvals</Link>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {status === 'failed' && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {(failure?.type === 'task.failed' && failure.error) || initial?.error || 'The task failed.'}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between text-base">
+            <span className="capitalize">{(status || 'loading').replace('_', ' ')}</span>
+            {live && (
+              <span className="flex items-center gap-1.5 text-xs font-normal text-green-600 dark:text-green-400">
+                <Circle className="h-2 w-2 fill-current" />
+                Live
+              </span>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {steps.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">No steps have run yet.</p>
+          ) : (
+            steps.map((step) => (
+              <div key={step.stepNumber} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  {STEP_ICONS[step.status]}
+                  <span className="text-sm font-medium">
+                    {step.stepNumber}. {step.label}
+                  </span>
+                </div>
+                {step.error && <p className="text-sm text-red-600 dark:text-red-400">{step.error}</p>}
+                {step.output !== undefined && (
+                  <pre className="text-xs bg-gray-50 dark:bg-gray-900 rounded-lg p-3 overflow-x-auto whitespace-pre-wrap max-h-64">
+                    {JSON.stringify(step.output, null, 2)}
+                  </pre>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <SinceLastRunCard diff={resultDiff} state={initial?.runState ?? null} />
+
+      {sessionStatus === 'authenticated' && <TaskTriggersCard taskId={params.id} />}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import { AlertCircle, ArrowLeft, ArrowRight, CheckCircle2, Loader2, PauseCircle, SkipForward, XCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+interface TeamRunResponse {
+  run: {
+    id: string;
+    title: string;
+    status: string;
+    error: string | null;
+    result: { summary?: string; reports?: { agent: string; role: string; result: unknown }[]; skipped?: number } | null;
+  };
+  team: { name: string; teamType: string; coordinationStrategy: string; errorHandling: string; agents: { id: string; name: string; role: string }[] } | null;
+  collaborations: {
+    id: string;
+    fromAgentId: string;
+    toAgentId: string;
+    type: string;
+    message: string;
+    status: string;
+    response: string | null;
+    context: { memberTaskId?: string } | null;
+    sentAt: string;
+  }[];
+  memberTasks: { id: string; status: string; currentStep: number; totalSteps: number; totalCredits: number }[];
+}
+
+/** While the run is in one of these, the page keeps polling. */
+const ACTIVE_STATUSES = new Set(['pending', 'planning', 'executing']);
+const POLL_MS = 3000;
+
+const HANDOFF_ICONS: Record<string, JSX.Element> = {
+  pending: <Loader2 className="h-4 w-4 animate-spin text-gray-400" />,
+  in_progress: <Loader2 className="h-4 w-4 animate-spin text-blue-500" />,
+  completed: <CheckCircle2 className="h-4 w-4 text-green-500" />,
+  failed: <XCircle className="h-4 w-4 text-red-500" />,
+  skipped: <SkipForward className="h-4 w-4 text-gray-400" />,
+};
+
+export default function TeamRunPage() {
+  const { status: sessionStatus } = useSession();
+  const router = useRouter();
+  const params = useParams<{ id: string; runId: string }>();
+  const [data, setData] = useState<TeamRunResponse | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [deciding, setDeciding] = useState(false);
+
+  useEffect(() => {
+    if (sessionStatus === 'unauthenticated') {
+      router.push('/');
+    }
+  }, [sessionStatus, router]);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/teams/${params.id}/runs/${params.runId}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to load team run');
+      setData(json);
+      setLoadError(null);
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : 'Failed to load team run');
+    }
+  }, [params.id, params.runId]);
+
+  useEffect(() => {
+    if (sessionStatus === 'authenticated') load();
+  }, [sessionStatus, load]);
+
+  const runStatus = data?.run.status;
+  useEffect(() => {
+    if (!runStatus || !ACTIVE_STATUSES.has(runStatus)) return;
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, [runStatus, load]);
+
+  const decide = async (decision: 'retry' | 'continue' | 'abort') => {
+    setDeciding(true);
+    try {
+      const res = await fetch(`/api/teams/${params.id}/runs/${params.runId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to record decision');
+      await load();
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : 'Failed to record decision');
+    } finally {
+      setDeciding(false);
+    }
+  };
+
+  const agentName = (id: string) =>
+    id === 'user' ? 'You' : data?.team?.agents.find((agent) => agent.id === id)?.name || 'Removed agent';
+  const memberTask = (id?: string) => data?.memberTasks.find((task) => task.id === id);
+
+  return (
+    <div className="container max-w-4xl mx-auto py-8 px-4 space-y-6">
+      <Link
+        href="/workspace"
+        className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+      >
+        <ArrowLeft className="h-3.5 w-3.5" />
+        Workspace
+      </Link>
+
+      {loadError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{loadError}</AlertDescription>
+        </Alert>
+      )}
+
+      {runStatus === 'paused' && (
+        <Alert>
+          <PauseCircle className="h-4 w-4" />
+          <AlertDescription className="space-y-3">
+            <p>{data?.run.error}</p>
+            <div className="flex gap-2">
+              <Button size="sm" disabled={deciding} onClick={() => decide('retry')}>Retry</Button>
+              <Button size="sm" variant="outline" disabled={deciding} onClick={() => decide('continue')}>
+                Continue without it
+              </Button>
+              <Button size="sm" variant="destructive" disabled={deciding} onClick={() => decide('abort')}>Abort</Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {runStatus === 'failed' && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{data?.run.error || 'The team run failed.'}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between text-base">
+            <span>{data?.team?.name || 'Team run'}</span>
+            <span className="capitalize text-sm font-normal text-gray-500">{(runStatus || 'loading').replace('_', ' ')}</span>
+          </CardTitle>
+          {data?.team && (
+            <div className="flex gap-2 pt-1">
+              <Badge variant="secondary">{data.team.teamType}</Badge>
+              <Badge variant="secondary">{data.team.coordinationStrategy}</Badge>
+              <Badge variant="secondary">on error: {data.team.errorHandling}</Badge>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-gray-700 dark:text-gray-300">{data?.run.title}</p>
+          {!data?.collaborations.length ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">No handoffs yet.</p>
+          ) : (
+            data.collaborations.map((handoff) => {
+              const task = memberTask(handoff.context?.memberTaskId);
+              return (
+                <div key={handoff.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    {HANDOFF_ICONS[handoff.status] || HANDOFF_ICONS.pending}
+                    <span className="font-medium">{agentName(handoff.fromAgentId)}</span>
+                    <ArrowRight className="h-3.5 w-3.5 text-gray-400" />
+                    <span className="font-medium">{agentName(handoff.toAgentId)}</span>
+                    <Badge variant="outline" className="ml-auto">{handoff.type.replace('_', ' ')}</Badge>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-wrap line-clamp-4">{handoff.message}</p>
+                  {handoff.response && (
+                    <pre className="text-xs bg-gray-50 dark:bg-gray-900 rounded-lg p-3 overflow-x-auto whitespace-pre-wrap max-h-48">
+                      {handoff.response}
+                    </pre>
+                  )}
+                  {task && (
+                    <Link href={`/workspace/tasks/${task.id}`} className="text-xs text-blue-600 hover:underline">
+                      {task.status} · step {task.currentStep}/{task.totalSteps} · {task.totalCredits} credits
+                    </Link>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      {data?.run.result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Result</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {data.run.result.summary ? (
+              <p className="text-sm whitespace-pre-wrap">{data.run.result.summary}</p>
+            ) : (
+              data.run.result.reports?.map((report, i) => (
+                <div key={i} className="space-y-1">
+                  <p className="text-sm font-medium">
+                    {report.agent} <span className="font-normal text-gray-500">({report.role})</span>
+                  </p>
+                  <pre className="text-xs bg-gray-50 dark:bg-gray-900 rounded-lg p-3 overflow-x-auto whitespace-pre-wrap max-h-64">
+                    {typeof report.result === 'string' ? report.result : JSON.stringify(report.result, null, 2)}
+                  </pre>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
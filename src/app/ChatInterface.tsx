@@ -31,8 +31,8 @@ interface PendingApproval {
   toolName: string;
   input: Record<string, any>;
   description: string;
-  resumeMessages: any[];
-  approvedTools: string[];
+  /** Opaque; the server keeps the halted turn it resumes */
+  resumeToken: string;
   conversationId: string;
   model: string;
   isThinkingEnabled: boolean;
@@ -220,8 +220,7 @@ export function ChatInterface({ initialCategoryFilter, onTemplateSelectorOpen }:
         toolName: result.pendingApproval.toolName,
         input: result.pendingApproval.input,
         description: result.pendingApproval.description,
-        resumeMessages: result.resumeMessages,
-        approvedTools: requestBody.approvedTools || [],
+        resumeToken: result.resumeToken,
         conversationId,
         model: requestBody.model,
         isThinkingEnabled: requestBody.isThinkingEnabled,
@@ -344,7 +343,7 @@ export function ChatInterface({ initialCategoryFilter, onTemplateSelectorOpen }:
   const handleApproval = async (approve: boolean) => {
     if (!pendingApproval) return;
 
-    const { toolName, resumeMessages, approvedTools, conversationId, model, isThinkingEnabled } = pendingApproval;
+    const { resumeToken, conversationId, model, isThinkingEnabled } = pendingApproval;
     setPendingApproval(null);
     setIsLoading(true);
 
@@ -352,9 +351,8 @@ export function ChatInterface({ initialCategoryFilter, onTemplateSelectorOpen }:
       await runChatRequest(
         {
           resume: true,
-          resumeMessages,
-          approvedTools: approve ? [...approvedTools, toolName] : approvedTools,
-          deniedTools: approve ? [] : [toolName],
+          resumeToken,
+          decision: approve ? 'approve' : 'deny',
           model,
           isThinkingEnabled,
         },
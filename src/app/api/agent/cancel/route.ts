@@ -0,0 +1,88 @@
+/**
+ * Cancel Agent Task API
+ *
+ * Cancels an agent task that has not finished. The worker running it is told
+ * at once (see lib/agent/cancellation.ts) and stops the steps in flight; a
+ * job still waiting in the queue is dropped when it starts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { captureAPIError } from '@/lib/sentry';
+import { requestTaskStop } from '@/lib/agent/cancellation';
+
+export const dynamic = 'force-dynamic';
+
+const CANCELLABLE_STATUSES = ['pending', 'planning', 'executing', 'paused', 'awaiting_approval'];
+
+export async function POST(req: NextRequest) {
+  // Authenticate user
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { taskId } = await req.json();
+
+    if (!taskId) {
+      return NextResponse.json(
+        { error: 'Task ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Verify task belongs to user
+    const task = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        userId: session.user.id,
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!CANCELLABLE_STATUSES.includes(task.status)) {
+      return NextResponse.json(
+        { error: `Cannot cancel task in ${task.status} status` },
+        { status: 400 }
+      );
+    }
+
+    await prisma.task.update({
+      where: { id: taskId },
+      data: {
+        status: 'cancelled',
+        lastRunAt: new Date(),
+      },
+    });
+
+    await requestTaskStop(taskId, 'cancel');
+
+    return NextResponse.json({
+      success: true,
+      taskId,
+      message: 'Task cancelled.',
+    });
+
+  } catch (error: any) {
+    console.error('Error cancelling task:', error);
+    captureAPIError(error, '/api/agent/cancel', 'POST', session?.user?.id);
+
+    return NextResponse.json(
+      { error: 'Failed to cancel task', details: error.message },
+      { status: 500 }
+    );
+  }
+}
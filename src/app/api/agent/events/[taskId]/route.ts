@@ -0,0 +1,146 @@
+/**
+ * Agent Events Stream Endpoint
+ *
+ * GET /api/agent/events/[taskId]
+ * Server-Sent Events for a task as it runs: task.started, task.step.started,
+ * task.step.completed (with the tool's output), approval.required, and so on
+ * (see lib/agent/event-stream.ts). Each event carries its stream ID, so an
+ * EventSource that reconnects sends Last-Event-ID and gets only what it
+ * missed; `?lastEventId=` does the same for clients that cannot set headers.
+ *
+ * The stream closes after the run's final event, or after MAX_STREAM_MS —
+ * the browser then reconnects and resumes from its last event.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { isTerminalEvent, readAgentEvents, toSseMessage } from '@/lib/agent/event-stream';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+const POLL_INTERVAL_MS = 1000;
+const PAGE_SIZE = 100;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const MAX_STREAM_MS = 280_000;
+const FINISHED_STATUSES = new Set(['completed', 'failed', 'cancelled']);
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { taskId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const task = await prisma.task.findUnique({
+      where: { id: params.taskId },
+      select: { id: true, userId: true, status: true },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    if (task.userId !== user.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    let lastEventId =
+      request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId') || undefined;
+    // A run that already finished has nothing more to publish: replay and close
+    const alreadyFinished = FINISHED_STATUSES.has(task.status);
+    if (alreadyFinished && lastEventId && !(await readAgentEvents(task.id, lastEventId, 1)).length) {
+      // Nothing left to replay. 204 tells EventSource to stop reconnecting.
+      return new Response(null, { status: 204 });
+    }
+    let closed = false;
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk));
+        };
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          controller.close();
+        };
+
+        request.signal.addEventListener('abort', close);
+        send(`retry: 3000\n\n`);
+
+        const startedAt = Date.now();
+        let lastWrite = startedAt;
+
+        try {
+          while (!closed && Date.now() - startedAt < MAX_STREAM_MS) {
+            const entries = await readAgentEvents(task.id, lastEventId, PAGE_SIZE);
+
+            for (const entry of entries) {
+              send(toSseMessage(entry));
+              lastEventId = entry.id;
+              lastWrite = Date.now();
+
+              if (isTerminalEvent(entry.event)) {
+                close();
+                return;
+              }
+            }
+
+            // A full page means more are waiting; otherwise wait for new ones
+            if (entries.length === PAGE_SIZE) continue;
+            if (alreadyFinished) break;
+
+            if (Date.now() - lastWrite >= HEARTBEAT_INTERVAL_MS) {
+              send(`: heartbeat\n\n`);
+              lastWrite = Date.now();
+            }
+            await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+          }
+        } catch (error) {
+          console.error(`[AgentEvents] Stream for task ${task.id} failed:`, error);
+        }
+
+        close();
+      },
+      cancel() {
+        closed = true;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      },
+    });
+
+  } catch (error: any) {
+    console.error('Error streaming agent events:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to stream events',
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,15 +3,21 @@
  *
  * POST /api/agent/execute
  * Execute a task using the autonomous agent system
+ *
+ * With `dryRun: true` nothing is executed, saved or charged: the plan runs
+ * against simulated tool results (or `fixtures`, keyed by "step_N" or tool
+ * name) and the response lists the projected credits and the side effects a
+ * real run would have had. Dry runs always run synchronously.
  */
 
+import { randomUUID } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { AgentExecutor } from '@/lib/agent/executor';
-import { toolRegistry } from '@/lib/agent/tools';
-import { AgentTask, AgentConfig } from '@/lib/agent/types';
+import { loadUserToolRegistry } from '@/lib/agent/custom-tools';
+import { AgentTask, AgentConfig, DryRunOptions, DryRunReport, ExecutionPlan } from '@/lib/agent/types';
 import { queueAgentTask } from '@/lib/queue/agent-queue';
 
 export async function POST(request: NextRequest) {
@@ -32,6 +38,7 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
     const { taskId, goal, agentType, config } = body;
+    const dryRun: DryRunOptions | null = body.dryRun ? { fixtures: body.fixtures } : null;
 
     // If taskId provided, execute existing task
     if (taskId) {
@@ -48,7 +55,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Execute the task
-      return executeExistingTask(task, user.id);
+      return executeExistingTask(task, user.id, dryRun);
     }
 
     // Create new task and execute
@@ -66,6 +73,24 @@ export async function POST(request: NextRequest) {
       retryCount: 3,
     };
 
+    // Dry run of a new goal: plan and simulate without creating a task
+    if (dryRun) {
+      const agentTask: AgentTask = {
+        id: `dry-run-${randomUUID()}`,
+        userId: user.id,
+        type: agentType,
+        goal,
+        config: agentConfig,
+        createdAt: new Date(),
+      };
+
+      const executor = new AgentExecutor(agentType, agentConfig, await loadUserToolRegistry(user.id));
+      const plan = await executor.plan(agentTask);
+      const report = await executor.dryRun(agentTask, plan, dryRun);
+
+      return dryRunResponse(report, plan, user.monthlyCredits - user.creditsUsed);
+    }
+
     // Create task
     const task = await prisma.task.create({
       data: {
@@ -109,7 +134,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Execute synchronously
-    const executor = new AgentExecutor(agentType, agentConfig, toolRegistry);
+    const executor = new AgentExecutor(agentType, agentConfig, await loadUserToolRegistry(user.id));
 
     // Create plan
     const plan = await executor.plan(agentTask);
@@ -178,7 +203,7 @@ export async function POST(request: NextRequest) {
 /**
  * Execute existing task
  */
-async function executeExistingTask(task: any, userId: string) {
+async function executeExistingTask(task: any, userId: string, dryRun: DryRunOptions | null) {
   const agentConfig: AgentConfig = task.agentConfig || {
     model: task.agentModel || 'claude-sonnet-4-5-20250929',
     maxSteps: 20,
@@ -195,7 +220,16 @@ async function executeExistingTask(task: any, userId: string) {
     createdAt: task.createdAt,
   };
 
-  const executor = new AgentExecutor(task.agentType, agentConfig, toolRegistry);
+  const executor = new AgentExecutor(task.agentType, agentConfig, await loadUserToolRegistry(userId));
+
+  // Dry run: simulate the saved plan (or a fresh one, which is not saved)
+  if (dryRun) {
+    const plan: ExecutionPlan = task.plan || (await executor.plan(agentTask));
+    const report = await executor.dryRun(agentTask, plan, dryRun);
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    return dryRunResponse(report, plan, user ? user.monthlyCredits - user.creditsUsed : 0);
+  }
 
   // If plan exists, use it; otherwise create new plan
   let plan = task.plan;
@@ -229,6 +263,29 @@ async function executeExistingTask(task: any, userId: string) {
   });
 }
 
+/**
+ * Shape a dry-run report for the response
+ */
+function dryRunResponse(report: DryRunReport, plan: ExecutionPlan, creditsAvailable: number) {
+  return NextResponse.json({
+    success: true,
+    dryRun: true,
+    taskId: report.taskId,
+    status: report.status,
+    error: report.error,
+    plan,
+    projectedCredits: report.projectedCredits,
+    creditsAvailable,
+    sideEffects: report.sideEffects,
+    warnings: report.warnings,
+    metrics: {
+      steps: report.steps,
+      duration: report.duration,
+    },
+    trace: report.trace,
+  });
+}
+
 /**
  * Convert priority string to numeric value for queue
  */
@@ -1,7 +1,9 @@
 /**
  * Pause Agent Task API
  *
- * Pauses a running agent task and saves its state for later resume.
+ * Pauses a running agent task and saves its state for later resume. The
+ * worker running it is told at once (see lib/agent/cancellation.ts) and stops
+ * the steps in flight; they run again on resume.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -9,6 +11,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { captureAPIError } from '@/lib/sentry';
+import { requestTaskStop } from '@/lib/agent/cancellation';
 
 export const dynamic = 'force-dynamic';
 
@@ -56,9 +59,6 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Update task status to paused
-    // The actual pause logic will be triggered by the agent executor
-    // when it checks for the pause signal
     await prisma.task.update({
       where: { id: taskId },
       data: {
@@ -67,10 +67,12 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    await requestTaskStop(taskId, 'pause');
+
     return NextResponse.json({
       success: true,
       taskId,
-      message: 'Task pause requested. Task will pause after current step completes.',
+      message: 'Task paused. Steps in progress were stopped and will run again on resume.',
     });
 
   } catch (error: any) {
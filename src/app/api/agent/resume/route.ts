@@ -1,16 +1,16 @@
 /**
  * Resume Agent Task API
  *
- * Resumes a paused agent task from where it left off.
+ * Resumes a paused agent task from where it left off. The worker rebuilds the
+ * run from its TaskExecution checkpoints and continues from the first
+ * incomplete step; nothing is replanned and completed steps are not re-run.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { AgentExecutor } from '@/lib/agent/executor';
-import { ToolRegistry } from '@/lib/agent/tools/registry';
-import { AgentState } from '@/lib/agent/types';
+import { loadCheckpoint } from '@/lib/agent/checkpoint';
 import { queueAgentTask } from '@/lib/queue/agent-queue';
 import { captureAPIError } from '@/lib/sentry';
 
@@ -43,11 +43,6 @@ export async function POST(req: NextRequest) {
         id: taskId,
         userId: session.user.id,
       },
-      include: {
-        executions: {
-          orderBy: { step: 'asc' },
-        },
-      },
     });
 
     if (!task) {
@@ -64,21 +59,15 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Reconstruct state from database
-    const state: AgentState = {
-      taskId: task.id,
-      status: 'paused',
-      currentStep: task.currentStep,
-      totalSteps: task.totalSteps,
-      progress: Math.round((task.currentStep / task.totalSteps) * 100),
-      startedAt: task.startedAt || new Date(),
-      lastActivityAt: task.lastRunAt || new Date(),
-      creditsUsed: task.totalCredits,
-      tokensUsed: task.totalTokens,
-      executionTime: task.executionTime || 0,
-      context: (task.executionTrace as any)?.context || {},
-      trace: (task.executionTrace as any)?.trace || [],
-    };
+    // Reconstruct state from the run's checkpoints
+    const state = await loadCheckpoint(taskId);
+
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Task has no execution plan to resume' },
+        { status: 400 }
+      );
+    }
 
     // Update task status to executing
     await prisma.task.update({
@@ -36,6 +36,10 @@ export async function GET(
           orderBy: { createdAt: 'asc' },
           take: 100,
         },
+        childTasks: {
+          orderBy: { createdAt: 'asc' },
+          select: { id: true, title: true, status: true, totalCredits: true, error: true, createdAt: true },
+        },
       },
     });
 
@@ -68,6 +72,10 @@ export async function GET(
       tokensUsed: task.totalTokens,
       result: task.result,
       error: task.error,
+      // Carried between runs (see lib/agent/run-state.ts): what the plan
+      // saved, and what changed in the last successful run's result
+      runState: task.runState,
+      resultDiff: task.resultDiff,
       startedAt: task.startedAt,
       completedAt: task.completedAt,
       // Document generation pipeline fields (null for non-document tasks) —
@@ -77,6 +85,10 @@ export async function GET(
       documentSpec: task.documentSpec,
       documentPhase: task.documentPhase,
       requestedFormats: task.requestedFormats,
+      // Sub-agents spawned with agent.delegate, and the task that spawned
+      // this one if it is one of them
+      parentTaskId: task.parentTaskId,
+      childTasks: task.childTasks,
       executions: task.executions.map((exec: any) => ({
         step: exec.step,
         action: exec.action,
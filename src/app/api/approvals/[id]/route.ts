@@ -0,0 +1,92 @@
+/**
+ * GET  /api/approvals/[id] — one approval request
+ * POST /api/approvals/[id] — decide it: { decision: 'approve' | 'deny', reason? }
+ *
+ * Deciding resumes the task that halted on the request (see
+ * lib/agent/approval-inbox.ts). A request can be decided once.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { decideApproval, type ApprovalFailureReason } from '@/lib/agent/approval-inbox';
+
+export const dynamic = 'force-dynamic';
+
+function statusFor(reason: ApprovalFailureReason): number {
+  switch (reason) {
+    case 'not_found':
+      return 404;
+    case 'already_decided':
+    case 'expired':
+      return 409;
+  }
+}
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const approval = await prisma.approvalRequest.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      include: { task: { select: { id: true, title: true, status: true } } },
+    });
+
+    if (!approval) {
+      return NextResponse.json({ error: 'Approval request not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ approval });
+  } catch (error) {
+    console.error('Get approval error:', error);
+    return NextResponse.json({ error: 'Failed to load approval request' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { decision, reason } = await request.json();
+
+    if (decision !== 'approve' && decision !== 'deny') {
+      return NextResponse.json(
+        { error: "decision must be 'approve' or 'deny'" },
+        { status: 400 }
+      );
+    }
+
+    if (reason !== undefined && typeof reason !== 'string') {
+      return NextResponse.json({ error: 'reason must be a string' }, { status: 400 });
+    }
+
+    const result = await decideApproval({
+      requestId: params.id,
+      userId: session.user.id,
+      decision,
+      reason: reason?.substring(0, 1000),
+      via: 'web',
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.message }, { status: statusFor(result.reason) });
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: result.status,
+      taskId: result.taskId,
+      resumed: result.resumed,
+    });
+  } catch (error) {
+    console.error('Decide approval error:', error);
+    return NextResponse.json({ error: 'Failed to record decision' }, { status: 500 });
+  }
+}
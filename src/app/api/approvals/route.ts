@@ -0,0 +1,40 @@
+/**
+ * GET /api/approvals?status=pending
+ *
+ * The signed-in user's approval requests — agent steps that halted waiting
+ * for a human decision — newest first. `status` filters to one of pending,
+ * approved, denied or expired.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { listApprovals } from '@/lib/agent/approval-inbox';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES = ['pending', 'approved', 'denied', 'expired'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const status = request.nextUrl.searchParams.get('status') || undefined;
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const approvals = await listApprovals(session.user.id, status);
+
+    return NextResponse.json({ approvals });
+  } catch (error) {
+    console.error('List approvals error:', error);
+    return NextResponse.json({ error: 'Failed to load approvals' }, { status: 500 });
+  }
+}
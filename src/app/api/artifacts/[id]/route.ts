@@ -0,0 +1,48 @@
+/**
+ * GET    /api/artifacts/[id] — one artifact with its version history
+ * DELETE /api/artifacts/[id] — delete it, every version and stored file
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { deleteArtifact, getArtifact } from '@/lib/artifacts';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const found = await getArtifact(session.user.id, params.id);
+    if (!found) {
+      return NextResponse.json({ error: 'Artifact not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(found);
+  } catch (error) {
+    console.error('Get artifact error:', error);
+    return NextResponse.json({ error: 'Failed to load artifact' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await deleteArtifact(session.user.id, params.id))) {
+      return NextResponse.json({ error: 'Artifact not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete artifact error:', error);
+    return NextResponse.json({ error: 'Failed to delete artifact' }, { status: 500 });
+  }
+}
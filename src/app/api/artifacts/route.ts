@@ -0,0 +1,45 @@
+/**
+ * GET /api/artifacts?type=document&taskId=...&conversationId=...&q=...&cursor=...
+ *
+ * The signed-in user's artifacts — files their agents produced — latest
+ * versions only, newest first, ARTIFACT_PAGE_SIZE at a time. Pass the
+ * returned nextCursor as `cursor` for the next page.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ARTIFACT_TYPES, listArtifacts } from '@/lib/artifacts';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const type = params.get('type') || undefined;
+    if (type && !(ARTIFACT_TYPES as readonly string[]).includes(type)) {
+      return NextResponse.json(
+        { error: `type must be one of: ${ARTIFACT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const page = await listArtifacts(session.user.id, {
+      type,
+      taskId: params.get('taskId') || undefined,
+      conversationId: params.get('conversationId') || undefined,
+      q: params.get('q')?.trim() || undefined,
+      cursor: params.get('cursor') || undefined,
+    });
+
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('List artifacts error:', error);
+    return NextResponse.json({ error: 'Failed to load artifacts' }, { status: 500 });
+  }
+}
@@ -12,6 +12,24 @@ import { buildSystemPrompt } from '@/lib/personalization';
 import { getMemoryContext, extractAndStoreFacts, shouldExtractFacts } from '@/lib/memory/facts';
 import { getStyleContext, maybeRebuildStyleProfile } from '@/lib/style/profile';
 import { runChatLoop } from '@/lib/agent/chat-loop';
+import {
+  createChatApproval,
+  decideChatApproval,
+  findChatApproval,
+  type ChatApprovalDecision,
+  type ChatApprovalFailureReason,
+} from '@/lib/agent/chat-approvals';
+
+function statusFor(reason: ChatApprovalFailureReason): number {
+  switch (reason) {
+    case 'not_found':
+      return 404;
+    case 'tampered':
+    case 'already_decided':
+    case 'expired':
+      return 409;
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -76,7 +94,10 @@ export async function POST(request: NextRequest) {
       approvedTools = [],
       deniedTools = [],
       resume = false,
+      resumeToken,
       resumeMessages,
+      decision: approvalDecision,
+      conversationId,
     } = body;
 
     // Validate input
@@ -92,13 +113,77 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (resume && (!Array.isArray(resumeMessages) || resumeMessages.length === 0)) {
+    if (
+      resume &&
+      typeof resumeToken !== 'string' &&
+      (!Array.isArray(resumeMessages) || resumeMessages.length === 0)
+    ) {
+      return NextResponse.json(
+        { error: 'resumeToken is required when resume is true' },
+        { status: 400 }
+      );
+    }
+
+    if (approvalDecision !== undefined && approvalDecision !== 'approve' && approvalDecision !== 'deny') {
       return NextResponse.json(
-        { error: 'resumeMessages is required when resume is true' },
+        { error: "decision must be 'approve' or 'deny'" },
         { status: 400 }
       );
     }
 
+    // A resume continues a turn halted for approval, from the messages stored
+    // when it halted (see lib/agent/chat-approvals.ts). Older clients send
+    // those messages back instead of the token; they must match the stored
+    // ones exactly. The decision is taken just before the turn resumes.
+    let pending: { id: string; decision: ChatApprovalDecision } | null = null;
+    let turnConversationId: string | undefined = conversationId;
+    if (resume) {
+      const found = await findChatApproval(user.id, {
+        resumeToken: typeof resumeToken === 'string' ? resumeToken : undefined,
+        resumeMessages,
+      });
+      if (!found.ok) {
+        return NextResponse.json({ error: found.message }, { status: statusFor(found.reason) });
+      }
+
+      // Older clients say which by adding the tool to approvedTools or deniedTools
+      const { tool } = found.approval;
+      const resolved: ChatApprovalDecision | undefined =
+        approvalDecision ??
+        (Array.isArray(deniedTools) && deniedTools.includes(tool)
+          ? 'deny'
+          : Array.isArray(approvedTools) && approvedTools.includes(tool)
+            ? 'approve'
+            : undefined);
+      if (!resolved) {
+        return NextResponse.json(
+          { error: `decision is required: approve or deny ${tool}` },
+          { status: 400 }
+        );
+      }
+
+      pending = { id: found.approval.id, decision: resolved };
+      turnConversationId = found.approval.conversationId ?? conversationId;
+    }
+
+    // Files the turn's tools make are filed under the conversation (see
+    // lib/artifacts.ts), so it has to be the user's own. Its workspace's tool
+    // policies and domain lists apply to the turn.
+    let turnWorkspaceId: string | undefined;
+    if (turnConversationId !== undefined) {
+      const conversation =
+        typeof turnConversationId === 'string'
+          ? await prisma.conversation.findFirst({
+              where: { id: turnConversationId, userId: user.id },
+              select: { id: true, workspaceId: true },
+            })
+          : null;
+      if (!conversation) {
+        return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+      }
+      turnWorkspaceId = conversation.workspaceId ?? undefined;
+    }
+
     // Reset credits if the monthly window has rolled over.
     // (transparently resolves to the team billing pool if this user is a team member)
     await checkAndResetCredits(user.id);
@@ -171,14 +256,27 @@ export async function POST(request: NextRequest) {
     })) : [];
 
     let loopMessages: AIMessage[];
-
-    if (resume) {
-      // Approval flow resuming mid-loop: the client echoes back the opaque
-      // internal message array from the pendingApproval response verbatim.
-      // It already contains the tool_use/tool_result blocks needed to
-      // continue — plain-text `history` can't reconstruct those, so this
-      // path skips rebuilding system/history/content entirely.
-      loopMessages = resumeMessages as AIMessage[];
+    let loopApprovedTools: string[] = Array.isArray(approvedTools) ? approvedTools : [];
+    let loopDeniedTools: string[] = Array.isArray(deniedTools) ? deniedTools : [];
+
+    if (pending) {
+      // Approval flow resuming mid-loop, from the stored message array. It
+      // already contains the tool_use/tool_result blocks needed to continue —
+      // plain-text `history` can't reconstruct those, so this path skips
+      // rebuilding system/history/content entirely. Which tools are approved
+      // comes from the stored turn too, not from the client.
+      const decided = await decideChatApproval({
+        approvalId: pending.id,
+        userId: user.id,
+        decision: pending.decision,
+        via: session?.user?.id === user.id ? 'web' : 'api',
+      });
+      if (!decided.ok) {
+        return NextResponse.json({ error: decided.message }, { status: statusFor(decided.reason) });
+      }
+      loopMessages = decided.messages;
+      loopApprovedTools = decided.approvedTools;
+      loopDeniedTools = decided.deniedTools;
     } else {
       // Build message content with support for images and text
       const contentBlocks: any[] = [];
@@ -241,20 +339,32 @@ export async function POST(request: NextRequest) {
       modelId,
       messages: loopMessages,
       userId: user.id,
-      approvedTools: Array.isArray(approvedTools) ? approvedTools : [],
-      deniedTools: Array.isArray(deniedTools) ? deniedTools : [],
+      approvedTools: loopApprovedTools,
+      deniedTools: loopDeniedTools,
       surface: 'chat',
       maxTokens,
       thinking: thinkingConfig,
+      signal: request.signal,
+      conversationId: turnConversationId,
+      workspaceId: turnWorkspaceId,
     });
 
     if (loopResult.status === 'pendingApproval') {
       // Not an error — a normal conversational branch waiting on the user.
+      // resumeMessages is still returned for clients that echo it back.
+      const { resumeToken: nextResumeToken, expiresAt } = await createChatApproval({
+        userId: user.id,
+        conversationId: turnConversationId,
+        messages: loopResult.resumeMessages,
+        approvedTools: loopApprovedTools,
+        pending: loopResult.pendingApproval,
+      });
       return NextResponse.json(
         {
           success: false,
           needsApproval: true,
-          pendingApproval: loopResult.pendingApproval,
+          pendingApproval: { ...loopResult.pendingApproval, expiresAt: expiresAt.toISOString() },
+          resumeToken: nextResumeToken,
           resumeMessages: loopResult.resumeMessages,
           toolTrace: loopResult.toolTrace,
         },
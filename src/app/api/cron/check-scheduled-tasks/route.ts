@@ -22,8 +22,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { timingSafeEqual } from 'crypto';
 import { prisma } from '@/lib/prisma';
-import { queueAgentTask } from '@/lib/queue/agent-queue';
-import { CronExpressionParser } from 'cron-parser';
+import { expireStaleApprovals } from '@/lib/agent/approval-inbox';
+import { expireChatApprovals } from '@/lib/agent/chat-approvals';
+import { checkScheduledTasks } from '@/lib/agent/scheduler';
+import { processTriggerEvents } from '@/lib/agent/triggers';
 
 export const runtime = 'nodejs'; // Required for Vercel Cron
 export const dynamic = 'force-dynamic'; // Disable caching
@@ -74,113 +76,49 @@ export async function POST(request: NextRequest) {
 
     console.log('🔍 Checking for scheduled tasks...');
 
-    // Find tasks that are scheduled and due to run
     const now = new Date();
-    const scheduledTasks = await prisma.task.findMany({
-      where: {
-        scheduleEnabled: true,
-        nextRunAt: {
-          lte: now,
-        },
-        status: {
-          in: ['pending', 'completed'], // Only run pending or previously completed tasks
-        },
-      },
-      orderBy: {
-        priority: 'desc', // Higher priority first
-      },
-      take: 50, // Process max 50 tasks per check
-      include: {
-        user: {
-          select: {
-            id: true,
-            plan: true,
-            creditsUsed: true,
-            monthlyCredits: true,
-          },
-        },
-      },
-    });
 
-    if (scheduledTasks.length === 0) {
-      console.log('✅ No scheduled tasks to run');
-      return NextResponse.json({
-        success: true,
-        tasksQueued: 0,
-        message: 'No scheduled tasks due',
-      });
+    // Expire approval requests nobody answered, failing the tasks halted on
+    // them. Best-effort: it must not keep scheduled tasks from running.
+    try {
+      const { expired, tasksFailed } = await expireStaleApprovals(now);
+      if (expired > 0) {
+        console.log(`⌛ Expired ${expired} approval requests, failed ${tasksFailed} waiting tasks`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to expire approval requests:', error);
     }
 
-    console.log(`📅 Found ${scheduledTasks.length} scheduled tasks to run`);
-
-    const results = {
-      queued: 0,
-      skipped: 0,
-      failed: 0,
-      errors: [] as string[],
-    };
-
-    // Queue each task
-    for (const task of scheduledTasks) {
-      try {
-        // Check if user has enough credits
-        const creditsAvailable = task.user.monthlyCredits - task.user.creditsUsed;
-        const estimatedCredits = (task.plan as any)?.estimatedCredits || 100;
-
-        if (creditsAvailable < estimatedCredits) {
-          console.log(`⚠️ Skipping task ${task.id} - insufficient credits`);
-          results.skipped++;
-
-          // Update task to indicate credit issue
-          await prisma.task.update({
-            where: { id: task.id },
-            data: {
-              error: 'Insufficient credits for scheduled execution',
-              status: 'failed',
-            },
-          });
-
-          continue;
-        }
-
-        // Queue the task
-        const priority = getPriorityValue(task.priority);
-        await queueAgentTask(task.user.id, task.id, {
-          priority,
-          retryCount: 3,
-        });
-
-        // Calculate next run time from cron expression
-        const nextRunAt = calculateNextRunTime(task.schedule!, task.timezone || 'America/New_York');
-
-        // Update task with next run time
-        await prisma.task.update({
-          where: { id: task.id },
-          data: {
-            nextRunAt,
-            lastRunAt: now,
-            status: 'pending', // Reset status for queue processing
-          },
-        });
-
-        console.log(`✅ Queued task ${task.id}, next run: ${nextRunAt.toISOString()}`);
-        results.queued++;
-
-      } catch (error: any) {
-        console.error(`❌ Failed to queue task ${task.id}:`, error);
-        results.failed++;
-        results.errors.push(`Task ${task.id}: ${error.message}`);
+    // Drop chat turns left waiting on an approval past their expiry
+    try {
+      const expiredChats = await expireChatApprovals(now);
+      if (expiredChats > 0) {
+        console.log(`⌛ Expired ${expiredChats} chat approvals`);
       }
+    } catch (error) {
+      console.error('❌ Failed to expire chat approvals:', error);
     }
 
-    console.log(`✅ Scheduled task check complete: ${results.queued} queued, ${results.skipped} skipped, ${results.failed} failed`);
+    // Fire due schedules in their timezones, under their misfire and
+    // overlap policies (see lib/agent/scheduler.ts)
+    const results = await checkScheduledTasks(now);
+
+    console.log(
+      `✅ Scheduled task check complete: ${results.queued} queued, ${results.waiting} waiting, ${results.skipped} skipped, ${results.failed} failed`
+    );
+
+    // Start tasks whose triggers match events since the last check (see
+    // lib/agent/triggers.ts)
+    const triggered = await processTriggerEvents(now);
 
     return NextResponse.json({
       success: true,
       tasksQueued: results.queued,
+      tasksWaiting: results.waiting,
       tasksSkipped: results.skipped,
       tasksFailed: results.failed,
       errors: results.errors,
+      triggers: triggered,
       checkedAt: now.toISOString(),
     });
 
@@ -216,9 +154,6 @@ export async function GET(request: NextRequest) {
   const scheduledCount = await prisma.task.count({
     where: {
       scheduleEnabled: true,
-      status: {
-        in: ['pending', 'completed'],
-      },
     },
   });
 
@@ -228,9 +163,6 @@ export async function GET(request: NextRequest) {
       nextRunAt: {
         lte: new Date(),
       },
-      status: {
-        in: ['pending', 'completed'],
-      },
     },
   });
 
@@ -241,38 +173,3 @@ export async function GET(request: NextRequest) {
     timestamp: new Date().toISOString(),
   });
 }
-
-/**
- * Convert priority string to numeric value
- */
-function getPriorityValue(priority: string | null): number {
-  switch (priority) {
-    case 'urgent':
-      return 1;
-    case 'high':
-      return 2;
-    case 'medium':
-      return 3;
-    case 'low':
-      return 4;
-    default:
-      return 3;
-  }
-}
-
-/**
- * Calculate next run time from cron expression
- */
-function calculateNextRunTime(cronExpression: string, timezone: string): Date {
-  try {
-    const interval = CronExpressionParser.parse(cronExpression, {
-      currentDate: new Date(),
-      tz: timezone,
-    });
-    return interval.next().toDate();
-  } catch (error) {
-    console.error('Invalid cron expression:', cronExpression, error);
-    // Default to 1 day from now if cron parsing fails
-    return new Date(Date.now() + 86400000);
-  }
-}
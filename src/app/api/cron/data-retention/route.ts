@@ -10,6 +10,10 @@
  * orphaned sandbox is caught within 24h instead of 5min; move it back to its
  * own cron entry in vercel.json once the plan allows more/faster crons.
  *
+ * The outbound webhook sweep (see lib/webhooks/outbound.ts) rides along for
+ * the same reason: it attempts retries the queue could not schedule and prunes
+ * the delivery log.
+ *
  * Guarded by CRON_SECRET exactly like the other cron endpoints — Vercel Cron
  * sends `Authorization: Bearer $CRON_SECRET` automatically.
  *
@@ -21,6 +25,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { timingSafeEqual } from 'crypto';
 import { purgeExpiredData } from '@/lib/data-retention';
 import { runSandboxSweep } from '@/lib/sandbox/sweeper';
+import { sweepWebhookDeliveries } from '@/lib/webhooks/outbound';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -63,5 +68,13 @@ export async function POST(request: NextRequest) {
     sandboxSweep = { error: err instanceof Error ? err.message : String(err) };
   }
 
-  return NextResponse.json({ success: true, ...result, sandboxSweep });
+  let webhookSweep: Awaited<ReturnType<typeof sweepWebhookDeliveries>> | { error: string };
+  try {
+    webhookSweep = await sweepWebhookDeliveries();
+  } catch (err) {
+    console.error('[data-retention] Webhook delivery sweep threw:', err);
+    webhookSweep = { error: err instanceof Error ? err.message : String(err) };
+  }
+
+  return NextResponse.json({ success: true, ...result, sandboxSweep, webhookSweep });
 }
@@ -0,0 +1,127 @@
+/**
+ * GET    /api/custom-tools/[id] — one custom tool
+ * PATCH  /api/custom-tools/[id] — change any of the fields it was created with
+ * DELETE /api/custom-tools/[id] — remove it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { CUSTOM_TOOL_FIELDS, customToolNameTaken, validateCustomToolInput } from '@/lib/agent/custom-tools';
+import { customToolName } from '@/lib/agent/tools/custom';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const tool = await prisma.customTool.findFirst({
+      where: { id: params.id, integration: { userId: session.user.id } },
+      select: CUSTOM_TOOL_FIELDS,
+    });
+
+    if (!tool) {
+      return NextResponse.json({ error: 'Custom tool not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ tool: { ...tool, toolName: customToolName(tool.name) } });
+  } catch (error) {
+    console.error('Get custom tool error:', error);
+    return NextResponse.json({ error: 'Failed to load custom tool' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const existing = await prisma.customTool.findFirst({
+      where: { id: params.id, integration: { userId } },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Custom tool not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const issues = validateCustomToolInput(body, true);
+    if (body.integrationId !== undefined && typeof body.integrationId !== 'string') {
+      issues.push('integrationId must be a string');
+    }
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid custom tool', details: issues }, { status: 400 });
+    }
+
+    if (body.integrationId !== undefined) {
+      const integration = await prisma.integration.findFirst({
+        where: { id: body.integrationId, userId },
+        select: { id: true },
+      });
+      if (!integration) {
+        return NextResponse.json({ error: 'Integration not found' }, { status: 404 });
+      }
+    }
+
+    if (body.name !== undefined && (await customToolNameTaken(userId, body.name, existing.id))) {
+      return NextResponse.json(
+        { error: `You already have a tool named ${customToolName(body.name)}` },
+        { status: 409 }
+      );
+    }
+
+    const tool = await prisma.customTool.update({
+      where: { id: existing.id },
+      data: {
+        integrationId: body.integrationId,
+        name: typeof body.name === 'string' ? body.name.trim() : undefined,
+        description: typeof body.description === 'string' ? body.description.substring(0, 1000) : undefined,
+        endpoint: body.endpoint,
+        method: typeof body.method === 'string' ? body.method.toUpperCase() : undefined,
+        parameters: body.parameters,
+        headers: body.headers,
+        authentication: body.authentication,
+        responseMapping: body.responseMapping,
+        errorMapping: body.errorMapping,
+      },
+      select: CUSTOM_TOOL_FIELDS,
+    });
+
+    return NextResponse.json({ tool: { ...tool, toolName: customToolName(tool.name) } });
+  } catch (error) {
+    console.error('Update custom tool error:', error);
+    return NextResponse.json({ error: 'Failed to update custom tool' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deleted = await prisma.customTool.deleteMany({
+      where: { id: params.id, integration: { userId: session.user.id } },
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Custom tool not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete custom tool error:', error);
+    return NextResponse.json({ error: 'Failed to delete custom tool' }, { status: 500 });
+  }
+}
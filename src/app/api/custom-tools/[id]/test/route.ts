@@ -0,0 +1,62 @@
+/**
+ * POST /api/custom-tools/[id]/test — { params }
+ *
+ * Call the tool once with `params`, exactly as an agent would, and return
+ * what the agent would get back. Not charged; it counts as a call.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getCustomTool } from '@/lib/agent/custom-tools';
+import { getToolTimeout } from '@/lib/agent/guards';
+import type { AgentContext, AgentState } from '@/lib/agent/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const tool = await getCustomTool(session.user.id, params.id);
+    if (!tool) {
+      return NextResponse.json({ error: 'Custom tool not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const input = body.params ?? {};
+
+    const validation = tool.validate(input);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const context: AgentContext = {
+      userId: session.user.id,
+      taskId: `custom-tool-test-${tool.customToolId}`,
+      stepNumber: 0,
+      state: {} as AgentState,
+      prisma,
+      aiRouter: null,
+      memory: {},
+      signal: AbortSignal.timeout(getToolTimeout(tool.name)),
+    };
+
+    const result = await tool.execute(input, context);
+
+    return NextResponse.json({
+      success: result.success,
+      toolName: tool.name,
+      data: result.data,
+      error: result.error,
+      durationMs: result.metadata?.duration,
+    });
+  } catch (error) {
+    console.error('Custom tool test call error:', error);
+    return NextResponse.json({ error: 'Failed to call custom tool' }, { status: 500 });
+  }
+}
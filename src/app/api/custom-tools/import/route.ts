@@ -0,0 +1,76 @@
+/**
+ * POST /api/custom-tools/import — { integrationId, spec, operations?, serverUrl?, apply?, prune? }
+ *
+ * Generate custom tools from an OpenAPI 3.x document (`spec`, as JSON or YAML
+ * text or parsed JSON). Without `apply`, returns each operation and what
+ * importing it would do; with it, creates and updates the tools. `operations`
+ * picks operations by "METHOD /path" or operationId, `serverUrl` overrides
+ * the spec's servers, and `prune` deletes tools whose operation was removed
+ * from the spec (see lib/agent/openapi-import.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { importOpenApiSpec, type ImportFailureReason } from '@/lib/agent/openapi-import';
+
+export const dynamic = 'force-dynamic';
+
+function statusFor(reason: ImportFailureReason): number {
+  return reason === 'not_found' ? 404 : 400;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+
+    const issues: string[] = [];
+    if (typeof body.integrationId !== 'string') {
+      issues.push('integrationId is required');
+    }
+    if (typeof body.spec !== 'string' && (body.spec === null || typeof body.spec !== 'object')) {
+      issues.push('spec must be the OpenAPI document, as text or JSON');
+    }
+    if (
+      body.operations !== undefined &&
+      (!Array.isArray(body.operations) || body.operations.some((op: unknown) => typeof op !== 'string'))
+    ) {
+      issues.push('operations must be a list of "METHOD /path" keys or operationIds');
+    }
+    if (body.serverUrl !== undefined && typeof body.serverUrl !== 'string') {
+      issues.push('serverUrl must be a string');
+    }
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid import', details: issues }, { status: 400 });
+    }
+
+    const result = await importOpenApiSpec({
+      userId: session.user.id,
+      integrationId: body.integrationId,
+      spec: body.spec,
+      operations: body.operations,
+      serverUrl: body.serverUrl,
+      apply: body.apply === true,
+      prune: body.prune === true,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.message }, { status: statusFor(result.reason) });
+    }
+
+    return NextResponse.json({
+      applied: result.applied,
+      operations: result.operations,
+      created: result.created,
+      updated: result.updated,
+      removed: result.removed,
+    });
+  } catch (error) {
+    console.error('Import OpenAPI spec error:', error);
+    return NextResponse.json({ error: 'Failed to import the spec' }, { status: 500 });
+  }
+}
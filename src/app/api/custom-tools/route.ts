@@ -0,0 +1,109 @@
+/**
+ * GET  /api/custom-tools — the user's custom HTTP tools
+ * POST /api/custom-tools — create one: { integrationId, name, endpoint, parameters,
+ *        method?, description?, headers?, authentication?, responseMapping?, errorMapping? }
+ *
+ * A custom tool calls an endpoint with the linked integration's credentials
+ * and is offered to the user's runs and chats as `custom.<name>` (see
+ * lib/agent/custom-tools.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  CUSTOM_TOOL_FIELDS,
+  MAX_CUSTOM_TOOLS,
+  customToolNameTaken,
+  validateCustomToolInput,
+} from '@/lib/agent/custom-tools';
+import { customToolName } from '@/lib/agent/tools/custom';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const tools = await prisma.customTool.findMany({
+      where: { integration: { userId: session.user.id } },
+      orderBy: { createdAt: 'desc' },
+      select: CUSTOM_TOOL_FIELDS,
+    });
+
+    return NextResponse.json({
+      tools: tools.map((tool) => ({ ...tool, toolName: customToolName(tool.name) })),
+    });
+  } catch (error) {
+    console.error('List custom tools error:', error);
+    return NextResponse.json({ error: 'Failed to load custom tools' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const body = await request.json();
+
+    const issues = validateCustomToolInput(body);
+    if (typeof body.integrationId !== 'string') {
+      issues.push('integrationId is required');
+    }
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid custom tool', details: issues }, { status: 400 });
+    }
+
+    const integration = await prisma.integration.findFirst({
+      where: { id: body.integrationId, userId },
+      select: { id: true },
+    });
+    if (!integration) {
+      return NextResponse.json({ error: 'Integration not found' }, { status: 404 });
+    }
+
+    const count = await prisma.customTool.count({ where: { integration: { userId } } });
+    if (count >= MAX_CUSTOM_TOOLS) {
+      return NextResponse.json(
+        { error: `You can have up to ${MAX_CUSTOM_TOOLS} custom tools` },
+        { status: 409 }
+      );
+    }
+
+    if (await customToolNameTaken(userId, body.name)) {
+      return NextResponse.json(
+        { error: `You already have a tool named ${customToolName(body.name)}` },
+        { status: 409 }
+      );
+    }
+
+    const tool = await prisma.customTool.create({
+      data: {
+        integrationId: integration.id,
+        name: body.name.trim(),
+        description: typeof body.description === 'string' ? body.description.substring(0, 1000) : null,
+        endpoint: body.endpoint,
+        method: typeof body.method === 'string' ? body.method.toUpperCase() : 'POST',
+        parameters: body.parameters,
+        headers: body.headers ?? undefined,
+        authentication: body.authentication ?? undefined,
+        responseMapping: body.responseMapping ?? undefined,
+        errorMapping: body.errorMapping ?? undefined,
+      },
+      select: CUSTOM_TOOL_FIELDS,
+    });
+
+    return NextResponse.json({ tool: { ...tool, toolName: customToolName(tool.name) } }, { status: 201 });
+  } catch (error) {
+    console.error('Create custom tool error:', error);
+    return NextResponse.json({ error: 'Failed to create custom tool' }, { status: 500 });
+  }
+}
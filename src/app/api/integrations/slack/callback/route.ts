@@ -110,6 +110,7 @@ export async function GET(req: NextRequest) {
           teamName: authTest.team,
           userId: authTest.user_id,
           botUserId: tokens.bot_user_id,
+          authedUserId: tokens.authed_user?.id, // Who connected; receives approval DMs
           appId: tokens.app_id,
           url: authTest.url,
         },
@@ -126,6 +127,7 @@ export async function GET(req: NextRequest) {
           teamName: authTest.team,
           userId: authTest.user_id,
           botUserId: tokens.bot_user_id,
+          authedUserId: tokens.authed_user?.id, // Who connected; receives approval DMs
           appId: tokens.app_id,
           url: authTest.url,
         },
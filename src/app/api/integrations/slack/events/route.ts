@@ -5,78 +5,18 @@
  * - URL verification challenge
  * - App mentions (@bot)
  * - Direct messages
- * - Message events
+ * - Message events, which also start tasks with slack_message triggers
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
 import { prisma } from '@/lib/prisma';
-import { postSlackMessage } from '@/lib/slack-oauth';
+import { postSlackMessage, verifySlackRequest } from '@/lib/slack-oauth';
 import { captureAPIError } from '@/lib/sentry';
 import { decryptIntegration } from '@/lib/integrations/store';
+import { emitTriggerEvent } from '@/lib/agent/triggers';
 
 export const dynamic = 'force-dynamic';
 
-// Reject requests older than this to blunt replay attacks (Slack's own recommendation)
-const SLACK_TIMESTAMP_TOLERANCE_SECONDS = 60 * 5;
-
-/**
- * Verify a request actually came from Slack.
- * https://api.slack.com/authentication/verifying-requests-from-slack
- *
- * Slack signs the raw request body, so `body` must be the unparsed text.
- */
-function verifySlackRequest(req: NextRequest, body: string): boolean {
-  const signingSecret = process.env.SLACK_SIGNING_SECRET;
-
-  // In production, the signing secret is REQUIRED
-  if (!signingSecret) {
-    if (process.env.NODE_ENV === 'production') {
-      console.error('SLACK_SIGNING_SECRET not configured in production!');
-      return false; // REJECT in production
-    }
-    console.warn('SLACK_SIGNING_SECRET not configured - allowing in development only');
-    return true; // Allow in development only
-  }
-
-  const signature = req.headers.get('x-slack-signature');
-  const timestamp = req.headers.get('x-slack-request-timestamp');
-
-  if (!signature || !timestamp) {
-    console.warn('Slack request missing signature or timestamp header');
-    return false;
-  }
-
-  // Reject stale requests so a captured payload can't be replayed later
-  const timestampSeconds = Number(timestamp);
-  if (!Number.isFinite(timestampSeconds)) {
-    console.warn('Slack request has a non-numeric timestamp header');
-    return false;
-  }
-
-  const ageSeconds = Math.abs(Math.floor(Date.now() / 1000) - timestampSeconds);
-  if (ageSeconds > SLACK_TIMESTAMP_TOLERANCE_SECONDS) {
-    console.warn(`Slack request timestamp outside tolerance (${ageSeconds}s old)`);
-    return false;
-  }
-
-  const expected =
-    'v0=' +
-    crypto
-      .createHmac('sha256', signingSecret)
-      .update(`v0:${timestamp}:${body}`)
-      .digest('hex');
-
-  // timingSafeEqual throws on length mismatch, so check that first
-  const expectedBuffer = Buffer.from(expected, 'utf8');
-  const signatureBuffer = Buffer.from(signature, 'utf8');
-  if (expectedBuffer.length !== signatureBuffer.length) {
-    return false;
-  }
-
-  return crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
-}
-
 interface SlackEvent {
   type: string;
   event?: {
@@ -89,6 +29,7 @@ interface SlackEvent {
     channel_type?: string;
     thread_ts?: string;
     bot_id?: string;
+    subtype?: string;
   };
   challenge?: string; // For URL verification
   team_id?: string;
@@ -150,6 +91,10 @@ export async function POST(req: NextRequest) {
           break;
 
         case 'message':
+          // Edits, joins and the like carry a subtype; only new messages count
+          if (!event.subtype) {
+            await emitMessageEvent(integration, event, payload.team_id);
+          }
           // Only process DMs (im channel type)
           if (event.channel_type === 'im') {
             await handleDirectMessage(integration, event);
@@ -172,6 +117,35 @@ export async function POST(req: NextRequest) {
   }
 }
 
+/**
+ * Let the user's slack_message triggers see a message (see
+ * lib/agent/triggers.ts)
+ */
+async function emitMessageEvent(
+  integration: any,
+  event: NonNullable<SlackEvent['event']>,
+  teamId?: string
+) {
+  try {
+    await emitTriggerEvent({
+      userId: integration.userId,
+      type: 'slack_message',
+      sourceId: event.channel,
+      payload: {
+        text: event.text,
+        user: event.user,
+        channel: event.channel,
+        channelType: event.channel_type,
+        teamId,
+        ts: event.ts,
+        threadTs: event.thread_ts,
+      },
+    });
+  } catch (error) {
+    console.error('Error recording Slack message for triggers:', error);
+  }
+}
+
 /**
  * Handle app mention (@bot messages)
  */
@@ -0,0 +1,96 @@
+/**
+ * Slack Interactivity Handler
+ *
+ * Receives button clicks from Slack messages. Currently the Approve / Deny
+ * buttons on agent approval requests (see lib/agent/approval-inbox.ts).
+ *
+ * Only the Slack user who connected the integration can decide: the click is
+ * matched to an integration by team and that user's Slack ID, and the decision
+ * is made on behalf of the integration's owner.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { verifySlackRequest } from '@/lib/slack-oauth';
+import { captureAPIError } from '@/lib/sentry';
+import { decideApproval } from '@/lib/agent/approval-inbox';
+
+export const dynamic = 'force-dynamic';
+
+const APPROVAL_ACTIONS: Record<string, 'approve' | 'deny'> = {
+  approval_approve: 'approve',
+  approval_deny: 'deny',
+};
+
+interface SlackBlockActionsPayload {
+  type: string;
+  user: { id: string };
+  team?: { id: string };
+  actions?: Array<{ action_id: string; value?: string }>;
+  response_url?: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.text();
+
+    if (!verifySlackRequest(req, body)) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const raw = new URLSearchParams(body).get('payload');
+    if (!raw) {
+      return NextResponse.json({ error: 'Missing payload' }, { status: 400 });
+    }
+
+    const payload: SlackBlockActionsPayload = JSON.parse(raw);
+    const action = payload.actions?.find((a) => a.action_id in APPROVAL_ACTIONS);
+
+    if (payload.type !== 'block_actions' || !action?.value) {
+      return NextResponse.json({ ok: true }); // Not ours to handle
+    }
+
+    const integration = await prisma.integration.findFirst({
+      where: {
+        provider: 'slack',
+        isActive: true,
+        AND: [
+          { config: { path: ['teamId'], equals: payload.team?.id } },
+          { config: { path: ['authedUserId'], equals: payload.user.id } },
+        ],
+      },
+    });
+
+    let message: string;
+    if (!integration) {
+      message = 'Only the person who connected Slack can decide this request.';
+    } else {
+      const decision = APPROVAL_ACTIONS[action.action_id];
+      const result = await decideApproval({
+        requestId: action.value,
+        userId: integration.userId,
+        decision,
+        via: 'slack',
+      });
+      message = result.ok
+        ? `${decision === 'approve' ? '✅ Approved' : '❌ Denied'}${result.resumed ? ' — the task is resuming.' : '.'}`
+        : result.message;
+    }
+
+    if (payload.response_url) {
+      await fetch(payload.response_url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ replace_original: !!integration, text: message }),
+      }).catch((error) => console.error('[Slack] Failed to update approval message:', error));
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error('Error handling Slack interaction:', error);
+    captureAPIError(error as Error, '/api/integrations/slack/interactions', 'POST');
+
+    // Acknowledge anyway; Slack shows the user an error for non-200s
+    return NextResponse.json({ ok: true });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Telegram Approval Link API
+ *
+ * Issues a new one-time link for choosing the Telegram chat that approval
+ * requests are sent to, replacing any link not yet used.
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { createTelegramApprovalLink } from '@/lib/telegram-bot';
+import { captureAPIError } from '@/lib/sentry';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/integrations/telegram/approval-link
+ *
+ * Response:
+ *   {
+ *     "approvalLink": "https://t.me/<bot>?start=<token>",
+ *     "approvalLinkExpiresAt": "..."
+ *   }
+ *
+ * The chat that opens the link within the hour replaces the one linked now.
+ */
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const integration = await prisma.integration.findFirst({
+      where: {
+        userId: session.user.id,
+        provider: 'telegram',
+        isActive: true,
+      },
+    });
+
+    if (!integration) {
+      return NextResponse.json(
+        { error: 'No Telegram integration found' },
+        { status: 404 }
+      );
+    }
+
+    const config = (integration.config as Record<string, any>) || {};
+    const approvalLink = createTelegramApprovalLink(config.botUsername);
+
+    await prisma.integration.update({
+      where: { id: integration.id },
+      data: { config: { ...config, ...approvalLink.config } },
+    });
+
+    return NextResponse.json({
+      approvalLink: approvalLink.url,
+      approvalLinkExpiresAt: approvalLink.expiresAt,
+    });
+  } catch (error) {
+    console.error('Error creating Telegram approval link:', error);
+    captureAPIError(error as Error, '/api/integrations/telegram/approval-link', 'POST');
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
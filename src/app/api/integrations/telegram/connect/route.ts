@@ -15,6 +15,7 @@ import {
   getTelegramBotInfo,
   setTelegramWebhook,
   getTelegramWebhookInfo,
+  createTelegramApprovalLink,
 } from '@/lib/telegram-bot';
 import { captureAPIError } from '@/lib/sentry';
 import crypto from 'crypto';
@@ -35,8 +36,12 @@ export const dynamic = 'force-dynamic';
  *   {
  *     "success": true,
  *     "integration": { ... },
- *     "botInfo": { ... }
+ *     "botInfo": { ... },
+ *     "approvalLink": "https://t.me/<bot>?start=<token>"
  *   }
+ *
+ * Opening approvalLink within the hour makes that Telegram chat the one
+ * approval requests are sent to (see the webhook handler).
  */
 export async function POST(req: NextRequest) {
   try {
@@ -120,6 +125,7 @@ export async function POST(req: NextRequest) {
     // encrypted — the webhook handler compares incoming requests against it.
     const ownerId = await resolveIntegrationOwnerId(userId);
     const encBotToken = encryptNullableIfConfigured(botToken);
+    const approvalLink = createTelegramApprovalLink(botInfo.username);
 
     // Store integration in database
     const integration = await prisma.integration.upsert({
@@ -145,6 +151,7 @@ export async function POST(req: NextRequest) {
           secretToken,
           webhookSetAt: new Date().toISOString(),
           webhookInfo: webhookInfo || null,
+          ...approvalLink.config,
         },
       },
       create: {
@@ -165,6 +172,7 @@ export async function POST(req: NextRequest) {
           secretToken,
           webhookSetAt: new Date().toISOString(),
           webhookInfo: webhookInfo || null,
+          ...approvalLink.config,
         },
       },
     });
@@ -187,6 +195,8 @@ export async function POST(req: NextRequest) {
         name: botInfo.first_name,
       },
       webhookUrl,
+      approvalLink: approvalLink.url,
+      approvalLinkExpiresAt: approvalLink.expiresAt,
     });
   } catch (error) {
     console.error('Error connecting Telegram bot:', error);
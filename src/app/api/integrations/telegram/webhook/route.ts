@@ -14,10 +14,13 @@ import {
   extractTelegramCommands,
   validateTelegramWebhook,
   answerCallbackQuery,
+  telegramApprovalLinkMatches,
   TelegramUpdate,
   TelegramMessage,
 } from '@/lib/telegram-bot';
 import { captureAPIError } from '@/lib/sentry';
+import { decideApproval } from '@/lib/agent/approval-inbox';
+import { emitTriggerEvent } from '@/lib/agent/triggers';
 
 export const dynamic = 'force-dynamic';
 
@@ -107,6 +110,14 @@ async function handleMessage(
 
     // Handle commands
     if (commands.length > 0) {
+      const start = commands.find(({ command }) => command === '/start');
+      if (start?.args && message.chat.type === 'private') {
+        const linked = await linkApprovalChat(matchingIntegration, chatId, userId, start.args);
+        if (linked) {
+          await sendTelegramMessage(botToken, chatId, '🔔 Approval requests will be sent to this chat.');
+        }
+      }
+
       for (const { command, args } of commands) {
         await handleCommand(
           botToken,
@@ -120,6 +131,23 @@ async function handleMessage(
       return;
     }
 
+    // Let the owner's telegram_message triggers see it (see lib/agent/triggers.ts)
+    try {
+      await emitTriggerEvent({
+        userId: matchingIntegration.userId,
+        type: 'telegram_message',
+        sourceId: String(chatId),
+        payload: {
+          text,
+          chatId,
+          from: message.from?.username || message.from?.first_name,
+          messageId: message.message_id,
+        },
+      });
+    } catch (error) {
+      console.error('[Telegram] Failed to record message for triggers:', error);
+    }
+
     // Handle regular message
     await handleRegularMessage(
       botToken,
@@ -134,6 +162,37 @@ async function handleMessage(
   }
 }
 
+/**
+ * Make the private chat that sent /start <token> where approval requests go,
+ * and its sender the only Telegram user allowed to decide them — but only
+ * for the one-time link token the app issued (see createTelegramApprovalLink).
+ * The token is used up, so linking another chat takes a new link. Returns
+ * whether the chat was linked.
+ */
+async function linkApprovalChat(
+  integration: { id: string; config: unknown },
+  chatId: number,
+  userId: number,
+  token: string
+): Promise<boolean> {
+  const config = (integration.config as Record<string, any>) || {};
+  if (!telegramApprovalLinkMatches(config, token)) return false;
+
+  await prisma.integration.update({
+    where: { id: integration.id },
+    data: {
+      config: {
+        ...config,
+        approvalChatId: chatId,
+        approvalUserId: userId,
+        approvalLinkTokenHash: null,
+        approvalLinkExpiresAt: null,
+      },
+    },
+  });
+  return true;
+}
+
 /**
  * Handle bot command (e.g., /start, /help)
  */
@@ -326,6 +385,42 @@ async function handleCallbackQuery(
 
     const botToken = decryptField(matchingIntegration.accessToken!);
 
+    // Approve / Deny buttons on an approval request: approval:<decision>:<id>
+    const approval = data.match(/^approval:(approve|deny):(.+)$/);
+    if (approval) {
+      const config = matchingIntegration.config as any;
+
+      // Only the Telegram user who linked the bot may decide
+      if (!config.approvalUserId || config.approvalUserId !== from.id) {
+        await answerCallbackQuery(botToken, id, {
+          text: 'Only the account owner can decide this request.',
+          show_alert: true,
+        });
+        return;
+      }
+
+      const decision = approval[1] as 'approve' | 'deny';
+      const result = await decideApproval({
+        requestId: approval[2],
+        userId: matchingIntegration.userId,
+        decision,
+        via: 'telegram',
+      });
+
+      await answerCallbackQuery(botToken, id, {
+        text: result.ok ? (decision === 'approve' ? '✅ Approved' : '❌ Denied') : result.message,
+      });
+      if (result.ok) {
+        await sendTelegramMessage(
+          botToken,
+          message.chat.id,
+          `${decision === 'approve' ? '✅ Approved' : '❌ Denied'}${result.resumed ? ' — the task is resuming.' : '.'}`,
+          { reply_to_message_id: message.message_id }
+        );
+      }
+      return;
+    }
+
     // Answer callback query
     await answerCallbackQuery(botToken, id, {
       text: 'Processing...',
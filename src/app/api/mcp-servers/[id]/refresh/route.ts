@@ -0,0 +1,44 @@
+/**
+ * POST /api/mcp-servers/[id]/refresh
+ *
+ * Connect to the server again and replace its tools with the ones it offers
+ * now. When it cannot be reached, the tools found last time are kept and the
+ * error is returned (502) and stored on the server.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { MCP_SERVER_FIELDS, discoverMcpTools, type McpServerFailureReason } from '@/lib/mcp/servers';
+import { withAgentToolNames } from '@/lib/agent/tools/mcp';
+
+export const dynamic = 'force-dynamic';
+
+function statusFor(reason: McpServerFailureReason): number {
+  return reason === 'not_found' ? 404 : 502;
+}
+
+export async function POST(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const discovery = await discoverMcpTools(session.user.id, params.id);
+    if (!discovery.ok) {
+      return NextResponse.json({ error: discovery.message }, { status: statusFor(discovery.reason) });
+    }
+
+    const server = await prisma.externalMcpServer.findUniqueOrThrow({
+      where: { id: params.id },
+      select: MCP_SERVER_FIELDS,
+    });
+
+    return NextResponse.json({ server: withAgentToolNames(server) });
+  } catch (error) {
+    console.error('Refresh MCP server error:', error);
+    return NextResponse.json({ error: 'Failed to refresh MCP server' }, { status: 500 });
+  }
+}
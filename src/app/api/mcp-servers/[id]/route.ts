@@ -0,0 +1,127 @@
+/**
+ * GET    /api/mcp-servers/[id] — one MCP server and the tools found on it
+ * PATCH  /api/mcp-servers/[id] — { name?, url?, auth?, enabled? }; a new url or
+ *        auth rediscovers its tools
+ * DELETE /api/mcp-servers/[id] — remove it and its tools
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  MCP_SERVER_FIELDS,
+  credentialData,
+  discoverMcpTools,
+  validateMcpServerInput,
+} from '@/lib/mcp/servers';
+import { withAgentToolNames } from '@/lib/agent/tools/mcp';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const server = await prisma.externalMcpServer.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      select: MCP_SERVER_FIELDS,
+    });
+
+    if (!server) {
+      return NextResponse.json({ error: 'MCP server not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ server: withAgentToolNames(server) });
+  } catch (error) {
+    console.error('Get MCP server error:', error);
+    return NextResponse.json({ error: 'Failed to load MCP server' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const existing = await prisma.externalMcpServer.findFirst({
+      where: { id: params.id, userId },
+      select: { id: true, name: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'MCP server not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const issues = validateMcpServerInput(body, true);
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid MCP server', details: issues }, { status: 400 });
+    }
+
+    if (body.name !== undefined && body.name !== existing.name) {
+      const taken = await prisma.externalMcpServer.findFirst({
+        where: { userId, name: body.name },
+        select: { id: true },
+      });
+      if (taken) {
+        return NextResponse.json({ error: `You already have an MCP server named ${body.name}` }, { status: 409 });
+      }
+    }
+
+    await prisma.externalMcpServer.update({
+      where: { id: existing.id },
+      data: {
+        name: body.name,
+        url: body.url,
+        enabled: body.enabled,
+        ...(body.auth && credentialData(body.auth)),
+      },
+    });
+
+    const rediscover = body.url !== undefined || body.auth !== undefined;
+    const discovery = rediscover ? await discoverMcpTools(userId, existing.id) : null;
+    const server = await prisma.externalMcpServer.findUniqueOrThrow({
+      where: { id: existing.id },
+      select: MCP_SERVER_FIELDS,
+    });
+
+    return NextResponse.json({
+      server: withAgentToolNames(server),
+      ...(discovery && { discovered: discovery.ok }),
+      ...(discovery && !discovery.ok && { discoveryError: discovery.message }),
+    });
+  } catch (error) {
+    console.error('Update MCP server error:', error);
+    return NextResponse.json({ error: 'Failed to update MCP server' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deleted = await prisma.externalMcpServer.deleteMany({
+      where: { id: params.id, userId: session.user.id },
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'MCP server not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete MCP server error:', error);
+    return NextResponse.json({ error: 'Failed to delete MCP server' }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * GET  /api/mcp-servers — the user's external MCP servers
+ * POST /api/mcp-servers — register one: { name, url, auth? }
+ *        auth: { type: 'none' } | { type: 'bearer', token }
+ *            | { type: 'oauth', accessToken, refreshToken?, expiresAt?, tokenUrl?, clientId?, clientSecret? }
+ *
+ * A registered server's tools are offered to the user's runs and chats as
+ * `mcp.<name>.<tool>`, each requiring approval by default (see
+ * lib/mcp/servers.ts). Its tools are discovered on registration; a server
+ * that cannot be reached is still saved, with the error, to refresh later.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  MAX_MCP_SERVERS,
+  MCP_SERVER_FIELDS,
+  credentialData,
+  discoverMcpTools,
+  validateMcpServerInput,
+} from '@/lib/mcp/servers';
+import { withAgentToolNames } from '@/lib/agent/tools/mcp';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const servers = await prisma.externalMcpServer.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'desc' },
+      select: MCP_SERVER_FIELDS,
+    });
+
+    return NextResponse.json({ servers: servers.map(withAgentToolNames) });
+  } catch (error) {
+    console.error('List MCP servers error:', error);
+    return NextResponse.json({ error: 'Failed to load MCP servers' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const body = await request.json();
+
+    const issues = validateMcpServerInput(body);
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid MCP server', details: issues }, { status: 400 });
+    }
+
+    const count = await prisma.externalMcpServer.count({ where: { userId } });
+    if (count >= MAX_MCP_SERVERS) {
+      return NextResponse.json({ error: `You can have up to ${MAX_MCP_SERVERS} MCP servers` }, { status: 409 });
+    }
+
+    const existing = await prisma.externalMcpServer.findFirst({
+      where: { userId, name: body.name },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json({ error: `You already have an MCP server named ${body.name}` }, { status: 409 });
+    }
+
+    const created = await prisma.externalMcpServer.create({
+      data: {
+        userId,
+        name: body.name,
+        url: body.url,
+        enabled: body.enabled ?? true,
+        ...credentialData(body.auth ?? { type: 'none' }),
+      },
+      select: { id: true },
+    });
+
+    const discovery = await discoverMcpTools(userId, created.id);
+    const server = await prisma.externalMcpServer.findUniqueOrThrow({
+      where: { id: created.id },
+      select: MCP_SERVER_FIELDS,
+    });
+
+    return NextResponse.json(
+      {
+        server: withAgentToolNames(server),
+        discovered: discovery.ok,
+        ...(!discovery.ok && { discoveryError: discovery.message }),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create MCP server error:', error);
+    return NextResponse.json({ error: 'Failed to register MCP server' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * PATCH  /api/teams/[id]/agents/[agentId] — update a team agent
+ * DELETE /api/teams/[id]/agents/[agentId] — remove it from the team
+ *
+ * Collaboration rows that name a removed agent are kept as history.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { teamAgentFields, validateTeamAgentInput } from '@/lib/agent/team';
+
+export const dynamic = 'force-dynamic';
+
+type Params = { params: { id: string; agentId: string } };
+
+async function findAgent(teamId: string, agentId: string, userId: string) {
+  return prisma.teamAgent.findFirst({
+    where: { id: agentId, teamId, team: { userId } },
+  });
+}
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await findAgent(params.id, params.agentId, session.user.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Team agent not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const issues = validateTeamAgentInput(body, { partial: true });
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid agent', details: issues }, { status: 400 });
+    }
+
+    const fields = teamAgentFields(body);
+    const agent = await prisma.$transaction(async (tx) => {
+      if (fields.isLeader) {
+        await tx.teamAgent.updateMany({
+          where: { teamId: params.id, isLeader: true, id: { not: existing.id } },
+          data: { isLeader: false },
+        });
+      }
+      return tx.teamAgent.update({ where: { id: existing.id }, data: fields });
+    });
+
+    return NextResponse.json({ agent });
+  } catch (error) {
+    console.error('Update team agent error:', error);
+    return NextResponse.json({ error: 'Failed to update team agent' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await findAgent(params.id, params.agentId, session.user.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Team agent not found' }, { status: 404 });
+    }
+
+    await prisma.teamAgent.delete({ where: { id: existing.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete team agent error:', error);
+    return NextResponse.json({ error: 'Failed to delete team agent' }, { status: 500 });
+  }
+}
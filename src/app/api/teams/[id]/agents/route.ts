@@ -0,0 +1,63 @@
+/**
+ * POST /api/teams/[id]/agents — add an agent to the team:
+ *   { name, role, agentType, systemPrompt, description?, model?, tools?,
+ *     isLeader?, order?, canDelegate?, canRequestHelp?, maxCreditsPerTask?,
+ *     maxStepsPerTask?, timeoutSeconds? }
+ *
+ * Making it the leader takes the role from whoever had it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { teamAgentFields, validateTeamAgentInput } from '@/lib/agent/team';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const team = await prisma.agentTeam.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      include: { _count: { select: { agents: true } } },
+    });
+
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const issues = validateTeamAgentInput(body);
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid agent', details: issues }, { status: 400 });
+    }
+
+    if (team._count.agents >= team.maxAgents) {
+      return NextResponse.json(
+        { error: `This team already has its maximum of ${team.maxAgents} agents` },
+        { status: 409 }
+      );
+    }
+
+    const fields = teamAgentFields(body);
+    const agent = await prisma.$transaction(async (tx) => {
+      if (fields.isLeader) {
+        await tx.teamAgent.updateMany({ where: { teamId: team.id, isLeader: true }, data: { isLeader: false } });
+      }
+      return tx.teamAgent.create({
+        data: { ...fields, teamId: team.id, order: fields.order ?? team._count.agents },
+      });
+    });
+
+    return NextResponse.json({ agent }, { status: 201 });
+  } catch (error) {
+    console.error('Add team agent error:', error);
+    return NextResponse.json({ error: 'Failed to add team agent' }, { status: 500 });
+  }
+}
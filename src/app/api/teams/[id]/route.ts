@@ -0,0 +1,119 @@
+/**
+ * GET    /api/teams/[id] — one team, with its agents and recent runs
+ * PATCH  /api/teams/[id] — update its settings (agents have their own routes)
+ * DELETE /api/teams/[id] — delete it with its agents and collaboration log;
+ *                          the tasks its runs created are kept
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { TEAM_AGENT_TYPE, validateTeamInput } from '@/lib/agent/team';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const team = await prisma.agentTeam.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      include: { agents: { orderBy: { order: 'asc' } } },
+    });
+
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    const runs = await prisma.task.findMany({
+      where: {
+        userId: session.user.id,
+        agentType: TEAM_AGENT_TYPE,
+        agentConfig: { path: ['teamId'], equals: team.id },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+      select: { id: true, title: true, status: true, error: true, createdAt: true, completedAt: true },
+    });
+
+    return NextResponse.json({ team, runs });
+  } catch (error) {
+    console.error('Get agent team error:', error);
+    return NextResponse.json({ error: 'Failed to load agent team' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await prisma.agentTeam.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      include: { _count: { select: { agents: true } } },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const issues = validateTeamInput(body, { partial: true });
+    if (body.maxAgents !== undefined && body.maxAgents < existing._count.agents) {
+      issues.push(`maxAgents cannot be below the team's ${existing._count.agents} agents`);
+    }
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid team', details: issues }, { status: 400 });
+    }
+
+    const team = await prisma.agentTeam.update({
+      where: { id: params.id },
+      data: {
+        name: body.name?.trim(),
+        description: body.description,
+        icon: body.icon,
+        color: body.color,
+        teamType: body.teamType,
+        coordinationStrategy: body.coordinationStrategy,
+        errorHandling: body.errorHandling,
+        maxAgents: body.maxAgents,
+        sharedMemory: body.sharedMemory,
+      },
+      include: { agents: { orderBy: { order: 'asc' } } },
+    });
+
+    return NextResponse.json({ team });
+  } catch (error) {
+    console.error('Update agent team error:', error);
+    return NextResponse.json({ error: 'Failed to update agent team' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deleted = await prisma.agentTeam.deleteMany({
+      where: { id: params.id, userId: session.user.id },
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete agent team error:', error);
+    return NextResponse.json({ error: 'Failed to delete agent team' }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * GET  /api/teams/[id]/runs/[runId] — a team run: its task, every handoff in
+ *                                     order, and the tasks its members ran
+ * POST /api/teams/[id]/runs/[runId] — decide a run paused on failed
+ *                                     assignments: { decision: 'retry' | 'continue' | 'abort' }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  resolveTeamRun,
+  TEAM_AGENT_TYPE,
+  type FailedAssignmentDecision,
+  type ResolveTeamRunFailureReason,
+} from '@/lib/agent/team';
+
+export const dynamic = 'force-dynamic';
+
+const DECISIONS: FailedAssignmentDecision[] = ['retry', 'continue', 'abort'];
+
+type Params = { params: { id: string; runId: string } };
+
+function statusFor(reason: ResolveTeamRunFailureReason): number {
+  switch (reason) {
+    case 'not_found':
+      return 404;
+    case 'not_paused':
+      return 409;
+  }
+}
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const run = await prisma.task.findFirst({
+      where: {
+        id: params.runId,
+        userId: session.user.id,
+        agentType: TEAM_AGENT_TYPE,
+        agentConfig: { path: ['teamId'], equals: params.id },
+      },
+    });
+
+    if (!run) {
+      return NextResponse.json({ error: 'Team run not found' }, { status: 404 });
+    }
+
+    const [team, collaborations] = await Promise.all([
+      prisma.agentTeam.findFirst({
+        where: { id: params.id, userId: session.user.id },
+        include: { agents: { orderBy: { order: 'asc' } } },
+      }),
+      prisma.agentCollaboration.findMany({
+        where: { teamId: params.id, taskId: run.id },
+        orderBy: { sentAt: 'asc' },
+      }),
+    ]);
+
+    const memberTaskIds = collaborations
+      .filter((c) => c.type === 'delegation')
+      .map((c) => (c.context as { memberTaskId?: string } | null)?.memberTaskId)
+      .filter((id): id is string => Boolean(id));
+
+    const memberTasks = await prisma.task.findMany({
+      where: { id: { in: memberTaskIds }, userId: session.user.id },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        currentStep: true,
+        totalSteps: true,
+        totalCredits: true,
+        error: true,
+      },
+    });
+
+    return NextResponse.json({ run, team, collaborations, memberTasks });
+  } catch (error) {
+    console.error('Get team run error:', error);
+    return NextResponse.json({ error: 'Failed to load team run' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { decision } = await request.json();
+    if (!DECISIONS.includes(decision)) {
+      return NextResponse.json({ error: `decision must be one of: ${DECISIONS.join(', ')}` }, { status: 400 });
+    }
+
+    const result = await resolveTeamRun({ taskId: params.runId, userId: session.user.id, decision });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.message }, { status: statusFor(result.reason) });
+    }
+
+    return NextResponse.json({ success: true, status: result.status });
+  } catch (error) {
+    console.error('Resolve team run error:', error);
+    return NextResponse.json({ error: 'Failed to resume team run' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * POST /api/teams/[id]/runs — run the team on a goal: { goal }
+ *
+ * Queued like any agent task when there is a queue; otherwise the run happens
+ * inline and the response carries its outcome. Follow it at
+ * /api/teams/[id]/runs/[runId].
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { hasEnoughCredits } from '@/lib/credits';
+import { startTeamRun } from '@/lib/agent/team';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { goal } = await request.json();
+    if (typeof goal !== 'string' || !goal.trim()) {
+      return NextResponse.json({ error: 'goal is required' }, { status: 400 });
+    }
+
+    const team = await prisma.agentTeam.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      include: { _count: { select: { agents: true } } },
+    });
+
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+    if (team._count.agents === 0) {
+      return NextResponse.json({ error: 'Add at least one agent to the team first' }, { status: 400 });
+    }
+
+    if (!(await hasEnoughCredits(session.user.id, 1))) {
+      return NextResponse.json({ error: 'Insufficient credits' }, { status: 402 });
+    }
+
+    const run = await startTeamRun(team.id, session.user.id, goal.trim());
+
+    return NextResponse.json(
+      { success: true, runId: run.id, status: run.status, result: run.result, error: run.error },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    console.error('Start team run error:', error);
+    return NextResponse.json({ error: 'Failed to start team run', message: error.message }, { status: 500 });
+  }
+}
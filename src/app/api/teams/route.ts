@@ -0,0 +1,86 @@
+/**
+ * GET  /api/teams — the user's agent teams, with their agents
+ * POST /api/teams — create a team, optionally with its agents:
+ *   { name, description?, icon?, color?, teamType?, coordinationStrategy?,
+ *     errorHandling?, maxAgents?, sharedMemory?, agents?: [...] }
+ *
+ * See lib/agent/team.ts for what the settings do when the team runs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { teamAgentFields, validateTeamAgentInput, validateTeamInput } from '@/lib/agent/team';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const teams = await prisma.agentTeam.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'desc' },
+      include: { agents: { orderBy: { order: 'asc' } } },
+    });
+
+    return NextResponse.json({ teams });
+  } catch (error) {
+    console.error('List agent teams error:', error);
+    return NextResponse.json({ error: 'Failed to load agent teams' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const agents: Record<string, any>[] = Array.isArray(body.agents) ? body.agents : [];
+
+    const issues = validateTeamInput(body);
+    agents.forEach((agent, i) => {
+      issues.push(...validateTeamAgentInput(agent).map((issue) => `agent ${i + 1}: ${issue}`));
+    });
+    if (agents.length > (body.maxAgents ?? 5)) {
+      issues.push(`a team of at most ${body.maxAgents ?? 5} agents cannot have ${agents.length}`);
+    }
+    if (agents.filter((agent) => agent.isLeader === true).length > 1) {
+      issues.push('only one agent can be the leader');
+    }
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid team', details: issues }, { status: 400 });
+    }
+
+    const team = await prisma.agentTeam.create({
+      data: {
+        userId: session.user.id,
+        name: body.name.trim(),
+        description: body.description || null,
+        icon: body.icon || null,
+        color: body.color || null,
+        teamType: body.teamType,
+        coordinationStrategy: body.coordinationStrategy,
+        errorHandling: body.errorHandling,
+        maxAgents: body.maxAgents,
+        sharedMemory: body.sharedMemory,
+        agents: {
+          create: agents.map((agent, i) => ({ ...teamAgentFields(agent), order: agent.order ?? i })),
+        },
+      },
+      include: { agents: { orderBy: { order: 'asc' } } },
+    });
+
+    return NextResponse.json({ team }, { status: 201 });
+  } catch (error) {
+    console.error('Create agent team error:', error);
+    return NextResponse.json({ error: 'Failed to create agent team' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * POST /api/triggers/[id] — inbound webhook for a webhook TaskTrigger
+ *
+ * Public: the caller proves itself with the trigger's secret, in the
+ * `secret` query parameter or an X-Trigger-Secret header. The request body
+ * (JSON, else text) is handed to the task's plan as `context.trigger.payload`.
+ * The run starts at the orchestrator's next check, so this only answers 202.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { emitTriggerEvent, verifyTriggerSecret } from '@/lib/agent/triggers';
+
+export const dynamic = 'force-dynamic';
+
+/** Largest request body accepted, in bytes. */
+const MAX_BODY_BYTES = 64 * 1024;
+
+type Params = { params: { id: string } };
+
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const secret = request.headers.get('x-trigger-secret') || new URL(request.url).searchParams.get('secret');
+
+    const trigger = await prisma.taskTrigger.findFirst({
+      where: { id: params.id, type: 'webhook' },
+      select: { id: true, enabled: true, secretHash: true, task: { select: { userId: true } } },
+    });
+
+    // Same answer for an unknown trigger and a wrong secret
+    if (!trigger || !verifyTriggerSecret(secret, trigger.secretHash)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!trigger.enabled) {
+      return NextResponse.json({ error: 'Trigger is disabled' }, { status: 409 });
+    }
+
+    const raw = await request.text();
+    if (Buffer.byteLength(raw) > MAX_BODY_BYTES) {
+      return NextResponse.json({ error: `Body is over ${MAX_BODY_BYTES / 1024} KB` }, { status: 413 });
+    }
+
+    let body: unknown = raw || null;
+    try {
+      body = raw ? JSON.parse(raw) : null;
+    } catch {
+      // Not JSON; hand it over as text
+    }
+
+    const eventId = await emitTriggerEvent({
+      userId: trigger.task.userId,
+      type: 'webhook',
+      sourceId: trigger.id,
+      payload: {
+        body,
+        contentType: request.headers.get('content-type'),
+        receivedAt: new Date().toISOString(),
+      },
+    });
+
+    return NextResponse.json({ accepted: true, eventId }, { status: 202 });
+  } catch (error) {
+    console.error('Inbound trigger webhook error:', error);
+    return NextResponse.json({ error: 'Failed to accept webhook' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * POST /api/webhook-subscriptions/[id]/deliveries/[deliveryId]/redeliver
+ *
+ * Send a delivered or dead delivery again, under its original event ID so
+ * the receiver can still deduplicate it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { redeliverWebhook, type RedeliverFailureReason } from '@/lib/webhooks/outbound';
+
+export const dynamic = 'force-dynamic';
+
+function statusFor(reason: RedeliverFailureReason): number {
+  switch (reason) {
+    case 'not_found':
+      return 404;
+    case 'in_progress':
+      return 409;
+  }
+}
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { id: string; deliveryId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: params.deliveryId, subscriptionId: params.id },
+      select: { id: true },
+    });
+
+    if (!delivery) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+
+    const result = await redeliverWebhook(delivery.id, session.user.id);
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.message }, { status: statusFor(result.reason) });
+    }
+
+    return NextResponse.json({ success: true, deliveryId: result.deliveryId }, { status: 202 });
+  } catch (error) {
+    console.error('Redeliver webhook error:', error);
+    return NextResponse.json({ error: 'Failed to redeliver webhook' }, { status: 500 });
+  }
+}
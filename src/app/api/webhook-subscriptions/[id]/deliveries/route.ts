@@ -0,0 +1,57 @@
+/**
+ * GET /api/webhook-subscriptions/[id]/deliveries — the subscription's delivery
+ * log, newest first. Optional ?status=pending|retrying|delivered|dead and
+ * ?limit (max 100).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { deliveryResponseBody, type DeliveryStatus } from '@/lib/webhooks/outbound';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES: DeliveryStatus[] = ['pending', 'retrying', 'delivered', 'dead'];
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const subscription = await prisma.webhookSubscription.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Webhook subscription not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 100);
+
+    if (status && !STATUSES.includes(status as DeliveryStatus)) {
+      return NextResponse.json({ error: `status must be one of: ${STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { subscriptionId: subscription.id, ...(status && { status }) },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return NextResponse.json({
+      deliveries: deliveries.map((delivery) => ({
+        ...delivery,
+        responseBody: delivery.responseBody && deliveryResponseBody(delivery.responseBody),
+      })),
+    });
+  } catch (error) {
+    console.error('List webhook deliveries error:', error);
+    return NextResponse.json({ error: 'Failed to load webhook deliveries' }, { status: 500 });
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * GET    /api/webhook-subscriptions/[id] — one subscription
+ * PATCH  /api/webhook-subscriptions/[id] — { url?, events?, description?, enabled?, rotateSecret? }
+ * DELETE /api/webhook-subscriptions/[id] — remove it and its delivery log
+ *
+ * Rotating the secret returns the new one, once, like creation does.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { encryptFieldIfConfigured } from '@/lib/crypto/envelope';
+import {
+  generateWebhookSecret,
+  validateSubscriptionInput,
+  WEBHOOK_SUBSCRIPTION_FIELDS,
+} from '@/lib/webhooks/outbound';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const subscription = await prisma.webhookSubscription.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      select: WEBHOOK_SUBSCRIPTION_FIELDS,
+    });
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Webhook subscription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ subscription });
+  } catch (error) {
+    console.error('Get webhook subscription error:', error);
+    return NextResponse.json({ error: 'Failed to load webhook subscription' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await prisma.webhookSubscription.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      select: { url: true, events: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook subscription not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const issues = await validateSubscriptionInput({
+      url: body.url ?? existing.url,
+      events: body.events ?? existing.events,
+    });
+    if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+      issues.push('enabled must be a boolean');
+    }
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid subscription', details: issues }, { status: 400 });
+    }
+
+    const secret = body.rotateSecret === true ? generateWebhookSecret() : undefined;
+
+    const subscription = await prisma.webhookSubscription.update({
+      where: { id: params.id },
+      data: {
+        url: body.url,
+        events: body.events,
+        enabled: body.enabled,
+        description: typeof body.description === 'string' ? body.description.substring(0, 500) : undefined,
+        secret: secret ? encryptFieldIfConfigured(secret) : undefined,
+      },
+      select: WEBHOOK_SUBSCRIPTION_FIELDS,
+    });
+
+    return NextResponse.json({ subscription: secret ? { ...subscription, secret } : subscription });
+  } catch (error) {
+    console.error('Update webhook subscription error:', error);
+    return NextResponse.json({ error: 'Failed to update webhook subscription' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deleted = await prisma.webhookSubscription.deleteMany({
+      where: { id: params.id, userId: session.user.id },
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Webhook subscription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete webhook subscription error:', error);
+    return NextResponse.json({ error: 'Failed to delete webhook subscription' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * POST /api/webhook-subscriptions/[id]/test
+ *
+ * Send a signed `webhook.ping` to the subscription's URL right away and
+ * report the endpoint's response. Works on a disabled subscription too, and
+ * is never retried.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { sendTestPing } from '@/lib/webhooks/outbound';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const outcome = await sendTestPing(params.id, session.user.id);
+
+    if (!outcome) {
+      return NextResponse.json({ error: 'Webhook subscription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: outcome.status === 'delivered', delivery: outcome });
+  } catch (error) {
+    console.error('Webhook test ping error:', error);
+    return NextResponse.json({ error: 'Failed to send test ping' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * GET  /api/webhook-subscriptions — the user's outbound webhook subscriptions
+ * POST /api/webhook-subscriptions — create one: { url, events, description? }
+ *
+ * The signing secret is generated here and returned exactly once, in the
+ * creation response (see lib/webhooks/outbound.ts for how it is used).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { encryptFieldIfConfigured } from '@/lib/crypto/envelope';
+import {
+  generateWebhookSecret,
+  validateSubscriptionInput,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_SUBSCRIPTION_FIELDS,
+} from '@/lib/webhooks/outbound';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'desc' },
+      select: WEBHOOK_SUBSCRIPTION_FIELDS,
+    });
+
+    return NextResponse.json({ subscriptions, eventTypes: WEBHOOK_EVENT_TYPES });
+  } catch (error) {
+    console.error('List webhook subscriptions error:', error);
+    return NextResponse.json({ error: 'Failed to load webhook subscriptions' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { url, events, description } = await request.json();
+
+    const issues = await validateSubscriptionInput({ url, events });
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid subscription', details: issues }, { status: 400 });
+    }
+
+    const secret = generateWebhookSecret();
+    const subscription = await prisma.webhookSubscription.create({
+      data: {
+        userId: session.user.id,
+        url,
+        events,
+        description: typeof description === 'string' ? description.substring(0, 500) : null,
+        secret: encryptFieldIfConfigured(secret),
+      },
+      select: WEBHOOK_SUBSCRIPTION_FIELDS,
+    });
+
+    // `secret` is present exactly once, in this response.
+    return NextResponse.json({ subscription: { ...subscription, secret } }, { status: 201 });
+  } catch (error) {
+    console.error('Create webhook subscription error:', error);
+    return NextResponse.json({ error: 'Failed to create webhook subscription' }, { status: 500 });
+  }
+}
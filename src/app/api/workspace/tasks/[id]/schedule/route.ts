@@ -0,0 +1,141 @@
+/**
+ * GET    /api/workspace/tasks/[id]/schedule — the task's schedule and its next
+ *                                            run times (?count, default 5)
+ * PUT    /api/workspace/tasks/[id]/schedule — set it: { schedule?, timezone?,
+ *                                            enabled?, misfirePolicy?,
+ *                                            maxCatchUpRuns?, overlapPolicy? }
+ * DELETE /api/workspace/tasks/[id]/schedule — turn it off, dropping runs still
+ *                                            waiting to start
+ *
+ * `schedule` is a cron expression evaluated in `timezone`; the policies are
+ * described in lib/agent/scheduler.ts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  DEFAULT_TIMEZONE,
+  previewSchedule,
+  scheduleFields,
+  validateScheduleInput,
+} from '@/lib/agent/scheduler';
+
+export const dynamic = 'force-dynamic';
+
+type Params = { params: { id: string } };
+
+const SCHEDULE_FIELDS = {
+  id: true,
+  schedule: true,
+  timezone: true,
+  scheduleEnabled: true,
+  nextRunAt: true,
+  lastRunAt: true,
+  misfirePolicy: true,
+  maxCatchUpRuns: true,
+  overlapPolicy: true,
+} as const;
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const task = await prisma.task.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      select: SCHEDULE_FIELDS,
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const count = Number(new URL(request.url).searchParams.get('count')) || 5;
+    const upcoming = task.schedule && task.scheduleEnabled
+      ? previewSchedule(task.schedule, task.timezone || DEFAULT_TIMEZONE, count)
+      : [];
+
+    return NextResponse.json({ schedule: task, upcoming });
+  } catch (error) {
+    console.error('Get task schedule error:', error);
+    return NextResponse.json({ error: 'Failed to load schedule' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await prisma.task.findFirst({
+      where: { id: params.id, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const issues = validateScheduleInput(body, { partial: Boolean(existing.schedule) });
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid schedule', details: issues }, { status: 400 });
+    }
+
+    const fields = scheduleFields(body, existing);
+    const task = await prisma.task.update({
+      where: { id: existing.id },
+      data: fields,
+      select: SCHEDULE_FIELDS,
+    });
+
+    const upcoming = task.schedule && task.scheduleEnabled
+      ? previewSchedule(task.schedule, task.timezone || DEFAULT_TIMEZONE, 5)
+      : [];
+
+    return NextResponse.json({ schedule: task, upcoming });
+  } catch (error) {
+    console.error('Update task schedule error:', error);
+    return NextResponse.json({ error: 'Failed to update schedule' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await prisma.task.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    await prisma.$transaction([
+      prisma.task.update({
+        where: { id: existing.id },
+        data: { scheduleEnabled: false, nextRunAt: null },
+      }),
+      prisma.scheduledRun.updateMany({
+        where: { taskId: existing.id, status: 'waiting' },
+        data: { status: 'skipped', reason: 'The schedule was turned off', finishedAt: new Date() },
+      }),
+    ]);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Disable task schedule error:', error);
+    return NextResponse.json({ error: 'Failed to turn off schedule' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * GET /api/workspace/tasks/[id]/schedule/runs — the schedule's run history,
+ *                                               newest first (?status, ?limit)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const task = await prisma.task.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const limit = Math.min(Number(searchParams.get('limit')) || 50, 200);
+
+    const runs = await prisma.scheduledRun.findMany({
+      where: { taskId: task.id, ...(status && { status }) },
+      orderBy: { scheduledFor: 'desc' },
+      take: limit,
+    });
+
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('List scheduled runs error:', error);
+    return NextResponse.json({ error: 'Failed to load run history' }, { status: 500 });
+  }
+}
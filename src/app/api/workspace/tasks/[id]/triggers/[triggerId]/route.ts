@@ -0,0 +1,96 @@
+/**
+ * PATCH  /api/workspace/tasks/[id]/triggers/[triggerId] — change it:
+ *          { enabled?, channel?, pattern?, rotateSecret? }
+ * DELETE /api/workspace/tasks/[id]/triggers/[triggerId] — remove it and its
+ *          firing history
+ *
+ * rotateSecret gives a webhook trigger a new secret, returned exactly once
+ * with its new URL; the old URL stops working at once.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  TASK_TRIGGER_FIELDS,
+  TriggerType,
+  generateTriggerSecret,
+  hashTriggerSecret,
+  triggerFields,
+  triggerWebhookUrl,
+  validateTriggerInput,
+} from '@/lib/agent/triggers';
+
+export const dynamic = 'force-dynamic';
+
+type Params = { params: { id: string; triggerId: string } };
+
+async function findTrigger(params: Params['params'], userId: string) {
+  return prisma.taskTrigger.findFirst({
+    where: { id: params.triggerId, taskId: params.id, task: { userId } },
+    select: { id: true, type: true },
+  });
+}
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await findTrigger(params, session.user.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Trigger not found' }, { status: 404 });
+    }
+
+    const { rotateSecret, ...body } = await request.json();
+
+    const issues = validateTriggerInput(body, { partial: true });
+    if (rotateSecret && existing.type !== 'webhook') {
+      issues.push('Only webhook triggers have a secret');
+    }
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid trigger', details: issues }, { status: 400 });
+    }
+
+    const secret = rotateSecret ? generateTriggerSecret() : null;
+    const trigger = await prisma.taskTrigger.update({
+      where: { id: existing.id },
+      data: {
+        ...triggerFields(body, existing.type as TriggerType),
+        ...(secret && { secretHash: hashTriggerSecret(secret) }),
+      },
+      select: TASK_TRIGGER_FIELDS,
+    });
+
+    return NextResponse.json({
+      trigger: secret ? { ...trigger, secret, url: triggerWebhookUrl(trigger.id, secret) } : trigger,
+    });
+  } catch (error) {
+    console.error('Update task trigger error:', error);
+    return NextResponse.json({ error: 'Failed to update trigger' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await findTrigger(params, session.user.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Trigger not found' }, { status: 404 });
+    }
+
+    await prisma.taskTrigger.delete({ where: { id: existing.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete task trigger error:', error);
+    return NextResponse.json({ error: 'Failed to delete trigger' }, { status: 500 });
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * GET  /api/workspace/tasks/[id]/triggers — the task's triggers and their
+ *                                          latest firings (?limit, default 20)
+ * POST /api/workspace/tasks/[id]/triggers — add one: { type, sourceTaskId?,
+ *                                          monitorId?, channel?, pattern? }
+ *
+ * A webhook trigger's secret is generated here and returned exactly once, in
+ * the creation response, with the URL that starts the task. Trigger types and
+ * loop protection are described in lib/agent/triggers.ts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  TASK_TRIGGER_FIELDS,
+  TriggerType,
+  generateTriggerSecret,
+  hashTriggerSecret,
+  triggerFields,
+  triggerWebhookUrl,
+  validateTriggerInput,
+} from '@/lib/agent/triggers';
+
+export const dynamic = 'force-dynamic';
+
+type Params = { params: { id: string } };
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const task = await prisma.task.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const limit = Math.min(Number(new URL(request.url).searchParams.get('limit')) || 20, 100);
+
+    const [triggers, firings] = await Promise.all([
+      prisma.taskTrigger.findMany({
+        where: { taskId: task.id },
+        orderBy: { createdAt: 'asc' },
+        select: TASK_TRIGGER_FIELDS,
+      }),
+      prisma.triggerFiring.findMany({
+        where: { taskId: task.id },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        select: {
+          id: true,
+          triggerId: true,
+          status: true,
+          reason: true,
+          error: true,
+          createdAt: true,
+          finishedAt: true,
+          event: { select: { type: true, sourceId: true, chain: true } },
+        },
+      }),
+    ]);
+
+    return NextResponse.json({ triggers, firings });
+  } catch (error) {
+    console.error('List task triggers error:', error);
+    return NextResponse.json({ error: 'Failed to load triggers' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const task = await prisma.task.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const issues = validateTriggerInput(body);
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid trigger', details: issues }, { status: 400 });
+    }
+
+    const type = body.type as TriggerType;
+    const fields = triggerFields(body, type);
+
+    if (fields.sourceTaskId) {
+      if (fields.sourceTaskId === task.id) {
+        return NextResponse.json({ error: 'A task cannot be triggered by its own runs' }, { status: 400 });
+      }
+      const source = await prisma.task.findFirst({
+        where: { id: fields.sourceTaskId, userId: session.user.id },
+        select: { id: true },
+      });
+      if (!source) {
+        return NextResponse.json({ error: 'Source task not found' }, { status: 404 });
+      }
+    }
+
+    if (fields.monitorId) {
+      const monitor = await prisma.pageMonitor.findFirst({
+        where: { id: fields.monitorId, userId: session.user.id },
+        select: { id: true },
+      });
+      if (!monitor) {
+        return NextResponse.json({ error: 'Monitor not found' }, { status: 404 });
+      }
+    }
+
+    const secret = type === 'webhook' ? generateTriggerSecret() : null;
+    const trigger = await prisma.taskTrigger.create({
+      data: {
+        ...fields,
+        taskId: task.id,
+        type,
+        secretHash: secret ? hashTriggerSecret(secret) : null,
+      },
+      select: TASK_TRIGGER_FIELDS,
+    });
+
+    // `secret` and `url` are present exactly once, in this response.
+    return NextResponse.json(
+      { trigger: secret ? { ...trigger, secret, url: triggerWebhookUrl(trigger.id, secret) } : trigger },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create task trigger error:', error);
+    return NextResponse.json({ error: 'Failed to create trigger' }, { status: 500 });
+  }
+}
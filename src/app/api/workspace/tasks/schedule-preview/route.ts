@@ -0,0 +1,37 @@
+/**
+ * GET /api/workspace/tasks/schedule-preview?schedule=&timezone=&count= — the
+ *     next run times of a cron expression in a timezone (default 5), to check
+ *     a schedule before saving it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { DEFAULT_TIMEZONE, previewSchedule, validateScheduleInput } from '@/lib/agent/scheduler';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const schedule = searchParams.get('schedule') ?? undefined;
+    const timezone = searchParams.get('timezone') || DEFAULT_TIMEZONE;
+
+    const issues = validateScheduleInput({ schedule, timezone });
+    if (issues.length) {
+      return NextResponse.json({ error: 'Invalid schedule', details: issues }, { status: 400 });
+    }
+
+    const count = Number(searchParams.get('count')) || 5;
+
+    return NextResponse.json({ schedule, timezone, runs: previewSchedule(schedule!, timezone, count) });
+  } catch (error) {
+    console.error('Schedule preview error:', error);
+    return NextResponse.json({ error: 'Failed to preview schedule' }, { status: 500 });
+  }
+}
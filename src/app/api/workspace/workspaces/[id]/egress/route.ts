@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { canAdministerWorkspace, verifyWorkspaceAccess } from '@/lib/workspace-utils';
+import { normalizeEgressDomain, validateEgressPolicyInput } from '@/lib/egress';
+
+const EGRESS_FIELDS = { egressAllowedDomains: true, egressBlockedDomains: true } as const;
+
+// GET /api/workspace/workspaces/[id]/egress - The domains agent tools may and may not fetch
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const hasAccess = await verifyWorkspaceAccess(params.id, user.id);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Workspace not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const workspace = await prisma.workspace.findUniqueOrThrow({
+      where: { id: params.id },
+      select: EGRESS_FIELDS,
+    });
+
+    return NextResponse.json({
+      success: true,
+      allowedDomains: workspace.egressAllowedDomains,
+      blockedDomains: workspace.egressBlockedDomains,
+    });
+  } catch (error) {
+    console.error('Error fetching egress domains:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch egress domains' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/workspace/workspaces/[id]/egress - Replace either list (owners and admins)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const hasAccess = await verifyWorkspaceAccess(params.id, user.id);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Workspace not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAdministerWorkspace(params.id, user.id))) {
+      return NextResponse.json(
+        { error: 'Only workspace owners and admins can manage egress domains' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { allowedDomains, blockedDomains } = body;
+
+    const issues = validateEgressPolicyInput({ allowedDomains, blockedDomains });
+    if (issues.length) {
+      return NextResponse.json(
+        { error: 'Invalid egress domains', details: issues },
+        { status: 400 }
+      );
+    }
+
+    const normalize = (list: unknown[]) => Array.from(new Set(list.map((entry) => normalizeEgressDomain(entry)!)));
+
+    const workspace = await prisma.workspace.update({
+      where: { id: params.id },
+      data: {
+        ...(allowedDomains !== undefined && { egressAllowedDomains: normalize(allowedDomains) }),
+        ...(blockedDomains !== undefined && { egressBlockedDomains: normalize(blockedDomains) }),
+      },
+      select: EGRESS_FIELDS,
+    });
+
+    return NextResponse.json({
+      success: true,
+      allowedDomains: workspace.egressAllowedDomains,
+      blockedDomains: workspace.egressBlockedDomains,
+    });
+  } catch (error) {
+    console.error('Error updating egress domains:', error);
+    return NextResponse.json(
+      { error: 'Failed to update egress domains' },
+      { status: 500 }
+    );
+  }
+}
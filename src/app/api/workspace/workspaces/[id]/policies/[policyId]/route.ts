@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { canAdministerWorkspace } from '@/lib/workspace-utils';
+import { validatePolicyRule } from '@/lib/agent/tool-policy';
+
+type RouteParams = { params: { id: string; policyId: string } };
+
+/**
+ * The signed-in user, provided they administer the workspace, or the
+ * response to return instead.
+ */
+async function authorizeAdmin(workspaceId: string) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+  });
+
+  if (!user) {
+    return { error: NextResponse.json({ error: 'User not found' }, { status: 404 }) };
+  }
+
+  if (!(await canAdministerWorkspace(workspaceId, user.id))) {
+    return {
+      error: NextResponse.json(
+        { error: 'Workspace not found or you cannot manage its tool policies' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { user };
+}
+
+// PATCH /api/workspace/workspaces/[id]/policies/[policyId] - Update a tool policy
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorizeAdmin(params.id);
+    if (auth.error) return auth.error;
+
+    const existing = await prisma.toolPolicy.findFirst({
+      where: { id: params.policyId, workspaceId: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Policy not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { name, description, tool, conditions, effect, priority, enabled } = body;
+
+    // Validate the policy as it will be after the update
+    const issues = validatePolicyRule({
+      name: name ?? existing.name,
+      tool: tool ?? existing.tool,
+      conditions: conditions ?? existing.conditions,
+      effect: effect ?? existing.effect,
+      priority: priority ?? existing.priority,
+    });
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      issues.push('enabled must be true or false');
+    }
+    if (issues.length) {
+      return NextResponse.json(
+        { error: 'Invalid policy', details: issues },
+        { status: 400 }
+      );
+    }
+
+    const updateData: any = {};
+    if (name !== undefined) updateData.name = name.trim();
+    if (description !== undefined) updateData.description = description?.trim() || null;
+    if (tool !== undefined) updateData.tool = tool;
+    if (conditions !== undefined) updateData.conditions = conditions;
+    if (effect !== undefined) updateData.effect = effect;
+    if (priority !== undefined) updateData.priority = priority;
+    if (enabled !== undefined) updateData.enabled = enabled;
+
+    const policy = await prisma.toolPolicy.update({
+      where: { id: existing.id },
+      data: updateData,
+    });
+
+    return NextResponse.json({ success: true, policy });
+  } catch (error) {
+    console.error('Error updating tool policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to update tool policy' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/workspace/workspaces/[id]/policies/[policyId] - Delete a tool policy
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorizeAdmin(params.id);
+    if (auth.error) return auth.error;
+
+    const { count } = await prisma.toolPolicy.deleteMany({
+      where: { id: params.policyId, workspaceId: params.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Policy not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting tool policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete tool policy' },
+      { status: 500 }
+    );
+  }
+}
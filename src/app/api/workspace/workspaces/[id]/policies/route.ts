@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { canAdministerWorkspace, verifyWorkspaceAccess } from '@/lib/workspace-utils';
+import { validatePolicyRule } from '@/lib/agent/tool-policy';
+
+// GET /api/workspace/workspaces/[id]/policies - List the workspace's tool policies
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const hasAccess = await verifyWorkspaceAccess(params.id, user.id);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Workspace not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const policies = await prisma.toolPolicy.findMany({
+      where: { workspaceId: params.id },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return NextResponse.json({ success: true, policies });
+  } catch (error) {
+    console.error('Error fetching tool policies:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch tool policies' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workspace/workspaces/[id]/policies - Create a tool policy (owners and admins)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const hasAccess = await verifyWorkspaceAccess(params.id, user.id);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Workspace not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAdministerWorkspace(params.id, user.id))) {
+      return NextResponse.json(
+        { error: 'Only workspace owners and admins can manage tool policies' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, description, tool, conditions, effect, priority, enabled } = body;
+
+    const issues = validatePolicyRule({ name, tool, conditions, effect, priority });
+    if (issues.length) {
+      return NextResponse.json(
+        { error: 'Invalid policy', details: issues },
+        { status: 400 }
+      );
+    }
+
+    const policy = await prisma.toolPolicy.create({
+      data: {
+        workspaceId: params.id,
+        name: name.trim(),
+        description: description?.trim() || null,
+        tool,
+        conditions: conditions || [],
+        effect,
+        priority: priority ?? 0,
+        enabled: enabled ?? true,
+        createdBy: user.id,
+      },
+    });
+
+    return NextResponse.json({ success: true, policy }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating tool policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to create tool policy' },
+      { status: 500 }
+    );
+  }
+}
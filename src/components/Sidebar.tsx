@@ -30,6 +30,8 @@ import {
   MessageSquare,
   SquarePen,
   FileStack,
+  ShieldCheck,
+  Files,
 } from 'lucide-react';
 import { useRouter, usePathname } from 'next/navigation';
 import { useSession, signOut } from 'next-auth/react';
@@ -69,6 +71,8 @@ export default function Sidebar({ isCollapsed = false, onToggleCollapse }: Sideb
     { name: 'Documents', icon: FileStack, href: '/documents/new', requireAuth: true },
     { name: 'Projects', icon: FolderOpen, href: '/workspace/projects/new', requireAuth: true },
     { name: 'Browser', icon: Link2, href: '/browser', requireAuth: true },
+    { name: 'Artifacts', icon: Files, href: '/artifacts', requireAuth: true },
+    { name: 'Approvals', icon: ShieldCheck, href: '/approvals', requireAuth: true },
     { name: 'Analytics', icon: BarChart3, href: '/settings/usage', requireAuth: true },
     { name: 'Settings', icon: Settings, href: '/settings/account', requireAuth: true },
   ];
@@ -0,0 +1,232 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Trash2, Zap } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+
+interface TriggerView {
+  id: string;
+  type: string;
+  sourceTaskId: string | null;
+  monitorId: string | null;
+  channel: string | null;
+  pattern: string | null;
+  enabled: boolean;
+  lastFiredAt: string | null;
+  fireCount: number;
+}
+
+interface FiringView {
+  id: string;
+  triggerId: string;
+  status: string;
+  reason: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  task_completed: 'When a task completes',
+  task_failed: 'When a task fails',
+  webhook: 'Inbound webhook',
+  monitor_alert: 'When a page monitor alerts',
+  slack_message: 'Slack message',
+  telegram_message: 'Telegram message',
+};
+
+/** The field a new trigger of each type needs, if any. */
+const SOURCE_FIELDS: Record<string, { key: string; placeholder: string } | undefined> = {
+  task_completed: { key: 'sourceTaskId', placeholder: 'Task id to follow' },
+  task_failed: { key: 'sourceTaskId', placeholder: 'Task id to follow' },
+  monitor_alert: { key: 'monitorId', placeholder: 'Page monitor id' },
+  slack_message: { key: 'channel', placeholder: 'Channel id (any if empty)' },
+  telegram_message: { key: 'channel', placeholder: 'Chat id (any if empty)' },
+};
+
+function describe(trigger: TriggerView): string {
+  const source = trigger.sourceTaskId || trigger.monitorId || trigger.channel;
+  const pattern = trigger.pattern ? ` containing "${trigger.pattern}"` : '';
+  return `${TYPE_LABELS[trigger.type] || trigger.type}${source ? ` · ${source}` : ''}${pattern}`;
+}
+
+/**
+ * The task's triggers, their latest firings and a form to add one. See
+ * lib/agent/triggers.ts.
+ */
+export function TaskTriggersCard({ taskId }: { taskId: string }) {
+  const [triggers, setTriggers] = useState<TriggerView[]>([]);
+  const [firings, setFirings] = useState<FiringView[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [type, setType] = useState('task_completed');
+  const [source, setSource] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [webhookUrl, setWebhookUrl] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/workspace/tasks/${taskId}/triggers`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to load triggers');
+      setTriggers(json.triggers);
+      setFirings(json.firings);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load triggers');
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function request(url: string, init: RequestInit) {
+    setError(null);
+    const res = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+    const json = await res.json();
+    if (!res.ok) throw new Error(json.details?.join(', ') || json.error || 'Request failed');
+    return json;
+  }
+
+  async function addTrigger() {
+    setSaving(true);
+    try {
+      const field = SOURCE_FIELDS[type];
+      const json = await request(`/api/workspace/tasks/${taskId}/triggers`, {
+        method: 'POST',
+        body: JSON.stringify({
+          type,
+          ...(field && source.trim() && { [field.key]: source.trim() }),
+          ...(type.endsWith('_message') && pattern.trim() && { pattern: pattern.trim() }),
+        }),
+      });
+      setWebhookUrl(json.trigger.url || null);
+      setSource('');
+      setPattern('');
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to add trigger');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function setEnabled(trigger: TriggerView, enabled: boolean) {
+    try {
+      await request(`/api/workspace/tasks/${taskId}/triggers/${trigger.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ enabled }),
+      });
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to update trigger');
+    }
+  }
+
+  async function remove(trigger: TriggerView) {
+    try {
+      await request(`/api/workspace/tasks/${taskId}/triggers/${trigger.id}`, { method: 'DELETE' });
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete trigger');
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Zap className="h-4 w-4" />
+          Triggers
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        {loading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+        ) : triggers.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Nothing starts this task automatically yet.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {triggers.map((trigger) => (
+              <div key={trigger.id} className="flex items-center gap-3 border rounded-lg p-3">
+                <Switch checked={trigger.enabled} onCheckedChange={(checked) => setEnabled(trigger, checked)} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{describe(trigger)}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {trigger.fireCount
+                      ? `Fired ${trigger.fireCount} times, last ${new Date(trigger.lastFiredAt!).toLocaleString()}`
+                      : 'Never fired'}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => remove(trigger)} aria-label="Delete trigger">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {webhookUrl && (
+          <div className="text-sm space-y-1">
+            <p>POST to this URL to start the task. It is shown only once:</p>
+            <code className="block text-xs bg-gray-50 dark:bg-gray-900 rounded-lg p-3 break-all">{webhookUrl}</code>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            className="px-3 py-2 text-sm rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          >
+            {Object.entries(TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {SOURCE_FIELDS[type] && (
+            <Input
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              placeholder={SOURCE_FIELDS[type]!.placeholder}
+              className="w-56"
+            />
+          )}
+          {type.endsWith('_message') && (
+            <Input
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder="Containing (optional)"
+              className="w-44"
+            />
+          )}
+          <Button size="sm" onClick={addTrigger} disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add trigger'}
+          </Button>
+        </div>
+
+        {firings.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Recent firings</p>
+            {firings.map((firing) => (
+              <p key={firing.id} className="text-xs text-gray-600 dark:text-gray-400">
+                {new Date(firing.createdAt).toLocaleString()} · {firing.status.replace('_', ' ')}
+                {(firing.reason || firing.error) && ` — ${firing.reason || firing.error}`}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
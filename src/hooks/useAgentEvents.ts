@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { AgentEvent } from '@/lib/agent/types';
+
+const EVENT_TYPES: AgentEvent['type'][] = [
+  'task.started',
+  'task.step.started',
+  'task.step.completed',
+  'task.step.failed',
+  'task.paused',
+  'task.resumed',
+  'task.replanned',
+  'task.completed',
+  'task.failed',
+  'task.cancelled',
+  'approval.required',
+];
+
+const TERMINAL_TYPES = new Set<AgentEvent['type']>(['task.completed', 'task.failed', 'task.cancelled']);
+
+export interface UseAgentEvents {
+  events: AgentEvent[];
+  /** True while the stream is open and the run has not finished. */
+  live: boolean;
+}
+
+/**
+ * Follow a task's events from /api/agent/events. EventSource reconnects on
+ * its own and resumes from the last event it received, so a dropped
+ * connection neither loses nor repeats events.
+ */
+export function useAgentEvents(taskId: string | null | undefined): UseAgentEvents {
+  const [events, setEvents] = useState<AgentEvent[]>([]);
+  const [live, setLive] = useState(false);
+
+  useEffect(() => {
+    if (!taskId) return;
+
+    setEvents([]);
+    const source = new EventSource(`/api/agent/events/${taskId}`);
+
+    const handle = (message: MessageEvent) => {
+      const event: AgentEvent = JSON.parse(message.data);
+      setEvents((prev) => [...prev, event]);
+      if (TERMINAL_TYPES.has(event.type)) {
+        source.close();
+        setLive(false);
+      }
+    };
+
+    source.onopen = () => setLive(true);
+    source.onerror = () => setLive(source.readyState !== EventSource.CLOSED);
+    EVENT_TYPES.forEach((type) => source.addEventListener(type, handle));
+
+    return () => {
+      source.close();
+      setLive(false);
+    };
+  }, [taskId]);
+
+  return { events, live };
+}
@@ -0,0 +1,386 @@
+/**
+ * Approval Inbox - persisted human decisions on sensitive agent steps
+ *
+ * When the approval gate (see approval.ts) halts a run, the step becomes an
+ * ApprovalRequest carrying the params the tool would have received, and is
+ * delivered to the user by email and, when connected, Slack and Telegram. The
+ * user approves or denies it from any of those or from /approvals. Either
+ * decision re-queues the task: the worker resumes it from its checkpoints
+ * (see checkpoint.ts), reaches the same gate again and this time finds the
+ * decision — an approval lets the step run, a denial fails it with an
+ * ApprovalDeniedError that the planner sees when revising the plan.
+ *
+ * An approval covers exactly the params the user was shown (paramsHash) and is
+ * consumed by the run that acts on it, so a replanned step with different
+ * params — or another pass of a loop through the same step — asks again.
+ * Requests nobody answers expire after APPROVAL_TTL_MS and fail their task.
+ */
+
+import { createHash } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { queueAgentTask } from '@/lib/queue/agent-queue';
+import { sendApprovalRequestEmail } from '@/lib/email';
+import { postSlackMessage } from '@/lib/slack-oauth';
+import { sendTelegramMessage } from '@/lib/telegram-bot';
+import { decryptIntegration } from '@/lib/integrations/store';
+import type { AgentTask, ExecutionStep } from './types';
+
+/** How long a request waits for a decision before it expires. */
+export const APPROVAL_TTL_MS = 72 * 60 * 60 * 1000;
+
+/** Longest params preview put in an email or chat message. */
+const PARAMS_PREVIEW_LENGTH = 1500;
+
+export type ApprovalDecision = 'approve' | 'deny';
+export type ApprovalChannel = 'web' | 'email' | 'slack' | 'telegram';
+
+/** What the approval gate should do with a step. */
+export type StepApproval =
+  | { status: 'approved'; approvalId: string }
+  | { status: 'denied'; approvalId: string; reason?: string }
+  | { status: 'pending'; approvalId: string };
+
+export type ApprovalFailureReason = 'not_found' | 'already_decided' | 'expired';
+
+export type DecideApprovalResult =
+  | { ok: true; status: 'approved' | 'denied'; taskId: string; resumed: boolean }
+  | { ok: false; reason: ApprovalFailureReason; message: string };
+
+interface ApprovalRequestRow {
+  id: string;
+  taskId: string;
+  userId: string;
+  stepNumber: number;
+  tool: string;
+  action: string;
+  description: string | null;
+  params: unknown;
+  expiresAt: Date;
+}
+
+/** JSON with object keys sorted, so equal values always serialize the same. */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Fingerprint of the params a step would run with. Key order does not matter.
+ * Exported for testing.
+ */
+export function approvalParamsHash(params: Record<string, any>): string {
+  return createHash('sha256').update(stableStringify(params)).digest('hex');
+}
+
+/** Params as shown to a human: pretty JSON, cut off when long. */
+export function formatApprovalParams(params: unknown): string {
+  const text = JSON.stringify(params, null, 2) ?? '';
+  return text.length > PARAMS_PREVIEW_LENGTH ? `${text.slice(0, PARAMS_PREVIEW_LENGTH)}\n…` : text;
+}
+
+function approvalUrl(requestId: string): string {
+  return `${process.env.NEXTAUTH_URL}/approvals?request=${requestId}`;
+}
+
+/**
+ * Look up the user's decision on a step that needs approval, asking for one
+ * if there is none yet. `params` are the params the tool would receive.
+ *
+ * A decided request is consumed here, so each decision is acted on once; a
+ * pending, unexpired request is reused rather than asking twice.
+ */
+export async function resolveStepApproval(
+  task: AgentTask,
+  step: ExecutionStep,
+  params: Record<string, any>
+): Promise<StepApproval> {
+  const paramsHash = approvalParamsHash(params);
+  const now = new Date();
+
+  const existing = await prisma.approvalRequest.findFirst({
+    where: {
+      taskId: task.id,
+      stepNumber: step.stepNumber,
+      paramsHash,
+      consumedAt: null,
+      OR: [{ status: { in: ['approved', 'denied'] } }, { status: 'pending', expiresAt: { gt: now } }],
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (existing?.status === 'pending') {
+    return { status: 'pending', approvalId: existing.id };
+  }
+
+  if (existing) {
+    // Two workers resuming the same task must not both act on one decision
+    const consumed = await prisma.approvalRequest.updateMany({
+      where: { id: existing.id, consumedAt: null },
+      data: { consumedAt: now },
+    });
+    if (consumed.count === 1) {
+      return existing.status === 'approved'
+        ? { status: 'approved', approvalId: existing.id }
+        : { status: 'denied', approvalId: existing.id, reason: existing.reason ?? undefined };
+    }
+  }
+
+  const request = await prisma.approvalRequest.create({
+    data: {
+      taskId: task.id,
+      userId: task.userId,
+      stepId: step.id,
+      stepNumber: step.stepNumber,
+      tool: step.tool,
+      action: step.action,
+      description: step.description,
+      params: params as any,
+      paramsHash,
+      expiresAt: new Date(now.getTime() + APPROVAL_TTL_MS),
+    },
+  });
+
+  await deliverApprovalRequest(request);
+
+  return { status: 'pending', approvalId: request.id };
+}
+
+/**
+ * Send a new request to every channel the user has: email always, Slack and
+ * Telegram when connected. Each channel is best-effort — a failed delivery
+ * never blocks the others, and the request stays answerable from /approvals.
+ * Outcomes are recorded on the request.
+ */
+export async function deliverApprovalRequest(request: ApprovalRequestRow): Promise<void> {
+  const deliveries: Record<string, string> = {};
+
+  const [user, task, integrations] = await Promise.all([
+    prisma.user.findUnique({ where: { id: request.userId }, select: { email: true, name: true } }),
+    prisma.task.findUnique({ where: { id: request.taskId }, select: { title: true } }),
+    prisma.integration.findMany({
+      where: { userId: request.userId, provider: { in: ['slack', 'telegram'] }, isActive: true },
+    }),
+  ]);
+
+  const taskTitle = task?.title || 'Agent task';
+  const params = formatApprovalParams(request.params);
+  const summary =
+    `"${taskTitle}" wants to run step ${request.stepNumber}: ${request.description || request.action} ` +
+    `(${request.tool}).`;
+
+  if (user?.email) {
+    try {
+      const { sent } = await sendApprovalRequestEmail({
+        to: user.email,
+        name: user.name,
+        taskTitle,
+        stepNumber: request.stepNumber,
+        tool: request.tool,
+        description: request.description || request.action,
+        params,
+        approveUrl: `${approvalUrl(request.id)}&decision=approve`,
+        denyUrl: `${approvalUrl(request.id)}&decision=deny`,
+        expiresAt: request.expiresAt,
+      });
+      deliveries.email = sent ? 'sent' : 'skipped';
+    } catch (error: any) {
+      deliveries.email = `failed: ${error.message}`;
+    }
+  }
+
+  for (const row of integrations) {
+    const integration = decryptIntegration(row);
+    const config = (integration.config as Record<string, any> | null) || {};
+
+    try {
+      if (integration.provider === 'slack') {
+        // Only the connecting user's DM; without it we would not know whom to ask
+        if (!config.authedUserId || !integration.accessToken) {
+          deliveries.slack = 'skipped: reconnect Slack to receive approvals';
+          continue;
+        }
+        const response = await postSlackMessage(integration.accessToken, config.authedUserId, summary, {
+          blocks: [
+            { type: 'section', text: { type: 'mrkdwn', text: `*Approval needed*\n${summary}` } },
+            { type: 'section', text: { type: 'mrkdwn', text: `\`\`\`${params}\`\`\`` } },
+            {
+              type: 'actions',
+              elements: [
+                { type: 'button', action_id: 'approval_approve', style: 'primary', text: { type: 'plain_text', text: 'Approve' }, value: request.id },
+                { type: 'button', action_id: 'approval_deny', style: 'danger', text: { type: 'plain_text', text: 'Deny' }, value: request.id },
+              ],
+            },
+          ],
+        });
+        deliveries.slack = response.ok ? 'sent' : `failed: ${response.error}`;
+      } else if (integration.provider === 'telegram') {
+        // Set when the user opens the bot's one-time approval link
+        if (!config.approvalChatId || !integration.accessToken) {
+          deliveries.telegram = 'skipped: no chat has opened the approval link for this bot';
+          continue;
+        }
+        await sendTelegramMessage(
+          integration.accessToken,
+          config.approvalChatId,
+          `🔐 Approval needed\n\n${summary}\n\n${params}`,
+          {
+            reply_markup: {
+              inline_keyboard: [[
+                { text: '✅ Approve', callback_data: `approval:approve:${request.id}` },
+                { text: '❌ Deny', callback_data: `approval:deny:${request.id}` },
+              ]],
+            },
+          }
+        );
+        deliveries.telegram = 'sent';
+      }
+    } catch (error: any) {
+      deliveries[integration.provider] = `failed: ${error.message}`;
+    }
+  }
+
+  try {
+    await prisma.approvalRequest.update({
+      where: { id: request.id },
+      data: { deliveries },
+    });
+  } catch (error) {
+    console.error(`[Approvals] Failed to record deliveries for ${request.id}:`, error);
+  }
+}
+
+/**
+ * The user's approval requests, newest first.
+ */
+export async function listApprovals(userId: string, status?: string) {
+  return prisma.approvalRequest.findMany({
+    where: { userId, ...(status ? { status } : {}) },
+    include: { task: { select: { id: true, title: true, status: true } } },
+    orderBy: { createdAt: 'desc' },
+    take: 100,
+  });
+}
+
+/**
+ * Record a decision and resume the task it halted. Only the user the run
+ * belongs to may decide, and only once: of two concurrent decisions (say a
+ * Slack click and a web click) exactly one wins.
+ */
+export async function decideApproval(input: {
+  requestId: string;
+  userId: string;
+  decision: ApprovalDecision;
+  reason?: string;
+  via: ApprovalChannel;
+}): Promise<DecideApprovalResult> {
+  const now = new Date();
+
+  const request = await prisma.approvalRequest.findFirst({
+    where: { id: input.requestId, userId: input.userId },
+  });
+
+  if (!request) {
+    return { ok: false, reason: 'not_found', message: 'Approval request not found' };
+  }
+  if (request.status !== 'pending') {
+    return { ok: false, reason: 'already_decided', message: `This request was already ${request.status}` };
+  }
+  if (request.expiresAt <= now) {
+    return { ok: false, reason: 'expired', message: 'This request has expired' };
+  }
+
+  const status = input.decision === 'approve' ? 'approved' : 'denied';
+  const decided = await prisma.approvalRequest.updateMany({
+    where: { id: request.id, status: 'pending' },
+    data: {
+      status,
+      reason: input.reason?.trim() || null,
+      decidedBy: input.userId,
+      decidedVia: input.via,
+      decidedAt: now,
+    },
+  });
+
+  if (decided.count === 0) {
+    return { ok: false, reason: 'already_decided', message: 'This request was already decided' };
+  }
+
+  // Resume the run if it is still halted on this gate. A denial resumes it
+  // too: the step then fails with the user's reason, and the planner can
+  // route around it.
+  const task = await prisma.task.findUnique({
+    where: { id: request.taskId },
+    select: { status: true, priority: true },
+  });
+
+  let resumed = false;
+  if (task?.status === 'awaiting_approval') {
+    const claimed = await prisma.task.updateMany({
+      where: { id: request.taskId, status: 'awaiting_approval' },
+      data: { status: 'executing', attempts: { increment: 1 }, lastRunAt: now },
+    });
+    if (claimed.count === 1) {
+      await queueAgentTask(request.taskId, request.userId, {
+        priority: task.priority === 'urgent' ? 10 : task.priority === 'high' ? 5 : 1,
+      });
+      resumed = true;
+    }
+  }
+
+  return { ok: true, status, taskId: request.taskId, resumed };
+}
+
+/**
+ * Expire a task's pending requests because nothing will resume it for the
+ * run that was waiting on it — a sub-task or team member whose parent has
+ * moved on. Approving one later would run the task on its own.
+ */
+export async function withdrawTaskApprovals(taskId: string): Promise<number> {
+  const { count } = await prisma.approvalRequest.updateMany({
+    where: { taskId, status: 'pending' },
+    data: { status: 'expired' },
+  });
+  return count;
+}
+
+/**
+ * Expire requests nobody answered in time and fail the tasks still halted on
+ * them. Called from the daily scheduled-task cron.
+ */
+export async function expireStaleApprovals(now: Date = new Date()): Promise<{ expired: number; tasksFailed: number }> {
+  const stale = await prisma.approvalRequest.findMany({
+    where: { status: 'pending', expiresAt: { lte: now } },
+    select: { id: true, taskId: true, stepNumber: true },
+  });
+
+  if (stale.length === 0) {
+    return { expired: 0, tasksFailed: 0 };
+  }
+
+  const { count } = await prisma.approvalRequest.updateMany({
+    where: { id: { in: stale.map((r) => r.id) }, status: 'pending' },
+    data: { status: 'expired' },
+  });
+
+  let tasksFailed = 0;
+  for (const request of stale) {
+    const failed = await prisma.task.updateMany({
+      where: { id: request.taskId, status: 'awaiting_approval' },
+      data: {
+        status: 'failed',
+        error: `Approval for step ${request.stepNumber} expired without a decision`,
+        failedAt: now,
+      },
+    });
+    tasksFailed += failed.count;
+  }
+
+  return { expired: count, tasksFailed };
+}
@@ -12,7 +12,9 @@
  * pre-approved for the task halts execution instead of running.
  */
 
-import type { AgentConfig, ExecutionStep } from './types';
+import type { AgentConfig, AgentTool, ExecutionStep, PolicyEvaluation } from './types';
+import { MCP_TOOL_PREFIX } from './tools/mcp';
+import { CUSTOM_TOOL_PREFIX, CustomHttpTool } from './tools/custom';
 
 /**
  * Tools with external, state-changing, or irreversible side effects. Keep this
@@ -31,20 +33,62 @@ export const SENSITIVE_TOOLS: ReadonlySet<string> = new Set([
   'calendar.updateEvent',
   'calendar.deleteEvent',
   'http.post',
+  'code.run', // arbitrary code, which can reach the workspace's allowed domains
 ]);
 
-/** Thrown when a step needs approval that has not been granted. Not retryable. */
+/**
+ * Whether a tool is sensitive: one of SENSITIVE_TOOLS, a tool on an external
+ * MCP server, whose effects we cannot know, or a custom HTTP tool that does
+ * anything but GET with the user's credentials. A custom tool is judged by
+ * its `instance` when given, and otherwise assumed to write. A workspace
+ * policy can still allow any of them (see tool-policy.ts).
+ */
+export function isSensitiveTool(tool: string, instance?: AgentTool): boolean {
+  if (tool.startsWith(CUSTOM_TOOL_PREFIX)) {
+    return !(instance instanceof CustomHttpTool && instance.method === 'GET');
+  }
+  return SENSITIVE_TOOLS.has(tool) || tool.startsWith(MCP_TOOL_PREFIX);
+}
+
+/**
+ * Thrown when a step needs approval that has not been granted. Not retryable.
+ * `approvalId` names the ApprovalRequest the user is being asked to decide.
+ */
 export class ApprovalRequiredError extends Error {
   readonly tool: string;
   readonly stepNumber: number;
+  readonly approvalId?: string;
 
-  constructor(tool: string, stepNumber: number) {
+  constructor(tool: string, stepNumber: number, approvalId?: string) {
     super(
       `Step ${stepNumber} uses "${tool}", which requires human approval before it can run.`
     );
     this.name = 'ApprovalRequiredError';
     this.tool = tool;
     this.stepNumber = stepNumber;
+    this.approvalId = approvalId;
+  }
+}
+
+/**
+ * Thrown when the user denied a step. Not retryable; the message is written
+ * for the planner, which sees it when replanning the rest of the run.
+ */
+export class ApprovalDeniedError extends Error {
+  readonly tool: string;
+  readonly stepNumber: number;
+  readonly reason?: string;
+
+  constructor(tool: string, stepNumber: number, reason?: string) {
+    super(
+      `The user denied step ${stepNumber} ("${tool}")` +
+        (reason ? `: ${reason}` : '') +
+        '. Do not repeat this action as planned.'
+    );
+    this.name = 'ApprovalDeniedError';
+    this.tool = tool;
+    this.stepNumber = stepNumber;
+    this.reason = reason;
   }
 }
 
@@ -52,9 +96,22 @@ export class ApprovalRequiredError extends Error {
  * Whether a step must be approved before running. True when the tool is
  * sensitive (server-defined) OR the planner flagged it, UNLESS the user
  * pre-authorized that tool for this task via config.autoApprovedTools.
+ *
+ * A matching workspace policy (see tool-policy.ts) overrides the sensitivity
+ * list: require_approval always requires it, pre-authorization or not, and
+ * allow lifts it — though the planner's flag can still add friction.
+ * `tool` is the step's tool, for isSensitiveTool.
  */
-export function stepNeedsApproval(step: ExecutionStep, config: AgentConfig): boolean {
-  const needs = SENSITIVE_TOOLS.has(step.tool) || step.requiresApproval === true;
+export function stepNeedsApproval(
+  step: ExecutionStep,
+  config: AgentConfig,
+  policy?: PolicyEvaluation,
+  tool?: AgentTool
+): boolean {
+  if (policy?.effect === 'require_approval') return true;
+
+  const sensitive = policy?.effect === 'allow' ? false : isSensitiveTool(step.tool, tool);
+  const needs = sensitive || step.requiresApproval === true;
   if (!needs) return false;
 
   const preApproved = config.autoApprovedTools?.includes(step.tool) ?? false;
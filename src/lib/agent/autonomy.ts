@@ -33,8 +33,9 @@ import { checkAndResetCredits } from '@/lib/credits';
 import { assertCanSpend } from '@/lib/billing/gate';
 import { queueAgentTask } from '@/lib/queue/agent-queue';
 import { AgentExecutor } from './executor';
-import { toolRegistry } from './tools';
-import { SENSITIVE_TOOLS } from './approval';
+import type { ToolRegistry } from './tools/registry';
+import { loadUserToolRegistry } from './custom-tools';
+import { isSensitiveTool } from './approval';
 import type { AgentConfig, AgentTask, AgentType, ExecutionPlan } from './types';
 
 /** Cheap model for classification. Must be a real catalog id — guarded below. */
@@ -156,17 +157,18 @@ export async function classifyGoal(goal: string): Promise<AgentType> {
 /**
  * Which of a plan's tools cannot run unattended without an explicit grant.
  *
- * Reads from the same SENSITIVE_TOOLS set the executor enforces against, plus
+ * Reads from the same isSensitiveTool() the executor enforces against, plus
  * the planner's own `requiresApproval` flag, so the list shown to the user is
  * exactly the list that would otherwise halt the run. Deriving it any other way
  * would let the two drift, and the failure mode of that drift is a run that
  * stalls overnight on a step the user was never asked about.
+ * `registry` is the user's, so their custom tools are judged by method.
  * Exported for testing.
  */
-export function sensitiveToolsInPlan(plan: ExecutionPlan): string[] {
+export function sensitiveToolsInPlan(plan: ExecutionPlan, registry?: ToolRegistry): string[] {
   const tools = new Set<string>();
   for (const step of plan.steps) {
-    if (SENSITIVE_TOOLS.has(step.tool) || step.requiresApproval === true) {
+    if (isSensitiveTool(step.tool, registry?.getTool(step.tool)) || step.requiresApproval === true) {
       tools.add(step.tool);
     }
   }
@@ -227,8 +229,10 @@ export async function prepareAutonomousRun(params: {
   };
 
   let plan: ExecutionPlan;
+  let registry: ToolRegistry;
   try {
-    const executor = new AgentExecutor(agentType, config, toolRegistry);
+    registry = await loadUserToolRegistry(userId);
+    const executor = new AgentExecutor(agentType, config, registry);
     plan = await executor.plan(agentTask);
   } catch (error) {
     await prisma.task.update({
@@ -264,11 +268,11 @@ export async function prepareAutonomousRun(params: {
         stepNumber: step.stepNumber,
         description: step.description,
         tool: step.tool,
-        sensitive: SENSITIVE_TOOLS.has(step.tool) || step.requiresApproval === true,
+        sensitive: isSensitiveTool(step.tool, registry.getTool(step.tool)) || step.requiresApproval === true,
       })),
       estimatedCredits: plan.estimatedCredits,
       estimatedDurationMs: plan.estimatedDuration,
-      requiresApprovalFor: sensitiveToolsInPlan(plan),
+      requiresApprovalFor: sensitiveToolsInPlan(plan, registry),
       affordable: decision.allowed,
       creditsAvailable: Math.max(0, decision.remaining),
     },
@@ -325,7 +329,7 @@ export async function confirmAutonomousRun(params: {
   }
 
   const plan = task.plan as unknown as ExecutionPlan;
-  const planSensitiveTools = sensitiveToolsInPlan(plan);
+  const planSensitiveTools = sensitiveToolsInPlan(plan, await loadUserToolRegistry(userId));
   const granted = narrowApprovals(approvedTools, planSensitiveTools);
   const willPauseFor = planSensitiveTools.filter((tool) => !granted.includes(tool));
 
@@ -0,0 +1,172 @@
+/**
+ * Task Cancellation - stopping a running task, wherever it runs
+ *
+ * AgentExecutor.pause() and cancel() abort the AbortSignal every tool gets
+ * as AgentContext.signal. withTimeout() (guards.ts) rejects the moment it
+ * aborts, and tools that honour it stop what they are doing: fetch-based
+ * tools cancel the request, browser tools close their session and batch
+ * sends stop before the next message. A tool that ignores it is still no
+ * longer waited for.
+ *
+ * Those methods only reach an executor in the same process. The API
+ * (/api/agent/pause, /api/agent/cancel) and the scheduler run elsewhere, so
+ * they call requestTaskStop(), which publishes the request on a Redis
+ * channel every worker subscribes to through watchTaskStops(), and leaves it
+ * under agent:stop:<taskId> for a job that has not started yet to find
+ * (takePendingTaskStop). Without Redis, requests only reach this process.
+ */
+
+import { Redis } from 'ioredis';
+import { executeWithRedis, isRedisAvailable, redisConfig } from '@/lib/queue/redis';
+
+export type StopAction = 'pause' | 'cancel';
+
+const CHANNEL = 'agent:control';
+const KEY_PREFIX = 'agent:stop:';
+
+/** How long a stop request waits for a job that has not started. */
+const PENDING_STOP_TTL_SECONDS = 10 * 60;
+
+/**
+ * Why a run's signal was aborted. Tools and withTimeout() reject with it, so
+ * the executor can tell a stop from a failure.
+ */
+export class TaskStoppedError extends Error {
+  constructor(public readonly action: StopAction) {
+    super(action === 'pause' ? 'The task was paused' : 'The task was cancelled');
+    this.name = 'TaskStoppedError';
+  }
+}
+
+/**
+ * The error a stopped signal stands for: its reason when that is an error,
+ * else a TaskStoppedError.
+ */
+export function stopReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new TaskStoppedError('cancel');
+}
+
+/**
+ * Throw why the signal was aborted, if it was.
+ */
+export function throwIfStopped(signal?: AbortSignal): void {
+  if (signal?.aborted) throw stopReason(signal);
+}
+
+// ============================================================================
+// ACROSS PROCESSES
+// ============================================================================
+
+type StopHandler = (action: StopAction) => void | Promise<void>;
+
+const watchers = new Map<string, Set<StopHandler>>();
+let subscriber: Redis | null = null;
+
+/**
+ * Ask whichever process runs a task to pause or cancel it.
+ */
+export async function requestTaskStop(taskId: string, action: StopAction): Promise<void> {
+  await executeWithRedis(
+    async (redis) => {
+      await redis.set(`${KEY_PREFIX}${taskId}`, action, 'EX', PENDING_STOP_TTL_SECONDS);
+      await redis.publish(CHANNEL, JSON.stringify({ taskId, action }));
+    },
+    () => deliver(taskId, action),
+    'Request task stop'
+  );
+}
+
+/**
+ * Call `handler` whenever a stop is requested for the task, until the
+ * returned function is called.
+ */
+export function watchTaskStops(taskId: string, handler: StopHandler): () => void {
+  ensureSubscribed();
+
+  let handlers = watchers.get(taskId);
+  if (!handlers) {
+    handlers = new Set();
+    watchers.set(taskId, handlers);
+  }
+  handlers.add(handler);
+
+  return () => {
+    handlers!.delete(handler);
+    if (!handlers!.size && watchers.get(taskId) === handlers) {
+      watchers.delete(taskId);
+    }
+  };
+}
+
+/**
+ * A stop requested for the task before any process was watching it, which
+ * is cleared by reading it.
+ */
+export async function takePendingTaskStop(taskId: string): Promise<StopAction | null> {
+  return executeWithRedis(
+    async (redis) => {
+      const key = `${KEY_PREFIX}${taskId}`;
+      const replies = await redis.multi().get(key).del(key).exec();
+      const action = replies?.[0]?.[1];
+      return action === 'pause' || action === 'cancel' ? action : null;
+    },
+    () => null,
+    'Read pending task stop'
+  );
+}
+
+/**
+ * Forget a stop requested for the task, so a run started after it (a resume)
+ * is not stopped by it.
+ */
+export async function clearPendingTaskStop(taskId: string): Promise<void> {
+  await executeWithRedis(
+    async (redis) => {
+      await redis.del(`${KEY_PREFIX}${taskId}`);
+    },
+    () => undefined,
+    'Clear pending task stop'
+  );
+}
+
+function deliver(taskId: string, action: StopAction): void {
+  for (const handler of watchers.get(taskId) ?? []) {
+    Promise.resolve(handler(action)).catch((error) => {
+      console.error(`[Agent] Failed to ${action} task ${taskId}:`, error);
+    });
+  }
+}
+
+/**
+ * Subscribe this process to stop requests, once. A subscribed connection
+ * can do nothing else, so it is a connection of its own.
+ */
+function ensureSubscribed(): void {
+  if (subscriber || !isRedisAvailable()) return;
+
+  subscriber = new Redis(redisConfig);
+  subscriber.on('error', (error) => {
+    console.error('[Agent] Stop request subscription error:', error.message);
+  });
+  subscriber.on('message', (_channel, message) => {
+    try {
+      const { taskId, action } = JSON.parse(message);
+      if (action === 'pause' || action === 'cancel') deliver(taskId, action);
+    } catch (error) {
+      console.error('[Agent] Ignoring a malformed stop request:', error);
+    }
+  });
+  subscriber.subscribe(CHANNEL).catch((error) => {
+    console.error('[Agent] Failed to subscribe to stop requests:', error);
+  });
+}
+
+/**
+ * Close this process's subscription, if it has one.
+ */
+export async function closeTaskStopSubscription(): Promise<void> {
+  if (subscriber) {
+    await subscriber.quit().catch(() => undefined);
+    subscriber = null;
+  }
+}
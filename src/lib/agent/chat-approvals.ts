@@ -0,0 +1,178 @@
+/**
+ * Chat Approvals - a chat turn's pending tool approval, kept server-side
+ *
+ * When runChatLoop (see chat-loop.ts) halts on a call that needs approval, the
+ * messages it would resume from are stored here and the client is handed an
+ * opaque resume token for them. The client is no longer trusted with the
+ * model's tool calls: what the user is shown is what they approve, and what
+ * runs. A token is good for one decision, within CHAT_APPROVAL_TTL_MS.
+ *
+ * Clients from before tokens echo the messages back instead. Such a resume is
+ * matched to its approval by a hash of the messages, so an edited tool call
+ * matches nothing. Either way the decision is recorded on the approval — how
+ * and when it was made — and kept after the stored messages are cleared.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { AIMessage } from '@/lib/ai-providers/types';
+import { stableStringify } from './approval-inbox';
+
+/** How long a halted turn waits for the user. Chat is interactive. */
+export const CHAT_APPROVAL_TTL_MS = 60 * 60 * 1000;
+
+export type ChatApprovalDecision = 'approve' | 'deny';
+export type ChatApprovalChannel = 'web' | 'api';
+
+export type ChatApprovalFailureReason = 'not_found' | 'tampered' | 'already_decided' | 'expired';
+
+export interface PendingChatApproval {
+  id: string;
+  tool: string;
+  conversationId: string | null;
+}
+
+export type FindChatApprovalResult =
+  | { ok: true; approval: PendingChatApproval }
+  | { ok: false; reason: ChatApprovalFailureReason; message: string };
+
+export type DecideChatApprovalResult =
+  | { ok: true; messages: AIMessage[]; approvedTools: string[]; deniedTools: string[] }
+  | { ok: false; reason: ChatApprovalFailureReason; message: string };
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/** Key order does not matter: stored JSON comes back with its keys reordered. */
+function hashMessages(messages: unknown): string {
+  return sha256(stableStringify(messages));
+}
+
+/**
+ * Store a halted turn and return the token that resumes it.
+ */
+export async function createChatApproval(input: {
+  userId: string;
+  conversationId?: string;
+  messages: AIMessage[];
+  approvedTools: string[];
+  pending: { toolName: string; input: Record<string, unknown>; description: string };
+}): Promise<{ resumeToken: string; expiresAt: Date }> {
+  const resumeToken = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + CHAT_APPROVAL_TTL_MS);
+
+  await prisma.chatApproval.create({
+    data: {
+      userId: input.userId,
+      conversationId: input.conversationId ?? null,
+      tokenHash: sha256(resumeToken),
+      messages: input.messages as any,
+      messagesHash: hashMessages(input.messages),
+      approvedTools: input.approvedTools,
+      tool: input.pending.toolName,
+      input: input.pending.input as any,
+      description: input.pending.description,
+      expiresAt,
+    },
+  });
+
+  return { resumeToken, expiresAt };
+}
+
+/**
+ * The user's approval a resume refers to, by its token or, from an older
+ * client, by the messages it echoed back. Only a pending, unexpired approval
+ * whose messages are exactly as stored is returned.
+ */
+export async function findChatApproval(
+  userId: string,
+  resume: { resumeToken?: string; resumeMessages?: unknown }
+): Promise<FindChatApprovalResult> {
+  const approval = resume.resumeToken
+    ? await prisma.chatApproval.findFirst({ where: { userId, tokenHash: sha256(resume.resumeToken) } })
+    : await prisma.chatApproval.findFirst({
+        where: { userId, messagesHash: hashMessages(resume.resumeMessages) },
+        orderBy: { createdAt: 'desc' },
+      });
+
+  if (!approval) {
+    return resume.resumeToken
+      ? { ok: false, reason: 'not_found', message: 'Approval not found' }
+      : { ok: false, reason: 'tampered', message: 'These messages do not match any approval waiting on you' };
+  }
+  if (approval.status === 'expired' || (approval.status === 'pending' && approval.expiresAt <= new Date())) {
+    return { ok: false, reason: 'expired', message: 'This approval has expired; send your message again' };
+  }
+  if (approval.status !== 'pending') {
+    return { ok: false, reason: 'already_decided', message: `This approval was already ${approval.status}` };
+  }
+
+  // A client sending the token may still echo the messages; they must agree.
+  // The stored copy is checked too, in case the row was edited.
+  const echoed = resume.resumeToken && resume.resumeMessages !== undefined;
+  if (
+    (echoed && hashMessages(resume.resumeMessages) !== approval.messagesHash) ||
+    hashMessages(approval.messages) !== approval.messagesHash
+  ) {
+    return { ok: false, reason: 'tampered', message: 'The conversation changed since the approval was asked for' };
+  }
+
+  return { ok: true, approval: { id: approval.id, tool: approval.tool, conversationId: approval.conversationId } };
+}
+
+/**
+ * Record the user's decision and return what the turn resumes with. Only one
+ * decision is ever taken: of two concurrent resumes exactly one wins. The
+ * stored messages are cleared; the decision stays as the audit record.
+ */
+export async function decideChatApproval(input: {
+  approvalId: string;
+  userId: string;
+  decision: ChatApprovalDecision;
+  via: ChatApprovalChannel;
+}): Promise<DecideChatApprovalResult> {
+  const approval = await prisma.chatApproval.findFirst({
+    where: { id: input.approvalId, userId: input.userId },
+  });
+  if (!approval) {
+    return { ok: false, reason: 'not_found', message: 'Approval not found' };
+  }
+
+  const now = new Date();
+  const decided = await prisma.chatApproval.updateMany({
+    where: { id: approval.id, status: 'pending', expiresAt: { gt: now } },
+    data: {
+      status: input.decision === 'approve' ? 'approved' : 'denied',
+      decidedVia: input.via,
+      decidedAt: now,
+      messages: Prisma.DbNull,
+    },
+  });
+  if (decided.count === 0) {
+    return approval.expiresAt <= now
+      ? { ok: false, reason: 'expired', message: 'This approval has expired; send your message again' }
+      : { ok: false, reason: 'already_decided', message: 'This approval was already decided' };
+  }
+
+  const approvedTools = Array.isArray(approval.approvedTools) ? (approval.approvedTools as string[]) : [];
+  return {
+    ok: true,
+    messages: approval.messages as unknown as AIMessage[],
+    approvedTools: input.decision === 'approve' ? [...approvedTools, approval.tool] : approvedTools,
+    deniedTools: input.decision === 'deny' ? [approval.tool] : [],
+  };
+}
+
+/**
+ * Expire approvals nobody answered in time, dropping the turns they held.
+ * Called from the scheduled-task cron.
+ */
+export async function expireChatApprovals(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.chatApproval.updateMany({
+    where: { status: 'pending', expiresAt: { lte: now } },
+    data: { status: 'expired', messages: Prisma.DbNull },
+  });
+  return count;
+}
@@ -6,8 +6,8 @@
  * reusing the same tool registry, sensitivity rules, and execution guards,
  * but does its own turn-by-turn orchestration and never persists a `Task` row
  * — there is nothing to resume across server restarts, only across the one
- * HTTP request/response (or, for an approval halt, the next request the
- * client makes with `resumeMessages` echoed back).
+ * HTTP request/response (or, for an approval halt, the next request: the
+ * route stores `resumeMessages` until then, see chat-approvals.ts).
  */
 
 import { randomUUID } from 'crypto';
@@ -15,18 +15,29 @@ import { prisma } from '@/lib/prisma';
 import { aiRouter } from '@/lib/ai-providers';
 import { secureChat } from '@/lib/ai-security/guard';
 import type { AIMessage, ContentBlock, ToolCall, ToolDefinition } from '@/lib/ai-providers/types';
-import { toolRegistry } from './tools';
-import { SENSITIVE_TOOLS } from './approval';
-import { applyExecutionGuards, withTimeout } from './guards';
-import type { AgentContext, AgentState, ToolResult } from './types';
+import type { ToolRegistry } from './tools/registry';
+import { loadUserToolRegistry } from './custom-tools';
+import { isSensitiveTool } from './approval';
+import { COST_LIMITS, applyExecutionGuards, withTimeout } from './guards';
+import { throwIfStopped } from './cancellation';
+import { storeLargeOutput } from './tool-outputs';
+import { ToolPolicyDeniedError, evaluateToolPolicies, loadToolPolicies } from './tool-policy';
+import type { AgentContext, AgentState, AgentTool, PolicyEvaluation, ToolResult } from './types';
 
 export interface ToolTraceEntry {
   tool: string;
   input: Record<string, unknown>;
   success: boolean;
   summary: string;
+  /** Wall-clock time the call took */
   durationMs: number;
+  /** When the call started, in ms after its batch of tool calls did */
+  startedAtMs?: number;
+  /** Whether it could run alongside the batch's other read-only calls */
+  parallel?: boolean;
   credits: number;
+  /** How the workspace's tool policies judged this call */
+  policy?: PolicyEvaluation;
 }
 
 export interface ChatLoopParams {
@@ -34,6 +45,16 @@ export interface ChatLoopParams {
   /** System + history + new user turn, pre-assembled by the caller. */
   messages: AIMessage[];
   userId: string;
+  /**
+   * The workspace of the conversation, whose tool policies and domain lists
+   * apply if the user has access to it; the team's default workspace if unset.
+   */
+  workspaceId?: string;
+  /**
+   * Tools the user approved for the rest of this turn. A call a workspace
+   * policy requires approval for is not covered: it runs only as the call a
+   * resume was decided on.
+   */
   approvedTools: string[];
   /**
    * Tool names the user explicitly declined on this resume. Only meaningful
@@ -48,6 +69,10 @@ export interface ChatLoopParams {
   thinking?: { type: 'enabled'; budget_tokens: number };
   /** Default 6 — chat is a synchronous request, latency must stay bounded. */
   maxIterations?: number;
+  /** Aborted when the client goes away; passed on to tools as AgentContext.signal. */
+  signal?: AbortSignal;
+  /** The user's conversation this turn belongs to; files tools make are filed under it. */
+  conversationId?: string;
 }
 
 interface LoopUsage {
@@ -78,6 +103,30 @@ export type ChatLoopResult =
 
 const DEFAULT_MAX_ITERATIONS = 6;
 
+/**
+ * Tools that only read, so several calls to them in one batch can run at
+ * once. Keep this explicit, like SENSITIVE_TOOLS: anything not listed runs
+ * alone, in call order. browser.* is absent because its calls share one page.
+ */
+export const READ_ONLY_TOOLS: ReadonlySet<string> = new Set([
+  'ai.chat',
+  'ai.summarize',
+  'ai.extract',
+  'web.search',
+  'http.get',
+  'drive.list',
+  'drive.download',
+  'calendar.listEvents',
+  'output.read',
+  'output.search',
+  'output.query',
+  'state.get',
+  'state.compare',
+]);
+
+/** Most read-only calls of one batch running at once. */
+export const MAX_PARALLEL_TOOL_CALLS = 4;
+
 function errorResultBlock(callId: string, name: string, message: string): ContentBlock {
   return {
     type: 'tool_result',
@@ -94,8 +143,8 @@ function summarizeResult(result: ToolResult): string {
   return json.length > 200 ? json.slice(0, 200) + '…' : json;
 }
 
-function describeCall(toolName: string, input: Record<string, unknown>): string {
-  const tool = toolRegistry.getTool(toolName);
+function describeCall(registry: ToolRegistry, toolName: string, input: Record<string, unknown>): string {
+  const tool = registry.getTool(toolName);
   const preview = Object.entries(input)
     .slice(0, 4)
     .map(([k, v]) => `${k}: ${JSON.stringify(v).slice(0, 60)}`)
@@ -154,24 +203,35 @@ export async function runChatLoop(params: ChatLoopParams): Promise<ChatLoopResul
   const deniedTools = new Set(params.deniedTools ?? []);
   let usage: LoopUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
   let toolCreditsUsed = 0;
+  // Spent by agent.delegate child tasks, which charged it as they ran: it
+  // counts against this turn's budget but is not in toolCreditsUsed
+  let delegatedCredits = 0;
   let provider = '';
 
+  // The built-in tools and the user's own (see custom-tools.ts)
+  const registry = await loadUserToolRegistry(params.userId);
   const modelInfo = aiRouter.getModel(params.modelId);
   const toolsSupported = modelInfo?.capabilities.includes('function-calling') ?? false;
   const tools: ToolDefinition[] | undefined = toolsSupported
-    ? toolRegistry.getAllTools().map((t) => ({ name: t.name, description: t.description, inputSchema: t.inputSchema }))
+    ? registry.getAllTools().map((t) => ({ name: t.name, description: t.description, inputSchema: t.inputSchema }))
     : undefined;
 
   // Shared scratch state for tools within this single turn, mirroring the
   // per-task `memory` the old executor threads across steps.
   const memory: Record<string, unknown> = {};
   const taskId = `chat-${randomUUID()}`;
+  const toolPolicies = await loadToolPolicies(params.userId, params.workspaceId);
 
   // Resume path: pick up any tool_use calls left unanswered by a prior halt
-  // before making any new model call this request.
+  // before making any new model call this request. The first of them is the
+  // call the halt asked about.
   let pendingCalls = findUnansweredToolCalls(messages);
+  const haltedCallId = pendingCalls[0]?.id;
 
   for (let iteration = 0; iteration < maxIterations; iteration++) {
+    // The client went away: nobody is waiting for another model call
+    throwIfStopped(params.signal);
+
     let toolCalls: ToolCall[];
 
     if (pendingCalls.length) {
@@ -195,59 +255,36 @@ export async function runChatLoop(params: ChatLoopParams): Promise<ChatLoopResul
       toolCalls = response.toolCalls;
     }
 
-    const resultBlocks: ContentBlock[] = [];
-    let haltedForApproval = false;
-
-    for (const call of toolCalls) {
-      const tool = toolRegistry.getTool(call.name);
-      if (!tool) {
-        resultBlocks.push(errorResultBlock(call.id, call.name, `Unknown tool "${call.name}"`));
-        continue;
-      }
-
-      if (deniedTools.has(call.name)) {
-        resultBlocks.push(errorResultBlock(call.id, call.name, 'User declined to approve this action.'));
-        continue;
-      }
-
-      const validation = tool.validate(call.input);
-      if (!validation.valid) {
-        resultBlocks.push(errorResultBlock(call.id, call.name, validation.error || 'Invalid parameters'));
-        continue;
-      }
-
-      if (SENSITIVE_TOOLS.has(call.name) && !params.approvedTools.includes(call.name)) {
-        // Halt the whole turn: earlier calls in this same batch that already
-        // ran keep their results (not rolled back), but nothing further runs.
-        // The still-unanswered tool_use blocks (this one and any after it)
-        // are recovered by findUnansweredToolCalls() on the next request.
-        haltedForApproval = true;
-        if (resultBlocks.length) messages.push({ role: 'user', content: resultBlocks });
-        return {
-          status: 'pendingApproval',
-          pendingApproval: { toolName: call.name, input: call.input, description: describeCall(call.name, call.input) },
-          resumeMessages: messages,
-          toolTrace,
-          usage,
-          toolCreditsUsed,
-          provider,
-        };
-      }
-
-      const estimatedCredits = tool.estimateCost(call.input);
-      const guard = await applyExecutionGuards(params.userId, call.name, estimatedCredits, toolCreditsUsed);
-      if (!guard.allowed) {
-        resultBlocks.push(errorResultBlock(call.id, call.name, guard.reason || 'Execution guard rejected this call'));
-        continue;
-      }
+    // Read-only calls run side by side (see READ_ONLY_TOOLS); their results
+    // are slotted back by position so the model sees them in call order
+    const resultBlocks: (ContentBlock | undefined)[] = new Array(toolCalls.length);
+    const traceEntries: (ToolTraceEntry | undefined)[] = new Array(toolCalls.length);
+    const inFlight = new Map<number, Promise<void>>();
+    // Estimated credits of calls still running, so the guards see them spent
+    let reservedCredits = 0;
+    const batchStartedAt = Date.now();
+
+    const answered = (): ContentBlock[] => {
+      toolTrace.push(...traceEntries.filter((entry): entry is ToolTraceEntry => !!entry));
+      return resultBlocks.filter((block): block is ContentBlock => !!block);
+    };
 
+    const runCall = async (
+      index: number,
+      call: ToolCall,
+      tool: AgentTool,
+      policy: PolicyEvaluation,
+      estimatedCredits: number,
+      timeout: number,
+      parallel: boolean
+    ) => {
       const stubState: AgentState = {
         taskId,
         status: 'executing',
         currentStep: iteration,
         totalSteps: 0,
         progress: 0,
-        creditsUsed: toolCreditsUsed,
+        creditsUsed: toolCreditsUsed + delegatedCredits,
         tokensUsed: usage.totalTokens,
         executionTime: 0,
         context: {},
@@ -261,38 +298,153 @@ export async function runChatLoop(params: ChatLoopParams): Promise<ChatLoopResul
         prisma,
         aiRouter,
         memory,
+        creditLimit: COST_LIMITS.maxCreditsPerTask,
+        delegationDepth: 0,
+        toolNames: registry.getToolNames().filter((name) => !deniedTools.has(name)),
+        signal: params.signal,
+        conversationId: params.conversationId,
+        workspaceId: params.workspaceId,
       };
 
+      const startedAt = Date.now();
       let result: ToolResult;
       try {
-        result = await withTimeout(() => tool.execute(call.input, context), guard.timeout, call.name);
+        result = await withTimeout(
+          (signal) => tool.execute(call.input, { ...context, signal }),
+          timeout,
+          call.name,
+          params.signal
+        );
       } catch (err) {
         result = { success: false, error: err instanceof Error ? err.message : String(err) };
       }
+      const durationMs = Date.now() - startedAt;
 
       const credits = result.metadata?.credits ?? estimatedCredits;
       toolCreditsUsed += credits;
-      toolTrace.push({
+      delegatedCredits += result.metadata?.delegatedCredits ?? 0;
+      traceEntries[index] = {
         tool: call.name,
         input: call.input,
         success: result.success,
         summary: summarizeResult(result),
-        durationMs: result.metadata?.duration ?? 0,
+        durationMs,
+        startedAtMs: startedAt - batchStartedAt,
+        parallel,
         credits,
-      });
+        policy,
+      };
 
-      resultBlocks.push({
+      // A large result reaches the model as a preview it can page through
+      const data = result.success
+        ? await storeLargeOutput(result.data, { userId: params.userId, tool: call.name })
+        : undefined;
+      resultBlocks[index] = {
         type: 'tool_result',
         tool_use_id: call.id,
         name: call.name,
-        content: JSON.stringify(result.success ? result.data ?? null : { error: result.error }),
+        content: JSON.stringify(result.success ? data ?? null : { error: result.error }),
         is_error: !result.success,
-      });
-    }
+      };
+    };
 
-    if (!haltedForApproval) {
-      messages.push({ role: 'user', content: resultBlocks });
+    const settleInFlight = async () => {
+      await Promise.all(inFlight.values());
+      inFlight.clear();
+    };
+
+    for (const [index, call] of toolCalls.entries()) {
+      const tool = registry.getTool(call.name);
+      if (!tool) {
+        resultBlocks[index] = errorResultBlock(call.id, call.name, `Unknown tool "${call.name}"`);
+        continue;
+      }
+
+      if (deniedTools.has(call.name)) {
+        resultBlocks[index] = errorResultBlock(call.id, call.name, 'User declined to approve this action.');
+        continue;
+      }
+
+      const validation = tool.validate(call.input);
+      if (!validation.valid) {
+        resultBlocks[index] = errorResultBlock(call.id, call.name, validation.error || 'Invalid parameters');
+        continue;
+      }
+
+      // Workspace policies (see tool-policy.ts) come before the sensitivity
+      // list: deny fails the call, require_approval halts for any tool, and
+      // allow waives approval for a sensitive one
+      const policy = evaluateToolPolicies(toolPolicies, call.name, call.input);
+      if (policy.effect === 'deny') {
+        const message = new ToolPolicyDeniedError(call.name, policy.policyName!).message;
+        traceEntries[index] = { tool: call.name, input: call.input, success: false, summary: `error: ${message}`, durationMs: 0, credits: 0, policy };
+        resultBlocks[index] = errorResultBlock(call.id, call.name, message);
+        continue;
+      }
+
+      const needsApproval =
+        policy.effect === 'require_approval' || (policy.effect === 'default' && isSensitiveTool(call.name, tool));
+      const parallel = READ_ONLY_TOOLS.has(call.name) && !needsApproval;
+
+      // Anything that is not a plain read waits for the reads before it
+      if (!parallel) await settleInFlight();
+
+      // approvedTools approves a tool for the rest of the turn, but a call a
+      // policy requires approval for is approved one at a time: only the call
+      // this resume was decided on runs, and any other halts
+      const approved =
+        params.approvedTools.includes(call.name) &&
+        (policy.effect !== 'require_approval' || call.id === haltedCallId);
+      if (needsApproval && !approved) {
+        // Halt the whole turn: earlier calls in this same batch that already
+        // ran keep their results (not rolled back), but nothing further runs.
+        // The still-unanswered tool_use blocks (this one and any after it)
+        // are recovered by findUnansweredToolCalls() on the next request.
+        const blocks = answered();
+        if (blocks.length) messages.push({ role: 'user', content: blocks });
+        return {
+          status: 'pendingApproval',
+          pendingApproval: { toolName: call.name, input: call.input, description: describeCall(registry, call.name, call.input) },
+          resumeMessages: messages,
+          toolTrace,
+          usage,
+          toolCreditsUsed,
+          provider,
+        };
+      }
+
+      const estimatedCredits = tool.estimateCost(call.input);
+      const guard = await applyExecutionGuards(
+        params.userId,
+        call.name,
+        estimatedCredits,
+        toolCreditsUsed + delegatedCredits + reservedCredits
+      );
+      if (!guard.allowed) {
+        resultBlocks[index] = errorResultBlock(call.id, call.name, guard.reason || 'Execution guard rejected this call');
+        continue;
+      }
+
+      if (!parallel) {
+        await runCall(index, call, tool, policy, estimatedCredits, guard.timeout, false);
+        continue;
+      }
+
+      if (inFlight.size >= MAX_PARALLEL_TOOL_CALLS) {
+        await Promise.race(inFlight.values());
+      }
+      reservedCredits += estimatedCredits;
+      inFlight.set(
+        index,
+        runCall(index, call, tool, policy, estimatedCredits, guard.timeout, true).then(() => {
+          reservedCredits -= estimatedCredits;
+          inFlight.delete(index);
+        })
+      );
     }
+
+    await settleInFlight();
+    messages.push({ role: 'user', content: answered() });
   }
 
   // Exceeded maxIterations without a final answer — force one last
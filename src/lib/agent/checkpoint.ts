@@ -0,0 +1,198 @@
+/**
+ * Agent Checkpoints - crash-safe progress for AgentExecutor runs
+ *
+ * Every trace entry is written to TaskExecution the moment it is recorded,
+ * together with Task.currentStep and the run's running totals, and the step's
+ * credits are deducted then rather than at the end of the run. If the worker
+ * dies mid-plan, the database already says which steps finished and what they
+ * returned, so a retry (or /api/agent/resume) rebuilds AgentState from those
+ * rows and continues from the first incomplete step — it does not replan, and
+ * it does not re-run a step whose side effects already happened.
+ *
+ * A run's rows are the TaskExecution rows created since Task.startedAt, which
+ * startRun() stamps when a fresh run begins. Rows from earlier runs of the
+ * same task (scheduled tasks run many times) are history, not checkpoints.
+ *
+ * Progress is counted in top-level plan steps. A control-flow step (see
+ * control-flow.ts) completes only when its whole branch or loop has, so a run
+ * that dies inside a loop enters that loop again on resume. Its nested rows
+ * are checkpoints too, by parentStep and iteration: the loop skips the nested
+ * steps that already completed and carries on from where it stopped.
+ *
+ * Same write pattern as lib/documents/persist.ts, per step instead of per
+ * phase.
+ */
+
+import type { TaskExecution } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { deductCredits } from '@/lib/credits';
+import type { AgentState, ExecutionPlan, ExecutionTrace, PolicyEvaluation, StepStatus } from './types';
+
+/** Trace action recorded when the planner revises a plan (not a step result). */
+export const PLAN_REVISION_ACTION = 'plan.revise';
+
+/**
+ * Top-level step numbers with a completed trace entry. Plan revisions are
+ * trace entries too, under the number of the step that prompted them, but are
+ * not results; steps nested in a control-flow step are not top-level.
+ */
+export function completedStepNumbers(trace: ExecutionTrace[]): Set<number> {
+  return new Set(
+    trace
+      .filter(
+        (entry) =>
+          entry.status === 'completed' &&
+          entry.action !== PLAN_REVISION_ACTION &&
+          entry.parentStep === undefined
+      )
+      .map((entry) => entry.stepNumber)
+  );
+}
+
+/**
+ * Rebuild the `step${n}` context entries a run accumulates, from its trace.
+ * Exported for testing.
+ */
+export function contextFromTrace(trace: ExecutionTrace[]): Record<string, any> {
+  const context: Record<string, any> = {};
+  for (const entry of trace) {
+    if (entry.status === 'completed' && entry.action !== PLAN_REVISION_ACTION) {
+      context[`step${entry.stepNumber}`] = entry.output;
+    }
+  }
+  return context;
+}
+
+/**
+ * Turn checkpoint rows back into trace entries.
+ * Exported for testing.
+ */
+export function traceFromExecutions(rows: TaskExecution[]): ExecutionTrace[] {
+  return rows.map((row) => {
+    const timestamp = row.completedAt || row.createdAt;
+    return {
+      stepNumber: row.step,
+      timestamp,
+      startedAt: new Date(timestamp.getTime() - row.duration),
+      action: row.action,
+      tool: row.tool || '',
+      reasoning: row.reasoning ?? undefined,
+      input: row.input,
+      output: row.output ?? undefined,
+      error: row.error ?? undefined,
+      status: row.status as StepStatus,
+      duration: row.duration,
+      credits: row.credits,
+      tokens: row.tokens,
+      parentStep: row.parentStep ?? undefined,
+      iteration: row.iteration?.length ? row.iteration : undefined,
+      policy: (row.policy as unknown as PolicyEvaluation | null) ?? undefined,
+    };
+  });
+}
+
+/**
+ * Mark the start of a fresh run: earlier TaskExecution rows stop counting as
+ * checkpoints and the per-run counters go back to zero.
+ */
+export async function startRun(taskId: string, startedAt: Date): Promise<void> {
+  await prisma.task.update({
+    where: { id: taskId },
+    data: {
+      startedAt,
+      currentStep: 0,
+      totalCredits: 0,
+      totalTokens: 0,
+      lastRunAt: startedAt,
+    },
+  });
+}
+
+/**
+ * Persist one trace entry as it happens. `currentStep` is the number of plan
+ * steps the run has completed including this one.
+ */
+export async function checkpointStep(
+  taskId: string,
+  userId: string,
+  entry: ExecutionTrace,
+  currentStep: number
+): Promise<void> {
+  await prisma.taskExecution.create({
+    data: {
+      taskId,
+      step: entry.stepNumber,
+      parentStep: entry.parentStep,
+      iteration: entry.iteration ?? [],
+      action: entry.action,
+      tool: entry.tool,
+      input: entry.input ?? {},
+      output: entry.output,
+      reasoning: entry.reasoning,
+      policy: entry.policy as any,
+      status: entry.status,
+      error: entry.error,
+      tokens: entry.tokens,
+      credits: entry.credits,
+      duration: entry.duration,
+      createdAt: entry.startedAt || entry.timestamp,
+      completedAt: entry.timestamp,
+    },
+  });
+
+  await prisma.task.update({
+    where: { id: taskId },
+    data: {
+      currentStep,
+      totalCredits: { increment: entry.credits },
+      totalTokens: { increment: entry.tokens },
+      lastRunAt: entry.timestamp,
+    },
+  });
+
+  if (entry.credits > 0) {
+    await deductCredits(userId, entry.credits, {
+      type: 'agent-step',
+      tokens: entry.tokens,
+      description: `Agent step ${entry.stepNumber} (${entry.tool})`,
+      extra: { taskId },
+    });
+  }
+}
+
+/**
+ * Rebuild the state of a task's current run from its checkpoints, ready for
+ * AgentExecutor.resume(). Returns null when the task has no plan to resume.
+ */
+export async function loadCheckpoint(taskId: string): Promise<AgentState | null> {
+  const task = await prisma.task.findUnique({ where: { id: taskId } });
+  if (!task?.plan) return null;
+
+  const rows = await prisma.taskExecution.findMany({
+    where: {
+      taskId,
+      ...(task.startedAt ? { createdAt: { gte: task.startedAt } } : {}),
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const plan = task.plan as unknown as ExecutionPlan;
+  const trace = traceFromExecutions(rows);
+  const completed = completedStepNumbers(trace);
+  const currentStep = plan.steps.filter((step) => completed.has(step.stepNumber)).length;
+
+  return {
+    taskId: task.id,
+    status: 'paused',
+    currentStep,
+    totalSteps: plan.totalSteps,
+    progress: plan.totalSteps ? Math.round((currentStep / plan.totalSteps) * 100) : 0,
+    startedAt: task.startedAt || undefined,
+    lastActivityAt: task.lastRunAt || undefined,
+    creditsUsed: trace.reduce((sum, entry) => sum + entry.credits, 0),
+    tokensUsed: trace.reduce((sum, entry) => sum + entry.tokens, 0),
+    executionTime: task.executionTime || 0,
+    context: contextFromTrace(trace),
+    trace,
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * Control Flow - if, forEach and while steps in an ExecutionPlan
+ *
+ * A control-flow step (tool "control", `step.control` set) runs nested steps
+ * instead of calling a tool. Nested steps run in order, one at a time, and
+ * are ordinary ExecutionSteps — tools, approvals, references and retries all
+ * behave as they do at the top level. They are numbered depth-first with the
+ * rest of the plan (a forEach at step 2 with two body steps makes those steps
+ * 3 and 4) so they can be referenced like any other step.
+ *
+ *   if       Evaluates `condition` once and runs `then` or `else`. Steps in
+ *            the branch not taken are traced as skipped.
+ *   forEach  Runs `body` once per element of `items` — usually a reference to
+ *            an array an earlier step produced. Inside the body,
+ *            {{steps.step_N.data.item}} and {{steps.step_N.data.index}} are
+ *            the current element and its index (N being the forEach step).
+ *   while    Runs `body`, then checks `condition`, and repeats while it holds
+ *            — so the condition can test what the body just produced (poll
+ *            until done). Inside the body, {{steps.step_N.data.iteration}} is
+ *            the 0-based pass. Exceeding `maxIterations` fails the step.
+ *
+ * Loops are always bounded: `maxIterations` defaults to DEFAULT_MAX_ITERATIONS
+ * and is capped at MAX_ITERATIONS_LIMIT, and a forEach over more items than
+ * that fails rather than silently truncating.
+ *
+ * Results: if → { condition, branch, result }, loops → { iterations, results }
+ * where `result`/`results[i]` is the output of the last nested step run.
+ */
+
+import type { ControlFlow, ExecutionStep, StepCondition } from './types';
+import { StepReferenceError, coerceReferenceValue, resolveStepReferences } from './step-references';
+
+/** Tool name carried by every control-flow step. */
+export const CONTROL_TOOL = 'control';
+
+/** Loop bound when a step does not set maxIterations. */
+export const DEFAULT_MAX_ITERATIONS = 25;
+
+/** Hard ceiling on iterations regardless of what the plan asks for. */
+export const MAX_ITERATIONS_LIMIT = 200;
+
+export const CONDITION_OPERATORS: ReadonlyArray<StepCondition['operator']> = [
+  'equals',
+  'notEquals',
+  'contains',
+  'greaterThan',
+  'lessThan',
+  'exists',
+];
+
+const CONTROL_TYPES: ReadonlyArray<ControlFlow['type']> = ['if', 'forEach', 'while'];
+
+export function isControlStep(step: ExecutionStep): step is ExecutionStep & { control: ControlFlow } {
+  return !!step.control;
+}
+
+/** The nested step sequences of a control-flow step (none for a tool step). */
+export function childSequences(step: ExecutionStep): ExecutionStep[][] {
+  if (!step.control) return [];
+  if (step.control.type === 'if') return [step.control.then, step.control.else || []];
+  return [step.control.body];
+}
+
+/** Every step in `steps`, depth-first, each container before its children. */
+export function flattenSteps(steps: ExecutionStep[]): ExecutionStep[] {
+  return steps.flatMap((step) => [step, ...childSequences(step).flatMap(flattenSteps)]);
+}
+
+/** Step number → number of the top-level step it runs under (itself if top-level). */
+export function topLevelAncestors(steps: ExecutionStep[]): Map<number, number> {
+  const roots = new Map<number, number>();
+  for (const step of steps) {
+    for (const nested of flattenSteps([step])) roots.set(nested.stepNumber, step.stepNumber);
+  }
+  return roots;
+}
+
+/** Clamp a configured loop bound. */
+export function resolveMaxIterations(configured: number | undefined): number {
+  if (typeof configured !== 'number' || !Number.isFinite(configured) || configured < 1) {
+    return DEFAULT_MAX_ITERATIONS;
+  }
+  return Math.min(Math.floor(configured), MAX_ITERATIONS_LIMIT);
+}
+
+/**
+ * Which control-flow type a planner-authored step is, if any. Accepts
+ * "control.forEach" in action or tool, or a bare "forEach".
+ */
+export function controlTypeOf(raw: { action?: unknown; tool?: unknown; type?: unknown }): ControlFlow['type'] | null {
+  for (const value of [raw.action, raw.tool, raw.type]) {
+    if (typeof value !== 'string') continue;
+    const name = value.replace(/^control\./, '');
+    const type = CONTROL_TYPES.find((t) => t.toLowerCase() === name.toLowerCase());
+    if (type) return type;
+  }
+  return null;
+}
+
+/**
+ * Build the ControlFlow of a planner-authored step, parsing nested steps with
+ * `parseChildren` (which numbers them).
+ */
+export function parseControlFlow(
+  raw: any,
+  type: ControlFlow['type'],
+  parseChildren: (rawSteps: unknown) => ExecutionStep[]
+): ControlFlow {
+  switch (type) {
+    case 'if':
+      return {
+        type,
+        condition: raw.condition,
+        then: parseChildren(raw.then),
+        else: parseChildren(raw.else),
+      };
+    case 'forEach':
+      return {
+        type,
+        items: raw.items,
+        body: parseChildren(raw.body),
+        maxIterations: raw.maxIterations,
+      };
+    case 'while':
+      return {
+        type,
+        condition: raw.condition,
+        body: parseChildren(raw.body),
+        maxIterations: raw.maxIterations,
+      };
+  }
+}
+
+/**
+ * Structural problems with the plan's control-flow steps, one issue each.
+ */
+export function validateControlSteps(steps: ExecutionStep[]): string[] {
+  const issues: string[] = [];
+
+  for (const step of flattenSteps(steps)) {
+    if (!step.control) continue;
+    const control = step.control;
+    const where = `step ${step.stepNumber} (${control.type})`;
+
+    if (control.type === 'if' || control.type === 'while') {
+      if (!control.condition || typeof control.condition !== 'object') {
+        issues.push(`${where} has no condition`);
+      } else if (!CONDITION_OPERATORS.includes(control.condition.operator)) {
+        issues.push(`${where} uses unknown operator "${control.condition.operator}"`);
+      }
+    }
+
+    if (control.type === 'forEach' && (control.items === undefined || control.items === null)) {
+      issues.push(`${where} has no items to iterate over`);
+    }
+
+    if (control.type !== 'if' && !control.body.length) {
+      issues.push(`${where} has an empty body`);
+    }
+  }
+
+  return issues;
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function toNumber(value: unknown, source: unknown): number {
+  return coerceReferenceValue(value, 'number', describe(source)) as number;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (typeof a === 'number' || typeof b === 'number') {
+    try {
+      return toNumber(a, a) === toNumber(b, b);
+    } catch {
+      return false;
+    }
+  }
+  if ((a !== null && typeof a === 'object') || (b !== null && typeof b === 'object')) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return String(a ?? '').trim() === String(b ?? '').trim();
+}
+
+/**
+ * Evaluate a condition against the outputs of completed steps (by step
+ * number). Numbers compare numerically — numeric strings such as "$12.99"
+ * included — and strings compare trimmed. Unresolvable references throw
+ * StepReferenceError, except under `exists`, where missing simply means false.
+ * Exported for testing.
+ */
+export function evaluateCondition(condition: StepCondition, outputs: Map<number, unknown>): boolean {
+  let left: unknown;
+  try {
+    left = resolveStepReferences({ value: condition.left }, outputs).value;
+  } catch (error) {
+    if (condition.operator === 'exists' && error instanceof StepReferenceError) return false;
+    throw error;
+  }
+
+  if (condition.operator === 'exists') {
+    return left !== null && left !== undefined && left !== '';
+  }
+
+  const right = resolveStepReferences({ value: condition.right }, outputs).value;
+
+  switch (condition.operator) {
+    case 'equals':
+      return valuesEqual(left, right);
+    case 'notEquals':
+      return !valuesEqual(left, right);
+    case 'contains':
+      if (Array.isArray(left)) return left.some((item) => valuesEqual(item, right));
+      if (typeof left === 'string') return left.includes(String(right ?? ''));
+      throw new StepReferenceError(describe(condition.left), `"contains" needs a string or array, got ${describe(left)}`);
+    case 'greaterThan':
+      return toNumber(left, condition.left) > toNumber(right, condition.right);
+    case 'lessThan':
+      return toNumber(left, condition.left) < toNumber(right, condition.right);
+    default:
+      throw new Error(`Unknown condition operator: ${condition.operator}`);
+  }
+}
+
+/**
+ * Resolve a forEach step's `items` to the array it iterates over.
+ */
+export function resolveLoopItems(items: unknown, outputs: Map<number, unknown>): unknown[] {
+  const value = resolveStepReferences({ value: items }, outputs).value;
+  return coerceReferenceValue(value, 'array', describe(items)) as unknown[];
+}
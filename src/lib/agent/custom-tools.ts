@@ -0,0 +1,229 @@
+/**
+ * Custom Tools - a user's own HTTP tools, alongside the built-in ones
+ *
+ * A CustomTool row describes an endpoint on an API the user has an
+ * Integration with; tools/custom.ts turns it into an agent tool. Runs and
+ * chats get them from loadUserToolRegistry(), which adds the user's tools —
+ * these and the tools on their MCP servers (tools/mcp.ts) — to the built-in
+ * registry. Tools are named `custom.<slug>` and `mcp.<server>.<tool>`, so they
+ * never shadow a built-in, and a user's tools have distinct names.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { listEnabledMcpServers } from '@/lib/mcp/servers';
+import { isPrivateHost } from '@/lib/egress';
+import { toolRegistry } from './tools';
+import { ToolRegistry } from './tools/registry';
+import { mcpToolsFor } from './tools/mcp';
+import type { AgentTool } from './types';
+import {
+  CUSTOM_TOOL_METHODS,
+  CUSTOM_TOOL_PARAM_LOCATIONS,
+  CUSTOM_TOOL_PARAM_TYPES,
+  CustomHttpTool,
+  customToolName,
+  type CustomToolDefinition,
+} from './tools/custom';
+
+/** Most custom tools one user may have. */
+export const MAX_CUSTOM_TOOLS = 50;
+
+/** What the API returns for a custom tool. */
+export const CUSTOM_TOOL_FIELDS = {
+  id: true,
+  integrationId: true,
+  name: true,
+  description: true,
+  endpoint: true,
+  method: true,
+  parameters: true,
+  headers: true,
+  authentication: true,
+  responseMapping: true,
+  errorMapping: true,
+  sourceOperation: true,
+  totalCalls: true,
+  lastUsedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  integration: { select: { id: true, provider: true, name: true } },
+} as const;
+
+const AUTH_TYPES = ['bearer', 'header', 'query', 'none'];
+const AUTH_CREDENTIALS = ['apiKey', 'accessToken'];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStringMap(value: unknown): boolean {
+  return isPlainObject(value) && Object.values(value).every((entry) => typeof entry === 'string');
+}
+
+/**
+ * Problems with a custom tool as submitted through the API, one issue each.
+ * `partial` checks only the fields present, for an update.
+ */
+export function validateCustomToolInput(input: Record<string, unknown>, partial = false): string[] {
+  const issues: string[] = [];
+  const has = (field: string) => input[field] !== undefined && input[field] !== null;
+
+  if (!partial || has('name')) {
+    if (typeof input.name !== 'string' || !/[A-Za-z0-9]/.test(input.name) || input.name.length > 64) {
+      issues.push('name must be 1-64 characters with at least one letter or digit');
+    }
+  }
+  if (has('description') && typeof input.description !== 'string') {
+    issues.push('description must be a string');
+  }
+
+  if (!partial || has('endpoint')) {
+    let url: URL | null = null;
+    try {
+      url = typeof input.endpoint === 'string' ? new URL(input.endpoint) : null;
+    } catch {
+      url = null;
+    }
+    if (!url) {
+      issues.push('endpoint must be an absolute URL');
+    } else if (url.protocol !== 'https:' && !(url.protocol === 'http:' && process.env.NODE_ENV !== 'production')) {
+      issues.push('endpoint must use https');
+    } else if (process.env.NODE_ENV === 'production' && isPrivateHost(url.hostname)) {
+      issues.push('endpoint must point at a public host');
+    }
+  }
+
+  if (has('method') && !CUSTOM_TOOL_METHODS.includes(String(input.method).toUpperCase() as any)) {
+    issues.push(`method must be one of ${CUSTOM_TOOL_METHODS.join(', ')}`);
+  }
+
+  if (!partial || has('parameters')) {
+    const parameters = input.parameters;
+    if (!isPlainObject(parameters) || (parameters.type !== undefined && parameters.type !== 'object')) {
+      issues.push('parameters must be a JSON Schema of type object');
+    } else {
+      const properties = parameters.properties ?? {};
+      if (!isPlainObject(properties)) {
+        issues.push('parameters.properties must be an object');
+      } else {
+        for (const [name, property] of Object.entries(properties)) {
+          if (!isPlainObject(property) || !CUSTOM_TOOL_PARAM_TYPES.includes(property.type)) {
+            issues.push(`parameter ${name} must have a type: ${CUSTOM_TOOL_PARAM_TYPES.join(', ')}`);
+          } else if (property['x-in'] !== undefined && !CUSTOM_TOOL_PARAM_LOCATIONS.includes(property['x-in'])) {
+            issues.push(`parameter ${name} x-in must be one of ${CUSTOM_TOOL_PARAM_LOCATIONS.join(', ')}`);
+          }
+        }
+      }
+      const required = parameters.required ?? [];
+      if (!Array.isArray(required) || required.some((name) => !isPlainObject(properties) || !(name in properties))) {
+        issues.push('parameters.required must list parameters the schema defines');
+      }
+    }
+  }
+
+  if (has('headers') && !isStringMap(input.headers)) {
+    issues.push('headers must map header names to strings');
+  }
+
+  if (has('authentication')) {
+    const auth = input.authentication;
+    if (!isPlainObject(auth) || !AUTH_TYPES.includes(auth.type)) {
+      issues.push(`authentication.type must be one of ${AUTH_TYPES.join(', ')}`);
+    } else {
+      if ((auth.type === 'header' || auth.type === 'query') && (typeof auth.name !== 'string' || !auth.name)) {
+        issues.push(`authentication.name is required for ${auth.type} authentication`);
+      }
+      if (auth.credential !== undefined && !AUTH_CREDENTIALS.includes(auth.credential)) {
+        issues.push(`authentication.credential must be one of ${AUTH_CREDENTIALS.join(', ')}`);
+      }
+    }
+  }
+
+  if (has('responseMapping')) {
+    const mapping = input.responseMapping;
+    if (
+      !isPlainObject(mapping) ||
+      (mapping.path !== undefined && typeof mapping.path !== 'string') ||
+      (mapping.fields !== undefined && !isStringMap(mapping.fields))
+    ) {
+      issues.push('responseMapping may have a path (string) and fields (names to paths)');
+    }
+  }
+
+  if (has('errorMapping')) {
+    const mapping = input.errorMapping;
+    if (
+      !isPlainObject(mapping) ||
+      (mapping.messagePath !== undefined && typeof mapping.messagePath !== 'string') ||
+      (mapping.messages !== undefined && !isStringMap(mapping.messages))
+    ) {
+      issues.push('errorMapping may have a messagePath (string) and messages (status codes to messages)');
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Whether another of the user's custom tools would get the same tool name.
+ */
+export async function customToolNameTaken(userId: string, name: string, exceptId?: string): Promise<boolean> {
+  const tools = await prisma.customTool.findMany({
+    where: { integration: { userId }, ...(exceptId && { id: { not: exceptId } }) },
+    select: { name: true },
+  });
+  const toolName = customToolName(name);
+  return tools.some((tool) => customToolName(tool.name) === toolName);
+}
+
+function toTool(row: CustomToolDefinition): CustomHttpTool | null {
+  try {
+    return new CustomHttpTool(row);
+  } catch (error) {
+    console.error(`[CustomTools] Skipping unusable custom tool ${row.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * The user's custom tools on active integrations, as agent tools.
+ */
+export async function loadCustomTools(userId: string): Promise<CustomHttpTool[]> {
+  const rows = await prisma.customTool.findMany({
+    where: { integration: { userId, isActive: true } },
+    orderBy: { createdAt: 'asc' },
+  });
+  return rows.map(toTool).filter((tool): tool is CustomHttpTool => tool !== null);
+}
+
+/**
+ * One of the user's custom tools as an agent tool, whatever its integration's
+ * state (a call then reports it disconnected). Null when it is not theirs.
+ */
+export async function getCustomTool(userId: string, id: string): Promise<CustomHttpTool | null> {
+  const row = await prisma.customTool.findFirst({ where: { id, integration: { userId } } });
+  return row ? toTool(row) : null;
+}
+
+/**
+ * The tools on the user's enabled MCP servers, as agent tools.
+ */
+export async function loadMcpTools(userId: string): Promise<AgentTool[]> {
+  const servers = await listEnabledMcpServers(userId);
+  return servers.flatMap(mcpToolsFor);
+}
+
+/**
+ * The tools a user's run or chat can call: `base` (the built-in registry by
+ * default), their custom tools and the tools on their MCP servers. Either
+ * kind failing to load is left out rather than failing the run.
+ */
+export async function loadUserToolRegistry(userId: string, base: ToolRegistry = toolRegistry): Promise<ToolRegistry> {
+  const sources = await Promise.allSettled([loadCustomTools(userId), loadMcpTools(userId)]);
+  const tools: AgentTool[] = [];
+  for (const source of sources) {
+    if (source.status === 'fulfilled') tools.push(...source.value);
+    else console.error(`[CustomTools] Failed to load tools for ${userId}:`, source.reason);
+  }
+  return tools.length ? base.withTools(tools) : base;
+}
@@ -0,0 +1,131 @@
+/**
+ * Agent Delegation - bookkeeping for agent.delegate child tasks
+ *
+ * A running agent (AgentExecutor or runChatLoop) can hand part of its work to
+ * a sub-agent through the agent.delegate tool (tools/delegate.ts). The child
+ * is a Task of its own, linked to its parent by parentTaskId, with:
+ *
+ *   - its own goal, plan, trace and /workspace/tasks live view
+ *   - a subset of the tools its parent may use
+ *   - a credit budget carved out of what the parent has left
+ *   - a delegation depth one below its parent, up to MAX_DELEGATION_DEPTH
+ *
+ * The child's steps are charged as they checkpoint, like any task's, so the
+ * tool reports the child's spend as `delegatedCredits` rather than `credits`:
+ * callers count it against the parent's budget without charging it again.
+ *
+ * A child cannot wait for approval, since nothing would resume it for its
+ * parent: one that halts for approval fails, and its request is withdrawn.
+ *
+ * Children still running are tracked here by parent task, so cancelling the
+ * parent (AgentExecutor.cancel) cancels them too, and theirs in turn.
+ * Tracking is per process, as the executors themselves are.
+ */
+
+import type { AgentResult } from './types';
+
+export const DELEGATE_TOOL_NAME = 'agent.delegate';
+
+/** A top-level task is depth 0; its children 1, and theirs 2. */
+export const MAX_DELEGATION_DEPTH = 2;
+
+/** Budget for a child when the delegating agent does not ask for one. */
+export const DEFAULT_DELEGATION_CREDITS = 500;
+
+/**
+ * How long a child may run. Kept under the agent.* tool timeout in guards.ts
+ * so the child is cancelled before the parent's call gives up on it.
+ */
+export const DELEGATION_TIMEOUT_MS = 9 * 60 * 1000;
+
+/** Child results longer than this are summarised before being handed back. */
+export const SUMMARY_THRESHOLD_CHARS = 2000;
+
+interface CancellableRun {
+  cancel(): Promise<void>;
+}
+
+const runningChildren = new Map<string, Set<CancellableRun>>();
+
+/**
+ * Track a child run under its parent until the returned function is called.
+ */
+export function trackChildRun(parentTaskId: string, child: CancellableRun): () => void {
+  let children = runningChildren.get(parentTaskId);
+  if (!children) {
+    children = new Set();
+    runningChildren.set(parentTaskId, children);
+  }
+  children.add(child);
+
+  return () => {
+    children!.delete(child);
+    if (!children!.size && runningChildren.get(parentTaskId) === children) {
+      runningChildren.delete(parentTaskId);
+    }
+  };
+}
+
+/**
+ * Cancel every child run still tracked under a task.
+ */
+export async function cancelChildRuns(parentTaskId: string): Promise<void> {
+  const children = runningChildren.get(parentTaskId);
+  if (!children) return;
+
+  await Promise.all(
+    [...children].map((child) =>
+      child.cancel().catch((error) => {
+        console.error(`[Agent] Failed to cancel a child of task ${parentTaskId}:`, error);
+      })
+    )
+  );
+}
+
+/**
+ * The tools a child at `depth` may use: those asked for, which must all be
+ * available to the parent, else everything the parent has. A child at the
+ * maximum depth loses agent.delegate. Exported for testing.
+ */
+export function childToolNames(
+  requested: string[] | undefined,
+  available: string[],
+  depth: number
+): { ok: true; tools: string[] } | { ok: false; message: string } {
+  if (requested?.length) {
+    const unavailable = requested.filter((name) => !available.includes(name));
+    if (unavailable.length) {
+      return { ok: false, message: `Tools not available to this agent: ${unavailable.join(', ')}` };
+    }
+  }
+
+  const tools = [...new Set(requested?.length ? requested : available)].filter(
+    (name) => depth < MAX_DELEGATION_DEPTH || name !== DELEGATE_TOOL_NAME
+  );
+  if (!tools.length) {
+    return { ok: false, message: 'The sub-agent would have no tools to work with' };
+  }
+
+  return { ok: true, tools };
+}
+
+/**
+ * A child's budget: what was asked for (DEFAULT_DELEGATION_CREDITS if
+ * nothing), never more than the parent has left. Exported for testing.
+ */
+export function childBudget(requested: number | undefined, parentRemaining: number): number {
+  return Math.max(0, Math.floor(Math.min(requested ?? DEFAULT_DELEGATION_CREDITS, parentRemaining)));
+}
+
+/**
+ * A child's result as text, and whether it is long enough to need
+ * summarising before the parent sees it. Exported for testing.
+ */
+export function childResultText(result: Pick<AgentResult, 'result' | 'error'>): {
+  text: string;
+  needsSummary: boolean;
+} {
+  const value = result.result ?? result.error ?? '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2) ?? '';
+  return { text, needsSummary: text.length > SUMMARY_THRESHOLD_CHARS };
+}
@@ -0,0 +1,192 @@
+/**
+ * Agent Event Stream - AgentEvents published for anyone watching a task
+ *
+ * AgentExecutor.emitEvent() hands each event to its in-process handlers and
+ * to publishAgentEvent(), which appends it to a per-task Redis stream
+ * (agent:events:<taskId>). Stream entry IDs are ordered, so a viewer that
+ * reconnects passes the last ID it saw and readAgentEvents() replays only
+ * what it missed — the SSE endpoint (/api/agent/events/[taskId]) maps that
+ * onto the browser's Last-Event-ID. A fresh run (task.started) starts the
+ * stream over, a resumed one continues it. Streams are capped and expire a
+ * day after the last event; the TaskExecution checkpoints remain the durable
+ * record.
+ *
+ * When Redis is unavailable events go to an in-memory buffer instead (see
+ * executeWithRedis in lib/queue/redis.ts). That buffer is per process, so it
+ * only reaches viewers served by the process running the executor — enough
+ * for local development, not for a separate worker.
+ */
+
+import { executeWithRedis } from '@/lib/queue/redis';
+import type { AgentEvent } from './types';
+
+export interface StreamedAgentEvent {
+  /** Stream entry ID ("<ms>-<seq>"), used as the SSE event ID */
+  id: string;
+  event: AgentEvent;
+}
+
+const KEY_PREFIX = 'agent:events:';
+const MAX_EVENTS_PER_TASK = 1000;
+const STREAM_TTL_SECONDS = 24 * 60 * 60;
+
+/** Larger step outputs are cut to a preview; the checkpoint keeps them whole. */
+const MAX_OUTPUT_CHARS = 16_000;
+
+const TERMINAL_EVENTS: ReadonlySet<AgentEvent['type']> = new Set([
+  'task.completed',
+  'task.failed',
+  'task.cancelled',
+]);
+
+// Fallback store, used only when Redis is unavailable.
+const fallbackStore = new Map<string, { entries: StreamedAgentEvent[]; expiresAt: number }>();
+let lastFallbackId = { ms: 0, seq: 0 };
+
+// Drop expired fallback streams every 5 minutes; unref'd like the rate
+// limiter's cleanup so it never holds a process open.
+const cleanupTimer = setInterval(() => {
+  const now = Date.now();
+  for (const [taskId, stream] of fallbackStore.entries()) {
+    if (stream.expiresAt < now) {
+      fallbackStore.delete(taskId);
+    }
+  }
+}, 5 * 60 * 1000);
+(cleanupTimer as unknown as { unref?: () => void }).unref?.();
+
+/** Whether the event ends the run, after which nothing more is published. */
+export function isTerminalEvent(event: AgentEvent): boolean {
+  return TERMINAL_EVENTS.has(event.type);
+}
+
+function parseId(id: string): [number, number] {
+  const [ms, seq] = id.split('-');
+  return [Number(ms) || 0, Number(seq) || 0];
+}
+
+/**
+ * Order two stream IDs. Exported for testing.
+ */
+export function compareEventIds(a: string, b: string): number {
+  const [aMs, aSeq] = parseId(a);
+  const [bMs, bSeq] = parseId(b);
+  return aMs - bMs || aSeq - bSeq;
+}
+
+/**
+ * The event as viewers receive it. A run's trace already went out step by
+ * step, so it is left off task.completed, and a step output too large to
+ * stream is replaced by a preview. Exported for testing.
+ */
+export function compactEvent(event: AgentEvent): AgentEvent {
+  if (event.type === 'task.completed') {
+    return { ...event, result: { ...event.result, trace: [] } };
+  }
+
+  if (event.type === 'task.step.completed') {
+    const output = JSON.stringify(event.result.data ?? null);
+    if (output.length > MAX_OUTPUT_CHARS) {
+      return {
+        ...event,
+        result: {
+          ...event.result,
+          data: { truncated: true, preview: output.slice(0, MAX_OUTPUT_CHARS) },
+        },
+      };
+    }
+  }
+
+  return event;
+}
+
+function nextFallbackId(): string {
+  const now = Date.now();
+  lastFallbackId =
+    now > lastFallbackId.ms ? { ms: now, seq: 0 } : { ms: lastFallbackId.ms, seq: lastFallbackId.seq + 1 };
+  return `${lastFallbackId.ms}-${lastFallbackId.seq}`;
+}
+
+function publishInMemory(taskId: string, event: AgentEvent): string {
+  const existing = fallbackStore.get(taskId);
+  const stream = existing && event.type !== 'task.started' ? existing : { entries: [], expiresAt: 0 };
+  const id = nextFallbackId();
+
+  stream.entries.push({ id, event });
+  if (stream.entries.length > MAX_EVENTS_PER_TASK) {
+    stream.entries.splice(0, stream.entries.length - MAX_EVENTS_PER_TASK);
+  }
+  stream.expiresAt = Date.now() + STREAM_TTL_SECONDS * 1000;
+  fallbackStore.set(taskId, stream);
+
+  return id;
+}
+
+function readInMemory(taskId: string, afterId: string | undefined, limit: number): StreamedAgentEvent[] {
+  const entries = fallbackStore.get(taskId)?.entries || [];
+  return entries.filter((entry) => !afterId || compareEventIds(entry.id, afterId) > 0).slice(0, limit);
+}
+
+/**
+ * Append an event to its task's stream. Returns the entry ID.
+ */
+export async function publishAgentEvent(event: AgentEvent): Promise<string> {
+  const payload = compactEvent(event);
+
+  return executeWithRedis(
+    async (redis) => {
+      const key = KEY_PREFIX + event.taskId;
+      const multi = redis.multi();
+      if (event.type === 'task.started') {
+        multi.del(key);
+      }
+      const results = await multi
+        .xadd(key, 'MAXLEN', '~', MAX_EVENTS_PER_TASK, '*', 'event', JSON.stringify(payload))
+        .expire(key, STREAM_TTL_SECONDS)
+        .exec();
+
+      const [error, id] = results?.[event.type === 'task.started' ? 1 : 0] || [];
+      if (error || typeof id !== 'string') {
+        throw error || new Error('XADD returned no ID');
+      }
+      return id;
+    },
+    () => publishInMemory(event.taskId, payload),
+    'Publish agent event'
+  );
+}
+
+/**
+ * The task's events after `afterId` (all retained events without one), oldest
+ * first, at most `limit` of them.
+ */
+export async function readAgentEvents(
+  taskId: string,
+  afterId?: string,
+  limit = 100
+): Promise<StreamedAgentEvent[]> {
+  return executeWithRedis(
+    async (redis) => {
+      const reply = await redis.xread('COUNT', limit, 'STREAMS', KEY_PREFIX + taskId, afterId || '0');
+      const entries = reply?.[0]?.[1] || [];
+
+      return entries.flatMap(([id, fields]) => {
+        const raw = fields[fields.indexOf('event') + 1];
+        try {
+          return [{ id, event: JSON.parse(raw) as AgentEvent }];
+        } catch {
+          return [];
+        }
+      });
+    },
+    () => readInMemory(taskId, afterId, limit),
+    'Read agent events'
+  );
+}
+
+/**
+ * One event in text/event-stream framing.
+ */
+export function toSseMessage(entry: StreamedAgentEvent): string {
+  return `id: ${entry.id}\nevent: ${entry.event.type}\ndata: ${JSON.stringify(entry.event)}\n\n`;
+}
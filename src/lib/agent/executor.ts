@@ -26,11 +26,59 @@ import {
   StepStatus,
   AgentEventHandler,
   AgentEvent,
+  DryRunOptions,
+  DryRunReport,
+  DryRunSideEffect,
+  ControlFlow,
+  PolicyEvaluation,
+  ToolPolicyRule,
+  ResultDiff,
 } from './types';
 import { ToolRegistry } from './tools/registry';
-import { stepNeedsApproval, ApprovalRequiredError } from './approval';
+import { stepNeedsApproval, ApprovalRequiredError, ApprovalDeniedError, isSensitiveTool } from './approval';
+import { resolveStepApproval } from './approval-inbox';
+import { publishAgentEvent } from './event-stream';
+import { dispatchWebhookEvent } from '@/lib/webhooks/outbound';
+import { ToolPolicyDeniedError, evaluateToolPolicies, loadToolPolicies } from './tool-policy';
+import { StepReferenceError, resolveStepReferences } from './step-references';
+import {
+  PLAN_REVISION_ACTION,
+  checkpointStep,
+  completedStepNumbers,
+  contextFromTrace,
+  startRun,
+} from './checkpoint';
 import { captureAgentError, captureToolError, addBreadcrumb, setUser } from '@/lib/sentry';
-import { applyExecutionGuards, withTimeout, getToolTimeout } from './guards';
+import { COST_LIMITS, applyExecutionGuards, withTimeout, getToolTimeout } from './guards';
+import { cancelChildRuns } from './delegation';
+import { stopReason, TaskStoppedError } from './cancellation';
+import { expandStoredOutputs, storeLargeOutput } from './tool-outputs';
+import { diffWithPreviousRun } from './run-state';
+import { PlanValidationError, resolveConcurrency, runPlanGraph } from './plan-graph';
+import { AIPlanner, DEFAULT_MAX_REPLANS, PlanInvalidatedError, isEmptyResult } from './planner';
+import {
+  CONTROL_TOOL,
+  childSequences,
+  evaluateCondition,
+  flattenSteps,
+  isControlStep,
+  resolveLoopItems,
+  resolveMaxIterations,
+  topLevelAncestors,
+} from './control-flow';
+
+/**
+ * Where a step runs: at the top level of the plan, or nested in a
+ * control-flow step (and which loop iteration).
+ */
+interface StepFrame {
+  parentStep?: number;
+  iteration: number[];
+  /** Loop variables (item, index, iteration) by control-flow step number */
+  locals: Map<number, unknown>;
+}
+
+const TOP_LEVEL: StepFrame = { iteration: [], locals: new Map() };
 
 /**
  * Core agent executor that implements the ReAct loop
@@ -40,14 +88,29 @@ export class AgentExecutor implements Agent {
   readonly config: any;
 
   private toolRegistry: ToolRegistry;
+  private planner: AIPlanner;
   private eventHandlers: AgentEventHandler[] = [];
   private currentState?: AgentState;
   private shouldStop = false;
+  // Aborted by pause()/cancel(), stopping tools mid-call (see cancellation.ts)
+  private abortController = new AbortController();
+  private stepRoots = new Map<number, number>();
+  private toolPolicies: ToolPolicyRule[] = [];
+  private taskUserId?: string;
+  // Stored outputs already read back for step references, by output id
+  private storedOutputCache = new Map<string, unknown>();
+  private dryRunState: {
+    fixtures: Record<string, any>;
+    sideEffects: DryRunSideEffect[];
+    warnings: string[];
+    projectedCredits: number;
+  } | null = null;
 
   constructor(type: any, config: any, toolRegistry: ToolRegistry) {
     this.type = type;
     this.config = config;
     this.toolRegistry = toolRegistry;
+    this.planner = new AIPlanner(config?.model || 'claude-sonnet-4-5-20250929', toolRegistry);
   }
 
   // ============================================================================
@@ -62,7 +125,10 @@ export class AgentExecutor implements Agent {
   }
 
   /**
-   * Emit event to all handlers
+   * Emit event to all handlers, to anyone watching the task through
+   * /api/agent/events (see event-stream.ts), and to the owner's webhook
+   * subscriptions. A dry run is not broadcast: it is not the task actually
+   * running.
    */
   private async emitEvent(event: AgentEvent): Promise<void> {
     for (const handler of this.eventHandlers) {
@@ -72,6 +138,13 @@ export class AgentExecutor implements Agent {
         console.error('Error in event handler:', error);
       }
     }
+
+    if (!this.dryRunState) {
+      await publishAgentEvent(event);
+      if (this.taskUserId) {
+        await dispatchWebhookEvent(this.taskUserId, event);
+      }
+    }
   }
 
   // ============================================================================
@@ -84,29 +157,9 @@ export class AgentExecutor implements Agent {
   async plan(task: AgentTask): Promise<ExecutionPlan> {
     console.log(`[Agent] Planning task ${task.id}`);
 
-    const availableTools = this.toolRegistry.getAllTools();
-    const toolDescriptions = availableTools.map(tool => ({
-      name: tool.name,
-      description: tool.description,
-      category: tool.category,
-    }));
-
-    // Use AI to create a plan
-    const planningPrompt = this.createPlanningPrompt(task, toolDescriptions);
-
-    const response = await aiRouter.chat(
-      this.config.model || 'claude-sonnet-4-5-20250929',
-      {
-        messages: [{
-          role: 'user',
-          content: planningPrompt,
-        }],
-        maxTokens: 4096,
-      }
-    );
-
-    // Parse AI response into execution plan
-    const plan = this.parsePlanFromAI(response.content, task.id);
+    // The planner validates tools and the dependency graph, so a cycle or an
+    // invented tool is rejected now, before anything runs
+    const plan = await this.planner.createPlan(task, this.toolRegistry.getAllTools());
 
     // Estimate costs
     plan.estimatedCredits = this.estimatePlanCredits(plan);
@@ -117,90 +170,6 @@ export class AgentExecutor implements Agent {
     return plan;
   }
 
-  /**
-   * Create planning prompt for AI
-   */
-  private createPlanningPrompt(task: AgentTask, tools: any[]): string {
-    return `You are an AI agent planner. Create a step-by-step execution plan to achieve the following goal:
-
-GOAL: ${task.goal}
-
-TASK TYPE: ${task.type}
-
-AVAILABLE TOOLS:
-${tools.map(t => `- ${t.name} (${t.category}): ${t.description}`).join('\n')}
-
-CONTEXT:
-${JSON.stringify(task.context || {}, null, 2)}
-
-Create a detailed execution plan as a JSON array of steps. Each step should have:
-- action: The tool action to perform (e.g., "browser.navigate", "email.send")
-- description: Human-readable description of what this step does
-- tool: The tool name
-- params: Object with parameters for the tool
-- requiresApproval: true if this step needs human approval
-
-Example:
-\`\`\`json
-[
-  {
-    "action": "browser.navigate",
-    "description": "Navigate to the target website",
-    "tool": "browser",
-    "params": { "url": "https://example.com" },
-    "requiresApproval": false
-  },
-  {
-    "action": "browser.extract",
-    "description": "Extract price information",
-    "tool": "browser",
-    "params": { "selector": ".price" },
-    "requiresApproval": false
-  }
-]
-\`\`\`
-
-Return ONLY the JSON array, no other text.`;
-  }
-
-  /**
-   * Parse AI response into execution plan
-   */
-  private parsePlanFromAI(content: string, taskId: string): ExecutionPlan {
-    // Extract JSON from AI response
-    const jsonMatch = content.match(/```json\n([\s\S]*?)\n```/) || content.match(/\[([\s\S]*?)\]/);
-
-    if (!jsonMatch) {
-      throw new Error('Failed to parse plan from AI response');
-    }
-
-    const jsonString = jsonMatch[1] || jsonMatch[0];
-    const stepsData = JSON.parse(jsonString);
-
-    const steps: ExecutionStep[] = stepsData.map((step: any, index: number) => ({
-      id: `${taskId}_step_${index + 1}`,
-      stepNumber: index + 1,
-      action: step.action,
-      description: step.description,
-      tool: step.tool,
-      params: step.params,
-      dependencies: step.dependencies || [],
-      retryable: step.retryable !== false,
-      requiresApproval: step.requiresApproval || false,
-      estimatedCredits: step.estimatedCredits || 100,
-      estimatedDuration: step.estimatedDuration || 5000,
-    }));
-
-    return {
-      taskId,
-      steps,
-      totalSteps: steps.length,
-      estimatedCredits: 0, // Will be calculated
-      estimatedDuration: 0, // Will be calculated
-      createdAt: new Date(),
-    };
-  }
-
   // ============================================================================
   // EXECUTION
   // ============================================================================
@@ -221,6 +190,7 @@ Return ONLY the JSON array, no other text.`;
     );
 
     // Initialize state
+    this.taskUserId = task.userId;
     this.currentState = {
       taskId: task.id,
       status: 'executing' as AgentStatus,
@@ -236,49 +206,58 @@ Return ONLY the JSON array, no other text.`;
       trace: [],
     };
 
+    // A fresh run: earlier checkpoints of this task are history from here on
+    try {
+      await startRun(task.id, this.currentState.startedAt!);
+    } catch (error) {
+      console.error(`[Agent] Failed to start checkpointing for task ${task.id}:`, error);
+    }
+
     await this.emitEvent({ type: 'task.started', taskId: task.id, plan });
 
     const startTime = Date.now();
 
     try {
-      // Execute each step in the plan
-      for (let i = 0; i < plan.steps.length; i++) {
-        if (this.shouldStop) {
-          throw new Error('Execution cancelled');
-        }
-
-        const step = plan.steps[i];
-        this.currentState.currentStep = i + 1;
-        this.currentState.progress = Math.round(((i + 1) / plan.totalSteps) * 100);
-
-        await this.executeStep(task, step);
+      // Execute the plan's steps in dependency order
+      const finalPlan = await this.runPlan(task, plan, []);
+      if (this.abortController.signal.aborted) {
+        return this.haltForStop(task.id, startTime);
       }
 
       // Mark as completed
       this.currentState.status = 'completed';
       this.currentState.completedAt = new Date();
       this.currentState.executionTime = Date.now() - startTime;
+      const resultDiff = await this.settleResult(task);
 
       const result: AgentResult = {
         taskId: task.id,
         status: 'completed',
         result: this.currentState.result,
-        steps: plan.totalSteps,
+        steps: finalPlan.totalSteps,
         duration: this.currentState.executionTime,
         creditsUsed: this.currentState.creditsUsed,
         tokensUsed: this.currentState.tokensUsed,
-        trace: this.currentState.trace,
+        trace: this.orderedTrace(),
+        resultDiff,
         completedAt: new Date(),
       };
 
       await this.emitEvent({ type: 'task.completed', taskId: task.id, result });
 
       // Save to database
-      await this.saveResult(task.id, task.userId, result);
+      await this.saveResult(task.id, result);
 
       return result;
 
     } catch (error: any) {
+      if (error instanceof ApprovalRequiredError) {
+        return this.haltForApproval(task.id, error, startTime);
+      }
+      if (this.abortController.signal.aborted) {
+        return this.haltForStop(task.id, startTime);
+      }
+
       console.error(`[Agent] Execution failed:`, error);
 
       // Track error in Sentry
@@ -301,23 +280,378 @@ Return ONLY the JSON array, no other text.`;
         duration: Date.now() - startTime,
         creditsUsed: this.currentState.creditsUsed,
         tokensUsed: this.currentState.tokensUsed,
-        trace: this.currentState.trace,
+        trace: this.orderedTrace(),
         completedAt: new Date(),
       };
 
       await this.emitEvent({ type: 'task.failed', taskId: task.id, error: error.message });
 
       // Save to database
-      await this.saveResult(task.id, task.userId, result);
+      await this.saveResult(task.id, result);
 
       return result;
     }
   }
 
+  /**
+   * Run the plan without touching the outside world. Every step is validated
+   * and "executed" against a recorded fixture, the tool's simulate(), or a
+   * placeholder — never execute() — so sensitive tools (SENSITIVE_TOOLS) and
+   * everything else stay untouched. Nothing is checkpointed, charged or
+   * replanned, and approval gates are reported rather than enforced.
+   *
+   * Returns the full trace, the credits the run would cost according to each
+   * tool's estimateCost(), and the side effects a real run would have had.
+   */
+  async dryRun(task: AgentTask, plan: ExecutionPlan, options: DryRunOptions = {}): Promise<DryRunReport> {
+    console.log(`[Agent] Dry run of task ${task.id}`);
+
+    this.currentState = {
+      taskId: task.id,
+      status: 'executing' as AgentStatus,
+      currentStep: 0,
+      totalSteps: plan.totalSteps,
+      progress: 0,
+      startedAt: new Date(),
+      lastActivityAt: new Date(),
+      creditsUsed: 0,
+      tokensUsed: 0,
+      executionTime: 0,
+      context: {},
+      trace: [],
+    };
+    this.dryRunState = {
+      fixtures: options.fixtures || {},
+      sideEffects: [],
+      warnings: [],
+      projectedCredits: 0,
+    };
+
+    const startTime = Date.now();
+    let status: AgentStatus = 'completed';
+    let error: string | undefined;
+    let steps = plan.totalSteps;
+
+    try {
+      steps = (await this.runPlan(task, plan, [])).totalSteps;
+    } catch (err: any) {
+      status = 'failed';
+      error = err.message;
+      steps = this.currentState.currentStep;
+    }
+
+    const dryRun = this.dryRunState;
+    this.dryRunState = null;
+    this.currentState.status = status;
+
+    return {
+      taskId: task.id,
+      status,
+      error,
+      steps,
+      duration: Date.now() - startTime,
+      creditsUsed: 0,
+      tokensUsed: 0,
+      trace: this.orderedTrace(),
+      completedAt: new Date(),
+      dryRun: true,
+      projectedCredits: dryRun.projectedCredits,
+      sideEffects: dryRun.sideEffects.sort((a, b) => a.stepNumber - b.stepNumber),
+      warnings: dryRun.warnings,
+    };
+  }
+
+  /**
+   * Run the plan's steps as their dependencies complete, independent steps
+   * concurrently up to config.maxConcurrentSteps. `completed` lists step IDs
+   * finished by an earlier run, which are skipped.
+   *
+   * currentStep counts finished steps rather than naming the one in progress —
+   * with several steps in flight there is no single "current" one — so it and
+   * progress only ever move forward, whatever order steps finish in.
+   *
+   * With config.adaptiveReplanning, a failed or plan-invalidating step hands
+   * the unfinished part of the plan to the planner for revision instead of
+   * failing the task, up to config.maxReplans times. Returns the plan as it
+   * finally ran.
+   *
+   * The workspace's tool policies are loaded once per run. If they cannot be
+   * loaded the run fails rather than proceeding unchecked.
+   */
+  private async runPlan(task: AgentTask, plan: ExecutionPlan, completed: string[]): Promise<ExecutionPlan> {
+    const state = this.currentState!;
+    const done = [...completed];
+    this.toolPolicies = await loadToolPolicies(task.userId);
+
+    for (;;) {
+      const failures: Array<{ step: ExecutionStep; result: ToolResult; error: any }> = [];
+      const current = plan;
+      this.stepRoots = topLevelAncestors(plan.steps);
+
+      try {
+        await runPlanGraph(current, {
+          concurrency: resolveConcurrency(this.config.maxConcurrentSteps),
+          completed: done,
+          shouldStop: () => this.shouldStop,
+          runStep: async (step) => {
+            let result: ToolResult;
+            try {
+              result = await this.dispatchStep(task, step, TOP_LEVEL);
+            } catch (error: any) {
+              failures.push({ step, result: { success: false, error: error.message }, error });
+              throw error;
+            }
+
+            done.push(step.id);
+            state.currentStep = done.length;
+            state.progress = Math.round((done.length / current.totalSteps) * 100);
+
+            if (this.replanningEnabled() && this.hasDependents(current, step) && isEmptyResult(result.data)) {
+              const error = new PlanInvalidatedError(step.stepNumber, 'it returned no data for the steps that depend on it');
+              failures.push({ step, result, error });
+              throw error;
+            }
+          },
+        });
+        return plan;
+      } catch (error: any) {
+        const failure = failures.find((f) => f.error === error);
+        const revised = failure
+          ? await this.replan(task, plan, failure.step, failure.result, error, done)
+          : null;
+        if (!revised) throw error;
+        plan = revised;
+      }
+    }
+  }
+
+  /**
+   * Whether failures may be replanned. Never in a dry run: a revision calls
+   * the planner and persists the new plan. A step the user denied is always
+   * handed to the planner, so the run can continue without it.
+   */
+  private replanningEnabled(error?: unknown): boolean {
+    if (this.dryRunState) return false;
+    return !!this.config.adaptiveReplanning || error instanceof ApprovalDeniedError;
+  }
+
+  /**
+   * Whether any other step in the plan waits on this one.
+   */
+  private hasDependents(plan: ExecutionPlan, step: ExecutionStep): boolean {
+    return plan.steps.some((other) => other.dependencies?.includes(step.id));
+  }
+
+  /**
+   * Ask the planner for a revised tail after `step` failed or invalidated the
+   * plan. Returns null when replanning does not apply or did not produce a
+   * usable plan, in which case the caller fails the task with the original
+   * error — a bad revision must never mask what actually went wrong.
+   */
+  private async replan(
+    task: AgentTask,
+    plan: ExecutionPlan,
+    step: ExecutionStep,
+    stepResult: ToolResult,
+    error: any,
+    completedStepIds: string[]
+  ): Promise<ExecutionPlan | null> {
+    if (!this.replanningEnabled(error) || this.shouldStop) return null;
+
+    // Halts and structural problems are not something a new plan can fix
+    if (error instanceof ApprovalRequiredError || error instanceof PlanValidationError) return null;
+
+    const maxReplans = this.config.maxReplans ?? DEFAULT_MAX_REPLANS;
+    if ((plan.revisions?.length || 0) >= maxReplans) {
+      console.log(`[Agent] Not replanning task ${task.id}: revision limit (${maxReplans}) reached`);
+      return null;
+    }
+
+    const state = this.currentState!;
+    const startTime = Date.now();
+
+    try {
+      console.log(`[Agent] Replanning task ${task.id} after step ${step.stepNumber}: ${error.message}`);
+
+      const revised = await this.planner.refinePlan(plan, step.stepNumber, stepResult, {
+        task,
+        trace: this.orderedTrace(),
+        completedStepIds,
+        reason: error.message,
+      });
+      revised.estimatedCredits = this.estimatePlanCredits(revised);
+      revised.estimatedDuration = this.estimatePlanDuration(revised);
+
+      const revision = revised.revisions![revised.revisions!.length - 1];
+
+      state.totalSteps = revised.totalSteps;
+      state.progress = Math.round((completedStepIds.length / revised.totalSteps) * 100);
+      await this.recordTrace(task, {
+        stepNumber: step.stepNumber,
+        timestamp: new Date(),
+        startedAt: new Date(startTime),
+        action: PLAN_REVISION_ACTION,
+        tool: 'planner',
+        reasoning: revision.reason,
+        input: { revision: revision.revision, replacedStepIds: revision.replacedStepIds },
+        output: { addedSteps: revised.steps.filter((s) => revision.addedStepIds.includes(s.id)) },
+        status: 'completed' as StepStatus,
+        duration: Date.now() - startTime,
+        credits: 0,
+        tokens: 0,
+      });
+
+      await prisma.task.update({
+        where: { id: task.id },
+        data: { plan: revised as any, totalSteps: revised.totalSteps },
+      });
+
+      await this.emitEvent({ type: 'task.replanned', taskId: task.id, revision });
+
+      console.log(
+        `[Agent] Plan revision ${revision.revision}: replaced ${revision.replacedStepIds.length} steps with ${revision.addedStepIds.length}`
+      );
+
+      return revised;
+    } catch (replanError) {
+      console.error(`[Agent] Replanning failed for task ${task.id}:`, replanError);
+      return null;
+    }
+  }
+
+  /**
+   * Step IDs a paused run already finished. Prefers the trace, which records
+   * exactly which steps completed; older paused states only recorded how far
+   * the sequential loop got, so fall back to that prefix.
+   */
+  private completedStepIds(plan: ExecutionPlan, state: AgentState): string[] {
+    const completedNumbers = completedStepNumbers(state.trace || []);
+
+    if (completedNumbers.size) {
+      return plan.steps.filter((step) => completedNumbers.has(step.stepNumber)).map((step) => step.id);
+    }
+
+    return plan.steps.slice(0, state.currentStep).map((step) => step.id);
+  }
+
+  /**
+   * The trace in plan order. Entries are appended as steps finish, which under
+   * concurrency is not the order they appear in the plan; the sort is stable,
+   * so retries of one step keep their attempt order. Steps nested in a
+   * control-flow step stay in the order they ran, iteration by iteration,
+   * after the control-flow step's own entry.
+   */
+  private orderedTrace(): ExecutionTrace[] {
+    const key = (entry: ExecutionTrace): [number, number] => {
+      const root = this.stepRoots.get(entry.stepNumber) ?? entry.stepNumber;
+      return [root, entry.stepNumber === root ? 0 : 1];
+    };
+    return [...(this.currentState?.trace || [])].sort((a, b) => {
+      const [rootA, nestedA] = key(a);
+      const [rootB, nestedB] = key(b);
+      return rootA - rootB || nestedA - nestedB;
+    });
+  }
+
+  /**
+   * Result data of every completed step, by step number, for resolving step
+   * references. Read from the trace rather than state.context so it survives
+   * pause/resume; plan revisions are trace entries too but not step results.
+   * Inside a loop, the latest iteration's results win and the loop's own
+   * variables are visible under the loop's step number. Results stored for
+   * being large are read back whole (see tool-outputs.ts).
+   */
+  private async stepOutputs(frame: StepFrame = TOP_LEVEL): Promise<Map<number, unknown>> {
+    const outputs = new Map<number, unknown>();
+    for (const entry of this.currentState?.trace || []) {
+      if (entry.status === 'completed' && entry.action !== PLAN_REVISION_ACTION) {
+        outputs.set(entry.stepNumber, entry.output);
+      }
+    }
+    for (const [stepNumber, value] of frame.locals) {
+      outputs.set(stepNumber, value);
+    }
+    if (!this.taskUserId) return outputs;
+    return expandStoredOutputs(outputs, this.taskUserId, this.storedOutputCache);
+  }
+
+  /**
+   * What the trace and state.context keep of a step's result: the result
+   * itself, or a handle to a stored copy when it is large (see
+   * tool-outputs.ts). A dry run stores nothing.
+   */
+  private async keptOutput(task: AgentTask, step: ExecutionStep, tool: string, data: unknown): Promise<unknown> {
+    if (this.dryRunState) return data;
+    return storeLargeOutput(data, { userId: task.userId, taskId: task.id, stepNumber: step.stepNumber, tool });
+  }
+
+  /**
+   * Settle a completed run's result — the output of its last top-level step
+   * — and work out how it differs from the last successful run's (see
+   * run-state.ts). Must run before saveResult() writes over the old result.
+   */
+  private async settleResult(task: AgentTask): Promise<ResultDiff | null> {
+    const outputs = this.orderedTrace().filter(
+      (entry) => entry.status === 'completed' && entry.action !== PLAN_REVISION_ACTION && entry.parentStep === undefined
+    );
+    this.currentState!.result = outputs.length ? outputs[outputs.length - 1].output : undefined;
+
+    try {
+      return await diffWithPreviousRun(task.id, task.userId, this.currentState!.result);
+    } catch (error) {
+      console.error(`[Agent] Failed to compare task ${task.id} with its last run:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * The parentStep/iteration fields of a trace entry recorded in `frame`.
+   */
+  private traceScope(frame: StepFrame): Pick<ExecutionTrace, 'parentStep' | 'iteration'> {
+    return {
+      ...(frame.parentStep !== undefined ? { parentStep: frame.parentStep } : {}),
+      ...(frame.iteration.length ? { iteration: frame.iteration } : {}),
+    };
+  }
+
+  /**
+   * Append to the trace and checkpoint the entry straight away, so a crash
+   * after this point never re-runs the step. A failed checkpoint is logged
+   * rather than failing the step: the step's side effects have happened
+   * either way, and failing it here would only invite a retry.
+   */
+  private async recordTrace(task: AgentTask, entry: ExecutionTrace): Promise<void> {
+    const state = this.currentState;
+    if (!state) return;
+
+    state.trace.push(entry);
+    if (this.dryRunState) return;
+
+    try {
+      await checkpointStep(task.id, task.userId, entry, completedStepNumbers(state.trace).size);
+    } catch (error) {
+      console.error(`[Agent] Failed to checkpoint step ${entry.stepNumber} of task ${task.id}:`, error);
+    }
+  }
+
+  /**
+   * Run one step: a tool call, or a control-flow step's branch or loop.
+   */
+  private dispatchStep(task: AgentTask, step: ExecutionStep, frame: StepFrame): Promise<ToolResult> {
+    return isControlStep(step)
+      ? this.executeControlStep(task, step, frame)
+      : this.executeStep(task, step, frame);
+  }
+
   /**
    * Execute a single step with ReAct pattern
    */
-  private async executeStep(task: AgentTask, step: ExecutionStep): Promise<void> {
+  private async executeStep(
+    task: AgentTask,
+    step: ExecutionStep,
+    frame: StepFrame,
+    attempt = 1
+  ): Promise<ToolResult> {
     console.log(`[Agent] Executing step ${step.stepNumber}: ${step.description}`);
 
     await this.emitEvent({
@@ -327,40 +661,77 @@ Return ONLY the JSON array, no other text.`;
     });
 
     const stepStartTime = Date.now();
+    let params = step.params;
+    let policy: PolicyEvaluation | undefined;
 
     try {
-      // 1. REASON: Get AI's reasoning for this step
-      const reasoning = await this.reason(task, step);
+      // 1. REASON: Get AI's reasoning for this step (not worth paying for in
+      // a dry run)
+      const reasoning = this.dryRunState
+        ? `Executing ${step.action}: ${step.description}`
+        : await this.reason(task, step);
 
       // 2. ACT: Execute the tool
-      const context = this.buildContext(task);
+      const context = this.buildContext(task, step);
       const tool = this.toolRegistry.getTool(step.tool);
 
       if (!tool) {
         throw new Error(`Tool not found: ${step.tool}`);
       }
 
-      // Validate parameters
-      const validation = tool.validate(step.params);
+      // Substitute {{steps.step_N...}} references to earlier results, then
+      // validate what the tool will actually receive
+      try {
+        params = resolveStepReferences(step.params, await this.stepOutputs(frame), tool.inputSchema);
+      } catch (error) {
+        // Simulated results rarely have the shape real ones do, so in a dry
+        // run an unresolvable reference is reported and left as written
+        if (!(this.dryRunState && error instanceof StepReferenceError)) throw error;
+        this.dryRunState.warnings.push(`Step ${step.stepNumber}: ${error.message}`);
+      }
+      const validation = tool.validate(params);
       if (!validation.valid) {
         throw new Error(`Invalid parameters: ${validation.error}`);
       }
 
+      // Workspace policies (see tool-policy.ts) judge the resolved params
+      // before anything else — a denied call fails here, dry run or not
+      policy = evaluateToolPolicies(this.toolPolicies, step.tool, params);
+      if (policy.effect === 'deny') {
+        throw new ToolPolicyDeniedError(step.tool, policy.policyName!);
+      }
+
+      if (this.dryRunState) {
+        return await this.simulateStep(task, step, frame, tool, params, policy, context, reasoning, stepStartTime);
+      }
+
       // Human-in-the-loop gate (OWASP LLM06). Sensitivity is decided
       // server-side (see approval.ts), NOT from the model-authored
       // requiresApproval flag alone. A sensitive step that the user has not
       // pre-approved for this task halts here — it is never silently executed.
-      if (stepNeedsApproval(step, task.config)) {
-        await this.emitEvent({
-          type: 'approval.required',
-          taskId: task.id,
-          stepNumber: step.stepNumber,
-          action: step.action,
-        });
-        console.log(
-          `[Agent] Halting: step ${step.stepNumber} (${step.tool}) requires approval`
-        );
-        throw new ApprovalRequiredError(step.tool, step.stepNumber);
+      // The user decides from the approval inbox (see approval-inbox.ts),
+      // which resumes the run back to this gate. A matching workspace policy
+      // can require approval or waive it.
+      if (stepNeedsApproval(step, task.config, policy, tool)) {
+        const approval = await resolveStepApproval(task, step, params);
+
+        if (approval.status === 'denied') {
+          throw new ApprovalDeniedError(step.tool, step.stepNumber, approval.reason);
+        }
+
+        if (approval.status === 'pending') {
+          await this.emitEvent({
+            type: 'approval.required',
+            taskId: task.id,
+            stepNumber: step.stepNumber,
+            action: step.action,
+            approvalId: approval.approvalId,
+          });
+          console.log(
+            `[Agent] Halting: step ${step.stepNumber} (${step.tool}) requires approval`
+          );
+          throw new ApprovalRequiredError(step.tool, step.stepNumber, approval.approvalId);
+        }
       }
 
       // Apply execution guards (timeout, cost limits, rate limiting)
@@ -368,7 +739,8 @@ Return ONLY the JSON array, no other text.`;
         task.userId,
         step.tool,
         step.estimatedCredits || 100,
-        this.currentState?.creditsUsed || 0
+        this.currentState?.creditsUsed || 0,
+        task.config?.maxCredits
       );
 
       if (!guards.allowed) {
@@ -384,19 +756,27 @@ Return ONLY the JSON array, no other text.`;
 
       // Execute tool with timeout
       const result = await withTimeout(
-        () => tool.execute(step.params, context),
+        (signal) => tool.execute(params, { ...context, signal }),
         guards.timeout,
-        `${step.tool} (${step.description})`
+        `${step.tool} (${step.description})`,
+        context.signal
       );
 
+      // A delegated child's spend counts against this task's budget, failed
+      // or not, but it was charged as the child ran (see delegation.ts)
+      if (this.currentState) {
+        this.currentState.creditsUsed += result.metadata?.delegatedCredits || 0;
+      }
+
       // 3. OBSERVE: Process the result
       if (!result.success) {
         throw new Error(result.error || 'Tool execution failed');
       }
 
-      // Store result in context for future steps
+      // Store result in context for future steps, a large one as a handle
+      const output = await this.keptOutput(task, step, step.tool, result.data);
       if (this.currentState) {
-        this.currentState.context[`step${step.stepNumber}`] = result.data;
+        this.currentState.context[`step${step.stepNumber}`] = output;
         this.currentState.creditsUsed += result.metadata?.credits || 0;
         this.currentState.tokensUsed += result.metadata?.tokens || 0;
       }
@@ -405,60 +785,72 @@ Return ONLY the JSON array, no other text.`;
       const trace: ExecutionTrace = {
         stepNumber: step.stepNumber,
         timestamp: new Date(),
+        startedAt: new Date(stepStartTime),
         action: step.action,
         tool: step.tool,
         reasoning,
-        input: step.params,
-        output: result.data,
+        input: params,
+        output,
         status: 'completed' as StepStatus,
         duration: Date.now() - stepStartTime,
         credits: result.metadata?.credits || 0,
         tokens: result.metadata?.tokens || 0,
+        policy,
+        ...this.traceScope(frame),
       };
 
-      this.currentState?.trace.push(trace);
+      await this.recordTrace(task, trace);
 
       await this.emitEvent({
         type: 'task.step.completed',
         taskId: task.id,
         stepNumber: step.stepNumber,
-        result,
+        result: { ...result, data: output },
       });
 
       console.log(`[Agent] Step ${step.stepNumber} completed in ${trace.duration}ms`);
 
+      return result;
+
     } catch (error: any) {
       // An approval halt is an intentional stop, not a failure: do not retry it
       // (it would loop forever) and do not report it to Sentry as an error.
-      if (error instanceof ApprovalRequiredError) {
+      // Nor is being paused or cancelled mid-call; the step runs again on
+      // resume.
+      if (error instanceof ApprovalRequiredError || error instanceof TaskStoppedError) {
         throw error;
       }
 
       console.error(`[Agent] Step ${step.stepNumber} failed:`, error);
 
-      // Track step error in Sentry
-      captureAgentError(
-        error,
-        task.id,
-        task.userId,
-        step.stepNumber,
-        step.tool
-      );
+      // A denial — the user's or a policy's — is not an error worth reporting
+      if (!(error instanceof ApprovalDeniedError || error instanceof ToolPolicyDeniedError)) {
+        captureAgentError(
+          error,
+          task.id,
+          task.userId,
+          step.stepNumber,
+          step.tool
+        );
+      }
 
       const trace: ExecutionTrace = {
         stepNumber: step.stepNumber,
         timestamp: new Date(),
+        startedAt: new Date(stepStartTime),
         action: step.action,
         tool: step.tool,
-        input: step.params,
+        input: params,
         error: error.message,
         status: 'failed' as StepStatus,
         duration: Date.now() - stepStartTime,
         credits: 0,
         tokens: 0,
+        policy,
+        ...this.traceScope(frame),
       };
 
-      this.currentState?.trace.push(trace);
+      await this.recordTrace(task, trace);
 
       await this.emitEvent({
         type: 'task.step.failed',
@@ -467,17 +859,344 @@ Return ONLY the JSON array, no other text.`;
         error: error.message,
       });
 
-      // Retry logic
-      if (step.retryable && (this.config.retryCount || 3) > 0) {
-        console.log(`[Agent] Retrying step ${step.stepNumber}...`);
+      // Retry logic — bounded, so a step that always fails ends in a
+      // failure (and, with adaptive replanning, a revised plan) instead of
+      // retrying forever. A reference that cannot be resolved will not
+      // resolve on a second attempt either, dry-run simulations are
+      // deterministic, and a denied step stays denied (by the user or a policy).
+      const maxRetries = this.config.retryCount ?? 3;
+      const retryable =
+        step.retryable &&
+        !this.dryRunState &&
+        !(error instanceof StepReferenceError) &&
+        !(error instanceof ApprovalDeniedError) &&
+        !(error instanceof ToolPolicyDeniedError);
+      if (retryable && attempt <= maxRetries && !this.shouldStop) {
+        console.log(`[Agent] Retrying step ${step.stepNumber} (attempt ${attempt + 1} of ${maxRetries + 1})...`);
         await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1s
-        return this.executeStep(task, step); // Retry
+        return this.executeStep(task, step, frame, attempt + 1); // Retry
       }
 
       throw error;
     }
   }
 
+  /**
+   * Dry-run stand-in for the ACT/OBSERVE half of executeStep(): produce a
+   * result without calling tool.execute(), and record what the step would
+   * have cost and done.
+   */
+  private async simulateStep(
+    task: AgentTask,
+    step: ExecutionStep,
+    frame: StepFrame,
+    tool: AgentTool,
+    params: Record<string, any>,
+    policy: PolicyEvaluation,
+    context: AgentContext,
+    reasoning: string,
+    stepStartTime: number
+  ): Promise<ToolResult> {
+    const dryRun = this.dryRunState!;
+    const fixtureKey = [`step_${step.stepNumber}`, step.tool].find((key) => key in dryRun.fixtures);
+
+    let data: any;
+    if (fixtureKey) {
+      data = dryRun.fixtures[fixtureKey];
+    } else if (tool.simulate) {
+      const simulated = await tool.simulate(params, context);
+      if (!simulated.success) {
+        throw new Error(simulated.error || 'Simulation failed');
+      }
+      data = simulated.data;
+    } else {
+      data = { simulated: true, tool: step.tool, params };
+      dryRun.warnings.push(
+        `Step ${step.stepNumber}: ${step.tool} has no simulation; later steps see a placeholder result`
+      );
+    }
+
+    const credits = tool.estimateCost(params) ?? step.estimatedCredits ?? 0;
+    dryRun.projectedCredits += credits;
+
+    // Anything the real run would treat as writing is a side effect — even
+    // when a policy or pre-approval lets it run without asking
+    if (isSensitiveTool(step.tool, tool) || step.requiresApproval || policy.effect === 'require_approval') {
+      dryRun.sideEffects.push({
+        stepNumber: step.stepNumber,
+        tool: step.tool,
+        description: step.description,
+        params,
+        requiresApproval: stepNeedsApproval(step, task.config, policy, tool),
+      });
+    }
+
+    const result: ToolResult = {
+      success: true,
+      data,
+      metadata: { duration: Date.now() - stepStartTime, credits },
+    };
+
+    if (this.currentState) {
+      this.currentState.context[`step${step.stepNumber}`] = data;
+    }
+
+    await this.recordTrace(task, {
+      stepNumber: step.stepNumber,
+      timestamp: new Date(),
+      startedAt: new Date(stepStartTime),
+      action: step.action,
+      tool: step.tool,
+      reasoning,
+      input: params,
+      output: data,
+      status: 'completed' as StepStatus,
+      duration: Date.now() - stepStartTime,
+      credits,
+      tokens: 0,
+      policy,
+      ...this.traceScope(frame),
+    });
+
+    await this.emitEvent({
+      type: 'task.step.completed',
+      taskId: task.id,
+      stepNumber: step.stepNumber,
+      result,
+    });
+
+    return result;
+  }
+
+  /**
+   * Run a control-flow step (see control-flow.ts): evaluate its condition or
+   * items, run the nested steps in order, and record the step's own trace
+   * entry once they are done. A nested step that fails fails the whole
+   * control-flow step; retries happen at the nested step, not here.
+   */
+  private async executeControlStep(
+    task: AgentTask,
+    step: ExecutionStep & { control: ControlFlow },
+    frame: StepFrame
+  ): Promise<ToolResult> {
+    console.log(`[Agent] Executing step ${step.stepNumber}: ${step.description} (${step.control.type})`);
+
+    await this.emitEvent({
+      type: 'task.step.started',
+      taskId: task.id,
+      stepNumber: step.stepNumber,
+    });
+
+    const control = step.control;
+    const stepStartTime = Date.now();
+    const input = control.type === 'forEach' ? { items: control.items } : { condition: control.condition };
+
+    try {
+      let data: Record<string, any>;
+
+      if (control.type === 'if') {
+        const outputs = await this.stepOutputs(frame);
+        const condition = this.controlValue(step, () => evaluateCondition(control.condition, outputs), false);
+        const nested = this.childFrame(frame, step);
+        const result = await this.runSequence(task, condition ? control.then : control.else || [], nested);
+        await this.recordSkipped(task, condition ? control.else || [] : control.then, nested);
+        data = { condition, branch: condition ? 'then' : 'else', result };
+      } else if (control.type === 'forEach') {
+        const outputs = await this.stepOutputs(frame);
+        const items = this.controlValue(step, () => resolveLoopItems(control.items, outputs), [] as unknown[]);
+        const maxIterations = resolveMaxIterations(control.maxIterations);
+        if (items.length > maxIterations) {
+          throw new Error(`forEach has ${items.length} items, more than maxIterations (${maxIterations})`);
+        }
+
+        const results: unknown[] = [];
+        for (let index = 0; index < items.length; index++) {
+          const nested = this.childFrame(frame, step, index, { item: items[index], index });
+          results.push(await this.runSequence(task, control.body, nested));
+        }
+        data = { iterations: items.length, results };
+      } else {
+        const maxIterations = resolveMaxIterations(control.maxIterations);
+        const results: unknown[] = [];
+        for (let iteration = 0; ; iteration++) {
+          if (iteration >= maxIterations) {
+            throw new Error(`while condition still held after maxIterations (${maxIterations})`);
+          }
+          const nested = this.childFrame(frame, step, iteration, { iteration });
+          results.push(await this.runSequence(task, control.body, nested));
+
+          // A simulated body returns the same thing every time, so a dry run
+          // would only spin until maxIterations
+          if (this.dryRunState) break;
+
+          const outputs = await this.stepOutputs(nested);
+          if (!this.controlValue(step, () => evaluateCondition(control.condition, outputs), false)) break;
+        }
+        data = { iterations: results.length, results };
+      }
+
+      const result: ToolResult = {
+        success: true,
+        data,
+        metadata: { duration: Date.now() - stepStartTime, credits: 0 },
+      };
+
+      const output = await this.keptOutput(task, step, CONTROL_TOOL, data);
+      if (this.currentState) {
+        this.currentState.context[`step${step.stepNumber}`] = output;
+      }
+
+      await this.recordTrace(task, {
+        stepNumber: step.stepNumber,
+        timestamp: new Date(),
+        startedAt: new Date(stepStartTime),
+        action: step.action,
+        tool: CONTROL_TOOL,
+        input,
+        output,
+        status: 'completed' as StepStatus,
+        duration: Date.now() - stepStartTime,
+        credits: 0,
+        tokens: 0,
+        ...this.traceScope(frame),
+      });
+
+      await this.emitEvent({
+        type: 'task.step.completed',
+        taskId: task.id,
+        stepNumber: step.stepNumber,
+        result: { ...result, data: output },
+      });
+
+      return result;
+
+    } catch (error: any) {
+      // Halting for approval or being stopped is not the step failing; it
+      // runs again on resume
+      if (error instanceof ApprovalRequiredError || error instanceof TaskStoppedError) {
+        throw error;
+      }
+
+      await this.recordTrace(task, {
+        stepNumber: step.stepNumber,
+        timestamp: new Date(),
+        startedAt: new Date(stepStartTime),
+        action: step.action,
+        tool: CONTROL_TOOL,
+        input,
+        error: error.message,
+        status: 'failed' as StepStatus,
+        duration: Date.now() - stepStartTime,
+        credits: 0,
+        tokens: 0,
+        ...this.traceScope(frame),
+      });
+
+      await this.emitEvent({
+        type: 'task.step.failed',
+        taskId: task.id,
+        stepNumber: step.stepNumber,
+        error: error.message,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Run nested steps in order; returns the last one's result data. Stopping
+   * (pause/cancel) mid-sequence throws the TaskStoppedError, so the enclosing
+   * control-flow step is not recorded as complete and runs again on resume.
+   *
+   * On resume, a nested step the stopped run already completed in this same
+   * branch or iteration is not run again: its checkpointed result stands in,
+   * and is what later steps of the iteration see when they reference it.
+   */
+  private async runSequence(task: AgentTask, steps: ExecutionStep[], frame: StepFrame): Promise<unknown> {
+    let last: unknown;
+    for (const step of steps) {
+      if (this.shouldStop) {
+        throw stopReason(this.abortController.signal);
+      }
+      const checkpointed = this.checkpointedEntry(step, frame);
+      if (checkpointed) {
+        frame.locals.set(step.stepNumber, checkpointed.output);
+        last = checkpointed.output;
+        continue;
+      }
+      last = (await this.dispatchStep(task, step, frame)).data;
+    }
+    return last;
+  }
+
+  /**
+   * The completed trace entry of `step` in `frame` — same enclosing step and
+   * loop iterations — if there is one.
+   */
+  private checkpointedEntry(step: ExecutionStep, frame: StepFrame): ExecutionTrace | undefined {
+    const iteration = frame.iteration.join(',');
+    return this.currentState?.trace.find(
+      (entry) =>
+        entry.status === 'completed' &&
+        entry.action !== PLAN_REVISION_ACTION &&
+        entry.stepNumber === step.stepNumber &&
+        entry.parentStep === frame.parentStep &&
+        (entry.iteration ?? []).join(',') === iteration
+    );
+  }
+
+  /**
+   * Trace the steps of an `if` branch that was not taken as skipped.
+   */
+  private async recordSkipped(task: AgentTask, steps: ExecutionStep[], frame: StepFrame): Promise<void> {
+    for (const step of steps) {
+      await this.recordTrace(task, {
+        stepNumber: step.stepNumber,
+        timestamp: new Date(),
+        action: step.action,
+        tool: step.tool,
+        input: step.params,
+        status: 'skipped' as StepStatus,
+        duration: 0,
+        credits: 0,
+        tokens: 0,
+        ...this.traceScope(frame),
+      });
+      for (const sequence of childSequences(step)) {
+        await this.recordSkipped(task, sequence, this.childFrame(frame, step));
+      }
+    }
+  }
+
+  /**
+   * The frame for steps nested in `step`; loops pass their iteration index
+   * and the variables the body can reference as {{steps.step_N.data...}}.
+   */
+  private childFrame(frame: StepFrame, step: ExecutionStep, iteration?: number, locals?: unknown): StepFrame {
+    const nested: StepFrame = {
+      parentStep: step.stepNumber,
+      iteration: iteration === undefined ? frame.iteration : [...frame.iteration, iteration],
+      locals: new Map(frame.locals),
+    };
+    if (locals !== undefined) nested.locals.set(step.stepNumber, locals);
+    return nested;
+  }
+
+  /**
+   * Evaluate a condition or item list. Simulated results rarely have the
+   * shape real ones do, so in a dry run an unresolvable reference is reported
+   * and `fallback` (false, no items) used instead.
+   */
+  private controlValue<T>(step: ExecutionStep, evaluate: () => T, fallback: T): T {
+    try {
+      return evaluate();
+    } catch (error) {
+      if (!(this.dryRunState && error instanceof StepReferenceError)) throw error;
+      this.dryRunState.warnings.push(`Step ${step.stepNumber}: ${error.message}`);
+      return fallback;
+    }
+  }
+
   /**
    * Get AI reasoning for a step
    */
@@ -508,15 +1227,19 @@ Provide a brief (1-2 sentences) explanation of why this action makes sense.`;
   /**
    * Build context for tool execution
    */
-  private buildContext(task: AgentTask): AgentContext {
+  private buildContext(task: AgentTask, step: ExecutionStep): AgentContext {
     return {
       userId: task.userId,
       taskId: task.id,
-      stepNumber: this.currentState?.currentStep || 0,
+      stepNumber: step.stepNumber,
       state: this.currentState!,
       prisma,
       aiRouter,
       memory: this.currentState?.context || {},
+      creditLimit: Math.min(task.config?.maxCredits ?? COST_LIMITS.maxCreditsPerTask, COST_LIMITS.maxCreditsPerTask),
+      delegationDepth: task.config?.delegationDepth ?? 0,
+      toolNames: this.toolRegistry.getToolNames(),
+      signal: this.abortController.signal,
     };
   }
 
@@ -526,6 +1249,7 @@ Provide a brief (1-2 sentences) explanation of why this action makes sense.`;
 
   async pause(): Promise<void> {
     this.shouldStop = true;
+    this.abortController.abort(new TaskStoppedError('pause'));
     if (this.currentState) {
       this.currentState.status = 'paused';
 
@@ -553,13 +1277,23 @@ Provide a brief (1-2 sentences) explanation of why this action makes sense.`;
     }
   }
 
+  /**
+   * Continue a run from `state` — normally loadCheckpoint()'s reconstruction
+   * of it. Steps with a completed trace entry are skipped, not re-run; the
+   * plan is the one persisted on the task, not a new one.
+   */
   async resume(state: AgentState): Promise<AgentResult> {
     console.log(`[Agent] Resuming task ${state.taskId} from step ${state.currentStep}`);
 
     // Restore state
     this.currentState = state;
     this.currentState.status = 'executing';
+    this.currentState.trace = state.trace || [];
+    if (!Object.keys(state.context || {}).length) {
+      this.currentState.context = contextFromTrace(this.currentState.trace);
+    }
     this.shouldStop = false;
+    this.abortController = new AbortController();
 
     // Load task from database to get plan
     const task = await prisma.task.findUnique({
@@ -582,7 +1316,7 @@ Provide a brief (1-2 sentences) explanation of why this action makes sense.`;
       id: task.id,
       userId: task.userId,
       type: (task.agentType || 'custom') as AgentType,
-      goal: task.title,
+      goal: task.description || task.title,
       context: (task.agentConfig as Record<string, any>) || {},
       config: (task.agentConfig as Record<string, any>) || {},
       priority: task.priority as any,
@@ -590,6 +1324,7 @@ Provide a brief (1-2 sentences) explanation of why this action makes sense.`;
     };
 
     // Emit resume event
+    this.taskUserId = agentTask.userId;
     await this.emitEvent({
       type: 'task.resumed',
       taskId: state.taskId,
@@ -606,46 +1341,48 @@ Provide a brief (1-2 sentences) explanation of why this action makes sense.`;
     const startTime = Date.now() - (state.executionTime || 0);
 
     try {
-      // Continue execution from current step
-      for (let i = state.currentStep; i < plan.steps.length; i++) {
-        if (this.shouldStop) {
-          throw new Error('Execution cancelled');
-        }
-
-        const step = plan.steps[i];
-        this.currentState.currentStep = i + 1;
-        this.currentState.progress = Math.round(((i + 1) / plan.totalSteps) * 100);
-
-        await this.executeStep(agentTask, step);
+      // Continue execution, skipping steps that already completed
+      const finalPlan = await this.runPlan(agentTask, plan, this.completedStepIds(plan, state));
+      if (this.abortController.signal.aborted) {
+        return this.haltForStop(agentTask.id, startTime);
       }
 
       // Mark as completed
       this.currentState.status = 'completed';
       this.currentState.completedAt = new Date();
       this.currentState.executionTime = Date.now() - startTime;
+      const resultDiff = await this.settleResult(agentTask);
 
       const result: AgentResult = {
         taskId: agentTask.id,
         status: 'completed',
         result: this.currentState.result,
-        steps: plan.totalSteps,
+        steps: finalPlan.totalSteps,
         duration: this.currentState.executionTime,
         creditsUsed: this.currentState.creditsUsed,
         tokensUsed: this.currentState.tokensUsed,
-        trace: this.currentState.trace,
+        trace: this.orderedTrace(),
+        resultDiff,
         completedAt: new Date(),
       };
 
       await this.emitEvent({ type: 'task.completed', taskId: agentTask.id, result });
 
       // Save to database
-      await this.saveResult(agentTask.id, agentTask.userId, result);
+      await this.saveResult(agentTask.id, result);
 
       console.log(`[Agent] Task ${agentTask.id} completed after resume`);
 
       return result;
 
     } catch (error: any) {
+      if (error instanceof ApprovalRequiredError) {
+        return this.haltForApproval(agentTask.id, error, startTime);
+      }
+      if (this.abortController.signal.aborted) {
+        return this.haltForStop(agentTask.id, startTime);
+      }
+
       console.error(`[Agent] Resume execution failed:`, error);
 
       // Track error in Sentry
@@ -668,23 +1405,79 @@ Provide a brief (1-2 sentences) explanation of why this action makes sense.`;
         duration: Date.now() - startTime,
         creditsUsed: this.currentState.creditsUsed,
         tokensUsed: this.currentState.tokensUsed,
-        trace: this.currentState.trace,
+        trace: this.orderedTrace(),
         completedAt: new Date(),
       };
 
       await this.emitEvent({ type: 'task.failed', taskId: agentTask.id, error: error.message });
 
       // Save to database
-      await this.saveResult(agentTask.id, agentTask.userId, result);
+      await this.saveResult(agentTask.id, result);
 
       return result;
     }
   }
 
+  /**
+   * End a run that pause() or cancel() stopped. Steps in flight were
+   * abandoned, not failed, and run again on resume.
+   */
+  private async haltForStop(taskId: string, startTime: number): Promise<AgentResult> {
+    const reason = this.abortController.signal.reason;
+    const status = reason instanceof TaskStoppedError && reason.action === 'pause' ? 'paused' : 'cancelled';
+    console.log(`[Agent] Task ${taskId} stopped (${status}) after ${this.currentState!.currentStep} steps`);
+
+    this.currentState!.status = status;
+
+    const result: AgentResult = {
+      taskId,
+      status,
+      steps: this.currentState!.currentStep,
+      duration: Date.now() - startTime,
+      creditsUsed: this.currentState!.creditsUsed,
+      tokensUsed: this.currentState!.tokensUsed,
+      trace: this.orderedTrace(),
+      completedAt: new Date(),
+    };
+
+    await this.saveResult(taskId, result);
+
+    return result;
+  }
+
+  /**
+   * End a run that stopped at the approval gate. Not a failure: the task
+   * waits in awaiting_approval until the user decides, and the decision
+   * resumes it from its checkpoints (see approval-inbox.ts).
+   */
+  private async haltForApproval(taskId: string, error: ApprovalRequiredError, startTime: number): Promise<AgentResult> {
+    console.log(`[Agent] Task ${taskId} awaiting approval for step ${error.stepNumber}`);
+
+    this.currentState!.status = 'awaiting_approval';
+
+    const result: AgentResult = {
+      taskId,
+      status: 'awaiting_approval',
+      error: error.message,
+      steps: this.currentState!.currentStep,
+      duration: Date.now() - startTime,
+      creditsUsed: this.currentState!.creditsUsed,
+      tokensUsed: this.currentState!.tokensUsed,
+      trace: this.orderedTrace(),
+      completedAt: new Date(),
+    };
+
+    await this.saveResult(taskId, result);
+
+    return result;
+  }
+
   async cancel(): Promise<void> {
     this.shouldStop = true;
+    this.abortController.abort(new TaskStoppedError('cancel'));
     if (this.currentState) {
       this.currentState.status = 'cancelled';
+      await cancelChildRuns(this.currentState.taskId);
       await this.emitEvent({
         type: 'task.cancelled',
         taskId: this.currentState.taskId,
@@ -697,15 +1490,17 @@ Provide a brief (1-2 sentences) explanation of why this action makes sense.`;
   // ============================================================================
 
   /**
-   * Save execution result to database
+   * Save execution result to database. Per-step TaskExecution rows and credit
+   * deductions were already written as each step finished (see checkpoint.ts).
    */
-  private async saveResult(taskId: string, userId: string, result: AgentResult): Promise<void> {
+  private async saveResult(taskId: string, result: AgentResult): Promise<void> {
     try {
       await prisma.task.update({
         where: { id: taskId },
         data: {
           status: result.status,
           result: result.result as any,
+          ...(result.resultDiff && { resultDiff: result.resultDiff as any }),
           error: result.error,
           executionTrace: result.trace as any,
           totalTokens: result.tokensUsed,
@@ -715,39 +1510,6 @@ Provide a brief (1-2 sentences) explanation of why this action makes sense.`;
           failedAt: result.status === 'failed' ? new Date() : null,
         },
       });
-
-      // Save individual execution records
-      for (const trace of result.trace) {
-        await prisma.taskExecution.create({
-          data: {
-            taskId,
-            step: trace.stepNumber,
-            action: trace.action,
-            tool: trace.tool,
-            input: trace.input,
-            output: trace.output,
-            reasoning: trace.reasoning,
-            status: trace.status,
-            error: trace.error,
-            tokens: trace.tokens,
-            credits: trace.credits,
-            duration: trace.duration,
-            createdAt: trace.timestamp,
-            completedAt: trace.status === 'completed' ? trace.timestamp : null,
-          },
-        });
-      }
-
-      // Deduct credits from user
-      await prisma.user.update({
-        where: { id: userId },
-        data: {
-          creditsUsed: {
-            increment: result.creditsUsed,
-          },
-        },
-      });
-
     } catch (error) {
       console.error('[Agent] Failed to save result:', error);
     }
@@ -757,11 +1519,18 @@ Provide a brief (1-2 sentences) explanation of why this action makes sense.`;
   // COST ESTIMATION
   // ============================================================================
 
+  // Nested steps are counted once: how many times a loop runs is not known
+  // until it does
+
   private estimatePlanCredits(plan: ExecutionPlan): number {
-    return plan.steps.reduce((total, step) => total + (step.estimatedCredits || 100), 500);
+    return this.toolSteps(plan).reduce((total, step) => total + (step.estimatedCredits || 100), 500);
   }
 
   private estimatePlanDuration(plan: ExecutionPlan): number {
-    return plan.steps.reduce((total, step) => total + (step.estimatedDuration || 5000), 0);
+    return this.toolSteps(plan).reduce((total, step) => total + (step.estimatedDuration || 5000), 0);
+  }
+
+  private toolSteps(plan: ExecutionPlan): ExecutionStep[] {
+    return flattenSteps(plan.steps).filter((step) => !isControlStep(step));
   }
 }
@@ -6,6 +6,7 @@
 
 import { captureMessage } from '@/lib/sentry';
 import { prisma } from '@/lib/prisma';
+import { stopReason, throwIfStopped } from './cancellation';
 
 /**
  * Timeout configuration for different tool categories
@@ -36,19 +37,48 @@ export const TOOL_TIMEOUTS = {
   // A single chart render: page load + Chart.js draw + screenshot.
   chart: 20000, // 20 seconds
 
+  // A call on an external MCP server: connect, initialize, then the tool itself
+  mcp: 60000, // 60 seconds
+
+  // code.run: a sandbox to acquire (possibly booting the VM), the code's own
+  // timeout of up to 5 minutes, then its files to collect
+  code: 420000, // 7 minutes
+
+  // agent.delegate waits on a whole child task, which is cancelled a minute
+  // before this (DELEGATION_TIMEOUT_MS in delegation.ts)
+  agent: 600000, // 10 minutes
+
   // Default for unknown categories
   default: 30000, // 30 seconds
 };
 
 /**
- * Execute an async operation with a timeout
+ * Execute an async operation with a timeout. The operation is handed a
+ * signal that aborts when the time is up or when `signal` (the run's own,
+ * see cancellation.ts) does, so an operation that honours it stops instead
+ * of running on after nobody is waiting; either way this rejects at once.
  */
 export async function withTimeout<T>(
-  operation: () => Promise<T>,
+  operation: (signal: AbortSignal) => Promise<T>,
   timeoutMs: number,
-  operationName: string
+  operationName: string,
+  signal?: AbortSignal
 ): Promise<T> {
+  throwIfStopped(signal);
+  const controller = new AbortController();
+
   return new Promise((resolve, reject) => {
+    const settle = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const stop = (error: Error) => {
+      settle();
+      controller.abort(error);
+      reject(error);
+    };
+    const onAbort = () => stop(stopReason(signal!));
+
     const timer = setTimeout(() => {
       const error = new Error(`Operation "${operationName}" timed out after ${timeoutMs}ms`);
       captureMessage(
@@ -56,21 +86,40 @@ export async function withTimeout<T>(
         'warning',
         { timeout: String(timeoutMs), operation: operationName }
       );
-      reject(error);
+      stop(error);
     }, timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
 
-    operation()
+    operation(controller.signal)
       .then((result) => {
-        clearTimeout(timer);
+        settle();
         resolve(result);
       })
       .catch((error) => {
-        clearTimeout(timer);
+        settle();
         reject(error);
       });
   });
 }
 
+/**
+ * Wait `ms`, or less if the signal aborts first, which rejects.
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(stopReason(signal));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(stopReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 /**
  * Get timeout for a tool based on its category
  */
@@ -105,11 +154,13 @@ export interface CostCheckResult {
 }
 
 /**
- * Check if a step execution would exceed cost limits
+ * Check if a step execution would exceed cost limits. `taskLimit` lowers the
+ * per-task ceiling for a task that has its own (AgentConfig.maxCredits).
  */
 export function checkStepCost(
   estimatedCredits: number,
-  currentTaskCredits: number
+  currentTaskCredits: number,
+  taskLimit: number = COST_LIMITS.maxCreditsPerTask
 ): CostCheckResult {
   // Check per-step limit
   if (estimatedCredits > COST_LIMITS.maxCreditsPerStep) {
@@ -124,18 +175,18 @@ export function checkStepCost(
 
   // Check per-task limit
   const projectedTotal = currentTaskCredits + estimatedCredits;
-  if (projectedTotal > COST_LIMITS.maxCreditsPerTask) {
+  if (projectedTotal > taskLimit) {
     return {
       allowed: false,
-      reason: `Task would use ${projectedTotal} credits total, exceeding per-task limit of ${COST_LIMITS.maxCreditsPerTask}`,
+      reason: `Task would use ${projectedTotal} credits total, exceeding per-task limit of ${taskLimit}`,
       currentUsage: currentTaskCredits,
-      limit: COST_LIMITS.maxCreditsPerTask,
+      limit: taskLimit,
       warningLevel: 'critical',
     };
   }
 
   // Check warning threshold
-  const usagePercent = projectedTotal / COST_LIMITS.maxCreditsPerTask;
+  const usagePercent = projectedTotal / taskLimit;
   let warningLevel: 'none' | 'warning' | 'critical' = 'none';
 
   if (usagePercent >= COST_LIMITS.warningThreshold) {
@@ -147,7 +198,7 @@ export function checkStepCost(
       {
         currentUsage: String(currentTaskCredits),
         projectedUsage: String(projectedTotal),
-        limit: String(COST_LIMITS.maxCreditsPerTask),
+        limit: String(taskLimit),
       }
     );
   }
@@ -155,7 +206,7 @@ export function checkStepCost(
   return {
     allowed: true,
     currentUsage: currentTaskCredits,
-    limit: COST_LIMITS.maxCreditsPerTask,
+    limit: taskLimit,
     warningLevel,
   };
 }
@@ -312,7 +363,8 @@ export async function applyExecutionGuards(
   userId: string,
   toolName: string,
   estimatedCredits: number,
-  currentTaskCredits: number
+  currentTaskCredits: number,
+  taskCreditLimit?: number
 ): Promise<{
   allowed: boolean;
   reason?: string;
@@ -330,7 +382,11 @@ export async function applyExecutionGuards(
   }
 
   // Check cost limits
-  const costCheck = checkStepCost(estimatedCredits, currentTaskCredits);
+  const costCheck = checkStepCost(
+    estimatedCredits,
+    currentTaskCredits,
+    Math.min(taskCreditLimit ?? COST_LIMITS.maxCreditsPerTask, COST_LIMITS.maxCreditsPerTask)
+  );
   if (!costCheck.allowed) {
     return {
       allowed: false,
@@ -0,0 +1,488 @@
+/**
+ * OpenAPI Import - custom tools generated from an OpenAPI 3.x document
+ *
+ * Each GET/POST/PUT/PATCH/DELETE operation becomes one CustomTool on the
+ * chosen integration. Path, query and header params and the fields of a JSON
+ * object body are flattened into one parameter schema, each param marked with
+ * where it is sent (`x-in`, see tools/custom.ts). The operation's security
+ * scheme picks which of the integration's credentials is sent and how.
+ *
+ * A tool remembers its operation ("GET /pets/{petId}") in sourceOperation, so
+ * importing the spec again compares each operation with its tool: new ones
+ * are created, changed ones updated (headers and mappings the user set are
+ * kept), and tools whose operation is gone are reported, and deleted on
+ * request. Without `apply` an import only reports what it would do.
+ */
+
+import { JSON_SCHEMA, load } from 'js-yaml';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { stableStringify } from './approval-inbox';
+import { MAX_CUSTOM_TOOLS, validateCustomToolInput } from './custom-tools';
+import {
+  CUSTOM_TOOL_METHODS,
+  customToolName,
+  type CustomToolAuthentication,
+  type CustomToolMethod,
+  type ParamLocation,
+} from './tools/custom';
+import { deref, flattenSchema, schemaType, toProperty } from './tools/json-schema';
+
+/** Largest spec accepted, in characters. */
+export const MAX_SPEC_CHARS = 2_000_000;
+
+const MAX_NAME_CHARS = 64;
+const MAX_DESCRIPTION_CHARS = 1000;
+
+/** Header params the tool sets itself; OpenAPI says to ignore these too. */
+const RESERVED_HEADERS = ['authorization', 'content-type', 'accept'];
+
+/** The fields an import writes; headers and mappings stay the user's. */
+const GENERATED_FIELDS = ['name', 'description', 'endpoint', 'method', 'parameters', 'authentication'] as const;
+type GeneratedField = (typeof GENERATED_FIELDS)[number];
+
+type OpenApiDocument = Record<string, any>;
+
+export interface GeneratedTool {
+  name: string;
+  description: string | null;
+  endpoint: string;
+  method: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, Record<string, unknown>>;
+    required: string[];
+  };
+  authentication: CustomToolAuthentication;
+}
+
+/** One operation of a spec, as a tool or the reason it cannot be one. */
+export interface SpecOperation {
+  /** "METHOD /path", the operation's identity across imports */
+  key: string;
+  operationId: string | null;
+  tool: GeneratedTool | null;
+  skipped: string | null;
+  warnings: string[];
+}
+
+export type ImportStatus = 'new' | 'changed' | 'unchanged' | 'skipped' | 'not_selected' | 'removed';
+
+export interface ImportEntry {
+  key: string;
+  operationId: string | null;
+  status: ImportStatus;
+  toolName: string | null;
+  toolId: string | null;
+  /** Generated fields that differ from the existing tool */
+  changes?: GeneratedField[];
+  reason?: string;
+  warnings: string[];
+}
+
+export interface ImportResult {
+  ok: true;
+  applied: boolean;
+  operations: ImportEntry[];
+  created: number;
+  updated: number;
+  removed: number;
+}
+
+export type ImportFailureReason = 'invalid_spec' | 'not_found';
+
+export interface ImportFailure {
+  ok: false;
+  reason: ImportFailureReason;
+  message: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * A spec from its JSON or YAML text (or already-parsed JSON), if it is an
+ * OpenAPI 3.x document.
+ */
+export function parseOpenApiSpec(
+  input: unknown
+): { ok: true; spec: OpenApiDocument } | { ok: false; message: string } {
+  let spec: unknown = input;
+  if (typeof input === 'string') {
+    if (input.length > MAX_SPEC_CHARS) {
+      return { ok: false, message: `The spec is larger than ${MAX_SPEC_CHARS} characters` };
+    }
+    try {
+      spec = input.trimStart().startsWith('{') ? JSON.parse(input) : load(input, { schema: JSON_SCHEMA });
+    } catch (error) {
+      return { ok: false, message: `The spec is not valid JSON or YAML: ${(error as Error).message.split('\n')[0]}` };
+    }
+  }
+
+  if (!isPlainObject(spec)) {
+    return { ok: false, message: 'The spec must be an OpenAPI document' };
+  }
+  if (typeof spec.openapi !== 'string' || !spec.openapi.startsWith('3.')) {
+    return {
+      ok: false,
+      message: spec.swagger ? 'Swagger 2.0 specs are not supported; convert it to OpenAPI 3' : 'Only OpenAPI 3.x specs are supported',
+    };
+  }
+  if (!isPlainObject(spec.paths)) {
+    return { ok: false, message: 'The spec has no paths' };
+  }
+  return { ok: true, spec };
+}
+
+function jsonContent(content: unknown): Record<string, any> | null {
+  if (!isPlainObject(content)) return null;
+  const type = Object.keys(content).find((key) => /^application\/(.+\+)?json\b/.test(key));
+  return type && isPlainObject(content[type]) ? content[type] : null;
+}
+
+/** The first server URL with its variables at their defaults. */
+function serverUrl(servers: unknown): string | null {
+  const server = Array.isArray(servers) ? servers.find(isPlainObject) : null;
+  if (!server || typeof server.url !== 'string') return null;
+  const variables = isPlainObject(server.variables) ? server.variables : {};
+  return server.url.replace(/\{([^{}]+)\}/g, (match: string, name: string) =>
+    isPlainObject(variables[name]) && variables[name].default !== undefined ? String(variables[name].default) : match
+  );
+}
+
+/**
+ * How the operation authenticates, mapped to the integration's credentials.
+ * The first requirement whose schemes are all supported wins.
+ */
+function toAuthentication(
+  spec: OpenApiDocument,
+  operation: Record<string, any>,
+  warnings: string[]
+): CustomToolAuthentication {
+  const requirements: unknown[] = Array.isArray(operation.security)
+    ? operation.security
+    : Array.isArray(spec.security)
+      ? spec.security
+      : [];
+  const schemes = isPlainObject(spec.components?.securitySchemes) ? spec.components.securitySchemes : {};
+
+  const map = (name: string): CustomToolAuthentication | null => {
+    const scheme = deref(spec, schemes[name]);
+    if (scheme.type === 'apiKey' && typeof scheme.name === 'string' && (scheme.in === 'header' || scheme.in === 'query')) {
+      return { type: scheme.in, name: scheme.name, credential: 'apiKey' };
+    }
+    if (scheme.type === 'http' && String(scheme.scheme).toLowerCase() === 'bearer') {
+      return { type: 'bearer' };
+    }
+    if (scheme.type === 'oauth2' || scheme.type === 'openIdConnect') {
+      return { type: 'bearer', credential: 'accessToken' };
+    }
+    return null;
+  };
+
+  const unsupported: string[] = [];
+  for (const requirement of requirements) {
+    if (!isPlainObject(requirement)) continue;
+    const names = Object.keys(requirement);
+    // {} means the operation may be called without credentials
+    if (!names.length) return { type: 'none' };
+    // A tool sends one credential, so only single-scheme requirements can be met
+    const mapped = names.length === 1 ? map(names[0]) : null;
+    if (mapped) return mapped;
+    unsupported.push(names.join(' + '));
+  }
+
+  if (unsupported.length) {
+    warnings.push(`Authentication ${unsupported.join(', ')} is not supported; the tool sends no credentials`);
+  }
+  return { type: 'none' };
+}
+
+function toolDisplayName(operationId: string | null, method: string, path: string): string {
+  if (!operationId) return `${method} ${path}`.substring(0, MAX_NAME_CHARS);
+  const words = operationId
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_\-.]+/g, ' ')
+    .trim()
+    .toLowerCase();
+  const name = words.charAt(0).toUpperCase() + words.slice(1);
+  return (/[A-Za-z0-9]/.test(name) ? name : `${method} ${path}`).substring(0, MAX_NAME_CHARS);
+}
+
+function toOperation(
+  spec: OpenApiDocument,
+  path: string,
+  method: string,
+  pathItem: Record<string, any>,
+  operation: Record<string, any>,
+  baseUrl: string | null
+): SpecOperation {
+  const key = `${method} ${path}`;
+  const operationId = typeof operation.operationId === 'string' ? operation.operationId : null;
+  const warnings: string[] = [];
+  const skip = (reason: string): SpecOperation => ({ key, operationId, tool: null, skipped: reason, warnings });
+
+  const server = baseUrl ?? serverUrl(operation.servers) ?? serverUrl(pathItem.servers) ?? serverUrl(spec.servers);
+  if (!server || !/^https?:\/\//i.test(server)) {
+    return skip('The spec has no absolute server URL; import it with a serverUrl');
+  }
+  if (operation.deprecated) warnings.push('The operation is deprecated');
+
+  const properties: Record<string, Record<string, unknown>> = {};
+  const required: string[] = [];
+  const add = (name: string, property: Record<string, unknown>, location: ParamLocation, isRequired: boolean) => {
+    if (properties[name]) return `Parameter ${name} is defined twice`;
+    properties[name] = { ...property, 'x-in': location };
+    if (isRequired) required.push(name);
+    return null;
+  };
+
+  // Operation params override path-level params with the same name and location
+  const params = new Map<string, Record<string, any>>();
+  for (const node of [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]) {
+    const param = deref(spec, node);
+    if (typeof param.name === 'string' && typeof param.in === 'string') params.set(`${param.in}:${param.name}`, param);
+  }
+
+  for (const param of params.values()) {
+    if (param.in === 'header' && RESERVED_HEADERS.includes(param.name.toLowerCase())) continue;
+    if (param.in === 'cookie') {
+      if (param.required) return skip(`Cookie parameter ${param.name} is not supported`);
+      warnings.push(`Cookie parameter ${param.name} was left out`);
+      continue;
+    }
+    if (param.in !== 'path' && param.in !== 'query' && param.in !== 'header') continue;
+
+    const schema = param.schema ?? jsonContent(param.content)?.schema ?? {};
+    const conflict = add(
+      param.name,
+      toProperty(spec, schema, param.description),
+      param.in,
+      param.in === 'path' || param.required === true
+    );
+    if (conflict) return skip(conflict);
+  }
+
+  if (operation.requestBody) {
+    const requestBody = deref(spec, operation.requestBody);
+    const media = jsonContent(requestBody.content);
+    const body = media ? flattenSchema(spec, media.schema) : null;
+
+    if (!body || schemaType(body) !== 'object') {
+      if (requestBody.required) return skip('Only JSON object request bodies are supported');
+      warnings.push('The request body was left out; only JSON object bodies are supported');
+    } else {
+      const bodyRequired: string[] = requestBody.required && Array.isArray(body.required) ? body.required : [];
+      for (const [name, child] of Object.entries(isPlainObject(body.properties) ? body.properties : {})) {
+        const childSchema = deref(spec, child);
+        if (childSchema.readOnly) continue;
+        const conflict = add(name, toProperty(spec, child), 'body', bodyRequired.includes(name));
+        if (conflict) return skip(conflict);
+      }
+    }
+  }
+
+  const description = [operation.summary, operation.description]
+    .filter((text): text is string => typeof text === 'string' && !!text.trim())
+    .map((text) => text.trim())
+    .join('\n\n')
+    .substring(0, MAX_DESCRIPTION_CHARS);
+
+  return {
+    key,
+    operationId,
+    skipped: null,
+    warnings,
+    tool: {
+      name: toolDisplayName(operationId, method, path),
+      description: description || null,
+      endpoint: `${server.replace(/\/+$/, '')}${path}`,
+      method,
+      parameters: { type: 'object', properties, required },
+      authentication: toAuthentication(spec, operation, warnings),
+    },
+  };
+}
+
+function toolData(tool: GeneratedTool) {
+  return {
+    ...tool,
+    parameters: tool.parameters as Prisma.InputJsonValue,
+    authentication: tool.authentication as unknown as Prisma.InputJsonValue,
+  };
+}
+
+/**
+ * Every supported operation in the spec, in document order. `baseUrl`
+ * replaces the spec's servers, for specs without an absolute one.
+ * Exported for testing.
+ */
+export function specOperations(spec: OpenApiDocument, baseUrl?: string | null): SpecOperation[] {
+  const operations: SpecOperation[] = [];
+  for (const [path, node] of Object.entries(spec.paths as Record<string, unknown>)) {
+    const pathItem = deref(spec, node);
+    for (const [field, operation] of Object.entries(pathItem)) {
+      const method = field.toUpperCase();
+      if (CUSTOM_TOOL_METHODS.includes(method as CustomToolMethod) && isPlainObject(operation)) {
+        operations.push(toOperation(spec, path, method, pathItem, operation, baseUrl ?? null));
+      }
+    }
+  }
+  return operations;
+}
+
+/**
+ * The generated fields where a tool differs from what the spec now
+ * generates. Exported for testing.
+ */
+export function changedFields(
+  existing: Record<GeneratedField, unknown>,
+  generated: GeneratedTool
+): GeneratedField[] {
+  return GENERATED_FIELDS.filter(
+    (field) => stableStringify(existing[field] ?? null) !== stableStringify(generated[field] ?? null)
+  );
+}
+
+/**
+ * Compare a spec with the tools imported from it into an integration and,
+ * when `apply` is set, create and update tools to match. `operations`
+ * (keys or operationIds) limits the import to those; `prune` deletes tools
+ * whose operation the spec no longer has.
+ */
+export async function importOpenApiSpec(params: {
+  userId: string;
+  integrationId: string;
+  spec: unknown;
+  operations?: string[];
+  serverUrl?: string | null;
+  apply?: boolean;
+  prune?: boolean;
+}): Promise<ImportResult | ImportFailure> {
+  const parsed = parseOpenApiSpec(params.spec);
+  if (!parsed.ok) {
+    return { ok: false, reason: 'invalid_spec', message: parsed.message };
+  }
+
+  const integration = await prisma.integration.findFirst({
+    where: { id: params.integrationId, userId: params.userId },
+    select: { id: true },
+  });
+  if (!integration) {
+    return { ok: false, reason: 'not_found', message: 'Integration not found' };
+  }
+
+  const userTools = await prisma.customTool.findMany({
+    where: { integration: { userId: params.userId } },
+    select: {
+      id: true,
+      integrationId: true,
+      sourceOperation: true,
+      name: true,
+      description: true,
+      endpoint: true,
+      method: true,
+      parameters: true,
+      authentication: true,
+    },
+  });
+  const imported = new Map(
+    userTools
+      .filter((tool) => tool.integrationId === integration.id && tool.sourceOperation)
+      .map((tool) => [tool.sourceOperation as string, tool])
+  );
+
+  // Tool names in use, by the tool holding each; a tool being updated frees its own
+  const namesInUse = new Map(userTools.map((tool) => [customToolName(tool.name), tool.id]));
+  const selected = params.operations?.length ? new Set(params.operations) : null;
+  let toolCount = userTools.length;
+
+  const entries: ImportEntry[] = [];
+  const seen = new Set<string>();
+  let created = 0;
+  let updated = 0;
+
+  for (const operation of specOperations(parsed.spec, params.serverUrl)) {
+    seen.add(operation.key);
+    const existing = imported.get(operation.key) ?? null;
+    const entry: ImportEntry = {
+      key: operation.key,
+      operationId: operation.operationId,
+      status: 'skipped',
+      toolName: operation.tool ? customToolName(operation.tool.name) : null,
+      toolId: existing?.id ?? null,
+      warnings: operation.warnings,
+    };
+    entries.push(entry);
+
+    if (selected && !selected.has(operation.key) && !(operation.operationId && selected.has(operation.operationId))) {
+      entry.status = 'not_selected';
+      continue;
+    }
+    const tool = operation.tool;
+    if (!tool) {
+      entry.reason = operation.skipped ?? undefined;
+      continue;
+    }
+
+    const issues = validateCustomToolInput(tool as unknown as Record<string, unknown>);
+    if (issues.length) {
+      entry.reason = issues.join('; ');
+      continue;
+    }
+    const holder = namesInUse.get(entry.toolName!);
+    if (holder && holder !== existing?.id) {
+      entry.reason = `You already have a tool named ${entry.toolName}`;
+      continue;
+    }
+
+    if (existing) {
+      const changes = changedFields(existing, tool);
+      entry.status = changes.length ? 'changed' : 'unchanged';
+      if (changes.length) entry.changes = changes;
+      if (params.apply && changes.length) {
+        await prisma.customTool.update({ where: { id: existing.id }, data: toolData(tool) });
+        updated++;
+      }
+    } else {
+      if (toolCount >= MAX_CUSTOM_TOOLS) {
+        entry.reason = `You can have up to ${MAX_CUSTOM_TOOLS} custom tools`;
+        continue;
+      }
+      toolCount++;
+      entry.status = 'new';
+      if (params.apply) {
+        const row = await prisma.customTool.create({
+          data: { ...toolData(tool), integrationId: integration.id, sourceOperation: operation.key },
+          select: { id: true },
+        });
+        entry.toolId = row.id;
+        created++;
+      }
+    }
+    namesInUse.set(entry.toolName!, entry.toolId ?? operation.key);
+  }
+
+  const gone = [...imported.entries()].filter(([key]) => !seen.has(key));
+  for (const [key, tool] of gone) {
+    entries.push({
+      key,
+      operationId: null,
+      status: 'removed',
+      toolName: customToolName(tool.name),
+      toolId: tool.id,
+      warnings: [],
+    });
+  }
+
+  let removed = 0;
+  if (params.apply && params.prune && gone.length) {
+    const result = await prisma.customTool.deleteMany({
+      where: { id: { in: gone.map(([, tool]) => tool.id) }, integration: { userId: params.userId } },
+    });
+    removed = result.count;
+  }
+
+  return { ok: true, applied: !!params.apply, operations: entries, created, updated, removed };
+}
@@ -3,6 +3,7 @@
  *
  * Manages autonomous agent execution:
  * - Polls for scheduled tasks
+ * - Evaluates task triggers
  * - Queues tasks for execution
  * - Manages worker lifecycle
  * - Provides status monitoring
@@ -11,7 +12,8 @@
 import { prisma } from '@/lib/prisma';
 import { queueAgentTask, getQueueStats } from '@/lib/queue/agent-queue';
 import { getAgentWorker, closeAgentWorker } from '@/lib/queue/agent-worker';
-import { CronExpressionParser } from 'cron-parser';
+import { checkScheduledTasks, getPriorityValue } from './scheduler';
+import { processTriggerEvents } from './triggers';
 import { AgentOrchestrator, OrchestratorConfig, OrchestratorStatus } from './types';
 
 /**
@@ -66,12 +68,14 @@ export class AgentOrchestratorImpl implements AgentOrchestrator {
     // Start worker
     this.worker = getAgentWorker();
 
-    // Initial check for scheduled tasks
+    // Initial check for scheduled tasks and triggers
     await this.checkScheduledTasks();
+    await this.checkTriggers();
 
     // Start polling loop
     this.pollTimer = setInterval(async () => {
       await this.checkScheduledTasks();
+      await this.checkTriggers();
     }, this.config.pollInterval);
 
     console.log('✅ Agent Orchestrator started');
@@ -110,47 +114,41 @@ export class AgentOrchestratorImpl implements AgentOrchestrator {
       // Reset daily stats if needed
       this.resetDailyStatsIfNeeded();
 
-      // Find tasks that are scheduled and due to run
-      const now = new Date();
-
-      const scheduledTasks = await prisma.task.findMany({
-        where: {
-          scheduleEnabled: true,
-          nextRunAt: {
-            lte: now,
-          },
-          status: {
-            in: ['pending', 'completed'], // Only run pending or previously completed tasks
-          },
-        },
-        orderBy: {
-          priority: 'desc', // Higher priority first
-        },
-        take: 50, // Process max 50 tasks per check
-      });
+      // Fire due schedules in their timezones, under their misfire and
+      // overlap policies (see scheduler.ts)
+      const results = await checkScheduledTasks();
 
-      if (scheduledTasks.length === 0) {
-        return;
+      if (results.queued || results.waiting || results.skipped || results.failed) {
+        console.log(
+          `📅 Scheduled tasks: ${results.queued} queued, ${results.waiting} waiting, ${results.skipped} skipped, ${results.failed} failed`
+        );
       }
 
-      console.log(`📅 Found ${scheduledTasks.length} scheduled tasks to run`);
+    } catch (error) {
+      console.error('Error checking scheduled tasks:', error);
+    }
+  }
 
-      // Queue each task
-      for (const task of scheduledTasks) {
-        try {
-          await this.executeTask(task.id);
-        } catch (error: any) {
-          console.error(`Failed to queue task ${task.id}:`, error);
-        }
-      }
+  /**
+   * Start tasks whose triggers match events recorded since the last check
+   */
+  private async checkTriggers(): Promise<void> {
+    try {
+      const results = await processTriggerEvents();
 
+      if (results.queued || results.skipped || results.failed) {
+        console.log(
+          `⚡ Triggers: ${results.events} events, ${results.queued} queued, ${results.skipped} skipped, ${results.failed} failed`
+        );
+      }
     } catch (error) {
-      console.error('Error checking scheduled tasks:', error);
+      console.error('Error checking task triggers:', error);
     }
   }
 
   /**
-   * Execute a specific task (queue it for execution)
+   * Execute a specific task now (queue it for execution). A manual run does
+   * not move the task's schedule.
    */
   async executeTask(taskId: string): Promise<void> {
     try {
@@ -163,37 +161,21 @@ export class AgentOrchestratorImpl implements AgentOrchestrator {
         throw new Error(`Task not found: ${taskId}`);
       }
 
+      // Reset status before queueing, so it cannot overwrite the worker's
+      await prisma.task.update({
+        where: { id: taskId },
+        data: {
+          lastRunAt: new Date(),
+          status: 'pending',
+        },
+      });
+
       // Add to queue
-      await queueAgentTask(task.userId, taskId, {
-        priority: this.getPriorityValue(task.priority),
+      await queueAgentTask(taskId, task.userId, {
+        priority: getPriorityValue(task.priority),
         retryCount: this.config.maxRetries,
       });
 
-      // Calculate next run time if task is scheduled
-      if (task.scheduleEnabled && task.schedule) {
-        const nextRunAt = this.calculateNextRunTime(task.schedule);
-
-        await prisma.task.update({
-          where: { id: taskId },
-          data: {
-            nextRunAt,
-            lastRunAt: new Date(),
-            status: 'pending', // Reset status
-          },
-        });
-
-        console.log(`⏰ Task ${taskId} scheduled for next run: ${nextRunAt.toISOString()}`);
-      } else {
-        // One-time task, just update last run
-        await prisma.task.update({
-          where: { id: taskId },
-          data: {
-            lastRunAt: new Date(),
-            status: 'pending',
-          },
-        });
-      }
-
     } catch (error: any) {
       console.error(`Failed to execute task ${taskId}:`, error);
       throw error;
@@ -233,38 +215,6 @@ export class AgentOrchestratorImpl implements AgentOrchestrator {
     };
   }
 
-  /**
-   * Calculate next run time from cron expression
-   */
-  private calculateNextRunTime(cronExpression: string): Date {
-    try {
-      const interval = CronExpressionParser.parse(cronExpression);
-      return interval.next().toDate();
-    } catch (error) {
-      console.error('Invalid cron expression:', cronExpression, error);
-      // Default to 1 day from now if cron parsing fails
-      return new Date(Date.now() + 86400000);
-    }
-  }
-
-  /**
-   * Convert priority string to numeric value
-   */
-  private getPriorityValue(priority: string | null): number {
-    switch (priority) {
-      case 'urgent':
-        return 1;
-      case 'high':
-        return 2;
-      case 'medium':
-        return 3;
-      case 'low':
-        return 4;
-      default:
-        return 3;
-    }
-  }
-
   /**
    * Reset daily statistics if it's a new day
    */
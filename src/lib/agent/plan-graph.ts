@@ -0,0 +1,241 @@
+/**
+ * Plan Graph - dependency-aware scheduling for execution plans
+ *
+ * An ExecutionPlan is a DAG: each step lists the IDs of the steps whose output
+ * it needs in `dependencies`. Steps with no path between them are independent
+ * and can run side by side — a research plan of five searches feeding one
+ * summary should take one search's worth of wall-clock time, not five.
+ *
+ * Backward compatibility: a plan in which NO step declares a dependency is
+ * treated as a strict sequence (each step depends on the one before it). That
+ * covers every plan written before dependencies were honoured — hand-built
+ * templates that omit the field, persisted AI plans that carry `[]` on every
+ * step — which were authored assuming plan order IS execution order. Running
+ * those concurrently would, for example, extract from a page before the step
+ * that navigates to it. A plan opts into parallelism by declaring at least one
+ * dependency, at which point a step without dependencies is a root.
+ */
+
+import type { ExecutionPlan, ExecutionStep } from './types';
+
+/** Default cap on steps running at once within a single task. */
+export const DEFAULT_MAX_CONCURRENT_STEPS = 3;
+
+/** Hard ceiling regardless of config — every running step holds real resources. */
+export const MAX_CONCURRENT_STEPS_LIMIT = 10;
+
+/** Thrown when a plan's dependency graph cannot be executed. Not retryable. */
+export class PlanValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid execution plan: ${issues.join('; ')}`);
+    this.name = 'PlanValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Clamp a configured concurrency to something sane. Missing, zero, negative or
+ * non-numeric values fall back to the default rather than stalling the run.
+ */
+export function resolveConcurrency(configured: number | undefined): number {
+  if (typeof configured !== 'number' || !Number.isFinite(configured) || configured < 1) {
+    return DEFAULT_MAX_CONCURRENT_STEPS;
+  }
+  return Math.min(Math.floor(configured), MAX_CONCURRENT_STEPS_LIMIT);
+}
+
+/**
+ * Turn a planner-authored dependency reference into a step ID.
+ *
+ * The planning model never sees generated step IDs, so it refers to earlier
+ * steps by number: `2`, `"2"`, `"step_2"` or `"step 2"` all mean
+ * `${taskId}_step_2`. Anything else is kept verbatim and will be reported as a
+ * missing dependency by validatePlanGraph() if it names no step.
+ */
+export function normalizeDependencyRef(taskId: string, ref: unknown): string {
+  if (typeof ref === 'number' && Number.isInteger(ref)) {
+    return `${taskId}_step_${ref}`;
+  }
+  if (typeof ref === 'string') {
+    const match = ref.trim().match(/^(?:step[_\s-]?)?(\d+)$/i);
+    if (match) return `${taskId}_step_${Number(match[1])}`;
+    return ref.trim();
+  }
+  return String(ref);
+}
+
+/** Whether any step declares a dependency — see the compatibility note above. */
+export function isGraphPlan(plan: Pick<ExecutionPlan, 'steps'>): boolean {
+  return plan.steps.some((step) => (step.dependencies?.length ?? 0) > 0);
+}
+
+/**
+ * The dependencies each step is actually scheduled against, keyed by step ID.
+ * For a sequential (legacy) plan this is the implicit previous-step chain.
+ */
+export function effectiveDependencies(plan: Pick<ExecutionPlan, 'steps'>): Map<string, string[]> {
+  const graph = isGraphPlan(plan);
+  const deps = new Map<string, string[]>();
+
+  plan.steps.forEach((step, index) => {
+    if (graph) {
+      deps.set(step.id, [...new Set(step.dependencies ?? [])]);
+    } else {
+      deps.set(step.id, index > 0 ? [plan.steps[index - 1].id] : []);
+    }
+  });
+
+  return deps;
+}
+
+/**
+ * Check that the plan's graph can run to completion and return a topological
+ * order of step IDs. Ties are broken by plan order, so a sequential plan comes
+ * back in exactly the order it was written.
+ *
+ * Throws PlanValidationError listing every duplicate ID, self-dependency,
+ * missing dependency and cycle found — all at once, so a bad plan is rejected
+ * with the whole story rather than one problem per attempt.
+ */
+export function validatePlanGraph(plan: Pick<ExecutionPlan, 'steps'>): string[] {
+  const issues: string[] = [];
+  const ids = new Set<string>();
+
+  for (const step of plan.steps) {
+    if (ids.has(step.id)) {
+      issues.push(`duplicate step id "${step.id}"`);
+    }
+    ids.add(step.id);
+  }
+
+  const deps = effectiveDependencies(plan);
+
+  for (const step of plan.steps) {
+    for (const dep of deps.get(step.id) ?? []) {
+      if (dep === step.id) {
+        issues.push(`step ${step.stepNumber} depends on itself`);
+      } else if (!ids.has(dep)) {
+        issues.push(`step ${step.stepNumber} depends on unknown step "${dep}"`);
+      }
+    }
+  }
+
+  if (issues.length) {
+    throw new PlanValidationError(issues);
+  }
+
+  // Kahn's algorithm, always taking the earliest ready step in plan order.
+  const remaining = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+  for (const step of plan.steps) {
+    const stepDeps = deps.get(step.id) ?? [];
+    remaining.set(step.id, stepDeps.length);
+    for (const dep of stepDeps) {
+      dependents.set(dep, [...(dependents.get(dep) ?? []), step.id]);
+    }
+  }
+
+  const order: string[] = [];
+  const placed = new Set<string>();
+  while (order.length < plan.steps.length) {
+    const next = plan.steps.find((step) => !placed.has(step.id) && remaining.get(step.id) === 0);
+    if (!next) break;
+
+    order.push(next.id);
+    placed.add(next.id);
+    for (const dependent of dependents.get(next.id) ?? []) {
+      remaining.set(dependent, (remaining.get(dependent) ?? 0) - 1);
+    }
+  }
+
+  if (order.length < plan.steps.length) {
+    const stuck = plan.steps
+      .filter((step) => !placed.has(step.id))
+      .map((step) => step.stepNumber);
+    throw new PlanValidationError([`dependency cycle among steps ${stuck.join(', ')}`]);
+  }
+
+  return order;
+}
+
+export interface PlanGraphRunOptions {
+  /** Maximum steps in flight at once (already clamped by the caller). */
+  concurrency: number;
+  /** Step IDs already finished in an earlier run — skipped, but satisfy dependents. */
+  completed?: Iterable<string>;
+  /** Checked before every launch; once true, nothing new starts. */
+  shouldStop: () => boolean;
+  /** Runs one step to completion. Rejecting fails the run. */
+  runStep: (step: ExecutionStep) => Promise<void>;
+}
+
+/**
+ * Run a plan's steps as soon as their dependencies complete, at most
+ * `concurrency` at a time.
+ *
+ * On the first failure no further steps are launched; steps already in flight
+ * are allowed to settle (their side effects have happened either way, and
+ * abandoning them would lose their trace entries), then the FIRST error is
+ * rethrown unchanged so callers can still `instanceof` it. A stop request
+ * behaves the same way and rejects with "Execution cancelled".
+ */
+export async function runPlanGraph(
+  plan: Pick<ExecutionPlan, 'steps'>,
+  options: PlanGraphRunOptions
+): Promise<void> {
+  const order = validatePlanGraph(plan);
+  const deps = effectiveDependencies(plan);
+  const stepsById = new Map(plan.steps.map((step) => [step.id, step]));
+
+  const done = new Set<string>(options.completed ?? []);
+  const pending = order.filter((id) => !done.has(id));
+  const inFlight = new Map<string, Promise<{ id: string; failed: boolean; error?: unknown }>>();
+  let firstError: { error: unknown } | undefined;
+  let stopped = false;
+
+  while (pending.length || inFlight.size) {
+    if (!firstError && !stopped) {
+      while (inFlight.size < options.concurrency) {
+        if (options.shouldStop()) {
+          stopped = true;
+          break;
+        }
+
+        const readyIndex = pending.findIndex((id) =>
+          (deps.get(id) ?? []).every((dep) => done.has(dep))
+        );
+        if (readyIndex === -1) break;
+
+        const [id] = pending.splice(readyIndex, 1);
+        const step = stepsById.get(id)!;
+        inFlight.set(
+          id,
+          options.runStep(step).then(
+            () => ({ id, failed: false }),
+            (error) => ({ id, failed: true, error })
+          )
+        );
+      }
+    }
+
+    if (!inFlight.size) break;
+
+    const settled = await Promise.race(inFlight.values());
+    inFlight.delete(settled.id);
+
+    if (settled.failed) {
+      firstError ??= { error: settled.error };
+    } else {
+      done.add(settled.id);
+    }
+  }
+
+  if (firstError) throw firstError.error;
+  if (stopped) throw new Error('Execution cancelled');
+  if (pending.length) {
+    // Unreachable for a validated graph; guards against a bad `completed` set.
+    throw new PlanValidationError([`steps ${pending.join(', ')} can never become ready`]);
+  }
+}
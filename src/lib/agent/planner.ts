@@ -0,0 +1,445 @@
+/**
+ * Agent Planner - AI-authored execution plans
+ *
+ * createPlan() turns a goal into an ExecutionPlan before anything runs.
+ * refinePlan() is the adaptive half: when a step fails, or returns nothing for
+ * steps that were counting on it, the executor hands the planner the trace so
+ * far and gets back a replacement for every step that has not completed.
+ * Completed steps are never rewritten — their side effects already happened —
+ * so a revision can only change what is still to come.
+ *
+ * Every plan the model writes, first draft or revision, is checked against the
+ * ToolRegistry and the dependency graph before the executor sees it. A model
+ * that invents a tool or a cycle gets its plan rejected here, not at step 7.
+ */
+
+import { aiRouter } from '@/lib/ai-providers';
+import type {
+  AgentPlanner,
+  AgentTask,
+  AgentTool,
+  ExecutionPlan,
+  ExecutionStep,
+  ExecutionTrace,
+  PlanRefinementContext,
+  PlanRevision,
+  ToolResult,
+} from './types';
+import { ToolRegistry } from './tools/registry';
+import { PlanValidationError, normalizeDependencyRef, validatePlanGraph } from './plan-graph';
+import { validateStepReferences } from './step-references';
+import {
+  CONTROL_TOOL,
+  controlTypeOf,
+  flattenSteps,
+  isControlStep,
+  parseControlFlow,
+  validateControlSteps,
+} from './control-flow';
+
+/** Default cap on revisions per task when config.maxReplans is not set. */
+export const DEFAULT_MAX_REPLANS = 2;
+
+/** How much of each completed step's output the revision prompt may quote. */
+const TRACE_OUTPUT_PREVIEW_CHARS = 500;
+
+/**
+ * Thrown when a step succeeded but returned nothing, so the steps that depend
+ * on it were planned around data that does not exist. Only raised when
+ * adaptive replanning is on; the step itself counts as completed.
+ */
+export class PlanInvalidatedError extends Error {
+  readonly stepNumber: number;
+
+  constructor(stepNumber: number, reason: string) {
+    super(`Step ${stepNumber} invalidated the rest of the plan: ${reason}`);
+    this.name = 'PlanInvalidatedError';
+    this.stepNumber = stepNumber;
+  }
+}
+
+/**
+ * Whether a successful result carries nothing a dependent step could use.
+ * Exported for testing.
+ */
+export function isEmptyResult(data: unknown): boolean {
+  if (data === null || data === undefined) return true;
+  if (typeof data === 'string') return data.trim().length === 0;
+  if (Array.isArray(data)) return data.length === 0;
+  if (typeof data === 'object') return Object.keys(data as object).length === 0;
+  return false;
+}
+
+const STEP_FORMAT = `Each step should have:
+- action: The tool action to perform (e.g., "browser.navigate", "email.send")
+- description: Human-readable description of what this step does
+- tool: The tool name
+- params: Object with parameters for the tool
+- dependencies: Array of step numbers (1-based) that must finish before this step starts
+- requiresApproval: true if this step needs human approval
+
+Steps run in parallel unless one depends on another, so list every step whose
+result or side effect this step relies on, and use [] only for steps that can
+start immediately.
+
+To use an earlier step's result in params, write a reference instead of
+guessing the value: {{steps.step_N.data.field}} is the "field" of step N's
+result data. Paths may use .key, ['key'], [0], [-1] (last) and [*] (every
+element). A param that is only a reference keeps the value's type; add a type
+when one is needed, e.g. "{{steps.step_3.data.price | number}}" (types:
+string, number, integer, boolean, array, object, json). A step may only
+reference steps listed in its dependencies (directly or through them).
+
+For branching and repetition, write a control step instead of a tool step. It
+has an action and description but no tool or params, and holds its nested
+steps inline:
+- {"action": "control.if", "condition": {...}, "then": [steps], "else": [steps]}
+- {"action": "control.forEach", "items": "{{steps.step_N.data.links}}", "body": [steps], "maxIterations": 20}
+- {"action": "control.while", "condition": {...}, "body": [steps], "maxIterations": 10}
+A condition is {"left": ..., "operator": ..., "right": ...} with operator one
+of equals, notEquals, contains, greaterThan, lessThan, exists (no right);
+either side may be a reference. Inside a forEach body the current element is
+{{steps.step_N.data.item}} and its position {{steps.step_N.data.index}}, N
+being the forEach step. A while step runs its body, then repeats it while the
+condition holds. Nested steps run in order, have no dependencies, and may
+reference the steps before them. Steps are numbered in the order they appear,
+nested steps included: a forEach written as step 2 with two body steps makes
+them steps 3 and 4 and the step after the forEach step 5. Later steps can
+reference a loop's {{steps.step_N.data.results}} (the last body step's result
+for each iteration) or an if's {{steps.step_N.data.result}}.`;
+
+/**
+ * Pull the JSON array of steps out of a model response and turn it into
+ * ExecutionSteps numbered from `firstStepNumber`, nested control-flow steps
+ * numbered depth-first in the order they were written.
+ * Exported for testing.
+ */
+export function parsePlanSteps(content: string, taskId: string, firstStepNumber = 1): ExecutionStep[] {
+  // Prefer a fenced block; otherwise take the outermost bracketed span, which
+  // unlike a lazy match survives nested arrays such as `dependencies`.
+  const fenced = content.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+  const jsonString = fenced ? fenced[1] : content.match(/\[[\s\S]*\]/)?.[0];
+
+  if (!jsonString) {
+    throw new Error('Failed to parse plan from AI response');
+  }
+
+  const stepsData = JSON.parse(jsonString);
+  if (!Array.isArray(stepsData)) {
+    throw new Error('Failed to parse plan from AI response: expected a JSON array of steps');
+  }
+
+  let nextStepNumber = firstStepNumber;
+
+  // Nested steps run in order inside their control step, so only top-level
+  // steps carry dependencies
+  const toStep = (step: any, nested: boolean): ExecutionStep => {
+    const stepNumber = nextStepNumber++;
+    const dependencies = !nested && Array.isArray(step.dependencies)
+      ? step.dependencies.map((ref: unknown) => normalizeDependencyRef(taskId, ref))
+      : [];
+
+    const controlType = controlTypeOf(step);
+    if (controlType) {
+      return {
+        id: `${taskId}_step_${stepNumber}`,
+        stepNumber,
+        action: `control.${controlType}`,
+        description: step.description || controlType,
+        tool: CONTROL_TOOL,
+        params: {},
+        dependencies,
+        retryable: false,
+        requiresApproval: false,
+        control: parseControlFlow(step, controlType, (children) =>
+          Array.isArray(children) ? children.map((child) => toStep(child, true)) : []
+        ),
+      };
+    }
+
+    return {
+      id: `${taskId}_step_${stepNumber}`,
+      stepNumber,
+      action: step.action,
+      description: step.description,
+      tool: step.tool,
+      params: step.params || {},
+      dependencies,
+      retryable: step.retryable !== false,
+      requiresApproval: step.requiresApproval || false,
+      estimatedCredits: step.estimatedCredits || 100,
+      estimatedDuration: step.estimatedDuration || 5000,
+    };
+  };
+
+  return stepsData.map((step: any) => toStep(step, false));
+}
+
+/**
+ * Check every step names a registered tool, returning one issue per step that
+ * does not. Planners often put the category in `tool` and the full name in
+ * `action` ("browser" / "browser.navigate"); when `action` is the registered
+ * name the step is corrected in place rather than rejected. Steps nested in
+ * control-flow steps are checked too.
+ * Exported for testing.
+ */
+export function resolveStepTools(steps: ExecutionStep[], toolNames: Set<string>): string[] {
+  const issues: string[] = [];
+
+  for (const step of flattenSteps(steps)) {
+    if (isControlStep(step) || toolNames.has(step.tool)) continue;
+    if (toolNames.has(step.action)) {
+      step.tool = step.action;
+      continue;
+    }
+    issues.push(`step ${step.stepNumber} uses unknown tool "${step.tool}"`);
+  }
+
+  return issues;
+}
+
+/**
+ * Build the revised plan: completed steps verbatim, then the new tail.
+ * Exported for testing.
+ */
+export function mergeRevisedTail(
+  plan: ExecutionPlan,
+  completedStepIds: string[],
+  tail: ExecutionStep[],
+  revision: Omit<PlanRevision, 'revision' | 'replacedStepIds' | 'addedStepIds'>
+): ExecutionPlan {
+  const completed = new Set(completedStepIds);
+  const kept = plan.steps.filter((step) => completed.has(step.id));
+  const replaced = plan.steps.filter((step) => !completed.has(step.id));
+  const revisions = plan.revisions || [];
+
+  const steps = [...kept, ...tail];
+
+  return {
+    ...plan,
+    steps,
+    totalSteps: steps.length,
+    revisions: [
+      ...revisions,
+      {
+        ...revision,
+        revision: revisions.length + 1,
+        replacedStepIds: replaced.map((step) => step.id),
+        addedStepIds: tail.map((step) => step.id),
+      },
+    ],
+  };
+}
+
+function describeTraceEntry(entry: ExecutionTrace): string {
+  const step = `Step ${entry.stepNumber}${entry.iteration?.length ? ` [iteration ${entry.iteration.join('.')}]` : ''}`;
+  if (entry.status === 'skipped') {
+    return `- ${step} (${entry.tool}) skipped`;
+  }
+  if (entry.status !== 'completed') {
+    return `- ${step} (${entry.tool}) FAILED: ${entry.error || 'unknown error'}`;
+  }
+  const output = JSON.stringify(entry.output ?? null);
+  const preview = output.length > TRACE_OUTPUT_PREVIEW_CHARS
+    ? output.slice(0, TRACE_OUTPUT_PREVIEW_CHARS) + '…'
+    : output;
+  return `- ${step} (${entry.tool}) completed: ${preview}`;
+}
+
+/**
+ * Planner backed by the AI router
+ */
+export class AIPlanner implements AgentPlanner {
+  private model: string;
+  private toolRegistry: ToolRegistry;
+
+  constructor(model: string, toolRegistry: ToolRegistry) {
+    this.model = model;
+    this.toolRegistry = toolRegistry;
+  }
+
+  /**
+   * Create execution plan using AI
+   */
+  async createPlan(task: AgentTask, availableTools: AgentTool[]): Promise<ExecutionPlan> {
+    const response = await aiRouter.chat(this.model, {
+      messages: [{ role: 'user', content: this.createPlanningPrompt(task, availableTools) }],
+      maxTokens: 4096,
+    });
+
+    const steps = parsePlanSteps(response.content, task.id);
+    this.validateSteps({ steps }, availableTools);
+
+    return {
+      taskId: task.id,
+      steps,
+      totalSteps: steps.length,
+      estimatedCredits: 0, // Calculated by the executor
+      estimatedDuration: 0, // Calculated by the executor
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Replace every unfinished step of `plan` with a revised tail written in
+   * light of the trace so far. `currentStep` is the step whose outcome
+   * prompted the revision and `stepResult` that outcome.
+   *
+   * Throws if the model cannot produce a valid tail; the caller decides what
+   * that means for the task (the executor fails it with the original error).
+   */
+  async refinePlan(
+    plan: ExecutionPlan,
+    currentStep: number,
+    stepResult: ToolResult,
+    context?: PlanRefinementContext
+  ): Promise<ExecutionPlan> {
+    if (!context) {
+      throw new Error('refinePlan requires the task and trace to revise a plan');
+    }
+
+    const availableTools = this.toolRegistry.getAllTools();
+    const firstStepNumber = Math.max(0, ...flattenSteps(plan.steps).map((step) => step.stepNumber)) + 1;
+
+    const response = await aiRouter.chat(this.model, {
+      messages: [{
+        role: 'user',
+        content: this.createRefinementPrompt(plan, currentStep, stepResult, context, availableTools, firstStepNumber),
+      }],
+      maxTokens: 4096,
+    });
+
+    const tail = parsePlanSteps(response.content, context.task.id, firstStepNumber);
+    if (!tail.length) {
+      throw new Error('Planner found no way to complete the goal from here');
+    }
+
+    const revised = mergeRevisedTail(plan, context.completedStepIds, tail, {
+      createdAt: new Date(),
+      reason: context.reason,
+      stepNumber: currentStep,
+    });
+
+    this.validateSteps(revised, availableTools);
+    return revised;
+  }
+
+  /**
+   * Reject unknown tools, malformed control-flow steps, broken dependency
+   * graphs and step references that could run before the step they read from.
+   */
+  private validateSteps(plan: Pick<ExecutionPlan, 'steps'>, availableTools: AgentTool[]): void {
+    const issues = [
+      ...resolveStepTools(plan.steps, new Set(availableTools.map((tool) => tool.name))),
+      ...validateControlSteps(plan.steps),
+    ];
+    if (issues.length) {
+      throw new PlanValidationError(issues);
+    }
+    validatePlanGraph(plan);
+
+    const referenceIssues = validateStepReferences(plan);
+    if (referenceIssues.length) {
+      throw new PlanValidationError(referenceIssues);
+    }
+  }
+
+  /**
+   * Create planning prompt for AI
+   */
+  private createPlanningPrompt(task: AgentTask, tools: AgentTool[]): string {
+    return `You are an AI agent planner. Create a step-by-step execution plan to achieve the following goal:
+
+GOAL: ${task.goal}
+
+TASK TYPE: ${task.type}
+
+AVAILABLE TOOLS:
+${tools.map(t => `- ${t.name} (${t.category}): ${t.description}`).join('\n')}
+
+CONTEXT:
+${JSON.stringify(task.context || {}, null, 2)}
+
+Create a detailed execution plan as a JSON array of steps. ${STEP_FORMAT}
+
+Example:
+\`\`\`json
+[
+  {
+    "action": "browser.navigate",
+    "description": "Navigate to the target website",
+    "tool": "browser.navigate",
+    "params": { "url": "https://example.com" },
+    "dependencies": [],
+    "requiresApproval": false
+  },
+  {
+    "action": "browser.extract",
+    "description": "Extract price information",
+    "tool": "browser.extract",
+    "params": { "selector": ".price" },
+    "dependencies": [1],
+    "requiresApproval": false
+  },
+  {
+    "action": "email.send",
+    "description": "Email the extracted price",
+    "tool": "email.send",
+    "params": {
+      "to": "me@example.com",
+      "subject": "Current price",
+      "body": "The price is now {{steps.step_2.data.text}}"
+    },
+    "dependencies": [2],
+    "requiresApproval": true
+  }
+]
+\`\`\`
+
+Return ONLY the JSON array, no other text.`;
+  }
+
+  /**
+   * Create the prompt asking for a replacement tail
+   */
+  private createRefinementPrompt(
+    plan: ExecutionPlan,
+    currentStep: number,
+    stepResult: ToolResult,
+    context: PlanRefinementContext,
+    tools: AgentTool[],
+    firstStepNumber: number
+  ): string {
+    const completed = new Set(context.completedStepIds);
+    const unfinished = plan.steps.filter((step) => !completed.has(step.id));
+    const trigger = plan.steps.find((step) => step.stepNumber === currentStep);
+
+    return `You are an AI agent planner revising a plan that went wrong partway through.
+
+GOAL: ${context.task.goal}
+
+WHAT HAPPENED:
+Step ${currentStep}${trigger ? ` (${trigger.tool}: ${trigger.description})` : ''} ${
+      stepResult.success ? 'succeeded but' : 'failed:'
+    } ${context.reason}
+
+EXECUTION SO FAR:
+${context.trace.map(describeTraceEntry).join('\n') || '- (nothing has run yet)'}
+
+UNFINISHED STEPS OF THE CURRENT PLAN (these will be discarded):
+${unfinished.map((step) => `- Step ${step.stepNumber} (${step.tool}): ${step.description}`).join('\n') || '- (none)'}
+
+AVAILABLE TOOLS:
+${tools.map(t => `- ${t.name} (${t.category}): ${t.description}`).join('\n')}
+
+Write the steps that should run from here to still achieve the goal, as a JSON
+array. ${STEP_FORMAT}
+
+Your steps are numbered from ${firstStepNumber} in the order you write them.
+Dependencies may name completed steps (their results are available to
+references) or your own new steps. Do not repeat completed steps, and do not repeat the failing call
+unchanged. Return [] only if the goal cannot be achieved from here.
+
+Return ONLY the JSON array, no other text.`;
+  }
+}
@@ -8,6 +8,7 @@
  */
 
 import { withRenderPage } from './puppeteer-pool';
+import { createRequestGuard, type EgressPolicy } from '@/lib/egress';
 import { getTheme, buildPdfPageCss } from './document-theme';
 import type {
   DocumentSection,
@@ -159,11 +160,22 @@ function buildHeaderFooterTemplates(title: string) {
   return { headerTemplate, footerTemplate };
 }
 
-export async function renderHtmlToPdf(spec: PdfRenderInput): Promise<Buffer> {
+/**
+ * Image URLs in the spec are loaded by Chromium, so every request the page
+ * makes is checked against `egressPolicy` (see lib/egress.ts) first.
+ */
+export async function renderHtmlToPdf(spec: PdfRenderInput, egressPolicy?: EgressPolicy): Promise<Buffer> {
   const html = buildDocumentHtml(spec);
   const { headerTemplate, footerTemplate } = buildHeaderFooterTemplates(spec.title);
+  const guard = createRequestGuard(egressPolicy);
 
   return withRenderPage(async (page) => {
+    await page.setRequestInterception(true);
+    page.on('request', (request) => {
+      void guard(request.url())
+        .then((blocked) => (blocked ? request.abort('blockedbyclient') : request.continue()))
+        .catch(() => {});
+    });
     await page.setContent(html, { waitUntil: 'networkidle0' });
     // Belt-and-suspenders: networkidle0 covers most cases, but explicitly
     // wait for any <img> tags to finish decoding before printing, since a
@@ -0,0 +1,187 @@
+/**
+ * Run State - what a task remembers from one run to the next
+ *
+ * A scheduled monitor starts every run from a blank context, so "alert only
+ * if the price changed since last time" used to be left to the prompt. Two
+ * things now carry over instead:
+ *
+ *   Task.runState    a JSON object the plan reads with state.get and writes
+ *                    with state.set (see tools/state.ts). Writes are saved at
+ *                    once, so they survive a crash or a pause mid-run.
+ *   Task.resultDiff  how the run's result differs from the previous
+ *                    successful run's, worked out when a run completes. The
+ *                    task page shows it as "what changed since last run".
+ *
+ * A run's result is the output of its last top-level step. Task.result keeps
+ * the last successful run's: runs that fail, pause or are cancelled leave it
+ * alone, which makes it the "previous" a run is compared with. Plan steps get
+ * the same comparison before the run ends from state.compare.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { ResultChange, ResultDiff } from './types';
+import { isStoredOutput, loadToolOutput, parseStoredContent } from './tool-outputs';
+
+/** Most the state may hold, as JSON. It is memory, not storage. */
+export const MAX_RUN_STATE_CHARS = 64_000;
+
+/** Differences listed before the rest are only counted. */
+export const MAX_RESULT_CHANGES = 100;
+
+/** Values longer than this, as JSON, are cut in a diff. */
+const MAX_CHANGE_VALUE_CHARS = 500;
+
+export type RunState = Record<string, unknown>;
+
+export type RunStateFailureReason = 'not_found' | 'too_large';
+
+export type RunStateResult =
+  | { ok: true; state: RunState }
+  | { ok: false; reason: RunStateFailureReason; message: string };
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+function asState(value: unknown): RunState {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as RunState) : {};
+}
+
+/**
+ * What a task carries into this run: its saved state and the last successful
+ * run's result. Null when there is no such task of the user's (chat turns
+ * have none).
+ */
+export async function loadRunMemory(taskId: string, userId: string) {
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, userId },
+    select: { runState: true, result: true },
+  });
+  if (!task) return null;
+
+  return {
+    state: asState(task.runState),
+    // Null on a task's first run: a result is only ever saved from a run
+    previousResult: task.result === null ? null : await readStored(task.result, userId),
+  };
+}
+
+/**
+ * Merge `values` into the task's state; a null value removes its key. The
+ * row is locked while it is read and written, so parallel steps do not lose
+ * each other's writes.
+ */
+export async function updateRunState(
+  taskId: string,
+  userId: string,
+  values: Record<string, unknown>
+): Promise<RunStateResult> {
+  return prisma.$transaction(async (tx) => {
+    const rows = await tx.$queryRaw<{ runState: unknown }[]>`
+      SELECT "runState" FROM "Task" WHERE "id" = ${taskId} AND "userId" = ${userId} FOR UPDATE
+    `;
+    if (!rows.length) {
+      return { ok: false as const, reason: 'not_found' as const, message: 'State is only kept for tasks' };
+    }
+
+    const state = { ...asState(rows[0].runState) };
+    for (const [key, value] of Object.entries(values)) {
+      if (value === null) delete state[key];
+      else state[key] = value;
+    }
+
+    const size = JSON.stringify(state).length;
+    if (size > MAX_RUN_STATE_CHARS) {
+      return {
+        ok: false as const,
+        reason: 'too_large' as const,
+        message: `State would be ${size} characters, over the ${MAX_RUN_STATE_CHARS} limit; keep only what the next run needs`,
+      };
+    }
+
+    await tx.task.update({ where: { id: taskId }, data: { runState: state as any } });
+    return { ok: true as const, state };
+  });
+}
+
+/**
+ * A stored output's handle (see tool-outputs.ts) read back whole, so results
+ * are compared by content rather than by handle. Anything else, or a handle
+ * whose output has expired, as it is.
+ */
+export async function readStored(value: unknown, userId: string): Promise<unknown> {
+  if (!isStoredOutput(value)) return value;
+  const row = await loadToolOutput(value.storedOutput.id, userId);
+  return row ? parseStoredContent(row.format, row.content) : value;
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+function pathTo(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${parent}.${key}` : `${parent}[${JSON.stringify(key)}]`;
+}
+
+function shown(value: unknown): unknown {
+  const text = JSON.stringify(value);
+  if (text === undefined || text.length <= MAX_CHANGE_VALUE_CHARS) return value;
+  return `${text.slice(0, MAX_CHANGE_VALUE_CHARS)}…`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Every difference between two results, in document order: objects are compared
+ * key by key and arrays index by index, anything else by value. Up to
+ * MAX_RESULT_CHANGES are listed; `total` counts them all.
+ * Exported for testing.
+ */
+export function diffResults(before: unknown, after: unknown): { changes: ResultChange[]; total: number } {
+  const changes: ResultChange[] = [];
+  let total = 0;
+  const add = (change: ResultChange) => {
+    total++;
+    if (changes.length < MAX_RESULT_CHANGES) changes.push(change);
+  };
+
+  const walk = (a: unknown, b: unknown, path: string) => {
+    if (Array.isArray(a) && Array.isArray(b)) {
+      for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        if (i >= a.length) add({ path: pathTo(path, i), kind: 'added', after: shown(b[i]) });
+        else if (i >= b.length) add({ path: pathTo(path, i), kind: 'removed', before: shown(a[i]) });
+        else walk(a[i], b[i], pathTo(path, i));
+      }
+    } else if (isPlainObject(a) && isPlainObject(b)) {
+      for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+        if (!(key in b)) add({ path: pathTo(path, key), kind: 'removed', before: shown(a[key]) });
+        else if (!(key in a)) add({ path: pathTo(path, key), kind: 'added', after: shown(b[key]) });
+        else walk(a[key], b[key], pathTo(path, key));
+      }
+    } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+      add({ path, kind: 'changed', before: shown(a), after: shown(b) });
+    }
+  };
+
+  walk(before, after, '$');
+  return { changes, total };
+}
+
+/**
+ * How `result` differs from the task's last successful result. Call before
+ * the new result is saved over it. Null when the task is not found.
+ */
+export async function diffWithPreviousRun(taskId: string, userId: string, result: unknown): Promise<ResultDiff | null> {
+  const memory = await loadRunMemory(taskId, userId);
+  if (!memory) return null;
+
+  if (memory.previousResult === null) {
+    return { changed: false, changes: [], total: 0, firstRun: true };
+  }
+
+  const { changes, total } = diffResults(memory.previousResult, await readStored(result, userId));
+  return { changed: total > 0, changes, total, firstRun: false };
+}
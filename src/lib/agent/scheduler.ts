@@ -0,0 +1,649 @@
+/**
+ * Task Scheduler - cron schedules for Tasks
+ *
+ * A scheduled Task has a cron `schedule` evaluated in its `timezone`, so
+ * "0 9 * * *" is 9 AM local time on both sides of a DST change, and the
+ * `nextRunAt` that is due next. checkScheduledTasks() runs every minute from
+ * the orchestrator and from /api/cron/check-scheduled-tasks; when both are
+ * running, each due task is claimed by one of them.
+ *
+ * Every occurrence becomes a ScheduledRun row, whether it ran or not, which
+ * makes up the schedule's run history:
+ *
+ *   waiting    held back until the task's previous run is over
+ *   queued     sent to the agent queue
+ *   running    picked up by the agent worker
+ *   completed, failed, cancelled, awaiting_approval, paused
+ *              how the worker left it
+ *   skipped    never run; `reason` says why
+ *
+ * misfirePolicy decides what happens to occurrences missed while nothing was
+ * checking (more than MISFIRE_GRACE_MS late):
+ *
+ *   skip      drop them; only an occurrence still on time runs
+ *   run_once  one run stands in for all of them
+ *   run_all   run each, up to the latest maxCatchUpRuns, one after another
+ *
+ * overlapPolicy decides what happens when an occurrence comes due while the
+ * task's previous run is still going:
+ *
+ *   skip             drop it
+ *   queue            run it once the previous run is over
+ *   cancel_previous  cancel the previous run, then run it once that stops
+ *
+ * At most one run waits per task: an occurrence that comes due while one is
+ * already waiting is skipped.
+ *
+ * Cancelling marks the previous ScheduledRun cancelled and asks the worker
+ * to stop the task (see cancellation.ts), which it does mid-step; a run
+ * still in the queue is dropped when the worker picks it up. A task paused
+ * or awaiting approval has nothing running to stop, so it is cancelled on
+ * the spot and its approval requests withdrawn.
+ */
+
+import type { ScheduledRun, Task } from '@prisma/client';
+import { CronExpressionParser } from 'cron-parser';
+import { prisma } from '@/lib/prisma';
+import { hasEnoughCredits } from '@/lib/credits';
+import { queueAgentTask } from '@/lib/queue/agent-queue';
+import { requestTaskStop } from './cancellation';
+import { withdrawTaskApprovals } from './approval-inbox';
+
+export const MISFIRE_POLICIES = ['skip', 'run_once', 'run_all'] as const;
+export type MisfirePolicy = (typeof MISFIRE_POLICIES)[number];
+
+export const OVERLAP_POLICIES = ['skip', 'queue', 'cancel_previous'] as const;
+export type OverlapPolicy = (typeof OVERLAP_POLICIES)[number];
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+/** An occurrence found this late or less is on time, not missed. */
+export const MISFIRE_GRACE_MS = 5 * 60 * 1000;
+
+export const MAX_CATCH_UP_RUNS = 20;
+export const MAX_PREVIEW_RUNS = 50;
+
+/** Most missed occurrences counted for one task in one check. */
+const MAX_MISSED_SCAN = 1000;
+
+/** Task statuses that mean its last run is not over. */
+export const ACTIVE_TASK_STATUSES = ['planning', 'executing', 'paused', 'awaiting_approval'];
+
+/** Active task statuses with no worker running the task. */
+const PARKED_TASK_STATUSES = ['paused', 'awaiting_approval'];
+
+/** ScheduledRun statuses between handing a run to the worker and its end. */
+const ACTIVE_RUN_STATUSES = ['queued', 'running'];
+
+// ============================================================================
+// CRON EVALUATION
+// ============================================================================
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Occurrences of a schedule strictly after `after`, in `timezone`. Throws on
+ * an invalid expression or zone.
+ *
+ * The expression is evaluated against the zone's wall-clock time rather than
+ * by cron-parser's own `tz` option, which skips a day's occurrence when it
+ * starts searching before a spring-forward change. A time that does not
+ * exist that day (02:30 when clocks jump from 02:00 to 03:00) runs as late
+ * as the jump (03:30), and one that happens twice when clocks go back runs
+ * the first time only.
+ */
+function* occurrencesAfter(schedule: string, timezone: string, after: Date): Generator<Date> {
+  const interval = CronExpressionParser.parse(schedule, {
+    currentDate: new Date(toWallClock(after.getTime(), timezone)),
+    tz: 'UTC',
+  });
+
+  let last = after.getTime();
+  for (;;) {
+    const instant = fromWallClock(interval.next().getTime(), timezone);
+    if (instant > last) {
+      last = instant;
+      yield new Date(instant);
+    }
+  }
+}
+
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * An instant's wall-clock time in a zone, as the UTC instant with the same
+ * reading.
+ */
+function toWallClock(instant: number, timezone: string): number {
+  let format = wallClockFormats.get(timezone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    wallClockFormats.set(timezone, format);
+  }
+
+  const parts = Object.fromEntries(
+    format.formatToParts(new Date(instant)).map((part) => [part.type, Number(part.value)])
+  );
+
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, instant % 1000);
+}
+
+/**
+ * The instant a zone's clocks read `wall` (see toWallClock), the first of two
+ * when clocks go back, or shifted forward by the gap when they jump past it.
+ */
+function fromWallClock(wall: number, timezone: string): number {
+  const DAY = 24 * 60 * 60 * 1000;
+  const candidates = [wall - DAY, wall + DAY].map((probe) => wall - (toWallClock(probe, timezone) - probe));
+  const exact = candidates.filter((instant) => toWallClock(instant, timezone) === wall);
+
+  return exact.length ? Math.min(...exact) : Math.max(...candidates);
+}
+
+/**
+ * The next `count` occurrences of a schedule strictly after `after`, in
+ * `timezone`. Throws on an invalid expression.
+ */
+export function nextRunTimes(schedule: string, timezone: string, after: Date, count: number): Date[] {
+  const times: Date[] = [];
+  for (const at of occurrencesAfter(schedule, timezone, after)) {
+    times.push(at);
+    if (times.length >= count) break;
+  }
+  return times;
+}
+
+/**
+ * Occurrences due by `now`, starting with the task's nextRunAt. Exported for
+ * testing.
+ */
+export function dueOccurrences(schedule: string, timezone: string, nextRunAt: Date, now: Date): Date[] {
+  const due = [nextRunAt];
+
+  for (const at of occurrencesAfter(schedule, timezone, nextRunAt)) {
+    if (at > now || due.length >= MAX_MISSED_SCAN) break;
+    due.push(at);
+  }
+
+  return due;
+}
+
+/**
+ * Which due occurrences run and which are skipped, under the misfire policy.
+ * Only the latest on-time occurrence runs under skip, only the latest under
+ * run_once, and the latest maxCatchUpRuns under run_all. Exported for
+ * testing.
+ */
+export function planOccurrences(
+  due: Date[],
+  now: Date,
+  policy: MisfirePolicy,
+  maxCatchUpRuns: number
+): { run: Date[]; skipped: Date[] } {
+  let run: Date[];
+  switch (policy) {
+    case 'skip': {
+      const latest = due[due.length - 1];
+      run = latest && now.getTime() - latest.getTime() <= MISFIRE_GRACE_MS ? [latest] : [];
+      break;
+    }
+    case 'run_once':
+      run = due.slice(-1);
+      break;
+    case 'run_all':
+      run = due.slice(-Math.max(1, Math.min(maxCatchUpRuns, MAX_CATCH_UP_RUNS)));
+      break;
+  }
+
+  return { run, skipped: due.filter((at) => !run.includes(at)) };
+}
+
+/**
+ * What to do with an occurrence that is due now, given whether the task's
+ * previous run is over. Exported for testing.
+ */
+export function overlapAction(
+  policy: OverlapPolicy,
+  previousActive: boolean
+): 'dispatch' | 'skip' | 'wait' | 'cancel_previous' {
+  if (!previousActive) return 'dispatch';
+  switch (policy) {
+    case 'skip':
+      return 'skip';
+    case 'queue':
+      return 'wait';
+    case 'cancel_previous':
+      return 'cancel_previous';
+  }
+}
+
+/**
+ * The next `count` run times of a schedule, as instants and as wall-clock
+ * time in its timezone.
+ */
+export function previewSchedule(
+  schedule: string,
+  timezone: string,
+  count: number,
+  from: Date = new Date()
+): { at: string; local: string }[] {
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    dateStyle: 'medium',
+    timeStyle: 'long',
+  });
+
+  return nextRunTimes(schedule, timezone, from, Math.min(Math.max(1, count), MAX_PREVIEW_RUNS)).map((at) => ({
+    at: at.toISOString(),
+    local: format.format(at),
+  }));
+}
+
+// ============================================================================
+// SCHEDULE SETTINGS
+// ============================================================================
+
+export interface ScheduleInput {
+  schedule?: unknown;
+  timezone?: unknown;
+  enabled?: unknown;
+  misfirePolicy?: unknown;
+  maxCatchUpRuns?: unknown;
+  overlapPolicy?: unknown;
+}
+
+/**
+ * Problems with a schedule update, empty when it is valid. Exported for
+ * testing.
+ */
+export function validateScheduleInput(input: ScheduleInput, { partial = false } = {}): string[] {
+  const issues: string[] = [];
+
+  if (input.timezone !== undefined && (typeof input.timezone !== 'string' || !isValidTimezone(input.timezone))) {
+    issues.push('timezone must be an IANA time zone, such as "Europe/Berlin"');
+  }
+
+  if (input.schedule === undefined) {
+    if (!partial) issues.push('schedule is required');
+  } else if (typeof input.schedule !== 'string' || !input.schedule.trim()) {
+    issues.push('schedule must be a cron expression');
+  } else {
+    try {
+      nextRunTimes(input.schedule, DEFAULT_TIMEZONE, new Date(), 1);
+    } catch {
+      issues.push(`"${input.schedule}" is not a valid cron expression`);
+    }
+  }
+
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    issues.push('enabled must be a boolean');
+  }
+  if (input.misfirePolicy !== undefined && !MISFIRE_POLICIES.includes(input.misfirePolicy as MisfirePolicy)) {
+    issues.push(`misfirePolicy must be one of: ${MISFIRE_POLICIES.join(', ')}`);
+  }
+  if (input.overlapPolicy !== undefined && !OVERLAP_POLICIES.includes(input.overlapPolicy as OverlapPolicy)) {
+    issues.push(`overlapPolicy must be one of: ${OVERLAP_POLICIES.join(', ')}`);
+  }
+  if (
+    input.maxCatchUpRuns !== undefined &&
+    !(Number.isInteger(input.maxCatchUpRuns) && (input.maxCatchUpRuns as number) >= 1 && (input.maxCatchUpRuns as number) <= MAX_CATCH_UP_RUNS)
+  ) {
+    issues.push(`maxCatchUpRuns must be a whole number from 1 to ${MAX_CATCH_UP_RUNS}`);
+  }
+
+  return issues;
+}
+
+/**
+ * Task fields for a validated schedule update, with nextRunAt worked out
+ * again from the schedule it leaves the task with.
+ */
+export function scheduleFields(
+  input: ScheduleInput,
+  current: Pick<Task, 'schedule' | 'timezone' | 'scheduleEnabled'>,
+  now: Date = new Date()
+) {
+  const schedule = (input.schedule as string | undefined)?.trim() ?? current.schedule;
+  const timezone = (input.timezone as string | undefined) ?? current.timezone ?? DEFAULT_TIMEZONE;
+  const enabled = (input.enabled as boolean | undefined) ?? (input.schedule !== undefined ? true : current.scheduleEnabled);
+
+  return {
+    schedule,
+    timezone,
+    scheduleEnabled: enabled && Boolean(schedule),
+    nextRunAt: enabled && schedule ? nextRunTimes(schedule, timezone, now, 1)[0] : null,
+    misfirePolicy: input.misfirePolicy as MisfirePolicy | undefined,
+    maxCatchUpRuns: input.maxCatchUpRuns as number | undefined,
+    overlapPolicy: input.overlapPolicy as OverlapPolicy | undefined,
+  };
+}
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+export interface ScheduleCheckResult {
+  queued: number;
+  waiting: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * Fire every schedule that is due, then start runs that were waiting on a
+ * previous one that has since finished.
+ */
+export async function checkScheduledTasks(now: Date = new Date()): Promise<ScheduleCheckResult> {
+  const results: ScheduleCheckResult = { queued: 0, waiting: 0, skipped: 0, failed: 0, errors: [] };
+
+  const dueTasks = await prisma.task.findMany({
+    where: {
+      scheduleEnabled: true,
+      schedule: { not: null },
+      nextRunAt: { lte: now },
+    },
+    orderBy: { priority: 'desc' },
+    take: 50, // Process max 50 tasks per check
+  });
+
+  for (const task of dueTasks) {
+    try {
+      await fireSchedule(task, now, results);
+    } catch (error: any) {
+      console.error(`❌ Failed to run schedule of task ${task.id}:`, error);
+      results.failed++;
+      results.errors.push(`Task ${task.id}: ${error.message}`);
+    }
+  }
+
+  await startWaitingRuns(now, results);
+
+  return results;
+}
+
+async function fireSchedule(task: Task, now: Date, results: ScheduleCheckResult): Promise<void> {
+  const timezone = task.timezone || DEFAULT_TIMEZONE;
+
+  let due: Date[];
+  let nextRunAt: Date;
+  try {
+    due = dueOccurrences(task.schedule!, timezone, task.nextRunAt!, now);
+    nextRunAt = nextRunTimes(task.schedule!, timezone, now, 1)[0];
+  } catch (error: any) {
+    console.error(`Invalid schedule on task ${task.id}:`, task.schedule, error);
+    await prisma.task.update({
+      where: { id: task.id },
+      data: { scheduleEnabled: false, error: `Schedule disabled: "${task.schedule}" is not a valid cron expression in ${timezone}` },
+    });
+    results.failed++;
+    return;
+  }
+
+  // Claim this firing; a scheduler that got here first has moved nextRunAt on
+  const claimed = await prisma.task.updateMany({
+    where: { id: task.id, nextRunAt: task.nextRunAt },
+    data: { nextRunAt },
+  });
+  if (!claimed.count) return;
+
+  const plan = planOccurrences(due, now, task.misfirePolicy as MisfirePolicy, task.maxCatchUpRuns);
+
+  if (plan.skipped.length) {
+    const last = plan.skipped[plan.skipped.length - 1];
+    await prisma.scheduledRun.create({
+      data: {
+        taskId: task.id,
+        scheduledFor: plan.skipped[0],
+        status: 'skipped',
+        reason:
+          plan.skipped.length === 1
+            ? `Missed (misfire policy ${task.misfirePolicy})`
+            : `Missed ${plan.skipped.length} runs through ${last.toISOString()} (misfire policy ${task.misfirePolicy})`,
+        finishedAt: now,
+      },
+    });
+    results.skipped += plan.skipped.length;
+  }
+
+  let active = await isRunActive(task);
+
+  for (const [index, scheduledFor] of plan.run.entries()) {
+    const trigger = now.getTime() - scheduledFor.getTime() > MISFIRE_GRACE_MS ? 'catch_up' : 'schedule';
+    // Catch-up runs go one after another whatever the overlap policy
+    const action = index === 0 ? overlapAction(task.overlapPolicy as OverlapPolicy, active) : 'wait';
+
+    if (action === 'skip') {
+      await prisma.scheduledRun.create({
+        data: {
+          taskId: task.id,
+          scheduledFor,
+          trigger,
+          status: 'skipped',
+          reason: 'The previous run was still going (overlap policy skip)',
+          finishedAt: now,
+        },
+      });
+      results.skipped++;
+      continue;
+    }
+
+    if (index === 0 && action !== 'dispatch' && (await hasWaitingRun(task.id))) {
+      await prisma.scheduledRun.create({
+        data: {
+          taskId: task.id,
+          scheduledFor,
+          trigger,
+          status: 'skipped',
+          reason: `A run was already waiting for the previous one (overlap policy ${task.overlapPolicy})`,
+          finishedAt: now,
+        },
+      });
+      results.skipped++;
+      continue;
+    }
+
+    if (action === 'cancel_previous') {
+      await cancelPreviousRun(task, now);
+    }
+
+    const run = await prisma.scheduledRun.create({
+      data: { taskId: task.id, scheduledFor, trigger, status: 'waiting' },
+    });
+
+    if (action === 'dispatch') {
+      await startRun(task, run, now, results);
+      active = true;
+    } else {
+      results.waiting++;
+    }
+  }
+}
+
+async function hasWaitingRun(taskId: string): Promise<boolean> {
+  const waiting = await prisma.scheduledRun.count({ where: { taskId, status: 'waiting' } });
+  return waiting > 0;
+}
+
+/**
+ * Stop whatever run of the task is going, scheduled or not.
+ */
+async function cancelPreviousRun(task: Task, now: Date): Promise<void> {
+  await prisma.scheduledRun.updateMany({
+    where: { taskId: task.id, status: { in: ACTIVE_RUN_STATUSES } },
+    data: { status: 'cancelled', reason: 'Cancelled for the next scheduled run', finishedAt: now },
+  });
+
+  const parked = await prisma.task.updateMany({
+    where: { id: task.id, status: { in: PARKED_TASK_STATUSES } },
+    data: { status: 'cancelled', lastRunAt: now },
+  });
+  if (parked.count) {
+    await withdrawTaskApprovals(task.id);
+  }
+
+  await requestTaskStop(task.id, 'cancel');
+}
+
+/**
+ * Start the oldest waiting run of each task whose previous run is over.
+ */
+async function startWaitingRuns(now: Date, results: ScheduleCheckResult): Promise<void> {
+  const waiting = await prisma.scheduledRun.findMany({
+    where: { status: 'waiting' },
+    orderBy: { scheduledFor: 'asc' },
+    distinct: ['taskId'],
+    include: { task: true },
+    take: 50,
+  });
+
+  for (const run of waiting) {
+    try {
+      if (!run.task.scheduleEnabled) {
+        await prisma.scheduledRun.updateMany({
+          where: { taskId: run.taskId, status: 'waiting' },
+          data: { status: 'skipped', reason: 'The schedule was turned off', finishedAt: now },
+        });
+        continue;
+      }
+
+      if (!(await isRunActive(run.task))) {
+        await startRun(run.task, run, now, results);
+      }
+    } catch (error: any) {
+      console.error(`❌ Failed to start waiting run ${run.id}:`, error);
+      results.failed++;
+      results.errors.push(`Task ${run.taskId}: ${error.message}`);
+    }
+  }
+}
+
+async function isRunActive(task: Task): Promise<boolean> {
+  if (ACTIVE_TASK_STATUSES.includes(task.status)) return true;
+
+  const handedOver = await prisma.scheduledRun.count({
+    where: { taskId: task.id, status: { in: ACTIVE_RUN_STATUSES } },
+  });
+  return handedOver > 0;
+}
+
+/**
+ * Queue a waiting run, unless another scheduler already has.
+ */
+async function startRun(task: Task, run: ScheduledRun, now: Date, results: ScheduleCheckResult): Promise<void> {
+  const estimatedCredits = (task.plan as any)?.estimatedCredits || 100;
+  if (!(await hasEnoughCredits(task.userId, estimatedCredits))) {
+    console.log(`⚠️ Skipping scheduled run of task ${task.id} - insufficient credits`);
+    await prisma.scheduledRun.updateMany({
+      where: { id: run.id, status: 'waiting' },
+      data: { status: 'skipped', reason: 'Insufficient credits', finishedAt: now },
+    });
+    await prisma.task.update({
+      where: { id: task.id },
+      data: { error: 'Insufficient credits for scheduled execution', status: 'failed' },
+    });
+    results.skipped++;
+    return;
+  }
+
+  const claimed = await prisma.scheduledRun.updateMany({
+    where: { id: run.id, status: 'waiting' },
+    data: { status: 'queued' },
+  });
+  if (!claimed.count) return;
+
+  // Reset status before queueing, so it cannot overwrite the worker's
+  await prisma.task.update({
+    where: { id: task.id },
+    data: { lastRunAt: now, status: 'pending' },
+  });
+
+  const jobId = await queueAgentTask(task.id, task.userId, {
+    priority: getPriorityValue(task.priority),
+    retryCount: 3,
+    scheduledRunId: run.id,
+  });
+
+  if (jobId.startsWith('fallback-') || jobId.startsWith('error-')) {
+    await prisma.scheduledRun.update({
+      where: { id: run.id },
+      data: { status: 'failed', error: 'The agent queue is unavailable', finishedAt: new Date() },
+    });
+    results.failed++;
+    results.errors.push(`Task ${task.id}: the agent queue is unavailable`);
+    return;
+  }
+
+  await prisma.scheduledRun.update({ where: { id: run.id }, data: { jobId } });
+  console.log(`✅ Queued scheduled run of task ${task.id} for ${run.scheduledFor.toISOString()}`);
+  results.queued++;
+}
+
+/**
+ * Convert priority string to numeric value
+ */
+export function getPriorityValue(priority: string | null): number {
+  switch (priority) {
+    case 'urgent':
+      return 1;
+    case 'high':
+      return 2;
+    case 'medium':
+      return 3;
+    case 'low':
+      return 4;
+    default:
+      return 3;
+  }
+}
+
+// ============================================================================
+// WORKER SIDE
+// ============================================================================
+
+/**
+ * Mark a scheduled run started. False when it was cancelled while queued,
+ * and should not run at all.
+ */
+export async function markScheduledRunStarted(runId: string): Promise<boolean> {
+  const { count } = await prisma.scheduledRun.updateMany({
+    where: { id: runId, status: { in: ACTIVE_RUN_STATUSES } },
+    data: { status: 'running', startedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Record how a scheduled run ended. A run cancelled by the scheduler stays
+ * cancelled.
+ */
+export async function finishScheduledRun(
+  runId: string,
+  outcome: { status: string; error?: string; credits?: number }
+): Promise<void> {
+  await prisma.scheduledRun.updateMany({
+    where: { id: runId, status: { in: ACTIVE_RUN_STATUSES } },
+    data: {
+      status: outcome.status,
+      error: outcome.error,
+      credits: outcome.credits,
+      finishedAt: new Date(),
+    },
+  });
+}
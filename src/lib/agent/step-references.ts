@@ -0,0 +1,385 @@
+/**
+ * Step References - typed data flow between plan steps
+ *
+ * A step's params may quote the result of an earlier step:
+ *
+ *   { "body": "Competitor price: {{steps.step_3.data.price}}" }
+ *   { "amount": "{{steps.step_3.data.price | number}}" }
+ *
+ * `steps.step_N` is the result of step N (only `data` is exposed) and the rest
+ * is a JSONPath-style path: `.key`, `['key with spaces']`, `[0]`, `[-1]` for
+ * the last element and `[*]` to map over every element. The executor resolves
+ * references immediately before `tool.validate()`, so tools only ever see
+ * concrete values.
+ *
+ * Types: a param that is exactly one reference keeps the referenced value's
+ * type (an object stays an object); a reference inside a longer string is
+ * stringified. The value is then coerced to the optional `| type` filter, or
+ * else to the type the tool's inputSchema declares for that param. Anything
+ * that cannot be resolved or coerced — a missing key, "N/A" where a number is
+ * required — throws StepReferenceError, which fails the step rather than
+ * handing the tool garbage.
+ *
+ * Only `{{steps...}}` is interpreted; other `{{...}}` text is left alone.
+ */
+
+import type { AgentTool, ExecutionPlan, ExecutionStep } from './types';
+import { effectiveDependencies } from './plan-graph';
+import { flattenSteps } from './control-flow';
+
+/** Types a reference can be coerced to with `| type`. */
+export const REFERENCE_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object', 'json'] as const;
+export type ReferenceType = typeof REFERENCE_TYPES[number];
+
+/** Any `{{ steps... }}` span, with an optional `| type` filter. */
+const REFERENCE_PATTERN = /\{\{\s*(steps\b[^}|]*?)\s*(?:\|\s*([A-Za-z]+)\s*)?\}\}/g;
+
+/**
+ * Thrown when a step reference is malformed, points at data that does not
+ * exist, or cannot be coerced to the required type. Deterministic, so the
+ * executor does not retry it.
+ */
+export class StepReferenceError extends Error {
+  readonly reference: string;
+
+  constructor(reference: string, reason: string) {
+    super(`Cannot resolve ${reference}: ${reason}`);
+    this.name = 'StepReferenceError';
+    this.reference = reference;
+  }
+}
+
+type PathSegment =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' };
+
+export interface StepReference {
+  /** The reference as written, braces included */
+  raw: string;
+  stepNumber: number;
+  path: PathSegment[];
+  type?: ReferenceType;
+}
+
+/**
+ * Parse the expression inside `{{ }}`. Throws StepReferenceError on anything
+ * that is not `steps.step_N` followed by a valid path.
+ */
+function parseReference(raw: string, expression: string, filter?: string): StepReference {
+  const path: PathSegment[] = [];
+  let rest = expression.slice('steps'.length);
+
+  while (rest.length) {
+    let match: RegExpMatchArray | null;
+    if ((match = rest.match(/^\.([A-Za-z_$][\w$]*)/))) {
+      path.push({ kind: 'key', key: match[1] });
+    } else if ((match = rest.match(/^\[\s*(-?\d+)\s*\]/))) {
+      path.push({ kind: 'index', index: Number(match[1]) });
+    } else if ((match = rest.match(/^\[\s*\*\s*\]/))) {
+      path.push({ kind: 'wildcard' });
+    } else if ((match = rest.match(/^\[\s*(['"])(.*?)\1\s*\]/))) {
+      path.push({ kind: 'key', key: match[2] });
+    } else {
+      throw new StepReferenceError(raw, `unexpected "${rest}" in path`);
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  const head = path.shift();
+  const stepMatch = head?.kind === 'key' ? head.key.match(/^step_(\d+)$/) : null;
+  if (!stepMatch) {
+    throw new StepReferenceError(raw, 'expected steps.step_<number>');
+  }
+
+  let type: ReferenceType | undefined;
+  if (filter) {
+    type = REFERENCE_TYPES.find((t) => t === filter.toLowerCase());
+    if (!type) {
+      throw new StepReferenceError(raw, `unknown type "${filter}" (expected ${REFERENCE_TYPES.join(', ')})`);
+    }
+  }
+
+  return { raw, stepNumber: Number(stepMatch[1]), path, type };
+}
+
+/**
+ * Every step reference in a string, in order of appearance.
+ * Exported for testing.
+ */
+export function parseReferences(text: string): StepReference[] {
+  return [...text.matchAll(REFERENCE_PATTERN)].map((m) => parseReference(m[0], m[1], m[2]));
+}
+
+function describePath(stepNumber: number, path: PathSegment[]): string {
+  return path.reduce((acc, segment) => {
+    if (segment.kind === 'key') return /^[A-Za-z_$][\w$]*$/.test(segment.key) ? `${acc}.${segment.key}` : `${acc}['${segment.key}']`;
+    if (segment.kind === 'index') return `${acc}[${segment.index}]`;
+    return `${acc}[*]`;
+  }, `steps.step_${stepNumber}`);
+}
+
+/**
+ * Walk `path` from `root`. A wildcard maps the rest of the path over every
+ * element (or value) and yields an array, as JSONPath does.
+ */
+function evaluatePath(ref: StepReference, root: unknown, path: PathSegment[], walked: PathSegment[]): unknown {
+  let current = root;
+
+  for (let i = 0; i < path.length; i++) {
+    const segment = path[i];
+    const where = describePath(ref.stepNumber, walked);
+
+    if (current === null || current === undefined) {
+      throw new StepReferenceError(ref.raw, `${where} is ${current === null ? 'null' : 'missing'}`);
+    }
+
+    if (segment.kind === 'wildcard') {
+      if (typeof current !== 'object') {
+        throw new StepReferenceError(ref.raw, `${where} is not an array or object`);
+      }
+      const items = Array.isArray(current) ? current : Object.values(current as object);
+      const remaining = path.slice(i + 1);
+      return items.map((item) => evaluatePath(ref, item, remaining, [...walked, segment]));
+    }
+
+    if (segment.kind === 'index') {
+      if (!Array.isArray(current)) {
+        throw new StepReferenceError(ref.raw, `${where} is not an array`);
+      }
+      const index = segment.index < 0 ? current.length + segment.index : segment.index;
+      if (index < 0 || index >= current.length) {
+        throw new StepReferenceError(ref.raw, `${where} has no element ${segment.index} (length ${current.length})`);
+      }
+      current = current[index];
+    } else {
+      if (typeof current !== 'object' || !(segment.key in (current as object))) {
+        throw new StepReferenceError(ref.raw, `${where} has no "${segment.key}"`);
+      }
+      current = (current as Record<string, unknown>)[segment.key];
+    }
+
+    walked = [...walked, segment];
+  }
+
+  return current;
+}
+
+/**
+ * Coerce a resolved value to `type`, throwing StepReferenceError when it does
+ * not fit. Numeric strings may carry thousands separators and a leading
+ * currency symbol ("$1,299.00"), which is how scraped prices usually arrive.
+ * Exported for testing.
+ */
+export function coerceReferenceValue(value: unknown, type: string, reference: string): unknown {
+  const shown = JSON.stringify(value) ?? String(value);
+
+  switch (type) {
+    case 'string':
+      if (value === null || value === undefined) break;
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    case 'number':
+    case 'integer': {
+      let number: number | undefined;
+      if (typeof value === 'number') {
+        number = value;
+      } else if (typeof value === 'string') {
+        const cleaned = value.trim().replace(/^([-+]?)[$€£¥]\s*/, '$1').replace(/,/g, '');
+        if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) number = Number(cleaned);
+      }
+      if (number === undefined || !Number.isFinite(number)) break;
+      if (type === 'integer' && !Number.isInteger(number)) {
+        throw new StepReferenceError(reference, `expected integer, got ${shown}`);
+      }
+      return number;
+    }
+
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) {
+        return value.trim().toLowerCase() === 'true';
+      }
+      break;
+
+    case 'array':
+      if (Array.isArray(value)) return value;
+      break;
+
+    case 'object':
+      if (value !== null && typeof value === 'object' && !Array.isArray(value)) return value;
+      break;
+
+    case 'json':
+      return JSON.stringify(value ?? null);
+
+    default:
+      // Schema types we do not coerce to ("any", custom) pass through
+      return value;
+  }
+
+  throw new StepReferenceError(reference, `expected ${type}, got ${shown}`);
+}
+
+/**
+ * Resolve one reference against the outputs of completed steps.
+ */
+function resolveReference(ref: StepReference, outputs: Map<number, unknown>): unknown {
+  if (!outputs.has(ref.stepNumber)) {
+    throw new StepReferenceError(ref.raw, `step ${ref.stepNumber} has not completed`);
+  }
+  return evaluatePath(ref, { data: outputs.get(ref.stepNumber) }, ref.path, []);
+}
+
+function resolveValue(
+  value: unknown,
+  outputs: Map<number, unknown>,
+  schemaType: string | undefined
+): unknown {
+  if (typeof value === 'string') {
+    const refs = parseReferences(value);
+    if (!refs.length) return value;
+
+    // Exactly one reference and nothing else: keep the value's own type
+    if (refs.length === 1 && refs[0].raw === value.trim()) {
+      const ref = refs[0];
+      const resolved = resolveReference(ref, outputs);
+      const type = ref.type ?? schemaType;
+      return type ? coerceReferenceValue(resolved, type, ref.raw) : resolved;
+    }
+
+    let index = 0;
+    return value.replace(REFERENCE_PATTERN, () => {
+      const ref = refs[index++];
+      const resolved = resolveReference(ref, outputs);
+      if (resolved === null || resolved === undefined) {
+        throw new StepReferenceError(ref.raw, `resolved to ${resolved === null ? 'null' : 'nothing'} inside text`);
+      }
+      return String(coerceReferenceValue(resolved, ref.type ?? 'string', ref.raw));
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveValue(item, outputs, undefined));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveValue(item, outputs, undefined)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Return a copy of `params` with every step reference replaced by the value it
+ * names. `outputs` maps step number to that step's result data. Top-level
+ * params are coerced to the types in the tool's inputSchema; nested values only
+ * to an explicit `| type`. The original params are not modified.
+ */
+export function resolveStepReferences(
+  params: Record<string, any>,
+  outputs: Map<number, unknown>,
+  inputSchema?: AgentTool['inputSchema']
+): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(params || {}).map(([key, value]) => [
+      key,
+      resolveValue(value, outputs, inputSchema?.properties?.[key]?.type),
+    ])
+  );
+}
+
+function collectStrings(value: unknown, into: string[]): string[] {
+  if (typeof value === 'string') into.push(value);
+  else if (Array.isArray(value)) value.forEach((item) => collectStrings(item, into));
+  else if (value !== null && typeof value === 'object') Object.values(value).forEach((item) => collectStrings(item, into));
+  return into;
+}
+
+/**
+ * Check every reference in a plan before it runs: it must parse, and it must
+ * name a step that is guaranteed to have finished first — a step this one
+ * depends on, directly or transitively. Returns one issue per bad reference.
+ *
+ * Inside a control-flow step (see control-flow.ts) nested steps also see the
+ * steps before them in the same branch or body, and loop bodies see the loop
+ * step itself (its item/index/iteration variables). A while condition, checked
+ * after each pass, may read the body's results.
+ */
+export function validateStepReferences(plan: Pick<ExecutionPlan, 'steps'>): string[] {
+  const issues: string[] = [];
+  const deps = effectiveDependencies(plan);
+  const known = new Set(flattenSteps(plan.steps).map((step) => step.stepNumber));
+  const byId = new Map(plan.steps.map((step) => [step.id, step]));
+  const subtree = (step: ExecutionStep) => flattenSteps([step]).map((nested) => nested.stepNumber);
+
+  const ancestorsOf = (id: string): Set<string> => {
+    const seen = new Set<string>();
+    const stack = [...(deps.get(id) ?? [])];
+    while (stack.length) {
+      const next = stack.pop()!;
+      if (seen.has(next)) continue;
+      seen.add(next);
+      stack.push(...(deps.get(next) ?? []));
+    }
+    return seen;
+  };
+
+  const check = (step: ExecutionStep, value: unknown, visible: Set<number>) => {
+    for (const text of collectStrings(value, [])) {
+      let refs: StepReference[];
+      try {
+        refs = parseReferences(text);
+      } catch (error: any) {
+        issues.push(`step ${step.stepNumber}: ${error.message}`);
+        continue;
+      }
+
+      for (const ref of refs) {
+        if (!known.has(ref.stepNumber)) {
+          issues.push(`step ${step.stepNumber} references unknown step ${ref.stepNumber} in ${ref.raw}`);
+        } else if (!visible.has(ref.stepNumber)) {
+          issues.push(
+            `step ${step.stepNumber} references step ${ref.stepNumber} without depending on it (${ref.raw})`
+          );
+        }
+      }
+    }
+  };
+
+  // Steps of one sequence, each seeing `visible` plus the siblings before it
+  const checkSequence = (steps: ExecutionStep[], visible: Set<number>) => {
+    const seen = new Set(visible);
+    for (const step of steps) {
+      const control = step.control;
+      if (!control) {
+        check(step, step.params, seen);
+      } else if (control.type === 'if') {
+        check(step, control.condition, seen);
+        checkSequence(control.then, seen);
+        checkSequence(control.else || [], seen);
+      } else {
+        const inLoop = new Set([...seen, step.stepNumber]);
+        if (control.type === 'forEach') check(step, control.items, seen);
+        checkSequence(control.body, inLoop);
+        if (control.type === 'while') {
+          check(step, control.condition, new Set([...inLoop, ...control.body.flatMap(subtree)]));
+        }
+      }
+      subtree(step).forEach((stepNumber) => seen.add(stepNumber));
+    }
+  };
+
+  for (const step of plan.steps) {
+    const visible = new Set<number>();
+    for (const id of ancestorsOf(step.id)) {
+      const ancestor = byId.get(id);
+      if (ancestor) subtree(ancestor).forEach((stepNumber) => visible.add(stepNumber));
+    }
+    checkSequence([step], visible);
+  }
+
+  return issues;
+}
@@ -0,0 +1,888 @@
+/**
+ * Agent Teams - one goal worked by an AgentTeam's agents
+ *
+ * A team run is a Task with agentType 'agent_team' whose agentConfig names
+ * the team ({ teamId }). runTeamTask() is its entrypoint, from the agent
+ * worker or inline from /api/teams/[id]/runs when there is no queue, as
+ * lib/documents/run.ts is for document generation.
+ *
+ * How the goal is divided follows the team's settings:
+ *
+ *   teamType
+ *     sequential    members work one after another in `order`, each handed
+ *                   the results before it
+ *     parallel      members all work on the goal at once
+ *     hierarchical  the leader splits the goal into assignments, which then
+ *                   run one after another in the order it gave
+ *
+ *   coordinationStrategy
+ *     leader        the leader (isLeader, else the first member) makes the
+ *                   hierarchical assignments and writes the final result from
+ *                   its members' reports; it takes no assignment itself
+ *                   unless it is the only member
+ *     democratic,   nobody leads: every member takes the whole goal, and the
+ *     autonomous    run's result is their reports side by side
+ *
+ * With sharedMemory a member is handed every earlier report; without it only
+ * the one just before it.
+ *
+ * Each assignment runs as its own Task, so it has a plan, a trace and the
+ * /workspace/tasks live view, on an AgentExecutor limited to the member's
+ * `tools` (all tools when the list is empty), `maxStepsPerTask`,
+ * `maxCreditsPerTask` and `timeoutSeconds`. Every handoff is an
+ * AgentCollaboration row on the run: a `delegation` to the member with its
+ * instructions and what it was handed, completed with its result, and under a
+ * leader a `report_result` from each member to the leader.
+ *
+ * When an assignment fails, the team's errorHandling decides:
+ *
+ *   rollback  stop, cancel members still running and fail the run, keeping
+ *             none of the partial results (what tools already did outside,
+ *             such as emails sent, cannot be undone)
+ *   continue  carry on without that member's report; the run fails only if
+ *             no assignment completed
+ *   ask       pause the run until the user decides through resolveTeamRun():
+ *             retry the failed assignments, continue without them, or abort
+ *
+ * A completed assignment is never rerun: a resumed run reuses its report from
+ * the collaboration log.
+ */
+
+import type { AgentCollaboration, AgentTeam, Task, TeamAgent } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { aiRouter } from '@/lib/ai-providers';
+import { calculateCredits, deductCredits } from '@/lib/credits';
+import { extractJson } from '@/lib/documents/phase-utils';
+import { queueAgentTask, isQueueAvailable } from '@/lib/queue/agent-queue';
+import { withdrawTaskApprovals } from './approval-inbox';
+import { AgentExecutor } from './executor';
+import { toolRegistry } from './tools';
+import type { AgentConfig, AgentResult, AgentTask, AgentType, ExecutionPlan } from './types';
+
+export const TEAM_AGENT_TYPE = 'agent_team';
+
+/** fromAgentId of a handoff that comes from the user rather than an agent. */
+export const TEAM_RUN_SENDER = 'user';
+
+export const TEAM_TYPES = ['sequential', 'parallel', 'hierarchical'] as const;
+export const COORDINATION_STRATEGIES = ['leader', 'democratic', 'autonomous'] as const;
+export const ERROR_HANDLING_MODES = ['rollback', 'continue', 'ask'] as const;
+
+export type TeamType = (typeof TEAM_TYPES)[number];
+export type CoordinationStrategy = (typeof COORDINATION_STRATEGIES)[number];
+export type TeamErrorHandling = (typeof ERROR_HANDLING_MODES)[number];
+
+/** What the user chose for a run paused on a failed assignment. */
+export type FailedAssignmentDecision = 'retry' | 'continue' | 'abort';
+
+/** Longest a report is quoted when handed to another agent or the leader. */
+const REPORT_PREVIEW_LENGTH = 4000;
+
+export interface TeamAssignment {
+  agentId: string;
+  instructions: string;
+}
+
+/** agentConfig of a team-run Task. Assignments are fixed on the first run. */
+export interface TeamRunConfig {
+  teamId: string;
+  assignments?: TeamAssignment[];
+}
+
+/** A completed assignment's result, as handed on to later members. */
+export interface TeamReport {
+  assignment: number;
+  agentId: string;
+  agent: string;
+  role: string;
+  taskId: string;
+  result: unknown;
+}
+
+export type TeamWithAgents = AgentTeam & { agents: TeamAgent[] };
+
+export type ResolveTeamRunFailureReason = 'not_found' | 'not_paused';
+
+export type ResolveTeamRunResult =
+  | { ok: true; status: string }
+  | { ok: false; reason: ResolveTeamRunFailureReason; message: string };
+
+class AssignmentFailedError extends Error {
+  constructor(readonly assignment: number, readonly agent: string, message: string) {
+    super(`${agent}: ${message}`);
+    this.name = 'AssignmentFailedError';
+  }
+}
+
+// ============================================================================
+// PLANNING THE RUN
+// ============================================================================
+
+/** Members in execution order. */
+export function orderedAgents(agents: TeamAgent[]): TeamAgent[] {
+  return [...agents].sort((a, b) => a.order - b.order);
+}
+
+/** The member who leads: the one marked leader, else the first in order. */
+export function findLeader(agents: TeamAgent[]): TeamAgent | undefined {
+  const ordered = orderedAgents(agents);
+  return ordered.find((agent) => agent.isLeader) || ordered[0];
+}
+
+/**
+ * Members who take assignments. A coordinating leader only assigns and
+ * synthesizes, unless there is nobody else.
+ */
+export function workingAgents(team: TeamWithAgents): TeamAgent[] {
+  const ordered = orderedAgents(team.agents);
+  if (team.coordinationStrategy !== 'leader' || ordered.length < 2) {
+    return ordered;
+  }
+  const leader = findLeader(ordered);
+  return ordered.filter((agent) => agent.id !== leader?.id);
+}
+
+/**
+ * Read the leader's assignments out of its response: a JSON array of
+ * { agent, instructions } naming members by name or ID. Entries for anyone
+ * not in `agents` are dropped. Exported for testing.
+ */
+export function parseLeaderAssignments(content: string, agents: TeamAgent[]): TeamAssignment[] {
+  const parsed = extractJson<unknown>(content);
+  if (!Array.isArray(parsed)) {
+    throw new Error('The team leader did not return a list of assignments');
+  }
+
+  const assignments: TeamAssignment[] = [];
+  for (const entry of parsed) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { agent, instructions } = entry as Record<string, unknown>;
+    if (typeof agent !== 'string' || typeof instructions !== 'string' || !instructions.trim()) continue;
+
+    const member = agents.find((a) => a.id === agent || a.name.toLowerCase() === agent.trim().toLowerCase());
+    if (member) {
+      assignments.push({ agentId: member.id, instructions: instructions.trim() });
+    }
+  }
+
+  if (!assignments.length) {
+    throw new Error('The team leader assigned no work to any team member');
+  }
+  return assignments;
+}
+
+/**
+ * The reports handed to the member at `index` of a run worked in order.
+ * Exported for testing.
+ */
+export function handoffFor(reports: TeamReport[], index: number, sharedMemory: boolean): TeamReport[] {
+  const earlier = reports
+    .filter((report) => report.assignment < index)
+    .sort((a, b) => a.assignment - b.assignment);
+  return sharedMemory ? earlier : earlier.slice(-1);
+}
+
+/**
+ * Why a member's plan may not run, or null if it is within the member's
+ * limits. Exported for testing.
+ */
+export function checkAgentLimits(plan: ExecutionPlan, agent: TeamAgent): string | null {
+  if (plan.totalSteps > agent.maxStepsPerTask) {
+    return `Plan has ${plan.totalSteps} steps, over ${agent.name}'s limit of ${agent.maxStepsPerTask}`;
+  }
+  if (plan.estimatedCredits > agent.maxCreditsPerTask) {
+    return `Plan would use ~${plan.estimatedCredits} credits, over ${agent.name}'s limit of ${agent.maxCreditsPerTask}`;
+  }
+  return null;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Problems with team settings as submitted through the API, one issue each.
+ * With `partial` only the fields present are checked, as for an update.
+ */
+export function validateTeamInput(
+  input: {
+    name?: unknown;
+    teamType?: unknown;
+    coordinationStrategy?: unknown;
+    errorHandling?: unknown;
+    maxAgents?: unknown;
+    sharedMemory?: unknown;
+  },
+  { partial = false } = {}
+): string[] {
+  const issues: string[] = [];
+  const check = (field: keyof typeof input) => !partial || input[field] !== undefined;
+
+  if (check('name') && (typeof input.name !== 'string' || !input.name.trim())) {
+    issues.push('name is required');
+  }
+  if (input.teamType !== undefined && !TEAM_TYPES.includes(input.teamType as TeamType)) {
+    issues.push(`teamType must be one of: ${TEAM_TYPES.join(', ')}`);
+  }
+  if (
+    input.coordinationStrategy !== undefined &&
+    !COORDINATION_STRATEGIES.includes(input.coordinationStrategy as CoordinationStrategy)
+  ) {
+    issues.push(`coordinationStrategy must be one of: ${COORDINATION_STRATEGIES.join(', ')}`);
+  }
+  if (input.errorHandling !== undefined && !ERROR_HANDLING_MODES.includes(input.errorHandling as TeamErrorHandling)) {
+    issues.push(`errorHandling must be one of: ${ERROR_HANDLING_MODES.join(', ')}`);
+  }
+  if (input.maxAgents !== undefined && (!Number.isInteger(input.maxAgents) || (input.maxAgents as number) < 1)) {
+    issues.push('maxAgents must be a positive integer');
+  }
+  if (input.sharedMemory !== undefined && typeof input.sharedMemory !== 'boolean') {
+    issues.push('sharedMemory must be a boolean');
+  }
+
+  return issues;
+}
+
+/**
+ * Problems with a team member as submitted through the API, one issue each.
+ * With `partial` only the fields present are checked, as for an update.
+ */
+export function validateTeamAgentInput(
+  input: {
+    name?: unknown;
+    role?: unknown;
+    agentType?: unknown;
+    systemPrompt?: unknown;
+    tools?: unknown;
+    maxCreditsPerTask?: unknown;
+    maxStepsPerTask?: unknown;
+    timeoutSeconds?: unknown;
+  },
+  { partial = false } = {}
+): string[] {
+  const issues: string[] = [];
+  const check = (field: keyof typeof input) => !partial || input[field] !== undefined;
+
+  for (const field of ['name', 'role', 'agentType', 'systemPrompt'] as const) {
+    if (check(field) && (typeof input[field] !== 'string' || !(input[field] as string).trim())) {
+      issues.push(`${field} is required`);
+    }
+  }
+
+  if (input.tools !== undefined) {
+    if (!Array.isArray(input.tools) || input.tools.some((tool) => typeof tool !== 'string')) {
+      issues.push('tools must be a list of tool names');
+    } else {
+      for (const tool of input.tools as string[]) {
+        if (!toolRegistry.hasTool(tool)) issues.push(`unknown tool "${tool}"`);
+      }
+    }
+  }
+
+  for (const field of ['maxCreditsPerTask', 'maxStepsPerTask', 'timeoutSeconds'] as const) {
+    const value = input[field];
+    if (value !== undefined && (!Number.isInteger(value) || (value as number) < 1)) {
+      issues.push(`${field} must be a positive integer`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * The TeamAgent fields present in an API body, for create or update. Call
+ * validateTeamAgentInput() first.
+ */
+export function teamAgentFields(input: Record<string, any>) {
+  return {
+    name: input.name?.trim(),
+    role: input.role?.trim(),
+    description: input.description,
+    agentType: input.agentType,
+    systemPrompt: input.systemPrompt,
+    model: input.model,
+    tools: input.tools,
+    isLeader: typeof input.isLeader === 'boolean' ? input.isLeader : undefined,
+    order: Number.isInteger(input.order) ? input.order : undefined,
+    canDelegate: typeof input.canDelegate === 'boolean' ? input.canDelegate : undefined,
+    canRequestHelp: typeof input.canRequestHelp === 'boolean' ? input.canRequestHelp : undefined,
+    maxCreditsPerTask: input.maxCreditsPerTask,
+    maxStepsPerTask: input.maxStepsPerTask,
+    timeoutSeconds: input.timeoutSeconds,
+  };
+}
+
+function preview(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value ?? null, null, 2);
+  return text.length > REPORT_PREVIEW_LENGTH ? `${text.substring(0, REPORT_PREVIEW_LENGTH)}\n... (truncated)` : text;
+}
+
+// ============================================================================
+// RUNNING IT
+// ============================================================================
+
+/**
+ * Runs one team-run Task from wherever its collaboration log says it got to.
+ */
+class TeamRun {
+  private executors = new Set<AgentExecutor>();
+  private assignments: TeamAssignment[] = [];
+  private creditsUsed = 0;
+
+  constructor(
+    private readonly task: Task,
+    private readonly team: TeamWithAgents,
+    private readonly goal: string
+  ) {}
+
+  async run(): Promise<void> {
+    const config = this.task.agentConfig as unknown as TeamRunConfig;
+    const assignments = config.assignments || (await this.planAssignments(config));
+    this.assignments = assignments;
+
+    const latest = await this.latestDelegations();
+    const reports: TeamReport[] = [];
+    const pending: number[] = [];
+
+    assignments.forEach((_, index) => {
+      const collaboration = latest.get(index);
+      if (collaboration?.status === 'completed') {
+        reports.push(this.reportFrom(index, collaboration));
+      } else if (collaboration?.status === 'skipped') {
+        return;
+      } else if (collaboration?.status === 'failed' && this.team.errorHandling === 'continue') {
+        return;
+      } else {
+        pending.push(index);
+      }
+    });
+
+    let failures: AssignmentFailedError[];
+    if (this.team.teamType === 'parallel') {
+      failures = await this.runInParallel(assignments, pending, reports);
+    } else {
+      failures = await this.runInOrder(assignments, pending, reports);
+    }
+
+    if (failures.length && this.team.errorHandling === 'rollback') {
+      return this.fail(`Rolled back after ${failures.map((f) => f.message).join('; ')}`);
+    }
+    if (failures.length && this.team.errorHandling === 'ask') {
+      return this.pause(failures);
+    }
+
+    reports.sort((a, b) => a.assignment - b.assignment);
+    if (!reports.length) {
+      return this.fail('No team member completed its assignment');
+    }
+
+    const summary = this.team.coordinationStrategy === 'leader' ? await this.synthesize(reports) : undefined;
+    const skipped = assignments.length - reports.length;
+
+    await prisma.task.update({
+      where: { id: this.task.id },
+      data: {
+        status: 'completed',
+        result: { summary, reports, skipped } as any,
+        error: null,
+        completedAt: new Date(),
+        totalCredits: { increment: this.creditsUsed },
+      },
+    });
+    await this.recordOutcome(true);
+  }
+
+  /**
+   * Decide who does what, once per run. Only a hierarchical team under a
+   * leader asks the leader; everyone else takes the whole goal.
+   */
+  private async planAssignments(config: TeamRunConfig): Promise<TeamAssignment[]> {
+    const workers = workingAgents(this.team);
+    if (!workers.length) {
+      throw new Error(`Team ${this.team.name} has no agents`);
+    }
+
+    let assignments: TeamAssignment[];
+    if (this.team.teamType === 'hierarchical' && this.team.coordinationStrategy === 'leader') {
+      const leader = findLeader(this.team.agents)!;
+      const response = await this.askLeader(leader, this.assignmentPrompt(workers));
+      assignments = parseLeaderAssignments(response, workers);
+    } else {
+      assignments = workers.map((agent) => ({ agentId: agent.id, instructions: this.goal }));
+    }
+
+    await prisma.task.update({
+      where: { id: this.task.id },
+      data: { agentConfig: { ...config, assignments } as any, totalSteps: assignments.length },
+    });
+    return assignments;
+  }
+
+  private async runInOrder(
+    assignments: TeamAssignment[],
+    pending: number[],
+    reports: TeamReport[]
+  ): Promise<AssignmentFailedError[]> {
+    const failures: AssignmentFailedError[] = [];
+
+    for (const index of pending) {
+      const handoff = handoffFor(reports, index, this.team.sharedMemory);
+      try {
+        reports.push(await this.runAssignment(index, assignments[index], handoff));
+      } catch (error) {
+        const failure = this.toFailure(index, assignments[index], error);
+        failures.push(failure);
+        if (this.team.errorHandling !== 'continue') break;
+      }
+    }
+
+    return failures;
+  }
+
+  private async runInParallel(
+    assignments: TeamAssignment[],
+    pending: number[],
+    reports: TeamReport[]
+  ): Promise<AssignmentFailedError[]> {
+    const failures: AssignmentFailedError[] = [];
+
+    await Promise.all(
+      pending.map(async (index) => {
+        try {
+          reports.push(await this.runAssignment(index, assignments[index], []));
+        } catch (error) {
+          failures.push(this.toFailure(index, assignments[index], error));
+          if (this.team.errorHandling === 'rollback') {
+            await this.cancelRunning();
+          }
+        }
+      })
+    );
+
+    return failures;
+  }
+
+  /**
+   * Hand one assignment to its member and run it as a Task of its own.
+   */
+  private async runAssignment(index: number, assignment: TeamAssignment, handoff: TeamReport[]): Promise<TeamReport> {
+    const agent = this.team.agents.find((a) => a.id === assignment.agentId);
+    if (!agent) {
+      throw new AssignmentFailedError(index, 'Removed agent', 'This team member no longer exists');
+    }
+
+    const registry = agent.tools.length ? toolRegistry.subset(agent.tools) : toolRegistry;
+    const config: AgentConfig = {
+      model: agent.model,
+      maxSteps: agent.maxStepsPerTask,
+      timeout: agent.timeoutSeconds * 1000,
+      maxCredits: agent.maxCreditsPerTask,
+      retryCount: 1,
+      toolNames: registry.getToolNames(),
+    };
+
+    const memberTask = await prisma.task.create({
+      data: {
+        userId: this.task.userId,
+        projectId: this.task.projectId,
+        title: `${this.team.name} · ${agent.name}`.substring(0, 100),
+        description: assignment.instructions,
+        agentType: agent.agentType,
+        agentModel: agent.model,
+        agentConfig: { ...config, teamId: this.team.id, teamAgentId: agent.id, teamRunId: this.task.id } as any,
+        status: 'planning',
+        priority: this.task.priority,
+        startedAt: new Date(),
+      },
+    });
+
+    const collaboration = await prisma.agentCollaboration.create({
+      data: {
+        teamId: this.team.id,
+        taskId: this.task.id,
+        fromAgentId: this.senderFor(index),
+        toAgentId: agent.id,
+        type: 'delegation',
+        message: assignment.instructions,
+        context: { assignment: index, memberTaskId: memberTask.id, handoff: handoff.map((r) => r.assignment) },
+        status: 'in_progress',
+      },
+    });
+
+    const agentTask: AgentTask = {
+      id: memberTask.id,
+      userId: this.task.userId,
+      type: agent.agentType as AgentType,
+      goal: assignment.instructions,
+      config,
+      context: {
+        team: this.team.name,
+        role: agent.role,
+        roleInstructions: agent.systemPrompt,
+        overallGoal: this.goal,
+        handoff: handoff.map((report) => ({ from: report.agent, role: report.role, result: preview(report.result) })),
+      },
+      createdAt: memberTask.createdAt,
+    };
+
+    const executor = new AgentExecutor(agent.agentType, config, registry);
+    this.executors.add(executor);
+
+    try {
+      const plan = await executor.plan(agentTask);
+      const overLimit = checkAgentLimits(plan, agent);
+      if (overLimit) {
+        await prisma.task.update({
+          where: { id: memberTask.id },
+          data: { plan: plan as any, status: 'failed', error: overLimit, failedAt: new Date() },
+        });
+        throw new Error(overLimit);
+      }
+
+      await prisma.task.update({
+        where: { id: memberTask.id },
+        data: { plan: plan as any, totalSteps: plan.totalSteps, status: 'executing' },
+      });
+
+      const result = await this.executeWithin(executor, agentTask, plan, agent);
+      this.creditsUsed += result.creditsUsed;
+
+      if (result.status === 'awaiting_approval') {
+        // Nothing resumes a member's task for the team run, so it cannot wait
+        await withdrawTaskApprovals(memberTask.id);
+        throw new Error(`${result.error} A team member cannot wait for approval`);
+      }
+      if (result.status !== 'completed') {
+        throw new Error(result.error || `Stopped with status ${result.status}`);
+      }
+
+      await prisma.agentCollaboration.update({
+        where: { id: collaboration.id },
+        data: {
+          status: 'completed',
+          response: preview(result.result).substring(0, 1000),
+          result: { memberTaskId: memberTask.id, result: result.result, creditsUsed: result.creditsUsed } as any,
+          respondedAt: new Date(),
+        },
+      });
+
+      return {
+        assignment: index,
+        agentId: agent.id,
+        agent: agent.name,
+        role: agent.role,
+        taskId: memberTask.id,
+        result: result.result,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await prisma.agentCollaboration.update({
+        where: { id: collaboration.id },
+        data: { status: 'failed', response: message, respondedAt: new Date() },
+      });
+      await prisma.task.updateMany({
+        where: { id: memberTask.id, status: { in: ['planning', 'executing', 'awaiting_approval'] } },
+        data: { status: 'failed', error: message, failedAt: new Date() },
+      });
+      throw new AssignmentFailedError(index, agent.name, message);
+    } finally {
+      this.executors.delete(executor);
+    }
+  }
+
+  /**
+   * Execute within the member's timeoutSeconds, cancelling the run if it
+   * goes over.
+   */
+  private async executeWithin(
+    executor: AgentExecutor,
+    agentTask: AgentTask,
+    plan: ExecutionPlan,
+    agent: TeamAgent
+  ): Promise<AgentResult> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        void executor.cancel();
+        reject(new Error(`Timed out after ${agent.timeoutSeconds}s`));
+      }, agent.timeoutSeconds * 1000);
+    });
+
+    try {
+      return await Promise.race([executor.execute(agentTask, plan), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async cancelRunning(): Promise<void> {
+    await Promise.all([...this.executors].map((executor) => executor.cancel()));
+  }
+
+  /** The leader, if one coordinates, else whoever worked just before. */
+  private senderFor(index: number): string {
+    if (this.team.coordinationStrategy === 'leader' && this.team.agents.length > 1) {
+      return findLeader(this.team.agents)!.id;
+    }
+    if (this.team.teamType !== 'parallel' && index > 0) {
+      return this.assignments[index - 1].agentId;
+    }
+    return TEAM_RUN_SENDER;
+  }
+
+  /**
+   * The leader's final answer from everyone's reports, each recorded as a
+   * report_result handoff to it.
+   */
+  private async synthesize(reports: TeamReport[]): Promise<string> {
+    const leader = findLeader(this.team.agents)!;
+
+    for (const report of reports) {
+      if (report.agentId === leader.id) continue;
+      await prisma.agentCollaboration.create({
+        data: {
+          teamId: this.team.id,
+          taskId: this.task.id,
+          fromAgentId: report.agentId,
+          toAgentId: leader.id,
+          type: 'report_result',
+          message: preview(report.result),
+          context: { assignment: report.assignment, memberTaskId: report.taskId },
+          status: 'completed',
+          respondedAt: new Date(),
+        },
+      });
+    }
+
+    return this.askLeader(
+      leader,
+      `Your team has finished working on this goal:
+
+GOAL: ${this.goal}
+
+REPORTS:
+${reports.map((r) => `--- ${r.agent} (${r.role}) ---\n${preview(r.result)}`).join('\n\n')}
+
+Write the final result for the user, drawing on the reports. Say plainly if something the goal asked for is missing.`
+    );
+  }
+
+  private assignmentPrompt(workers: TeamAgent[]): string {
+    return `You lead the team "${this.team.name}". Split this goal into assignments for your team members:
+
+GOAL: ${this.goal}
+
+TEAM MEMBERS:
+${workers.map((a) => `- ${a.name} (${a.role}): ${a.description || a.agentType}; tools: ${a.tools.join(', ') || 'any'}`).join('\n')}
+
+Assignments run one after another in the order you give, and each member sees the results before its own.
+Return ONLY a JSON array: [{ "agent": "<member name>", "instructions": "<what this member should do>" }]`;
+  }
+
+  private async askLeader(leader: TeamAgent, prompt: string): Promise<string> {
+    const response = await aiRouter.chat(leader.model, {
+      messages: [
+        { role: 'system', content: leader.systemPrompt },
+        { role: 'user', content: prompt },
+      ],
+      maxTokens: 4096,
+    });
+
+    const tokens = response.usage.totalTokens;
+    const credits = calculateCredits(leader.model, tokens);
+    await deductCredits(this.task.userId, credits, {
+      type: 'agent_team',
+      model: leader.model,
+      tokens,
+      description: `Team leader ${leader.name} (${this.team.name})`,
+      extra: { taskId: this.task.id, teamId: this.team.id },
+    });
+    this.creditsUsed += credits;
+
+    return response.content;
+  }
+
+  private async latestDelegations(): Promise<Map<number, AgentCollaboration>> {
+    const collaborations = await prisma.agentCollaboration.findMany({
+      where: { teamId: this.team.id, taskId: this.task.id, type: 'delegation' },
+      orderBy: { sentAt: 'asc' },
+    });
+
+    const latest = new Map<number, AgentCollaboration>();
+    for (const collaboration of collaborations) {
+      const index = (collaboration.context as { assignment?: number } | null)?.assignment;
+      if (typeof index === 'number') latest.set(index, collaboration);
+    }
+    return latest;
+  }
+
+  private reportFrom(index: number, collaboration: AgentCollaboration): TeamReport {
+    const agent = this.team.agents.find((a) => a.id === collaboration.toAgentId);
+    const stored = (collaboration.result || {}) as { memberTaskId?: string; result?: unknown };
+    return {
+      assignment: index,
+      agentId: collaboration.toAgentId,
+      agent: agent?.name || 'Removed agent',
+      role: agent?.role || 'unknown',
+      taskId: stored.memberTaskId || '',
+      result: stored.result,
+    };
+  }
+
+  private toFailure(index: number, assignment: TeamAssignment, error: unknown): AssignmentFailedError {
+    if (error instanceof AssignmentFailedError) return error;
+    const agent = this.team.agents.find((a) => a.id === assignment.agentId)?.name || 'Removed agent';
+    return new AssignmentFailedError(index, agent, error instanceof Error ? error.message : String(error));
+  }
+
+  private async pause(failures: AssignmentFailedError[]): Promise<void> {
+    await prisma.task.update({
+      where: { id: this.task.id },
+      data: {
+        status: 'paused',
+        error: `Waiting for a decision: ${failures.map((f) => f.message).join('; ')}`,
+        totalCredits: { increment: this.creditsUsed },
+      },
+    });
+  }
+
+  private async fail(message: string): Promise<void> {
+    await prisma.task.update({
+      where: { id: this.task.id },
+      data: {
+        status: 'failed',
+        error: message,
+        failedAt: new Date(),
+        totalCredits: { increment: this.creditsUsed },
+      },
+    });
+    await this.recordOutcome(false);
+  }
+
+  private async recordOutcome(succeeded: boolean): Promise<void> {
+    await prisma.agentTeam.update({
+      where: { id: this.team.id },
+      data: {
+        totalTasks: { increment: 1 },
+        successfulTasks: succeeded ? { increment: 1 } : undefined,
+        failedTasks: succeeded ? undefined : { increment: 1 },
+        lastUsedAt: new Date(),
+      },
+    });
+  }
+}
+
+/**
+ * Run (or resume) a team-run Task. A failed assignment is recorded on the
+ * run, not thrown; only an error in the run itself is.
+ */
+export async function runTeamTask(taskId: string, userId: string): Promise<void> {
+  const task = await prisma.task.findUnique({ where: { id: taskId } });
+  if (!task) throw new Error(`Task not found: ${taskId}`);
+  if (task.userId !== userId) throw new Error(`Task ${taskId} does not belong to user ${userId}`);
+
+  const config = task.agentConfig as unknown as TeamRunConfig | null;
+  const team = config?.teamId
+    ? await prisma.agentTeam.findFirst({ where: { id: config.teamId, userId }, include: { agents: true } })
+    : null;
+
+  if (!team) {
+    await prisma.task.update({
+      where: { id: taskId },
+      data: { status: 'failed', error: 'Team not found', failedAt: new Date() },
+    });
+    return;
+  }
+
+  await prisma.task.update({
+    where: { id: taskId },
+    data: { status: 'executing', startedAt: task.startedAt || new Date(), error: null },
+  });
+
+  try {
+    await new TeamRun(task, team, task.description || task.title).run();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await prisma.task.update({
+      where: { id: taskId },
+      data: { status: 'failed', error: message, failedAt: new Date() },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Start a team run: queue it, or run it inline when there is no queue.
+ */
+export async function startTeamRun(teamId: string, userId: string, goal: string): Promise<Task> {
+  const task = await prisma.task.create({
+    data: {
+      userId,
+      title: goal.substring(0, 100),
+      description: goal,
+      agentType: TEAM_AGENT_TYPE,
+      agentConfig: { teamId } as any,
+      status: 'pending',
+      priority: 'medium',
+    },
+  });
+
+  await dispatchTeamRun(task.id, userId);
+  return (await prisma.task.findUnique({ where: { id: task.id } })) || task;
+}
+
+async function dispatchTeamRun(taskId: string, userId: string): Promise<void> {
+  if (isQueueAvailable()) {
+    await queueAgentTask(taskId, userId, {});
+  } else {
+    await runTeamTask(taskId, userId);
+  }
+}
+
+/**
+ * Act on the user's decision for a run paused on failed assignments
+ * (errorHandling 'ask').
+ */
+export async function resolveTeamRun(input: {
+  taskId: string;
+  userId: string;
+  decision: FailedAssignmentDecision;
+}): Promise<ResolveTeamRunResult> {
+  const task = await prisma.task.findFirst({
+    where: { id: input.taskId, userId: input.userId, agentType: TEAM_AGENT_TYPE },
+  });
+
+  if (!task) {
+    return { ok: false, reason: 'not_found', message: 'Team run not found' };
+  }
+  if (task.status !== 'paused') {
+    return { ok: false, reason: 'not_paused', message: `Team run is ${task.status}, not waiting for a decision` };
+  }
+
+  const config = task.agentConfig as unknown as TeamRunConfig;
+
+  if (input.decision === 'abort') {
+    await prisma.task.update({
+      where: { id: task.id },
+      data: { status: 'failed', error: `Aborted by user. ${task.error || ''}`.trim(), failedAt: new Date() },
+    });
+    await prisma.agentTeam.updateMany({
+      where: { id: config.teamId },
+      data: { totalTasks: { increment: 1 }, failedTasks: { increment: 1 }, lastUsedAt: new Date() },
+    });
+    return { ok: true, status: 'failed' };
+  }
+
+  if (input.decision === 'continue') {
+    await prisma.agentCollaboration.updateMany({
+      where: { taskId: task.id, type: 'delegation', status: 'failed' },
+      data: { status: 'skipped' },
+    });
+  }
+
+  await prisma.task.update({ where: { id: task.id }, data: { status: 'pending' } });
+  await dispatchTeamRun(task.id, input.userId);
+  const after = await prisma.task.findUnique({ where: { id: task.id }, select: { status: true } });
+
+  return { ok: true, status: after?.status || 'pending' };
+}
@@ -0,0 +1,357 @@
+/**
+ * Tool Outputs - large tool results kept out of the run's context
+ *
+ * A scraped page or a 5,000-row API response is too big to carry in a step's
+ * trace entry (Task.executionTrace), in state.context or in a chat turn's
+ * tool_result. A result whose text is over INLINE_OUTPUT_CHARS is stored as a
+ * ToolOutput row instead, and the run keeps a handle: the output's id, its
+ * shape and a preview. The agent reads the rest with output.read (a range of
+ * lines), output.search (lines matching a pattern) and output.query (a
+ * JSONPath into a JSON output); see tools/outputs.ts.
+ *
+ * Step references ({{steps.step_N...}}) still see the whole result: the
+ * executor expands handles before resolving them (expandStoredOutputs).
+ */
+
+import { prisma } from '@/lib/prisma';
+
+/** Results longer than this, as text, are stored rather than kept inline. */
+export const INLINE_OUTPUT_CHARS = 12_000;
+
+/** How much of a stored output its handle shows. */
+export const PREVIEW_CHARS = 2_000;
+
+/** Stored outputs are cut here; the handle says so. */
+export const MAX_STORED_CHARS = 5_000_000;
+
+/** Most text one read, search or query returns, kept under INLINE_OUTPUT_CHARS. */
+export const MAX_PAGE_CHARS = 8_000;
+
+export const MAX_READ_LINES = 200;
+export const MAX_SEARCH_MATCHES = 50;
+
+/** Stored outputs are purged this long after they were written (see data-retention.ts). */
+export const OUTPUT_RETENTION_DAYS = 30;
+
+export type OutputFormat = 'json' | 'text';
+
+/** What a run keeps in place of a stored result. */
+export interface StoredOutputHandle {
+  storedOutput: {
+    id: string;
+    tool: string;
+    format: OutputFormat;
+    chars: number;
+    lines: number;
+    shape: string;
+    truncated?: boolean;
+  };
+  preview: string;
+  hint: string;
+}
+
+export interface OutputSource {
+  userId: string;
+  /** Unset for chat turns, which have no Task row */
+  taskId?: string;
+  stepNumber?: number;
+  tool: string;
+}
+
+export function isStoredOutput(value: unknown): value is StoredOutputHandle {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as StoredOutputHandle).storedOutput?.id === 'string' &&
+    typeof (value as StoredOutputHandle).preview === 'string'
+  );
+}
+
+/**
+ * A result as the text that is stored and paged through: strings as they
+ * are, anything else as indented JSON so it reads and greps line by line.
+ * Exported for testing.
+ */
+export function serializeOutput(data: unknown): { format: OutputFormat; content: string } {
+  if (typeof data === 'string') return { format: 'text', content: data };
+  return { format: 'json', content: JSON.stringify(data, null, 2) ?? 'null' };
+}
+
+/**
+ * One line on what a result is, so the model knows how to page through it.
+ * Exported for testing.
+ */
+export function describeShape(data: unknown): string {
+  if (typeof data === 'string') return `text, ${data.length.toLocaleString('en-US')} characters`;
+  if (Array.isArray(data)) return `array of ${data.length.toLocaleString('en-US')} items`;
+  if (data && typeof data === 'object') {
+    const keys = Object.keys(data);
+    const listed = keys.slice(0, 20).join(', ');
+    return `object with keys: ${listed}${keys.length > 20 ? `, … (${keys.length} in all)` : ''}`;
+  }
+  return typeof data;
+}
+
+/**
+ * `data` as the run should keep it: itself when small, else a handle to a
+ * stored copy. Output tools' own results are never stored again, and a
+ * failure to store keeps the result inline rather than losing it.
+ */
+export async function storeLargeOutput(data: unknown, source: OutputSource): Promise<unknown> {
+  if (data === undefined || source.tool.startsWith('output.')) return data;
+
+  const { format, content } = serializeOutput(data);
+  if (content.length <= INLINE_OUTPUT_CHARS) return data;
+
+  const truncated = content.length > MAX_STORED_CHARS;
+
+  try {
+    const row = await prisma.toolOutput.create({
+      data: {
+        userId: source.userId,
+        taskId: source.taskId ?? null,
+        stepNumber: source.stepNumber ?? null,
+        tool: source.tool,
+        format,
+        content: truncated ? content.slice(0, MAX_STORED_CHARS) : content,
+        chars: content.length,
+        expiresAt: new Date(Date.now() + OUTPUT_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+      },
+    });
+
+    return {
+      storedOutput: {
+        id: row.id,
+        tool: source.tool,
+        format,
+        chars: content.length,
+        lines: countLines(content),
+        shape: describeShape(data),
+        ...(truncated && { truncated: true }),
+      },
+      preview: content.slice(0, PREVIEW_CHARS),
+      hint:
+        `This result is ${content.length.toLocaleString('en-US')} characters, too long to show in full. ` +
+        `Read more of it with ${format === 'json' ? 'output.read, output.search or output.query' : 'output.read or output.search'} ` +
+        `and outputId "${row.id}".`,
+    } satisfies StoredOutputHandle;
+  } catch (error) {
+    console.error(`[Agent] Failed to store the output of ${source.tool}, keeping it inline:`, error);
+    return data;
+  }
+}
+
+/**
+ * A stored output the user owns, unless it has expired.
+ */
+export async function loadToolOutput(id: string, userId: string) {
+  return prisma.toolOutput.findFirst({
+    where: { id, userId, expiresAt: { gt: new Date() } },
+  });
+}
+
+/**
+ * Parse a stored output back into the value it was made from. A JSON output
+ * cut at MAX_STORED_CHARS no longer parses and comes back as text.
+ */
+export function parseStoredContent(format: string, content: string): unknown {
+  if (format !== 'json') return content;
+  try {
+    return JSON.parse(content);
+  } catch {
+    return content;
+  }
+}
+
+/**
+ * Step outputs with every handle replaced by the result it stands for, for
+ * resolving step references. `cache` (by output id) spares re-reading an
+ * output for every step that refers to it. A handle whose output is gone is
+ * left as it is.
+ */
+export async function expandStoredOutputs(
+  outputs: Map<number, unknown>,
+  userId: string,
+  cache: Map<string, unknown>
+): Promise<Map<number, unknown>> {
+  const expanded = new Map(outputs);
+
+  for (const [stepNumber, value] of outputs) {
+    if (!isStoredOutput(value)) continue;
+
+    const id = value.storedOutput.id;
+    if (!cache.has(id)) {
+      const row = await loadToolOutput(id, userId);
+      if (!row) continue;
+      cache.set(id, parseStoredContent(row.format, row.content));
+    }
+    expanded.set(stepNumber, cache.get(id));
+  }
+
+  return expanded;
+}
+
+function countLines(content: string): number {
+  let lines = 1;
+  for (let i = 0; i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) lines++;
+  }
+  return lines;
+}
+
+// ============================================================================
+// PAGING
+// ============================================================================
+
+/** Lines longer than this are cut in read and search results. */
+const MAX_LINE_CHARS = 500;
+
+function clipLine(line: string): string {
+  return line.length > MAX_LINE_CHARS ? `${line.slice(0, MAX_LINE_CHARS)}…` : line;
+}
+
+/**
+ * Lines `from` (1-based) onwards, as many as fit in `limit` lines and
+ * MAX_PAGE_CHARS, each prefixed with its number.
+ * Exported for testing.
+ */
+export function readLines(content: string, from = 1, limit = 100) {
+  const lines = content.split('\n');
+  const start = Math.max(1, Math.floor(from));
+  const count = Math.min(Math.max(1, Math.floor(limit)), MAX_READ_LINES);
+
+  const page: string[] = [];
+  let chars = 0;
+  let line = start;
+  for (; line < start + count && line <= lines.length; line++) {
+    const text = `${line}: ${clipLine(lines[line - 1])}`;
+    if (page.length && chars + text.length > MAX_PAGE_CHARS) break;
+    page.push(text);
+    chars += text.length + 1;
+  }
+
+  return {
+    from: start,
+    to: line - 1,
+    totalLines: lines.length,
+    text: page.join('\n'),
+    more: line <= lines.length,
+  };
+}
+
+/**
+ * Lines matching `pattern`, a regular expression (or, if it is not a valid
+ * one, plain text), up to `maxMatches` and MAX_PAGE_CHARS.
+ * Exported for testing.
+ */
+export function searchLines(
+  content: string,
+  pattern: string,
+  options: { ignoreCase?: boolean; maxMatches?: number } = {}
+) {
+  const flags = options.ignoreCase ? 'i' : '';
+  let matcher: RegExp;
+  try {
+    matcher = new RegExp(pattern, flags);
+  } catch {
+    matcher = new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), flags);
+  }
+  const limit = Math.min(Math.max(1, options.maxMatches ?? 20), MAX_SEARCH_MATCHES);
+
+  const matches: { line: number; text: string }[] = [];
+  let total = 0;
+  let chars = 0;
+  content.split('\n').forEach((text, index) => {
+    if (!matcher.test(text)) return;
+    total++;
+    const clipped = clipLine(text);
+    if (matches.length < limit && chars + clipped.length <= MAX_PAGE_CHARS) {
+      matches.push({ line: index + 1, text: clipped });
+      chars += clipped.length;
+    }
+  });
+
+  return { matches, total, more: total > matches.length };
+}
+
+// ============================================================================
+// JSONPATH
+// ============================================================================
+
+export class OutputQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutputQueryError';
+  }
+}
+
+type QuerySegment =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'slice'; start?: number; end?: number }
+  | { kind: 'wildcard' };
+
+/**
+ * Parse a JSONPath: `$` then `.key`, `['key']`, `[0]`, `[-1]`, `[2:5]`,
+ * `[*]` or `.*`, as in step references (step-references.ts) plus slices.
+ */
+function parseQuery(path: string): QuerySegment[] {
+  const segments: QuerySegment[] = [];
+  let rest = path.trim().replace(/^\$/, '');
+
+  while (rest.length) {
+    let match: RegExpMatchArray | null;
+    if ((match = rest.match(/^\.([A-Za-z_$][\w$-]*)/))) {
+      segments.push({ kind: 'key', key: match[1] });
+    } else if ((match = rest.match(/^(?:\.\*|\[\s*\*\s*\])/))) {
+      segments.push({ kind: 'wildcard' });
+    } else if ((match = rest.match(/^\[\s*(-?\d+)\s*\]/))) {
+      segments.push({ kind: 'index', index: Number(match[1]) });
+    } else if ((match = rest.match(/^\[\s*(-?\d+)?\s*:\s*(-?\d+)?\s*\]/))) {
+      segments.push({
+        kind: 'slice',
+        start: match[1] === undefined ? undefined : Number(match[1]),
+        end: match[2] === undefined ? undefined : Number(match[2]),
+      });
+    } else if ((match = rest.match(/^\[\s*(['"])(.*?)\1\s*\]/))) {
+      segments.push({ kind: 'key', key: match[2] });
+    } else {
+      throw new OutputQueryError(`Unexpected "${rest}" in path ${path}`);
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  return segments;
+}
+
+/**
+ * Every value `path` selects in `root`, in document order. Keys and indexes
+ * that do not exist select nothing, as in JSONPath.
+ * Exported for testing.
+ */
+export function queryJson(root: unknown, path: string): unknown[] {
+  let nodes: unknown[] = [root];
+
+  for (const segment of parseQuery(path)) {
+    const next: unknown[] = [];
+    for (const node of nodes) {
+      if (node === null || typeof node !== 'object') continue;
+
+      if (segment.kind === 'wildcard') {
+        next.push(...(Array.isArray(node) ? node : Object.values(node)));
+      } else if (segment.kind === 'key') {
+        if (!Array.isArray(node) && segment.key in node) next.push((node as Record<string, unknown>)[segment.key]);
+      } else if (Array.isArray(node)) {
+        if (segment.kind === 'index') {
+          const index = segment.index < 0 ? node.length + segment.index : segment.index;
+          if (index >= 0 && index < node.length) next.push(node[index]);
+        } else {
+          next.push(...node.slice(segment.start, segment.end));
+        }
+      }
+    }
+    nodes = next;
+  }
+
+  return nodes;
+}
@@ -0,0 +1,262 @@
+/**
+ * Tool Policies - per-workspace rules on what agent tools may do
+ *
+ * SENSITIVE_TOOLS (approval.ts) is all-or-nothing per tool. Workspace admins
+ * refine it with ToolPolicy rules that match a tool ("email.send", "email.*"
+ * or "*") and conditions on the call's params, with one of three effects:
+ *
+ *   allow             run without approval, even a sensitive tool
+ *   require_approval  halt for approval, even a tool that is not sensitive and
+ *                     even if the user pre-approved it (autoApprovedTools)
+ *   deny              never run; the call fails with ToolPolicyDeniedError
+ *
+ * Rules are checked highest priority first and, at equal priority, strictest
+ * first (deny, require_approval, allow); the first rule whose conditions all
+ * hold decides. When none does the built-in rules apply unchanged. Policies
+ * see the params the tool would actually receive — step references resolved
+ * — and are checked in executeStep and runChatLoop ahead of the approval gate
+ * and execution guards. The evaluation is recorded on the trace entry.
+ *
+ * A condition on a param that holds several values (a list, or a
+ * comma-separated recipient string for the domain operators) holds only if it
+ * holds for every value, and each not* operator is the exact negation of its
+ * counterpart: "to domainIn [ourcompany.com]" means every recipient is
+ * internal, "to domainNotIn [ourcompany.com]" means at least one is not.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { agentWorkspaceWhere } from '@/lib/workspace-utils';
+import type {
+  PolicyEvaluation,
+  ToolPolicyCondition,
+  ToolPolicyEffect,
+  ToolPolicyOperator,
+  ToolPolicyRule,
+} from './types';
+
+export const TOOL_POLICY_EFFECTS: ReadonlyArray<ToolPolicyEffect> = ['allow', 'require_approval', 'deny'];
+
+export const TOOL_POLICY_OPERATORS: ReadonlyArray<ToolPolicyOperator> = [
+  'equals',
+  'notEquals',
+  'in',
+  'notIn',
+  'contains',
+  'notContains',
+  'endsWith',
+  'domainIn',
+  'domainNotIn',
+  'exists',
+  'notExists',
+];
+
+/** Each negated operator and the operator it negates. */
+const NEGATIONS: Partial<Record<ToolPolicyOperator, ToolPolicyOperator>> = {
+  notEquals: 'equals',
+  notIn: 'in',
+  notContains: 'contains',
+  domainNotIn: 'domainIn',
+  notExists: 'exists',
+};
+
+/** Operators whose `value` is a list. */
+const LIST_OPERATORS: ReadonlySet<ToolPolicyOperator> = new Set(['in', 'notIn', 'domainIn', 'domainNotIn']);
+
+/** Lower sorts first: the stricter effect wins a priority tie. */
+const STRICTNESS: Record<ToolPolicyEffect, number> = { deny: 0, require_approval: 1, allow: 2 };
+
+/** Thrown when a workspace policy denies a tool call. Not retryable. */
+export class ToolPolicyDeniedError extends Error {
+  readonly tool: string;
+  readonly policyName: string;
+
+  constructor(tool: string, policyName: string) {
+    super(`"${tool}" was blocked by the workspace policy "${policyName}".`);
+    this.name = 'ToolPolicyDeniedError';
+    this.tool = tool;
+    this.policyName = policyName;
+  }
+}
+
+/** Whether a rule's tool pattern covers `tool`. */
+export function policyMatchesTool(pattern: string, tool: string): boolean {
+  if (pattern === '*' || pattern === tool) return true;
+  return pattern.endsWith('.*') && tool.startsWith(pattern.slice(0, -1));
+}
+
+function valueAt(params: Record<string, any>, path: string): unknown {
+  let value: any = params;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+/**
+ * The host a value points at: a URL's hostname, an email address's domain
+ * ("Ann <ann@x.com>" included), or the value itself as a bare host.
+ */
+function domainOf(value: unknown): string {
+  const text = String(value).trim().toLowerCase();
+  if (text.includes('://')) {
+    try {
+      return new URL(text).hostname;
+    } catch {
+      return text;
+    }
+  }
+  const at = text.lastIndexOf('@');
+  return (at === -1 ? text : text.slice(at + 1)).replace(/>$/, '').trim();
+}
+
+function domainMatches(host: string, domain: string): boolean {
+  const d = String(domain).trim().toLowerCase().replace(/^@/, '');
+  return host === d || host.endsWith(`.${d}`);
+}
+
+function looselyEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || a === undefined || b === null || b === undefined) return false;
+  return typeof a !== 'object' && typeof b !== 'object' && String(a) === String(b);
+}
+
+/** The individual values a condition is tested against. */
+function valuesOf(value: unknown, operator: ToolPolicyOperator): unknown[] {
+  const values = Array.isArray(value) ? value : [value];
+  if (operator !== 'domainIn') return values;
+  // "a@x.com, b@y.com" is two recipients
+  return values.flatMap((v) => (typeof v === 'string' ? v.split(/[,;]/).filter((part) => part.trim()) : [v]));
+}
+
+function holdsFor(operator: ToolPolicyOperator, value: unknown, expected: any): boolean {
+  switch (operator) {
+    case 'equals':
+      return looselyEqual(value, expected);
+    case 'in':
+      return Array.isArray(expected) && expected.some((e) => looselyEqual(value, e));
+    case 'contains':
+      return typeof value === 'string' && value.toLowerCase().includes(String(expected ?? '').toLowerCase());
+    case 'endsWith':
+      return typeof value === 'string' && value.toLowerCase().endsWith(String(expected ?? '').toLowerCase());
+    case 'domainIn':
+      return Array.isArray(expected) && expected.some((d) => domainMatches(domainOf(value), d));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether one condition holds for `params`. Exported for testing.
+ */
+export function conditionHolds(condition: ToolPolicyCondition, params: Record<string, any>): boolean {
+  const negated = NEGATIONS[condition.operator];
+  if (negated) {
+    return !conditionHolds({ ...condition, operator: negated }, params);
+  }
+
+  const value = valueAt(params, condition.param);
+  if (condition.operator === 'exists') {
+    return value !== undefined && value !== null && value !== '';
+  }
+  if (value === undefined || value === null) return false;
+
+  const values = valuesOf(value, condition.operator);
+  return values.length > 0 && values.every((v) => holdsFor(condition.operator, v, condition.value));
+}
+
+/**
+ * Check a tool call against a workspace's rules. Exported for testing.
+ */
+export function evaluateToolPolicies(
+  rules: ToolPolicyRule[],
+  tool: string,
+  params: Record<string, any>
+): PolicyEvaluation {
+  const candidates = rules
+    .filter((rule) => policyMatchesTool(rule.tool, tool))
+    .sort((a, b) => b.priority - a.priority || STRICTNESS[a.effect] - STRICTNESS[b.effect]);
+
+  for (const rule of candidates) {
+    if (rule.conditions.every((condition) => conditionHolds(condition, params))) {
+      return {
+        effect: rule.effect,
+        policyId: rule.id,
+        policyName: rule.name,
+        reason: `Matched workspace policy "${rule.name}"`,
+        rulesChecked: candidates.length,
+      };
+    }
+  }
+
+  return {
+    effect: 'default',
+    reason: candidates.length
+      ? `None of ${candidates.length} workspace policies for ${tool} matched`
+      : `No workspace policy covers ${tool}`,
+    rulesChecked: candidates.length,
+  };
+}
+
+/**
+ * Problems with a rule as submitted through the API, one issue each.
+ */
+export function validatePolicyRule(input: {
+  name?: unknown;
+  tool?: unknown;
+  effect?: unknown;
+  conditions?: unknown;
+  priority?: unknown;
+}): string[] {
+  const issues: string[] = [];
+
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    issues.push('name is required');
+  }
+  if (typeof input.tool !== 'string' || !/^(\*|[\w-]+(\.[\w-]+)*(\.\*)?)$/.test(input.tool)) {
+    issues.push('tool must be a tool name, a prefix such as "email.*", or "*"');
+  }
+  if (!TOOL_POLICY_EFFECTS.includes(input.effect as ToolPolicyEffect)) {
+    issues.push(`effect must be one of: ${TOOL_POLICY_EFFECTS.join(', ')}`);
+  }
+  if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+    issues.push('priority must be an integer');
+  }
+
+  if (input.conditions !== undefined && !Array.isArray(input.conditions)) {
+    issues.push('conditions must be an array');
+  } else {
+    ((input.conditions as any[]) || []).forEach((condition, i) => {
+      if (!condition || typeof condition.param !== 'string' || !condition.param.trim()) {
+        issues.push(`condition ${i + 1} needs a param`);
+        return;
+      }
+      if (!TOOL_POLICY_OPERATORS.includes(condition.operator)) {
+        issues.push(`condition ${i + 1} uses unknown operator "${condition.operator}"`);
+      } else if (LIST_OPERATORS.has(condition.operator) && !Array.isArray(condition.value)) {
+        issues.push(`condition ${i + 1} (${condition.operator}) needs a list value`);
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * The enabled rules that govern a user's agent runs, in the workspace
+ * agentWorkspaceWhere() picks.
+ */
+export async function loadToolPolicies(userId: string, workspaceId?: string): Promise<ToolPolicyRule[]> {
+  const rows = await prisma.toolPolicy.findMany({
+    where: { enabled: true, workspace: await agentWorkspaceWhere(userId, workspaceId) },
+  });
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    tool: row.tool,
+    conditions: (row.conditions as unknown as ToolPolicyCondition[] | null) || [],
+    effect: row.effect as ToolPolicyEffect,
+    priority: row.priority,
+  }));
+}
@@ -6,6 +6,30 @@
 
 import { AgentTool, AgentContext, ToolResult } from '../types';
 import { browserControl } from '@/lib/browser-control';
+import { throwIfStopped } from '../cancellation';
+import { delay } from '../guards';
+
+/**
+ * Open a browser session that is closed the moment the run is stopped, which
+ * ends a page load still in flight instead of leaving it to its timeout.
+ */
+async function openSession(context: AgentContext): Promise<{ sessionId: string; close: () => Promise<void> }> {
+  throwIfStopped(context.signal);
+  const sessionId = await browserControl.createSession(context.userId, context.workspaceId);
+
+  const onAbort = () => {
+    browserControl.closeSession(sessionId).catch(() => undefined);
+  };
+  context.signal?.addEventListener('abort', onAbort, { once: true });
+
+  return {
+    sessionId,
+    close: async () => {
+      context.signal?.removeEventListener('abort', onAbort);
+      await browserControl.closeSession(sessionId);
+    },
+  };
+}
 
 /**
  * Navigate to a URL
@@ -42,7 +66,7 @@ export class BrowserNavigateTool implements AgentTool {
       console.log(`[Browser] Navigating to ${params.url}`);
 
       // Create browser session
-      const sessionId = await browserControl.createSession(context.userId);
+      const { sessionId, close } = await openSession(context);
 
       try {
         // Execute navigation
@@ -77,7 +101,7 @@ export class BrowserNavigateTool implements AgentTool {
         };
       } finally {
         // Always cleanup session
-        await browserControl.closeSession(sessionId);
+        await close();
       }
     } catch (error: any) {
       return {
@@ -126,7 +150,7 @@ export class BrowserExtractTool implements AgentTool {
       console.log(`[Browser] Extracting: ${params.selector}`);
 
       // Create browser session
-      const sessionId = await browserControl.createSession(context.userId);
+      const { sessionId, close } = await openSession(context);
 
       try {
         // Navigate first if URL provided
@@ -167,7 +191,7 @@ export class BrowserExtractTool implements AgentTool {
           },
         };
       } finally {
-        await browserControl.closeSession(sessionId);
+        await close();
       }
     } catch (error: any) {
       return {
@@ -216,7 +240,7 @@ export class BrowserClickTool implements AgentTool {
       console.log(`[Browser] Clicking: ${params.selector}`);
 
       // Create browser session
-      const sessionId = await browserControl.createSession(context.userId);
+      const { sessionId, close } = await openSession(context);
 
       try {
         // Navigate first if URL provided
@@ -257,7 +281,7 @@ export class BrowserClickTool implements AgentTool {
           },
         };
       } finally {
-        await browserControl.closeSession(sessionId);
+        await close();
       }
     } catch (error: any) {
       return {
@@ -301,7 +325,7 @@ export class BrowserScreenshotTool implements AgentTool {
       console.log(`[Browser] Taking screenshot`);
 
       // Create browser session
-      const sessionId = await browserControl.createSession(context.userId);
+      const { sessionId, close } = await openSession(context);
 
       try {
         // Navigate first if URL provided
@@ -341,7 +365,7 @@ export class BrowserScreenshotTool implements AgentTool {
           },
         };
       } finally {
-        await browserControl.closeSession(sessionId);
+        await close();
       }
     } catch (error: any) {
       return {
@@ -395,7 +419,7 @@ export class BrowserWaitForTool implements AgentTool {
       console.log(`[Browser] Waiting for: ${params.selector}`);
 
       // Create browser session
-      const sessionId = await browserControl.createSession(context.userId);
+      const { sessionId, close } = await openSession(context);
 
       try {
         // Navigate first if URL provided
@@ -424,7 +448,7 @@ export class BrowserWaitForTool implements AgentTool {
 
           // Wait before next attempt
           if (i < maxAttempts - 1) {
-            await new Promise(resolve => setTimeout(resolve, checkInterval));
+            await delay(checkInterval, context.signal);
           }
         }
 
@@ -451,7 +475,7 @@ export class BrowserWaitForTool implements AgentTool {
           },
         };
       } finally {
-        await browserControl.closeSession(sessionId);
+        await close();
       }
     } catch (error: any) {
       return {
@@ -130,6 +130,22 @@ export class CalendarCreateEventTool implements AgentTool {
     }
   }
 
+  /**
+   * Dry run: what execute() would return, without creating the event
+   */
+  async simulate(params: { title: string; startTime: string; endTime: string }): Promise<ToolResult> {
+    return {
+      success: true,
+      data: {
+        eventId: 'dry-run',
+        title: params.title,
+        startTime: params.startTime,
+        endTime: params.endTime,
+      },
+      metadata: { duration: 0, credits: 0 },
+    };
+  }
+
   estimateCost(params: any): number {
     return 20;
   }
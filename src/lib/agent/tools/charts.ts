@@ -9,6 +9,7 @@
 
 import { AgentTool, AgentContext, ToolResult } from '../types';
 import { uploadMedia } from '@/lib/storage';
+import { recordArtifact } from '@/lib/artifacts';
 import { withRenderPage } from '../rendering/puppeteer-pool';
 import { buildChartHtml, ChartRenderSpec } from '../rendering/chart-template';
 
@@ -120,10 +121,20 @@ export class ChartRenderTool implements AgentTool {
         extension: 'png',
         contentType: 'image/png',
       });
+      const artifact = await recordArtifact(context, {
+        type: 'chart',
+        mimeType: 'image/png',
+        title: params.title,
+        filename,
+        bytes: upload.bytes,
+        url: upload.url,
+        persisted: upload.persisted,
+        tool: this.name,
+      });
 
       return {
         success: true,
-        data: { url: upload.url, filename, width, height, bytes: upload.bytes, persisted: upload.persisted },
+        data: { url: upload.url, filename, width, height, bytes: upload.bytes, persisted: upload.persisted, ...artifact },
         metadata: { duration: Date.now() - startTime, credits: CHART_CREDITS },
       };
     } catch (error) {
@@ -0,0 +1,373 @@
+/**
+ * Code Tool - run Python or Node code in the workspace's sandbox
+ *
+ * Each call leases the workspace's sandbox VM (see lib/sandbox/orchestrator.ts)
+ * for as long as the code runs, then releases it. The VM is kept between
+ * calls and its workdir survives idle suspends, so a file one step writes is
+ * there for the next step to read. Files the code creates or changes are
+ * uploaded and recorded as artifacts.
+ *
+ * Billing goes through the lease: acquireSandbox checks the budget for the
+ * longest the call could take before anything runs — a denied budget fails
+ * the call without touching the VM — the lease is heartbeated with the run's
+ * tokens while the code runs, and the sandbox time is recorded as a usage
+ * event. Credits are charged per started minute.
+ *
+ * The VM can reach only the workspace's allowed domains (see lib/egress.ts),
+ * and nothing at all when that list is empty. Changing the list rebuilds the
+ * VM, which starts with an empty workdir.
+ *
+ * Stopping the run (see cancellation.ts) kills the code's process in the VM
+ * and releases the lease at once; its files are not collected.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { prisma } from '@/lib/prisma';
+import { agentWorkspaceWhere } from '@/lib/workspace-utils';
+import { uploadMedia, type MediaKind } from '@/lib/storage';
+import { recordArtifact, type ArtifactType } from '@/lib/artifacts';
+import { acquireSandbox, recordSandboxUsage, type SandboxLease } from '@/lib/sandbox/orchestrator';
+import type { ExecRequest, ExecResult } from '@/lib/sandbox/types';
+import { AgentTool, AgentContext, ToolResult } from '../types';
+import { stopReason, throwIfStopped } from '../cancellation';
+
+export const CODE_LANGUAGES = ['python', 'node'] as const;
+export type CodeLanguage = typeof CODE_LANGUAGES[number];
+
+const INTERPRETERS: Record<CodeLanguage, [string, string]> = {
+  python: ['python3', '-c'],
+  node: ['node', '-e'],
+};
+
+/** Code is passed as one argument, which the kernel caps at 128KB. */
+const MAX_CODE_CHARS = 100_000;
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+const MAX_TIMEOUT_SECONDS = 300;
+
+/** Time on the lease beyond the code's own timeout, to collect its files. */
+const COLLECT_MARGIN_MS = 60_000;
+
+/** Well inside the orchestrator's HEARTBEAT_TIMEOUT_MS. */
+const HEARTBEAT_INTERVAL_MS = 20_000;
+
+const CREDITS_PER_MINUTE = 5;
+
+/**
+ * Kills the code started with marker $0 and its children. The code records
+ * its PID in "$0.pid" before exec'ing the interpreter, so the PID is the
+ * interpreter's own.
+ */
+const KILL_SCRIPT = 'pid=$(cat "$0.pid") || exit 0; pkill -KILL -P "$pid"; kill -KILL "$pid"; rm -f "$0" "$0.pid"';
+
+/** stdout and stderr are each cut to their last this many characters. */
+const MAX_OUTPUT_CHARS = 20_000;
+
+const MAX_FILES = 10;
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+/** The lease's token ceiling for a task without a token budget: the column's maximum. */
+const NO_TOKEN_BUDGET = 2_147_483_647;
+
+const FILE_TYPES: Record<string, { mimeType: string; artifact: ArtifactType; media: MediaKind }> = {
+  png: { mimeType: 'image/png', artifact: 'image', media: 'image' },
+  jpg: { mimeType: 'image/jpeg', artifact: 'image', media: 'image' },
+  jpeg: { mimeType: 'image/jpeg', artifact: 'image', media: 'image' },
+  gif: { mimeType: 'image/gif', artifact: 'image', media: 'image' },
+  svg: { mimeType: 'image/svg+xml', artifact: 'image', media: 'image' },
+  webp: { mimeType: 'image/webp', artifact: 'image', media: 'image' },
+  csv: { mimeType: 'text/csv', artifact: 'spreadsheet', media: 'document' },
+  xlsx: {
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    artifact: 'spreadsheet',
+    media: 'document',
+  },
+  pdf: { mimeType: 'application/pdf', artifact: 'document', media: 'document' },
+  json: { mimeType: 'application/json', artifact: 'document', media: 'document' },
+  html: { mimeType: 'text/html', artifact: 'document', media: 'document' },
+  md: { mimeType: 'text/markdown', artifact: 'document', media: 'document' },
+  txt: { mimeType: 'text/plain', artifact: 'document', media: 'document' },
+};
+const OTHER_FILE = { mimeType: 'application/octet-stream', artifact: 'document' as const, media: 'document' as const };
+
+/** Credits for a call that held the sandbox for `durationMs`. Exported for testing. */
+export function codeRunCredits(durationMs: number): number {
+  return CREDITS_PER_MINUTE * Math.max(1, Math.ceil(durationMs / 60_000));
+}
+
+/** The last `max` characters of a stream, marked when cut. */
+function tail(output: string, max = MAX_OUTPUT_CHARS): string {
+  return output.length > max ? `[${output.length - max} earlier characters cut]\n${output.slice(-max)}` : output;
+}
+
+function exitError(run: ExecResult): string {
+  const lastLine = run.stderr.trim().split('\n').pop();
+  return `The code exited with code ${run.exitCode}${lastLine ? `: ${lastLine.slice(0, 500)}` : ''}`;
+}
+
+/**
+ * Files under the workdir changed since `marker` was touched, as listed by
+ * find's "<size>\t<path>" lines. Exported for testing.
+ */
+export function parseChangedFiles(listing: string): { path: string; bytes: number }[] {
+  return listing
+    .split('\n')
+    .map((line) => line.split('\t'))
+    .filter(([size, path]) => path && /^\d+$/.test(size))
+    .map(([size, path]) => ({ path, bytes: Number(size) }));
+}
+
+/**
+ * lease.exec for the code itself, given up the moment the run is stopped:
+ * the code is killed in the VM, then the stop reason is thrown.
+ */
+async function execUntilStopped(
+  lease: SandboxLease,
+  request: ExecRequest,
+  marker: string,
+  signal?: AbortSignal
+): Promise<ExecResult> {
+  if (!signal) return lease.exec(request);
+  throwIfStopped(signal);
+
+  let onAbort = () => {};
+  const stopped = new Promise<never>((_resolve, reject) => {
+    onAbort = () => {
+      lease
+        .exec({ cmd: 'sh', args: ['-c', KILL_SCRIPT, marker], timeoutMs: 10_000 })
+        .catch((error) => console.error('[code.run] Killing stopped code failed:', error))
+        .finally(() => reject(stopReason(signal)));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    // The killed code's exec can come back before the kill's own does
+    const result = await Promise.race([lease.exec(request), stopped]);
+    throwIfStopped(signal);
+    return result;
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * The workspace whose sandbox a call runs in, picked as for tool policies
+ * (see agentWorkspaceWhere), with its allowed domains.
+ */
+async function sandboxWorkspace(context: AgentContext) {
+  return prisma.workspace.findFirst({
+    where: await agentWorkspaceWhere(context.userId, context.workspaceId),
+    select: { id: true, egressAllowedDomains: true },
+  });
+}
+
+/**
+ * Run Python or Node code in the workspace's sandbox
+ */
+export class CodeRunTool implements AgentTool {
+  name = 'code.run';
+  description =
+    'Run Python or Node.js code in an isolated sandbox and get back its stdout, stderr and exit code. ' +
+    'The working directory is kept between calls, so files written by one call can be read by the next; ' +
+    'files the code creates or changes are returned as downloadable artifacts. Print what you need to see.';
+  category = 'utility' as const;
+  inputSchema = {
+    type: 'object' as const,
+    properties: {
+      language: { type: 'string', description: 'The language of the code', enum: [...CODE_LANGUAGES] },
+      code: { type: 'string', description: 'The program to run, run as python3 -c or node -e in the working directory' },
+      timeoutSeconds: {
+        type: 'number',
+        description: `Stop the code after this many seconds (default ${DEFAULT_TIMEOUT_SECONDS}, at most ${MAX_TIMEOUT_SECONDS})`,
+      },
+    },
+    required: ['language', 'code'],
+  };
+
+  validate(params: any): { valid: boolean; error?: string } {
+    if (!CODE_LANGUAGES.includes(params?.language)) {
+      return { valid: false, error: `language must be one of ${CODE_LANGUAGES.join(', ')}` };
+    }
+    if (typeof params.code !== 'string' || !params.code.trim()) {
+      return { valid: false, error: 'code parameter required (string)' };
+    }
+    if (params.code.length > MAX_CODE_CHARS) {
+      return { valid: false, error: `code must be at most ${MAX_CODE_CHARS} characters` };
+    }
+    const timeout = params.timeoutSeconds;
+    if (timeout !== undefined && (typeof timeout !== 'number' || timeout < 1 || timeout > MAX_TIMEOUT_SECONDS)) {
+      return { valid: false, error: `timeoutSeconds must be between 1 and ${MAX_TIMEOUT_SECONDS}` };
+    }
+    return { valid: true };
+  }
+
+  async execute(
+    params: { language: CodeLanguage; code: string; timeoutSeconds?: number },
+    context: AgentContext
+  ): Promise<ToolResult> {
+    const startTime = Date.now();
+    const fail = (error: string, credits = 0): ToolResult => ({
+      success: false,
+      error,
+      metadata: { duration: Date.now() - startTime, credits },
+    });
+
+    throwIfStopped(context.signal);
+    const workspace = await sandboxWorkspace(context);
+    if (!workspace) {
+      return fail('There is no workspace to run code in');
+    }
+
+    // Chat turns have no Task row for the lease to point at
+    const task = await prisma.task.findFirst({
+      where: { id: context.taskId, userId: context.userId },
+      select: { id: true, tokenBudget: true },
+    });
+
+    const timeoutMs = Math.round((params.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000);
+    throwIfStopped(context.signal);
+    const acquired = await acquireSandbox(
+      workspace.id,
+      {
+        estimatedCredits: codeRunCredits(timeoutMs + COLLECT_MARGIN_MS),
+        tokenCeiling: task?.tokenBudget ?? NO_TOKEN_BUDGET,
+        wallClockCeilingMs: timeoutMs + COLLECT_MARGIN_MS,
+      },
+      { networkAllowlist: workspace.egressAllowedDomains, taskId: task?.id }
+    );
+
+    if (!acquired.allowed) {
+      const { remaining, estimate } = acquired.spend;
+      return fail(
+        acquired.reason === 'budget_denied'
+          ? `Not enough credits to run code: this call may use up to ${estimate} and ${Math.max(0, remaining)} are left`
+          : `Running this code may use up to ${estimate} of the ${remaining} credits left, which needs the user's confirmation`
+      );
+    }
+
+    const { lease } = acquired;
+    const tokensUsed = () => context.state?.tokensUsed ?? 0;
+    let releaseReason: 'completed' | 'error' | 'token_ceiling' = 'completed';
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+    try {
+      if (lease.ceilingHit(tokensUsed()) === 'token_ceiling') {
+        releaseReason = 'token_ceiling';
+        return fail('The run has used up its token budget');
+      }
+
+      await lease.heartbeat(tokensUsed());
+      heartbeat = setInterval(() => {
+        lease.heartbeat(tokensUsed()).catch((error) => console.error('[code.run] Heartbeat failed:', error));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      const marker = `/tmp/code-run-${randomUUID()}`;
+      const [interpreter, flag] = INTERPRETERS[params.language];
+      const run = await execUntilStopped(
+        lease,
+        {
+          cmd: 'sh',
+          args: ['-c', 'touch "$0" && echo $$ > "$0.pid" && exec "$@"', marker, interpreter, flag, params.code],
+          timeoutMs,
+        },
+        marker,
+        context.signal
+      );
+
+      const files = await this.collectFiles(lease, marker, context);
+      const credits = codeRunCredits(Date.now() - startTime);
+
+      return {
+        success: run.exitCode === 0,
+        data: {
+          exitCode: run.exitCode,
+          stdout: tail(run.stdout),
+          stderr: tail(run.stderr),
+          durationMs: run.durationMs,
+          files,
+        },
+        error: run.exitCode === 0 ? undefined : exitError(run),
+        metadata: { duration: Date.now() - startTime, credits },
+      };
+    } catch (error) {
+      if (context.signal?.aborted) throw error;
+      releaseReason = 'error';
+      return fail(
+        `The sandbox could not run the code: ${error instanceof Error ? error.message : String(error)}`,
+        codeRunCredits(Date.now() - startTime)
+      );
+    } finally {
+      if (heartbeat) clearInterval(heartbeat);
+      await lease.release(releaseReason).catch((error) => console.error('[code.run] Lease release failed:', error));
+      await recordSandboxUsage({
+        workspaceId: workspace.id,
+        taskId: task?.id,
+        leaseId: lease.leaseId,
+        phase: 'active',
+        billableSeconds: Math.ceil((Date.now() - startTime) / 1000),
+      }).catch((error) => console.error('[code.run] Recording sandbox usage failed:', error));
+    }
+  }
+
+  /**
+   * Upload the files changed since `marker`, up to MAX_FILES of at most
+   * MAX_FILE_BYTES each; larger ones, and any that cannot be read or
+   * stored, are listed without a URL.
+   */
+  private async collectFiles(lease: SandboxLease, marker: string, context: AgentContext) {
+    const listing = await lease.exec({
+      cmd: 'sh',
+      args: ['-c', 'find . -type f -newer "$0" -not -path "*/.*" -printf "%s\\t%P\\n" | head -n "$1"; rm -f "$0" "$0.pid"', marker, String(MAX_FILES)],
+      timeoutMs: 30_000,
+    });
+
+    const files: { path: string; bytes: number; url?: string; artifactId?: string }[] = [];
+    for (const file of parseChangedFiles(listing.stdout)) {
+      if (file.bytes > MAX_FILE_BYTES) {
+        files.push(file);
+        continue;
+      }
+
+      const read = await lease.exec({ cmd: 'base64', args: ['-w0', '--', file.path], timeoutMs: 30_000 });
+      if (read.exitCode !== 0) {
+        files.push(file);
+        continue;
+      }
+
+      const extension = file.path.includes('.') ? file.path.split('.').pop()!.toLowerCase() : 'bin';
+      const type = FILE_TYPES[extension] ?? OTHER_FILE;
+      let upload;
+      try {
+        upload = await uploadMedia(read.stdout.trim(), {
+          kind: type.media,
+          userId: context.userId,
+          extension,
+          contentType: type.mimeType,
+          base64: true,
+        });
+      } catch (error) {
+        // The code ran; a file that cannot be stored is listed without a URL
+        console.error(`[code.run] Uploading ${file.path} failed:`, error);
+        files.push(file);
+        continue;
+      }
+      const artifact = await recordArtifact(context, {
+        type: type.artifact,
+        mimeType: type.mimeType,
+        title: file.path,
+        filename: file.path.split('/').pop(),
+        bytes: upload.bytes,
+        url: upload.url,
+        persisted: upload.persisted,
+        tool: this.name,
+      });
+      files.push({ ...file, url: upload.url, ...(artifact && { artifactId: artifact.artifactId }) });
+    }
+    return files;
+  }
+
+  estimateCost(params: any): number {
+    return codeRunCredits((params?.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000);
+  }
+}
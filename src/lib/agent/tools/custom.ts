@@ -0,0 +1,396 @@
+/**
+ * Custom Tools - HTTP endpoints users describe, called as agent tools
+ *
+ * Each CustomTool row becomes one tool named `custom.<slug>` for its owner's
+ * runs and chats (see ../custom-tools.ts). Params are checked against the
+ * row's JSON Schema; placeholders like {id} in the endpoint are filled from
+ * them and the rest go in the query string (GET, DELETE) or a JSON body,
+ * unless a param's `x-in` says where it goes (see ParamLocation).
+ *
+ * Credentials come from the linked Integration, decrypted only for the
+ * request: the model sees the tool's name, description and parameters, never
+ * the endpoint's auth.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { decryptIntegration } from '@/lib/integrations/store';
+import { EgressError, loadEgressPolicy, safeFetch } from '@/lib/egress';
+import { AgentTool, AgentContext, ToolResult } from '../types';
+
+export const CUSTOM_TOOL_PREFIX = 'custom.';
+
+export const CUSTOM_TOOL_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+export type CustomToolMethod = (typeof CUSTOM_TOOL_METHODS)[number];
+
+export const CUSTOM_TOOL_PARAM_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
+
+/**
+ * Where a param is sent, set by a property's `x-in` in the stored schema
+ * (OpenAPI imports set it on every param). The model never sees `x-in`.
+ */
+export const CUSTOM_TOOL_PARAM_LOCATIONS = ['path', 'query', 'header', 'body'] as const;
+export type ParamLocation = (typeof CUSTOM_TOOL_PARAM_LOCATIONS)[number];
+
+const PARAM_LOCATION_KEY = 'x-in';
+
+/** Credits per call, as for http.get and http.post. */
+const CUSTOM_TOOL_CREDITS = 5;
+
+/** Longest text response kept; JSON is kept whole. */
+const MAX_TEXT_RESPONSE_CHARS = 100_000;
+
+/**
+ * How the integration's credential is sent. Defaults to a bearer token.
+ *   bearer  Authorization: Bearer <credential>
+ *   header  <name>: <credential>
+ *   query   ?<name>=<credential>
+ *   none    nothing
+ */
+export interface CustomToolAuthentication {
+  type: 'bearer' | 'header' | 'query' | 'none';
+  name?: string;
+  /** Which of the integration's secrets to send (default: apiKey, else accessToken) */
+  credential?: 'apiKey' | 'accessToken';
+}
+
+/**
+ * What the model gets back from a success: the whole body by default, the
+ * value at `path`, or an object of `fields` each read from its own path.
+ * Paths are dot-separated keys and array indexes, e.g. "data.items.0.id".
+ */
+export interface CustomToolResponseMapping {
+  path?: string;
+  fields?: Record<string, string>;
+}
+
+/**
+ * The error a failed call reports: `messages` by status code, else the value
+ * at `messagePath` in the body, else the status.
+ */
+export interface CustomToolErrorMapping {
+  messagePath?: string;
+  messages?: Record<string, string>;
+}
+
+export interface CustomToolDefinition {
+  id: string;
+  integrationId: string;
+  name: string;
+  description: string | null;
+  endpoint: string;
+  method: string;
+  parameters: unknown;
+  headers: unknown;
+  authentication: unknown;
+  responseMapping: unknown;
+  errorMapping: unknown;
+}
+
+type ParameterSchema = AgentTool['inputSchema'];
+
+/**
+ * The tool name for a custom tool's display name: `custom.` and the name
+ * lowercased, anything but letters, digits and underscores made underscores.
+ */
+export function customToolName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 48);
+  return `${CUSTOM_TOOL_PREFIX}${slug || 'tool'}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function storedProperties(parameters: unknown): Record<string, any> {
+  return isPlainObject(parameters) && isPlainObject(parameters.properties) ? parameters.properties : {};
+}
+
+/** The stored schema as a tool's inputSchema; anything unusable is dropped. */
+function toInputSchema(parameters: unknown): ParameterSchema {
+  const properties = Object.fromEntries(
+    Object.entries(storedProperties(parameters)).map(([name, property]) => {
+      if (!isPlainObject(property)) return [name, property];
+      const { [PARAM_LOCATION_KEY]: _location, ...rest } = property;
+      return [name, rest];
+    })
+  );
+  const required = isPlainObject(parameters) && Array.isArray(parameters.required) ? parameters.required : [];
+  return {
+    type: 'object',
+    properties: properties as ParameterSchema['properties'],
+    required: required.filter((name: unknown): name is string => typeof name === 'string' && name in properties),
+  };
+}
+
+/** The params the stored schema places explicitly, by name. */
+function toLocations(parameters: unknown): Record<string, ParamLocation> {
+  const locations: Record<string, ParamLocation> = {};
+  for (const [name, property] of Object.entries(storedProperties(parameters))) {
+    const location = isPlainObject(property) ? property[PARAM_LOCATION_KEY] : undefined;
+    if (CUSTOM_TOOL_PARAM_LOCATIONS.includes(location)) locations[name] = location;
+  }
+  return locations;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Why `params` do not fit `schema`, or null when they do. Checks required
+ * params, each param's type and enum, and rejects params the schema does not
+ * name. Exported for testing.
+ */
+export function schemaViolation(schema: ParameterSchema, params: unknown): string | null {
+  if (!isPlainObject(params)) return 'params must be an object';
+
+  for (const name of schema.required || []) {
+    if (params[name] === undefined || params[name] === null) return `${name} parameter required`;
+  }
+  for (const [name, value] of Object.entries(params)) {
+    const property = schema.properties[name];
+    if (!property) return `unknown parameter ${name}`;
+    if (value === undefined || value === null) continue;
+    if (property.type && !matchesType(value, property.type)) {
+      return `${name} must be of type ${property.type}`;
+    }
+    if (property.enum && !property.enum.includes(value as string)) {
+      return `${name} must be one of ${property.enum.join(', ')}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * The value at a dot path, or undefined. Exported for testing.
+ */
+export function valueAtPath(value: unknown, path: string): unknown {
+  let current: any = value;
+  for (const key of path.split('.').filter(Boolean)) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+/**
+ * A success's body as the tool's mapping says to return it.
+ * Exported for testing.
+ */
+export function mapResponse(body: unknown, mapping: unknown): unknown {
+  if (!isPlainObject(mapping)) return body;
+  if (isPlainObject(mapping.fields)) {
+    return Object.fromEntries(
+      Object.entries(mapping.fields).map(([field, path]) => [field, valueAtPath(body, String(path)) ?? null])
+    );
+  }
+  return typeof mapping.path === 'string' ? valueAtPath(body, mapping.path) ?? null : body;
+}
+
+/**
+ * A failure's error message as the tool's mapping says to report it.
+ * Exported for testing.
+ */
+export function mapError(status: number, body: unknown, mapping: unknown): string {
+  if (isPlainObject(mapping)) {
+    const byStatus = isPlainObject(mapping.messages) ? mapping.messages[String(status)] : undefined;
+    if (typeof byStatus === 'string') return byStatus;
+
+    const message = typeof mapping.messagePath === 'string' ? valueAtPath(body, mapping.messagePath) : undefined;
+    if (typeof message === 'string' && message) return `HTTP ${status}: ${message.slice(0, 500)}`;
+  }
+  return `HTTP ${status}`;
+}
+
+function paramString(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * The request a call makes, before credentials are added. Endpoint
+ * placeholders are filled and URL-encoded; params with a location go there,
+ * and the rest go in the query string or the body. Exported for testing.
+ */
+export function buildRequest(
+  endpoint: string,
+  method: string,
+  params: Record<string, unknown>,
+  locations: Record<string, ParamLocation> = {}
+): { url: URL; body?: string; headers: Record<string, string> } {
+  const rest = { ...params };
+  const filled = endpoint.replace(/\{([^{}/?#]+)\}/g, (_match, name: string) => {
+    const value = rest[name];
+    delete rest[name];
+    return encodeURIComponent(value === undefined || value === null ? '' : String(value));
+  });
+
+  const url = new URL(filled);
+  const headers: Record<string, string> = {};
+  const bodyFields: Record<string, unknown> = {};
+  const sendsBody = method !== 'GET' && method !== 'DELETE';
+  let hasBody = sendsBody && !Object.values(locations).length;
+
+  for (const [key, value] of Object.entries(rest)) {
+    const location = locations[key] ?? (sendsBody ? 'body' : 'query');
+    if (location === 'body') {
+      bodyFields[key] = value;
+      hasBody = true;
+    } else if (value === undefined || value === null) {
+      continue;
+    } else if (location === 'header') {
+      headers[key] = paramString(value);
+    } else {
+      url.searchParams.append(key, paramString(value));
+    }
+  }
+
+  return hasBody ? { url, body: JSON.stringify(bodyFields), headers } : { url, headers };
+}
+
+/**
+ * An agent tool backed by one CustomTool row
+ */
+export class CustomHttpTool implements AgentTool {
+  name: string;
+  description: string;
+  category = 'integration' as const;
+  inputSchema: ParameterSchema;
+  private locations: Record<string, ParamLocation>;
+
+  constructor(private definition: CustomToolDefinition) {
+    this.name = customToolName(definition.name);
+    this.description =
+      definition.description?.trim() ||
+      `${definition.name}: calls ${definition.method.toUpperCase()} ${new URL(definition.endpoint).host}`;
+    this.inputSchema = toInputSchema(definition.parameters);
+    this.locations = toLocations(definition.parameters);
+  }
+
+  get customToolId(): string {
+    return this.definition.id;
+  }
+
+  /** The HTTP method, upper-case; anything but GET needs approval (see approval.ts) */
+  get method(): string {
+    return this.definition.method.toUpperCase();
+  }
+
+  validate(params: any): { valid: boolean; error?: string } {
+    const violation = schemaViolation(this.inputSchema, params ?? {});
+    return violation ? { valid: false, error: violation } : { valid: true };
+  }
+
+  async execute(params: Record<string, unknown>, context: AgentContext): Promise<ToolResult> {
+    const startTime = Date.now();
+    const fail = (error: string): ToolResult => ({
+      success: false,
+      error,
+      metadata: { duration: Date.now() - startTime, credits: CUSTOM_TOOL_CREDITS },
+    });
+
+    const row = await prisma.integration.findFirst({
+      where: { id: this.definition.integrationId, userId: context.userId },
+    });
+    if (!row || !row.isActive) {
+      return fail('The integration this tool uses is disconnected');
+    }
+    const integration = decryptIntegration(row);
+
+    const method = this.method;
+    const request = buildRequest(this.definition.endpoint, method, params ?? {}, this.locations);
+    const { url, body } = request;
+    const headers: Record<string, string> = { ...request.headers };
+    if (isPlainObject(this.definition.headers)) {
+      for (const [key, value] of Object.entries(this.definition.headers)) {
+        if (typeof value === 'string') headers[key] = value;
+      }
+    }
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+
+    const auth: Partial<CustomToolAuthentication> = isPlainObject(this.definition.authentication)
+      ? this.definition.authentication
+      : {};
+    const secret =
+      auth.credential === 'accessToken'
+        ? integration.accessToken
+        : auth.credential === 'apiKey'
+          ? integration.apiKey
+          : integration.apiKey || integration.accessToken;
+    if (secret && auth.type !== 'none') {
+      if (auth.type === 'header' && auth.name) headers[auth.name] = secret;
+      else if (auth.type === 'query' && auth.name) url.searchParams.set(auth.name, secret);
+      else headers.Authorization = `Bearer ${secret}`;
+    }
+
+    let response: Response;
+    try {
+      const policy = await loadEgressPolicy(context.userId, context.workspaceId);
+      response = await safeFetch(url, { method, headers, body, signal: context.signal, policy });
+    } catch (error) {
+      // A network error can quote the URL, which may carry the credential
+      const message = error instanceof Error ? error.message : String(error);
+      return fail(secret ? message.split(secret).join('[redacted]') : message);
+    } finally {
+      void this.recordCall();
+    }
+
+    const isJson = response.headers.get('content-type')?.includes('json');
+    let responseBody: unknown;
+    try {
+      responseBody = isJson ? await response.json() : (await response.text()).slice(0, MAX_TEXT_RESPONSE_CHARS);
+    } catch (error) {
+      if (error instanceof EgressError) return fail(error.message);
+      responseBody = null;
+    }
+
+    if (!response.ok) {
+      return fail(mapError(response.status, responseBody, this.definition.errorMapping));
+    }
+
+    return {
+      success: true,
+      data: mapResponse(responseBody, this.definition.responseMapping),
+      metadata: { duration: Date.now() - startTime, credits: CUSTOM_TOOL_CREDITS },
+    };
+  }
+
+  estimateCost(): number {
+    return CUSTOM_TOOL_CREDITS;
+  }
+
+  /** Count the call. Best-effort: usage tracking never fails a call. */
+  private async recordCall(): Promise<void> {
+    try {
+      const now = new Date();
+      await prisma.customTool.update({
+        where: { id: this.definition.id },
+        data: { totalCalls: { increment: 1 }, lastUsedAt: now },
+      });
+      await prisma.integration.update({
+        where: { id: this.definition.integrationId },
+        data: { lastUsedAt: now },
+      });
+    } catch (error) {
+      console.error(`[CustomTools] Failed to record a call of ${this.definition.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Delegate Tool - hand a sub-goal to a bounded sub-agent
+ *
+ * The child runs as a Task of its own on an AgentExecutor limited to the tools
+ * and credits it was given, and the caller waits for its result. Depth,
+ * budgets and cancellation are covered in ../delegation.ts.
+ */
+
+import { AgentTool, AgentContext, AgentConfig, AgentResult, AgentTask, ExecutionPlan, ToolResult } from '../types';
+import { AgentExecutor } from '../executor';
+import { COST_LIMITS } from '../guards';
+import { withdrawTaskApprovals } from '../approval-inbox';
+import {
+  DELEGATE_TOOL_NAME,
+  DELEGATION_TIMEOUT_MS,
+  MAX_DELEGATION_DEPTH,
+  SUMMARY_THRESHOLD_CHARS,
+  childBudget,
+  childResultText,
+  childToolNames,
+  trackChildRun,
+} from '../delegation';
+import { toolRegistry } from './registry';
+
+const SUMMARY_MODEL = 'claude-haiku-4-5-20250529';
+
+export class AgentDelegateTool implements AgentTool {
+  name = DELEGATE_TOOL_NAME;
+  description =
+    'Hand a self-contained sub-goal to a sub-agent that plans and runs it as a task of its own, with a subset of your tools and part of your credit budget. Waits for it to finish and returns a summary of its result.';
+  category = 'utility' as const;
+  inputSchema = {
+    type: 'object' as const,
+    properties: {
+      goal: { type: 'string', description: 'What the sub-agent should achieve, stated so it can work without further context' },
+      tools: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Tool names the sub-agent may use, all available to you (default: all of yours)',
+      },
+      maxCredits: { type: 'number', description: 'Credits the sub-agent may spend, taken from your budget (default 500)' },
+      context: { type: 'object', description: 'Optional facts or data the sub-agent needs' },
+    },
+    required: ['goal'],
+  };
+
+  validate(params: any): { valid: boolean; error?: string } {
+    if (!params.goal || typeof params.goal !== 'string') {
+      return { valid: false, error: 'goal parameter required (string)' };
+    }
+    if (params.tools !== undefined && (!Array.isArray(params.tools) || params.tools.some((t: unknown) => typeof t !== 'string'))) {
+      return { valid: false, error: 'tools must be an array of tool names' };
+    }
+    if (params.maxCredits !== undefined && !(typeof params.maxCredits === 'number' && params.maxCredits > 0)) {
+      return { valid: false, error: 'maxCredits must be a positive number' };
+    }
+    if (params.context !== undefined && (typeof params.context !== 'object' || params.context === null || Array.isArray(params.context))) {
+      return { valid: false, error: 'context must be an object' };
+    }
+    return { valid: true };
+  }
+
+  async execute(
+    params: {
+      goal: string;
+      tools?: string[];
+      maxCredits?: number;
+      context?: Record<string, any>;
+    },
+    context: AgentContext
+  ): Promise<ToolResult> {
+    const startTime = Date.now();
+    const failure = (error: string, delegatedCredits = 0): ToolResult => ({
+      success: false,
+      error,
+      metadata: { duration: Date.now() - startTime, credits: 0, delegatedCredits },
+    });
+
+    const depth = (context.delegationDepth ?? 0) + 1;
+    if (depth > MAX_DELEGATION_DEPTH) {
+      return failure(`Sub-agents can only be nested ${MAX_DELEGATION_DEPTH} deep; do this work directly`);
+    }
+
+    const tools = childToolNames(params.tools, context.toolNames ?? toolRegistry.getToolNames(), depth);
+    if (!tools.ok) {
+      return failure(tools.message);
+    }
+
+    const remaining = (context.creditLimit ?? COST_LIMITS.maxCreditsPerTask) - context.state.creditsUsed;
+    const budget = childBudget(params.maxCredits, remaining);
+    if (budget <= 0) {
+      return failure('No credits left in this task\'s budget to delegate');
+    }
+
+    // Chat turns have no Task row to link to
+    const parent = await context.prisma.task.findUnique({
+      where: { id: context.taskId },
+      select: { id: true, projectId: true, priority: true },
+    });
+
+    const config: AgentConfig = { maxCredits: budget, delegationDepth: depth, retryCount: 1, toolNames: tools.tools };
+
+    const childTask = await context.prisma.task.create({
+      data: {
+        userId: context.userId,
+        projectId: parent?.projectId ?? null,
+        parentTaskId: parent?.id ?? null,
+        title: params.goal.substring(0, 100),
+        description: params.goal,
+        agentType: 'custom',
+        agentConfig: config as any,
+        status: 'planning',
+        priority: parent?.priority ?? 'medium',
+        startedAt: new Date(),
+      },
+    });
+
+    const agentTask: AgentTask = {
+      id: childTask.id,
+      userId: context.userId,
+      type: 'custom',
+      goal: params.goal,
+      config,
+      context: { ...params.context, delegatedBy: context.taskId },
+      createdAt: childTask.createdAt,
+    };
+
+    const executor = new AgentExecutor('custom', config, toolRegistry.subset(tools.tools));
+    const untrack = trackChildRun(context.taskId, executor);
+
+    try {
+      const plan = await executor.plan(agentTask);
+      if (plan.estimatedCredits > budget) {
+        const message = `Sub-task plan needs about ${plan.estimatedCredits} credits, over its budget of ${budget}`;
+        await context.prisma.task.update({
+          where: { id: childTask.id },
+          data: { plan: plan as any, status: 'failed', error: message, failedAt: new Date() },
+        });
+        return failure(message);
+      }
+
+      await context.prisma.task.update({
+        where: { id: childTask.id },
+        data: { plan: plan as any, totalSteps: plan.totalSteps, status: 'executing' },
+      });
+
+      const result = await this.executeWithin(executor, agentTask, plan, context.signal);
+      if (result.status === 'awaiting_approval') {
+        const message = `${result.error} A sub-agent cannot wait for approval; do this step directly`;
+        await withdrawTaskApprovals(childTask.id);
+        await context.prisma.task.updateMany({
+          where: { id: childTask.id, status: 'awaiting_approval' },
+          data: { status: 'failed', error: message, failedAt: new Date() },
+        });
+        return failure(`Sub-task ${childTask.id} failed: ${message}`, result.creditsUsed);
+      }
+
+      const summary = await this.summarize(params.goal, result, context);
+
+      const data = {
+        childTaskId: childTask.id,
+        status: result.status,
+        summary: summary.text,
+        steps: result.steps,
+        creditsUsed: result.creditsUsed,
+        budget,
+      };
+
+      if (result.status !== 'completed') {
+        return {
+          success: false,
+          data,
+          error: `Sub-task ${childTask.id} ended ${result.status}: ${result.error || summary.text}`,
+          metadata: {
+            duration: Date.now() - startTime,
+            credits: summary.credits,
+            tokens: summary.tokens,
+            delegatedCredits: result.creditsUsed,
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data,
+        metadata: {
+          duration: Date.now() - startTime,
+          credits: summary.credits,
+          tokens: summary.tokens,
+          delegatedCredits: result.creditsUsed,
+        },
+      };
+    } catch (error: any) {
+      await context.prisma.task.updateMany({
+        where: { id: childTask.id, status: { in: ['planning', 'executing'] } },
+        data: { status: 'failed', error: error.message, failedAt: new Date() },
+      });
+      // Whatever the child's checkpoints charged before it stopped
+      const spent = await context.prisma.task.findUnique({
+        where: { id: childTask.id },
+        select: { totalCredits: true },
+      });
+      return failure(`Sub-task ${childTask.id} failed: ${error.message}`, spent?.totalCredits ?? 0);
+    } finally {
+      untrack();
+    }
+  }
+
+  async simulate(params: { goal: string; maxCredits?: number }, context: AgentContext): Promise<ToolResult> {
+    return {
+      success: true,
+      data: {
+        childTaskId: null,
+        status: 'completed',
+        summary: `[dry run] A sub-agent would work on: ${params.goal}`,
+        steps: 0,
+        creditsUsed: 0,
+        budget: childBudget(
+          params.maxCredits,
+          (context.creditLimit ?? COST_LIMITS.maxCreditsPerTask) - context.state.creditsUsed
+        ),
+      },
+      metadata: { duration: 0, credits: 0 },
+    };
+  }
+
+  estimateCost(params: any): number {
+    // Only the summary is charged to this call; the child pays as it runs
+    return params.goal ? 3 : 0;
+  }
+
+  /**
+   * Execute within DELEGATION_TIMEOUT_MS, cancelling the child if it goes
+   * over or the parent is stopped.
+   */
+  private async executeWithin(
+    executor: AgentExecutor,
+    agentTask: AgentTask,
+    plan: ExecutionPlan,
+    signal?: AbortSignal
+  ): Promise<AgentResult> {
+    const onAbort = () => void executor.cancel();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        void executor.cancel();
+        reject(new Error(`Timed out after ${DELEGATION_TIMEOUT_MS / 1000}s`));
+      }, DELEGATION_TIMEOUT_MS);
+    });
+
+    try {
+      return await Promise.race([executor.execute(agentTask, plan), timeout]);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * The child's result as the parent will see it: as is when short, else
+   * summarised by a cheap model with the goal in mind (cut short if that
+   * fails).
+   */
+  private async summarize(
+    goal: string,
+    result: AgentResult,
+    context: AgentContext
+  ): Promise<{ text: string; credits: number; tokens: number }> {
+    const { text, needsSummary } = childResultText(result);
+    if (!needsSummary) {
+      return { text, credits: 0, tokens: 0 };
+    }
+
+    try {
+      const response = await context.aiRouter.chat(SUMMARY_MODEL, {
+        messages: [
+          {
+            role: 'user',
+            content: `A sub-agent was asked to: ${goal}\n\nSummarize its result below for the agent that asked, keeping every figure, name, link and finding it will need (max 300 words):\n\n${text}`,
+          },
+        ],
+        maxTokens: 1024,
+      });
+      return {
+        text: response.content,
+        credits: context.aiRouter.estimateCredits(SUMMARY_MODEL, response.usage.totalTokens),
+        tokens: response.usage.totalTokens,
+      };
+    } catch (error) {
+      console.error('[Agent] Failed to summarize a sub-task result:', error);
+      return { text: `${text.substring(0, SUMMARY_THRESHOLD_CHARS)}…`, credits: 0, tokens: 0 };
+    }
+  }
+}
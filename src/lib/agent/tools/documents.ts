@@ -13,7 +13,9 @@
 
 import { AgentTool, AgentContext, ToolResult } from '../types';
 import { uploadMedia } from '@/lib/storage';
+import { recordArtifact } from '@/lib/artifacts';
 import { renderHtmlToPdf } from '../rendering/html-to-pdf';
+import { loadEgressPolicy, safeFetch } from '@/lib/egress';
 import type { ChartSpec, TableSpec, ImageAsset, Citation, DocumentSection } from '@/lib/documents/types';
 
 /** Local rendering only — no provider spend, so these stay cheap. */
@@ -158,6 +160,7 @@ export class DocumentCreatePdfTool implements AgentTool {
 
     try {
       const sections = resolveSections(params);
+      const egressPolicy = await loadEgressPolicy(context.userId, context.workspaceId);
       const buffer = await renderHtmlToPdf({
         title: params.title,
         subtitle: params.subtitle,
@@ -167,7 +170,7 @@ export class DocumentCreatePdfTool implements AgentTool {
         images: params.images,
         citations: params.citations,
         theme: params.theme,
-      });
+      }, egressPolicy);
 
       const filename = safeFilename(params.filename || params.title, 'document') + '.pdf';
       const upload = await uploadMedia(buffer, {
@@ -176,9 +179,19 @@ export class DocumentCreatePdfTool implements AgentTool {
         extension: 'pdf',
         contentType: 'application/pdf',
       });
+      const artifact = await recordArtifact(context, {
+        type: 'document',
+        mimeType: 'application/pdf',
+        title: params.title,
+        filename,
+        bytes: upload.bytes,
+        url: upload.url,
+        persisted: upload.persisted,
+        tool: this.name,
+      });
 
       return ok(
-        { url: upload.url, filename, bytes: upload.bytes, persisted: upload.persisted },
+        { url: upload.url, filename, bytes: upload.bytes, persisted: upload.persisted, ...artifact },
         DOCUMENT_CREDITS.pdf,
         startTime
       );
@@ -250,6 +263,7 @@ export class DocumentCreateDocxTool implements AgentTool {
       const images = params.images || [];
       const citations = params.citations || [];
       const citationIndex = new Map(citations.map((c, i) => [c.id, i + 1]));
+      const egressPolicy = await loadEgressPolicy(context.userId, context.workspaceId);
 
       const children: any[] = [new Paragraph({ text: params.title, heading: HeadingLevel.TITLE })];
 
@@ -294,7 +308,7 @@ export class DocumentCreateDocxTool implements AgentTool {
           const chart = charts.find((c) => c.id === chartId);
           if (chart?.imageUrl) {
             try {
-              const res = await fetch(chart.imageUrl);
+              const res = await safeFetch(chart.imageUrl, { signal: context.signal, policy: egressPolicy });
               const buf = Buffer.from(await res.arrayBuffer());
               children.push(
                 new Paragraph({
@@ -314,7 +328,7 @@ export class DocumentCreateDocxTool implements AgentTool {
           const image = images.find((i) => i.id === imageId);
           if (image?.url) {
             try {
-              const res = await fetch(image.url);
+              const res = await safeFetch(image.url, { signal: context.signal, policy: egressPolicy });
               const buf = Buffer.from(await res.arrayBuffer());
               children.push(
                 new Paragraph({
@@ -354,9 +368,19 @@ export class DocumentCreateDocxTool implements AgentTool {
         extension: 'docx',
         contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
       });
+      const artifact = await recordArtifact(context, {
+        type: 'document',
+        mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        title: params.title,
+        filename,
+        bytes: upload.bytes,
+        url: upload.url,
+        persisted: upload.persisted,
+        tool: this.name,
+      });
 
       return ok(
-        { url: upload.url, filename, bytes: upload.bytes, persisted: upload.persisted },
+        { url: upload.url, filename, bytes: upload.bytes, persisted: upload.persisted, ...artifact },
         DOCUMENT_CREDITS.docx,
         startTime
       );
@@ -484,6 +508,7 @@ export class DocumentCreateDeckTool implements AgentTool {
       const DARK = '0F172A';
       const BODY = '334155';
       const charts = params.charts || [];
+      const egressPolicy = await loadEgressPolicy(context.userId, context.workspaceId);
 
       // Title slide
       const cover = pptx.addSlide();
@@ -558,7 +583,7 @@ export class DocumentCreateDeckTool implements AgentTool {
         const mediaUrl = chart?.imageUrl || slide.imageUrl;
         if (mediaUrl) {
           try {
-            const res = await fetch(mediaUrl);
+            const res = await safeFetch(mediaUrl, { signal: context.signal, policy: egressPolicy });
             const buf = Buffer.from(await res.arrayBuffer());
             const b64 = `data:image/png;base64,${buf.toString('base64')}`;
             s.addImage({
@@ -588,6 +613,16 @@ export class DocumentCreateDeckTool implements AgentTool {
         contentType:
           'application/vnd.openxmlformats-officedocument.presentationml.presentation',
       });
+      const artifact = await recordArtifact(context, {
+        type: 'presentation',
+        mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+        title: params.title,
+        filename,
+        bytes: upload.bytes,
+        url: upload.url,
+        persisted: upload.persisted,
+        tool: this.name,
+      });
 
       return ok(
         {
@@ -596,6 +631,7 @@ export class DocumentCreateDeckTool implements AgentTool {
           slideCount: params.slides.length,
           bytes: upload.bytes,
           persisted: upload.persisted,
+          ...artifact,
         },
         DOCUMENT_CREDITS.deck,
         startTime
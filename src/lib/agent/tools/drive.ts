@@ -110,6 +110,22 @@ export class DriveUploadTool implements AgentTool {
     }
   }
 
+  /**
+   * Dry run: what execute() would return, without uploading
+   */
+  async simulate(params: { fileName: string }): Promise<ToolResult> {
+    return {
+      success: true,
+      data: {
+        fileId: 'dry-run',
+        name: params.fileName,
+        url: null,
+        downloadUrl: null,
+      },
+      metadata: { duration: 0, credits: 0 },
+    };
+  }
+
   estimateCost(params: any): number {
     return 20;
   }
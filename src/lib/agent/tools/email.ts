@@ -6,6 +6,7 @@
 
 import { AgentTool, AgentContext, ToolResult } from '../types';
 import { GoogleGmailClient } from '@/lib/google-gmail';
+import { delay } from '../guards';
 
 /**
  * Send an email
@@ -118,6 +119,22 @@ export class EmailSendTool implements AgentTool {
     }
   }
 
+  /**
+   * Dry run: what execute() would return, without sending anything
+   */
+  async simulate(params: { to: string; subject: string }): Promise<ToolResult> {
+    return {
+      success: true,
+      data: {
+        messageId: 'dry-run',
+        threadId: 'dry-run',
+        to: params.to,
+        subject: params.subject,
+      },
+      metadata: { duration: 0, credits: 0 },
+    };
+  }
+
   estimateCost(params: any): number {
     return 10; // Cost per email
   }
@@ -186,19 +203,26 @@ export class EmailSendBatchTool implements AgentTool {
     context: AgentContext
   ): Promise<ToolResult> {
     const startTime = Date.now();
-    const delay = params.delayMs || 1000; // 1s between emails by default
+    const delayMs = params.delayMs || 1000; // 1s between emails by default
 
     try {
       const results = [];
       const sendTool = new EmailSendTool();
+      let stopped = false;
 
       for (const email of params.emails) {
+        // A stopped run sends nothing more; what was sent is reported
+        if (context.signal?.aborted) {
+          stopped = true;
+          break;
+        }
+
         const result = await sendTool.execute(email, context);
         results.push(result);
 
         // Rate limiting delay
         if (results.length < params.emails.length) {
-          await new Promise(resolve => setTimeout(resolve, delay));
+          await delay(delayMs, context.signal).catch(() => undefined);
         }
       }
 
@@ -206,12 +230,14 @@ export class EmailSendBatchTool implements AgentTool {
       const failureCount = results.length - successCount;
 
       return {
-        success: failureCount === 0,
+        success: failureCount === 0 && !stopped,
+        error: stopped ? `Stopped after sending ${successCount} of ${params.emails.length} emails` : undefined,
         data: {
           total: results.length,
           sent: successCount,
           failed: failureCount,
           results,
+          ...(stopped && { stopped: true }),
         },
         metadata: {
           duration: Date.now() - startTime,
@@ -230,6 +256,25 @@ export class EmailSendBatchTool implements AgentTool {
     }
   }
 
+  /**
+   * Dry run: what execute() would return, without sending anything
+   */
+  async simulate(params: { emails: Array<{ to: string; subject: string }> }): Promise<ToolResult> {
+    return {
+      success: true,
+      data: {
+        total: params.emails.length,
+        sent: params.emails.length,
+        failed: 0,
+        results: params.emails.map((email) => ({
+          success: true,
+          data: { messageId: 'dry-run', threadId: 'dry-run', to: email.to, subject: email.subject },
+        })),
+      },
+      metadata: { duration: 0, credits: 0 },
+    };
+  }
+
   estimateCost(params: any): number {
     return params.emails.length * 10;
   }
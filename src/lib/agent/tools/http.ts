@@ -1,8 +1,14 @@
 /**
  * HTTP Tool - Make HTTP requests to external APIs
+ *
+ * Requests go through safeFetch (lib/egress.ts): only public hosts the
+ * workspace's domain lists allow, and bodies up to MAX_RESPONSE_BYTES.
  */
 
 import { AgentTool, AgentContext, ToolResult } from '../types';
+import { loadEgressPolicy, safeFetch } from '@/lib/egress';
+
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
 
 /**
  * Make HTTP GET request
@@ -53,9 +59,12 @@ export class HttpGetTool implements AgentTool {
         });
       }
 
-      const response = await fetch(url.toString(), {
+      const response = await safeFetch(url, {
         method: 'GET',
         headers: params.headers || {},
+        signal: context.signal,
+        policy: await loadEgressPolicy(context.userId, context.workspaceId),
+        maxBytes: MAX_RESPONSE_BYTES,
       });
 
       const contentType = response.headers.get('content-type');
@@ -146,10 +155,13 @@ export class HttpPostTool implements AgentTool {
         ? params.body
         : JSON.stringify(params.body);
 
-      const response = await fetch(params.url, {
+      const response = await safeFetch(params.url, {
         method: 'POST',
         headers,
         body: bodyContent,
+        signal: context.signal,
+        policy: await loadEgressPolicy(context.userId, context.workspaceId),
+        maxBytes: MAX_RESPONSE_BYTES,
       });
 
       const contentType = response.headers.get('content-type');
@@ -183,6 +195,22 @@ export class HttpPostTool implements AgentTool {
     }
   }
 
+  /**
+   * Dry run: a generic success, without sending the request
+   */
+  async simulate(): Promise<ToolResult> {
+    return {
+      success: true,
+      data: {
+        status: 200,
+        statusText: 'OK (dry run)',
+        headers: {},
+        body: null,
+      },
+      metadata: { duration: 0, credits: 0 },
+    };
+  }
+
   estimateCost(params: any): number {
     return 5;
   }
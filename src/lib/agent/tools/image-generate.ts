@@ -15,6 +15,7 @@
 
 import { AgentTool, AgentContext, ToolResult } from '../types';
 import { generateImageForUser } from '@/lib/media/image';
+import { mimeTypeOf, recordArtifact } from '@/lib/artifacts';
 
 export class ImageGenerateTool implements AgentTool {
   name = 'image.generate';
@@ -69,6 +70,15 @@ export class ImageGenerateTool implements AgentTool {
       };
     }
 
+    const artifact = await recordArtifact(context, {
+      type: 'image',
+      mimeType: mimeTypeOf(result.image.imageUrl, 'image/png'),
+      title: params.prompt,
+      url: result.image.imageUrl,
+      persisted: !result.image.imageUrl.startsWith('data:'),
+      tool: this.name,
+    });
+
     return {
       success: true,
       data: {
@@ -76,6 +86,7 @@ export class ImageGenerateTool implements AgentTool {
         width: result.image.width,
         height: result.image.height,
         prompt: result.image.prompt,
+        ...artifact,
       },
       metadata: { duration: Date.now() - startTime, credits: 0 },
     };
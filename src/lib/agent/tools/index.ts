@@ -72,6 +72,26 @@ import {
 // Web search tool
 import { WebSearchTool } from './websearch';
 
+// Sandboxed code execution tool
+import { CodeRunTool } from './code';
+
+// Sub-agent delegation tool
+import { AgentDelegateTool } from './delegate';
+
+// Stored output tools
+import {
+  OutputReadTool,
+  OutputSearchTool,
+  OutputQueryTool,
+} from './outputs';
+
+// Run-to-run state tools
+import {
+  StateGetTool,
+  StateSetTool,
+  StateCompareTool,
+} from './state';
+
 /**
  * Initialize all tools and register them
  */
@@ -128,6 +148,22 @@ export function initializeTools(): void {
   // Music generation
   toolRegistry.register(new MusicGenerateTool());
 
+  // Sandboxed code execution
+  toolRegistry.register(new CodeRunTool());
+
+  // Sub-agent delegation
+  toolRegistry.register(new AgentDelegateTool());
+
+  // Stored outputs
+  toolRegistry.register(new OutputReadTool());
+  toolRegistry.register(new OutputSearchTool());
+  toolRegistry.register(new OutputQueryTool());
+
+  // Run-to-run state
+  toolRegistry.register(new StateGetTool());
+  toolRegistry.register(new StateSetTool());
+  toolRegistry.register(new StateCompareTool());
+
   console.log(`[Agent] Initialized ${toolRegistry.getAllTools().length} tools`);
 }
 
@@ -0,0 +1,105 @@
+/**
+ * JSON Schema - translating other systems' schemas into tool parameters
+ *
+ * OpenAPI imports and MCP servers describe params in full JSON Schema; tools
+ * take the small subset in AgentTool['inputSchema'] (a type, description,
+ * string enum, items and nested properties). Local `$ref`s are resolved
+ * against the document they came from, allOf parts are merged, and
+ * oneOf/anyOf are reduced to their first option.
+ */
+
+/** Deepest nesting of object and array schemas kept in a parameter. */
+const MAX_SCHEMA_DEPTH = 6;
+
+const MAX_PARAM_DESCRIPTION_CHARS = 300;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** The value a local `$ref` points at, or undefined. */
+function lookupRef(root: Record<string, any>, ref: string): unknown {
+  if (!ref.startsWith('#/')) return undefined;
+  let current: any = root;
+  for (const part of ref.slice(2).split('/')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = current[part.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+  return current;
+}
+
+/** Follow `$ref`s until a concrete object; a cycle or remote ref gives {}. */
+export function deref(root: Record<string, any>, node: unknown, seen: Set<string> = new Set()): Record<string, any> {
+  let current = node;
+  while (isPlainObject(current) && typeof current.$ref === 'string') {
+    if (seen.has(current.$ref)) return {};
+    seen.add(current.$ref);
+    current = lookupRef(root, current.$ref);
+  }
+  return isPlainObject(current) ? current : {};
+}
+
+/** allOf parts merged into one schema; oneOf/anyOf reduced to their first option. */
+export function flattenSchema(root: Record<string, any>, node: unknown, depth = 0): Record<string, any> {
+  const schema = deref(root, node);
+  if (depth > MAX_SCHEMA_DEPTH) return {};
+  if (Array.isArray(schema.allOf)) {
+    const merged: Record<string, any> = { ...schema, properties: { ...schema.properties }, required: [...(schema.required ?? [])] };
+    delete merged.allOf;
+    for (const part of schema.allOf) {
+      const resolved = flattenSchema(root, part, depth + 1);
+      merged.type ??= resolved.type;
+      merged.description ??= resolved.description;
+      Object.assign(merged.properties, resolved.properties);
+      merged.required.push(...(resolved.required ?? []));
+    }
+    return merged;
+  }
+  const options = schema.oneOf ?? schema.anyOf;
+  if (Array.isArray(options) && options.length && !schema.type && !schema.properties) {
+    return { description: schema.description, ...flattenSchema(root, options[0], depth + 1) };
+  }
+  return schema;
+}
+
+/** The schema's type, or the one its shape implies; string when nothing does. */
+export function schemaType(schema: Record<string, any>): string {
+  const declared = Array.isArray(schema.type) ? schema.type.find((type: unknown) => type !== 'null') : schema.type;
+  if (typeof declared === 'string') return declared;
+  if (isPlainObject(schema.properties)) return 'object';
+  if (schema.items) return 'array';
+  return 'string';
+}
+
+/** A schema as a tool parameter property. */
+export function toProperty(
+  root: Record<string, any>,
+  node: unknown,
+  description?: string,
+  depth = 0
+): Record<string, unknown> {
+  const schema = flattenSchema(root, node);
+  const type = schemaType(schema);
+  const property: Record<string, unknown> = { type };
+
+  const text = description || schema.description;
+  if (typeof text === 'string' && text.trim()) {
+    property.description = text.trim().substring(0, MAX_PARAM_DESCRIPTION_CHARS);
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length && schema.enum.every((value: unknown) => typeof value === 'string')) {
+    property.enum = schema.enum;
+  }
+
+  if (depth < MAX_SCHEMA_DEPTH) {
+    if (type === 'array' && schema.items) {
+      property.items = toProperty(root, schema.items, undefined, depth + 1);
+    }
+    if (type === 'object' && isPlainObject(schema.properties)) {
+      property.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([name, child]) => [name, toProperty(root, child, undefined, depth + 1)])
+      );
+      if (Array.isArray(schema.required) && schema.required.length) property.required = schema.required;
+    }
+  }
+  return property;
+}
@@ -0,0 +1,162 @@
+/**
+ * MCP Tools - tools on a user's external MCP servers, called as agent tools
+ *
+ * Each tool a server offers becomes `mcp.<server>.<tool>` in its owner's
+ * registry (see loadUserToolRegistry in ../custom-tools.ts), with its input
+ * schema translated to the tool shape. The server's credentials stay in
+ * lib/mcp/servers.ts; every call goes through callMcpServerTool.
+ *
+ * What these tools do is up to someone else's server, so every one of them
+ * requires approval unless a workspace policy allows it (see approval.ts).
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/server';
+import { callMcpServerTool, type DiscoveredMcpTool } from '@/lib/mcp/servers';
+import { loadEgressPolicy } from '@/lib/egress';
+import { AgentTool, AgentContext, ToolResult } from '../types';
+import { schemaViolation } from './custom';
+import { toProperty } from './json-schema';
+
+export const MCP_TOOL_PREFIX = 'mcp.';
+
+/** Credits per call, as for custom tools. */
+const MCP_TOOL_CREDITS = 5;
+
+const MAX_TOOL_NAME_CHARS = 64;
+
+type ParameterSchema = AgentTool['inputSchema'];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * The agent tool name for a server's tool: `mcp.<server>.<tool>`, the tool's
+ * name with anything but letters, digits, underscores and hyphens made
+ * underscores, cut to 64 characters in all.
+ */
+export function mcpToolName(serverName: string, toolName: string): string {
+  const prefix = `${MCP_TOOL_PREFIX}${serverName}.`;
+  const slug = toolName.replace(/[^A-Za-z0-9_-]+/g, '_') || 'tool';
+  return `${prefix}${slug}`.substring(0, MAX_TOOL_NAME_CHARS);
+}
+
+/**
+ * A tool's MCP input schema as an inputSchema. Exported for testing.
+ */
+export function translateInputSchema(schema: unknown): ParameterSchema {
+  const root = isPlainObject(schema) ? schema : {};
+  const properties = isPlainObject(root.properties) ? root.properties : {};
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      Object.entries(properties).map(([name, property]) => [name, toProperty(root, property)])
+    ) as ParameterSchema['properties'],
+    required: Array.isArray(root.required)
+      ? root.required.filter((name: unknown): name is string => typeof name === 'string' && name in properties)
+      : [],
+  };
+}
+
+/**
+ * What the model gets from a tool's result: its structured content when it
+ * has some, else its text (parsed when it is JSON), with other content
+ * described rather than inlined. Exported for testing.
+ */
+export function resultData(result: CallToolResult): unknown {
+  if (result.structuredContent !== undefined) return result.structuredContent;
+
+  const parts = (result.content ?? []).map((block) => {
+    if (block.type !== 'text') {
+      return `[${block.type}${'mimeType' in block && block.mimeType ? `: ${block.mimeType}` : ''}]`;
+    }
+    try {
+      return JSON.parse(block.text);
+    } catch {
+      return block.text;
+    }
+  });
+  return parts.length === 1 ? parts[0] : parts;
+}
+
+function resultError(result: CallToolResult): string {
+  const text = (result.content ?? [])
+    .map((block) => (block.type === 'text' ? block.text : ''))
+    .filter(Boolean)
+    .join('\n');
+  return text.substring(0, 1000) || 'The MCP tool reported an error';
+}
+
+/**
+ * An agent tool backed by one tool on an external MCP server
+ */
+export class McpTool implements AgentTool {
+  name: string;
+  description: string;
+  category = 'integration' as const;
+  inputSchema: ParameterSchema;
+
+  constructor(
+    private server: { id: string; name: string },
+    private tool: DiscoveredMcpTool
+  ) {
+    this.name = mcpToolName(server.name, tool.name);
+    this.description = tool.description?.trim() || `${tool.name} on the ${server.name} MCP server`;
+    this.inputSchema = translateInputSchema(tool.inputSchema);
+  }
+
+  validate(params: any): { valid: boolean; error?: string } {
+    const violation = schemaViolation(this.inputSchema, params ?? {});
+    return violation ? { valid: false, error: violation } : { valid: true };
+  }
+
+  async execute(params: Record<string, unknown>, context: AgentContext): Promise<ToolResult> {
+    const startTime = Date.now();
+    const metadata = () => ({ duration: Date.now() - startTime, credits: MCP_TOOL_CREDITS });
+
+    const call = await callMcpServerTool({
+      userId: context.userId,
+      serverId: this.server.id,
+      tool: this.tool.name,
+      args: params ?? {},
+      signal: context.signal,
+      policy: await loadEgressPolicy(context.userId, context.workspaceId),
+    });
+    if (!call.ok) {
+      return { success: false, error: call.message, metadata: metadata() };
+    }
+    if (call.result.isError) {
+      return { success: false, error: resultError(call.result), metadata: metadata() };
+    }
+    return { success: true, data: resultData(call.result), metadata: metadata() };
+  }
+
+  estimateCost(): number {
+    return MCP_TOOL_CREDITS;
+  }
+}
+
+/**
+ * The agent tools for a server's discovered tools. Tools whose names come
+ * out the same after translation are kept once.
+ */
+export function mcpToolsFor(server: { id: string; name: string; tools: unknown }): McpTool[] {
+  const discovered = Array.isArray(server.tools) ? server.tools : [];
+  const tools = new Map<string, McpTool>();
+  for (const tool of discovered) {
+    if (!isPlainObject(tool) || typeof tool.name !== 'string') continue;
+    const agentTool = new McpTool(server, tool as DiscoveredMcpTool);
+    if (!tools.has(agentTool.name)) tools.set(agentTool.name, agentTool);
+  }
+  return [...tools.values()];
+}
+
+/**
+ * A server as the API returns it, with the agent tool name of each tool.
+ */
+export function withAgentToolNames<T extends { name: string; tools: unknown }>(server: T) {
+  const tools = (Array.isArray(server.tools) ? server.tools : []).filter(
+    (tool): tool is DiscoveredMcpTool => isPlainObject(tool) && typeof tool.name === 'string'
+  );
+  return { ...server, tools: tools.map((tool) => ({ ...tool, toolName: mcpToolName(server.name, tool.name) })) };
+}
@@ -15,6 +15,7 @@
 
 import { AgentTool, AgentContext, ToolResult } from '../types';
 import { generateMusicForUser } from '@/lib/media/music';
+import { mimeTypeOf, recordArtifact } from '@/lib/artifacts';
 import {
   MIN_MUSIC_LENGTH_MS,
   MAX_MUSIC_LENGTH_MS,
@@ -91,6 +92,15 @@ export class MusicGenerateTool implements AgentTool {
       };
     }
 
+    const artifact = await recordArtifact(context, {
+      type: 'audio',
+      mimeType: mimeTypeOf(result.music.audioUrl, 'audio/mpeg'),
+      title: params.prompt,
+      url: result.music.audioUrl,
+      persisted: !result.music.audioUrl.startsWith('data:'),
+      tool: this.name,
+    });
+
     return {
       success: true,
       data: {
@@ -98,6 +108,7 @@ export class MusicGenerateTool implements AgentTool {
         lengthMs: result.music.lengthMs,
         instrumental: result.music.instrumental,
         prompt: result.music.prompt,
+        ...artifact,
       },
       metadata: { duration: Date.now() - startTime, credits: 0 },
     };
@@ -0,0 +1,198 @@
+/**
+ * Output Tools - page through tool results too large to show in full
+ *
+ * A result over INLINE_OUTPUT_CHARS reaches the agent as a handle with a
+ * preview (see ../tool-outputs.ts); these read the rest of it by outputId.
+ */
+
+import { AgentTool, AgentContext, ToolResult } from '../types';
+import {
+  MAX_PAGE_CHARS,
+  MAX_READ_LINES,
+  MAX_SEARCH_MATCHES,
+  OutputQueryError,
+  loadToolOutput,
+  parseStoredContent,
+  queryJson,
+  readLines,
+  searchLines,
+} from '../tool-outputs';
+
+function validateOutputId(params: any): { valid: boolean; error?: string } {
+  if (!params.outputId || typeof params.outputId !== 'string') {
+    return { valid: false, error: 'outputId parameter required (string)' };
+  }
+  return { valid: true };
+}
+
+function notFound(outputId: string, startTime: number): ToolResult {
+  return {
+    success: false,
+    error: `No stored output ${outputId}; it may have expired`,
+    metadata: { duration: Date.now() - startTime, credits: 0 },
+  };
+}
+
+/**
+ * Read a range of lines from a stored output
+ */
+export class OutputReadTool implements AgentTool {
+  name = 'output.read';
+  description = 'Read a range of lines from a tool result that was too long to show in full';
+  category = 'data' as const;
+  inputSchema = {
+    type: 'object' as const,
+    properties: {
+      outputId: { type: 'string', description: 'The outputId from the stored result' },
+      fromLine: { type: 'number', description: 'First line to read, starting at 1 (default 1)' },
+      lines: { type: 'number', description: `How many lines to read (default 100, max ${MAX_READ_LINES})` },
+    },
+    required: ['outputId'],
+  };
+
+  validate(params: any): { valid: boolean; error?: string } {
+    return validateOutputId(params);
+  }
+
+  async execute(params: { outputId: string; fromLine?: number; lines?: number }, context: AgentContext): Promise<ToolResult> {
+    const startTime = Date.now();
+    const output = await loadToolOutput(params.outputId, context.userId);
+    if (!output) return notFound(params.outputId, startTime);
+
+    return {
+      success: true,
+      data: { outputId: output.id, ...readLines(output.content, params.fromLine, params.lines) },
+      metadata: { duration: Date.now() - startTime, credits: 1 },
+    };
+  }
+
+  estimateCost(): number {
+    return 1;
+  }
+}
+
+/**
+ * Find the lines of a stored output that match a pattern
+ */
+export class OutputSearchTool implements AgentTool {
+  name = 'output.search';
+  description = 'Find the lines of a stored tool result that match a regular expression or text';
+  category = 'data' as const;
+  inputSchema = {
+    type: 'object' as const,
+    properties: {
+      outputId: { type: 'string', description: 'The outputId from the stored result' },
+      pattern: { type: 'string', description: 'Regular expression or plain text to look for' },
+      ignoreCase: { type: 'boolean', description: 'Match regardless of case (default false)' },
+      maxMatches: { type: 'number', description: `Most matching lines to return (default 20, max ${MAX_SEARCH_MATCHES})` },
+    },
+    required: ['outputId', 'pattern'],
+  };
+
+  validate(params: any): { valid: boolean; error?: string } {
+    const id = validateOutputId(params);
+    if (!id.valid) return id;
+    if (!params.pattern || typeof params.pattern !== 'string') {
+      return { valid: false, error: 'pattern parameter required (string)' };
+    }
+    return { valid: true };
+  }
+
+  async execute(
+    params: { outputId: string; pattern: string; ignoreCase?: boolean; maxMatches?: number },
+    context: AgentContext
+  ): Promise<ToolResult> {
+    const startTime = Date.now();
+    const output = await loadToolOutput(params.outputId, context.userId);
+    if (!output) return notFound(params.outputId, startTime);
+
+    return {
+      success: true,
+      data: {
+        outputId: output.id,
+        ...searchLines(output.content, params.pattern, { ignoreCase: params.ignoreCase, maxMatches: params.maxMatches }),
+      },
+      metadata: { duration: Date.now() - startTime, credits: 1 },
+    };
+  }
+
+  estimateCost(): number {
+    return 1;
+  }
+}
+
+/**
+ * Select values from a stored JSON output with a JSONPath
+ */
+export class OutputQueryTool implements AgentTool {
+  name = 'output.query';
+  description =
+    'Select values from a stored JSON tool result with a JSONPath, e.g. $.items[0:10], $.items[*].name or $["total count"]';
+  category = 'data' as const;
+  inputSchema = {
+    type: 'object' as const,
+    properties: {
+      outputId: { type: 'string', description: 'The outputId from the stored result' },
+      path: { type: 'string', description: 'JSONPath starting at $: .key, ["key"], [0], [-1], [2:5], [*]' },
+    },
+    required: ['outputId', 'path'],
+  };
+
+  validate(params: any): { valid: boolean; error?: string } {
+    const id = validateOutputId(params);
+    if (!id.valid) return id;
+    if (!params.path || typeof params.path !== 'string') {
+      return { valid: false, error: 'path parameter required (string)' };
+    }
+    return { valid: true };
+  }
+
+  async execute(params: { outputId: string; path: string }, context: AgentContext): Promise<ToolResult> {
+    const startTime = Date.now();
+    const output = await loadToolOutput(params.outputId, context.userId);
+    if (!output) return notFound(params.outputId, startTime);
+
+    if (output.format !== 'json') {
+      return {
+        success: false,
+        error: 'This output is text, not JSON; use output.read or output.search',
+        metadata: { duration: Date.now() - startTime, credits: 0 },
+      };
+    }
+
+    let matches: unknown[];
+    try {
+      matches = queryJson(parseStoredContent(output.format, output.content), params.path);
+    } catch (error) {
+      if (!(error instanceof OutputQueryError)) throw error;
+      return { success: false, error: error.message, metadata: { duration: Date.now() - startTime, credits: 0 } };
+    }
+
+    // As many whole matches as fit in a page
+    const results: unknown[] = [];
+    let chars = 0;
+    for (const match of matches) {
+      const size = (JSON.stringify(match) ?? '').length;
+      if (results.length && chars + size > MAX_PAGE_CHARS) break;
+      if (size > MAX_PAGE_CHARS) {
+        return {
+          success: false,
+          error: `${params.path} selects a value of ${size} characters; narrow the path or use output.read`,
+          metadata: { duration: Date.now() - startTime, credits: 1 },
+        };
+      }
+      results.push(match);
+      chars += size;
+    }
+
+    return {
+      success: true,
+      data: { outputId: output.id, path: params.path, count: matches.length, results, more: results.length < matches.length },
+      metadata: { duration: Date.now() - startTime, credits: 1 },
+    };
+  }
+
+  estimateCost(): number {
+    return 1;
+  }
+}
@@ -58,6 +58,32 @@ export class ToolRegistry {
   getToolNames(): string[] {
     return Array.from(this.tools.keys());
   }
+
+  /**
+   * A registry holding only the named tools, for an agent restricted to them.
+   * Names that are not registered here are ignored.
+   */
+  subset(names: string[]): ToolRegistry {
+    const restricted = new ToolRegistry();
+    for (const name of names) {
+      const tool = this.tools.get(name);
+      if (tool) restricted.tools.set(name, tool);
+    }
+    return restricted;
+  }
+
+  /**
+   * A registry holding these tools besides this one's, for one user's runs.
+   * A tool whose name is already taken is left out.
+   */
+  withTools(tools: AgentTool[]): ToolRegistry {
+    const extended = new ToolRegistry();
+    extended.tools = new Map(this.tools);
+    for (const tool of tools) {
+      if (!extended.tools.has(tool.name)) extended.tools.set(tool.name, tool);
+    }
+    return extended;
+  }
 }
 
 /**
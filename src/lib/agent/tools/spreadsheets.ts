@@ -9,6 +9,8 @@
 
 import { AgentTool, AgentContext, ToolResult } from '../types';
 import { uploadMedia } from '@/lib/storage';
+import { recordArtifact } from '@/lib/artifacts';
+import { loadEgressPolicy, safeFetch } from '@/lib/egress';
 import type { ChartSpec } from '@/lib/documents/types';
 
 const XLSX_CREDITS = 3;
@@ -109,6 +111,7 @@ export class DocumentCreateXlsxTool implements AgentTool {
 
       const ACCENT = 'FF0D9488';
       const charts = params.charts || [];
+      const egressPolicy = await loadEgressPolicy(context.userId, context.workspaceId);
 
       for (const sheetInput of params.sheets) {
         const sheet = workbook.addWorksheet(sheetInput.name.slice(0, 31));
@@ -138,7 +141,7 @@ export class DocumentCreateXlsxTool implements AgentTool {
           const chart = charts.find((c) => c.id === sheetInput.chartId);
           if (chart?.imageUrl) {
             try {
-              const res = await fetch(chart.imageUrl);
+              const res = await safeFetch(chart.imageUrl, { signal: context.signal, policy: egressPolicy });
               const buffer = Buffer.from(await res.arrayBuffer());
               const imageId = workbook.addImage({ buffer: buffer as any, extension: 'png' });
               const anchorRow = sheetInput.rows.length + 3;
@@ -163,6 +166,16 @@ export class DocumentCreateXlsxTool implements AgentTool {
         extension: 'xlsx',
         contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
       });
+      const artifact = await recordArtifact(context, {
+        type: 'spreadsheet',
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        title: params.title,
+        filename,
+        bytes: upload.bytes,
+        url: upload.url,
+        persisted: upload.persisted,
+        tool: this.name,
+      });
 
       return {
         success: true,
@@ -172,6 +185,7 @@ export class DocumentCreateXlsxTool implements AgentTool {
           sheetCount: params.sheets.length,
           bytes: upload.bytes,
           persisted: upload.persisted,
+          ...artifact,
         },
         metadata: { duration: Date.now() - startTime, credits: XLSX_CREDITS },
       };
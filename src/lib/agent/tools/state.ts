@@ -0,0 +1,193 @@
+/**
+ * State Tools - what a task remembers between runs
+ *
+ * A scheduled task's plan keeps values for its next run with state.set, reads
+ * them back with state.get, and asks whether values changed since the last
+ * run with state.compare (see ../run-state.ts). Chat turns have no task and
+ * so no state.
+ */
+
+import { AgentTool, AgentContext, ToolResult } from '../types';
+import { diffResults, loadRunMemory, updateRunState } from '../run-state';
+
+function fail(error: string, startTime: number): ToolResult {
+  return { success: false, error, metadata: { duration: Date.now() - startTime, credits: 0 } };
+}
+
+const NO_TASK = 'State is only kept for tasks, not chat turns';
+
+/**
+ * Read the task's saved state and its last successful run's result
+ */
+export class StateGetTool implements AgentTool {
+  name = 'state.get';
+  description =
+    'Read what this task saved with state.set on earlier runs, and the result of its last successful run. ' +
+    'Use in scheduled tasks to pick up where the last run left off.';
+  category = 'data' as const;
+  inputSchema = {
+    type: 'object' as const,
+    properties: {
+      key: { type: 'string', description: 'Return only this key of the state (default: the whole state)' },
+    },
+  };
+
+  validate(params: any): { valid: boolean; error?: string } {
+    if (params?.key !== undefined && typeof params.key !== 'string') {
+      return { valid: false, error: 'key must be a string' };
+    }
+    return { valid: true };
+  }
+
+  async execute(params: { key?: string }, context: AgentContext): Promise<ToolResult> {
+    const startTime = Date.now();
+    const memory = await loadRunMemory(context.taskId, context.userId);
+    if (!memory) return fail(NO_TASK, startTime);
+
+    return {
+      success: true,
+      data: params.key
+        ? { key: params.key, value: memory.state[params.key] ?? null, previousResult: memory.previousResult }
+        : { state: memory.state, previousResult: memory.previousResult },
+      metadata: { duration: Date.now() - startTime, credits: 0 },
+    };
+  }
+
+  // Reading changes nothing
+  simulate(params: { key?: string }, context: AgentContext): Promise<ToolResult> {
+    return this.execute(params, context);
+  }
+
+  estimateCost(): number {
+    return 0;
+  }
+}
+
+/**
+ * Save values for the task's next runs
+ */
+export class StateSetTool implements AgentTool {
+  name = 'state.set';
+  description =
+    'Save values this task should remember on its next runs, e.g. { "lastPrice": 99 }. Merged into the saved ' +
+    'state; a null value forgets its key. Saved immediately.';
+  category = 'data' as const;
+  inputSchema = {
+    type: 'object' as const,
+    properties: {
+      values: { type: 'object', description: 'Keys to save and their values (null removes a key)' },
+    },
+    required: ['values'],
+  };
+
+  validate(params: any): { valid: boolean; error?: string } {
+    const values = params?.values;
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      return { valid: false, error: 'values parameter required (object)' };
+    }
+    if (!Object.keys(values).length) {
+      return { valid: false, error: 'values must name at least one key' };
+    }
+    return { valid: true };
+  }
+
+  async execute(params: { values: Record<string, unknown> }, context: AgentContext): Promise<ToolResult> {
+    const startTime = Date.now();
+    const saved = await updateRunState(context.taskId, context.userId, params.values);
+    if (!saved.ok) return fail(saved.reason === 'not_found' ? NO_TASK : saved.message, startTime);
+
+    return {
+      success: true,
+      data: { state: saved.state },
+      metadata: { duration: Date.now() - startTime, credits: 0 },
+    };
+  }
+
+  async simulate(params: { values: Record<string, unknown> }, context: AgentContext): Promise<ToolResult> {
+    const memory = await loadRunMemory(context.taskId, context.userId);
+    const state = { ...(memory?.state || {}) };
+    for (const [key, value] of Object.entries(params.values)) {
+      if (value === null) delete state[key];
+      else state[key] = value;
+    }
+    return { success: true, data: { state }, metadata: { duration: 0, credits: 0 } };
+  }
+
+  estimateCost(): number {
+    return 0;
+  }
+}
+
+/**
+ * Compare values with what the last run saved or produced
+ */
+export class StateCompareTool implements AgentTool {
+  name = 'state.compare';
+  description =
+    'Check whether values changed since the last run, e.g. { "values": { "lastPrice": 99 } }: each key is ' +
+    'compared with the same key of the saved state, or of the last successful run\'s result. Returns changed, ' +
+    'the differences and the previous values; changed is false on the first run.';
+  category = 'data' as const;
+  inputSchema = {
+    type: 'object' as const,
+    properties: {
+      values: { type: 'object', description: 'This run\'s values by key, usually step references' },
+      against: {
+        type: 'string',
+        enum: ['state', 'result'],
+        description: 'Compare with the saved state (default) or the last successful run\'s result',
+      },
+    },
+    required: ['values'],
+  };
+
+  validate(params: any): { valid: boolean; error?: string } {
+    const values = params?.values;
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      return { valid: false, error: 'values parameter required (object)' };
+    }
+    if (params.against !== undefined && !['state', 'result'].includes(params.against)) {
+      return { valid: false, error: 'against must be state or result' };
+    }
+    return { valid: true };
+  }
+
+  async execute(
+    params: { values: Record<string, unknown>; against?: 'state' | 'result' },
+    context: AgentContext
+  ): Promise<ToolResult> {
+    const startTime = Date.now();
+    const memory = await loadRunMemory(context.taskId, context.userId);
+    if (!memory) return fail(NO_TASK, startTime);
+
+    const source = params.against === 'result' ? memory.previousResult : memory.state;
+    const previous: Record<string, unknown> = {};
+    if (source && typeof source === 'object' && !Array.isArray(source)) {
+      for (const key of Object.keys(params.values)) {
+        if (key in source) previous[key] = (source as Record<string, unknown>)[key];
+      }
+    }
+
+    // Nothing to compare with yet is not a change
+    const firstRun = !Object.keys(previous).length;
+    const { changes, total } = firstRun ? { changes: [], total: 0 } : diffResults(previous, params.values);
+
+    return {
+      success: true,
+      data: { changed: total > 0, firstRun, previous, changes, total },
+      metadata: { duration: Date.now() - startTime, credits: 0 },
+    };
+  }
+
+  // Reading changes nothing
+  simulate(
+    params: { values: Record<string, unknown>; against?: 'state' | 'result' },
+    context: AgentContext
+  ): Promise<ToolResult> {
+    return this.execute(params, context);
+  }
+
+  estimateCost(): number {
+    return 0;
+  }
+}
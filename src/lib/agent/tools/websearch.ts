@@ -45,7 +45,7 @@ export class WebSearchTool implements AgentTool {
 
   async execute(
     params: { query: string; maxResults?: number },
-    _context: AgentContext
+    context: AgentContext
   ): Promise<ToolResult> {
     const startTime = Date.now();
 
@@ -67,6 +67,7 @@ export class WebSearchTool implements AgentTool {
           query: params.query,
           max_results: Math.min(params.maxResults ?? 5, 10),
         }),
+        signal: context.signal,
       });
 
       if (!res.ok) {
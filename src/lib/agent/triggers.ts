@@ -0,0 +1,537 @@
+/**
+ * Task Triggers - start a Task when something happens
+ *
+ * A TaskTrigger starts its task on one kind of event:
+ *
+ *   task_completed    another task finished; its result is handed over
+ *   task_failed       another task failed; its error is handed over
+ *   webhook           its inbound URL was called with the trigger's secret
+ *                     (/api/triggers/[id]); the request body is handed over
+ *   monitor_alert     a PageMonitor raised a MonitorAlert
+ *   slack_message     a message arrived on a connected Slack channel
+ *   telegram_message  a message arrived on a connected Telegram chat
+ *
+ * Whatever notices the event records a TriggerEvent (emitTriggerEvent), or,
+ * for monitor alerts, leaves the MonitorAlert to be picked up. The
+ * orchestrator evaluates pending events every poll (processTriggerEvents), as
+ * /api/cron/check-scheduled-tasks does where no orchestrator runs. Each
+ * trigger that matches records a TriggerFiring: the run it queued, or why it
+ * did not, which makes up the trigger history on the task page.
+ *
+ * The agent worker hands a triggered run the event as `context.trigger`,
+ * which the planner sees, and when a run ends records a task_completed or
+ * task_failed event of its own (finishTaskRun).
+ *
+ * Loop protection: every event carries the chain of tasks whose triggered
+ * runs led to it. A trigger does not fire when its task is already in the
+ * chain, when the chain is MAX_TRIGGER_CHAIN long, when it has fired
+ * MAX_FIRINGS_PER_HOUR times in the last hour, or while its task is still
+ * running.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { Prisma, Task, TaskTrigger, TriggerEvent } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { hasEnoughCredits } from '@/lib/credits';
+import { queueAgentTask } from '@/lib/queue/agent-queue';
+import { ACTIVE_TASK_STATUSES, getPriorityValue } from './scheduler';
+
+export const TRIGGER_TYPES = [
+  'task_completed',
+  'task_failed',
+  'webhook',
+  'monitor_alert',
+  'slack_message',
+  'telegram_message',
+] as const;
+export type TriggerType = (typeof TRIGGER_TYPES)[number];
+
+/** Most triggered runs one after another, counting the one that started it. */
+export const MAX_TRIGGER_CHAIN = 5;
+
+export const MAX_FIRINGS_PER_HOUR = 20;
+
+/** Event payloads longer than this (as JSON) are cut short. */
+export const MAX_PAYLOAD_CHARS = 20000;
+
+/** Monitor alerts older than this when first seen start nothing. */
+const MONITOR_ALERT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const EVENTS_PER_CHECK = 100;
+
+/** TriggerFiring statuses between queueing a run and its end. */
+const ACTIVE_FIRING_STATUSES = ['queued', 'running'];
+
+const SOURCE_TASK_TYPES: TriggerType[] = ['task_completed', 'task_failed'];
+const MESSAGE_TYPES: TriggerType[] = ['slack_message', 'telegram_message'];
+
+/** TaskTrigger fields safe to return from the API (never the secret hash). */
+export const TASK_TRIGGER_FIELDS = {
+  id: true,
+  taskId: true,
+  type: true,
+  sourceTaskId: true,
+  monitorId: true,
+  channel: true,
+  pattern: true,
+  enabled: true,
+  lastFiredAt: true,
+  fireCount: true,
+  createdAt: true,
+} as const;
+
+// ============================================================================
+// WEBHOOK SECRETS
+// ============================================================================
+
+export function generateTriggerSecret(): string {
+  return `trg_${randomBytes(24).toString('hex')}`;
+}
+
+export function hashTriggerSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+export function verifyTriggerSecret(secret: string | null | undefined, secretHash: string | null): boolean {
+  if (!secret || !secretHash) return false;
+  const expected = Buffer.from(secretHash, 'hex');
+  const received = Buffer.from(hashTriggerSecret(secret), 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export function triggerWebhookUrl(triggerId: string, secret: string): string {
+  const base = (process.env.NEXTAUTH_URL || '').replace(/\/$/, '');
+  return `${base}/api/triggers/${triggerId}?secret=${secret}`;
+}
+
+// ============================================================================
+// MATCHING AND LOOP PROTECTION
+// ============================================================================
+
+type MatchableTrigger = Pick<TaskTrigger, 'id' | 'type' | 'sourceTaskId' | 'monitorId' | 'channel' | 'pattern'>;
+type MatchableEvent = Pick<TriggerEvent, 'type' | 'sourceId'> & { payload: unknown };
+
+/**
+ * Whether a trigger starts its task on an event. Exported for testing.
+ */
+export function triggerMatches(trigger: MatchableTrigger, event: MatchableEvent): boolean {
+  if (trigger.type !== event.type) return false;
+
+  switch (trigger.type) {
+    case 'task_completed':
+    case 'task_failed':
+      return trigger.sourceTaskId === event.sourceId;
+    case 'webhook':
+      return trigger.id === event.sourceId;
+    case 'monitor_alert':
+      return trigger.monitorId === event.sourceId;
+    case 'slack_message':
+    case 'telegram_message': {
+      if (trigger.channel && trigger.channel !== event.sourceId) return false;
+      if (!trigger.pattern) return true;
+      const text = String((event.payload as { text?: unknown } | null)?.text ?? '');
+      return text.toLowerCase().includes(trigger.pattern.toLowerCase());
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Why starting `taskId` from an event with this chain would be a loop, or
+ * null when it would not. Exported for testing.
+ */
+export function loopReason(taskId: string, chain: string[]): string | null {
+  if (chain.includes(taskId)) {
+    return `Would loop: ${[...chain.slice(chain.indexOf(taskId)), taskId].join(' → ')}`;
+  }
+  if (chain.length >= MAX_TRIGGER_CHAIN) {
+    return `Trigger chains stop after ${MAX_TRIGGER_CHAIN} runs`;
+  }
+  return null;
+}
+
+/**
+ * A value as it goes into an event payload: as is, or as the start of its
+ * JSON when that is longer than MAX_PAYLOAD_CHARS. Exported for testing.
+ */
+export function boundedPayloadValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  const json = typeof value === 'string' ? value : JSON.stringify(value);
+  if (json.length <= MAX_PAYLOAD_CHARS) return value;
+  return `${json.substring(0, MAX_PAYLOAD_CHARS)}… (cut short, ${json.length} characters in all)`;
+}
+
+// ============================================================================
+// INPUT
+// ============================================================================
+
+export interface TriggerInput {
+  type?: unknown;
+  sourceTaskId?: unknown;
+  monitorId?: unknown;
+  channel?: unknown;
+  pattern?: unknown;
+  enabled?: unknown;
+}
+
+/**
+ * What is wrong with a trigger to create, or with changes to one when
+ * `partial` (only channel, pattern and enabled can change).
+ */
+export function validateTriggerInput(input: TriggerInput, { partial = false } = {}): string[] {
+  const issues: string[] = [];
+
+  if (partial) {
+    if (input.type !== undefined || input.sourceTaskId !== undefined || input.monitorId !== undefined) {
+      issues.push('type, sourceTaskId and monitorId cannot be changed; create a new trigger instead');
+    }
+  } else if (!TRIGGER_TYPES.includes(input.type as TriggerType)) {
+    issues.push(`type must be one of: ${TRIGGER_TYPES.join(', ')}`);
+  } else if (SOURCE_TASK_TYPES.includes(input.type as TriggerType) && (typeof input.sourceTaskId !== 'string' || !input.sourceTaskId)) {
+    issues.push(`sourceTaskId is required for ${input.type} triggers`);
+  } else if (input.type === 'monitor_alert' && (typeof input.monitorId !== 'string' || !input.monitorId)) {
+    issues.push('monitorId is required for monitor_alert triggers');
+  }
+
+  if (input.channel !== undefined && input.channel !== null && (typeof input.channel !== 'string' || input.channel.length > 100)) {
+    issues.push('channel must be a channel or chat id');
+  }
+  if (input.pattern !== undefined && input.pattern !== null && (typeof input.pattern !== 'string' || input.pattern.length > 200)) {
+    issues.push('pattern must be text of at most 200 characters');
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    issues.push('enabled must be true or false');
+  }
+
+  return issues;
+}
+
+/**
+ * The TaskTrigger fields valid input sets. Fields that do not apply to the
+ * trigger's type are left out.
+ */
+export function triggerFields(input: TriggerInput, type: TriggerType) {
+  const fields: {
+    sourceTaskId?: string;
+    monitorId?: string;
+    channel?: string | null;
+    pattern?: string | null;
+    enabled?: boolean;
+  } = {};
+
+  if (!input.type) {
+    // An update; the source never changes
+  } else if (SOURCE_TASK_TYPES.includes(type)) {
+    fields.sourceTaskId = input.sourceTaskId as string;
+  } else if (type === 'monitor_alert') {
+    fields.monitorId = input.monitorId as string;
+  }
+
+  if (MESSAGE_TYPES.includes(type)) {
+    if (input.channel !== undefined) fields.channel = (input.channel as string | null)?.trim() || null;
+    if (input.pattern !== undefined) fields.pattern = (input.pattern as string | null)?.trim() || null;
+  }
+  if (input.enabled !== undefined) fields.enabled = input.enabled as boolean;
+
+  return fields;
+}
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+/**
+ * Record an event for the orchestrator to evaluate, unless no enabled
+ * trigger of the user's could match it. Returns the event's id, or null.
+ */
+export async function emitTriggerEvent(event: {
+  userId: string;
+  type: TriggerType;
+  sourceId: string;
+  payload: Record<string, unknown>;
+  chain?: string[];
+}): Promise<string | null> {
+  const candidates = await prisma.taskTrigger.count({ where: candidateWhere(event.userId, event.type, event.sourceId) });
+  if (!candidates) return null;
+
+  const created = await prisma.triggerEvent.create({
+    data: {
+      userId: event.userId,
+      type: event.type,
+      sourceId: event.sourceId,
+      payload: event.payload as Prisma.InputJsonValue,
+      chain: event.chain ?? [],
+    },
+  });
+  return created.id;
+}
+
+/**
+ * Enabled triggers of a user's that could match an event of this type and
+ * source; triggerMatches() has the last word.
+ */
+function candidateWhere(userId: string, type: string, sourceId: string | null): Prisma.TaskTriggerWhereInput {
+  const where: Prisma.TaskTriggerWhereInput = { type, enabled: true, task: { userId } };
+
+  if (SOURCE_TASK_TYPES.includes(type as TriggerType)) where.sourceTaskId = sourceId;
+  else if (type === 'webhook') where.id = sourceId ?? undefined;
+  else if (type === 'monitor_alert') where.monitorId = sourceId;
+
+  return where;
+}
+
+export interface TriggerCheckResult {
+  events: number;
+  queued: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * Turn new monitor alerts into events, then evaluate every pending event
+ * against the triggers that could match it.
+ */
+export async function processTriggerEvents(now: Date = new Date()): Promise<TriggerCheckResult> {
+  const results: TriggerCheckResult = { events: 0, queued: 0, skipped: 0, failed: 0, errors: [] };
+
+  try {
+    await collectMonitorAlerts(now);
+  } catch (error: any) {
+    console.error('❌ Failed to collect monitor alerts for triggers:', error);
+    results.errors.push(`Monitor alerts: ${error.message}`);
+  }
+
+  const events = await prisma.triggerEvent.findMany({
+    where: { status: 'pending' },
+    orderBy: { createdAt: 'asc' },
+    take: EVENTS_PER_CHECK,
+  });
+
+  for (const event of events) {
+    // Claim it; another checker that got here first has processed it
+    const claimed = await prisma.triggerEvent.updateMany({
+      where: { id: event.id, status: 'pending' },
+      data: { status: 'processed', processedAt: now },
+    });
+    if (!claimed.count) continue;
+    results.events++;
+
+    const triggers = await prisma.taskTrigger.findMany({
+      where: candidateWhere(event.userId, event.type, event.sourceId),
+      include: { task: true },
+    });
+
+    for (const trigger of triggers.filter((t) => triggerMatches(t, event))) {
+      try {
+        await fireTrigger(trigger, event, now, results);
+      } catch (error: any) {
+        console.error(`❌ Failed to fire trigger ${trigger.id}:`, error);
+        results.failed++;
+        results.errors.push(`Trigger ${trigger.id}: ${error.message}`);
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Record an event for each recent monitor alert not yet looked at.
+ */
+async function collectMonitorAlerts(now: Date): Promise<void> {
+  const alerts = await prisma.monitorAlert.findMany({
+    where: { triggersCheckedAt: null, triggeredAt: { gte: new Date(now.getTime() - MONITOR_ALERT_MAX_AGE_MS) } },
+    orderBy: { triggeredAt: 'asc' },
+    include: { monitor: { select: { id: true, userId: true, name: true, url: true } } },
+    take: EVENTS_PER_CHECK,
+  });
+
+  for (const alert of alerts) {
+    const claimed = await prisma.monitorAlert.updateMany({
+      where: { id: alert.id, triggersCheckedAt: null },
+      data: { triggersCheckedAt: now },
+    });
+    if (!claimed.count) continue;
+
+    await emitTriggerEvent({
+      userId: alert.monitor.userId,
+      type: 'monitor_alert',
+      sourceId: alert.monitor.id,
+      payload: {
+        alertId: alert.id,
+        monitor: alert.monitor.name,
+        url: alert.monitor.url,
+        changeType: alert.changeType,
+        oldValue: boundedPayloadValue(alert.oldValue),
+        newValue: boundedPayloadValue(alert.newValue),
+        aiAnalysis: alert.aiAnalysis,
+        triggeredAt: alert.triggeredAt.toISOString(),
+      },
+    });
+  }
+}
+
+async function fireTrigger(
+  trigger: TaskTrigger & { task: Task },
+  event: TriggerEvent,
+  now: Date,
+  results: TriggerCheckResult
+): Promise<void> {
+  const skip = async (reason: string) => {
+    await prisma.triggerFiring.create({
+      data: { triggerId: trigger.id, eventId: event.id, taskId: trigger.taskId, status: 'skipped', reason, finishedAt: now },
+    });
+    results.skipped++;
+  };
+
+  const loop = loopReason(trigger.taskId, event.chain);
+  if (loop) return skip(loop);
+
+  const recent = await prisma.triggerFiring.count({
+    where: {
+      triggerId: trigger.id,
+      status: { not: 'skipped' },
+      createdAt: { gte: new Date(now.getTime() - 60 * 60 * 1000) },
+    },
+  });
+  if (recent >= MAX_FIRINGS_PER_HOUR) {
+    return skip(`Fired ${recent} times in the last hour, the most allowed`);
+  }
+
+  if (await isTaskRunning(trigger.task)) {
+    return skip('The task was still running');
+  }
+
+  const estimatedCredits = (trigger.task.plan as any)?.estimatedCredits || 100;
+  if (!(await hasEnoughCredits(trigger.task.userId, estimatedCredits))) {
+    return skip('Insufficient credits');
+  }
+
+  const firing = await prisma.triggerFiring.create({
+    data: { triggerId: trigger.id, eventId: event.id, taskId: trigger.taskId, status: 'queued' },
+  });
+
+  // Reset status before queueing, so it cannot overwrite the worker's
+  await prisma.task.update({
+    where: { id: trigger.taskId },
+    data: { lastRunAt: now, status: 'pending' },
+  });
+  await prisma.taskTrigger.update({
+    where: { id: trigger.id },
+    data: { lastFiredAt: now, fireCount: { increment: 1 } },
+  });
+
+  const jobId = await queueAgentTask(trigger.taskId, trigger.task.userId, {
+    priority: getPriorityValue(trigger.task.priority),
+    retryCount: 3,
+    triggerFiringId: firing.id,
+  });
+
+  if (jobId.startsWith('fallback-') || jobId.startsWith('error-')) {
+    await prisma.triggerFiring.update({
+      where: { id: firing.id },
+      data: { status: 'failed', error: 'The agent queue is unavailable', finishedAt: new Date() },
+    });
+    results.failed++;
+    results.errors.push(`Task ${trigger.taskId}: the agent queue is unavailable`);
+    return;
+  }
+
+  await prisma.triggerFiring.update({ where: { id: firing.id }, data: { jobId } });
+  console.log(`⚡ Trigger ${trigger.id} (${trigger.type}) queued task ${trigger.taskId}`);
+  results.queued++;
+}
+
+async function isTaskRunning(task: Task): Promise<boolean> {
+  if (ACTIVE_TASK_STATUSES.includes(task.status)) return true;
+
+  const handedOver = await prisma.triggerFiring.count({
+    where: { taskId: task.id, status: { in: ACTIVE_FIRING_STATUSES } },
+  });
+  return handedOver > 0;
+}
+
+// ============================================================================
+// WORKER SIDE
+// ============================================================================
+
+export interface TriggeredRun {
+  firingId: string;
+  chain: string[];
+  /** Goes into AgentTask.context, where the planner sees it. */
+  context: { trigger: { type: string; firedAt: string; payload: unknown } };
+}
+
+/**
+ * Mark a triggered run started and load the event that started it.
+ */
+export async function startTriggeredRun(firingId: string): Promise<TriggeredRun | null> {
+  const firing = await prisma.triggerFiring.findUnique({
+    where: { id: firingId },
+    include: { event: true },
+  });
+  if (!firing) return null;
+
+  await prisma.triggerFiring.updateMany({
+    where: { id: firingId, status: 'queued' },
+    data: { status: 'running' },
+  });
+
+  return {
+    firingId,
+    chain: firing.event.chain,
+    context: {
+      trigger: {
+        type: firing.event.type,
+        firedAt: firing.createdAt.toISOString(),
+        payload: firing.event.payload,
+      },
+    },
+  };
+}
+
+/**
+ * After a run of a task ends: record how a triggered run went, and let
+ * triggers following the task know it completed or failed. Never throws;
+ * the run is over either way.
+ */
+export async function finishTaskRun(
+  taskId: string,
+  run: TriggeredRun | null,
+  outcome?: { error?: string }
+): Promise<void> {
+  try {
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      select: { id: true, userId: true, title: true, status: true, result: true, error: true },
+    });
+    if (!task) return;
+
+    if (run) {
+      await prisma.triggerFiring.updateMany({
+        where: { id: run.firingId, status: { in: ACTIVE_FIRING_STATUSES } },
+        data: { status: task.status, error: outcome?.error ?? task.error, finishedAt: new Date() },
+      });
+    }
+
+    if (task.status !== 'completed' && task.status !== 'failed') return;
+
+    await emitTriggerEvent({
+      userId: task.userId,
+      type: task.status === 'completed' ? 'task_completed' : 'task_failed',
+      sourceId: task.id,
+      payload: {
+        taskId: task.id,
+        title: task.title,
+        status: task.status,
+        result: boundedPayloadValue(task.result),
+        error: outcome?.error ?? task.error,
+      },
+      chain: [...(run?.chain ?? []), task.id],
+    });
+  } catch (error) {
+    console.error(`[Triggers] Failed to record the end of a run of task ${taskId}:`, error);
+  }
+}
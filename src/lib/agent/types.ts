@@ -27,6 +27,7 @@ export type AgentStatus =
   | 'planning'     // Creating execution plan
   | 'executing'    // Running the plan
   | 'paused'       // Temporarily stopped
+  | 'awaiting_approval' // Halted on a step waiting for a human decision
   | 'completed'    // Successfully finished
   | 'failed'       // Execution failed
   | 'cancelled';   // User cancelled
@@ -63,6 +64,33 @@ export interface AgentConfig {
    * sensitive halts execution rather than auto-running.
    */
   autoApprovedTools?: string[];
+  /**
+   * Maximum plan steps that may run at once when the plan's dependency graph
+   * allows it. Defaults to DEFAULT_MAX_CONCURRENT_STEPS in plan-graph.ts.
+   */
+  maxConcurrentSteps?: number;
+  /**
+   * When a step fails (after retries) or returns nothing for steps that depend
+   * on it, ask the planner for a revised tail of the plan instead of failing
+   * the task. See AgentPlanner.refinePlan.
+   */
+  adaptiveReplanning?: boolean;
+  maxReplans?: number;      // Cap on plan revisions per task (default 2)
+  /**
+   * Credit ceiling for this task, below the global per-task limit in
+   * guards.ts. Set for team members from TeamAgent.maxCreditsPerTask.
+   */
+  maxCredits?: number;
+  /**
+   * Set on child tasks by agent.delegate: how many delegations below a
+   * top-level task this one is. See delegation.ts.
+   */
+  delegationDepth?: number;
+  /**
+   * Set on child tasks by agent.delegate and on team members' tasks: the only
+   * tools the task may use, wherever it is run (see agent-worker.ts).
+   */
+  toolNames?: string[];
 }
 
 /**
@@ -108,13 +136,33 @@ export interface ExecutionStep {
   description: string;     // Human-readable description
   tool: string;            // Tool name (browser, email, http, etc.)
   params: Record<string, any>; // Tool parameters
-  dependencies?: string[]; // IDs of steps that must complete first
+  dependencies?: string[]; // IDs of steps that must complete first (see plan-graph.ts)
   retryable?: boolean;     // Can this step be retried?
   requiresApproval?: boolean; // Needs human approval before execution?
   estimatedCredits?: number;
   estimatedDuration?: number; // ms
+  control?: ControlFlow;   // Present on control-flow steps (tool "control"), see control-flow.ts
 }
 
+/**
+ * Comparison used by `if` and `while` steps. Either side may be a step
+ * reference ("{{steps.step_2.data.price | number}}") or a literal.
+ */
+export interface StepCondition {
+  left: any;
+  operator: 'equals' | 'notEquals' | 'contains' | 'greaterThan' | 'lessThan' | 'exists';
+  right?: any;
+}
+
+/**
+ * Control-flow step bodies. Nested steps run in order, one at a time, and
+ * are numbered alongside the plan's top-level steps so they can be referenced.
+ */
+export type ControlFlow =
+  | { type: 'if'; condition: StepCondition; then: ExecutionStep[]; else?: ExecutionStep[] }
+  | { type: 'forEach'; items: any; body: ExecutionStep[]; maxIterations?: number }
+  | { type: 'while'; condition: StepCondition; body: ExecutionStep[]; maxIterations?: number };
+
 /**
  * Complete execution plan created by the planner
  */
@@ -126,6 +174,19 @@ export interface ExecutionPlan {
   estimatedDuration: number; // ms
   createdAt: Date;
   metadata?: Record<string, any>;
+  revisions?: PlanRevision[]; // Mid-run revisions, oldest first
+}
+
+/**
+ * A record of the planner replacing the unfinished part of a plan
+ */
+export interface PlanRevision {
+  revision: number;          // 1-based
+  createdAt: Date;
+  reason: string;
+  stepNumber: number;        // Step whose outcome triggered the revision
+  replacedStepIds: string[]; // Unfinished steps dropped from the plan
+  addedStepIds: string[];    // Steps the planner wrote in their place
 }
 
 // ============================================================================
@@ -138,7 +199,7 @@ export interface ExecutionPlan {
 export interface AgentState {
   taskId: string;
   status: AgentStatus;
-  currentStep: number;
+  currentStep: number;      // Steps finished so far (steps may finish out of order)
   totalSteps: number;
   progress: number;         // 0-100
 
@@ -168,7 +229,8 @@ export interface AgentState {
  */
 export interface ExecutionTrace {
   stepNumber: number;
-  timestamp: Date;
+  timestamp: Date;          // When the step finished
+  startedAt?: Date;         // When the step started (steps may overlap)
   action: string;
   tool: string;
   reasoning?: string;       // Agent's reasoning for this action
@@ -179,6 +241,9 @@ export interface ExecutionTrace {
   duration: number;         // ms
   credits: number;
   tokens: number;
+  parentStep?: number;      // Enclosing control-flow step, for nested steps
+  iteration?: number[];     // Loop indices, outermost first, inside forEach/while
+  policy?: PolicyEvaluation; // Workspace tool policy check, for tool steps that got that far
 }
 
 // ============================================================================
@@ -209,6 +274,11 @@ export interface AgentTool {
   // Execute the tool
   execute(params: any, context: AgentContext): Promise<ToolResult>;
 
+  // Dry run: return what execute() plausibly would, without side effects or
+  // external calls. Optional — tools without it get a placeholder result.
+  // See AgentExecutor.dryRun().
+  simulate?(params: any, context: AgentContext): Promise<ToolResult>;
+
   // Estimate credit cost for this operation
   estimateCost(params: any): number;
 }
@@ -224,6 +294,9 @@ export interface ToolResult {
     duration: number;     // ms
     credits: number;
     tokens?: number;
+    // Spent by a delegated child task, which charged it as it ran. Counts
+    // against the caller's budget but is not charged again (delegation.ts).
+    delegatedCredits?: number;
   };
 }
 
@@ -248,6 +321,25 @@ export interface AgentContext {
 
   // Shared state between steps
   memory: Record<string, any>;
+
+  // What the running agent works within, for tools that start work of their
+  // own (agent.delegate). Set by AgentExecutor and runChatLoop.
+  creditLimit?: number;     // Credit ceiling that state.creditsUsed counts against
+  delegationDepth?: number; // 0 for a top-level task or chat turn
+  toolNames?: string[];     // Tools this agent may call
+
+  // The chat conversation a chat turn belongs to, when the client named one.
+  // Files tools produce are filed under it (see lib/artifacts.ts).
+  conversationId?: string;
+
+  // Whose domain lists and sandbox apply (see lib/egress.ts): the workspace
+  // of the chat's conversation. Agent runs use the team's default workspace.
+  workspaceId?: string;
+
+  // Aborted when the run is paused, cancelled or out of time for this call
+  // (see cancellation.ts). Long-running tools should pass it on to fetch and
+  // check it between units of work.
+  signal?: AbortSignal;
 }
 
 // ============================================================================
@@ -319,9 +411,66 @@ export interface AgentResult {
   // Full trace
   trace: ExecutionTrace[];
 
+  // Completed runs: how `result` differs from the last successful run's
+  // (see run-state.ts). Null when the task could not be read.
+  resultDiff?: ResultDiff | null;
+
   completedAt: Date;
 }
 
+/**
+ * One difference between two results
+ */
+export interface ResultChange {
+  path: string;             // JSONPath of the value, `$` for the whole result
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * How a run's result differs from the last successful run's
+ */
+export interface ResultDiff {
+  changed: boolean;
+  changes: ResultChange[];  // Up to MAX_RESULT_CHANGES
+  total: number;            // How many differences in all, listed or not
+  firstRun: boolean;        // No earlier successful run had a result to compare with
+}
+
+/**
+ * Options for AgentExecutor.dryRun()
+ */
+export interface DryRunOptions {
+  /**
+   * Recorded result data to use instead of simulating, keyed by step
+   * ("step_3") or by tool name ("browser.extract"). A step key wins.
+   */
+  fixtures?: Record<string, any>;
+}
+
+/**
+ * Something a step would have done to the outside world
+ */
+export interface DryRunSideEffect {
+  stepNumber: number;
+  tool: string;
+  description: string;
+  params: Record<string, any>;  // As the tool would have received them
+  requiresApproval: boolean;    // Would have halted for approval in a real run
+}
+
+/**
+ * Outcome of a dry run. creditsUsed is always 0; projectedCredits is what the
+ * run would cost, from each tool's estimateCost().
+ */
+export interface DryRunReport extends AgentResult {
+  dryRun: true;
+  projectedCredits: number;
+  sideEffects: DryRunSideEffect[];
+  warnings: string[];
+}
+
 // ============================================================================
 // PLANNER
 // ============================================================================
@@ -341,10 +490,21 @@ export interface AgentPlanner {
   refinePlan(
     plan: ExecutionPlan,
     currentStep: number,
-    stepResult: ToolResult
+    stepResult: ToolResult,
+    context?: PlanRefinementContext
   ): Promise<ExecutionPlan>;
 }
 
+/**
+ * What the planner needs beyond the failing step to revise a plan
+ */
+export interface PlanRefinementContext {
+  task: AgentTask;
+  trace: ExecutionTrace[];
+  completedStepIds: string[]; // Steps that finished and are kept as-is
+  reason: string;             // Why the plan is being revised
+}
+
 // ============================================================================
 // ORCHESTRATOR
 // ============================================================================
@@ -396,6 +556,60 @@ export interface OrchestratorStatus {
   uptime: number;             // ms
 }
 
+// ============================================================================
+// TOOL POLICIES
+// ============================================================================
+
+export type ToolPolicyEffect = 'allow' | 'require_approval' | 'deny';
+
+export type ToolPolicyOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'in'
+  | 'notIn'
+  | 'contains'
+  | 'notContains'
+  | 'endsWith'
+  | 'domainIn'
+  | 'domainNotIn'
+  | 'exists'
+  | 'notExists';
+
+/**
+ * A test on one parameter of a tool call. `param` is a dotted path into the
+ * params ("to", "options.visibility").
+ */
+export interface ToolPolicyCondition {
+  param: string;
+  operator: ToolPolicyOperator;
+  value?: any;
+}
+
+/**
+ * A workspace rule: calls to `tool` ("email.send", "email.*" or "*") whose
+ * params meet every condition get `effect`.
+ */
+export interface ToolPolicyRule {
+  id: string;
+  name: string;
+  tool: string;
+  conditions: ToolPolicyCondition[];
+  effect: ToolPolicyEffect;
+  priority: number;
+}
+
+/**
+ * The outcome of checking a tool call against the workspace's policies.
+ * 'default' means no rule matched and the built-in approval rules apply.
+ */
+export interface PolicyEvaluation {
+  effect: ToolPolicyEffect | 'default';
+  policyId?: string;
+  policyName?: string;
+  reason: string;
+  rulesChecked: number;
+}
+
 // ============================================================================
 // EVENTS
 // ============================================================================
@@ -411,10 +625,11 @@ export type AgentEvent =
   | { type: 'task.step.failed'; taskId: string; stepNumber: number; error: string }
   | { type: 'task.paused'; taskId: string; state: AgentState }
   | { type: 'task.resumed'; taskId: string }
+  | { type: 'task.replanned'; taskId: string; revision: PlanRevision }
   | { type: 'task.completed'; taskId: string; result: AgentResult }
   | { type: 'task.failed'; taskId: string; error: string }
   | { type: 'task.cancelled'; taskId: string }
-  | { type: 'approval.required'; taskId: string; stepNumber: number; action: string };
+  | { type: 'approval.required'; taskId: string; stepNumber: number; action: string; approvalId?: string };
 
 /**
  * Event handler type
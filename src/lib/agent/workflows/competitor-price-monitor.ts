@@ -53,6 +53,7 @@ export function createPriceMonitorPlan(
       requiresApproval: false,
       estimatedCredits: 5,
       estimatedDuration: 2000,
+      dependencies: [`${taskId}_step_1`],
     },
     {
       id: `${taskId}_step_3`,
@@ -67,6 +68,7 @@ export function createPriceMonitorPlan(
       requiresApproval: false,
       estimatedCredits: 10,
       estimatedDuration: 500,
+      dependencies: [`${taskId}_step_2`],
     },
     {
       id: `${taskId}_step_4`,
@@ -79,6 +81,7 @@ export function createPriceMonitorPlan(
       requiresApproval: false,
       estimatedCredits: 15,
       estimatedDuration: 1000,
+      dependencies: [`${taskId}_step_3`],
     },
     {
       id: `${taskId}_step_5`,
@@ -87,7 +90,7 @@ export function createPriceMonitorPlan(
       description: 'Parse price value from extracted text',
       tool: 'ai',
       params: {
-        text: '{{step3.result.text}}',
+        text: '{{steps.step_3.data.text}}',
         schema: {
           price: 'The numeric price value (just the number, no currency symbol)',
           currency: 'The currency symbol or code (e.g., $, USD)',
@@ -98,6 +101,7 @@ export function createPriceMonitorPlan(
       requiresApproval: false,
       estimatedCredits: 100,
       estimatedDuration: 2000,
+      dependencies: [`${taskId}_step_3`],
     },
     {
       id: `${taskId}_step_6`,
@@ -108,7 +112,7 @@ export function createPriceMonitorPlan(
       params: {
         prompt: `Compare the competitor's price to the threshold and determine if an alert should be sent.
 
-Competitor Price: {{step5.result.extracted.price}}
+Competitor Price: {{steps.step_5.data.extracted.price}}
 Threshold Price: ${config.thresholdPrice}
 
 If the competitor's price is LOWER than the threshold, respond with: YES
@@ -122,6 +126,7 @@ Only respond with YES or NO, nothing else.`,
       requiresApproval: false,
       estimatedCredits: 50,
       estimatedDuration: 1500,
+      dependencies: [`${taskId}_step_5`],
     },
     {
       id: `${taskId}_step_7`,
@@ -137,11 +142,11 @@ Only respond with YES or NO, nothing else.`,
 Your competitor's price has dropped below your threshold!
 
 🎯 Your Threshold: $${config.thresholdPrice}
-💰 Competitor's Price: {{step5.result.extracted.price}} {{step5.result.extracted.currency}}
+💰 Competitor's Price: {{steps.step_5.data.extracted.price}} {{steps.step_5.data.extracted.currency}}
 📍 Page: ${config.competitorUrl}
 📅 Checked: {{timestamp}}
 
-Full Price Text: {{step5.result.extracted.fullText}}
+Full Price Text: {{steps.step_5.data.extracted.fullText}}
 
 This is an automated alert from your Xantuus AI price monitoring agent.
 
@@ -0,0 +1,211 @@
+/**
+ * Artifacts - every file an agent produced, findable later
+ *
+ * Document, spreadsheet, deck, chart, image and music tools upload their
+ * output (see storage.ts) and record it here with where it came from: the
+ * task and step, or the chat conversation. "The report my Monday agent made"
+ * is then a listing rather than a search through traces.
+ *
+ * An agent regenerating a file — the same task (or conversation), tool and
+ * title — adds a version: the new row points at the one it replaces
+ * (parentId), shares its lineageId, and takes over isLatest. Listings show
+ * latest versions; an artifact's page shows its history.
+ *
+ * Recording never fails the tool that made the file: the file exists either
+ * way, so an error is logged and the tool returns its URL as before.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { deleteMedia } from '@/lib/storage';
+import type { AgentContext } from '@/lib/agent/types';
+
+export const ARTIFACT_TYPES = ['document', 'spreadsheet', 'presentation', 'chart', 'image', 'audio'] as const;
+export type ArtifactType = typeof ARTIFACT_TYPES[number];
+
+export const ARTIFACT_PAGE_SIZE = 30;
+
+export interface ArtifactInput {
+  type: ArtifactType;
+  mimeType: string;
+  title: string;
+  filename?: string;
+  bytes?: number;
+  url: string;
+  persisted?: boolean;
+  tool: string;
+}
+
+/** What a tool adds to its result data once the file is recorded. */
+export interface RecordedArtifact {
+  artifactId: string;
+  version: number;
+}
+
+/**
+ * The MIME type a data URI declares, else `fallback`. For tools that get a
+ * URL back from a provider rather than uploading a buffer themselves.
+ */
+export function mimeTypeOf(url: string, fallback: string): string {
+  return url.match(/^data:([^;,]+)[;,]/)?.[1] ?? fallback;
+}
+
+/**
+ * The artifact this one would be a new version of: the latest with the same
+ * tool and title from the same task or, for chat, the same conversation.
+ */
+async function previousVersion(userId: string, source: { taskId: string | null; conversationId: string | null }, input: ArtifactInput) {
+  if (!source.taskId && !source.conversationId) return null;
+
+  return prisma.artifact.findFirst({
+    where: {
+      userId,
+      tool: input.tool,
+      title: input.title,
+      isLatest: true,
+      ...(source.taskId ? { taskId: source.taskId } : { conversationId: source.conversationId }),
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Record a file a tool produced. Returns what to add to the tool's result,
+ * or null when recording failed.
+ */
+export async function recordArtifact(context: AgentContext, input: ArtifactInput): Promise<RecordedArtifact | null> {
+  try {
+    // Chat turns have no Task row to link to
+    const task = await prisma.task.findFirst({
+      where: { id: context.taskId, userId: context.userId },
+      select: { id: true },
+    });
+    const source = { taskId: task?.id ?? null, conversationId: context.conversationId ?? null };
+    const previous = await previousVersion(context.userId, source, input);
+
+    const artifact = await prisma.artifact.create({
+      data: {
+        userId: context.userId,
+        type: input.type,
+        mimeType: input.mimeType,
+        title: input.title.slice(0, 200),
+        filename: input.filename,
+        bytes: input.bytes,
+        url: input.url,
+        persisted: input.persisted ?? true,
+        taskId: source.taskId,
+        conversationId: source.conversationId,
+        stepNumber: task ? context.stepNumber : null,
+        tool: input.tool,
+        version: previous ? previous.version + 1 : 1,
+        parentId: previous?.id ?? null,
+        lineageId: previous ? previous.lineageId ?? previous.id : null,
+      },
+    });
+
+    if (previous) {
+      await prisma.artifact.update({ where: { id: previous.id }, data: { isLatest: false } });
+    }
+
+    return { artifactId: artifact.id, version: artifact.version };
+  } catch (error) {
+    console.error(`[Artifacts] Failed to record the output of ${input.tool}:`, error);
+    return null;
+  }
+}
+
+export interface ArtifactFilters {
+  type?: string;
+  taskId?: string;
+  conversationId?: string;
+  q?: string;
+  cursor?: string;
+}
+
+/**
+ * The user's artifacts, latest versions only, newest first, a page at a time.
+ */
+export async function listArtifacts(userId: string, filters: ArtifactFilters = {}) {
+  const artifacts = await prisma.artifact.findMany({
+    where: {
+      userId,
+      isLatest: true,
+      ...(filters.type && { type: filters.type }),
+      ...(filters.taskId && { taskId: filters.taskId }),
+      ...(filters.conversationId && { conversationId: filters.conversationId }),
+      ...(filters.q && { title: { contains: filters.q, mode: 'insensitive' as const } }),
+    },
+    include: {
+      task: { select: { id: true, title: true } },
+      conversation: { select: { id: true, title: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: ARTIFACT_PAGE_SIZE + 1,
+    ...(filters.cursor && { cursor: { id: filters.cursor }, skip: 1 }),
+  });
+
+  const hasMore = artifacts.length > ARTIFACT_PAGE_SIZE;
+  const page = hasMore ? artifacts.slice(0, ARTIFACT_PAGE_SIZE) : artifacts;
+  return { artifacts: page, nextCursor: hasMore ? page[page.length - 1].id : null };
+}
+
+/**
+ * One of the user's artifacts with every version of it, newest first.
+ */
+export async function getArtifact(userId: string, id: string) {
+  const artifact = await prisma.artifact.findFirst({
+    where: { id, userId },
+    include: {
+      task: { select: { id: true, title: true } },
+      conversation: { select: { id: true, title: true } },
+    },
+  });
+  if (!artifact) return null;
+
+  const lineageId = artifact.lineageId ?? artifact.id;
+  const versions = await prisma.artifact.findMany({
+    where: { userId, OR: [{ id: lineageId }, { lineageId }] },
+    select: { id: true, version: true, bytes: true, url: true, isLatest: true, stepNumber: true, createdAt: true },
+    orderBy: { version: 'desc' },
+  });
+
+  return { artifact, versions };
+}
+
+/**
+ * image.generate and music.generate files belong to the media library
+ * (GeneratedImage, GeneratedMusic); their artifacts only point at them.
+ */
+const MEDIA_LIBRARY_TOOLS = new Set(['image.generate', 'music.generate']);
+
+/** Delete artifacts and the stored files they own. */
+async function deleteArtifacts(where: Prisma.ArtifactWhereInput): Promise<number> {
+  const doomed = await prisma.artifact.findMany({ where, select: { id: true, url: true, persisted: true, tool: true } });
+  if (!doomed.length) return 0;
+
+  await prisma.artifact.deleteMany({ where: { id: { in: doomed.map((a) => a.id) } } });
+  await deleteMedia(doomed.filter((a) => a.persisted && !MEDIA_LIBRARY_TOOLS.has(a.tool)).map((a) => a.url));
+  return doomed.length;
+}
+
+/**
+ * Delete one of the user's artifacts, every version of it. Returns false
+ * when there is no such artifact.
+ */
+export async function deleteArtifact(userId: string, id: string): Promise<boolean> {
+  const artifact = await prisma.artifact.findFirst({ where: { id, userId }, select: { id: true, lineageId: true } });
+  if (!artifact) return false;
+
+  const lineageId = artifact.lineageId ?? artifact.id;
+  await deleteArtifacts({ userId, OR: [{ id: lineageId }, { lineageId }] });
+  return true;
+}
+
+/**
+ * Retention hook: delete the user's artifacts made before `cutoff`, files
+ * included. Versions are made in order, so a latest version only goes once
+ * every earlier one has. See data-retention.ts.
+ */
+export async function purgeArtifactsBefore(userId: string, cutoff: Date): Promise<number> {
+  return deleteArtifacts({ userId, createdAt: { lt: cutoff } });
+}
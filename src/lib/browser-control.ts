@@ -7,25 +7,21 @@
  * - Content filtering and validation
  * - Request/response monitoring
  * - Rate limiting per user
+ *
+ * Every request a page makes — the navigation, its redirects and subresources
+ * — is checked against the egress rules (lib/egress.ts) and the workspace's
+ * domain lists before it is let through.
  */
 
 import puppeteer, { Browser, Page } from 'puppeteer';
 import { prisma } from '@/lib/prisma';
+import { checkEgressUrl, createRequestGuard, loadEgressPolicy } from '@/lib/egress';
 
 // Security configuration
 const BROWSER_CONFIG = {
   maxPages: 5, // Max concurrent pages per user
   maxNavigationTime: 30000, // 30 seconds max per navigation
   maxTotalTime: 120000, // 2 minutes max per session
-  allowedProtocols: ['http:', 'https:'],
-  blockedDomains: [
-    'localhost',
-    '127.0.0.1',
-    '0.0.0.0',
-    '169.254.169.254', // AWS metadata
-    '::1',
-    'metadata.google.internal', // GCP metadata
-  ],
   maxResponseSize: 10 * 1024 * 1024, // 10MB
   maxScreenshotSize: 5 * 1024 * 1024, // 5MB
 };
@@ -65,6 +61,8 @@ export interface BrowserSession {
   pages: Page[];
   startTime: number;
   requestCount: number;
+  /** Why a URL may not be loaded, or null (see createRequestGuard) */
+  requestGuard: (url: string) => Promise<string | null>;
 }
 
 export interface BrowserAction {
@@ -125,41 +123,15 @@ class BrowserControlService {
   }
 
   /**
-   * Validate URL is safe to visit
+   * Validate URL is safe to visit, judged from the URL alone. Navigation also
+   * checks where the hostname resolves to.
    */
   validateURL(url: string): { valid: boolean; reason?: string } {
     try {
-      const parsed = new URL(url);
-
-      // Check protocol
-      if (!BROWSER_CONFIG.allowedProtocols.includes(parsed.protocol)) {
-        return { valid: false, reason: `Protocol ${parsed.protocol} not allowed` };
-      }
-
-      // Check blocked domains
-      const hostname = parsed.hostname.toLowerCase();
-      for (const blocked of BROWSER_CONFIG.blockedDomains) {
-        if (hostname === blocked || hostname.endsWith(`.${blocked}`)) {
-          return { valid: false, reason: `Domain ${hostname} is blocked` };
-        }
-      }
-
-      // Check for IP addresses (internal network)
-      if (/^(\d+\.){3}\d+$/.test(hostname)) {
-        const parts = hostname.split('.').map(Number);
-        // Block private IP ranges
-        if (
-          parts[0] === 10 || // 10.0.0.0/8
-          (parts[0] === 172 && parts[1] >= 16 && parts[1] <= 31) || // 172.16.0.0/12
-          (parts[0] === 192 && parts[1] === 168) // 192.168.0.0/16
-        ) {
-          return { valid: false, reason: 'Private IP addresses are blocked' };
-        }
-      }
-
+      checkEgressUrl(url);
       return { valid: true };
     } catch (error) {
-      return { valid: false, reason: 'Invalid URL format' };
+      return { valid: false, reason: error instanceof Error ? error.message : 'Invalid URL format' };
     }
   }
 
@@ -189,9 +161,10 @@ class BrowserControlService {
   }
 
   /**
-   * Create secure browser session
+   * Create secure browser session. Pages in it may only load what the domain
+   * lists of `workspaceId` (the user's default workspace if unset) allow.
    */
-  async createSession(userId: string): Promise<string> {
+  async createSession(userId: string, workspaceId?: string): Promise<string> {
     const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
     // Secure launch options
@@ -219,6 +192,7 @@ class BrowserControlService {
       timeout: 30000,
     };
 
+    const requestGuard = createRequestGuard(await loadEgressPolicy(userId, workspaceId));
     const browser = await puppeteer.launch(launchOptions);
 
     const session: BrowserSession = {
@@ -228,6 +202,7 @@ class BrowserControlService {
       pages: [],
       startTime: Date.now(),
       requestCount: 0,
+      requestGuard,
     };
 
     this.sessions.set(sessionId, session);
@@ -288,15 +263,17 @@ class BrowserControlService {
         // Set viewport
         await page.setViewport({ width: 1280, height: 720 });
 
-        // Block unnecessary resources
+        // Block unnecessary resources, and anything the egress rules refuse
         await page.setRequestInterception(true);
         page.on('request', (request) => {
           const resourceType = request.resourceType();
           if (['font', 'media'].includes(resourceType)) {
             request.abort();
-          } else {
-            request.continue();
+            return;
           }
+          void session.requestGuard(request.url())
+            .then((blocked) => (blocked ? request.abort('blockedbyclient') : request.continue()))
+            .catch(() => {});
         });
 
         // Monitor responses for size
@@ -310,12 +287,12 @@ class BrowserControlService {
 
         // Validate URL
         if (action.target) {
-          const urlValidation = this.validateURL(action.target);
-          if (!urlValidation.valid) {
+          const blocked = await session.requestGuard(action.target);
+          if (blocked) {
             await page.close();
             return {
               success: false,
-              error: `URL validation failed: ${urlValidation.reason}`,
+              error: `URL validation failed: ${blocked}`,
             };
           }
 
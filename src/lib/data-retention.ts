@@ -3,18 +3,26 @@
  *
  * Users can opt into a retention window (User.dataRetentionDays). When set, this
  * job deletes their conversations — and, via cascade, the messages and
- * attachments under them — older than that window. Users with no window keep
- * data indefinitely (current behavior), so this is strictly opt-in.
+ * attachments under them — older than that window — and the files their
+ * agents produced in it (artifacts, see lib/artifacts.ts), stored copies
+ * included. Users with no window keep data indefinitely (current behavior),
+ * so this is strictly opt-in.
+ *
+ * Stored agent tool outputs (see lib/agent/tool-outputs.ts) are working data
+ * rather than user content, and are deleted for everyone once they expire.
  *
  * Runs from a scheduled cron (see /api/cron/data-retention). Designed to be
  * safe to run repeatedly and to keep going if one user errors.
  */
 
 import { prisma } from '@/lib/prisma';
+import { purgeArtifactsBefore } from '@/lib/artifacts';
 
 export interface RetentionResult {
   usersProcessed: number;
   conversationsDeleted: number;
+  artifactsDeleted: number;
+  toolOutputsDeleted: number;
   errors: number;
 }
 
@@ -22,6 +30,8 @@ export async function purgeExpiredData(): Promise<RetentionResult> {
   const result: RetentionResult = {
     usersProcessed: 0,
     conversationsDeleted: 0,
+    artifactsDeleted: 0,
+    toolOutputsDeleted: 0,
     errors: 0,
   };
 
@@ -43,6 +53,7 @@ export async function purgeExpiredData(): Promise<RetentionResult> {
         where: { userId: user.id, lastMessageAt: { lt: cutoff } },
       });
       result.conversationsDeleted += deleted.count;
+      result.artifactsDeleted += await purgeArtifactsBefore(user.id, cutoff);
       result.usersProcessed += 1;
     } catch (error) {
       console.error(`[retention] failed for user ${user.id}:`, error);
@@ -50,5 +61,15 @@ export async function purgeExpiredData(): Promise<RetentionResult> {
     }
   }
 
+  try {
+    const expired = await prisma.toolOutput.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    result.toolOutputsDeleted = expired.count;
+  } catch (error) {
+    console.error('[retention] failed to delete expired tool outputs:', error);
+    result.errors += 1;
+  }
+
   return result;
 }
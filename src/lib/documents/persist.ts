@@ -1,15 +1,11 @@
 /**
  * Trace + spec persistence for the document generation pipeline.
  *
- * Mirrors what AgentExecutor.saveResult() writes (one TaskExecution row per
- * trace entry, credits deducted from the user) but is called once per PHASE
- * rather than once at the end of a whole run, so Task.documentSpec/
- * documentPhase stay fresh for the UI's polling view while a run is still in
- * progress. Uses deductCredits() from lib/credits.ts (team-billing-aware)
- * rather than AgentExecutor's direct prisma.user.update — that's the
- * documented canonical pattern (see CLAUDE.md) and the more correct choice
- * for a new code path, even though it means this doesn't literally share
- * AgentExecutor's write, which uses an older direct-increment approach.
+ * Same write pattern as the agent executor's per-step checkpoints (see
+ * lib/agent/checkpoint.ts: one TaskExecution row per trace entry, credits
+ * deducted through deductCredits() from lib/credits.ts) but called once per
+ * PHASE, so Task.documentSpec/documentPhase stay fresh for the UI's polling
+ * view while a run is still in progress.
  */
 
 import { prisma } from '@/lib/prisma';
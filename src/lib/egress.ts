@@ -0,0 +1,390 @@
+/**
+ * Egress - outbound requests to URLs an agent (or a user) chose
+ *
+ * Every tool that fetches a URL it was handed goes through safeFetch, which:
+ *
+ * - allows only http(s), and turns away hosts that are loopback, link-local,
+ *   on a private network or otherwise not public — by name (localhost,
+ *   *.internal), by IP literal, and by what the hostname resolves to. The
+ *   resolution check runs when the connection is opened, on the address
+ *   actually dialled, so a name that re-resolves to 169.254.169.254 between
+ *   a check and the request gets nowhere;
+ * - follows redirects itself, checking every hop the same way and dropping
+ *   credentials when a redirect leaves the origin (or, with `noRedirects`,
+ *   hands the redirect back unfollowed);
+ * - applies the workspace's domain lists: a blocked domain (or any
+ *   subdomain) is never fetched, and when the allow list is not empty only
+ *   its domains are;
+ * - stops after `timeoutMs` and fails a body larger than `maxBytes`.
+ *
+ * A browser cannot share the connection-time check (Chrome resolves names
+ * itself), so pages that load outside URLs check each request with
+ * createRequestGuard before letting it through.
+ *
+ * For local development against services on this machine, set
+ * EGRESS_ALLOW_PRIVATE_NETWORKS=true; it is ignored in production.
+ */
+
+import { BlockList, isIP } from 'node:net';
+import { lookup, type LookupAddress, type LookupOptions } from 'node:dns';
+import { Agent } from 'undici';
+import { prisma } from '@/lib/prisma';
+import { agentWorkspaceWhere } from '@/lib/workspace-utils';
+
+export type EgressFailureReason =
+  | 'invalid_url'
+  | 'blocked_domain'
+  | 'private_address'
+  | 'too_many_redirects'
+  | 'too_large'
+  | 'timeout';
+
+/** Thrown when a request is refused or cut short. Not retryable. */
+export class EgressError extends Error {
+  readonly reason: EgressFailureReason;
+
+  constructor(reason: EgressFailureReason, message: string) {
+    super(message);
+    this.name = 'EgressError';
+    this.reason = reason;
+  }
+}
+
+/** A workspace's domain lists; both hold bare domains such as "example.com". */
+export interface EgressPolicy {
+  allowedDomains: string[];
+  blockedDomains: string[];
+}
+
+export const OPEN_EGRESS_POLICY: EgressPolicy = { allowedDomains: [], blockedDomains: [] };
+
+export const DEFAULT_EGRESS_TIMEOUT_MS = 30_000;
+export const DEFAULT_EGRESS_MAX_BYTES = 10 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+/** Most entries in each of a workspace's lists. */
+export const MAX_EGRESS_DOMAINS = 200;
+
+/** Statuses that never carry a body. */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/** Headers not carried over to another origin on a redirect. */
+const CREDENTIAL_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96], // unspecified, loopback, IPv4-compatible
+  ['64:ff9b::', 96], // NAT64, an IPv4 address in the last 32 bits
+  ['64:ff9b:1::', 48], // local-use NAT64
+  ['2001::', 32], // Teredo, an obfuscated IPv4 address inside
+  ['2002::', 16], // 6to4, an IPv4 address in bits 16-47
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['fec0::', 10], // site-local
+  ['ff00::', 8], // multicast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+function allowPrivateNetworks(): boolean {
+  return process.env.NODE_ENV !== 'production' && process.env.EGRESS_ALLOW_PRIVATE_NETWORKS === 'true';
+}
+
+/** The IPv4 address an IPv4-mapped IPv6 address (::ffff:a.b.c.d) stands for. */
+function mappedIpv4(address: string): string | null {
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (dotted) return dotted[1];
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  if (!hex) return null;
+  const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+}
+
+/**
+ * Whether an IP address is anything but a public unicast address: loopback,
+ * link-local, private, CGNAT, multicast, reserved — IPv4 or IPv6, including
+ * IPv4 addresses written as IPv6. Addresses that tunnel or translate to IPv4
+ * (NAT64, 6to4, Teredo) are blocked whatever IPv4 address they carry. Not an
+ * IP address counts as blocked.
+ */
+export function isBlockedAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+  const version = isIP(ip);
+  if (version === 4) return PRIVATE_RANGES.check(ip, 'ipv4');
+  if (version !== 6) return true;
+
+  const ipv4 = mappedIpv4(ip);
+  return ipv4 ? PRIVATE_RANGES.check(ipv4, 'ipv4') : PRIVATE_RANGES.check(ip, 'ipv6');
+}
+
+/**
+ * Whether a hostname is loopback, link-local or on a private network, judged
+ * from the name alone: local names and IP literals. A public-looking name may
+ * still resolve to a private address; safeFetch checks that too.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true;
+  }
+  return isIP(host) !== 0 && isBlockedAddress(host);
+}
+
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * A domain list entry as stored: lowercase, without a leading "*." or ".".
+ * Null when it is not a domain.
+ */
+export function normalizeEgressDomain(entry: unknown): string | null {
+  if (typeof entry !== 'string') return null;
+  const domain = entry.trim().toLowerCase().replace(/^\*?\./, '').replace(/\.$/, '');
+  return /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/.test(domain)
+    ? domain
+    : null;
+}
+
+/**
+ * Problems with domain lists as submitted through the API, one issue each.
+ */
+export function validateEgressPolicyInput(input: { allowedDomains?: unknown; blockedDomains?: unknown }): string[] {
+  const issues: string[] = [];
+  for (const field of ['allowedDomains', 'blockedDomains'] as const) {
+    const list = input[field];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) {
+      issues.push(`${field} must be an array of domains`);
+      continue;
+    }
+    if (list.length > MAX_EGRESS_DOMAINS) {
+      issues.push(`${field} can hold up to ${MAX_EGRESS_DOMAINS} domains`);
+    }
+    list.forEach((entry, i) => {
+      if (!normalizeEgressDomain(entry)) {
+        issues.push(`${field}[${i}] must be a domain such as "example.com"`);
+      }
+    });
+  }
+  return issues;
+}
+
+/**
+ * Parse `url` and check it against everything that can be known without a
+ * DNS lookup: the scheme, local names and IP literals, and the policy's
+ * domain lists. Throws an EgressError.
+ */
+export function checkEgressUrl(url: string | URL, policy: EgressPolicy = OPEN_EGRESS_POLICY): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new EgressError('invalid_url', 'Invalid URL format');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new EgressError('invalid_url', `Protocol ${parsed.protocol} is not allowed`);
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (!allowPrivateNetworks() && isPrivateHost(host)) {
+    throw new EgressError('private_address', `${host} is not a public host`);
+  }
+  if (policy.blockedDomains.some((domain) => domainMatches(host, domain))) {
+    throw new EgressError('blocked_domain', `${host} is blocked by the workspace's domain list`);
+  }
+  if (policy.allowedDomains.length && !policy.allowedDomains.some((domain) => domainMatches(host, domain))) {
+    throw new EgressError('blocked_domain', `${host} is not on the workspace's list of allowed domains`);
+  }
+  return parsed;
+}
+
+function privateAddressError(hostname: string, address: string): EgressError {
+  return new EgressError('private_address', `${hostname} resolves to ${address}, which is not a public address`);
+}
+
+/**
+ * Resolve `hostname` and throw an EgressError if any address it has is not
+ * public. For callers that cannot use safeFetch's connection-time check.
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  if (allowPrivateNetworks()) return;
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = await new Promise<LookupAddress[]>((resolve, reject) =>
+    lookup(host, { all: true }, (error, found) => (error ? reject(error) : resolve(found)))
+  );
+  const blocked = addresses.find((entry) => isBlockedAddress(entry.address));
+  if (blocked) throw privateAddressError(host, blocked.address);
+}
+
+/**
+ * dns.lookup for outbound sockets: resolves as usual but refuses a name with
+ * any non-public address, so the check holds for the address connected to.
+ */
+function guardedLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: Error | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    const blocked = allowPrivateNetworks() ? undefined : addresses.find((entry) => isBlockedAddress(entry.address));
+    if (blocked) return callback(privateAddressError(hostname, blocked.address), '');
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+/**
+ * A check for every request a browser page makes: resolves to why `url` may
+ * not be loaded, or null. Non-network URLs (data:, blob:, about:) pass; each
+ * hostname is resolved once per guard.
+ */
+export function createRequestGuard(policy: EgressPolicy = OPEN_EGRESS_POLICY): (url: string) => Promise<string | null> {
+  const resolved = new Map<string, Promise<void>>();
+  return async (url) => {
+    if (/^(data|blob|about):/i.test(url)) return null;
+    try {
+      const { hostname } = checkEgressUrl(url, policy);
+      if (!resolved.has(hostname)) resolved.set(hostname, assertPublicHost(hostname));
+      await resolved.get(hostname);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  };
+}
+
+const guardedDispatcher = new Agent({ connect: { lookup: guardedLookup } });
+
+/** A body stream that errors once more than `maxBytes` have passed through. */
+function limitBody(body: ReadableStream<Uint8Array>, maxBytes: number, url: string): ReadableStream<Uint8Array> {
+  let received = 0;
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > maxBytes) {
+          controller.error(new EgressError('too_large', `The response from ${url} is larger than ${maxBytes} bytes`));
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    })
+  );
+}
+
+export interface SafeFetchInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+  /** Domain lists to apply; see loadEgressPolicy */
+  policy?: EgressPolicy;
+  /** Whole request, redirects and body included */
+  timeoutMs?: number;
+  maxBytes?: number;
+  /** Return a redirect as the response instead of following it */
+  noRedirects?: boolean;
+}
+
+/**
+ * fetch() for URLs from outside: see the top of this file for what it
+ * checks. Failures it causes are EgressErrors; reading a body larger than
+ * `maxBytes` fails with one too.
+ */
+export async function safeFetch(url: string | URL, init: SafeFetchInit = {}): Promise<Response> {
+  const policy = init.policy ?? OPEN_EGRESS_POLICY;
+  const timeoutMs = init.timeoutMs ?? DEFAULT_EGRESS_TIMEOUT_MS;
+  const maxBytes = init.maxBytes ?? DEFAULT_EGRESS_MAX_BYTES;
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const signal = init.signal ? AbortSignal.any([init.signal, timeout]) : timeout;
+
+  let current = checkEgressUrl(url, policy);
+  let method = (init.method ?? 'GET').toUpperCase();
+  let headers = { ...init.headers };
+  let body = init.body;
+
+  for (let redirects = 0; ; redirects++) {
+    let response: Response;
+    try {
+      response = await fetch(current.toString(), {
+        method,
+        headers,
+        body,
+        signal,
+        redirect: 'manual',
+        dispatcher: guardedDispatcher,
+      } as RequestInit);
+    } catch (error: any) {
+      if (error?.cause instanceof EgressError) throw error.cause;
+      if (timeout.aborted && !init.signal?.aborted) {
+        throw new EgressError('timeout', `${current.host} did not answer within ${timeoutMs / 1000}s`);
+      }
+      throw error;
+    }
+
+    const location = response.status >= 300 && response.status < 400 ? response.headers.get('location') : null;
+    if (!location || init.noRedirects) {
+      const length = Number(response.headers.get('content-length'));
+      if (length > maxBytes) {
+        await response.body?.cancel().catch(() => {});
+        throw new EgressError('too_large', `The response from ${current.host} is larger than ${maxBytes} bytes`);
+      }
+      const capped =
+        response.body && !NULL_BODY_STATUSES.has(response.status)
+          ? limitBody(response.body, maxBytes, current.host)
+          : null;
+      return new Response(capped, { status: response.status, statusText: response.statusText, headers: response.headers });
+    }
+
+    await response.body?.cancel().catch(() => {});
+    if (redirects === MAX_REDIRECTS) {
+      throw new EgressError('too_many_redirects', `${current.host} redirected more than ${MAX_REDIRECTS} times`);
+    }
+
+    const next = checkEgressUrl(new URL(location, current), policy);
+    if (next.origin !== current.origin) {
+      headers = Object.fromEntries(
+        Object.entries(headers).filter(([name]) => !CREDENTIAL_HEADERS.includes(name.toLowerCase()))
+      );
+    }
+    // As browsers do: 303, and 301/302 after a POST, continue as a GET
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+      if (method !== 'HEAD') method = 'GET';
+      body = undefined;
+      headers = Object.fromEntries(Object.entries(headers).filter(([name]) => !/^content-/i.test(name)));
+    }
+    current = next;
+  }
+}
+
+/**
+ * The domain lists for a user's agent runs, in the workspace
+ * agentWorkspaceWhere() picks (as for tool policies).
+ */
+export async function loadEgressPolicy(userId: string, workspaceId?: string): Promise<EgressPolicy> {
+  const workspace = await prisma.workspace.findFirst({
+    where: await agentWorkspaceWhere(userId, workspaceId),
+    select: { egressAllowedDomains: true, egressBlockedDomains: true },
+  });
+
+  return workspace
+    ? { allowedDomains: workspace.egressAllowedDomains, blockedDomains: workspace.egressBlockedDomains }
+    : OPEN_EGRESS_POLICY;
+}
@@ -148,3 +148,69 @@ export async function sendUsageAlertEmail(params: {
     return { sent: false };
   }
 }
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Ask the user to approve or deny an agent step. Same fire-and-forget
+ * semantics as the other emails — the request stays answerable from the
+ * in-app inbox either way. Everything the agent wrote (description, params)
+ * is escaped: it is model-authored and must not become markup. The buttons
+ * open the inbox, which asks for a confirming click, so a link scanner
+ * following them decides nothing.
+ */
+export async function sendApprovalRequestEmail(params: {
+  to: string;
+  name: string | null;
+  taskTitle: string;
+  stepNumber: number;
+  tool: string;
+  description: string;
+  params: string;
+  approveUrl: string;
+  denyUrl: string;
+  expiresAt: Date;
+}): Promise<{ sent: boolean }> {
+  if (!resend) {
+    console.warn('⚠️  RESEND_API_KEY not configured — skipping approval request email');
+    return { sent: false };
+  }
+
+  const { to, name, taskTitle, stepNumber, tool, description, approveUrl, denyUrl, expiresAt } = params;
+
+  try {
+    await resend.emails.send({
+      from: FROM_EMAIL,
+      to,
+      subject: `Approval needed: ${taskTitle.substring(0, 80)}`,
+      html: `
+        <div style="font-family: sans-serif; max-width: 480px; margin: 0 auto;">
+          <h2>Your agent is waiting for approval</h2>
+          <p>Hi ${escapeHtml(name || 'there')},</p>
+          <p><strong>${escapeHtml(taskTitle)}</strong> wants to run step ${stepNumber}: ${escapeHtml(description)} (<code>${escapeHtml(tool)}</code>).</p>
+          <pre style="background: #f3f4f6; padding: 12px; border-radius: 8px; white-space: pre-wrap; font-size: 13px;">${escapeHtml(params.params)}</pre>
+          <p>
+            <a href="${approveUrl}" style="display: inline-block; padding: 12px 24px; background: #16a34a; color: white; text-decoration: none; border-radius: 8px;">
+              Approve
+            </a>
+            <a href="${denyUrl}" style="display: inline-block; padding: 12px 24px; margin-left: 8px; background: #dc2626; color: white; text-decoration: none; border-radius: 8px;">
+              Deny
+            </a>
+          </p>
+          <p style="color: #6b7280; font-size: 14px;">The task stays paused until you decide. This request expires on ${expiresAt.toUTCString()}.</p>
+        </div>
+      `,
+    });
+    return { sent: true };
+  } catch (error) {
+    console.error('Error sending approval request email:', error);
+    return { sent: false };
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Minimal MCP client for remote servers over Streamable HTTP.
+ *
+ * Speaks just what agents need from someone else's server — initialize,
+ * tools/list and tools/call — as JSON-RPC over POST, reading the reply either
+ * as a JSON body or from the request's SSE stream. The session id the server
+ * hands out on initialize is sent back on every later request, and the
+ * session is ended with a DELETE on close().
+ *
+ * Credentials are the caller's business: pass the Authorization header in
+ * `headers`. A 401 surfaces as an McpClientError with status 401 so the caller
+ * can refresh its token and reconnect.
+ *
+ * Requests go through safeFetch (lib/egress.ts), so a server whose name
+ * resolves to a private address is refused like any other outside URL.
+ */
+
+import {
+  LATEST_PROTOCOL_VERSION,
+  type CallToolResult,
+  type ListToolsResult,
+  type Tool,
+} from '@modelcontextprotocol/server';
+import { safeFetch, type EgressPolicy } from '@/lib/egress';
+
+const CLIENT_INFO = { name: 'xantuus-ai', version: '1.0.0' };
+
+/** Most tools/list pages followed before giving up on a server. */
+const MAX_TOOL_PAGES = 10;
+
+/** Largest reply read, JSON or SSE, in characters. */
+const MAX_REPLY_CHARS = 5_000_000;
+
+/** Longest any one request may take; the caller's signal usually ends it sooner. */
+const REQUEST_TIMEOUT_MS = 120_000;
+
+export class McpClientError extends Error {
+  /** HTTP status, when the server answered with one */
+  readonly status?: number;
+  /** JSON-RPC error code, when the server returned an error */
+  readonly code?: number;
+
+  constructor(message: string, options: { status?: number; code?: number } = {}) {
+    super(message);
+    this.name = 'McpClientError';
+    this.status = options.status;
+    this.code = options.code;
+  }
+}
+
+interface JsonRpcReply {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  result?: any;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * The JSON-RPC reply to request `id` from an SSE stream, reading only as far
+ * as that reply. Exported for testing.
+ */
+export async function readSseReply(body: ReadableStream<Uint8Array>, id: number): Promise<JsonRpcReply | null> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let read = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (value) {
+        read += value.length;
+        buffer += decoder.decode(value, { stream: true });
+      }
+      if (done) buffer += '\n\n';
+
+      let boundary: RegExpExecArray | null;
+      while ((boundary = /\r?\n\r?\n/.exec(buffer))) {
+        const event = buffer.slice(0, boundary.index);
+        buffer = buffer.slice(boundary.index + boundary[0].length);
+
+        const data = event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).replace(/^ /, ''))
+          .join('\n');
+        if (!data) continue;
+
+        let message: JsonRpcReply;
+        try {
+          message = JSON.parse(data);
+        } catch {
+          continue;
+        }
+        if (message.id === id && ('result' in message || 'error' in message)) return message;
+      }
+
+      if (done) return null;
+      if (read > MAX_REPLY_CHARS) throw new McpClientError('The server reply is too large');
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+export class McpClient {
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private nextId = 1;
+
+  constructor(
+    private url: string,
+    private options: { headers?: Record<string, string>; signal?: AbortSignal; policy?: EgressPolicy } = {}
+  ) {}
+
+  private headers(): Record<string, string> {
+    return {
+      ...this.options.headers,
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...(this.sessionId && { 'Mcp-Session-Id': this.sessionId }),
+      ...(this.protocolVersion && { 'MCP-Protocol-Version': this.protocolVersion }),
+    };
+  }
+
+  private async post(message: Record<string, unknown>): Promise<Response> {
+    const response = await safeFetch(this.url, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({ jsonrpc: '2.0', ...message }),
+      signal: this.options.signal,
+      policy: this.options.policy,
+      timeoutMs: REQUEST_TIMEOUT_MS,
+    });
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => {});
+      throw new McpClientError(`The MCP server answered HTTP ${response.status}`, { status: response.status });
+    }
+    return response;
+  }
+
+  private async request<T>(method: string, params: Record<string, unknown> = {}): Promise<T> {
+    const id = this.nextId++;
+    const response = await this.post({ id, method, params });
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) this.sessionId = sessionId;
+
+    let reply: JsonRpcReply | null = null;
+    if (response.headers.get('content-type')?.includes('text/event-stream') && response.body) {
+      reply = await readSseReply(response.body, id);
+    } else {
+      const text = await response.text();
+      if (text.length > MAX_REPLY_CHARS) throw new McpClientError('The server reply is too large');
+      try {
+        const parsed = JSON.parse(text);
+        // A batch reply is allowed; take ours from it
+        reply = Array.isArray(parsed) ? parsed.find((message) => message?.id === id) ?? null : parsed;
+      } catch {
+        reply = null;
+      }
+    }
+
+    if (!reply) throw new McpClientError(`The MCP server sent no reply to ${method}`);
+    if (reply.error) {
+      throw new McpClientError(`${method} failed: ${reply.error.message}`, { code: reply.error.code });
+    }
+    return reply.result as T;
+  }
+
+  /** Open a session. Must be called before anything else. */
+  async connect(): Promise<{ serverName?: string }> {
+    const result = await this.request<{ protocolVersion?: string; serverInfo?: { name?: string } }>('initialize', {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    });
+    this.protocolVersion = result?.protocolVersion ?? LATEST_PROTOCOL_VERSION;
+
+    const ack = await this.post({ method: 'notifications/initialized' });
+    await ack.body?.cancel().catch(() => {});
+    return { serverName: result?.serverInfo?.name };
+  }
+
+  /** Every tool the server offers, following pagination. */
+  async listTools(): Promise<Tool[]> {
+    const tools: Tool[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_TOOL_PAGES; page++) {
+      const result = await this.request<ListToolsResult>('tools/list', cursor ? { cursor } : {});
+      tools.push(...(result?.tools ?? []));
+      cursor = result?.nextCursor;
+      if (!cursor) break;
+    }
+    return tools;
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+    return this.request<CallToolResult>('tools/call', { name, arguments: args });
+  }
+
+  /** End the session. Best-effort: a server that already forgot it is fine. */
+  async close(): Promise<void> {
+    if (!this.sessionId) return;
+    try {
+      const response = await safeFetch(this.url, {
+        method: 'DELETE',
+        headers: this.headers(),
+        policy: this.options.policy,
+      });
+      await response.body?.cancel().catch(() => {});
+    } catch {
+      // The session expires on its own
+    }
+    this.sessionId = null;
+  }
+}
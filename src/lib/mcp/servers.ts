@@ -0,0 +1,363 @@
+/**
+ * External MCP servers — other people's MCP servers as a source of agent tools.
+ *
+ * A user registers a Streamable HTTP endpoint with a name, which becomes the
+ * namespace of its tools (`mcp.<name>.<tool>`, see agent/tools/mcp.ts). Its
+ * tools are discovered when it is registered or refreshed and kept on the
+ * row, so runs and chats get them without contacting the server; each call
+ * opens a session of its own.
+ *
+ * Credentials are a bearer token or OAuth tokens, encrypted at rest like
+ * Integration secrets (see integrations/store.ts) and decrypted only to
+ * connect. An OAuth access token is refreshed at the server's token endpoint
+ * when it is about to expire, or when the server turns it away.
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/server';
+import { prisma } from '@/lib/prisma';
+import { decryptNullable, encryptNullableIfConfigured } from '@/lib/crypto/envelope';
+import { EgressError, isPrivateHost, safeFetch, type EgressPolicy } from '@/lib/egress';
+import { McpClient, McpClientError } from './client';
+
+/** Most MCP servers one user may register. */
+export const MAX_MCP_SERVERS = 10;
+
+/** Most tools kept from one server. */
+export const MAX_MCP_SERVER_TOOLS = 100;
+
+export const MCP_AUTH_TYPES = ['none', 'bearer', 'oauth'] as const;
+export type McpAuthType = (typeof MCP_AUTH_TYPES)[number];
+
+/** Refresh an OAuth token this long before it expires. */
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+const TOKEN_REQUEST_TIMEOUT_MS = 15_000;
+const DISCOVERY_TIMEOUT_MS = 30_000;
+
+/** The columns that hold secrets and must be encrypted at rest. */
+const SECRET_FIELDS = ['accessToken', 'refreshToken', 'oauthClientSecret'] as const;
+
+/** What the API returns for a server: never its secrets. */
+export const MCP_SERVER_FIELDS = {
+  id: true,
+  name: true,
+  url: true,
+  enabled: true,
+  authType: true,
+  tokenExpiresAt: true,
+  oauthTokenUrl: true,
+  oauthClientId: true,
+  tools: true,
+  discoveredAt: true,
+  lastError: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/** A tool as discovered, kept on the server's row. */
+export interface DiscoveredMcpTool {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+}
+
+/**
+ * Credentials as submitted through the API.
+ *   bearer  { type, token }
+ *   oauth   { type, accessToken, refreshToken?, expiresAt?, tokenUrl?, clientId?, clientSecret? }
+ */
+export interface McpServerAuthInput {
+  type: McpAuthType;
+  token?: string;
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: string;
+  tokenUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+type McpServerRow = {
+  id: string;
+  userId: string;
+  name: string;
+  url: string;
+  authType: string;
+  accessToken: string | null;
+  refreshToken: string | null;
+  tokenExpiresAt: Date | null;
+  oauthTokenUrl: string | null;
+  oauthClientId: string | null;
+  oauthClientSecret: string | null;
+};
+
+export type McpServerFailureReason = 'not_found' | 'disabled' | 'unreachable';
+
+export interface McpServerFailure {
+  ok: false;
+  reason: McpServerFailureReason;
+  message: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function urlIssue(field: string, value: unknown): string | null {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    return `${field} must be an absolute URL`;
+  }
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && process.env.NODE_ENV !== 'production')) {
+    return `${field} must use https`;
+  }
+  if (process.env.NODE_ENV === 'production' && isPrivateHost(url.hostname)) {
+    return `${field} must point at a public host`;
+  }
+  return null;
+}
+
+/**
+ * Problems with a server as submitted through the API, one issue each.
+ * `partial` checks only the fields present, for an update.
+ */
+export function validateMcpServerInput(input: Record<string, unknown>, partial = false): string[] {
+  const issues: string[] = [];
+  const has = (field: string) => input[field] !== undefined && input[field] !== null;
+
+  if ((!partial || has('name')) && (typeof input.name !== 'string' || !/^[a-z0-9_]{1,24}$/.test(input.name))) {
+    issues.push('name must be 1-24 lowercase letters, digits or underscores');
+  }
+  if (!partial || has('url')) {
+    const issue = urlIssue('url', input.url);
+    if (issue) issues.push(issue);
+  }
+  if (has('enabled') && typeof input.enabled !== 'boolean') {
+    issues.push('enabled must be true or false');
+  }
+
+  if (has('auth')) {
+    const auth = input.auth;
+    if (!isPlainObject(auth) || !MCP_AUTH_TYPES.includes(auth.type)) {
+      issues.push(`auth.type must be one of ${MCP_AUTH_TYPES.join(', ')}`);
+    } else if (auth.type === 'bearer' && (typeof auth.token !== 'string' || !auth.token)) {
+      issues.push('auth.token is required for bearer authentication');
+    } else if (auth.type === 'oauth') {
+      if (typeof auth.accessToken !== 'string' || !auth.accessToken) {
+        issues.push('auth.accessToken is required for oauth authentication');
+      }
+      if (auth.expiresAt !== undefined && Number.isNaN(new Date(auth.expiresAt).getTime())) {
+        issues.push('auth.expiresAt must be a date');
+      }
+      if (auth.refreshToken !== undefined && (typeof auth.tokenUrl !== 'string' || typeof auth.clientId !== 'string')) {
+        issues.push('auth.tokenUrl and auth.clientId are required to refresh the token');
+      }
+      if (auth.tokenUrl !== undefined) {
+        const issue = urlIssue('auth.tokenUrl', auth.tokenUrl);
+        if (issue) issues.push(issue);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * The columns for submitted credentials, secrets encrypted. Switching auth
+ * type clears the other type's columns.
+ */
+export function credentialData(auth: McpServerAuthInput) {
+  const bearer = auth.type === 'bearer';
+  const oauth = auth.type === 'oauth';
+  return {
+    authType: auth.type,
+    accessToken: encryptNullableIfConfigured(bearer ? auth.token : oauth ? auth.accessToken : null),
+    refreshToken: encryptNullableIfConfigured(oauth ? auth.refreshToken : null),
+    tokenExpiresAt: oauth && auth.expiresAt ? new Date(auth.expiresAt) : null,
+    oauthTokenUrl: oauth ? auth.tokenUrl ?? null : null,
+    oauthClientId: oauth ? auth.clientId ?? null : null,
+    oauthClientSecret: encryptNullableIfConfigured(oauth ? auth.clientSecret : null),
+  };
+}
+
+function decryptServer<T extends McpServerRow>(row: T): T {
+  const out: Record<string, unknown> = { ...row };
+  for (const field of SECRET_FIELDS) {
+    if (out[field] != null) out[field] = decryptNullable(out[field] as string);
+  }
+  return out as T;
+}
+
+/**
+ * Swap the refresh token for a new access token and store both. Null when
+ * the server has no way to refresh or the token endpoint refuses.
+ */
+async function refreshAccessToken(server: McpServerRow, policy?: EgressPolicy): Promise<string | null> {
+  if (server.authType !== 'oauth' || !server.refreshToken || !server.oauthTokenUrl || !server.oauthClientId) {
+    return null;
+  }
+
+  const form = new URLSearchParams({
+    grant_type: 'refresh_token',
+    refresh_token: server.refreshToken,
+    client_id: server.oauthClientId,
+    ...(server.oauthClientSecret && { client_secret: server.oauthClientSecret }),
+  });
+
+  try {
+    const response = await safeFetch(server.oauthTokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: form.toString(),
+      policy,
+      timeoutMs: TOKEN_REQUEST_TIMEOUT_MS,
+    });
+    if (!response.ok) {
+      console.error(`[MCP] Token refresh for server ${server.id} failed: HTTP ${response.status}`);
+      return null;
+    }
+    const tokens = await response.json();
+    if (typeof tokens?.access_token !== 'string') return null;
+
+    const refreshToken = typeof tokens.refresh_token === 'string' ? tokens.refresh_token : server.refreshToken;
+    const expiresAt =
+      typeof tokens.expires_in === 'number' ? new Date(Date.now() + tokens.expires_in * 1000) : null;
+    await prisma.externalMcpServer.update({
+      where: { id: server.id },
+      data: {
+        accessToken: encryptNullableIfConfigured(tokens.access_token),
+        refreshToken: encryptNullableIfConfigured(refreshToken),
+        tokenExpiresAt: expiresAt,
+      },
+    });
+    server.accessToken = tokens.access_token;
+    server.refreshToken = refreshToken;
+    server.tokenExpiresAt = expiresAt;
+    return tokens.access_token;
+  } catch (error) {
+    console.error(`[MCP] Token refresh for server ${server.id} failed:`, error);
+    return null;
+  }
+}
+
+/**
+ * A client with an open session on the server. Takes the decrypted row;
+ * an OAuth token that is about to expire or is turned away is refreshed once.
+ */
+async function connect(server: McpServerRow, signal?: AbortSignal, policy?: EgressPolicy): Promise<McpClient> {
+  const expiring =
+    server.tokenExpiresAt && server.tokenExpiresAt.getTime() - Date.now() < TOKEN_REFRESH_MARGIN_MS;
+  let token = (expiring && (await refreshAccessToken(server, policy))) || server.accessToken;
+
+  for (let attempt = 0; ; attempt++) {
+    const client = new McpClient(server.url, {
+      headers: server.authType !== 'none' && token ? { Authorization: `Bearer ${token}` } : {},
+      signal,
+      policy,
+    });
+    try {
+      await client.connect();
+      return client;
+    } catch (error) {
+      const refused = error instanceof McpClientError && error.status === 401;
+      const refreshed = refused && attempt === 0 ? await refreshAccessToken(server, policy) : null;
+      if (!refreshed) throw error;
+      token = refreshed;
+    }
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof McpClientError || error instanceof EgressError) return error.message;
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return 'The MCP server did not answer in time';
+  }
+  return 'Could not reach the MCP server';
+}
+
+async function findServer(userId: string, id: string) {
+  const row = await prisma.externalMcpServer.findFirst({ where: { id, userId } });
+  return row ? decryptServer(row) : null;
+}
+
+/**
+ * Connect to the user's server and store the tools it offers now. A failure
+ * is stored on the row as lastError, and the tools found last time are kept.
+ */
+export async function discoverMcpTools(
+  userId: string,
+  id: string
+): Promise<{ ok: true; tools: DiscoveredMcpTool[] } | McpServerFailure> {
+  const server = await findServer(userId, id);
+  if (!server) {
+    return { ok: false, reason: 'not_found', message: 'MCP server not found' };
+  }
+
+  let client: McpClient | null = null;
+  try {
+    client = await connect(server, AbortSignal.timeout(DISCOVERY_TIMEOUT_MS));
+    const listed = await client.listTools();
+    const tools: DiscoveredMcpTool[] = listed.slice(0, MAX_MCP_SERVER_TOOLS).map((tool) => ({
+      name: tool.name,
+      ...(tool.description && { description: tool.description.substring(0, 2000) }),
+      inputSchema: isPlainObject(tool.inputSchema) ? tool.inputSchema : { type: 'object' },
+    }));
+
+    await prisma.externalMcpServer.update({
+      where: { id: server.id },
+      data: { tools: tools as object[], discoveredAt: new Date(), lastError: null },
+    });
+    return { ok: true, tools };
+  } catch (error) {
+    const message = describeError(error);
+    await prisma.externalMcpServer.update({ where: { id: server.id }, data: { lastError: message } });
+    return { ok: false, reason: 'unreachable', message };
+  } finally {
+    await client?.close();
+  }
+}
+
+/**
+ * Call one tool on the user's server, in a session of its own.
+ */
+export async function callMcpServerTool(params: {
+  userId: string;
+  serverId: string;
+  tool: string;
+  args: Record<string, unknown>;
+  signal?: AbortSignal;
+  /** The workspace's domain lists, which the server's URL must pass */
+  policy?: EgressPolicy;
+}): Promise<{ ok: true; result: CallToolResult } | McpServerFailure> {
+  const server = await findServer(params.userId, params.serverId);
+  if (!server) {
+    return { ok: false, reason: 'not_found', message: 'The MCP server this tool came from was removed' };
+  }
+  if (!server.enabled) {
+    return { ok: false, reason: 'disabled', message: `The MCP server ${server.name} is disabled` };
+  }
+
+  let client: McpClient | null = null;
+  try {
+    client = await connect(server, params.signal, params.policy);
+    return { ok: true, result: await client.callTool(params.tool, params.args) };
+  } catch (error) {
+    return { ok: false, reason: 'unreachable', message: describeError(error) };
+  } finally {
+    await client?.close();
+  }
+}
+
+/**
+ * The user's enabled servers with the tools found on them, for building
+ * their tool registry.
+ */
+export async function listEnabledMcpServers(userId: string) {
+  return prisma.externalMcpServer.findMany({
+    where: { userId, enabled: true },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, name: true, tools: true },
+  });
+}
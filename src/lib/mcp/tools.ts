@@ -246,7 +246,7 @@ export function registerXantuusTools(server: McpServer): void {
         'List agent tasks for the authenticated account, optionally filtered by status or project.',
       inputSchema: z.object({
         status: z
-          .enum(['pending', 'planning', 'executing', 'paused', 'completed', 'failed', 'cancelled'])
+          .enum(['pending', 'planning', 'executing', 'paused', 'awaiting_approval', 'completed', 'failed', 'cancelled'])
           .optional(),
         projectId: z.string().optional(),
         limit: z.number().int().min(1).max(100).default(25),
@@ -8,6 +8,7 @@
 import { Queue, QueueEvents } from 'bullmq';
 import { redisConfig, isRedisAvailable } from './redis';
 import { captureMessage } from '@/lib/sentry';
+import { clearPendingTaskStop } from '@/lib/agent/cancellation';
 
 // Queue names
 export const QUEUE_NAMES = {
@@ -23,6 +24,8 @@ export interface AgentTaskJob {
   userId: string;
   priority?: number;
   retryCount?: number;
+  scheduledRunId?: string; // Set for runs of a schedule (see lib/agent/scheduler.ts)
+  triggerFiringId?: string; // Set for runs started by a trigger (see lib/agent/triggers.ts)
 }
 
 /**
@@ -126,6 +129,8 @@ export async function queueAgentTask(
     priority?: number;
     delay?: number;
     retryCount?: number;
+    scheduledRunId?: string;
+    triggerFiringId?: string;
   }
 ): Promise<string> {
   const queue = getQueue();
@@ -150,6 +155,9 @@ export async function queueAgentTask(
   }
 
   try {
+    // A stop asked of an earlier run must not stop this one
+    await clearPendingTaskStop(taskId);
+
     const job = await queue.add(
       'execute',
       {
@@ -157,6 +165,8 @@ export async function queueAgentTask(
         userId,
         priority: options?.priority,
         retryCount: options?.retryCount,
+        scheduledRunId: options?.scheduledRunId,
+        triggerFiringId: options?.triggerFiringId,
       },
       {
         priority: options?.priority || 1,
@@ -9,14 +9,58 @@ import { redisConfig } from './redis';
 import { QUEUE_NAMES, AgentTaskJob } from './agent-queue';
 import { prisma } from '@/lib/prisma';
 import { AgentExecutor } from '@/lib/agent/executor';
-import { toolRegistry } from '@/lib/agent/tools';
-import { AgentTask, AgentConfig } from '@/lib/agent/types';
+import { loadUserToolRegistry } from '@/lib/agent/custom-tools';
+import type { ToolRegistry } from '@/lib/agent/tools/registry';
+import { AgentTask, AgentConfig, AgentState } from '@/lib/agent/types';
+import { loadCheckpoint } from '@/lib/agent/checkpoint';
 import { runDocumentGenerationTask } from '@/lib/documents/run';
+import { runTeamTask, TEAM_AGENT_TYPE } from '@/lib/agent/team';
+import { finishScheduledRun, markScheduledRunStarted } from '@/lib/agent/scheduler';
+import { finishTaskRun, startTriggeredRun } from '@/lib/agent/triggers';
+import { closeTaskStopSubscription, takePendingTaskStop, watchTaskStops } from '@/lib/agent/cancellation';
 
 /**
- * Process an agent task job
+ * Process an agent task job, recording how it went on the ScheduledRun when
+ * it is a run of a schedule, and on the TriggerFiring when a trigger started
+ * it
  */
 async function processAgentTask(job: Job<AgentTaskJob>) {
+  const { taskId, scheduledRunId, triggerFiringId } = job.data;
+
+  // Cancelled while it waited in the queue (see lib/agent/scheduler.ts)
+  if (scheduledRunId && !(await markScheduledRunStarted(scheduledRunId))) {
+    console.log(`[Worker] Scheduled run ${scheduledRunId} of task ${taskId} was cancelled before it started`);
+    return { success: true, taskId, status: 'cancelled' };
+  }
+
+  const triggered = triggerFiringId ? await startTriggeredRun(triggerFiringId) : null;
+
+  try {
+    const outcome = await runAgentTask(job, triggered?.context);
+    if (scheduledRunId) {
+      await finishScheduledRun(scheduledRunId, {
+        status: outcome.status || 'failed',
+        credits: 'creditsUsed' in outcome ? outcome.creditsUsed : undefined,
+      });
+    }
+    await finishTaskRun(taskId, triggered);
+    return outcome;
+  } catch (error: any) {
+    // Only the last attempt decides how the run went
+    if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+      if (scheduledRunId) {
+        await finishScheduledRun(scheduledRunId, { status: 'failed', error: error.message });
+      }
+      await finishTaskRun(taskId, triggered, { error: error.message });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run the task a job is for
+ */
+async function runAgentTask(job: Job<AgentTaskJob>, context?: Record<string, any>) {
   const { taskId, userId } = job.data;
 
   console.log(`[Worker] Processing task ${taskId} for user ${userId}`);
@@ -24,6 +68,15 @@ async function processAgentTask(job: Job<AgentTaskJob>) {
   // Update job progress
   await job.updateProgress(10);
 
+  // Paused or cancelled while it waited in the queue (see lib/agent/cancellation.ts)
+  const pendingStop = await takePendingTaskStop(taskId);
+  if (pendingStop) {
+    console.log(`[Worker] Task ${taskId} was stopped (${pendingStop}) before it started`);
+    return { success: true, taskId, status: pendingStop === 'pause' ? 'paused' : 'cancelled' };
+  }
+
+  let unwatch: (() => void) | undefined;
+
   try {
     // Fetch task from database
     const task = await prisma.task.findUnique({
@@ -54,6 +107,33 @@ async function processAgentTask(job: Job<AgentTaskJob>) {
       return { success: true, taskId, status: finished?.status };
     }
 
+    // A team run splits its goal across the team's agents, each running as a
+    // task of its own (see lib/agent/team.ts)
+    if (task.agentType === TEAM_AGENT_TYPE) {
+      await job.updateProgress(20);
+      await runTeamTask(taskId, userId);
+      await job.updateProgress(100);
+
+      const finished = await prisma.task.findUnique({ where: { id: taskId } });
+      console.log(`[Worker] Team run ${taskId} finished with status: ${finished?.status}`);
+      if (finished?.status !== 'paused') {
+        await notifyUserOfCompletion(userId, task, { status: finished?.status });
+      }
+
+      return { success: true, taskId, status: finished?.status };
+    }
+
+    // A task that already has a plan and was mid-run — this job retrying after
+    // the worker died or threw, or a resume queued by /api/agent/resume —
+    // continues from its checkpoints instead of replanning and re-running
+    // steps whose side effects already happened.
+    if (task.plan && (task.status === 'executing' || job.attemptsMade > 0)) {
+      const state = await loadCheckpoint(taskId);
+      if (state) {
+        return await resumeAgentTask(job, task, state);
+      }
+    }
+
     // Update task status
     await prisma.task.update({
       where: { id: taskId },
@@ -80,11 +160,14 @@ async function processAgentTask(job: Job<AgentTaskJob>) {
       type: task.agentType as any,
       goal: task.description || task.title,
       config: agentConfig,
+      context,
       createdAt: task.createdAt,
     };
 
     // Create executor
-    const executor = new AgentExecutor(task.agentType as any, agentConfig, toolRegistry);
+    const registry = await taskToolRegistry(task.userId, agentConfig);
+    const executor = new AgentExecutor(task.agentType as any, agentConfig, registry);
+    unwatch = stopOnRequest(executor, taskId);
 
     await job.updateProgress(30);
 
@@ -127,10 +210,13 @@ async function processAgentTask(job: Job<AgentTaskJob>) {
     // Execute plan
     console.log(`[Worker] Executing task ${taskId} with ${plan.totalSteps} steps`);
 
-    // Set up progress updates
+    // Set up progress updates. Count completions rather than reading the
+    // step number: independent steps run concurrently and finish in any order.
+    let stepsCompleted = 0;
     executor.onEvent((event) => {
       if (event.type === 'task.step.completed') {
-        const progress = 50 + ((event.stepNumber / plan.totalSteps) * 40);
+        stepsCompleted++;
+        const progress = 50 + ((stepsCompleted / plan.totalSteps) * 40);
         job.updateProgress(Math.round(progress));
       }
     });
@@ -170,9 +256,90 @@ async function processAgentTask(job: Job<AgentTaskJob>) {
     await notifyUserOfFailure(userId, taskId, error.message);
 
     throw error; // Re-throw to mark job as failed
+  } finally {
+    unwatch?.();
   }
 }
 
+/**
+ * Continue a task from its checkpoints
+ */
+async function resumeAgentTask(
+  job: Job<AgentTaskJob>,
+  task: any,
+  state: AgentState
+) {
+  console.log(
+    `[Worker] Resuming task ${task.id} with ${state.currentStep} of ${state.totalSteps} steps already completed`
+  );
+
+  await prisma.task.update({
+    where: { id: task.id },
+    data: { status: 'executing' },
+  });
+
+  const agentConfig: AgentConfig = (task.agentConfig as any) || {
+    model: task.agentModel || 'claude-sonnet-4-5-20250929',
+    maxSteps: 20,
+    timeout: 300000,
+    retryCount: 3,
+  };
+
+  const registry = await taskToolRegistry(task.userId, agentConfig);
+  const executor = new AgentExecutor(task.agentType as any, agentConfig, registry);
+  const unwatch = stopOnRequest(executor, task.id);
+
+  let stepsCompleted = state.currentStep;
+  await job.updateProgress(50 + Math.round((stepsCompleted / (state.totalSteps || 1)) * 40));
+  executor.onEvent((event) => {
+    if (event.type === 'task.step.completed') {
+      stepsCompleted++;
+      job.updateProgress(50 + Math.round((stepsCompleted / (state.totalSteps || 1)) * 40));
+    }
+  });
+
+  let result;
+  try {
+    result = await executor.resume(state);
+  } finally {
+    unwatch();
+  }
+
+  await job.updateProgress(100);
+  console.log(`[Worker] Task ${task.id} resumed and finished with status: ${result.status}`);
+
+  await notifyUserOfCompletion(task.userId, task, result);
+
+  return {
+    success: true,
+    taskId: task.id,
+    status: result.status,
+    creditsUsed: result.creditsUsed,
+    duration: result.duration,
+  };
+}
+
+/**
+ * The tools a task may use: the user's, narrowed to those a sub-task or team
+ * member was given when it was created (AgentConfig.toolNames).
+ */
+async function taskToolRegistry(userId: string, config: AgentConfig): Promise<ToolRegistry> {
+  const registry = await loadUserToolRegistry(userId);
+  return config.toolNames ? registry.subset(config.toolNames) : registry;
+}
+
+/**
+ * Pause or cancel the executor when /api/agent/pause, /api/agent/cancel or
+ * the scheduler (overlap policy cancel_previous) asks to, from whichever
+ * process made the request
+ */
+function stopOnRequest(executor: AgentExecutor, taskId: string): () => void {
+  return watchTaskStops(taskId, async (action) => {
+    console.log(`[Worker] Stop requested for task ${taskId}: ${action}`);
+    await (action === 'pause' ? executor.pause() : executor.cancel());
+  });
+}
+
 /**
  * Notify user of task completion
  */
@@ -252,6 +419,7 @@ export async function closeAgentWorker() {
   if (workerInstance) {
     await workerInstance.close();
     workerInstance = null;
+    await closeTaskStopSubscription();
     console.log('👋 Agent worker closed');
   }
 }
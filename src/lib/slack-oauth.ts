@@ -4,6 +4,9 @@
  * Handles OAuth flow, token management, and API interactions for Slack.
  */
 
+import crypto from 'crypto';
+import type { NextRequest } from 'next/server';
+
 // Slack OAuth Configuration
 export const SLACK_CLIENT_ID = process.env.SLACK_CLIENT_ID;
 export const SLACK_CLIENT_SECRET = process.env.SLACK_CLIENT_SECRET;
@@ -34,6 +37,66 @@ export const SLACK_USER_SCOPES = [
   'chat:write',           // Send messages as user
 ].join(',');
 
+// Reject requests older than this to blunt replay attacks (Slack's own recommendation)
+const SLACK_TIMESTAMP_TOLERANCE_SECONDS = 60 * 5;
+
+/**
+ * Verify a request actually came from Slack.
+ * https://api.slack.com/authentication/verifying-requests-from-slack
+ *
+ * Slack signs the raw request body, so `body` must be the unparsed text.
+ */
+export function verifySlackRequest(req: NextRequest, body: string): boolean {
+  const signingSecret = process.env.SLACK_SIGNING_SECRET;
+
+  // In production, the signing secret is REQUIRED
+  if (!signingSecret) {
+    if (process.env.NODE_ENV === 'production') {
+      console.error('SLACK_SIGNING_SECRET not configured in production!');
+      return false; // REJECT in production
+    }
+    console.warn('SLACK_SIGNING_SECRET not configured - allowing in development only');
+    return true; // Allow in development only
+  }
+
+  const signature = req.headers.get('x-slack-signature');
+  const timestamp = req.headers.get('x-slack-request-timestamp');
+
+  if (!signature || !timestamp) {
+    console.warn('Slack request missing signature or timestamp header');
+    return false;
+  }
+
+  // Reject stale requests so a captured payload can't be replayed later
+  const timestampSeconds = Number(timestamp);
+  if (!Number.isFinite(timestampSeconds)) {
+    console.warn('Slack request has a non-numeric timestamp header');
+    return false;
+  }
+
+  const ageSeconds = Math.abs(Math.floor(Date.now() / 1000) - timestampSeconds);
+  if (ageSeconds > SLACK_TIMESTAMP_TOLERANCE_SECONDS) {
+    console.warn(`Slack request timestamp outside tolerance (${ageSeconds}s old)`);
+    return false;
+  }
+
+  const expected =
+    'v0=' +
+    crypto
+      .createHmac('sha256', signingSecret)
+      .update(`v0:${timestamp}:${body}`)
+      .digest('hex');
+
+  // timingSafeEqual throws on length mismatch, so check that first
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  const signatureBuffer = Buffer.from(signature, 'utf8');
+  if (expectedBuffer.length !== signatureBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+}
+
 export interface SlackTokens {
   access_token: string;
   token_type: string;
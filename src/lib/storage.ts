@@ -13,7 +13,7 @@
  * row — video and audio must have Blob configured.
  */
 
-import { put } from '@vercel/blob';
+import { del, put } from '@vercel/blob';
 
 /** Data URIs above this size are refused rather than written to the database. */
 const FALLBACK_MAX_BYTES = 2 * 1024 * 1024; // 2MB
@@ -94,3 +94,19 @@ export async function uploadMedia(
     bytes: buffer.byteLength,
   };
 }
+
+/**
+ * Delete uploaded media by URL. Data URIs have nothing to delete, and a
+ * failure is logged rather than thrown: callers are cleaning up rows that
+ * are already gone.
+ */
+export async function deleteMedia(urls: string[]): Promise<void> {
+  const stored = urls.filter((url) => url.startsWith('https://'));
+  if (!stored.length || !isBlobConfigured()) return;
+
+  try {
+    await del(stored);
+  } catch (error) {
+    console.error('[storage] Failed to delete media:', error);
+  }
+}
@@ -5,10 +5,13 @@
  * Documentation: https://core.telegram.org/bots/api
  */
 
-import { timingSafeEqual } from 'crypto';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
 
 const TELEGRAM_API_BASE = 'https://api.telegram.org';
 
+/** How long a link for receiving approvals in Telegram can be used. */
+const APPROVAL_LINK_TTL_MS = 60 * 60 * 1000;
+
 /**
  * Telegram Bot Info
  */
@@ -328,6 +331,54 @@ export function validateTelegramWebhook(
   return timingSafeEqual(a, b);
 }
 
+/**
+ * What an integration's config keeps of its pending approval link: the
+ * token's hash and when it stops working.
+ */
+export interface TelegramApprovalLinkConfig {
+  approvalLinkTokenHash?: string | null;
+  approvalLinkExpiresAt?: string | null;
+}
+
+function hashApprovalLinkToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * A one-time deep link (https://t.me/<bot>?start=<token>) that makes the chat
+ * opening it the one approval requests are sent to. Store `config` in the
+ * integration's config; the token itself is only in the URL.
+ */
+export function createTelegramApprovalLink(
+  botUsername: string,
+  now = Date.now()
+): { url: string; expiresAt: string; config: Required<TelegramApprovalLinkConfig> } {
+  const token = randomBytes(24).toString('base64url');
+  const expiresAt = new Date(now + APPROVAL_LINK_TTL_MS).toISOString();
+  return {
+    url: `https://t.me/${botUsername}?start=${token}`,
+    expiresAt,
+    config: { approvalLinkTokenHash: hashApprovalLinkToken(token), approvalLinkExpiresAt: expiresAt },
+  };
+}
+
+/**
+ * Whether `token`, the argument of a /start command, is the integration's
+ * pending approval link token and has not expired. Compared in constant time.
+ */
+export function telegramApprovalLinkMatches(
+  config: TelegramApprovalLinkConfig,
+  token: string,
+  now = Date.now()
+): boolean {
+  if (!token || !config.approvalLinkTokenHash || !config.approvalLinkExpiresAt) return false;
+  if (Date.parse(config.approvalLinkExpiresAt) <= now) return false;
+
+  const expected = Buffer.from(config.approvalLinkTokenHash, 'hex');
+  const received = Buffer.from(hashApprovalLinkToken(token), 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
 /**
  * Extract commands from message
  */
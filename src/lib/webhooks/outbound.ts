@@ -0,0 +1,462 @@
+/**
+ * Outbound Webhooks - signed task and workflow events sent to users' endpoints
+ *
+ * A WebhookSubscription names a URL and the event types it wants: any
+ * AgentEvent type ("task.completed", "approval.required", ...), the workflow
+ * execution events below, a prefix ("task.*") or "*". dispatchWebhookEvent()
+ * records one WebhookDelivery per matching subscription and queues its first
+ * attempt (see queue.ts).
+ *
+ * Each attempt POSTs the JSON envelope { id, type, createdAt, data } with:
+ *
+ *   X-Webhook-Id         the event ID — the same on every retry and
+ *                        redelivery, so receivers dedupe on it, as we dedupe
+ *                        inbound Stripe/RevenueCat events on WebhookEvent.eventId
+ *   X-Webhook-Event      the event type
+ *   X-Webhook-Timestamp  unix seconds at sending
+ *   X-Webhook-Signature  t=<timestamp>,v1=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *
+ * keyed with the subscription's secret (see verifyWebhookSignature). A non-2xx
+ * response, a timeout or a network error is retried with exponential backoff
+ * up to MAX_ATTEMPTS, after which the delivery is dead. Dead and delivered
+ * deliveries can be redelivered by hand. Redirects are not followed.
+ *
+ * Attempts go through safeFetch (lib/egress.ts): a URL that is, or resolves
+ * to, a loopback or private address is refused when connecting, and the
+ * delivery is dead at once rather than retried. Only responses from public
+ * addresses are ever logged, and only their first kilobyte.
+ *
+ * Without Redis a first attempt runs inline and retries wait for
+ * sweepWebhookDeliveries(), run by the daily data-retention cron.
+ */
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { decryptField } from '@/lib/crypto/envelope';
+import { assertPublicHost, checkEgressUrl, EgressError, safeFetch } from '@/lib/egress';
+import { compactEvent } from '@/lib/agent/event-stream';
+import type { AgentEvent } from '@/lib/agent/types';
+import { queueWebhookDelivery } from './queue';
+
+/** Workflow execution lifecycle events (see lib/workflow-engine.ts). */
+export type WorkflowExecutionEvent =
+  | { type: 'workflow.execution.started'; workflowId: string; executionId: string }
+  | { type: 'workflow.execution.completed'; workflowId: string; executionId: string; duration: number }
+  | { type: 'workflow.execution.failed'; workflowId: string; executionId: string; duration: number };
+
+export type OutboundEvent = AgentEvent | WorkflowExecutionEvent;
+
+export const WEBHOOK_EVENT_TYPES: ReadonlyArray<OutboundEvent['type']> = [
+  'task.created',
+  'task.started',
+  'task.step.started',
+  'task.step.completed',
+  'task.step.failed',
+  'task.paused',
+  'task.resumed',
+  'task.replanned',
+  'task.completed',
+  'task.failed',
+  'task.cancelled',
+  'approval.required',
+  'workflow.execution.started',
+  'workflow.execution.completed',
+  'workflow.execution.failed',
+];
+
+export const MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const RESPONSE_BODY_LIMIT = 1024;
+const RESPONSE_MAX_BYTES = 1024 * 1024;
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+const DELIVERY_RETENTION_DAYS = 30;
+
+export type DeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'dead';
+
+export interface DeliveryOutcome {
+  deliveryId: string;
+  status: DeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+}
+
+export type RedeliverFailureReason = 'not_found' | 'in_progress';
+
+export type RedeliverResult =
+  | { ok: true; deliveryId: string }
+  | { ok: false; reason: RedeliverFailureReason; message: string };
+
+/**
+ * What the API returns for a subscription. The secret is never listed: it is
+ * shown once, when created or rotated.
+ */
+export const WEBHOOK_SUBSCRIPTION_FIELDS = {
+  id: true,
+  url: true,
+  description: true,
+  events: true,
+  enabled: true,
+  lastDeliveryAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/** A new signing secret, shown to the user once. */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * The X-Webhook-Signature value for `body` sent at `timestamp` (unix seconds).
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Receiver-side check of a signature header, rejecting stale timestamps so a
+ * captured request cannot be replayed later. Exported for receivers' tests
+ * and our own.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')];
+    })
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(nowSeconds - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split('v1=')[1]);
+  const received = Buffer.from(parts.v1);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/** Whether a subscription's event filter covers `type`. */
+export function eventMatches(patterns: string[], type: string): boolean {
+  return patterns.some(
+    (pattern) => pattern === '*' || pattern === type || (pattern.endsWith('.*') && type.startsWith(pattern.slice(0, -1)))
+  );
+}
+
+/**
+ * How long to wait before the attempt after `attempts` failed ones:
+ * 30s, 1m, 2m, ... capped at an hour. Exported for testing.
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
+
+/**
+ * Problems with a subscription as submitted through the API, one issue each.
+ * The URL's host must be public by name and by what it resolves to now;
+ * deliveries check the address again each time they connect.
+ */
+export async function validateSubscriptionInput(input: { url?: unknown; events?: unknown }): Promise<string[]> {
+  const issues: string[] = [];
+
+  let url: URL | null = null;
+  try {
+    url = typeof input.url === 'string' ? new URL(input.url) : null;
+  } catch {
+    url = null;
+  }
+  if (!url) {
+    issues.push('url must be an absolute URL');
+  } else if (url.protocol !== 'https:' && !(url.protocol === 'http:' && process.env.NODE_ENV !== 'production')) {
+    issues.push('url must use https');
+  } else {
+    try {
+      await assertPublicHost(checkEgressUrl(url).hostname);
+    } catch (error) {
+      issues.push(
+        error instanceof EgressError ? 'url must point at a public host' : `url host ${url.hostname} could not be resolved`
+      );
+    }
+  }
+
+  if (!Array.isArray(input.events) || input.events.length === 0) {
+    issues.push('events must list at least one event type');
+  } else {
+    for (const pattern of input.events) {
+      const known = typeof pattern === 'string' && WEBHOOK_EVENT_TYPES.some((type) => eventMatches([pattern], type));
+      if (!known) {
+        issues.push(`unknown event type "${pattern}"`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * What is kept of an endpoint's response for the delivery log: the start of
+ * it, without control characters. Exported for testing.
+ */
+export function deliveryResponseBody(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.slice(0, RESPONSE_BODY_LIMIT).replace(/[\u0000-\u0008\u000b-\u001f\u007f-\u009f]/g, '');
+}
+
+/**
+ * Queue an attempt. Without a queue a due attempt runs inline, in the
+ * background; a later one is left for sweepWebhookDeliveries().
+ */
+async function scheduleDelivery(deliveryId: string, delayMs: number): Promise<void> {
+  const jobId = await queueWebhookDelivery(deliveryId, delayMs);
+  if (!jobId && delayMs === 0) {
+    void attemptDelivery(deliveryId).catch((error) =>
+      console.error(`[Webhooks] Inline delivery ${deliveryId} failed:`, error)
+    );
+  }
+}
+
+/**
+ * Send `event` to every enabled subscription of `userId` that wants it.
+ * Never throws: a webhook problem must not fail the run that emitted it.
+ */
+export async function dispatchWebhookEvent(userId: string, event: OutboundEvent): Promise<void> {
+  try {
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { userId, enabled: true },
+      select: { id: true, events: true },
+    });
+    const matching = subscriptions.filter((subscription) => eventMatches(subscription.events, event.type));
+    if (!matching.length) return;
+
+    const eventId = `evt_${randomUUID().replace(/-/g, '')}`;
+    const payload = {
+      id: eventId,
+      type: event.type,
+      createdAt: new Date().toISOString(),
+      data: event.type.startsWith('workflow.') ? event : compactEvent(event as AgentEvent),
+    };
+
+    for (const subscription of matching) {
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          subscriptionId: subscription.id,
+          eventId,
+          eventType: event.type,
+          payload: payload as any,
+        },
+      });
+      await scheduleDelivery(delivery.id, 0);
+    }
+  } catch (error) {
+    console.error(`[Webhooks] Failed to dispatch ${event.type} for user ${userId}:`, error);
+  }
+}
+
+/**
+ * Make the next attempt at a delivery and record its outcome. Returns null
+ * when there is nothing to attempt: the delivery is gone, already final, or
+ * another worker claimed this attempt first. A test ping goes out even to a
+ * disabled subscription, so an endpoint can be checked before it is turned
+ * back on, and is not retried.
+ */
+export async function attemptDelivery(
+  deliveryId: string,
+  options: { test?: boolean } = {}
+): Promise<DeliveryOutcome | null> {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { subscription: true },
+  });
+
+  if (!delivery || (delivery.status !== 'pending' && delivery.status !== 'retrying')) {
+    return null;
+  }
+
+  if (!delivery.subscription.enabled && !options.test) {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'dead', error: 'Subscription disabled', nextAttemptAt: null },
+    });
+    return null;
+  }
+
+  // Claim the attempt: only one worker moves attempts from N to N + 1
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: delivery.status, attempts: delivery.attempts },
+    data: { attempts: { increment: 1 }, lastAttemptAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  const attempts = delivery.attempts + 1;
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  let refused = false;
+
+  try {
+    const response = await safeFetch(delivery.subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Xantuus-Webhooks/1.0',
+        'X-Webhook-Id': delivery.eventId,
+        'X-Webhook-Event': delivery.eventType,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhookPayload(decryptField(delivery.subscription.secret), body, timestamp),
+      },
+      body,
+      noRedirects: true,
+      timeoutMs: DELIVERY_TIMEOUT_MS,
+      maxBytes: RESPONSE_MAX_BYTES,
+    });
+
+    responseStatus = response.status;
+    responseBody = deliveryResponseBody(await response.text().catch(() => ''));
+    if (response.status < 200 || response.status >= 300) {
+      error = `Endpoint responded with HTTP ${response.status}`;
+    }
+  } catch (err) {
+    if (err instanceof EgressError && err.reason === 'timeout') {
+      error = `No response within ${DELIVERY_TIMEOUT_MS / 1000}s`;
+    } else {
+      // A URL the egress checks turn away will be turned away again
+      refused = err instanceof EgressError && err.reason !== 'too_large';
+      error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const durationMs = Date.now() - startedAt;
+  let status: DeliveryStatus;
+  let nextAttemptAt: Date | null = null;
+
+  if (!error) {
+    status = 'delivered';
+  } else if (!options.test && !refused && attempts < MAX_ATTEMPTS) {
+    status = 'retrying';
+    nextAttemptAt = new Date(Date.now() + retryDelayMs(attempts));
+  } else {
+    status = 'dead';
+  }
+
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status,
+      nextAttemptAt,
+      deliveredAt: status === 'delivered' ? new Date() : undefined,
+      responseStatus,
+      responseBody,
+      error,
+      durationMs,
+    },
+  });
+
+  if (status === 'delivered') {
+    await prisma.webhookSubscription.update({
+      where: { id: delivery.subscriptionId },
+      data: { lastDeliveryAt: new Date() },
+    });
+  } else if (nextAttemptAt) {
+    await scheduleDelivery(deliveryId, nextAttemptAt.getTime() - Date.now());
+  }
+
+  return { deliveryId, status, attempts, responseStatus, error, durationMs };
+}
+
+/**
+ * Send a delivered or dead delivery again, as the same event with a fresh
+ * retry budget.
+ */
+export async function redeliverWebhook(deliveryId: string, userId: string): Promise<RedeliverResult> {
+  const delivery = await prisma.webhookDelivery.findFirst({
+    where: { id: deliveryId, subscription: { userId } },
+  });
+
+  if (!delivery) {
+    return { ok: false, reason: 'not_found', message: 'Delivery not found' };
+  }
+
+  const reset = await prisma.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: { in: ['delivered', 'dead'] } },
+    data: { status: 'pending', attempts: 0, nextAttemptAt: null },
+  });
+
+  if (reset.count === 0) {
+    return { ok: false, reason: 'in_progress', message: 'This delivery is still being attempted' };
+  }
+
+  await scheduleDelivery(deliveryId, 0);
+  return { ok: true, deliveryId };
+}
+
+/**
+ * Send a webhook.ping to a subscription right away and report how it went.
+ * Returns null if the subscription is not the user's.
+ */
+export async function sendTestPing(subscriptionId: string, userId: string): Promise<DeliveryOutcome | null> {
+  const subscription = await prisma.webhookSubscription.findFirst({
+    where: { id: subscriptionId, userId },
+  });
+
+  if (!subscription) {
+    return null;
+  }
+
+  const eventId = `evt_${randomUUID().replace(/-/g, '')}`;
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      subscriptionId,
+      eventId,
+      eventType: 'webhook.ping',
+      payload: {
+        id: eventId,
+        type: 'webhook.ping',
+        createdAt: new Date().toISOString(),
+        data: { subscriptionId },
+      },
+    },
+  });
+
+  return attemptDelivery(delivery.id, { test: true });
+}
+
+/**
+ * Attempt retries that have come due — the queue normally runs them, so this
+ * only finds work when Redis was unavailable — and prune deliveries older
+ * than the retention window.
+ */
+export async function sweepWebhookDeliveries(now = new Date()): Promise<{ retried: number; pruned: number }> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'retrying', nextAttemptAt: { lte: now } },
+    select: { id: true },
+    take: 500,
+  });
+
+  for (const { id } of due) {
+    await attemptDelivery(id);
+  }
+
+  const { count: pruned } = await prisma.webhookDelivery.deleteMany({
+    where: {
+      createdAt: { lt: new Date(now.getTime() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000) },
+      status: { in: ['delivered', 'dead'] },
+    },
+  });
+
+  return { retried: due.length, pruned };
+}
@@ -0,0 +1,84 @@
+/**
+ * Outbound Webhook Delivery Queue
+ *
+ * BullMQ queue of WebhookDelivery attempts. Mirrors
+ * src/lib/queue/agent-queue.ts's lazy-init/graceful-degradation shape and
+ * shares the same Redis connection config. Retries are scheduled by
+ * lib/webhooks/outbound.ts as delayed jobs, one job per attempt, rather than
+ * through BullMQ's own retry: the delivery row, not the job, is the record of
+ * how many attempts were made, and claiming an attempt on it is what keeps a
+ * duplicate job from delivering twice.
+ */
+
+import { Queue } from 'bullmq';
+import { redisConfig, isRedisAvailable } from '@/lib/queue/redis';
+
+export const WEBHOOK_DELIVERY_QUEUE_NAME = 'webhook-deliveries';
+
+export interface WebhookDeliveryJob {
+  deliveryId: string;
+}
+
+let deliveryQueue: Queue<WebhookDeliveryJob> | null = null;
+let queueInitialized = false;
+
+function initializeQueue(): void {
+  if (queueInitialized) {
+    return;
+  }
+
+  if (process.env.CI || process.env.NEXT_PHASE === 'phase-production-build') {
+    queueInitialized = true;
+    return;
+  }
+
+  try {
+    deliveryQueue = new Queue<WebhookDeliveryJob>(WEBHOOK_DELIVERY_QUEUE_NAME, {
+      connection: redisConfig,
+      defaultJobOptions: {
+        attempts: 1,
+        removeOnComplete: { age: 86400, count: 1000 },
+        removeOnFail: { age: 604800, count: 1000 },
+      },
+    });
+    queueInitialized = true;
+    console.log('✅ Webhook delivery queue initialized');
+  } catch (error: any) {
+    console.warn('⚠️  Failed to initialize webhook delivery queue:', error.message);
+    queueInitialized = true;
+  }
+}
+
+function getQueue(): Queue<WebhookDeliveryJob> | null {
+  if (!queueInitialized) {
+    initializeQueue();
+  }
+  return deliveryQueue;
+}
+
+/**
+ * Schedule an attempt at a delivery after `delayMs`. Returns null when the
+ * queue is unavailable; the caller decides what to do instead.
+ */
+export async function queueWebhookDelivery(deliveryId: string, delayMs = 0): Promise<string | null> {
+  const queue = isRedisAvailable() ? getQueue() : null;
+
+  if (!queue) {
+    return null;
+  }
+
+  try {
+    const job = await queue.add('deliver', { deliveryId }, { delay: delayMs });
+    return job.id!;
+  } catch (error: any) {
+    console.error(`❌ Failed to queue webhook delivery ${deliveryId}:`, error.message);
+    return null;
+  }
+}
+
+export async function closeWebhookDeliveryQueue(): Promise<void> {
+  if (deliveryQueue) {
+    await deliveryQueue.close();
+    deliveryQueue = null;
+  }
+}
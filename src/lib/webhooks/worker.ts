@@ -0,0 +1,41 @@
+/**
+ * Outbound Webhook Delivery Worker
+ *
+ * BullMQ worker that makes one attempt per job (see outbound.ts). Mirrors
+ * src/lib/video-pipeline/worker.ts's shape. A failed attempt is not a failed
+ * job: attemptDelivery() records it and schedules the retry itself.
+ */
+
+import { Worker, Job } from 'bullmq';
+import { redisConfig } from '@/lib/queue/redis';
+import { attemptDelivery } from './outbound';
+import { WEBHOOK_DELIVERY_QUEUE_NAME, type WebhookDeliveryJob } from './queue';
+
+async function processWebhookDeliveryJob(job: Job<WebhookDeliveryJob>) {
+  return attemptDelivery(job.data.deliveryId);
+}
+
+let workerInstance: Worker<WebhookDeliveryJob> | null = null;
+
+export function getWebhookDeliveryWorker(): Worker<WebhookDeliveryJob> {
+  if (!workerInstance) {
+    workerInstance = new Worker<WebhookDeliveryJob>(WEBHOOK_DELIVERY_QUEUE_NAME, processWebhookDeliveryJob, {
+      connection: redisConfig,
+      concurrency: parseInt(process.env.WEBHOOK_WORKER_CONCURRENCY || '10'),
+    });
+
+    workerInstance.on('failed', (job, error) => console.error(`❌ Webhook delivery job ${job?.id} failed:`, error));
+    workerInstance.on('error', (error) => console.error('❌ Webhook delivery worker error:', error));
+
+    console.log('📮 Webhook delivery worker started');
+  }
+  return workerInstance;
+}
+
+export async function closeWebhookDeliveryWorker(): Promise<void> {
+  if (workerInstance) {
+    await workerInstance.close();
+    workerInstance = null;
+    console.log('👋 Webhook delivery worker closed');
+  }
+}
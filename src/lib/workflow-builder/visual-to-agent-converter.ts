@@ -6,7 +6,8 @@
  */
 
 import { CanvasNode } from '@/stores/workflow-builder-store';
-import { ExecutionPlan, ExecutionStep } from '@/lib/agent/types';
+import { ExecutionPlan, ExecutionStep, StepCondition } from '@/lib/agent/types';
+import { CONTROL_TOOL, flattenSteps } from '@/lib/agent/control-flow';
 
 /**
  * Convert visual workflow nodes to agent execution plan
@@ -21,15 +22,13 @@ export function convertVisualWorkflowToAgentPlan(
   const sortedNodes = [...nodes].sort((a, b) => a.position.y - b.position.y);
 
   // Convert each visual node to agent execution step
-  const steps: ExecutionStep[] = sortedNodes.map((node, index) => {
-    return convertNodeToExecutionStep(taskId, node, index);
-  });
+  const steps = convertNodes(taskId, sortedNodes, 0, false);
 
   // Estimate total credits
-  const estimatedCredits = estimateAgentCredits(steps);
+  const estimatedCredits = estimateAgentCredits(flattenSteps(steps));
 
   // Estimate duration (rough estimate: 2-5 seconds per step)
-  const estimatedDuration = steps.length * 3500; // milliseconds
+  const estimatedDuration = sortedNodes.length * 3500; // milliseconds
 
   return {
     taskId,
@@ -46,13 +45,66 @@ export function convertVisualWorkflowToAgentPlan(
   };
 }
 
+/**
+ * Convert nodes from `from` on into execution steps. A conditional node
+ * becomes an `if` step; with skipIfFalse every node after it goes in its
+ * `then` branch, so a false condition skips the rest of the workflow. Step
+ * numbers follow node order either way (node i is step i + 1).
+ */
+function convertNodes(
+  taskId: string,
+  nodes: CanvasNode[],
+  from: number,
+  nested: boolean
+): ExecutionStep[] {
+  const steps: ExecutionStep[] = [];
+
+  for (let index = from; index < nodes.length; index++) {
+    const node = nodes[index];
+    const step = convertNodeToExecutionStep(taskId, node, index, nested);
+
+    if (node.type !== 'conditional') {
+      steps.push(step);
+      continue;
+    }
+
+    const then = node.config.skipIfFalse ? convertNodes(taskId, nodes, index + 1, true) : [];
+    steps.push({
+      ...step,
+      retryable: false,
+      control: { type: 'if', condition: conditionFor(nodes, index), then, else: [] },
+    });
+    if (node.config.skipIfFalse) break;
+  }
+
+  return steps;
+}
+
+/**
+ * The condition of the conditional node at `index`. Its variable is the
+ * outputName of an earlier extract node, read as that step's extracted text.
+ */
+function conditionFor(nodes: CanvasNode[], index: number): StepCondition {
+  const { variable, operator, value } = nodes[index].config.condition || ({} as any);
+
+  for (let source = index - 1; source >= 0; source--) {
+    const node = nodes[source];
+    if (node.type === 'extract' && (node.config.outputName || 'extractedValue') === variable) {
+      return { left: `{{steps.step_${source + 1}.data.text}}`, operator, right: value };
+    }
+  }
+
+  throw new Error(`Conditional step ${index + 1} checks "${variable}", which no earlier extract step saves`);
+}
+
 /**
  * Convert a single visual node to an agent execution step
  */
 function convertNodeToExecutionStep(
   taskId: string,
   node: CanvasNode,
-  index: number
+  index: number,
+  nested: boolean
 ): ExecutionStep {
   const stepId = `${taskId}_step_${index + 1}`;
 
@@ -72,7 +124,8 @@ function convertNodeToExecutionStep(
     description: getStepDescription(node),
     tool,
     params,
-    dependencies: index > 0 ? [`${taskId}_step_${index}`] : [], // Depends on previous step
+    // Depends on previous step; nested steps run in order inside their `if`
+    dependencies: index > 0 && !nested ? [`${taskId}_step_${index}`] : [],
     retryable: node.config.onError === 'retry' || node.config.onError === 'ai_recovery',
     requiresApproval: false, // Could be configurable in advanced mode
     estimatedCredits,
@@ -137,15 +190,11 @@ function mapNodeToToolAction(node: CanvasNode): {
       };
 
     case 'conditional':
+      // The condition itself lives on the step's `control` (see convertNodes)
       return {
-        tool: 'control',
-        action: 'control.conditional',
-        params: {
-          variable: node.config.condition?.variable,
-          operator: node.config.condition?.operator,
-          value: node.config.condition?.value,
-          skipIfFalse: node.config.skipIfFalse,
-        },
+        tool: CONTROL_TOOL,
+        action: 'control.if',
+        params: {},
       };
 
     default:
@@ -13,6 +13,7 @@ import { prisma } from './prisma';
 import { browserControl } from './browser-control';
 import { aiRouter } from './ai-providers/router';
 import { calculateWorkflowCredits } from './credits';
+import { dispatchWebhookEvent } from './webhooks/outbound';
 
 export interface WorkflowStep {
   id: string;
@@ -111,6 +112,12 @@ export async function executeWorkflow(
     },
   });
 
+  await dispatchWebhookEvent(userId, {
+    type: 'workflow.execution.started',
+    workflowId,
+    executionId: dbExecution.id,
+  });
+
   try {
     // Execute each step
     for (let i = 0; i < workflow.steps.length; i++) {
@@ -154,6 +161,7 @@ export async function executeWorkflow(
   );
 
   // Update execution record in database
+  const duration = Date.now() - startTime;
   await prisma.workflowExecution.update({
     where: { id: dbExecution.id },
     data: {
@@ -163,10 +171,17 @@ export async function executeWorkflow(
       executionTrace: execution.executionTrace as any, // Convert to JSON
       aiRecoveryDetail: { count: execution.aiRecoveries },
       totalCredits: credits,
-      duration: Date.now() - startTime,
+      duration,
     },
   });
 
+  await dispatchWebhookEvent(userId, {
+    type: execution.status === 'completed' ? 'workflow.execution.completed' : 'workflow.execution.failed',
+    workflowId,
+    executionId: dbExecution.id,
+    duration,
+  });
+
   // Update workflow stats
   await prisma.workflow.update({
     where: { id: workflowId },
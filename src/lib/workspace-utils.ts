@@ -1,3 +1,4 @@
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 
 /**
@@ -70,6 +71,48 @@ export async function verifyWorkspaceAccess(workspaceId: string, userId: string)
   return workspace !== null;
 }
 
+/**
+ * Which workspace's settings — tool policies, domain lists, sandbox — govern
+ * a user's agent runs and chat turns: `workspaceId` when given and the user
+ * has access to it, otherwise the team's default workspace (the owner's own,
+ * or for a team member, their billing owner's). A workspace the user cannot
+ * access falls back to the team's rules rather than to none.
+ */
+export async function agentWorkspaceWhere(userId: string, workspaceId?: string): Promise<Prisma.WorkspaceWhereInput> {
+  if (workspaceId && (await verifyWorkspaceAccess(workspaceId, userId))) {
+    return { id: workspaceId };
+  }
+
+  return {
+    isDefault: true,
+    user: {
+      OR: [
+        { id: userId, billingOwnerId: null },
+        { teamMembers: { some: { id: userId } } },
+      ],
+    },
+  };
+}
+
+/**
+ * Verify that a user may administer a workspace — its owner, or a
+ * WorkspaceMember with the owner or admin role. Needed for settings that bind the
+ * whole team, such as tool policies.
+ */
+export async function canAdministerWorkspace(workspaceId: string, userId: string) {
+  const workspace = await prisma.workspace.findFirst({
+    where: {
+      id: workspaceId,
+      OR: [
+        { userId },
+        { members: { some: { userId, role: { in: ['owner', 'admin'] } } } },
+      ],
+    },
+  });
+
+  return workspace !== null;
+}
+
 /**
  * Resolve a user's team context for team-management purposes:
  * - Owners (not billed to anyone else) manage their own default workspace.
@@ -0,0 +1,43 @@
+/**
+ * Whether a row of an in-memory Prisma stand-in meets a `where` clause, for
+ * unit tests that mock `@/lib/prisma` with arrays and maps. Covers the
+ * filters the code under test uses — equality (Dates by time), in, not,
+ * gt/gte/lt/lte, OR and AND — not all of Prisma's.
+ *
+ * `relations` looks up the related row a filter on a relation field is
+ * applied to, e.g. `{ task: (trigger) => tasks.get(trigger.taskId) }`.
+ */
+export function matchesWhere(
+  row: any,
+  where: Record<string, any>,
+  relations: Record<string, (row: any) => any> = {}
+): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'OR') return condition.some((branch: any) => matchesWhere(row, branch, relations));
+    if (key === 'AND') return condition.every((branch: any) => matchesWhere(row, branch, relations));
+    if (relations[key]) return matchesWhere(relations[key](row), condition, relations);
+
+    const value = row[key];
+    if (condition instanceof Date) return value instanceof Date && value.getTime() === condition.getTime();
+    if (!condition || typeof condition !== 'object') return value === condition;
+
+    return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+      switch (operator) {
+        case 'in':
+          return operand.includes(value);
+        case 'not':
+          return value !== operand;
+        case 'gt':
+          return value > operand;
+        case 'gte':
+          return value >= operand;
+        case 'lt':
+          return value < operand;
+        case 'lte':
+          return value <= operand;
+        default:
+          throw new Error(`matchesWhere does not support "${operator}"`);
+      }
+    });
+  });
+}
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const approvalFindFirst = vi.fn();
+const approvalCreate = vi.fn();
+const approvalUpdate = vi.fn();
+const approvalUpdateMany = vi.fn();
+const taskFindUnique = vi.fn();
+const taskUpdateMany = vi.fn();
+const queueAgentTask = vi.fn();
+const sendApprovalRequestEmail = vi.fn();
+const postSlackMessage = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    approvalRequest: {
+      findFirst: (...args: unknown[]) => approvalFindFirst(...args),
+      create: (...args: unknown[]) => approvalCreate(...args),
+      update: (...args: unknown[]) => approvalUpdate(...args),
+      updateMany: (...args: unknown[]) => approvalUpdateMany(...args),
+    },
+    task: {
+      findUnique: (...args: unknown[]) => taskFindUnique(...args),
+      updateMany: (...args: unknown[]) => taskUpdateMany(...args),
+    },
+    user: {
+      findUnique: async () => ({ email: 'me@example.com', name: 'Me' }),
+    },
+    integration: {
+      findMany: async () => [
+        { id: 'int_1', provider: 'slack', accessToken: 'xoxb-token', config: { authedUserId: 'U123' } },
+      ],
+    },
+  },
+}));
+
+vi.mock('@/lib/queue/agent-queue', () => ({
+  queueAgentTask: (...args: unknown[]) => queueAgentTask(...args),
+}));
+
+vi.mock('@/lib/email', () => ({
+  sendApprovalRequestEmail: (...args: unknown[]) => sendApprovalRequestEmail(...args),
+}));
+
+vi.mock('@/lib/slack-oauth', () => ({
+  postSlackMessage: (...args: unknown[]) => postSlackMessage(...args),
+}));
+
+vi.mock('@/lib/telegram-bot', () => ({ sendTelegramMessage: vi.fn() }));
+
+import { approvalParamsHash, decideApproval, resolveStepApproval } from '@/lib/agent/approval-inbox';
+import type { AgentTask, ExecutionStep } from '@/lib/agent/types';
+
+const task: AgentTask = { id: 'task_1', userId: 'user_1', type: 'custom', goal: 'Email the report', config: {}, createdAt: new Date() };
+
+const step: ExecutionStep = {
+  id: 'task_1_step_2',
+  stepNumber: 2,
+  action: 'email.send',
+  description: 'Send the report',
+  tool: 'email.send',
+  params: { to: 'boss@example.com', body: '{{steps.step_1.data.text}}' },
+};
+
+const params = { to: 'boss@example.com', body: 'Q3 is up 4%' };
+
+function request(extra: Record<string, unknown> = {}) {
+  return {
+    id: 'apr_1',
+    taskId: 'task_1',
+    userId: 'user_1',
+    stepNumber: 2,
+    tool: 'email.send',
+    action: 'email.send',
+    description: 'Send the report',
+    params,
+    status: 'pending',
+    reason: null,
+    expiresAt: new Date(Date.now() + 60_000),
+    ...extra,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('approvalParamsHash', () => {
+  it('ignores key order but not values', () => {
+    expect(approvalParamsHash({ a: 1, b: { c: [1, 2] } })).toBe(approvalParamsHash({ b: { c: [1, 2] }, a: 1 }));
+    expect(approvalParamsHash({ a: 1 })).not.toBe(approvalParamsHash({ a: 2 }));
+  });
+});
+
+describe('resolveStepApproval', () => {
+  it('creates and delivers a request for the resolved params when there is none', async () => {
+    approvalFindFirst.mockResolvedValue(null);
+    approvalCreate.mockResolvedValue(request());
+    taskFindUnique.mockResolvedValue({ title: 'Weekly report' });
+    sendApprovalRequestEmail.mockResolvedValue({ sent: true });
+    postSlackMessage.mockResolvedValue({ ok: true });
+
+    const approval = await resolveStepApproval(task, step, params);
+
+    expect(approval).toEqual({ status: 'pending', approvalId: 'apr_1' });
+    expect(approvalCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ taskId: 'task_1', stepNumber: 2, params, paramsHash: approvalParamsHash(params) }),
+    });
+    expect(postSlackMessage).toHaveBeenCalledWith('xoxb-token', 'U123', expect.stringContaining('Weekly report'), expect.anything());
+    expect(approvalUpdate).toHaveBeenCalledWith({
+      where: { id: 'apr_1' },
+      data: { deliveries: { email: 'sent', slack: 'sent' } },
+    });
+  });
+
+  it('consumes an approved request so it is acted on once', async () => {
+    approvalFindFirst.mockResolvedValue(request({ status: 'approved' }));
+    approvalUpdateMany.mockResolvedValue({ count: 1 });
+
+    expect(await resolveStepApproval(task, step, params)).toEqual({ status: 'approved', approvalId: 'apr_1' });
+    expect(approvalUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'apr_1', consumedAt: null },
+      data: { consumedAt: expect.any(Date) },
+    });
+    expect(approvalCreate).not.toHaveBeenCalled();
+  });
+
+  it('returns a denial with its reason', async () => {
+    approvalFindFirst.mockResolvedValue(request({ status: 'denied', reason: 'Wrong recipient' }));
+    approvalUpdateMany.mockResolvedValue({ count: 1 });
+
+    expect(await resolveStepApproval(task, step, params)).toEqual({
+      status: 'denied',
+      approvalId: 'apr_1',
+      reason: 'Wrong recipient',
+    });
+  });
+});
+
+describe('decideApproval', () => {
+  it('records the decision and resumes the halted task', async () => {
+    approvalFindFirst.mockResolvedValue(request());
+    approvalUpdateMany.mockResolvedValue({ count: 1 });
+    taskFindUnique.mockResolvedValue({ status: 'awaiting_approval', priority: 'high' });
+    taskUpdateMany.mockResolvedValue({ count: 1 });
+
+    const result = await decideApproval({ requestId: 'apr_1', userId: 'user_1', decision: 'approve', via: 'slack' });
+
+    expect(result).toEqual({ ok: true, status: 'approved', taskId: 'task_1', resumed: true });
+    expect(approvalUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'apr_1', status: 'pending' },
+      data: expect.objectContaining({ status: 'approved', decidedBy: 'user_1', decidedVia: 'slack' }),
+    });
+    expect(taskUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'task_1', status: 'awaiting_approval' },
+      data: expect.objectContaining({ status: 'executing' }),
+    });
+    expect(queueAgentTask).toHaveBeenCalledWith('task_1', 'user_1', { priority: 5 });
+  });
+
+  it('lets only one of two concurrent decisions win', async () => {
+    approvalFindFirst.mockResolvedValue(request());
+    approvalUpdateMany.mockResolvedValue({ count: 0 });
+
+    const result = await decideApproval({ requestId: 'apr_1', userId: 'user_1', decision: 'deny', via: 'web' });
+
+    expect(result).toMatchObject({ ok: false, reason: 'already_decided' });
+    expect(queueAgentTask).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown, decided and expired requests', async () => {
+    approvalFindFirst.mockResolvedValueOnce(null);
+    expect(await decideApproval({ requestId: 'x', userId: 'user_2', decision: 'approve', via: 'web' })).toMatchObject({
+      ok: false,
+      reason: 'not_found',
+    });
+
+    approvalFindFirst.mockResolvedValueOnce(request({ status: 'denied' }));
+    expect(await decideApproval({ requestId: 'apr_1', userId: 'user_1', decision: 'approve', via: 'web' })).toMatchObject({
+      ok: false,
+      reason: 'already_decided',
+    });
+
+    approvalFindFirst.mockResolvedValueOnce(request({ expiresAt: new Date(Date.now() - 1000) }));
+    expect(await decideApproval({ requestId: 'apr_1', userId: 'user_1', decision: 'approve', via: 'web' })).toMatchObject({
+      ok: false,
+      reason: 'expired',
+    });
+    expect(approvalUpdateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const taskFindUnique = vi.fn();
+const taskUpdate = vi.fn();
+const executionCreate = vi.fn();
+const executionFindMany = vi.fn();
+const deductCredits = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    task: {
+      findUnique: (...args: unknown[]) => taskFindUnique(...args),
+      update: (...args: unknown[]) => taskUpdate(...args),
+    },
+    taskExecution: {
+      create: (...args: unknown[]) => executionCreate(...args),
+      findMany: (...args: unknown[]) => executionFindMany(...args),
+    },
+  },
+}));
+
+vi.mock('@/lib/credits', () => ({
+  deductCredits: (...args: unknown[]) => deductCredits(...args),
+}));
+
+import {
+  PLAN_REVISION_ACTION,
+  checkpointStep,
+  completedStepNumbers,
+  contextFromTrace,
+  loadCheckpoint,
+  traceFromExecutions,
+} from '@/lib/agent/checkpoint';
+import type { ExecutionTrace } from '@/lib/agent/types';
+
+const startedAt = new Date('2026-10-01T09:00:00Z');
+
+function row(step: number, status: string, extra: Record<string, unknown> = {}) {
+  return {
+    id: `row_${step}_${status}`,
+    taskId: 'task_1',
+    step,
+    action: 'http.get',
+    tool: 'http.get',
+    input: { url: `https://example.com/${step}` },
+    output: status === 'completed' ? { page: step } : null,
+    reasoning: null,
+    status,
+    error: status === 'failed' ? 'HTTP 500' : null,
+    tokens: 10,
+    credits: 5,
+    duration: 1000,
+    createdAt: new Date(startedAt.getTime() + step * 60_000),
+    completedAt: new Date(startedAt.getTime() + step * 60_000 + 1000),
+    ...extra,
+  };
+}
+
+function entry(stepNumber: number, status: ExecutionTrace['status'], action = 'http.get'): ExecutionTrace {
+  return {
+    stepNumber,
+    timestamp: new Date(),
+    action,
+    tool: 'http.get',
+    input: {},
+    output: { page: stepNumber },
+    status,
+    duration: 0,
+    credits: 0,
+    tokens: 0,
+  };
+}
+
+const plan = {
+  taskId: 'task_1',
+  steps: [1, 2, 3].map((n) => ({ id: `task_1_step_${n}`, stepNumber: n, action: 'http.get', description: '', tool: 'http.get', params: {} })),
+  totalSteps: 3,
+  estimatedCredits: 0,
+  estimatedDuration: 0,
+  createdAt: startedAt,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('completedStepNumbers / contextFromTrace', () => {
+  it('counts completed steps and ignores failures and plan revisions', () => {
+    const trace = [entry(1, 'completed'), entry(2, 'failed'), entry(2, 'completed', PLAN_REVISION_ACTION), entry(3, 'completed')];
+
+    expect([...completedStepNumbers(trace)]).toEqual([1, 3]);
+    expect(contextFromTrace(trace)).toEqual({ step1: { page: 1 }, step3: { page: 3 } });
+  });
+});
+
+describe('traceFromExecutions', () => {
+  it('maps rows back to trace entries', () => {
+    const [trace] = traceFromExecutions([row(2, 'failed')] as any);
+
+    expect(trace).toMatchObject({
+      stepNumber: 2,
+      status: 'failed',
+      error: 'HTTP 500',
+      output: undefined,
+      duration: 1000,
+    });
+    expect(trace.timestamp.getTime() - trace.startedAt!.getTime()).toBe(1000);
+  });
+});
+
+describe('loadCheckpoint', () => {
+  it('rebuilds the current run from rows created since it started', async () => {
+    taskFindUnique.mockResolvedValue({ id: 'task_1', plan, startedAt, lastRunAt: null, executionTime: 4000 });
+    executionFindMany.mockResolvedValue([row(1, 'completed'), row(2, 'failed'), row(3, 'completed')]);
+
+    const state = await loadCheckpoint('task_1');
+
+    expect(executionFindMany).toHaveBeenCalledWith({
+      where: { taskId: 'task_1', createdAt: { gte: startedAt } },
+      orderBy: { createdAt: 'asc' },
+    });
+    expect(state).toMatchObject({
+      status: 'paused',
+      currentStep: 2,
+      totalSteps: 3,
+      progress: 67,
+      creditsUsed: 15,
+      tokensUsed: 30,
+      context: { step1: { page: 1 }, step3: { page: 3 } },
+    });
+    expect(state!.trace).toHaveLength(3);
+  });
+
+  it('returns null for a task without a plan', async () => {
+    taskFindUnique.mockResolvedValue({ id: 'task_1', plan: null });
+
+    expect(await loadCheckpoint('task_1')).toBeNull();
+    expect(executionFindMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('checkpointStep', () => {
+  it('writes the row and progress, then deducts the step credits', async () => {
+    await checkpointStep('task_1', 'user_1', { ...entry(2, 'completed'), credits: 7, tokens: 40 }, 2);
+
+    expect(executionCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ taskId: 'task_1', step: 2, status: 'completed', output: { page: 2 }, credits: 7 }),
+    });
+    expect(taskUpdate).toHaveBeenCalledWith({
+      where: { id: 'task_1' },
+      data: expect.objectContaining({
+        currentStep: 2,
+        totalCredits: { increment: 7 },
+        totalTokens: { increment: 40 },
+      }),
+    });
+    expect(deductCredits).toHaveBeenCalledWith('user_1', 7, expect.objectContaining({ type: 'agent-step' }));
+  });
+
+  it('does not touch credits for a free step', async () => {
+    await checkpointStep('task_1', 'user_1', entry(1, 'failed'), 0);
+
+    expect(deductCredits).not.toHaveBeenCalled();
+  });
+});
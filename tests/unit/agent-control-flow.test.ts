@@ -0,0 +1,228 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: { toolPolicy: { findMany: async () => [] } } }));
+
+import { AgentExecutor } from '@/lib/agent/executor';
+import { ToolRegistry } from '@/lib/agent/tools/registry';
+import { evaluateCondition, flattenSteps, validateControlSteps } from '@/lib/agent/control-flow';
+import { parsePlanSteps } from '@/lib/agent/planner';
+import { validateStepReferences } from '@/lib/agent/step-references';
+import { convertVisualWorkflowToAgentPlan } from '@/lib/workflow-builder/visual-to-agent-converter';
+import type { AgentTool, AgentTask, ControlFlow, ExecutionPlan, ExecutionStep } from '@/lib/agent/types';
+import type { CanvasNode } from '@/stores/workflow-builder-store';
+
+function step(n: number, tool: string, params: Record<string, any> = {}): ExecutionStep {
+  return { id: `t1_step_${n}`, stepNumber: n, action: tool, description: `step ${n}`, tool, params, retryable: false };
+}
+
+function control(n: number, flow: ControlFlow): ExecutionStep {
+  return { ...step(n, 'control'), action: `control.${flow.type}`, control: flow };
+}
+
+function plan(steps: ExecutionStep[]): ExecutionPlan {
+  return { taskId: 't1', steps, totalSteps: steps.length, estimatedCredits: 0, estimatedDuration: 0, createdAt: new Date() };
+}
+
+const task: AgentTask = { id: 't1', userId: 'u1', type: 'custom', goal: 'Check links', config: {}, createdAt: new Date() };
+
+function echoTool(name: string, respond: (params: any) => any = (params) => params): AgentTool {
+  return {
+    name,
+    description: name,
+    category: 'utility',
+    inputSchema: { type: 'object', properties: {} },
+    validate: () => ({ valid: true }),
+    execute: vi.fn(async (params) => ({ success: true, data: respond(params) })),
+    estimateCost: () => 1,
+  };
+}
+
+describe('evaluateCondition', () => {
+  const outputs = new Map<number, unknown>([[1, { price: '$1,299.00', tags: ['sale'], status: 'done ' }]]);
+
+  it('compares numbers numerically and strings trimmed', () => {
+    expect(evaluateCondition({ left: '{{steps.step_1.data.price}}', operator: 'greaterThan', right: 1000 }, outputs)).toBe(true);
+    expect(evaluateCondition({ left: '{{steps.step_1.data.price}}', operator: 'equals', right: '1299' }, outputs)).toBe(false);
+    expect(evaluateCondition({ left: '{{steps.step_1.data.price}}', operator: 'equals', right: 1299 }, outputs)).toBe(true);
+    expect(evaluateCondition({ left: '{{steps.step_1.data.status}}', operator: 'equals', right: 'done' }, outputs)).toBe(true);
+    expect(evaluateCondition({ left: '{{steps.step_1.data.tags}}', operator: 'contains', right: 'sale' }, outputs)).toBe(true);
+  });
+
+  it('treats a missing value as not existing but fails other operators on it', () => {
+    expect(evaluateCondition({ left: '{{steps.step_1.data.discount}}', operator: 'exists' }, outputs)).toBe(false);
+    expect(() =>
+      evaluateCondition({ left: '{{steps.step_1.data.discount}}', operator: 'equals', right: 1 }, outputs)
+    ).toThrow(/has no "discount"/);
+  });
+});
+
+describe('parsePlanSteps with control steps', () => {
+  it('numbers nested steps depth-first and drops their dependencies', () => {
+    const steps = parsePlanSteps(
+      JSON.stringify([
+        { action: 'http.get', tool: 'http.get', params: { url: 'https://example.com' } },
+        {
+          action: 'control.forEach',
+          description: 'Check each link',
+          items: '{{steps.step_1.data.links}}',
+          body: [
+            { action: 'http.get', tool: 'http.get', params: { url: '{{steps.step_2.data.item}}' }, dependencies: [1] },
+            { action: 'ai.summarize', tool: 'ai.summarize', params: { text: '{{steps.step_3.data.body}}' } },
+          ],
+          dependencies: [1],
+        },
+        { action: 'email.send', tool: 'email.send', params: { body: '{{steps.step_2.data.results}}' }, dependencies: [2] },
+      ]),
+      't1'
+    );
+
+    expect(steps.map((s) => s.stepNumber)).toEqual([1, 2, 5]);
+    expect(steps[1]).toMatchObject({ tool: 'control', action: 'control.forEach', dependencies: ['t1_step_1'] });
+    expect(flattenSteps(steps).map((s) => [s.stepNumber, s.dependencies])).toEqual([
+      [1, []],
+      [2, ['t1_step_1']],
+      [3, []],
+      [4, []],
+      [5, ['t1_step_2']],
+    ]);
+    expect(validateControlSteps(steps)).toEqual([]);
+    expect(validateStepReferences({ steps })).toEqual([]);
+  });
+
+  it('reports references that reach into a scope they cannot see', () => {
+    const steps = [
+      step(1, 'http.get'),
+      control(2, {
+        type: 'if',
+        condition: { left: '{{steps.step_3.data.ok}}', operator: 'exists' },
+        then: [step(3, 'http.get', { url: '{{steps.step_4.data.url}}' })],
+        else: [step(4, 'http.get')],
+      }),
+      control(5, { type: 'while', condition: { left: 1, operator: 'lessThan', right: 2 }, body: [] }),
+    ];
+
+    expect(validateStepReferences({ steps })).toEqual([
+      'step 2 references step 3 without depending on it ({{steps.step_3.data.ok}})',
+      'step 3 references step 4 without depending on it ({{steps.step_4.data.url}})',
+    ]);
+    expect(validateControlSteps(steps)).toEqual(['step 5 (while) has an empty body']);
+  });
+});
+
+describe('AgentExecutor control flow', () => {
+  it('runs a forEach body per item and traces each iteration', async () => {
+    const registry = new ToolRegistry();
+    const fetch = echoTool('http.get', (params) => ({ status: params.url.endsWith('/b') ? 404 : 200 }));
+    registry.register(echoTool('links.list', () => ({ links: ['https://x.test/a', 'https://x.test/b'] })));
+    registry.register(fetch);
+    const executor = new AgentExecutor('custom', {}, registry);
+
+    const result = await executor.dryRun(
+      task,
+      plan([
+        step(1, 'links.list'),
+        control(2, {
+          type: 'forEach',
+          items: '{{steps.step_1.data.links}}',
+          body: [step(3, 'http.get', { url: '{{steps.step_2.data.item}}', n: '{{steps.step_2.data.index}}' })],
+        }),
+      ]),
+      { fixtures: { step_1: { links: ['https://x.test/a', 'https://x.test/b'] }, step_3: { status: 200 } } }
+    );
+
+    expect(result.status).toBe('completed');
+    expect(result.trace.map((e) => [e.stepNumber, e.parentStep, e.iteration, e.input])).toEqual([
+      [1, undefined, undefined, {}],
+      [2, undefined, undefined, { items: '{{steps.step_1.data.links}}' }],
+      [3, 2, [0], { url: 'https://x.test/a', n: 0 }],
+      [3, 2, [1], { url: 'https://x.test/b', n: 1 }],
+    ]);
+    expect(result.trace[1].output).toEqual({ iterations: 2, results: [{ status: 200 }, { status: 200 }] });
+    expect(fetch.execute).not.toHaveBeenCalled();
+  });
+
+  it('takes one branch of an if and traces the other as skipped', async () => {
+    const registry = new ToolRegistry();
+    ['price.get', 'email.alert', 'log.write'].forEach((name) => registry.register(echoTool(name)));
+    const executor = new AgentExecutor('custom', {}, registry);
+
+    const result = await executor.dryRun(
+      task,
+      plan([
+        step(1, 'price.get'),
+        control(2, {
+          type: 'if',
+          condition: { left: '{{steps.step_1.data.price}}', operator: 'lessThan', right: 100 },
+          then: [step(3, 'email.alert', { price: '{{steps.step_1.data.price}}' })],
+          else: [step(4, 'log.write')],
+        }),
+      ]),
+      { fixtures: { step_1: { price: '$89.50' }, step_3: { sent: true } } }
+    );
+
+    expect(result.trace.map((e) => [e.stepNumber, e.status])).toEqual([
+      [1, 'completed'],
+      [2, 'completed'],
+      [3, 'completed'],
+      [4, 'skipped'],
+    ]);
+    expect(result.trace[1].output).toEqual({ condition: true, branch: 'then', result: { sent: true } });
+  });
+
+  it('fails a forEach with more items than maxIterations', async () => {
+    const registry = new ToolRegistry();
+    registry.register(echoTool('http.get'));
+    const executor = new AgentExecutor('custom', {}, registry);
+
+    const result = await executor.dryRun(
+      task,
+      plan([
+        step(1, 'http.get'),
+        control(2, { type: 'forEach', items: '{{steps.step_1.data}}', maxIterations: 2, body: [step(3, 'http.get')] }),
+      ]),
+      { fixtures: { step_1: [1, 2, 3] } }
+    );
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe('forEach has 3 items, more than maxIterations (2)');
+  });
+});
+
+describe('convertVisualWorkflowToAgentPlan', () => {
+  function node(id: string, y: number, type: CanvasNode['type'], config: Partial<CanvasNode['config']>): CanvasNode {
+    return {
+      id,
+      type,
+      position: { x: 0, y },
+      config: { action: {}, onError: 'stop', maxRetries: 0, retryDelay: 0, skipIfFalse: false, saveOutput: false, ...config },
+    } as CanvasNode;
+  }
+
+  it('nests the nodes after a skip-if-false conditional in its then branch', () => {
+    const result = convertVisualWorkflowToAgentPlan('t1', [
+      node('a', 0, 'navigate', { action: { url: 'https://x.test' } }),
+      node('b', 1, 'extract', { action: { selector: '.price' }, saveOutput: true, outputName: 'price' }),
+      node('c', 2, 'conditional', { condition: { variable: 'price', operator: 'lessThan', value: '100' }, skipIfFalse: true }),
+      node('d', 3, 'click', { action: { selector: '#buy' } }),
+    ], 'Buy', '');
+
+    expect(result.steps.map((s) => s.stepNumber)).toEqual([1, 2, 3]);
+    expect(result.steps[2]).toMatchObject({
+      tool: 'control',
+      action: 'control.if',
+      control: {
+        type: 'if',
+        condition: { left: '{{steps.step_2.data.text}}', operator: 'lessThan', right: '100' },
+        then: [{ stepNumber: 4, action: 'browser.click', dependencies: [] }],
+      },
+    });
+  });
+
+  it('rejects a condition on a variable no extract step saves', () => {
+    expect(() =>
+      convertVisualWorkflowToAgentPlan('t1', [
+        node('c', 0, 'conditional', { condition: { variable: 'total', operator: 'exists', value: '' } }),
+      ], 'Bad', '')
+    ).toThrow('Conditional step 1 checks "total", which no earlier extract step saves');
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Tasks live in an in-memory stand-in for prisma, handed to the tool through
+// its context; AgentExecutor is replaced so each child "runs" by returning a
+// scripted outcome, or by waiting to be cancelled.
+
+const tasks = new Map<string, any>();
+const children: { goal: string; config: any; tools: string[] }[] = [];
+let outcome: { status: string; result?: unknown; error?: string; creditsUsed?: number } | 'wait';
+
+const prisma = {
+  task: {
+    findUnique: async ({ where }: any) => tasks.get(where.id) || null,
+    create: async ({ data }: any) => {
+      const task = { id: `task_${tasks.size + 1}`, createdAt: new Date(), totalCredits: 0, ...data };
+      tasks.set(task.id, task);
+      return task;
+    },
+    update: async ({ where, data }: any) => Object.assign(tasks.get(where.id), data),
+    updateMany: async ({ where, data }: any) => {
+      const task = tasks.get(where.id);
+      if (task && (where.status.in ?? [where.status]).includes(task.status)) Object.assign(task, data);
+      return { count: task ? 1 : 0 };
+    },
+  },
+};
+
+const withdrawn: string[] = [];
+
+vi.mock('@/lib/agent/approval-inbox', () => ({
+  withdrawTaskApprovals: async (taskId: string) => withdrawn.push(taskId),
+}));
+
+vi.mock('@/lib/agent/executor', () => ({
+  AgentExecutor: class {
+    private stop?: () => void;
+    constructor(_type: string, private config: any, private registry: any) {}
+    async plan(task: any) {
+      children.push({ goal: task.goal, config: this.config, tools: this.registry.getToolNames() });
+      return { taskId: task.id, steps: [], totalSteps: 2, estimatedCredits: 50, estimatedDuration: 0, createdAt: new Date() };
+    }
+    async execute(task: any) {
+      const base = { taskId: task.id, steps: 2, duration: 1, creditsUsed: 40, tokensUsed: 0, trace: [], completedAt: new Date() };
+      if (outcome === 'wait') {
+        await new Promise<void>((resolve) => (this.stop = resolve));
+        return { ...base, status: 'cancelled', error: 'Cancelled' };
+      }
+      // As the executor saves it
+      tasks.get(task.id).status = outcome.status;
+      return { ...base, ...outcome };
+    }
+    async cancel() {
+      this.stop?.();
+    }
+  },
+}));
+
+const { toolRegistry } = await import('@/lib/agent/tools/registry');
+const { AgentDelegateTool } = await import('@/lib/agent/tools/delegate');
+const { MAX_DELEGATION_DEPTH, cancelChildRuns, childBudget, childToolNames } = await import('@/lib/agent/delegation');
+
+for (const name of ['web.search', 'ai.chat', 'email.send', 'agent.delegate']) {
+  if (!toolRegistry.hasTool(name)) {
+    toolRegistry.register({
+      name,
+      description: name,
+      category: 'utility',
+      inputSchema: { type: 'object', properties: {} },
+      validate: () => ({ valid: true }),
+      execute: async () => ({ success: true }),
+      estimateCost: () => 0,
+    });
+  }
+}
+
+const aiRouter = {
+  chat: vi.fn(async () => ({ content: 'short summary', usage: { totalTokens: 500 } })),
+  estimateCredits: () => 2,
+};
+
+function context(overrides: Record<string, unknown> = {}) {
+  return {
+    userId: 'user_1',
+    taskId: 'parent',
+    stepNumber: 1,
+    state: { creditsUsed: 9700 } as any,
+    prisma,
+    aiRouter,
+    memory: {},
+    creditLimit: 10000,
+    delegationDepth: 0,
+    toolNames: ['web.search', 'ai.chat', 'agent.delegate'],
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  tasks.clear();
+  children.length = 0;
+  withdrawn.length = 0;
+  aiRouter.chat.mockClear();
+  tasks.set('parent', { id: 'parent', projectId: 'project_1', priority: 'high', status: 'executing' });
+  outcome = { status: 'completed', result: 'Found 3 suppliers' };
+});
+
+describe('delegation helpers', () => {
+  it("keeps a child to its parent's tools and stops nesting at the maximum depth", () => {
+    const available = ['web.search', 'agent.delegate'];
+
+    expect(childToolNames(['web.search', 'email.send'], available, 1)).toEqual({
+      ok: false,
+      message: 'Tools not available to this agent: email.send',
+    });
+    expect(childToolNames(undefined, available, 1)).toEqual({ ok: true, tools: available });
+    expect(childToolNames(undefined, available, MAX_DELEGATION_DEPTH)).toEqual({ ok: true, tools: ['web.search'] });
+  });
+
+  it("never budgets a child more than its parent has left", () => {
+    expect(childBudget(undefined, 10000)).toBe(500);
+    expect(childBudget(2000, 300)).toBe(300);
+    expect(childBudget(100, -20)).toBe(0);
+  });
+});
+
+describe('agent.delegate', () => {
+  it('runs a linked child task within its budget and hands back its result', async () => {
+    const result = await new AgentDelegateTool().execute(
+      { goal: 'Find suppliers', tools: ['web.search'], maxCredits: 1000 },
+      context() as any
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      data: { childTaskId: 'task_2', status: 'completed', summary: 'Found 3 suppliers', budget: 300 },
+      metadata: { credits: 0, delegatedCredits: 40 },
+    });
+    const config = { maxCredits: 300, delegationDepth: 1, retryCount: 1, toolNames: ['web.search'] };
+    expect(tasks.get('task_2')).toMatchObject({ parentTaskId: 'parent', projectId: 'project_1', priority: 'high', agentConfig: config });
+    expect(children).toEqual([{ goal: 'Find suppliers', config, tools: ['web.search'] }]);
+  });
+
+  it('summarises a long result and reports a failed child as a failure', async () => {
+    outcome = { status: 'failed', result: 'x'.repeat(5000), error: 'boom', creditsUsed: 25 };
+
+    const result = await new AgentDelegateTool().execute({ goal: 'Dig deep' }, context() as any);
+
+    expect(aiRouter.chat).toHaveBeenCalledOnce();
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Sub-task task_2 ended failed: boom',
+      data: { summary: 'short summary' },
+      metadata: { credits: 2, delegatedCredits: 25 },
+    });
+  });
+
+  it('fails a child that halts for approval and withdraws its request', async () => {
+    outcome = {
+      status: 'awaiting_approval',
+      error: 'Step 2 uses "email.send", which requires human approval before it can run.',
+      creditsUsed: 10,
+    };
+
+    const result = await new AgentDelegateTool().execute({ goal: 'Email suppliers' }, context() as any);
+
+    expect(result).toMatchObject({ success: false, metadata: { delegatedCredits: 10 } });
+    expect(result.error).toContain('A sub-agent cannot wait for approval');
+    expect(withdrawn).toEqual(['task_2']);
+    expect(tasks.get('task_2').status).toBe('failed');
+  });
+
+  it('refuses to nest deeper than the maximum', async () => {
+    const result = await new AgentDelegateTool().execute(
+      { goal: 'Go deeper' },
+      context({ delegationDepth: MAX_DELEGATION_DEPTH }) as any
+    );
+
+    expect(result.success).toBe(false);
+    expect(children).toEqual([]);
+  });
+
+  it('is cancelled along with its parent', async () => {
+    outcome = 'wait';
+
+    const running = new AgentDelegateTool().execute({ goal: 'Wait around' }, context() as any);
+    await vi.waitFor(() => expect(tasks.get('task_2')?.status).toBe('executing'));
+    await cancelChildRuns('parent');
+
+    expect(await running).toMatchObject({ success: false, data: { status: 'cancelled' } });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: { toolPolicy: { findMany: async () => [] } } }));
+
+import { AgentExecutor } from '@/lib/agent/executor';
+import { ToolRegistry } from '@/lib/agent/tools/registry';
+import { CustomHttpTool } from '@/lib/agent/tools/custom';
+import type { AgentTool, AgentTask, ExecutionPlan, ExecutionStep } from '@/lib/agent/types';
+
+function fakeTool(name: string, cost: number, simulate?: AgentTool['simulate']): AgentTool & { execute: ReturnType<typeof vi.fn> } {
+  return {
+    name,
+    description: name,
+    category: 'utility',
+    inputSchema: { type: 'object', properties: {} },
+    validate: () => ({ valid: true }),
+    execute: vi.fn(async () => ({ success: true, data: { real: true } })),
+    estimateCost: () => cost,
+    ...(simulate ? { simulate } : {}),
+  };
+}
+
+function step(n: number, tool: string, params: Record<string, any>, extra: Partial<ExecutionStep> = {}): ExecutionStep {
+  return {
+    id: `t1_step_${n}`,
+    stepNumber: n,
+    action: tool,
+    description: `step ${n}`,
+    tool,
+    params,
+    retryable: true,
+    ...extra,
+  };
+}
+
+const task: AgentTask = {
+  id: 't1',
+  userId: 'u1',
+  type: 'custom',
+  goal: 'Email me the price',
+  config: {},
+  createdAt: new Date(),
+};
+
+function setup() {
+  const registry = new ToolRegistry();
+  const extract = fakeTool('browser.extract', 10);
+  const summarize = fakeTool('ai.summarize', 30);
+  const send = fakeTool('email.send', 10, async (params) => ({
+    success: true,
+    data: { messageId: 'dry-run', to: params.to },
+  }));
+  [extract, summarize, send].forEach((tool) => registry.register(tool));
+
+  const plan: ExecutionPlan = {
+    taskId: 't1',
+    steps: [
+      step(1, 'browser.extract', { selector: '.price' }),
+      step(2, 'ai.summarize', { text: '{{steps.step_1.data.text}}' }),
+      step(3, 'email.send', { to: 'me@example.com', body: 'Price {{steps.step_1.data.text}}: {{steps.step_2.data.summary}}' }),
+    ],
+    totalSteps: 3,
+    estimatedCredits: 0,
+    estimatedDuration: 0,
+    createdAt: new Date(),
+  };
+
+  return { registry, plan, tools: [extract, summarize, send] };
+}
+
+describe('AgentExecutor.dryRun', () => {
+  it('never executes a tool and reports trace, projected credits and side effects', async () => {
+    const { registry, plan, tools } = setup();
+    const executor = new AgentExecutor('custom', {}, registry);
+
+    const report = await executor.dryRun(task, plan, { fixtures: { step_1: { text: '$12.99' } } });
+
+    for (const tool of tools) {
+      expect(tool.execute).not.toHaveBeenCalled();
+    }
+    expect(report.status).toBe('completed');
+    expect(report.creditsUsed).toBe(0);
+    expect(report.projectedCredits).toBe(50);
+    expect(report.trace.map((entry) => entry.status)).toEqual(['completed', 'completed', 'completed']);
+    expect(report.trace[1].input).toEqual({ text: '$12.99' });
+
+    expect(report.sideEffects).toEqual([
+      {
+        stepNumber: 3,
+        tool: 'email.send',
+        description: 'step 3',
+        params: { to: 'me@example.com', body: 'Price {{steps.step_1.data.text}}: {{steps.step_2.data.summary}}' },
+        requiresApproval: true,
+      },
+    ]);
+    // step 2 had no simulation, so its placeholder has no "summary" for step 3
+    expect(report.warnings).toEqual([
+      'Step 2: ai.summarize has no simulation; later steps see a placeholder result',
+      expect.stringContaining('Step 3: Cannot resolve {{steps.step_2.data.summary}}'),
+    ]);
+  });
+
+  it('reports a pre-approved sensitive tool as not needing approval', async () => {
+    const { registry, plan } = setup();
+    const executor = new AgentExecutor('custom', {}, registry);
+
+    const report = await executor.dryRun(
+      { ...task, config: { autoApprovedTools: ['email.send'] } },
+      plan,
+      { fixtures: { 'browser.extract': { text: '$1' }, 'ai.summarize': { summary: 'cheap' } } }
+    );
+
+    expect(report.warnings).toEqual([]);
+    expect(report.sideEffects[0]).toMatchObject({
+      requiresApproval: false,
+      params: { body: 'Price $1: cheap' },
+    });
+  });
+
+  it('reports MCP tools, custom tools that write and code.run as side effects', async () => {
+    const definition = {
+      id: 'ct_1',
+      integrationId: 'int_1',
+      name: 'Create issue',
+      endpoint: 'https://tracker.example.com/issues',
+      method: 'post',
+      parameters: {},
+    };
+    const registry = new ToolRegistry();
+    [
+      new CustomHttpTool(definition as any),
+      new CustomHttpTool({ ...definition, name: 'List issues', method: 'get' } as any),
+      fakeTool('mcp.github.create_issue', 0),
+      fakeTool('code.run', 5),
+    ].forEach((tool) => registry.register(tool));
+    const tools = ['custom.create_issue', 'custom.list_issues', 'mcp.github.create_issue', 'code.run'];
+    const plan: ExecutionPlan = {
+      taskId: 't1',
+      steps: tools.map((tool, i) => step(i + 1, tool, {})),
+      totalSteps: tools.length,
+      estimatedCredits: 0,
+      estimatedDuration: 0,
+      createdAt: new Date(),
+    };
+
+    const report = await new AgentExecutor('custom', {}, registry).dryRun(task, plan);
+
+    expect(report.sideEffects.map((effect) => [effect.tool, effect.requiresApproval])).toEqual([
+      ['custom.create_issue', true],
+      ['mcp.github.create_issue', true],
+      ['code.run', true],
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// lib/queue/redis is mocked so the branch under test is chosen
+// deterministically: most tests go down the in-memory fallback, one checks
+// the Redis stream commands against a minimal stand-in.
+
+const mockExecuteWithRedis = vi.fn();
+
+vi.mock('@/lib/queue/redis', () => ({
+  executeWithRedis: (...args: unknown[]) => mockExecuteWithRedis(...args),
+}));
+
+const { compactEvent, compareEventIds, publishAgentEvent, readAgentEvents, toSseMessage } = await import(
+  '@/lib/agent/event-stream'
+);
+
+function useFallback() {
+  mockExecuteWithRedis.mockImplementation(async (_op: unknown, fallback: () => unknown) => fallback());
+}
+
+beforeEach(() => {
+  mockExecuteWithRedis.mockReset();
+  useFallback();
+});
+
+describe('publishAgentEvent / readAgentEvents (in-memory fallback)', () => {
+  it('replays only the events after the last ID a viewer saw', async () => {
+    const first = await publishAgentEvent({ type: 'task.step.started', taskId: 'task_a', stepNumber: 1 });
+    const second = await publishAgentEvent({ type: 'task.step.failed', taskId: 'task_a', stepNumber: 1, error: 'boom' });
+    await publishAgentEvent({ type: 'task.step.started', taskId: 'task_b', stepNumber: 1 });
+
+    expect(compareEventIds(second, first)).toBeGreaterThan(0);
+    expect((await readAgentEvents('task_a')).map((e) => e.id)).toEqual([first, second]);
+    expect(await readAgentEvents('task_a', first)).toEqual([
+      { id: second, event: { type: 'task.step.failed', taskId: 'task_a', stepNumber: 1, error: 'boom' } },
+    ]);
+    expect(await readAgentEvents('task_a', second)).toEqual([]);
+  });
+
+  it('starts the stream over when a fresh run starts', async () => {
+    await publishAgentEvent({ type: 'task.failed', taskId: 'task_c', error: 'old run' });
+    const started = await publishAgentEvent({
+      type: 'task.started',
+      taskId: 'task_c',
+      plan: { taskId: 'task_c', steps: [], totalSteps: 0, estimatedCredits: 0, estimatedDuration: 0, createdAt: new Date() },
+    });
+
+    expect((await readAgentEvents('task_c')).map((e) => e.id)).toEqual([started]);
+  });
+});
+
+describe('publishAgentEvent (Redis)', () => {
+  it('appends to a capped, expiring stream and parses entries back', async () => {
+    const calls: unknown[][] = [];
+    const chain = {
+      del: (...args: unknown[]) => (calls.push(['del', ...args]), chain),
+      xadd: (...args: unknown[]) => (calls.push(['xadd', ...args]), chain),
+      expire: (...args: unknown[]) => (calls.push(['expire', ...args]), chain),
+      exec: async () => [[null, '1700000000000-0'], [null, 1]],
+    };
+    const redis = {
+      multi: () => chain,
+      xread: async () => [
+        ['agent:events:task_r', [['1700000000000-0', ['event', JSON.stringify({ type: 'task.cancelled', taskId: 'task_r' })]]]],
+      ],
+    };
+    mockExecuteWithRedis.mockImplementation(async (op: (r: unknown) => unknown) => op(redis));
+
+    expect(await publishAgentEvent({ type: 'task.cancelled', taskId: 'task_r' })).toBe('1700000000000-0');
+    expect(calls).toEqual([
+      ['xadd', 'agent:events:task_r', 'MAXLEN', '~', 1000, '*', 'event', JSON.stringify({ type: 'task.cancelled', taskId: 'task_r' })],
+      ['expire', 'agent:events:task_r', 86400],
+    ]);
+    expect(await readAgentEvents('task_r', '0')).toEqual([
+      { id: '1700000000000-0', event: { type: 'task.cancelled', taskId: 'task_r' } },
+    ]);
+  });
+});
+
+describe('compactEvent', () => {
+  it('cuts an oversized step output to a preview', () => {
+    const event = compactEvent({
+      type: 'task.step.completed',
+      taskId: 't',
+      stepNumber: 2,
+      result: { success: true, data: { html: 'x'.repeat(20_000) } },
+    });
+
+    expect(event.type === 'task.step.completed' && event.result.data).toMatchObject({ truncated: true });
+    expect(JSON.stringify(event).length).toBeLessThan(17_000);
+  });
+});
+
+describe('toSseMessage', () => {
+  it('frames the event with its ID and type', () => {
+    expect(toSseMessage({ id: '5-1', event: { type: 'task.resumed', taskId: 't' } })).toBe(
+      'id: 5-1\nevent: task.resumed\ndata: {"type":"task.resumed","taskId":"t"}\n\n'
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// A sensitive step inside a forEach, approved one iteration at a time. The
+// approval inbox is an in-memory map of decisions consumed on use, the way
+// approval-inbox.ts consumes them; each resume starts from the trace the
+// halted run left behind, as loadCheckpoint() would rebuild it.
+
+const decisions = new Map<string, 'pending' | 'approved'>();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    toolPolicy: { findMany: async () => [] },
+    user: { findUnique: async () => ({ monthlyCredits: 100000, creditsUsed: 0 }) },
+    task: {
+      findUnique: async () => ({ id: 't1', userId: 'u1', agentType: 'custom', title: 'Mail', plan: loopPlan, agentConfig: {} }),
+      update: async () => undefined,
+    },
+  },
+}));
+
+vi.mock('@/lib/agent/checkpoint', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/agent/checkpoint')>()),
+  startRun: async () => undefined,
+  checkpointStep: async () => undefined,
+}));
+
+vi.mock('@/lib/agent/approval-inbox', () => ({
+  resolveStepApproval: async (_task: unknown, step: { stepNumber: number }, params: { to: string }) => {
+    const key = `${step.stepNumber}:${params.to}`;
+    if (decisions.get(key) === 'approved') {
+      decisions.delete(key);
+      return { status: 'approved', approvalId: key };
+    }
+    decisions.set(key, 'pending');
+    return { status: 'pending', approvalId: key };
+  },
+}));
+
+vi.mock('@/lib/webhooks/outbound', () => ({ dispatchWebhookEvent: async () => undefined }));
+
+vi.mock('@/lib/queue/redis', () => ({
+  executeWithRedis: async (_operation: unknown, fallback: () => unknown) => fallback(),
+  isRedisAvailable: () => false,
+  redisConfig: {},
+}));
+
+const { AgentExecutor } = await import('@/lib/agent/executor');
+const { ToolRegistry } = await import('@/lib/agent/tools/registry');
+import type { AgentResult, AgentTool, ExecutionPlan, ExecutionStep } from '@/lib/agent/types';
+
+function step(n: number, tool: string, params: Record<string, any>): ExecutionStep {
+  return { id: `t1_step_${n}`, stepNumber: n, action: tool, description: `step ${n}`, tool, params, retryable: false };
+}
+
+const loopPlan: ExecutionPlan = {
+  taskId: 't1',
+  steps: [
+    {
+      ...step(1, 'control', {}),
+      action: 'control.forEach',
+      control: {
+        type: 'forEach',
+        items: ['a@example.com', 'b@example.com', 'c@example.com'],
+        body: [
+          step(2, 'text.write', { about: '{{steps.step_1.data.item}}' }),
+          step(3, 'email.send', { to: '{{steps.step_1.data.item}}', body: '{{steps.step_2.data.text}}' }),
+        ],
+      },
+    },
+  ],
+  totalSteps: 1,
+  estimatedCredits: 0,
+  estimatedDuration: 0,
+  createdAt: new Date(),
+};
+
+function tool(name: string, respond: (params: any) => any): AgentTool {
+  return {
+    name,
+    description: name,
+    category: 'utility',
+    inputSchema: { type: 'object', properties: {} },
+    validate: () => ({ valid: true }),
+    execute: vi.fn(async (params) => ({ success: true, data: respond(params) })),
+    estimateCost: () => 0,
+  };
+}
+
+describe('AgentExecutor resume inside a loop', () => {
+  it('carries on from the iteration that halted for approval', async () => {
+    const write = tool('text.write', (params) => ({ text: `Hello ${params.about}` }));
+    const send = tool('email.send', (params) => ({ sent: params.to }));
+    const registry = new ToolRegistry();
+    registry.register(write);
+    registry.register(send);
+
+    const resume = (halted: AgentResult) =>
+      new AgentExecutor('custom', {}, registry).resume({
+        taskId: 't1',
+        status: 'awaiting_approval',
+        currentStep: 0,
+        totalSteps: 1,
+        progress: 0,
+        creditsUsed: 0,
+        tokensUsed: 0,
+        executionTime: 0,
+        context: {},
+        trace: halted.trace,
+      });
+
+    let result = await new AgentExecutor('custom', {}, registry).execute(
+      { id: 't1', userId: 'u1', type: 'custom', goal: 'Mail', config: {}, createdAt: new Date() },
+      loopPlan
+    );
+    for (const to of ['a@example.com', 'b@example.com', 'c@example.com']) {
+      expect(result.status).toBe('awaiting_approval');
+      expect(decisions.get(`3:${to}`)).toBe('pending');
+      decisions.set(`3:${to}`, 'approved');
+      result = await resume(result);
+    }
+
+    expect(result.status).toBe('completed');
+    expect(write.execute).toHaveBeenCalledTimes(3);
+    expect(vi.mocked(send.execute).mock.calls.map(([params]) => params)).toEqual([
+      { to: 'a@example.com', body: 'Hello a@example.com' },
+      { to: 'b@example.com', body: 'Hello b@example.com' },
+      { to: 'c@example.com', body: 'Hello c@example.com' },
+    ]);
+    expect(result.result).toEqual({
+      iterations: 3,
+      results: [{ sent: 'a@example.com' }, { sent: 'b@example.com' }, { sent: 'c@example.com' }],
+    });
+    expect(decisions.size).toBe(0);
+  });
+});
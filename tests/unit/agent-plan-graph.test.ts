@@ -0,0 +1,258 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MAX_CONCURRENT_STEPS,
+  MAX_CONCURRENT_STEPS_LIMIT,
+  PlanValidationError,
+  effectiveDependencies,
+  normalizeDependencyRef,
+  resolveConcurrency,
+  runPlanGraph,
+  validatePlanGraph,
+} from '@/lib/agent/plan-graph';
+import { createPriceMonitorPlan } from '@/lib/agent/workflows/competitor-price-monitor';
+import type { ExecutionStep } from '@/lib/agent/types';
+
+function step(n: number, dependencies?: number[]): ExecutionStep {
+  return {
+    id: `t1_step_${n}`,
+    stepNumber: n,
+    action: 'http.get',
+    description: `step ${n}`,
+    tool: 'http.get',
+    params: {},
+    dependencies: dependencies?.map((d) => `t1_step_${d}`),
+  };
+}
+
+function deferred() {
+  let resolve!: () => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+/** Let queued promise callbacks run. */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('normalizeDependencyRef', () => {
+  it('maps the step-number forms a planner writes onto generated step IDs', () => {
+    expect(normalizeDependencyRef('t1', 2)).toBe('t1_step_2');
+    expect(normalizeDependencyRef('t1', '2')).toBe('t1_step_2');
+    expect(normalizeDependencyRef('t1', 'step_2')).toBe('t1_step_2');
+    expect(normalizeDependencyRef('t1', 'Step 2')).toBe('t1_step_2');
+  });
+
+  it('keeps anything else verbatim so validation can report it', () => {
+    expect(normalizeDependencyRef('t1', 't1_step_4')).toBe('t1_step_4');
+    expect(normalizeDependencyRef('t1', 'fetch-prices')).toBe('fetch-prices');
+  });
+});
+
+describe('resolveConcurrency', () => {
+  it('defaults missing or nonsensical values', () => {
+    expect(resolveConcurrency(undefined)).toBe(DEFAULT_MAX_CONCURRENT_STEPS);
+    expect(resolveConcurrency(0)).toBe(DEFAULT_MAX_CONCURRENT_STEPS);
+    expect(resolveConcurrency(NaN)).toBe(DEFAULT_MAX_CONCURRENT_STEPS);
+  });
+
+  it('caps at the hard limit', () => {
+    expect(resolveConcurrency(500)).toBe(MAX_CONCURRENT_STEPS_LIMIT);
+    expect(resolveConcurrency(2.7)).toBe(2);
+  });
+});
+
+describe('effectiveDependencies', () => {
+  it('treats a plan with no declared dependencies as a strict sequence', () => {
+    // Every plan written before dependencies were honoured looks like this.
+    const deps = effectiveDependencies({ steps: [step(1, []), step(2, []), step(3)] });
+    expect(deps.get('t1_step_1')).toEqual([]);
+    expect(deps.get('t1_step_2')).toEqual(['t1_step_1']);
+    expect(deps.get('t1_step_3')).toEqual(['t1_step_2']);
+  });
+
+  it('uses declared dependencies once any step declares one', () => {
+    const deps = effectiveDependencies({ steps: [step(1), step(2), step(3, [1, 2])] });
+    expect(deps.get('t1_step_2')).toEqual([]);
+    expect(deps.get('t1_step_3')).toEqual(['t1_step_1', 't1_step_2']);
+  });
+});
+
+describe('validatePlanGraph', () => {
+  it('returns a topological order that keeps plan order where it can', () => {
+    const order = validatePlanGraph({ steps: [step(1, [3]), step(2), step(3)] });
+    expect(order).toEqual(['t1_step_2', 't1_step_3', 't1_step_1']);
+  });
+
+  it('reports missing dependency IDs', () => {
+    expect(() => validatePlanGraph({ steps: [step(1), step(2, [9])] })).toThrow(/unknown step "t1_step_9"/);
+  });
+
+  it('reports cycles with the steps involved', () => {
+    try {
+      validatePlanGraph({ steps: [step(1), step(2, [3]), step(3, [2])] });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(PlanValidationError);
+      expect((error as PlanValidationError).issues).toEqual(['dependency cycle among steps 2, 3']);
+    }
+  });
+
+  it('reports self-dependencies and duplicate IDs together', () => {
+    try {
+      validatePlanGraph({ steps: [step(1, [1]), step(2), { ...step(3), id: 't1_step_2' }] });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as PlanValidationError).issues).toHaveLength(2);
+    }
+  });
+
+  it('accepts the built-in price monitor plan', () => {
+    expect(() => validatePlanGraph(createPriceMonitorPlan('t1', {
+      competitorUrl: 'https://example.com',
+      priceSelector: '.price',
+      thresholdPrice: 10,
+      alertEmail: 'a@example.com',
+    }))).not.toThrow();
+  });
+});
+
+describe('runPlanGraph', () => {
+  it('runs independent steps concurrently and waits for dependencies', async () => {
+    const gates = new Map([1, 2, 3, 4].map((n) => [`t1_step_${n}`, deferred()]));
+    const started: number[] = [];
+
+    const run = runPlanGraph(
+      { steps: [step(1), step(2), step(3), step(4, [1, 2, 3])] },
+      {
+        concurrency: 5,
+        shouldStop: () => false,
+        runStep: (s) => {
+          started.push(s.stepNumber);
+          return gates.get(s.id)!.promise;
+        },
+      }
+    );
+
+    await flush();
+    expect(started).toEqual([1, 2, 3]);
+
+    gates.get('t1_step_2')!.resolve();
+    gates.get('t1_step_1')!.resolve();
+    await flush();
+    expect(started).toEqual([1, 2, 3]);
+
+    gates.get('t1_step_3')!.resolve();
+    await flush();
+    expect(started).toEqual([1, 2, 3, 4]);
+
+    gates.get('t1_step_4')!.resolve();
+    await run;
+  });
+
+  it('never exceeds the concurrency limit', async () => {
+    let running = 0;
+    let peak = 0;
+
+    await runPlanGraph(
+      { steps: [step(1), step(2), step(3), step(4), step(5), step(6, [1])] },
+      {
+        concurrency: 2,
+        shouldStop: () => false,
+        runStep: async () => {
+          running++;
+          peak = Math.max(peak, running);
+          await flush();
+          running--;
+        },
+      }
+    );
+
+    expect(peak).toBe(2);
+  });
+
+  it('skips completed steps but lets them satisfy dependents', async () => {
+    const ran: number[] = [];
+
+    await runPlanGraph(
+      { steps: [step(1), step(2), step(3)] },
+      {
+        concurrency: 3,
+        completed: ['t1_step_1', 't1_step_2'],
+        shouldStop: () => false,
+        runStep: async (s) => {
+          ran.push(s.stepNumber);
+        },
+      }
+    );
+
+    expect(ran).toEqual([3]);
+  });
+
+  it('stops launching after a failure, lets in-flight steps settle, and rethrows the first error', async () => {
+    const slow = deferred();
+    const ran: number[] = [];
+    const boom = new Error('boom');
+
+    const run = runPlanGraph(
+      { steps: [step(1), step(2), step(3, [1, 2])] },
+      {
+        concurrency: 2,
+        shouldStop: () => false,
+        runStep: (s) => {
+          ran.push(s.stepNumber);
+          if (s.stepNumber === 1) return Promise.reject(boom);
+          return slow.promise;
+        },
+      }
+    );
+
+    let settled = false;
+    run.catch(() => undefined).finally(() => {
+      settled = true;
+    });
+    await flush();
+    expect(settled).toBe(false);
+
+    slow.resolve();
+    await expect(run).rejects.toBe(boom);
+    expect(ran).toEqual([1, 2]);
+  });
+
+  it('rejects with a cancellation once asked to stop', async () => {
+    let stop = false;
+
+    await expect(
+      runPlanGraph(
+        { steps: [step(1), step(2)] },
+        {
+          concurrency: 1,
+          shouldStop: () => stop,
+          runStep: async () => {
+            stop = true;
+          },
+        }
+      )
+    ).rejects.toThrow('Execution cancelled');
+  });
+
+  it('refuses an invalid graph before running anything', async () => {
+    let ran = false;
+
+    await expect(
+      runPlanGraph(
+        { steps: [step(1, [2]), step(2, [1])] },
+        {
+          concurrency: 1,
+          shouldStop: () => false,
+          runStep: async () => {
+            ran = true;
+          },
+        }
+      )
+    ).rejects.toBeInstanceOf(PlanValidationError);
+    expect(ran).toBe(false);
+  });
+});
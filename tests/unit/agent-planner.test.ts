@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isEmptyResult,
+  mergeRevisedTail,
+  parsePlanSteps,
+  resolveStepTools,
+} from '@/lib/agent/planner';
+import type { ExecutionPlan, ExecutionStep } from '@/lib/agent/types';
+
+function step(n: number, tool = 'http.get'): ExecutionStep {
+  return {
+    id: `t1_step_${n}`,
+    stepNumber: n,
+    action: tool,
+    description: `step ${n}`,
+    tool,
+    params: {},
+  };
+}
+
+function plan(steps: ExecutionStep[]): ExecutionPlan {
+  return {
+    taskId: 't1',
+    steps,
+    totalSteps: steps.length,
+    estimatedCredits: 0,
+    estimatedDuration: 0,
+    createdAt: new Date('2026-09-01T00:00:00Z'),
+  };
+}
+
+describe('parsePlanSteps', () => {
+  it('reads a fenced JSON block and normalizes step-number dependencies', () => {
+    const steps = parsePlanSteps(
+      'Here you go:\n```json\n[{"action":"web.search","tool":"web.search","params":{"q":"a"}},{"action":"ai.summarize","tool":"ai.summarize","dependencies":[1]}]\n```',
+      't1'
+    );
+
+    expect(steps.map((s) => s.id)).toEqual(['t1_step_1', 't1_step_2']);
+    expect(steps[1].dependencies).toEqual(['t1_step_1']);
+    expect(steps[1].params).toEqual({});
+  });
+
+  it('survives nested arrays in an unfenced response', () => {
+    // A lazy /\[(.*?)\]/ would stop at the first "]" inside dependencies.
+    const steps = parsePlanSteps(
+      '[{"action":"a","tool":"a","dependencies":[]},{"action":"b","tool":"b","dependencies":[1]}]',
+      't1'
+    );
+
+    expect(steps).toHaveLength(2);
+  });
+
+  it('numbers a revised tail from the given step number', () => {
+    const steps = parsePlanSteps('[{"action":"a","tool":"a","dependencies":[2]},{"action":"b","tool":"b","dependencies":[5]}]', 't1', 5);
+
+    expect(steps.map((s) => s.stepNumber)).toEqual([5, 6]);
+    expect(steps[0].dependencies).toEqual(['t1_step_2']);
+    expect(steps[1].dependencies).toEqual(['t1_step_5']);
+  });
+
+  it('throws on a response with no plan in it', () => {
+    expect(() => parsePlanSteps('I cannot help with that.', 't1')).toThrow(/Failed to parse plan/);
+  });
+});
+
+describe('resolveStepTools', () => {
+  it('accepts registered tools and corrects a category-only tool from the action', () => {
+    const steps = [step(1), { ...step(2, 'browser.navigate'), tool: 'browser' }];
+
+    expect(resolveStepTools(steps, new Set(['http.get', 'browser.navigate']))).toEqual([]);
+    expect(steps[1].tool).toBe('browser.navigate');
+  });
+
+  it('reports tools the registry does not have', () => {
+    expect(resolveStepTools([step(1, 'teleport.now')], new Set(['http.get']))).toEqual([
+      'step 1 uses unknown tool "teleport.now"',
+    ]);
+  });
+});
+
+describe('mergeRevisedTail', () => {
+  it('keeps completed steps verbatim, replaces the rest, and records the revision', () => {
+    const original = plan([step(1), step(2), step(3)]);
+    const tail = [step(4), step(5)];
+
+    const revised = mergeRevisedTail(original, ['t1_step_1'], tail, {
+      createdAt: new Date('2026-09-01T00:01:00Z'),
+      reason: 'HTTP 404',
+      stepNumber: 2,
+    });
+
+    expect(revised.steps.map((s) => s.id)).toEqual(['t1_step_1', 't1_step_4', 't1_step_5']);
+    expect(revised.totalSteps).toBe(3);
+    expect(revised.revisions).toEqual([
+      {
+        revision: 1,
+        createdAt: new Date('2026-09-01T00:01:00Z'),
+        reason: 'HTTP 404',
+        stepNumber: 2,
+        replacedStepIds: ['t1_step_2', 't1_step_3'],
+        addedStepIds: ['t1_step_4', 't1_step_5'],
+      },
+    ]);
+    // The original plan is untouched.
+    expect(original.steps).toHaveLength(3);
+  });
+
+  it('numbers successive revisions', () => {
+    const once = mergeRevisedTail(plan([step(1)]), [], [step(2)], { createdAt: new Date(), reason: 'a', stepNumber: 1 });
+    const twice = mergeRevisedTail(once, [], [step(3)], { createdAt: new Date(), reason: 'b', stepNumber: 2 });
+
+    expect(twice.revisions?.map((r) => r.revision)).toEqual([1, 2]);
+  });
+});
+
+describe('isEmptyResult', () => {
+  it('treats missing, blank and empty collections as empty', () => {
+    for (const value of [null, undefined, '', '   ', [], {}]) {
+      expect(isEmptyResult(value)).toBe(true);
+    }
+  });
+
+  it('treats real values as non-empty, including falsy scalars', () => {
+    for (const value of [0, false, 'x', [1], { price: 10 }]) {
+      expect(isEmptyResult(value)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  StepReferenceError,
+  coerceReferenceValue,
+  parseReferences,
+  resolveStepReferences,
+  validateStepReferences,
+} from '@/lib/agent/step-references';
+import { createPriceMonitorPlan } from '@/lib/agent/workflows/competitor-price-monitor';
+import type { ExecutionStep } from '@/lib/agent/types';
+
+const outputs = new Map<number, unknown>([
+  [1, { url: 'https://example.com', status: 200 }],
+  [3, { price: '$1,299.50', currency: 'USD', tags: ['sale', 'new'], items: [{ sku: 'a' }, { sku: 'b' }], 'list price': 1500 }],
+  [4, { price: 'N/A', inStock: 'true', missing: null }],
+]);
+
+function step(n: number, params: Record<string, any>, dependencies?: number[]): ExecutionStep {
+  return {
+    id: `t1_step_${n}`,
+    stepNumber: n,
+    action: 'http.get',
+    description: `step ${n}`,
+    tool: 'http.get',
+    params,
+    dependencies: dependencies?.map((d) => `t1_step_${d}`),
+  };
+}
+
+describe('parseReferences', () => {
+  it('parses dotted, bracketed, negative-index and wildcard paths with a type', () => {
+    const [ref] = parseReferences("{{ steps.step_3.data['list price'].items[-1][*].sku | string }}");
+
+    expect(ref.stepNumber).toBe(3);
+    expect(ref.type).toBe('string');
+    expect(ref.path).toEqual([
+      { kind: 'key', key: 'data' },
+      { kind: 'key', key: 'list price' },
+      { kind: 'key', key: 'items' },
+      { kind: 'index', index: -1 },
+      { kind: 'wildcard' },
+      { kind: 'key', key: 'sku' },
+    ]);
+  });
+
+  it('ignores templates that are not step references', () => {
+    expect(parseReferences('Checked at {{timestamp}}')).toEqual([]);
+  });
+
+  it('rejects malformed references and unknown types', () => {
+    expect(() => parseReferences('{{steps.three.data}}')).toThrow(StepReferenceError);
+    expect(() => parseReferences('{{steps.step_3.data..price}}')).toThrow(/unexpected/);
+    expect(() => parseReferences('{{steps.step_3.data | money}}')).toThrow(/unknown type "money"/);
+  });
+});
+
+describe('resolveStepReferences', () => {
+  it('keeps the type of a whole-value reference and stringifies embedded ones', () => {
+    const params = resolveStepReferences(
+      {
+        tags: '{{steps.step_3.data.tags}}',
+        body: 'Price {{steps.step_3.data.price}} ({{steps.step_3.data.currency}}), tags {{steps.step_3.data.tags}}',
+      },
+      outputs
+    );
+
+    expect(params.tags).toEqual(['sale', 'new']);
+    expect(params.body).toBe('Price $1,299.50 (USD), tags ["sale","new"]');
+  });
+
+  it('resolves nested params, wildcards and negative indexes without touching the original', () => {
+    const original = { filter: { skus: '{{steps.step_3.data.items[*].sku}}', last: '{{steps.step_3.data.items[-1].sku}}' } };
+    const params = resolveStepReferences(original, outputs);
+
+    expect(params.filter).toEqual({ skus: ['a', 'b'], last: 'b' });
+    expect(original.filter.skus).toBe('{{steps.step_3.data.items[*].sku}}');
+  });
+
+  it('coerces to an explicit type, or to the type the tool schema declares', () => {
+    const params = resolveStepReferences(
+      {
+        amount: '{{steps.step_3.data.price | number}}',
+        status: '{{steps.step_1.data.status}}',
+        inStock: '{{steps.step_4.data.inStock}}',
+      },
+      outputs,
+      {
+        type: 'object',
+        properties: { status: { type: 'string' }, inStock: { type: 'boolean' } },
+      }
+    );
+
+    expect(params).toEqual({ amount: 1299.5, status: '200', inStock: true });
+  });
+
+  it('fails on coercions that do not fit', () => {
+    expect(() => resolveStepReferences({ amount: '{{steps.step_4.data.price | number}}' }, outputs)).toThrow(
+      'Cannot resolve {{steps.step_4.data.price | number}}: expected number, got "N/A"'
+    );
+  });
+
+  it('fails on missing data with the path that broke', () => {
+    expect(() => resolveStepReferences({ x: '{{steps.step_3.data.discount}}' }, outputs)).toThrow(
+      'steps.step_3.data has no "discount"'
+    );
+    expect(() => resolveStepReferences({ x: '{{steps.step_3.data.tags[5]}}' }, outputs)).toThrow(/no element 5/);
+    expect(() => resolveStepReferences({ x: 'Note: {{steps.step_4.data.missing}}' }, outputs)).toThrow(/resolved to null/);
+    expect(() => resolveStepReferences({ x: '{{steps.step_2.data}}' }, outputs)).toThrow(/step 2 has not completed/);
+  });
+});
+
+describe('coerceReferenceValue', () => {
+  it('accepts integers only for integer', () => {
+    expect(coerceReferenceValue('42', 'integer', 'r')).toBe(42);
+    expect(() => coerceReferenceValue('4.2', 'integer', 'r')).toThrow(/expected integer/);
+  });
+
+  it('passes through schema types it does not know', () => {
+    expect(coerceReferenceValue({ a: 1 }, 'any', 'r')).toEqual({ a: 1 });
+  });
+});
+
+describe('validateStepReferences', () => {
+  it('accepts references to steps reached through dependencies', () => {
+    const plan = {
+      steps: [step(1, {}), step(2, {}, [1]), step(3, { body: '{{steps.step_1.data.url}}' }, [2])],
+    };
+    expect(validateStepReferences(plan)).toEqual([]);
+  });
+
+  it('treats earlier steps of a sequential plan as dependencies', () => {
+    expect(validateStepReferences({ steps: [step(1, {}), step(2, { url: '{{steps.step_1.data.url}}' })] })).toEqual([]);
+  });
+
+  it('reports references that could run before their source', () => {
+    const issues = validateStepReferences({
+      steps: [
+        step(1, {}),
+        step(2, { q: '{{steps.step_1.data.url}}' }, []),
+        step(3, { q: '{{steps.step_9.data}}', bad: '{{steps.nope}}' }, [1]),
+      ],
+    });
+
+    expect(issues).toEqual([
+      'step 2 references step 1 without depending on it ({{steps.step_1.data.url}})',
+      'step 3 references unknown step 9 in {{steps.step_9.data}}',
+      'step 3: Cannot resolve {{steps.nope}}: expected steps.step_<number>',
+    ]);
+  });
+
+  it('accepts the built-in price monitor plan', () => {
+    expect(validateStepReferences(createPriceMonitorPlan('t1', {
+      competitorUrl: 'https://example.com',
+      priceSelector: '.price',
+      thresholdPrice: 10,
+      alertEmail: 'a@example.com',
+    }))).toEqual([]);
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Prisma is an in-memory stand-in holding the run task, the team and its
+// collaboration log; AgentExecutor is replaced so each member "runs" by
+// looking up a scripted outcome.
+
+const tasks = new Map<string, any>();
+const collaborations: any[] = [];
+let team: any;
+let outcomes: Record<string, { status: string; result?: unknown; error?: string }>;
+const executedGoals: string[] = [];
+const handoffs: unknown[] = [];
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    toolPolicy: { findMany: async () => [] },
+    task: {
+      findUnique: async ({ where }: any) => tasks.get(where.id) || null,
+      findFirst: async ({ where }: any) => tasks.get(where.id) || null,
+      create: async ({ data }: any) => {
+        const task = { id: `task_${tasks.size + 1}`, createdAt: new Date(), ...data };
+        tasks.set(task.id, task);
+        return task;
+      },
+      update: async ({ where, data }: any) => {
+        const task = tasks.get(where.id);
+        for (const [key, value] of Object.entries(data)) {
+          if (value && typeof value === 'object' && 'increment' in (value as any)) {
+            task[key] = (task[key] || 0) + (value as any).increment;
+          } else if (value !== undefined) {
+            task[key] = value;
+          }
+        }
+        return task;
+      },
+      updateMany: async () => ({ count: 1 }),
+    },
+    agentTeam: {
+      findFirst: async () => team,
+      update: async () => team,
+      updateMany: async () => ({ count: 1 }),
+    },
+    agentCollaboration: {
+      create: async ({ data }: any) => {
+        const row = { id: `collab_${collaborations.length + 1}`, sentAt: new Date(), ...data };
+        collaborations.push(row);
+        return row;
+      },
+      update: async ({ where, data }: any) => Object.assign(collaborations.find((c) => c.id === where.id), data),
+      updateMany: async ({ where, data }: any) => {
+        const rows = collaborations.filter((c) => c.type === where.type && c.status === where.status);
+        rows.forEach((row) => Object.assign(row, data));
+        return { count: rows.length };
+      },
+      findMany: async () => [...collaborations],
+    },
+  },
+}));
+
+vi.mock('@/lib/queue/agent-queue', () => ({
+  isQueueAvailable: () => false,
+  queueAgentTask: vi.fn(),
+}));
+
+const withdrawn: string[] = [];
+
+vi.mock('@/lib/agent/approval-inbox', () => ({
+  withdrawTaskApprovals: async (taskId: string) => withdrawn.push(taskId),
+}));
+
+vi.mock('@/lib/agent/executor', () => ({
+  AgentExecutor: class {
+    async plan(task: any) {
+      return { taskId: task.id, steps: [], totalSteps: 1, estimatedCredits: 10, estimatedDuration: 0, createdAt: new Date() };
+    }
+    async execute(task: any) {
+      executedGoals.push(task.goal);
+      handoffs.push(task.context.handoff);
+      const outcome = outcomes[task.goal];
+      return { taskId: task.id, steps: 1, duration: 1, creditsUsed: 5, tokensUsed: 0, trace: [], completedAt: new Date(), ...outcome };
+    }
+    async cancel() {}
+  },
+}));
+
+const {
+  checkAgentLimits,
+  handoffFor,
+  parseLeaderAssignments,
+  resolveTeamRun,
+  runTeamTask,
+  validateTeamAgentInput,
+  workingAgents,
+} = await import('@/lib/agent/team');
+
+function agent(id: string, order: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    teamId: 'team_1',
+    name: id,
+    role: 'researcher',
+    description: null,
+    agentType: 'research',
+    systemPrompt: `You are ${id}.`,
+    model: 'claude-sonnet-4-5-20250929',
+    tools: [],
+    isLeader: false,
+    order,
+    canDelegate: false,
+    canRequestHelp: true,
+    maxCreditsPerTask: 1000,
+    maxStepsPerTask: 20,
+    timeoutSeconds: 300,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  } as any;
+}
+
+function makeTeam(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'team_1',
+    userId: 'user_1',
+    name: 'Research crew',
+    teamType: 'sequential',
+    coordinationStrategy: 'democratic',
+    errorHandling: 'rollback',
+    sharedMemory: true,
+    agents: [agent('alice', 0), agent('bob', 1), agent('carol', 2)],
+    ...overrides,
+  } as any;
+}
+
+function startRun(goal: string) {
+  tasks.set('run_1', {
+    id: 'run_1',
+    userId: 'user_1',
+    title: goal,
+    description: goal,
+    agentType: 'agent_team',
+    agentConfig: {
+      teamId: 'team_1',
+      assignments: team.agents.map((a: any) => ({ agentId: a.id, instructions: `${a.id}: ${goal}` })),
+    },
+    status: 'pending',
+    priority: 'medium',
+  });
+  return runTeamTask('run_1', 'user_1');
+}
+
+beforeEach(() => {
+  tasks.clear();
+  collaborations.length = 0;
+  executedGoals.length = 0;
+  handoffs.length = 0;
+  withdrawn.length = 0;
+  team = makeTeam();
+  outcomes = {};
+});
+
+describe('planning helpers', () => {
+  it('keeps a coordinating leader out of the assignments', () => {
+    const leaderTeam = makeTeam({
+      coordinationStrategy: 'leader',
+      agents: [agent('alice', 0), agent('bob', 1, { isLeader: true })],
+    });
+
+    expect(workingAgents(leaderTeam).map((a) => a.id)).toEqual(['alice']);
+    expect(workingAgents(makeTeam()).map((a) => a.id)).toEqual(['alice', 'bob', 'carol']);
+  });
+
+  it('reads assignments naming members by name, dropping strangers', () => {
+    const response = 'Here you go:\n```json\n[{"agent":"Bob","instructions":"find sources"},{"agent":"zed","instructions":"x"}]\n```';
+
+    expect(parseLeaderAssignments(response, [agent('alice', 0), agent('bob', 1, { name: 'bob' })])).toEqual([
+      { agentId: 'bob', instructions: 'find sources' },
+    ]);
+    expect(() => parseLeaderAssignments('no idea', [agent('alice', 0)])).toThrow();
+  });
+
+  it('hands over every earlier report only with shared memory', () => {
+    const reports = [0, 1, 2].map((i) => ({ assignment: i, agentId: `a${i}`, agent: `a${i}`, role: 'r', taskId: '', result: i }));
+
+    expect(handoffFor(reports, 2, true).map((r) => r.assignment)).toEqual([0, 1]);
+    expect(handoffFor(reports, 2, false).map((r) => r.assignment)).toEqual([1]);
+  });
+
+  it("rejects a plan over the member's step or credit limits", () => {
+    const plan = { taskId: 't', steps: [], totalSteps: 5, estimatedCredits: 300, estimatedDuration: 0, createdAt: new Date() };
+
+    expect(checkAgentLimits(plan, agent('a', 0))).toBeNull();
+    expect(checkAgentLimits(plan, agent('a', 0, { maxStepsPerTask: 4 }))).toMatch(/5 steps/);
+    expect(checkAgentLimits(plan, agent('a', 0, { maxCreditsPerTask: 200 }))).toMatch(/300 credits/);
+  });
+
+  it('rejects tools that are not registered', () => {
+    expect(validateTeamAgentInput({ tools: ['web.search', 'made.up'] }, { partial: true })).toEqual([
+      'unknown tool "made.up"',
+    ]);
+  });
+});
+
+describe('runTeamTask', () => {
+  it('runs members in order, records each handoff and hands results on', async () => {
+    outcomes = {
+      'alice: g': { status: 'completed', result: 'A' },
+      'bob: g': { status: 'completed', result: 'B' },
+      'carol: g': { status: 'completed', result: 'C' },
+    };
+
+    await startRun('g');
+
+    expect(executedGoals).toEqual(['alice: g', 'bob: g', 'carol: g']);
+    expect(collaborations.map((c) => [c.fromAgentId, c.toAgentId, c.status])).toEqual([
+      ['user', 'alice', 'completed'],
+      ['alice', 'bob', 'completed'],
+      ['bob', 'carol', 'completed'],
+    ]);
+    expect((handoffs[2] as any[]).map((h) => h.result)).toEqual(['A', 'B']);
+    expect(tasks.get('run_1')).toMatchObject({ status: 'completed', totalCredits: 15 });
+  });
+
+  it('rolls back on the first failure', async () => {
+    outcomes = { 'alice: g': { status: 'completed', result: 'A' }, 'bob: g': { status: 'failed', error: 'boom' } };
+
+    await startRun('g');
+
+    expect(executedGoals).toEqual(['alice: g', 'bob: g']);
+    expect(tasks.get('run_1')).toMatchObject({ status: 'failed', error: 'Rolled back after bob: boom' });
+  });
+
+  it('fails a member that halts for approval, withdrawing the request, and keeps its tools on its task', async () => {
+    team = makeTeam({ agents: [agent('alice', 0, { tools: ['web.search'] })] });
+    outcomes = { 'alice: g': { status: 'awaiting_approval', error: 'Step 1 uses "email.send", which requires human approval before it can run.' } };
+
+    await startRun('g');
+
+    const member = [...tasks.values()].find((task) => task.description === 'alice: g');
+    expect(member.agentConfig.toolNames).toEqual(['web.search']);
+    expect(withdrawn).toEqual([member.id]);
+    expect(tasks.get('run_1').error).toMatch(/A team member cannot wait for approval$/);
+  });
+
+  it('carries on past a failure with continue', async () => {
+    team = makeTeam({ errorHandling: 'continue' });
+    outcomes = { 'alice: g': { status: 'failed', error: 'boom' }, 'bob: g': { status: 'completed', result: 'B' }, 'carol: g': { status: 'completed', result: 'C' } };
+
+    await startRun('g');
+
+    expect(tasks.get('run_1').status).toBe('completed');
+    expect(tasks.get('run_1').result.reports.map((r: any) => r.agent)).toEqual(['bob', 'carol']);
+  });
+
+  it('pauses to ask, then resumes without rerunning completed work', async () => {
+    team = makeTeam({ errorHandling: 'ask' });
+    outcomes = { 'alice: g': { status: 'completed', result: 'A' }, 'bob: g': { status: 'failed', error: 'boom' } };
+
+    await startRun('g');
+    expect(tasks.get('run_1').status).toBe('paused');
+
+    outcomes['carol: g'] = { status: 'completed', result: 'C' };
+    expect(await resolveTeamRun({ taskId: 'run_1', userId: 'user_1', decision: 'continue' })).toEqual({
+      ok: true,
+      status: 'completed',
+    });
+
+    expect(executedGoals).toEqual(['alice: g', 'bob: g', 'carol: g']);
+    expect(tasks.get('run_1').result.reports.map((r: any) => r.agent)).toEqual(['alice', 'carol']);
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const policyFindMany = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { toolPolicy: { findMany: (...args: unknown[]) => policyFindMany(...args) } },
+}));
+
+import { AgentExecutor } from '@/lib/agent/executor';
+import { ToolRegistry } from '@/lib/agent/tools/registry';
+import { stepNeedsApproval } from '@/lib/agent/approval';
+import { conditionHolds, evaluateToolPolicies, validatePolicyRule } from '@/lib/agent/tool-policy';
+import type { AgentTask, AgentTool, ExecutionPlan, ExecutionStep, ToolPolicyRule } from '@/lib/agent/types';
+
+function rule(extra: Partial<ToolPolicyRule>): ToolPolicyRule {
+  return { id: 'pol_1', name: 'Policy', tool: '*', conditions: [], effect: 'allow', priority: 0, ...extra };
+}
+
+const internalEmail = rule({
+  id: 'pol_internal',
+  name: 'Internal email',
+  tool: 'email.send',
+  conditions: [{ param: 'to', operator: 'domainIn', value: ['ourcompany.com'] }],
+  effect: 'allow',
+});
+
+const externalPosts = rule({
+  id: 'pol_posts',
+  name: 'No external POSTs',
+  tool: 'http.post',
+  conditions: [{ param: 'url', operator: 'domainNotIn', value: ['api.ourcompany.com'] }],
+  effect: 'deny',
+});
+
+const publicShares = rule({
+  id: 'pol_share',
+  name: 'Public shares need approval',
+  tool: 'drive.*',
+  conditions: [
+    { param: 'makePublic', operator: 'equals', value: true },
+    { param: 'email', operator: 'notExists' },
+  ],
+  effect: 'require_approval',
+});
+
+describe('conditionHolds', () => {
+  it('matches every recipient of a comma-separated list against the domains', () => {
+    const condition = internalEmail.conditions[0];
+    expect(conditionHolds(condition, { to: 'ann@ourcompany.com' })).toBe(true);
+    expect(conditionHolds(condition, { to: 'Ann <ann@eu.ourcompany.com>, bob@ourcompany.com' })).toBe(true);
+    expect(conditionHolds(condition, { to: 'ann@ourcompany.com, eve@evil.com' })).toBe(false);
+    expect(conditionHolds(condition, { to: 'eve@notourcompany.com' })).toBe(false);
+  });
+
+  it('treats not* operators as exact negations', () => {
+    const condition = externalPosts.conditions[0];
+    expect(conditionHolds(condition, { url: 'https://api.ourcompany.com/v1/items' })).toBe(false);
+    expect(conditionHolds(condition, { url: 'https://webhook.site/abc' })).toBe(true);
+    expect(conditionHolds({ param: 'cc', operator: 'notExists' }, { cc: '' })).toBe(true);
+  });
+});
+
+describe('evaluateToolPolicies', () => {
+  it('allows internal email and denies posts to unknown hosts', () => {
+    expect(evaluateToolPolicies([internalEmail], 'email.send', { to: 'ann@ourcompany.com' })).toMatchObject({
+      effect: 'allow',
+      policyId: 'pol_internal',
+    });
+    expect(evaluateToolPolicies([externalPosts], 'http.post', { url: 'https://webhook.site/abc' })).toMatchObject({
+      effect: 'deny',
+      policyName: 'No external POSTs',
+    });
+  });
+
+  it('requires approval for a public share with no recipient, via a prefix pattern', () => {
+    expect(evaluateToolPolicies([publicShares], 'drive.share', { fileId: 'f1', makePublic: true }).effect).toBe(
+      'require_approval'
+    );
+    expect(
+      evaluateToolPolicies([publicShares], 'drive.share', { fileId: 'f1', makePublic: true, email: 'a@b.com' }).effect
+    ).toBe('default');
+  });
+
+  it('checks higher priority first and, at equal priority, the stricter effect', () => {
+    const allowAll = rule({ id: 'allow', name: 'Allow all', effect: 'allow' });
+    const denyAll = rule({ id: 'deny', name: 'Deny all', effect: 'deny' });
+
+    expect(evaluateToolPolicies([allowAll, denyAll], 'email.send', {}).policyId).toBe('deny');
+    expect(evaluateToolPolicies([{ ...allowAll, priority: 10 }, denyAll], 'email.send', {}).policyId).toBe('allow');
+  });
+
+  it('falls back to the built-in rules when nothing matches', () => {
+    expect(evaluateToolPolicies([internalEmail, externalPosts], 'email.send', { to: 'eve@evil.com' })).toEqual({
+      effect: 'default',
+      reason: 'None of 1 workspace policies for email.send matched',
+      rulesChecked: 1,
+    });
+  });
+});
+
+describe('stepNeedsApproval with a policy', () => {
+  const send = { id: 's', stepNumber: 1, action: 'send', description: 'send', tool: 'email.send', params: {} };
+
+  it('lets allow waive and require_approval override pre-approval', () => {
+    expect(stepNeedsApproval(send, {})).toBe(true);
+    expect(stepNeedsApproval(send, {}, { effect: 'allow', reason: '', rulesChecked: 1 })).toBe(false);
+    expect(
+      stepNeedsApproval(send, { autoApprovedTools: ['email.send'] }, { effect: 'require_approval', reason: '', rulesChecked: 1 })
+    ).toBe(true);
+  });
+});
+
+describe('validatePolicyRule', () => {
+  it('accepts a well-formed rule and lists every problem with a bad one', () => {
+    expect(validatePolicyRule(internalEmail)).toEqual([]);
+    expect(
+      validatePolicyRule({
+        name: ' ',
+        tool: 'email send',
+        effect: 'block',
+        priority: 1.5,
+        conditions: [{ param: 'to', operator: 'domainIn', value: 'ourcompany.com' }, { operator: 'equals' }],
+      })
+    ).toEqual([
+      'name is required',
+      'tool must be a tool name, a prefix such as "email.*", or "*"',
+      'effect must be one of: allow, require_approval, deny',
+      'priority must be an integer',
+      'condition 1 (domainIn) needs a list value',
+      'condition 2 needs a param',
+    ]);
+  });
+});
+
+describe('AgentExecutor with tool policies', () => {
+  function fakeTool(name: string): AgentTool {
+    return {
+      name,
+      description: name,
+      category: 'utility',
+      inputSchema: { type: 'object', properties: {} },
+      validate: () => ({ valid: true }),
+      execute: vi.fn(async () => ({ success: true, data: {} })),
+      estimateCost: () => 10,
+      simulate: async () => ({ success: true, data: { simulated: true } }),
+    };
+  }
+
+  const task: AgentTask = { id: 't1', userId: 'u1', type: 'custom', goal: 'Post the report', config: {}, createdAt: new Date() };
+
+  function plan(...steps: Array<[string, Record<string, any>]>): ExecutionPlan {
+    return {
+      taskId: 't1',
+      steps: steps.map(([tool, params], i): ExecutionStep => ({
+        id: `t1_step_${i + 1}`,
+        stepNumber: i + 1,
+        action: tool,
+        description: `step ${i + 1}`,
+        tool,
+        params,
+        retryable: true,
+      })),
+      totalSteps: steps.length,
+      estimatedCredits: 0,
+      estimatedDuration: 0,
+      createdAt: new Date(),
+    };
+  }
+
+  it('fails a denied step and records the evaluation on its trace entry', async () => {
+    policyFindMany.mockResolvedValue([{ ...externalPosts, enabled: true }]);
+    const registry = new ToolRegistry();
+    registry.register(fakeTool('http.post'));
+
+    const report = await new AgentExecutor('custom', {}, registry).dryRun(
+      task,
+      plan(['http.post', { url: 'https://webhook.site/abc' }])
+    );
+
+    expect(report.status).toBe('failed');
+    expect(report.error).toBe('"http.post" was blocked by the workspace policy "No external POSTs".');
+    expect(report.trace[0]).toMatchObject({ status: 'failed', policy: { effect: 'deny', policyId: 'pol_posts' } });
+  });
+
+  it('reports a step a policy puts behind approval as a side effect', async () => {
+    policyFindMany.mockResolvedValue([{ ...publicShares, enabled: true }]);
+    const registry = new ToolRegistry();
+    registry.register(fakeTool('drive.share'));
+
+    const report = await new AgentExecutor('custom', {}, registry).dryRun(
+      task,
+      plan(['drive.share', { fileId: 'f1', makePublic: true }])
+    );
+
+    expect(report.status).toBe('completed');
+    expect(report.sideEffects).toEqual([expect.objectContaining({ tool: 'drive.share', requiresApproval: true })]);
+    expect(report.trace[0].policy?.effect).toBe('require_approval');
+  });
+});
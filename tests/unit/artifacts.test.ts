@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { matchesWhere } from '../helpers/prisma-where';
+
+// Artifacts live in an in-memory stand-in for prisma that understands the
+// handful of filters lib/artifacts.ts uses; storage deletions are recorded.
+
+let rows: any[] = [];
+const tasks = [{ id: 't1', userId: 'u1' }];
+const deletedUrls: string[] = [];
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    task: { findFirst: async ({ where }: any) => tasks.find((task) => matchesWhere(task, where)) || null },
+    artifact: {
+      create: async ({ data }: any) => {
+        const row = { id: `art_${rows.length + 1}`, isLatest: true, createdAt: new Date(Date.now() + rows.length), ...data };
+        rows.push(row);
+        return row;
+      },
+      update: async ({ where, data }: any) => Object.assign(rows.find((row) => row.id === where.id), data),
+      findFirst: async ({ where }: any) => rows.filter((row) => matchesWhere(row, where)).at(-1) || null,
+      findMany: async ({ where }: any) => rows.filter((row) => matchesWhere(row, where)),
+      deleteMany: async ({ where }: any) => {
+        const before = rows.length;
+        rows = rows.filter((row) => !matchesWhere(row, where));
+        return { count: before - rows.length };
+      },
+    },
+  },
+}));
+
+vi.mock('@/lib/storage', () => ({
+  deleteMedia: async (urls: string[]) => {
+    deletedUrls.push(...urls);
+  },
+}));
+
+const { deleteArtifact, mimeTypeOf, purgeArtifactsBefore, recordArtifact } = await import('@/lib/artifacts');
+import type { AgentContext } from '@/lib/agent/types';
+
+const report = {
+  type: 'document' as const,
+  mimeType: 'application/pdf',
+  title: 'Weekly report',
+  url: 'https://blob.example.com/report.pdf',
+  persisted: true,
+  tool: 'document.createPdf',
+};
+
+function context(overrides: Partial<AgentContext> = {}): AgentContext {
+  return { userId: 'u1', taskId: 't1', stepNumber: 3, ...overrides } as AgentContext;
+}
+
+beforeEach(() => {
+  rows = [];
+  deletedUrls.length = 0;
+});
+
+describe('recordArtifact', () => {
+  it('records a file with the task and step that made it', async () => {
+    expect(await recordArtifact(context(), report)).toEqual({ artifactId: 'art_1', version: 1 });
+    expect(rows[0]).toMatchObject({ taskId: 't1', conversationId: null, stepNumber: 3, version: 1, parentId: null });
+  });
+
+  it('adds a version when the task regenerates the same file', async () => {
+    await recordArtifact(context(), report);
+    await recordArtifact(context({ stepNumber: 5 }), report);
+    const third = await recordArtifact(context({ stepNumber: 7 }), report);
+
+    expect(third).toEqual({ artifactId: 'art_3', version: 3 });
+    expect(rows.map((row) => [row.version, row.parentId, row.lineageId, row.isLatest])).toEqual([
+      [1, null, null, false],
+      [2, 'art_1', 'art_1', false],
+      [3, 'art_2', 'art_1', true],
+    ]);
+  });
+
+  it('starts a new artifact for a different title', async () => {
+    await recordArtifact(context(), report);
+    expect(await recordArtifact(context(), { ...report, title: 'Monthly report' })).toMatchObject({ version: 1 });
+  });
+
+  it('files a chat turn under its conversation rather than its made-up task id', async () => {
+    const chat = context({ taskId: 'chat-abc', conversationId: 'c1' });
+    await recordArtifact(chat, report);
+    await recordArtifact(chat, report);
+
+    expect(rows[1]).toMatchObject({ taskId: null, conversationId: 'c1', stepNumber: null, version: 2 });
+  });
+
+  it('does not version files from chats with no conversation', async () => {
+    const chat = context({ taskId: 'chat-abc' });
+    await recordArtifact(chat, report);
+
+    expect(await recordArtifact(chat, report)).toMatchObject({ version: 1 });
+  });
+
+  it('returns null instead of failing the tool', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await recordArtifact(context(), { ...report, title: undefined as unknown as string })).toBeNull();
+    error.mockRestore();
+  });
+});
+
+describe('deleting artifacts', () => {
+  it('deletes every version, and only the files the artifacts own', async () => {
+    await recordArtifact(context(), report);
+    await recordArtifact(context(), { ...report, url: 'https://blob.example.com/report-2.pdf' });
+    await recordArtifact(context(), {
+      type: 'image',
+      mimeType: 'image/png',
+      title: 'Hero image',
+      url: 'https://blob.example.com/hero.png',
+      persisted: true,
+      tool: 'image.generate',
+    });
+
+    expect(await deleteArtifact('u1', 'art_2')).toBe(true);
+    expect(rows.map((row) => row.id)).toEqual(['art_3']);
+    expect(deletedUrls).toEqual(['https://blob.example.com/report.pdf', 'https://blob.example.com/report-2.pdf']);
+
+    expect(await deleteArtifact('u2', 'art_3')).toBe(false);
+    expect(await purgeArtifactsBefore('u1', new Date(Date.now() + 60_000))).toBe(1);
+    expect(deletedUrls).toHaveLength(2);
+  });
+});
+
+describe('mimeTypeOf', () => {
+  it('reads a data URI and falls back for anything else', () => {
+    expect(mimeTypeOf('data:image/webp;base64,AAAA', 'image/png')).toBe('image/webp');
+    expect(mimeTypeOf('https://cdn.example.com/track', 'audio/mpeg')).toBe('audio/mpeg');
+  });
+});
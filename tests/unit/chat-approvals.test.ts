@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { matchesWhere } from '../helpers/prisma-where';
+
+// Approvals live in an in-memory stand-in for prisma. JSON columns are stored
+// as copies, as the database would.
+
+let rows: any[] = [];
+
+function stored(data: any) {
+  const column = (value: any) => {
+    if (value === Prisma.DbNull) return null;
+    return value && typeof value === 'object' && !(value instanceof Date) ? JSON.parse(JSON.stringify(value)) : value;
+  };
+  return Object.fromEntries(Object.entries(data).map(([key, value]) => [key, column(value)]));
+}
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    chatApproval: {
+      create: async ({ data }: any) => {
+        const row = { id: `ca_${rows.length + 1}`, status: 'pending', createdAt: new Date(), ...stored(data) };
+        rows.push(row);
+        return row;
+      },
+      findFirst: async ({ where }: any) => {
+        const row = rows.filter((row) => matchesWhere(row, where)).at(-1);
+        return row ? { ...row } : null;
+      },
+      updateMany: async ({ where, data }: any) => {
+        const hit = rows.filter((row) => matchesWhere(row, where));
+        hit.forEach((row) => Object.assign(row, stored(data)));
+        return { count: hit.length };
+      },
+    },
+  },
+}));
+
+const { createChatApproval, decideChatApproval, expireChatApprovals, findChatApproval } = await import(
+  '@/lib/agent/chat-approvals'
+);
+import type { AIMessage } from '@/lib/ai-providers/types';
+
+const messages: AIMessage[] = [
+  { role: 'user', content: 'Email the report to Sam' },
+  {
+    role: 'assistant',
+    content: [{ type: 'tool_use', id: 'call_1', name: 'email.send', input: { to: 'sam@example.com', subject: 'Report' } }],
+  },
+];
+
+const pending = { toolName: 'email.send', input: { to: 'sam@example.com', subject: 'Report' }, description: 'Send an email' };
+
+function halt() {
+  return createChatApproval({ userId: 'u1', conversationId: 'c1', messages, approvedTools: ['drive.upload'], pending });
+}
+
+beforeEach(() => {
+  rows = [];
+});
+
+describe('chat approvals', () => {
+  it('resume the stored turn by token, once', async () => {
+    const { resumeToken } = await halt();
+    expect(rows[0].tokenHash).not.toBe(resumeToken);
+
+    const found = await findChatApproval('u1', { resumeToken });
+    expect(found).toEqual({ ok: true, approval: { id: 'ca_1', tool: 'email.send', conversationId: 'c1' } });
+
+    const decided = await decideChatApproval({ approvalId: 'ca_1', userId: 'u1', decision: 'approve', via: 'web' });
+    expect(decided).toEqual({
+      ok: true,
+      messages: JSON.parse(JSON.stringify(messages)),
+      approvedTools: ['drive.upload', 'email.send'],
+      deniedTools: [],
+    });
+    expect(rows[0]).toMatchObject({ status: 'approved', decidedVia: 'web', messages: null });
+    expect(rows[0].decidedAt).toBeInstanceOf(Date);
+
+    expect(await findChatApproval('u1', { resumeToken })).toMatchObject({ ok: false, reason: 'already_decided' });
+    expect(await decideChatApproval({ approvalId: 'ca_1', userId: 'u1', decision: 'deny', via: 'web' })).toMatchObject({
+      ok: false,
+      reason: 'already_decided',
+    });
+  });
+
+  it('deny the pending tool on a denial', async () => {
+    await halt();
+
+    const decided = await decideChatApproval({ approvalId: 'ca_1', userId: 'u1', decision: 'deny', via: 'api' });
+
+    expect(decided).toMatchObject({ ok: true, approvedTools: ['drive.upload'], deniedTools: ['email.send'] });
+    expect(rows[0].status).toBe('denied');
+  });
+
+  it('match messages echoed by older clients, whatever their key order, but not edited ones', async () => {
+    await halt();
+    const reordered = [messages[0], { content: messages[1].content, role: 'assistant' }];
+    const edited = structuredClone(messages) as any[];
+    edited[1].content[0].input.to = 'someone-else@example.com';
+
+    expect(await findChatApproval('u1', { resumeMessages: reordered })).toMatchObject({ ok: true });
+    expect(await findChatApproval('u1', { resumeMessages: edited })).toMatchObject({ ok: false, reason: 'tampered' });
+  });
+
+  it('refuse a token whose echoed messages were edited', async () => {
+    const { resumeToken } = await halt();
+    const edited = structuredClone(messages) as any[];
+    edited[1].content[0].input.subject = 'Something else';
+
+    expect(await findChatApproval('u1', { resumeToken, resumeMessages: edited })).toMatchObject({
+      ok: false,
+      reason: 'tampered',
+    });
+  });
+
+  it("find no other user's approval", async () => {
+    const { resumeToken } = await halt();
+
+    expect(await findChatApproval('u2', { resumeToken })).toMatchObject({ ok: false, reason: 'not_found' });
+    expect(await findChatApproval('u1', { resumeToken: 'made-up' })).toMatchObject({ ok: false, reason: 'not_found' });
+  });
+
+  it('expire unanswered approvals', async () => {
+    const { resumeToken } = await halt();
+    rows[0].expiresAt = new Date(Date.now() - 1000);
+
+    expect(await findChatApproval('u1', { resumeToken })).toMatchObject({ ok: false, reason: 'expired' });
+    expect(await expireChatApprovals()).toBe(1);
+    expect(rows[0]).toMatchObject({ status: 'expired', messages: null });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// The model is a script of responses; tools are stand-ins that take a set
+// time and record how many of them were running at once.
+
+const responses: any[] = [];
+let policies: any[] = [];
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    toolPolicy: { findMany: async () => policies },
+    customTool: { findMany: async () => [] },
+    externalMcpServer: { findMany: async () => [] },
+    user: { findUnique: async () => ({ monthlyCredits: 100000, creditsUsed: 0 }) },
+  },
+}));
+
+vi.mock('@/lib/ai-providers', () => ({
+  aiRouter: { getModel: () => ({ capabilities: ['function-calling'] }) },
+}));
+
+vi.mock('@/lib/ai-security/guard', () => ({
+  secureChat: async () => responses.shift(),
+}));
+
+vi.mock('@/lib/agent/tools', async () => {
+  const { ToolRegistry } = await import('@/lib/agent/tools/registry');
+  return { toolRegistry: new ToolRegistry() };
+});
+
+const { MAX_PARALLEL_TOOL_CALLS, runChatLoop } = await import('@/lib/agent/chat-loop');
+const { toolRegistry } = await import('@/lib/agent/tools');
+import type { AgentTool } from '@/lib/agent/types';
+
+let running = 0;
+let mostRunning = 0;
+const events: string[] = [];
+
+function tool(name: string): AgentTool {
+  return {
+    name,
+    description: name,
+    category: 'data',
+    inputSchema: { type: 'object', properties: {} },
+    validate: () => ({ valid: true }),
+    execute: async (params: { id: string; ms: number }) => {
+      running++;
+      mostRunning = Math.max(mostRunning, running);
+      events.push(`start ${params.id}`);
+      await new Promise((resolve) => setTimeout(resolve, params.ms));
+      running--;
+      events.push(`end ${params.id}`);
+      return { success: true, data: { id: params.id }, metadata: { duration: params.ms, credits: 1 } };
+    },
+    estimateCost: () => 1,
+  };
+}
+
+for (const name of ['http.get', 'web.search', 'browser.extract', 'email.send']) {
+  toolRegistry.register(tool(name));
+}
+
+function calls(...specs: [string, string, number][]) {
+  const toolCalls = specs.map(([name, id, ms]) => ({ id, name, input: { id, ms } }));
+  return {
+    content: '',
+    contentBlocks: toolCalls.map((call) => ({ type: 'tool_use', ...call })),
+    provider: 'test',
+    usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+    toolCalls,
+  };
+}
+
+const answer = { content: 'Done', provider: 'test', usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } };
+
+function run(approvedTools: string[] = [], messages: any[] = [{ role: 'user', content: 'Look things up' }]) {
+  return runChatLoop({ modelId: 'test-model', messages, userId: 'u1', approvedTools });
+}
+
+function answeredIds(messages: any[]): string[] {
+  return messages.flatMap((m) => (Array.isArray(m.content) ? m.content : []))
+    .filter((b: any) => b.type === 'tool_result')
+    .map((b: any) => b.tool_use_id);
+}
+
+beforeEach(() => {
+  policies = [];
+  responses.length = 0;
+  events.length = 0;
+  running = 0;
+  mostRunning = 0;
+});
+
+describe('runChatLoop', () => {
+  it('runs read-only calls of a batch at once and answers them in call order', async () => {
+    responses.push(calls(['http.get', 'a', 60], ['web.search', 'b', 30], ['http.get', 'c', 5]), answer);
+
+    const result = await run();
+
+    expect(result.status).toBe('done');
+    expect(mostRunning).toBe(3);
+    expect(events.slice(3)).toEqual(['end c', 'end b', 'end a']);
+    expect(result.toolTrace.map((t) => t.summary)).toEqual(['{"id":"a"}', '{"id":"b"}', '{"id":"c"}']);
+    expect(result.toolTrace.every((t) => t.parallel && t.startedAtMs! < 20)).toBe(true);
+    expect(result.toolTrace[0].durationMs).toBeGreaterThanOrEqual(50);
+    expect(result.toolCreditsUsed).toBe(3);
+  });
+
+  it(`runs at most ${MAX_PARALLEL_TOOL_CALLS} at once`, async () => {
+    const batch = Array.from({ length: 7 }, (_, i) => ['http.get', `r${i}`, 10] as [string, string, number]);
+    responses.push(calls(...batch), answer);
+
+    const result = await run();
+
+    expect(mostRunning).toBe(MAX_PARALLEL_TOOL_CALLS);
+    expect(result.toolTrace).toHaveLength(7);
+  });
+
+  it('runs other tools alone, after the reads before them', async () => {
+    responses.push(
+      calls(['http.get', 'a', 20], ['browser.extract', 'b', 5], ['http.get', 'c', 5], ['email.send', 'd', 5]),
+      answer
+    );
+
+    const result = await run(['email.send']);
+
+    expect(events).toEqual(['start a', 'end a', 'start b', 'end b', 'start c', 'end c', 'start d', 'end d']);
+    expect(result.toolTrace.map((t) => t.parallel)).toEqual([true, false, true, false]);
+  });
+
+  it('halts for approval once the reads before the sensitive call are answered', async () => {
+    responses.push(calls(['http.get', 'a', 20], ['web.search', 'b', 5], ['email.send', 'c', 5], ['http.get', 'd', 5]));
+
+    const result = await run();
+
+    expect(result.status).toBe('pendingApproval');
+    if (result.status !== 'pendingApproval') return;
+    expect(result.pendingApproval.toolName).toBe('email.send');
+    expect(answeredIds(result.resumeMessages)).toEqual(['a', 'b']);
+    expect(events).not.toContain('start d');
+  });
+
+  it('approves a call a policy requires approval for one call at a time', async () => {
+    policies = [{ id: 'pol_1', name: 'Reads need approval', tool: 'http.get', conditions: [], effect: 'require_approval', priority: 0 }];
+    responses.push(calls(['http.get', 'a', 5], ['http.get', 'b', 5]));
+
+    const halted = await run(['http.get']);
+
+    expect(halted.status).toBe('pendingApproval');
+    if (halted.status !== 'pendingApproval') return;
+    expect(halted.pendingApproval.input).toEqual({ id: 'a', ms: 5 });
+
+    const resumed = await run(['http.get'], halted.resumeMessages);
+
+    expect(resumed.status).toBe('pendingApproval');
+    if (resumed.status !== 'pendingApproval') return;
+    expect(resumed.pendingApproval.input).toEqual({ id: 'b', ms: 5 });
+    expect(events).toEqual(['start a', 'end a']);
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// The sandbox is a fake lease whose exec plays the VM: the code run is
+// answered by each test, and find/base64 by an in-memory workdir of files the
+// code "wrote". Code that hangs runs until it is killed. Storage and
+// artifacts only record what they were given.
+
+const workdir = new Map<string, string>();
+let runResult = { exitCode: 0, stdout: '', stderr: '', durationMs: 40 };
+let hang = false;
+let acquireResult: any;
+const acquireCalls: any[] = [];
+const usage: any[] = [];
+const uploads: any[] = [];
+
+function fakeLease() {
+  return {
+    leaseId: 'lease_1',
+    released: null as string | null,
+    heartbeats: 0,
+    commands: [] as { cmd: string; args: string[]; timeoutMs: number }[],
+    ceilingHit: () => null,
+    async heartbeat() {
+      this.heartbeats++;
+    },
+    async release(reason: string) {
+      this.released = reason;
+    },
+    kill: () => {},
+    async exec(request: { cmd: string; args: string[]; timeoutMs: number }) {
+      this.commands.push(request);
+      const [, script] = request.args;
+      if (script.startsWith('pid=')) {
+        this.kill();
+        return { exitCode: 0, stdout: '', stderr: '', durationMs: 1 };
+      }
+      if (hang && !script.startsWith('find')) {
+        return new Promise((resolve) => {
+          this.kill = () => resolve({ exitCode: 137, stdout: '', stderr: 'Killed', durationMs: 5 });
+        });
+      }
+      if (request.cmd === 'base64') {
+        return { exitCode: 0, stdout: Buffer.from(workdir.get(request.args[2])!).toString('base64'), stderr: '', durationMs: 1 };
+      }
+      if (script.startsWith('find')) {
+        const listing = [...workdir].map(([path, content]) => `${content.length}\t${path}\n`).join('');
+        return { exitCode: 0, stdout: listing, stderr: '', durationMs: 1 };
+      }
+      return runResult;
+    },
+  };
+}
+
+let lease = fakeLease();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    workspace: {
+      findFirst: async ({ where }: any) =>
+        where.isDefault ? { id: 'ws_default', egressAllowedDomains: ['pypi.org'] } : { id: where.id, egressAllowedDomains: [] },
+    },
+    task: { findFirst: async ({ where }: any) => (where.id === 't1' ? { id: 't1', tokenBudget: 50_000 } : null) },
+  },
+}));
+
+vi.mock('@/lib/sandbox/orchestrator', () => ({
+  acquireSandbox: async (...args: any[]) => {
+    acquireCalls.push(args);
+    return acquireResult;
+  },
+  recordSandboxUsage: async (event: any) => {
+    usage.push(event);
+  },
+}));
+
+vi.mock('@/lib/storage', () => ({
+  uploadMedia: async (data: string, options: any) => {
+    uploads.push({ data: Buffer.from(data, 'base64').toString(), ...options });
+    return { url: `https://blob.example.com/${uploads.length}`, persisted: true, bytes: 3 };
+  },
+}));
+
+vi.mock('@/lib/artifacts', () => ({
+  recordArtifact: async () => ({ artifactId: `art_${uploads.length}`, version: 1 }),
+}));
+
+const { CodeRunTool, codeRunCredits, parseChangedFiles } = await import('@/lib/agent/tools/code');
+const { TaskStoppedError } = await import('@/lib/agent/cancellation');
+import type { AgentContext } from '@/lib/agent/types';
+
+const context = { userId: 'u1', taskId: 't1', stepNumber: 2, state: { tokensUsed: 1200 } } as unknown as AgentContext;
+
+beforeEach(() => {
+  workdir.clear();
+  runResult = { exitCode: 0, stdout: '', stderr: '', durationMs: 40 };
+  hang = false;
+  lease = fakeLease();
+  acquireResult = { allowed: true, lease };
+  acquireCalls.length = 0;
+  usage.length = 0;
+  uploads.length = 0;
+});
+
+describe('code.run', () => {
+  it('runs the code in the leased sandbox and returns its output and files', async () => {
+    runResult = { exitCode: 0, stdout: '42\n', stderr: '', durationMs: 40 };
+    workdir.set('out/result.csv', 'a,b');
+
+    const result = await new CodeRunTool().execute({ language: 'python', code: 'print(6*7)' }, context);
+
+    expect(result).toMatchObject({
+      success: true,
+      data: {
+        exitCode: 0,
+        stdout: '42\n',
+        files: [{ path: 'out/result.csv', bytes: 3, url: 'https://blob.example.com/1', artifactId: 'art_1' }],
+      },
+      metadata: { credits: 5 },
+    });
+
+    const [run] = lease.commands;
+    expect(run.cmd).toBe('sh');
+    expect(run.args.slice(3)).toEqual(['python3', '-c', 'print(6*7)']);
+    expect(run.args[2]).toMatch(/^\/tmp\/code-run-/);
+    expect(run.timeoutMs).toBe(60_000);
+    expect(uploads[0]).toMatchObject({ data: 'a,b', extension: 'csv', contentType: 'text/csv', kind: 'document' });
+
+    expect(acquireCalls[0]).toEqual([
+      'ws_default',
+      { estimatedCredits: 10, tokenCeiling: 50_000, wallClockCeilingMs: 120_000 },
+      { networkAllowlist: ['pypi.org'], taskId: 't1' },
+    ]);
+    expect(lease.heartbeats).toBe(1);
+    expect(lease.released).toBe('completed');
+    expect(usage).toEqual([
+      expect.objectContaining({ workspaceId: 'ws_default', taskId: 't1', leaseId: 'lease_1', phase: 'active' }),
+    ]);
+  });
+
+  it('fails with the last stderr line when the code exits non-zero', async () => {
+    runResult = { exitCode: 1, stdout: '', stderr: 'Traceback...\nZeroDivisionError: division by zero\n', durationMs: 30 };
+
+    const result = await new CodeRunTool().execute(
+      { language: 'node', code: 'x', timeoutSeconds: 5 },
+      { ...context, taskId: 'chat-1', workspaceId: 'ws_2' }
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'The code exited with code 1: ZeroDivisionError: division by zero',
+      data: { exitCode: 1, files: [] },
+    });
+    expect(lease.commands[0].args.slice(3, 5)).toEqual(['node', '-e']);
+    expect(acquireCalls[0][0]).toBe('ws_2');
+    expect(acquireCalls[0][2]).toEqual({ networkAllowlist: [], taskId: undefined });
+    expect(lease.released).toBe('completed');
+  });
+
+  it('is blocked before the sandbox is touched when the budget is denied', async () => {
+    acquireResult = { allowed: false, reason: 'budget_denied', spend: { allowed: false, remaining: 3, estimate: 10 } };
+
+    const result = await new CodeRunTool().execute({ language: 'python', code: 'print(1)' }, context);
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Not enough credits to run code: this call may use up to 10 and 3 are left',
+      metadata: { credits: 0 },
+    });
+    expect(lease.commands).toEqual([]);
+    expect(usage).toEqual([]);
+  });
+
+  it('kills the code and releases the lease when the run is stopped mid-exec', async () => {
+    hang = true;
+    const controller = new AbortController();
+
+    const pending = new CodeRunTool().execute(
+      { language: 'python', code: 'while True: pass' },
+      { ...context, signal: controller.signal }
+    );
+    await vi.waitFor(() => expect(lease.commands).toHaveLength(1));
+    controller.abort(new TaskStoppedError('pause'));
+
+    await expect(pending).rejects.toThrow('The task was paused');
+    const [run, kill] = lease.commands;
+    expect(kill.args).toEqual(['-c', expect.stringContaining('pkill -KILL -P'), run.args[2]]);
+    expect(lease.commands).toHaveLength(2);
+    expect(lease.released).toBe('completed');
+    expect(usage).toHaveLength(1);
+  });
+
+  it('does not take the sandbox for a run that is already stopped', async () => {
+    const controller = new AbortController();
+    controller.abort(new TaskStoppedError('cancel'));
+
+    await expect(
+      new CodeRunTool().execute({ language: 'node', code: 'x' }, { ...context, signal: controller.signal })
+    ).rejects.toThrow('The task was cancelled');
+    expect(acquireCalls).toEqual([]);
+  });
+
+  it('releases the lease with an error when the sandbox fails', async () => {
+    lease.exec = async () => {
+      throw new Error('No live sandbox');
+    };
+
+    const result = await new CodeRunTool().execute({ language: 'python', code: 'print(1)' }, context);
+
+    expect(result.error).toBe('The sandbox could not run the code: No live sandbox');
+    expect(lease.released).toBe('error');
+    expect(usage).toHaveLength(1);
+  });
+
+  it('validates its params', () => {
+    const tool = new CodeRunTool();
+    expect(tool.validate({ language: 'python', code: 'print(1)' })).toEqual({ valid: true });
+    expect(tool.validate({ language: 'ruby', code: 'puts 1' }).error).toBe('language must be one of python, node');
+    expect(tool.validate({ language: 'node', code: ' ' }).error).toBe('code parameter required (string)');
+    expect(tool.validate({ language: 'node', code: 'x', timeoutSeconds: 900 }).error).toBe(
+      'timeoutSeconds must be between 1 and 300'
+    );
+  });
+});
+
+describe('helpers', () => {
+  it('charge per started minute and read the changed-file listing', () => {
+    expect([codeRunCredits(0), codeRunCredits(60_000), codeRunCredits(60_001)]).toEqual([5, 5, 10]);
+    expect(parseChangedFiles('12\tplot.png\n7\tdata/a b.txt\n\n')).toEqual([
+      { path: 'plot.png', bytes: 12 },
+      { path: 'data/a b.txt', bytes: 7 },
+    ]);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// One integration and its custom tools in an in-memory stand-in for prisma;
+// fetch is stubbed per test.
+
+const integration = { id: 'int_1', userId: 'u1', isActive: true, apiKey: 'secret-key', accessToken: null };
+let customTools: any[] = [];
+const calls: string[] = [];
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    integration: {
+      findFirst: async ({ where }: any) =>
+        where.id === integration.id && where.userId === integration.userId ? integration : null,
+      update: async () => integration,
+    },
+    customTool: {
+      findMany: async ({ where }: any) =>
+        where.integration.userId === integration.userId && integration.isActive ? customTools : [],
+      update: async ({ where }: any) => {
+        calls.push(where.id);
+        return {};
+      },
+    },
+    externalMcpServer: { findMany: async () => [] },
+    workspace: { findFirst: async () => null },
+  },
+}));
+
+vi.mock('@/lib/agent/tools', async () => {
+  const { ToolRegistry } = await import('@/lib/agent/tools/registry');
+  return { toolRegistry: new ToolRegistry() };
+});
+
+const { loadUserToolRegistry, validateCustomToolInput } = await import('@/lib/agent/custom-tools');
+const { CustomHttpTool, buildRequest, mapError, mapResponse } = await import('@/lib/agent/tools/custom');
+const { ToolRegistry } = await import('@/lib/agent/tools/registry');
+const { isSensitiveTool, stepNeedsApproval } = await import('@/lib/agent/approval');
+import type { AgentContext } from '@/lib/agent/types';
+
+const createIssue = {
+  id: 'ct_1',
+  integrationId: 'int_1',
+  name: 'Create issue',
+  description: 'Open an issue in the tracker',
+  endpoint: 'https://tracker.example.com/projects/{project}/issues',
+  method: 'POST',
+  parameters: {
+    type: 'object',
+    properties: {
+      project: { type: 'string' },
+      title: { type: 'string' },
+      priority: { type: 'string', enum: ['low', 'high'] },
+    },
+    required: ['project', 'title'],
+  },
+  headers: { 'X-Client': 'agent' },
+  authentication: { type: 'header', name: 'X-Api-Key' },
+  responseMapping: { fields: { id: 'issue.id', url: 'issue.links.0' } },
+  errorMapping: { messagePath: 'error.message', messages: { '404': 'No such project' } },
+};
+
+const context = { userId: 'u1', taskId: 't1' } as AgentContext;
+
+beforeEach(() => {
+  customTools = [];
+  calls.length = 0;
+  integration.isActive = true;
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('buildRequest', () => {
+  it('fills endpoint placeholders and sends the rest as query or body', () => {
+    const get = buildRequest('https://api.example.com/users/{id}/posts', 'GET', { id: 'a b', limit: 5 });
+    expect(get.url.toString()).toBe('https://api.example.com/users/a%20b/posts?limit=5');
+    expect(get.body).toBeUndefined();
+
+    const post = buildRequest('https://api.example.com/users/{id}', 'POST', { id: '7', name: 'Ada' });
+    expect(post.url.pathname).toBe('/users/7');
+    expect(post.body).toBe('{"name":"Ada"}');
+  });
+
+  it('sends params where their location says', () => {
+    const request = buildRequest(
+      'https://api.example.com/pets/{pet-id}',
+      'POST',
+      { 'pet-id': 3, dryRun: true, 'X-Trace': 'abc', name: 'Rex' },
+      { 'pet-id': 'path', dryRun: 'query', 'X-Trace': 'header', name: 'body' }
+    );
+    expect(request.url.toString()).toBe('https://api.example.com/pets/3?dryRun=true');
+    expect(request.headers).toEqual({ 'X-Trace': 'abc' });
+    expect(request.body).toBe('{"name":"Rex"}');
+
+    const bodiless = buildRequest('https://api.example.com/pets', 'POST', { q: 'x' }, { q: 'query' });
+    expect(bodiless.body).toBeUndefined();
+  });
+});
+
+describe('response and error mapping', () => {
+  it('picks out fields, a path or the whole body', () => {
+    const body = { data: { items: [{ id: 1 }, { id: 2 }] } };
+    expect(mapResponse(body, { path: 'data.items.1.id' })).toBe(2);
+    expect(mapResponse(body, { fields: { first: 'data.items.0.id', missing: 'data.x' } })).toEqual({ first: 1, missing: null });
+    expect(mapResponse(body, null)).toBe(body);
+  });
+
+  it('reports a failure by status, from the body, or as the status', () => {
+    const mapping = { messagePath: 'error.detail', messages: { '429': 'Rate limited, try later' } };
+    expect(mapError(429, {}, mapping)).toBe('Rate limited, try later');
+    expect(mapError(400, { error: { detail: 'title is too long' } }, mapping)).toBe('HTTP 400: title is too long');
+    expect(mapError(500, 'oops', null)).toBe('HTTP 500');
+  });
+});
+
+describe('CustomHttpTool', () => {
+  it('validates params against the stored schema', () => {
+    const tool = new CustomHttpTool(createIssue);
+
+    expect(tool.name).toBe('custom.create_issue');
+    expect(new CustomHttpTool({ ...createIssue, parameters: { properties: { q: { type: 'string', 'x-in': 'query' } } } })
+      .inputSchema.properties).toEqual({ q: { type: 'string' } });
+    expect(tool.validate({ project: 'web', title: 'Broken' })).toEqual({ valid: true });
+    expect(tool.validate({ project: 'web' })).toEqual({ valid: false, error: 'title parameter required' });
+    expect(tool.validate({ project: 'web', title: 'x', priority: 'urgent' }).error).toBe('priority must be one of low, high');
+    expect(tool.validate({ project: 'web', title: 'x', assignee: 'me' }).error).toBe('unknown parameter assignee');
+  });
+
+  it('sends the integration credential and returns only the mapped response', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+      Response.json({ issue: { id: 42, links: ['https://tracker.example.com/i/42'] }, echo: 'secret-key' })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await new CustomHttpTool(createIssue).execute({ project: 'web', title: 'Broken' }, context);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://tracker.example.com/projects/web/issues');
+    expect(init.headers).toEqual({ 'X-Client': 'agent', 'Content-Type': 'application/json', 'X-Api-Key': 'secret-key' });
+    expect(init.body).toBe('{"title":"Broken"}');
+    expect(result).toMatchObject({ success: true, data: { id: 42, url: 'https://tracker.example.com/i/42' } });
+    expect(calls).toEqual(['ct_1']);
+  });
+
+  it('maps a failed response and never quotes the credential', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: { message: 'nope' } }, { status: 404 })));
+    const tool = new CustomHttpTool({ ...createIssue, authentication: { type: 'query', name: 'key' } });
+
+    expect(await tool.execute({ project: 'x', title: 'y' }, context)).toMatchObject({ success: false, error: 'No such project' });
+
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => { throw new Error(`request to ${url} failed`); }));
+    const failed = await tool.execute({ project: 'x', title: 'y' }, context);
+    expect(failed.error).toContain('key=[redacted]');
+    expect(failed.error).not.toContain('secret-key');
+  });
+
+  it('fails when its integration is disconnected', async () => {
+    integration.isActive = false;
+    const result = await new CustomHttpTool(createIssue).execute({ project: 'x', title: 'y' }, context);
+    expect(result).toMatchObject({ success: false, error: 'The integration this tool uses is disconnected' });
+  });
+});
+
+describe('approval of custom tools', () => {
+  it('needs it for anything but GET, and for a tool it cannot see', () => {
+    const post = new CustomHttpTool(createIssue);
+    const get = new CustomHttpTool({ ...createIssue, name: 'Get issue', method: 'get' });
+    const step = { stepNumber: 1, action: 'Create issue', tool: post.name, params: {}, description: '' } as any;
+
+    expect(isSensitiveTool(post.name, post)).toBe(true);
+    expect(isSensitiveTool(get.name, get)).toBe(false);
+    expect(isSensitiveTool('custom.get_issue')).toBe(true);
+    expect(stepNeedsApproval(step, {}, undefined, post)).toBe(true);
+    expect(stepNeedsApproval(step, { autoApprovedTools: [post.name] }, undefined, post)).toBe(false);
+    expect(stepNeedsApproval({ ...step, tool: get.name }, {}, undefined, get)).toBe(false);
+  });
+});
+
+describe('loadUserToolRegistry', () => {
+  it("adds the user's tools to a copy of the built-ins", async () => {
+    const base = new ToolRegistry();
+    expect(await loadUserToolRegistry('u1', base)).toBe(base);
+
+    customTools = [createIssue];
+    const registry = await loadUserToolRegistry('u1', base);
+
+    expect(registry.getToolNames()).toEqual(['custom.create_issue']);
+    expect(base.getToolNames()).toEqual([]);
+  });
+});
+
+describe('validateCustomToolInput', () => {
+  it('lists what is wrong with a submitted tool', () => {
+    expect(validateCustomToolInput(createIssue)).toEqual([]);
+    expect(
+      validateCustomToolInput({
+        name: '!!',
+        endpoint: 'ftp://example.com',
+        method: 'TRACE',
+        parameters: { type: 'object', properties: { q: { type: 'any' } }, required: ['missing'] },
+        authentication: { type: 'header' },
+      })
+    ).toEqual([
+      'name must be 1-64 characters with at least one letter or digit',
+      'endpoint must use https',
+      'method must be one of GET, POST, PUT, PATCH, DELETE',
+      'parameter q must have a type: string, number, integer, boolean, array, object',
+      'parameters.required must list parameters the schema defines',
+      'authentication.name is required for header authentication',
+    ]);
+    expect(validateCustomToolInput({ description: 'Only this' }, true)).toEqual([]);
+  });
+});
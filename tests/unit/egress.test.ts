@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// DNS is faked so that names can resolve to loopback; fetch is stubbed per
+// test, except where the connection-time check is exercised against a local
+// server.
+
+const fakeAddresses: Record<string, string> = {
+  'rebind.example.com': '127.0.0.1',
+  'mapped.example.com': '::ffff:169.254.169.254',
+  'nat64.example.com': '64:ff9b::a9fe:a9fe',
+};
+
+vi.mock('node:dns', async (importOriginal) => {
+  const dns = await importOriginal<typeof import('node:dns')>();
+  const lookup = (hostname: string, options: any, callback: any) => {
+    const address = fakeAddresses[hostname];
+    if (!address) return dns.lookup(hostname, options, callback);
+    const entry = { address, family: address.includes(':') ? 6 : 4 };
+    return options.all ? callback(null, [entry]) : callback(null, entry.address, entry.family);
+  };
+  return { ...dns, default: { ...dns, lookup }, lookup };
+});
+
+const workspaces: any[] = [];
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    workspace: {
+      // By id, for its owner only when asked; otherwise the user's default
+      findFirst: async ({ where }: any) =>
+        workspaces.find((workspace) =>
+          where.id
+            ? workspace.id === where.id && (!where.OR || workspace.userId === where.OR[0].userId)
+            : workspace.isDefault && workspace.userId === where.user.OR[0].id
+        ) ?? null,
+    },
+  },
+}));
+
+const { EgressError, assertPublicHost, checkEgressUrl, createRequestGuard, isBlockedAddress, loadEgressPolicy, safeFetch } =
+  await import('@/lib/egress');
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+async function failure(promise: Promise<unknown>) {
+  const error = await promise.then(() => null, (e) => e);
+  expect(error).toBeInstanceOf(EgressError);
+  return { reason: error.reason, message: error.message };
+}
+
+describe('isBlockedAddress', () => {
+  it('blocks every range that is not public unicast', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '255.255.255.255',
+      '::1',
+      '::',
+      'fd00::1',
+      'fe80::1%eth0',
+      '::ffff:127.0.0.1',
+      '::ffff:a9fe:a9fe',
+      '64:ff9b::7f00:1',
+      '64:ff9b::169.254.169.254',
+      '64:ff9b:1::a00:1',
+      '2002:a9fe:a9fe::',
+      '2001:0:4136:e378:8000:63bf:3fff:fdd2',
+      'not-an-ip',
+    ]) {
+      expect(isBlockedAddress(address), address).toBe(true);
+    }
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isBlockedAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe('checkEgressUrl', () => {
+  it('refuses other schemes, local names and private literals', () => {
+    expect(checkEgressUrl('https://api.example.com/x').hostname).toBe('api.example.com');
+    expect(() => checkEgressUrl('file:///etc/passwd')).toThrow('Protocol file: is not allowed');
+    for (const url of ['http://localhost:3000', 'http://169.254.169.254/latest', 'http://[::1]/', 'http://0x7f.1/', 'http://db.internal/']) {
+      expect(() => checkEgressUrl(url), url).toThrow(/is not a public host/);
+    }
+  });
+
+  it("applies the workspace's domain lists", () => {
+    const policy = { allowedDomains: ['example.com'], blockedDomains: ['secret.example.com'] };
+    expect(checkEgressUrl('https://api.example.com', policy).host).toBe('api.example.com');
+    expect(() => checkEgressUrl('https://evil.com', policy)).toThrow("evil.com is not on the workspace's list of allowed domains");
+    expect(() => checkEgressUrl('https://a.secret.example.com', policy)).toThrow(
+      "a.secret.example.com is blocked by the workspace's domain list"
+    );
+  });
+});
+
+describe('safeFetch', () => {
+  it('checks every redirect hop and drops credentials when leaving the origin', async () => {
+    const calls: [string, RequestInit][] = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string, init: RequestInit) => {
+        calls.push([url, init]);
+        if (url === 'https://a.example.com/start') {
+          return new Response(null, { status: 303, headers: { location: 'https://b.example.com/next' } });
+        }
+        if (url === 'https://b.example.com/next') {
+          return new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data' } });
+        }
+        return new Response('ok');
+      })
+    );
+
+    const blocked = await failure(
+      safeFetch('https://a.example.com/start', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer t', 'Content-Type': 'application/json', 'X-Trace': '1' },
+        body: '{}',
+      })
+    );
+
+    expect(blocked).toEqual({ reason: 'private_address', message: '169.254.169.254 is not a public host' });
+    expect(calls.map(([url, init]) => [url, init.method, init.body, init.redirect])).toEqual([
+      ['https://a.example.com/start', 'POST', '{}', 'manual'],
+      ['https://b.example.com/next', 'GET', undefined, 'manual'],
+    ]);
+    expect(calls[1][1].headers).toEqual({ 'X-Trace': '1' });
+  });
+
+  it('stops after five redirects', async () => {
+    let hop = 0;
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 302, headers: { location: `/hop/${++hop}` } })));
+
+    expect(await failure(safeFetch('https://loop.example.com/'))).toEqual({
+      reason: 'too_many_redirects',
+      message: 'loop.example.com redirected more than 5 times',
+    });
+    expect(hop).toBe(6);
+  });
+
+  it('fails a body larger than maxBytes, declared or not', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('x'.repeat(100), { headers: { 'content-length': '100' } })));
+    expect(await failure(safeFetch('https://big.example.com/', { maxBytes: 10 }))).toMatchObject({ reason: 'too_large' });
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Blob(['x'.repeat(100)]).stream())));
+    const response = await safeFetch('https://big.example.com/', { maxBytes: 10 });
+    expect(await failure(response.text())).toMatchObject({ reason: 'too_large' });
+    expect(await (await safeFetch('https://big.example.com/', { maxBytes: 1000 })).text()).toHaveLength(100);
+  });
+
+  it('gives up after timeoutMs', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => init.signal!.addEventListener('abort', () => reject(init.signal!.reason)))
+      )
+    );
+
+    expect(await failure(safeFetch('https://slow.example.com/', { timeoutMs: 20 }))).toEqual({
+      reason: 'timeout',
+      message: 'slow.example.com did not answer within 0.02s',
+    });
+  });
+
+  describe('against a local server', () => {
+    let server: Server;
+    let port: number;
+    let hits = 0;
+
+    async function listen() {
+      server = createServer((_request, response) => {
+        hits++;
+        response.end('internal');
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as AddressInfo).port;
+    }
+
+    afterEach(async () => {
+      await new Promise((resolve) => server?.close(resolve));
+    });
+
+    it('refuses a name that resolves to a private address when connecting', async () => {
+      await listen();
+
+      expect(await failure(safeFetch(`http://rebind.example.com:${port}/`))).toEqual({
+        reason: 'private_address',
+        message: 'rebind.example.com resolves to 127.0.0.1, which is not a public address',
+      });
+      expect(hits).toBe(0);
+
+      vi.stubEnv('EGRESS_ALLOW_PRIVATE_NETWORKS', 'true');
+      expect(await (await safeFetch(`http://rebind.example.com:${port}/`)).text()).toBe('internal');
+      expect(hits).toBe(1);
+    });
+  });
+});
+
+describe('browser pages', () => {
+  it('are guarded by name, by resolution and by domain list', async () => {
+    const guard = createRequestGuard({ allowedDomains: [], blockedDomains: ['ads.com'] });
+
+    expect(await guard('data:image/png;base64,AAAA')).toBeNull();
+    expect(await guard('http://localhost/')).toBe('localhost is not a public host');
+    expect(await guard('https://x.ads.com/pixel')).toBe("x.ads.com is blocked by the workspace's domain list");
+    expect(await guard('https://mapped.example.com/')).toBe(
+      'mapped.example.com resolves to ::ffff:169.254.169.254, which is not a public address'
+    );
+    expect(await guard('https://nat64.example.com/')).toBe(
+      'nat64.example.com resolves to 64:ff9b::a9fe:a9fe, which is not a public address'
+    );
+    await expect(assertPublicHost('rebind.example.com')).rejects.toThrow('resolves to 127.0.0.1');
+  });
+});
+
+describe('loadEgressPolicy', () => {
+  it("reads the workspace's lists, or none", async () => {
+    workspaces.push({ id: 'ws_1', userId: 'u1', egressAllowedDomains: ['example.com'], egressBlockedDomains: [] });
+
+    expect(await loadEgressPolicy('u1', 'ws_1')).toEqual({ allowedDomains: ['example.com'], blockedDomains: [] });
+    expect(await loadEgressPolicy('u1', 'ws_2')).toEqual({ allowedDomains: [], blockedDomains: [] });
+  });
+
+  it("falls back to the team's default workspace for one the user cannot access", async () => {
+    workspaces.push(
+      { id: 'ws_home', userId: 'u3', isDefault: true, egressAllowedDomains: [], egressBlockedDomains: ['pastebin.com'] },
+      { id: 'ws_open', userId: 'u4', egressAllowedDomains: [], egressBlockedDomains: [] }
+    );
+
+    expect(await loadEgressPolicy('u3', 'ws_open')).toEqual({ allowedDomains: [], blockedDomains: ['pastebin.com'] });
+    expect(await loadEgressPolicy('u4', 'ws_open')).toEqual({ allowedDomains: [], blockedDomains: [] });
+  });
+});
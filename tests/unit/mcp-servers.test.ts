@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Servers live in an in-memory stand-in for prisma; fetch is a fake MCP
+// server that answers initialize as JSON and everything else over SSE.
+
+let servers: any[] = [];
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    externalMcpServer: {
+      findFirst: async ({ where }: any) => {
+        const row = servers.find((server) => server.id === where.id && server.userId === where.userId);
+        return row ? { ...row } : null;
+      },
+      findMany: async ({ where }: any) =>
+        servers.filter((server) => server.userId === where.userId && server.enabled === where.enabled),
+      update: async ({ where, data }: any) => {
+        Object.assign(servers.find((server) => server.id === where.id), data);
+        return {};
+      },
+    },
+    customTool: { findMany: async () => [] },
+    workspace: { findFirst: async () => null },
+  },
+}));
+
+vi.mock('@/lib/agent/tools', async () => {
+  const { ToolRegistry } = await import('@/lib/agent/tools/registry');
+  return { toolRegistry: new ToolRegistry() };
+});
+
+const { discoverMcpTools, validateMcpServerInput } = await import('@/lib/mcp/servers');
+const { loadUserToolRegistry } = await import('@/lib/agent/custom-tools');
+const { translateInputSchema } = await import('@/lib/agent/tools/mcp');
+const { isSensitiveTool } = await import('@/lib/agent/approval');
+import type { AgentContext } from '@/lib/agent/types';
+
+const createIssue = {
+  name: 'create_issue',
+  description: 'Open an issue',
+  inputSchema: {
+    type: 'object',
+    properties: { repo: { type: 'string' }, title: { type: 'string' }, labels: { $ref: '#/$defs/labels' } },
+    required: ['repo', 'title'],
+    $defs: { labels: { type: 'array', items: { type: ['string', 'null'] } } },
+  },
+};
+
+const requests: { method: string; rpc?: string; auth?: string | null; session?: string | null }[] = [];
+let acceptedToken = 'live-token';
+let callResult: any = { content: [{ type: 'text', text: '{"number":7}' }] };
+
+function sse(...messages: unknown[]) {
+  const body = messages.map((message) => `event: message\ndata: ${JSON.stringify(message)}\n\n`).join('');
+  return new Response(body, { headers: { 'content-type': 'text/event-stream' } });
+}
+
+function fakeServer(url: string, init: RequestInit) {
+  const headers = init.headers as Record<string, string>;
+  if (url === 'https://auth.example.com/token') {
+    requests.push({ method: 'TOKEN', rpc: String(init.body) });
+    return Response.json({ access_token: 'live-token', expires_in: 3600 });
+  }
+
+  const message = init.body ? JSON.parse(String(init.body)) : null;
+  requests.push({ method: init.method!, rpc: message?.method, auth: headers.Authorization, session: headers['Mcp-Session-Id'] });
+
+  if (headers.Authorization !== `Bearer ${acceptedToken}`) return new Response('', { status: 401 });
+  if (init.method === 'DELETE') return new Response(null, { status: 200 });
+  if (!message.id) return new Response(null, { status: 202 });
+
+  switch (message.method) {
+    case 'initialize':
+      return Response.json(
+        { jsonrpc: '2.0', id: message.id, result: { protocolVersion: '2025-06-18', capabilities: {}, serverInfo: { name: 'gh' } } },
+        { headers: { 'mcp-session-id': 'session-1' } }
+      );
+    case 'tools/list':
+      return sse(
+        { jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'listing' } },
+        { jsonrpc: '2.0', id: message.id, result: { tools: [createIssue, { name: 'search code', inputSchema: { type: 'object' } }] } }
+      );
+    default:
+      return sse({ jsonrpc: '2.0', id: message.id, result: callResult });
+  }
+}
+
+function server(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'mcp_1',
+    userId: 'u1',
+    name: 'github',
+    url: 'https://mcp.example.com/mcp',
+    enabled: true,
+    authType: 'bearer',
+    accessToken: 'live-token',
+    refreshToken: null,
+    tokenExpiresAt: null,
+    oauthTokenUrl: null,
+    oauthClientId: null,
+    oauthClientSecret: null,
+    tools: [],
+    discoveredAt: null,
+    lastError: null,
+    ...overrides,
+  };
+}
+
+const context = { userId: 'u1', taskId: 't1' } as AgentContext;
+
+beforeEach(() => {
+  servers = [server()];
+  requests.length = 0;
+  acceptedToken = 'live-token';
+  callResult = { content: [{ type: 'text', text: '{"number":7}' }] };
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => fakeServer(url, init)));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('discoverMcpTools', () => {
+  it('lists the tools in a session and keeps them on the server', async () => {
+    const result = await discoverMcpTools('u1', 'mcp_1');
+
+    expect(result).toMatchObject({ ok: true });
+    expect(servers[0].tools.map((tool: any) => tool.name)).toEqual(['create_issue', 'search code']);
+    expect(servers[0].discoveredAt).toBeInstanceOf(Date);
+    expect(requests.map((r) => [r.method, r.rpc, r.session])).toEqual([
+      ['POST', 'initialize', undefined],
+      ['POST', 'notifications/initialized', 'session-1'],
+      ['POST', 'tools/list', 'session-1'],
+      ['DELETE', undefined, 'session-1'],
+    ]);
+    expect(requests.every((r) => r.auth === 'Bearer live-token')).toBe(true);
+  });
+
+  it('refreshes a refused OAuth token once and stores the new one', async () => {
+    servers = [
+      server({
+        authType: 'oauth',
+        accessToken: 'stale-token',
+        refreshToken: 'refresh-1',
+        oauthTokenUrl: 'https://auth.example.com/token',
+        oauthClientId: 'client-1',
+      }),
+    ];
+
+    const result = await discoverMcpTools('u1', 'mcp_1');
+
+    expect(result).toMatchObject({ ok: true });
+    expect(requests.slice(0, 3).map((r) => r.method)).toEqual(['POST', 'TOKEN', 'POST']);
+    expect(requests[1].rpc).toBe('grant_type=refresh_token&refresh_token=refresh-1&client_id=client-1');
+    expect(servers[0]).toMatchObject({ accessToken: 'live-token', refreshToken: 'refresh-1' });
+    expect(servers[0].tokenExpiresAt).toBeInstanceOf(Date);
+  });
+
+  it('keeps the last tools and records why a server could not be reached', async () => {
+    servers = [server({ tools: [createIssue] })];
+    acceptedToken = 'something-else';
+
+    const result = await discoverMcpTools('u1', 'mcp_1');
+
+    expect(result).toEqual({ ok: false, reason: 'unreachable', message: 'The MCP server answered HTTP 401' });
+    expect(servers[0]).toMatchObject({ tools: [createIssue], lastError: 'The MCP server answered HTTP 401' });
+  });
+});
+
+describe('MCP tools', () => {
+  it('appear namespaced in the user registry and call the server', async () => {
+    servers = [server({ tools: [createIssue] }), server({ id: 'mcp_2', name: 'off', enabled: false, tools: [createIssue] })];
+
+    const registry = await loadUserToolRegistry('u1');
+    expect(registry.getToolNames()).toEqual(['mcp.github.create_issue']);
+
+    const tool = registry.getTool('mcp.github.create_issue')!;
+    expect(tool.validate({ repo: 'a/b' })).toEqual({ valid: false, error: 'title parameter required' });
+    expect(await tool.execute({ repo: 'a/b', title: 'Bug' }, context)).toMatchObject({ success: true, data: { number: 7 } });
+    expect(requests.find((r) => r.rpc === 'tools/call')).toBeTruthy();
+
+    callResult = { isError: true, content: [{ type: 'text', text: 'Repository not found' }] };
+    expect(await tool.execute({ repo: 'a/b', title: 'Bug' }, context)).toMatchObject({
+      success: false,
+      error: 'Repository not found',
+    });
+
+    servers[0].enabled = false;
+    expect(await tool.execute({ repo: 'a/b', title: 'Bug' }, context)).toMatchObject({
+      success: false,
+      error: 'The MCP server github is disabled',
+    });
+  });
+
+  it('translate input schemas to the tool shape', () => {
+    expect(translateInputSchema(createIssue.inputSchema)).toEqual({
+      type: 'object',
+      properties: { repo: { type: 'string' }, title: { type: 'string' }, labels: { type: 'array', items: { type: 'string' } } },
+      required: ['repo', 'title'],
+    });
+  });
+
+  it('require approval by default', () => {
+    expect(isSensitiveTool('mcp.github.create_issue')).toBe(true);
+    expect(isSensitiveTool('http.get')).toBe(false);
+  });
+});
+
+describe('validateMcpServerInput', () => {
+  it('lists what is wrong with a submitted server', () => {
+    expect(validateMcpServerInput({ name: 'github', url: 'https://mcp.example.com', auth: { type: 'bearer', token: 't' } })).toEqual([]);
+    expect(
+      validateMcpServerInput({ name: 'Git Hub', url: 'ftp://x', auth: { type: 'oauth', refreshToken: 'r' } })
+    ).toEqual([
+      'name must be 1-24 lowercase letters, digits or underscores',
+      'url must use https',
+      'auth.accessToken is required for oauth authentication',
+      'auth.tokenUrl and auth.clientId are required to refresh the token',
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Custom tools live in an in-memory stand-in for prisma, on one integration.
+
+let tools: any[] = [];
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    integration: {
+      findFirst: async ({ where }: any) => (where.id === 'int_1' && where.userId === 'u1' ? { id: 'int_1' } : null),
+    },
+    customTool: {
+      findMany: async () => tools.map((tool) => ({ ...tool })),
+      create: async ({ data }: any) => {
+        const row = { id: `ct_${tools.length + 1}`, headers: null, ...JSON.parse(JSON.stringify(data)) };
+        tools.push(row);
+        return { id: row.id };
+      },
+      update: async ({ where, data }: any) => {
+        Object.assign(tools.find((tool) => tool.id === where.id), JSON.parse(JSON.stringify(data)));
+        return {};
+      },
+      deleteMany: async ({ where }: any) => {
+        const before = tools.length;
+        tools = tools.filter((tool) => !where.id.in.includes(tool.id));
+        return { count: before - tools.length };
+      },
+    },
+  },
+}));
+
+vi.mock('@/lib/agent/tools', async () => {
+  const { ToolRegistry } = await import('@/lib/agent/tools/registry');
+  return { toolRegistry: new ToolRegistry() };
+});
+
+const { importOpenApiSpec, parseOpenApiSpec, specOperations } = await import('@/lib/agent/openapi-import');
+
+const petstore = `
+openapi: 3.0.3
+info: { title: Petstore, version: "1" }
+servers:
+  - url: https://{region}.pets.example.com/v1
+    variables:
+      region: { default: eu }
+security:
+  - apiKey: []
+components:
+  securitySchemes:
+    apiKey: { type: apiKey, in: header, name: X-Api-Key }
+    oauth: { type: oauth2, flows: {} }
+    session: { type: apiKey, in: cookie, name: sid }
+  schemas:
+    NewPet:
+      type: object
+      required: [name]
+      properties:
+        name: { type: string, description: The pet's name }
+        tag: { type: string, enum: [cat, dog] }
+    Pet:
+      allOf:
+        - $ref: '#/components/schemas/NewPet'
+        - type: object
+          properties:
+            id: { type: integer, readOnly: true }
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      summary: List pets
+      parameters:
+        - { name: limit, in: query, schema: { type: integer } }
+        - { name: X-Request-Id, in: header, schema: { type: string } }
+        - { name: Accept, in: header, schema: { type: string } }
+    post:
+      operationId: createPet
+      security: [{ oauth: [] }]
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema: { $ref: '#/components/schemas/Pet' }
+  /pets/{petId}:
+    parameters:
+      - { name: petId, in: path, required: true, schema: { type: string } }
+    delete:
+      operationId: delete_pet
+      security: [{ session: [] }]
+    put:
+      operationId: replacePet
+      requestBody:
+        required: true
+        content:
+          text/plain:
+            schema: { type: string }
+`;
+
+function spec() {
+  const parsed = parseOpenApiSpec(petstore);
+  if (!parsed.ok) throw new Error(parsed.message);
+  return parsed.spec;
+}
+
+function imported(overrides: Record<string, unknown> = {}) {
+  return importOpenApiSpec({ userId: 'u1', integrationId: 'int_1', spec: petstore, ...overrides });
+}
+
+beforeEach(() => {
+  tools = [];
+});
+
+describe('specOperations', () => {
+  it('flattens path, query, header and body params into one schema', () => {
+    const [list, create] = specOperations(spec());
+
+    expect(list).toMatchObject({
+      key: 'GET /pets',
+      skipped: null,
+      tool: {
+        name: 'List pets',
+        description: 'List pets',
+        endpoint: 'https://eu.pets.example.com/v1/pets',
+        method: 'GET',
+        parameters: {
+          properties: {
+            limit: { type: 'integer', 'x-in': 'query' },
+            'X-Request-Id': { type: 'string', 'x-in': 'header' },
+          },
+          required: [],
+        },
+        authentication: { type: 'header', name: 'X-Api-Key', credential: 'apiKey' },
+      },
+    });
+    expect(list.tool!.parameters.properties).not.toHaveProperty('Accept');
+
+    expect(create.tool).toMatchObject({
+      name: 'Create pet',
+      parameters: {
+        properties: {
+          name: { type: 'string', description: "The pet's name", 'x-in': 'body' },
+          tag: { type: 'string', enum: ['cat', 'dog'], 'x-in': 'body' },
+        },
+        required: ['name'],
+      },
+      authentication: { type: 'bearer', credential: 'accessToken' },
+    });
+    expect(create.tool!.parameters.properties).not.toHaveProperty('id');
+  });
+
+  it('says why an operation cannot be a tool', () => {
+    const [, , remove, replace] = specOperations(spec());
+
+    expect(remove.tool).toMatchObject({
+      name: 'Delete pet',
+      parameters: { properties: { petId: { type: 'string', 'x-in': 'path' } }, required: ['petId'] },
+      authentication: { type: 'none' },
+    });
+    expect(remove.warnings).toEqual(['Authentication session is not supported; the tool sends no credentials']);
+    expect(replace).toMatchObject({ tool: null, skipped: 'Only JSON object request bodies are supported' });
+  });
+
+  it('needs an absolute server URL', () => {
+    const relative = { ...spec(), servers: [{ url: '/api' }] };
+
+    expect(specOperations(relative)[0].skipped).toBe('The spec has no absolute server URL; import it with a serverUrl');
+    expect(specOperations(relative, 'https://pets.internal.example.com')[0].tool!.endpoint).toBe(
+      'https://pets.internal.example.com/pets'
+    );
+  });
+});
+
+describe('parseOpenApiSpec', () => {
+  it('accepts OpenAPI 3 only', () => {
+    expect(parseOpenApiSpec('{"swagger": "2.0", "paths": {}}')).toEqual({
+      ok: false,
+      message: 'Swagger 2.0 specs are not supported; convert it to OpenAPI 3',
+    });
+    expect(parseOpenApiSpec('openapi: [')).toMatchObject({ ok: false });
+    expect(parseOpenApiSpec({ openapi: '3.1.0', paths: {} })).toMatchObject({ ok: true });
+  });
+});
+
+describe('importOpenApiSpec', () => {
+  it('previews, then creates the chosen operations', async () => {
+    const preview = await imported();
+    expect(preview).toMatchObject({ ok: true, applied: false, created: 0 });
+    if (!preview.ok) return;
+    expect(preview.operations.map((op) => [op.key, op.status])).toEqual([
+      ['GET /pets', 'new'],
+      ['POST /pets', 'new'],
+      ['DELETE /pets/{petId}', 'new'],
+      ['PUT /pets/{petId}', 'skipped'],
+    ]);
+    expect(tools).toEqual([]);
+
+    const result = await imported({ apply: true, operations: ['listPets', 'POST /pets'] });
+    expect(result).toMatchObject({ ok: true, applied: true, created: 2 });
+    if (!result.ok) return;
+    expect(result.operations[2].status).toBe('not_selected');
+    expect(tools.map((tool) => [tool.name, tool.sourceOperation, tool.integrationId])).toEqual([
+      ['List pets', 'GET /pets', 'int_1'],
+      ['Create pet', 'POST /pets', 'int_1'],
+    ]);
+  });
+
+  it('updates changed tools on re-import, keeps what the user set, and prunes on request', async () => {
+    await imported({ apply: true, operations: ['listPets', 'createPet'] });
+    tools[0].headers = { 'X-Client': 'agent' };
+
+    const withoutCreate = petstore
+      .replace('summary: List pets', 'summary: List all pets')
+      .replace(/    post:\n[\s\S]*?(?=  \/pets\/\{petId\}:)/, '');
+
+    const preview = await imported({ spec: withoutCreate, operations: ['listPets'] });
+    if (!preview.ok) throw new Error(preview.message);
+    expect(preview.operations.find((op) => op.key === 'GET /pets')).toMatchObject({
+      status: 'changed',
+      changes: ['description'],
+      toolId: 'ct_1',
+    });
+    expect(preview.operations.at(-1)).toMatchObject({ key: 'POST /pets', status: 'removed', toolId: 'ct_2' });
+
+    const result = await imported({ spec: withoutCreate, operations: ['listPets'], apply: true, prune: true });
+    expect(result).toMatchObject({ ok: true, created: 0, updated: 1, removed: 1 });
+    expect(tools).toHaveLength(1);
+    expect(tools[0]).toMatchObject({ description: 'List all pets', headers: { 'X-Client': 'agent' } });
+
+    const again = await imported({ spec: withoutCreate, operations: ['listPets'] });
+    if (!again.ok) throw new Error(again.message);
+    expect(again.operations[0].status).toBe('unchanged');
+  });
+
+  it("skips an operation whose tool name another of the user's tools has", async () => {
+    tools.push({ id: 'ct_9', integrationId: 'int_other', sourceOperation: null, name: 'list_pets' });
+
+    const result = await imported({ operations: ['listPets'] });
+
+    if (!result.ok) throw new Error(result.message);
+    expect(result.operations[0]).toMatchObject({
+      status: 'skipped',
+      reason: 'You already have a tool named custom.list_pets',
+    });
+  });
+
+  it("refuses another user's integration", async () => {
+    expect(await importOpenApiSpec({ userId: 'u2', integrationId: 'int_1', spec: petstore })).toEqual({
+      ok: false,
+      reason: 'not_found',
+      message: 'Integration not found',
+    });
+  });
+});
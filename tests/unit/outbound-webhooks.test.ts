@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Prisma and the delivery queue are mocked: attemptDelivery() is exercised
+// against a single in-memory delivery row and a stubbed global fetch. DNS is
+// faked so subscription URLs resolve without a network.
+
+const fakeAddresses: Record<string, string> = {
+  'example.com': '93.184.215.14',
+  'rebind.example.com': '10.0.0.5',
+};
+
+vi.mock('node:dns', async (importOriginal) => {
+  const dns = await importOriginal<typeof import('node:dns')>();
+  const lookup = (hostname: string, options: any, callback: any) => {
+    const address = fakeAddresses[hostname];
+    if (!address) return callback(Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' }));
+    return options.all ? callback(null, [{ address, family: 4 }]) : callback(null, address, 4);
+  };
+  return { ...dns, default: { ...dns, lookup }, lookup };
+});
+
+const deliveryUpdate = vi.fn();
+const subscriptionUpdate = vi.fn();
+const queueWebhookDelivery = vi.fn();
+let row: any;
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    webhookDelivery: {
+      findUnique: async () => row,
+      updateMany: async ({ where }: any) => ({ count: where.attempts === row?.attempts ? 1 : 0 }),
+      update: (...args: unknown[]) => deliveryUpdate(...args),
+    },
+    webhookSubscription: {
+      update: (...args: unknown[]) => subscriptionUpdate(...args),
+    },
+  },
+}));
+
+vi.mock('@/lib/webhooks/queue', () => ({
+  queueWebhookDelivery: (...args: unknown[]) => queueWebhookDelivery(...args),
+}));
+
+const {
+  attemptDelivery,
+  deliveryResponseBody,
+  eventMatches,
+  retryDelayMs,
+  signWebhookPayload,
+  validateSubscriptionInput,
+  verifyWebhookSignature,
+  MAX_ATTEMPTS,
+} = await import('@/lib/webhooks/outbound');
+
+function makeRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'del_1',
+    subscriptionId: 'sub_1',
+    eventId: 'evt_1',
+    eventType: 'task.completed',
+    payload: { id: 'evt_1', type: 'task.completed', data: { taskId: 't' } },
+    status: 'pending',
+    attempts: 0,
+    subscription: { id: 'sub_1', url: 'https://example.com/hook', secret: 'whsec_test', enabled: true },
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  deliveryUpdate.mockReset();
+  subscriptionUpdate.mockReset();
+  queueWebhookDelivery.mockReset().mockResolvedValue('job_1');
+  row = makeRow();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('signWebhookPayload / verifyWebhookSignature', () => {
+  it('accepts its own signature and rejects a tampered body or a stale timestamp', () => {
+    const header = signWebhookPayload('whsec_a', '{"x":1}', 1_700_000_000);
+
+    expect(verifyWebhookSignature('whsec_a', '{"x":1}', header, 1_700_000_010)).toBe(true);
+    expect(verifyWebhookSignature('whsec_a', '{"x":2}', header, 1_700_000_010)).toBe(false);
+    expect(verifyWebhookSignature('whsec_b', '{"x":1}', header, 1_700_000_010)).toBe(false);
+    expect(verifyWebhookSignature('whsec_a', '{"x":1}', header, 1_700_001_000)).toBe(false);
+  });
+});
+
+describe('eventMatches', () => {
+  it('matches exact types, prefixes and the wildcard', () => {
+    expect(eventMatches(['task.completed'], 'task.completed')).toBe(true);
+    expect(eventMatches(['task.*'], 'task.step.failed')).toBe(true);
+    expect(eventMatches(['workflow.*'], 'task.failed')).toBe(false);
+    expect(eventMatches(['*'], 'workflow.execution.failed')).toBe(true);
+  });
+});
+
+describe('retryDelayMs', () => {
+  it('doubles from 30 seconds and caps at an hour', () => {
+    expect(retryDelayMs(1)).toBe(30_000);
+    expect(retryDelayMs(3)).toBe(120_000);
+    expect(retryDelayMs(20)).toBe(3_600_000);
+  });
+});
+
+describe('validateSubscriptionInput', () => {
+  it('reports a bad URL and unknown event types', async () => {
+    expect(await validateSubscriptionInput({ url: 'https://example.com/hook', events: ['task.*'] })).toEqual([]);
+    expect(await validateSubscriptionInput({ url: 'ftp://example.com', events: [] })).toEqual([
+      'url must use https',
+      'events must list at least one event type',
+    ]);
+    expect(await validateSubscriptionInput({ url: 'nope', events: ['task.exploded'] })).toEqual([
+      'url must be an absolute URL',
+      'unknown event type "task.exploded"',
+    ]);
+  });
+
+  it('refuses hosts that are or resolve to private addresses, in every environment', async () => {
+    for (const url of ['http://localhost:3000/hook', 'https://169.254.169.254/', 'https://rebind.example.com/hook']) {
+      expect(await validateSubscriptionInput({ url, events: ['*'] }), url).toEqual(['url must point at a public host']);
+    }
+    expect(await validateSubscriptionInput({ url: 'https://nowhere.example.com', events: ['*'] })).toEqual([
+      'url host nowhere.example.com could not be resolved',
+    ]);
+  });
+});
+
+describe('deliveryResponseBody', () => {
+  it('keeps the first kilobyte without control characters', () => {
+    expect(deliveryResponseBody('ok\u001b[31m\u0000\n')).toBe('ok[31m\n');
+    expect(deliveryResponseBody('x'.repeat(5000))).toHaveLength(1024);
+  });
+});
+
+describe('attemptDelivery', () => {
+  it('signs the body and marks a 2xx response delivered', async () => {
+    const fetchMock = vi.fn(async () => new Response('ok', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const outcome = await attemptDelivery('del_1');
+
+    expect(outcome).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200 });
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(headers['X-Webhook-Id']).toBe('evt_1');
+    expect(verifyWebhookSignature('whsec_test', init.body as string, headers['X-Webhook-Signature'])).toBe(true);
+    expect(subscriptionUpdate).toHaveBeenCalled();
+    expect(queueWebhookDelivery).not.toHaveBeenCalled();
+  });
+
+  it('schedules a retry with backoff after a failed attempt', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('nope', { status: 503 })));
+    row = makeRow({ status: 'retrying', attempts: 2 });
+
+    const outcome = await attemptDelivery('del_1');
+
+    expect(outcome).toMatchObject({ status: 'retrying', attempts: 3, error: 'Endpoint responded with HTTP 503' });
+    const [, delay] = queueWebhookDelivery.mock.calls[0] as [string, number];
+    expect(delay).toBeGreaterThan(retryDelayMs(3) - 1000);
+    expect(delay).toBeLessThanOrEqual(retryDelayMs(3));
+  });
+
+  it('dead-letters the delivery once attempts run out', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('ECONNREFUSED'); }));
+    row = makeRow({ status: 'retrying', attempts: MAX_ATTEMPTS - 1 });
+
+    const outcome = await attemptDelivery('del_1');
+
+    expect(outcome).toMatchObject({ status: 'dead', attempts: MAX_ATTEMPTS, error: 'ECONNREFUSED' });
+    expect(queueWebhookDelivery).not.toHaveBeenCalled();
+  });
+
+  it('neither follows a redirect nor retries a private address', async () => {
+    const fetchMock = vi.fn(
+      async () => new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data' } })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await attemptDelivery('del_1')).toMatchObject({ status: 'retrying', error: 'Endpoint responded with HTTP 302' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    queueWebhookDelivery.mockClear();
+    row = makeRow({ subscription: { ...row.subscription, url: 'http://169.254.169.254/latest/meta-data' } });
+
+    expect(await attemptDelivery('del_1')).toMatchObject({
+      status: 'dead',
+      attempts: 1,
+      responseStatus: null,
+      error: '169.254.169.254 is not a public host',
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(queueWebhookDelivery).not.toHaveBeenCalled();
+  });
+
+  it('skips deliveries that are already final', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    row = makeRow({ status: 'delivered', attempts: 1 });
+
+    expect(await attemptDelivery('del_1')).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
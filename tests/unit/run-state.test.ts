@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// One task row in an in-memory stand-in for prisma; checkpoints and webhooks
+// are stood in for so a short run can execute.
+
+const task: { id: string; userId: string; runState: any; result: any; resultDiff?: any } = {
+  id: 't1',
+  userId: 'u1',
+  runState: null,
+  result: null,
+};
+
+const taskTable = {
+  findFirst: async ({ where }: any) => (where.id === task.id && where.userId === task.userId ? task : null),
+  findUnique: async () => null,
+  update: async ({ data }: any) => Object.assign(task, data),
+};
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    task: taskTable,
+    $transaction: async (fn: any) =>
+      fn({
+        $queryRaw: async (_sql: TemplateStringsArray, id: string, userId: string) =>
+          id === task.id && userId === task.userId ? [{ runState: task.runState }] : [],
+        task: taskTable,
+      }),
+    toolPolicy: { findMany: async () => [] },
+    user: { findUnique: async () => ({ monthlyCredits: 100000, creditsUsed: 0 }) },
+  },
+}));
+
+vi.mock('@/lib/agent/checkpoint', () => ({
+  PLAN_REVISION_ACTION: 'plan.revise',
+  startRun: async () => undefined,
+  checkpointStep: async () => undefined,
+  completedStepNumbers: () => new Set(),
+  contextFromTrace: () => ({}),
+}));
+
+vi.mock('@/lib/webhooks/outbound', () => ({ dispatchWebhookEvent: async () => undefined }));
+
+const { MAX_RESULT_CHANGES, diffResults } = await import('@/lib/agent/run-state');
+const { StateCompareTool, StateSetTool } = await import('@/lib/agent/tools/state');
+const { AgentExecutor } = await import('@/lib/agent/executor');
+const { ToolRegistry } = await import('@/lib/agent/tools/registry');
+import type { AgentContext, AgentTool, ExecutionPlan } from '@/lib/agent/types';
+
+const context = { userId: 'u1', taskId: 't1' } as AgentContext;
+
+beforeEach(() => {
+  task.runState = null;
+  task.result = null;
+  delete task.resultDiff;
+});
+
+describe('diffResults', () => {
+  it('lists what was added, removed and changed, by path', () => {
+    const before = { price: 99, plans: ['basic', 'pro'], meta: { 'last seen': 'Mon' } };
+    const after = { price: 89, plans: ['basic'], meta: { 'last seen': 'Mon', sale: true } };
+
+    expect(diffResults(before, after)).toEqual({
+      changes: [
+        { path: '$.price', kind: 'changed', before: 99, after: 89 },
+        { path: '$.plans[1]', kind: 'removed', before: 'pro' },
+        { path: '$.meta.sale', kind: 'added', after: true },
+      ],
+      total: 3,
+    });
+    expect(diffResults(before, structuredClone(before)).total).toBe(0);
+  });
+
+  it('counts differences past the ones it lists', () => {
+    const diff = diffResults([], Array.from({ length: 150 }, (_, i) => i));
+
+    expect(diff.changes).toHaveLength(MAX_RESULT_CHANGES);
+    expect(diff.total).toBe(150);
+  });
+});
+
+describe('state tools', () => {
+  it('merge values into the saved state, null forgetting a key', async () => {
+    task.runState = { lastPrice: 99, stale: true };
+
+    const result = await new StateSetTool().execute({ values: { lastPrice: 89, stale: null } }, context);
+
+    expect(result.data).toEqual({ state: { lastPrice: 89 } });
+    expect(task.runState).toEqual({ lastPrice: 89 });
+  });
+
+  it('refuse to keep state for a chat turn', async () => {
+    const result = await new StateSetTool().execute({ values: { a: 1 } }, { userId: 'u1', taskId: 'chat-1' } as AgentContext);
+
+    expect(result).toMatchObject({ success: false, error: 'State is only kept for tasks, not chat turns' });
+  });
+
+  it('compare with the saved state, reporting no change on the first run', async () => {
+    const compare = new StateCompareTool();
+
+    expect((await compare.execute({ values: { lastPrice: 89 } }, context)).data).toMatchObject({
+      changed: false,
+      firstRun: true,
+    });
+
+    task.runState = { lastPrice: 99 };
+    expect((await compare.execute({ values: { lastPrice: 89 } }, context)).data).toMatchObject({
+      changed: true,
+      firstRun: false,
+      previous: { lastPrice: 99 },
+      changes: [{ path: '$.lastPrice', kind: 'changed', before: 99, after: 89 }],
+    });
+  });
+
+  it('compare with the last successful result', async () => {
+    task.result = { price: 89, currency: 'USD' };
+
+    const result = await new StateCompareTool().execute({ values: { price: 89 }, against: 'result' }, context);
+
+    expect(result.data).toMatchObject({ changed: false, firstRun: false, previous: { price: 89 } });
+  });
+});
+
+describe('AgentExecutor', () => {
+  function run(price: number) {
+    const registry = new ToolRegistry();
+    const tool: AgentTool = {
+      name: 'browser.extract',
+      description: 'extract',
+      category: 'browser',
+      inputSchema: { type: 'object', properties: {} },
+      validate: () => ({ valid: true }),
+      execute: async () => ({ success: true, data: { price } }),
+      estimateCost: () => 1,
+    };
+    registry.register(tool);
+    const plan: ExecutionPlan = {
+      taskId: 't1',
+      steps: [{ id: 't1_step_1', stepNumber: 1, action: 'browser.extract', description: 'extract', tool: 'browser.extract', params: {}, retryable: false }],
+      totalSteps: 1,
+      estimatedCredits: 0,
+      estimatedDuration: 0,
+      createdAt: new Date(),
+    };
+    return new AgentExecutor('custom', {}, registry).execute(
+      { id: 't1', userId: 'u1', type: 'custom', goal: 'Check the price', config: {}, createdAt: new Date() },
+      plan
+    );
+  }
+
+  it('keeps the last step output as the result and diffs it with the last run', async () => {
+    const first = await run(99);
+    expect(first.result).toEqual({ price: 99 });
+    expect(task.resultDiff).toMatchObject({ changed: false, firstRun: true });
+
+    const second = await run(89);
+    expect(second.resultDiff).toMatchObject({
+      changed: true,
+      firstRun: false,
+      changes: [{ path: '$.price', kind: 'changed', before: 99, after: 89 }],
+    });
+    expect(task.result).toEqual({ price: 89 });
+  });
+});
@@ -5,7 +5,10 @@ import crypto from 'crypto';
 // reachable in these tests because every case is rejected (or answered by the
 // url_verification handshake) before the handler touches the database.
 vi.mock('@/lib/prisma', () => ({ prisma: { integration: { findFirst: vi.fn() } } }));
-vi.mock('@/lib/slack-oauth', () => ({ postSlackMessage: vi.fn() }));
+vi.mock('@/lib/slack-oauth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/slack-oauth')>()),
+  postSlackMessage: vi.fn(),
+}));
 vi.mock('@/lib/sentry', () => ({ captureAPIError: vi.fn() }));
 
 import { POST } from '@/app/api/integrations/slack/events/route';
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Prisma answers only what a short run asks of it; checkpoints, webhooks and
+// Redis are stood in for, so stop requests are delivered in this process.
+
+const taskUpdates: any[] = [];
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    toolPolicy: { findMany: async () => [] },
+    user: { findUnique: async () => ({ monthlyCredits: 100000, creditsUsed: 0 }) },
+    task: {
+      findUnique: async () => null,
+      update: async ({ data }: any) => taskUpdates.push(data),
+    },
+  },
+}));
+
+vi.mock('@/lib/agent/checkpoint', () => ({
+  PLAN_REVISION_ACTION: 'plan.revise',
+  startRun: async () => undefined,
+  checkpointStep: async () => undefined,
+  completedStepNumbers: () => new Set(),
+  contextFromTrace: () => ({}),
+}));
+
+vi.mock('@/lib/webhooks/outbound', () => ({ dispatchWebhookEvent: async () => undefined }));
+
+vi.mock('@/lib/queue/redis', () => ({
+  executeWithRedis: async (_operation: unknown, fallback: () => unknown) => fallback(),
+  isRedisAvailable: () => false,
+  redisConfig: {},
+}));
+
+const { AgentExecutor } = await import('@/lib/agent/executor');
+const { ToolRegistry } = await import('@/lib/agent/tools/registry');
+const { EmailSendBatchTool, EmailSendTool } = await import('@/lib/agent/tools/email');
+const { delay, withTimeout } = await import('@/lib/agent/guards');
+const { TaskStoppedError, requestTaskStop, watchTaskStops } = await import('@/lib/agent/cancellation');
+import type { AgentContext, AgentTool, ExecutionPlan } from '@/lib/agent/types';
+
+/** A tool that runs until its signal aborts, recording that it did. */
+function slowTool(name: string, seen: { aborted: boolean }): AgentTool {
+  return {
+    name,
+    description: name,
+    category: 'utility',
+    inputSchema: { type: 'object', properties: {} },
+    validate: () => ({ valid: true }),
+    execute: (_params, context) =>
+      new Promise((resolve) => {
+        context.signal?.addEventListener('abort', () => {
+          seen.aborted = true;
+          resolve({ success: false, error: 'aborted' });
+        });
+      }),
+    estimateCost: () => 1,
+  };
+}
+
+function plan(tool: string): ExecutionPlan {
+  return {
+    taskId: 't1',
+    steps: [{ id: 't1_step_1', stepNumber: 1, action: tool, description: 'wait', tool, params: {}, retryable: true }],
+    totalSteps: 1,
+    estimatedCredits: 0,
+    estimatedDuration: 0,
+    createdAt: new Date(),
+  };
+}
+
+describe('withTimeout', () => {
+  it('rejects as soon as the run is stopped and aborts the operation', async () => {
+    const run = new AbortController();
+    let inner: AbortSignal | undefined;
+    const pending = withTimeout(
+      (signal) => {
+        inner = signal;
+        return new Promise<never>(() => undefined);
+      },
+      60_000,
+      'browser.navigate',
+      run.signal
+    );
+
+    run.abort(new TaskStoppedError('pause'));
+
+    await expect(pending).rejects.toThrow('The task was paused');
+    expect(inner?.aborted).toBe(true);
+  });
+
+  it('aborts the operation when it times out', async () => {
+    let inner: AbortSignal | undefined;
+    const pending = withTimeout(
+      (signal) => {
+        inner = signal;
+        return new Promise<never>(() => undefined);
+      },
+      10,
+      'http.get'
+    );
+
+    await expect(pending).rejects.toThrow('Operation "http.get" timed out after 10ms');
+    expect(inner?.aborted).toBe(true);
+  });
+
+  it('stops a delay early', async () => {
+    const run = new AbortController();
+    const waiting = delay(60_000, run.signal);
+    run.abort(new TaskStoppedError('cancel'));
+
+    await expect(waiting).rejects.toBeInstanceOf(TaskStoppedError);
+  });
+});
+
+describe('AgentExecutor stops', () => {
+  it('abort the tool in flight and end the run cancelled, not failed', async () => {
+    const seen = { aborted: false };
+    const registry = new ToolRegistry();
+    registry.register(slowTool('browser.navigate', seen));
+    const executor = new AgentExecutor('custom', { retryCount: 3 }, registry);
+
+    const running = executor.execute(
+      { id: 't1', userId: 'u1', type: 'custom', goal: 'Wait', config: {}, createdAt: new Date() },
+      plan('browser.navigate')
+    );
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await executor.cancel();
+    const result = await running;
+
+    expect(seen.aborted).toBe(true);
+    expect(result.status).toBe('cancelled');
+    expect(result.trace.filter((entry) => entry.status === 'failed')).toEqual([]);
+    expect(taskUpdates.at(-1)).toMatchObject({ status: 'cancelled' });
+  });
+
+  it('reach a worker through requestTaskStop', async () => {
+    const seen = { aborted: false };
+    const registry = new ToolRegistry();
+    registry.register(slowTool('http.get', seen));
+    const executor = new AgentExecutor('custom', {}, registry);
+    const unwatch = watchTaskStops('t1', (action) => (action === 'pause' ? executor.pause() : executor.cancel()));
+
+    const running = executor.execute(
+      { id: 't1', userId: 'u1', type: 'custom', goal: 'Wait', config: {}, createdAt: new Date() },
+      plan('http.get')
+    );
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await requestTaskStop('t1', 'pause');
+    const result = await running;
+    unwatch();
+
+    expect(seen.aborted).toBe(true);
+    expect(result.status).toBe('paused');
+  });
+
+  it('inside a loop leave the loop unfinished rather than failed', async () => {
+    const seen = { aborted: false };
+    const registry = new ToolRegistry();
+    registry.register(slowTool('http.get', seen));
+    const executor = new AgentExecutor('custom', {}, registry);
+    const loop = {
+      ...plan('control').steps[0],
+      action: 'control.forEach',
+      control: { type: 'forEach' as const, items: ['a', 'b'], body: [{ ...plan('http.get').steps[0], stepNumber: 2, id: 't1_step_2' }] },
+    };
+
+    const running = executor.execute(
+      { id: 't1', userId: 'u1', type: 'custom', goal: 'Wait', config: {}, createdAt: new Date() },
+      { ...plan('control'), steps: [loop] }
+    );
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await executor.pause();
+    const result = await running;
+
+    expect(seen.aborted).toBe(true);
+    expect(result.status).toBe('paused');
+    expect(result.trace).toEqual([]);
+  });
+});
+
+describe('email.sendBatch', () => {
+  it('sends nothing more once the run is stopped', async () => {
+    const run = new AbortController();
+    const send = vi.spyOn(EmailSendTool.prototype, 'execute').mockImplementation(async () => {
+      if (send.mock.calls.length === 2) run.abort(new TaskStoppedError('cancel'));
+      return { success: true };
+    });
+
+    const result = await new EmailSendBatchTool().execute(
+      {
+        emails: [1, 2, 3, 4].map((n) => ({ to: `lead${n}@example.com`, subject: 'Hi', body: 'Hello' })),
+        delayMs: 1,
+      },
+      { userId: 'u1', signal: run.signal } as AgentContext
+    );
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Stopped after sending 2 of 4 emails',
+      data: { sent: 2, stopped: true },
+    });
+    send.mockRestore();
+  });
+});
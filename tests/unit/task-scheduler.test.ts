@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { matchesWhere } from '../helpers/prisma-where';
+
+// Prisma is an in-memory stand-in holding tasks and their scheduled runs;
+// the agent queue records what was queued, and the stop channel and the
+// approval inbox what they were asked to do.
+
+const tasks = new Map<string, any>();
+const runs: any[] = [];
+const queued: { taskId: string; scheduledRunId?: string }[] = [];
+const stops: { taskId: string; action: string }[] = [];
+const withdrawn: string[] = [];
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    task: {
+      findMany: async () => [...tasks.values()].filter((t) => t.scheduleEnabled && t.nextRunAt <= now),
+      update: async ({ where, data }: any) => Object.assign(tasks.get(where.id), data),
+      updateMany: async ({ where, data }: any) => {
+        const task = tasks.get(where.id);
+        if (!task || !matchesWhere(task, where)) return { count: 0 };
+        Object.assign(task, data);
+        return { count: 1 };
+      },
+    },
+    scheduledRun: {
+      create: async ({ data }: any) => {
+        const run = { id: `run_${runs.length + 1}`, createdAt: new Date(), ...data };
+        runs.push(run);
+        return run;
+      },
+      update: async ({ where, data }: any) => Object.assign(runs.find((r) => r.id === where.id), data),
+      updateMany: async ({ where, data }: any) => {
+        const rows = runs.filter((r) => matchesWhere(r, where));
+        rows.forEach((r) => Object.assign(r, data));
+        return { count: rows.length };
+      },
+      count: async ({ where }: any) => runs.filter((r) => matchesWhere(r, where)).length,
+      findMany: async ({ where }: any) => {
+        const first = new Map<string, any>();
+        for (const run of runs.filter((r) => matchesWhere(r, where))) {
+          if (!first.has(run.taskId)) first.set(run.taskId, { ...run, task: tasks.get(run.taskId) });
+        }
+        return [...first.values()];
+      },
+    },
+  },
+}));
+
+vi.mock('@/lib/credits', () => ({ hasEnoughCredits: async () => true }));
+
+vi.mock('@/lib/queue/agent-queue', () => ({
+  queueAgentTask: async (taskId: string, _userId: string, options: any) => {
+    queued.push({ taskId, scheduledRunId: options.scheduledRunId });
+    return `job_${queued.length}`;
+  },
+}));
+
+vi.mock('@/lib/agent/cancellation', () => ({
+  requestTaskStop: async (taskId: string, action: string) => {
+    stops.push({ taskId, action });
+  },
+}));
+
+vi.mock('@/lib/agent/approval-inbox', () => ({
+  withdrawTaskApprovals: async (taskId: string) => {
+    withdrawn.push(taskId);
+    return 1;
+  },
+}));
+
+const {
+  checkScheduledTasks,
+  dueOccurrences,
+  nextRunTimes,
+  overlapAction,
+  planOccurrences,
+  validateScheduleInput,
+} = await import('@/lib/agent/scheduler');
+
+let now = new Date('2026-03-10T14:00:30Z');
+
+function scheduledTask(overrides: Record<string, unknown> = {}) {
+  const task = {
+    id: 'task_1',
+    userId: 'user_1',
+    status: 'completed',
+    priority: 'medium',
+    plan: null,
+    schedule: '0 10 * * *',
+    timezone: 'America/New_York',
+    scheduleEnabled: true,
+    nextRunAt: new Date('2026-03-10T14:00:00Z'),
+    misfirePolicy: 'run_once',
+    maxCatchUpRuns: 3,
+    overlapPolicy: 'skip',
+    ...overrides,
+  };
+  tasks.set(task.id, task);
+  return task;
+}
+
+beforeEach(() => {
+  tasks.clear();
+  runs.length = 0;
+  queued.length = 0;
+  stops.length = 0;
+  withdrawn.length = 0;
+  now = new Date('2026-03-10T14:00:30Z');
+});
+
+describe('cron evaluation', () => {
+  it('keeps local wall-clock time across a DST change', () => {
+    const times = nextRunTimes('0 9 * * *', 'America/New_York', new Date('2026-03-07T12:00:00Z'), 3);
+
+    expect(times.map((t) => t.toISOString())).toEqual([
+      '2026-03-07T14:00:00.000Z',
+      '2026-03-08T13:00:00.000Z',
+      '2026-03-09T13:00:00.000Z',
+    ]);
+  });
+
+  it('runs a time skipped by spring-forward late, and a repeated one once', () => {
+    const spring = nextRunTimes('30 2 * * *', 'America/New_York', new Date('2026-03-07T12:00:00Z'), 2);
+    const fall = nextRunTimes('30 1 * * *', 'America/New_York', new Date('2026-10-31T12:00:00Z'), 2);
+
+    expect(spring.map((t) => t.toISOString())).toEqual(['2026-03-08T07:30:00.000Z', '2026-03-09T06:30:00.000Z']);
+    expect(fall.map((t) => t.toISOString())).toEqual(['2026-11-01T05:30:00.000Z', '2026-11-02T06:30:00.000Z']);
+  });
+
+  it('lists every occurrence missed since nextRunAt', () => {
+    const due = dueOccurrences('0 * * * *', 'UTC', new Date('2026-03-10T10:00:00Z'), new Date('2026-03-10T13:30:00Z'));
+
+    expect(due.map((d) => d.getUTCHours())).toEqual([10, 11, 12, 13]);
+  });
+});
+
+describe('policies', () => {
+  const due = [10, 11, 12, 13].map((h) => new Date(`2026-03-10T${h}:00:00Z`));
+
+  it('drops, collapses or replays missed runs by misfire policy', () => {
+    const late = new Date('2026-03-10T13:30:00Z');
+    const onTime = new Date('2026-03-10T13:01:00Z');
+
+    expect(planOccurrences(due, late, 'skip', 3).run).toEqual([]);
+    expect(planOccurrences(due, onTime, 'skip', 3).run).toEqual([due[3]]);
+    expect(planOccurrences(due, late, 'run_once', 3)).toEqual({ run: [due[3]], skipped: due.slice(0, 3) });
+    expect(planOccurrences(due, late, 'run_all', 2)).toEqual({ run: due.slice(2), skipped: due.slice(0, 2) });
+  });
+
+  it('only holds back an occurrence while the previous run is going', () => {
+    expect(overlapAction('skip', false)).toBe('dispatch');
+    expect(overlapAction('skip', true)).toBe('skip');
+    expect(overlapAction('queue', true)).toBe('wait');
+    expect(overlapAction('cancel_previous', true)).toBe('cancel_previous');
+  });
+
+  it('rejects unknown time zones and policies', () => {
+    expect(validateScheduleInput({ schedule: 'not cron', timezone: 'Mars/Base', overlapPolicy: 'maybe' })).toEqual([
+      'timezone must be an IANA time zone, such as "Europe/Berlin"',
+      '"not cron" is not a valid cron expression',
+      'overlapPolicy must be one of: skip, queue, cancel_previous',
+    ]);
+  });
+});
+
+describe('checkScheduledTasks', () => {
+  it('queues a due task and moves nextRunAt to the next local occurrence', async () => {
+    scheduledTask();
+
+    const results = await checkScheduledTasks(now);
+
+    expect(results.queued).toBe(1);
+    expect(queued).toEqual([{ taskId: 'task_1', scheduledRunId: 'run_1' }]);
+    expect(runs[0]).toMatchObject({ status: 'queued', trigger: 'schedule', jobId: 'job_1' });
+    expect(tasks.get('task_1').nextRunAt.toISOString()).toBe('2026-03-11T14:00:00.000Z');
+  });
+
+  it('skips an occurrence while the previous run is still executing', async () => {
+    scheduledTask({ status: 'executing' });
+
+    await checkScheduledTasks(now);
+
+    expect(queued).toEqual([]);
+    expect(runs[0]).toMatchObject({ status: 'skipped', reason: expect.stringMatching(/still going/) });
+  });
+
+  it('queues behind the previous run and starts once it is over', async () => {
+    scheduledTask({ status: 'executing', overlapPolicy: 'queue' });
+
+    await checkScheduledTasks(now);
+    expect(runs[0].status).toBe('waiting');
+
+    tasks.get('task_1').status = 'completed';
+    now = new Date('2026-03-10T14:01:30Z');
+    await checkScheduledTasks(now);
+
+    expect(queued).toEqual([{ taskId: 'task_1', scheduledRunId: 'run_1' }]);
+  });
+
+  it('cancels the previous scheduled run for cancel_previous', async () => {
+    scheduledTask({ status: 'executing', overlapPolicy: 'cancel_previous' });
+    runs.push({ id: 'run_0', taskId: 'task_1', status: 'running', scheduledFor: new Date('2026-03-09T14:00:00Z') });
+
+    await checkScheduledTasks(now);
+
+    expect(runs.find((r) => r.id === 'run_0').status).toBe('cancelled');
+    expect(runs.find((r) => r.id !== 'run_0').status).toBe('waiting');
+    expect(stops).toEqual([{ taskId: 'task_1', action: 'cancel' }]);
+    expect(tasks.get('task_1').status).toBe('executing');
+  });
+
+  it('cancels a previous run awaiting approval and starts the next one at once', async () => {
+    scheduledTask({ status: 'awaiting_approval', overlapPolicy: 'cancel_previous' });
+
+    await checkScheduledTasks(now);
+
+    expect(withdrawn).toEqual(['task_1']);
+    expect(stops).toEqual([{ taskId: 'task_1', action: 'cancel' }]);
+    expect(queued).toEqual([{ taskId: 'task_1', scheduledRunId: 'run_1' }]);
+    expect(tasks.get('task_1').status).toBe('pending');
+  });
+
+  it('keeps one run waiting however many come due meanwhile', async () => {
+    scheduledTask({ status: 'executing', overlapPolicy: 'queue' });
+
+    await checkScheduledTasks(now);
+    now = new Date('2026-03-11T14:00:30Z');
+    await checkScheduledTasks(now);
+
+    expect(runs.map((r) => r.status)).toEqual(['waiting', 'skipped']);
+    expect(runs[1].reason).toMatch(/already waiting/);
+    expect(queued).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { matchesWhere } from '../helpers/prisma-where';
+
+// Prisma is an in-memory stand-in holding tasks, triggers, events and
+// firings; the agent queue records what was queued.
+
+const tasks = new Map<string, any>();
+const triggers: any[] = [];
+const events: any[] = [];
+const firings: any[] = [];
+const queued: { taskId: string; triggerFiringId?: string }[] = [];
+
+const relations = { task: (row: any) => tasks.get(row.taskId) };
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    task: {
+      findUnique: async ({ where }: any) => tasks.get(where.id) || null,
+      update: async ({ where, data }: any) => Object.assign(tasks.get(where.id), data),
+    },
+    taskTrigger: {
+      count: async ({ where }: any) => triggers.filter((t) => matchesWhere(t, where, relations)).length,
+      findMany: async ({ where }: any) =>
+        triggers.filter((t) => matchesWhere(t, where, relations)).map((t) => ({ ...t, task: tasks.get(t.taskId) })),
+      update: async ({ where, data }: any) => {
+        const trigger = triggers.find((t) => t.id === where.id);
+        trigger.fireCount += data.fireCount.increment;
+        trigger.lastFiredAt = data.lastFiredAt;
+        return trigger;
+      },
+    },
+    triggerEvent: {
+      create: async ({ data }: any) => {
+        const event = { id: `event_${events.length + 1}`, status: 'pending', createdAt: new Date(), ...data };
+        events.push(event);
+        return event;
+      },
+      findMany: async ({ where }: any) => events.filter((e) => matchesWhere(e, where, relations)),
+      updateMany: async ({ where, data }: any) => {
+        const rows = events.filter((e) => matchesWhere(e, where, relations));
+        rows.forEach((e) => Object.assign(e, data));
+        return { count: rows.length };
+      },
+    },
+    triggerFiring: {
+      create: async ({ data }: any) => {
+        const firing = { id: `firing_${firings.length + 1}`, createdAt: now, ...data };
+        firings.push(firing);
+        return firing;
+      },
+      findUnique: async ({ where }: any) => {
+        const firing = firings.find((f) => f.id === where.id);
+        return firing ? { ...firing, event: events.find((e) => e.id === firing.eventId) } : null;
+      },
+      update: async ({ where, data }: any) => Object.assign(firings.find((f) => f.id === where.id), data),
+      updateMany: async ({ where, data }: any) => {
+        const rows = firings.filter((f) => matchesWhere(f, where, relations));
+        rows.forEach((f) => Object.assign(f, data));
+        return { count: rows.length };
+      },
+      count: async ({ where }: any) => firings.filter((f) => matchesWhere(f, where, relations)).length,
+    },
+    monitorAlert: { findMany: async () => [] },
+  },
+}));
+
+vi.mock('@/lib/credits', () => ({ hasEnoughCredits: async () => true }));
+
+vi.mock('@/lib/queue/agent-queue', () => ({
+  queueAgentTask: async (taskId: string, _userId: string, options: any) => {
+    queued.push({ taskId, triggerFiringId: options.triggerFiringId });
+    return `job_${queued.length}`;
+  },
+}));
+
+const {
+  MAX_FIRINGS_PER_HOUR,
+  emitTriggerEvent,
+  finishTaskRun,
+  loopReason,
+  processTriggerEvents,
+  startTriggeredRun,
+  triggerMatches,
+  validateTriggerInput,
+  verifyTriggerSecret,
+  hashTriggerSecret,
+} = await import('@/lib/agent/triggers');
+
+let now = new Date('2026-10-10T12:00:00Z');
+
+function task(id: string, overrides: Record<string, unknown> = {}) {
+  tasks.set(id, { id, userId: 'user_1', title: id, status: 'completed', priority: 'medium', plan: null, result: null, error: null, ...overrides });
+}
+
+function trigger(taskId: string, overrides: Record<string, unknown> = {}) {
+  const row = {
+    id: `trigger_${triggers.length + 1}`,
+    taskId,
+    type: 'task_completed',
+    sourceTaskId: null,
+    monitorId: null,
+    channel: null,
+    pattern: null,
+    secretHash: null,
+    enabled: true,
+    fireCount: 0,
+    lastFiredAt: null,
+    ...overrides,
+  };
+  triggers.push(row);
+  return row;
+}
+
+beforeEach(() => {
+  tasks.clear();
+  triggers.length = 0;
+  events.length = 0;
+  firings.length = 0;
+  queued.length = 0;
+  now = new Date('2026-10-10T12:00:00Z');
+});
+
+describe('trigger helpers', () => {
+  it('matches messages by channel and text', () => {
+    const slack = { id: 't', type: 'slack_message', sourceTaskId: null, monitorId: null, channel: 'C1', pattern: 'deploy' };
+
+    expect(triggerMatches(slack, { type: 'slack_message', sourceId: 'C1', payload: { text: 'Please DEPLOY now' } })).toBe(true);
+    expect(triggerMatches(slack, { type: 'slack_message', sourceId: 'C2', payload: { text: 'deploy' } })).toBe(false);
+    expect(triggerMatches(slack, { type: 'slack_message', sourceId: 'C1', payload: { text: 'hello' } })).toBe(false);
+    expect(triggerMatches(slack, { type: 'telegram_message', sourceId: 'C1', payload: { text: 'deploy' } })).toBe(false);
+  });
+
+  it('refuses to start a task already in the chain, or past the longest chain', () => {
+    expect(loopReason('b', ['a'])).toBeNull();
+    expect(loopReason('a', ['a', 'b'])).toBe('Would loop: a → b → a');
+    expect(loopReason('f', ['a', 'b', 'c', 'd', 'e'])).toBe('Trigger chains stop after 5 runs');
+  });
+
+  it('checks webhook secrets against their hash', () => {
+    const hash = hashTriggerSecret('trg_secret');
+
+    expect(verifyTriggerSecret('trg_secret', hash)).toBe(true);
+    expect(verifyTriggerSecret('trg_other', hash)).toBe(false);
+    expect(verifyTriggerSecret(null, hash)).toBe(false);
+  });
+
+  it('requires the source a trigger type follows', () => {
+    expect(validateTriggerInput({ type: 'task_completed' })).toEqual(['sourceTaskId is required for task_completed triggers']);
+    expect(validateTriggerInput({ type: 'cron' })).toEqual([
+      'type must be one of: task_completed, task_failed, webhook, monitor_alert, slack_message, telegram_message',
+    ]);
+    expect(validateTriggerInput({ type: 'webhook' }, { partial: true })).toEqual([
+      'type, sourceTaskId and monitorId cannot be changed; create a new trigger instead',
+    ]);
+  });
+});
+
+describe('processTriggerEvents', () => {
+  it("starts a follower with its source's result when the source completes", async () => {
+    task('report', { result: { summary: '3 new leads' } });
+    task('follow_up');
+    trigger('follow_up', { sourceTaskId: 'report' });
+
+    await finishTaskRun('report', null);
+    const results = await processTriggerEvents(now);
+
+    expect(results).toMatchObject({ events: 1, queued: 1 });
+    expect(queued).toEqual([{ taskId: 'follow_up', triggerFiringId: 'firing_1' }]);
+    expect(tasks.get('follow_up').status).toBe('pending');
+
+    const run = await startTriggeredRun('firing_1');
+    expect(run).toMatchObject({
+      chain: ['report'],
+      context: { trigger: { type: 'task_completed', payload: { taskId: 'report', result: { summary: '3 new leads' } } } },
+    });
+    expect(firings[0].status).toBe('running');
+  });
+
+  it('records no event when no trigger could match', async () => {
+    task('report');
+
+    expect(await emitTriggerEvent({ userId: 'user_1', type: 'task_completed', sourceId: 'report', payload: {} })).toBeNull();
+    expect(events).toEqual([]);
+  });
+
+  it('stops a chain of tasks that trigger each other', async () => {
+    task('a');
+    task('b');
+    trigger('b', { sourceTaskId: 'a' });
+    trigger('a', { sourceTaskId: 'b' });
+
+    await finishTaskRun('a', null);
+    await processTriggerEvents(now);
+    const run = await startTriggeredRun(firings[0].id);
+    tasks.get('b').status = 'completed';
+    await finishTaskRun('b', run);
+    await processTriggerEvents(now);
+
+    expect(queued.map((q) => q.taskId)).toEqual(['b']);
+    expect(firings[1]).toMatchObject({ taskId: 'a', status: 'skipped', reason: 'Would loop: a → b → a' });
+  });
+
+  it('skips while the task is still running, and past the hourly cap', async () => {
+    task('source');
+    task('busy', { status: 'executing' });
+    task('chatty');
+    trigger('busy', { sourceTaskId: 'source' });
+    const capped = trigger('chatty', { sourceTaskId: 'source' });
+    for (let i = 0; i < MAX_FIRINGS_PER_HOUR; i++) {
+      firings.push({ id: `old_${i}`, triggerId: capped.id, taskId: 'chatty', status: 'completed', createdAt: now });
+    }
+
+    await finishTaskRun('source', null);
+    await processTriggerEvents(now);
+
+    expect(queued).toEqual([]);
+    expect(firings.filter((f) => f.status === 'skipped').map((f) => f.reason)).toEqual([
+      'The task was still running',
+      `Fired ${MAX_FIRINGS_PER_HOUR} times in the last hour, the most allowed`,
+    ]);
+  });
+});
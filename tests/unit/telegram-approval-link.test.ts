@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { createTelegramApprovalLink, telegramApprovalLinkMatches } from '@/lib/telegram-bot';
+
+describe('Telegram approval links', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z');
+
+  it('accept only their own token, and only within the hour', () => {
+    const link = createTelegramApprovalLink('acme_bot', now);
+    const token = new URL(link.url).searchParams.get('start')!;
+
+    expect(link.url).toMatch(/^https:\/\/t\.me\/acme_bot\?start=[A-Za-z0-9_-]{32}$/);
+    expect(link.expiresAt).toBe('2026-10-19T13:00:00.000Z');
+    expect(link.config.approvalLinkTokenHash).not.toContain(token);
+
+    expect(telegramApprovalLinkMatches(link.config, token, now + 60_000)).toBe(true);
+    expect(telegramApprovalLinkMatches(link.config, `${token}x`, now)).toBe(false);
+    expect(telegramApprovalLinkMatches(link.config, token, now + 60 * 60 * 1000)).toBe(false);
+    expect(telegramApprovalLinkMatches(createTelegramApprovalLink('acme_bot', now).config, token, now)).toBe(false);
+  });
+
+  it('match nothing once used up', () => {
+    const link = createTelegramApprovalLink('acme_bot', now);
+    const token = new URL(link.url).searchParams.get('start')!;
+
+    expect(telegramApprovalLinkMatches({ approvalLinkTokenHash: null, approvalLinkExpiresAt: null }, token, now)).toBe(false);
+    expect(telegramApprovalLinkMatches({}, '', now)).toBe(false);
+  });
+});
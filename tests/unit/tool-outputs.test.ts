@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Stored outputs live in an in-memory stand-in for prisma; checkpoints and
+// webhooks are stood in for so a short run can execute.
+
+const stored: any[] = [];
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    toolOutput: {
+      create: async ({ data }: any) => {
+        const row = { id: `out_${stored.length + 1}`, createdAt: new Date(), ...data };
+        stored.push(row);
+        return row;
+      },
+      findFirst: async ({ where }: any) =>
+        stored.find((row) => row.id === where.id && row.userId === where.userId && row.expiresAt > where.expiresAt.gt) ||
+        null,
+    },
+    toolPolicy: { findMany: async () => [] },
+    user: { findUnique: async () => ({ monthlyCredits: 100000, creditsUsed: 0 }) },
+    task: { findUnique: async () => null, update: async () => ({}) },
+  },
+}));
+
+vi.mock('@/lib/agent/checkpoint', () => ({
+  PLAN_REVISION_ACTION: 'plan.revise',
+  startRun: async () => undefined,
+  checkpointStep: async () => undefined,
+  completedStepNumbers: () => new Set(),
+  contextFromTrace: () => ({}),
+}));
+
+vi.mock('@/lib/webhooks/outbound', () => ({ dispatchWebhookEvent: async () => undefined }));
+
+const {
+  INLINE_OUTPUT_CHARS,
+  expandStoredOutputs,
+  isStoredOutput,
+  queryJson,
+  readLines,
+  searchLines,
+  storeLargeOutput,
+} = await import('@/lib/agent/tool-outputs');
+const { OutputQueryTool } = await import('@/lib/agent/tools/outputs');
+const { AgentExecutor } = await import('@/lib/agent/executor');
+const { ToolRegistry } = await import('@/lib/agent/tools/registry');
+import type { AgentContext, AgentTool, ExecutionPlan } from '@/lib/agent/types';
+
+const rows = Array.from({ length: 500 }, (_, i) => ({ id: i + 1, name: `Lead ${i + 1}`, email: `lead${i + 1}@example.com` }));
+
+beforeEach(() => {
+  stored.length = 0;
+});
+
+describe('storeLargeOutput', () => {
+  it('keeps small results inline', async () => {
+    expect(await storeLargeOutput({ ok: true }, { userId: 'u1', tool: 'http.get' })).toEqual({ ok: true });
+    expect(stored).toEqual([]);
+  });
+
+  it('stores a large result and hands back a preview', async () => {
+    const handle = await storeLargeOutput({ rows }, { userId: 'u1', taskId: 't1', stepNumber: 2, tool: 'http.get' });
+
+    expect(isStoredOutput(handle)).toBe(true);
+    expect(handle).toMatchObject({
+      storedOutput: { id: 'out_1', tool: 'http.get', format: 'json', shape: 'object with keys: rows' },
+    });
+    expect(JSON.stringify(handle).length).toBeLessThan(INLINE_OUTPUT_CHARS);
+    expect(stored[0]).toMatchObject({ userId: 'u1', taskId: 't1', stepNumber: 2 });
+  });
+
+  it('reads a stored result back whole, for its owner only', async () => {
+    const handle = await storeLargeOutput(rows, { userId: 'u1', tool: 'http.get' });
+    const outputs = new Map<number, unknown>([[1, handle], [2, 'small']]);
+
+    expect((await expandStoredOutputs(outputs, 'u1', new Map())).get(1)).toEqual(rows);
+    expect((await expandStoredOutputs(outputs, 'u2', new Map())).get(1)).toBe(handle);
+  });
+});
+
+describe('paging helpers', () => {
+  const content = JSON.stringify(rows, null, 2);
+
+  it('reads numbered lines and says when there are more', () => {
+    const page = readLines(content, 2, 3);
+
+    expect(page.text).toBe('2:   {\n3:     "id": 1,\n4:     "name": "Lead 1",');
+    expect(page).toMatchObject({ from: 2, to: 4, more: true });
+  });
+
+  it('finds matching lines, treating a broken regex as text', () => {
+    expect(searchLines(content, 'lead42@', { maxMatches: 5 }).matches).toEqual([
+      { line: 210, text: '    "email": "lead42@example.com"' },
+    ]);
+    expect(searchLines('a (b\nc', '(b').matches).toEqual([{ line: 1, text: 'a (b' }]);
+  });
+
+  it('selects values with JSONPath, slices included', () => {
+    expect(queryJson({ rows }, '$.rows[0:2].name')).toEqual(['Lead 1', 'Lead 2']);
+    expect(queryJson({ rows }, '$.rows[-1].id')).toEqual([500]);
+    expect(queryJson({ rows }, '$["rows"][*].missing')).toEqual([]);
+    expect(() => queryJson({ rows }, '$.rows[?(@.id)]')).toThrow('Unexpected');
+  });
+});
+
+describe('output.query', () => {
+  it('returns as many matches as fit in a page', async () => {
+    const handle = (await storeLargeOutput(rows, { userId: 'u1', tool: 'http.get' })) as any;
+
+    const result = await new OutputQueryTool().execute(
+      { outputId: handle.storedOutput.id, path: '$[*]' },
+      { userId: 'u1' } as AgentContext
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data.count).toBe(500);
+    expect(result.data.more).toBe(true);
+    expect(result.data.results[0]).toEqual(rows[0]);
+  });
+});
+
+describe('AgentExecutor', () => {
+  it('keeps a handle in the trace but resolves references against the whole result', async () => {
+    const send = vi.fn(async (params: any) => ({ success: true, data: { sent: params.to } }));
+    const tool = (name: string, execute: AgentTool['execute']): AgentTool => ({
+      name,
+      description: name,
+      category: 'utility',
+      inputSchema: { type: 'object', properties: {} },
+      validate: () => ({ valid: true }),
+      execute,
+      estimateCost: () => 1,
+    });
+    const registry = new ToolRegistry();
+    registry.register(tool('http.get', async () => ({ success: true, data: { rows } })));
+    registry.register(tool('email.draft', send));
+
+    const plan: ExecutionPlan = {
+      taskId: 't1',
+      steps: [
+        { id: 't1_step_1', stepNumber: 1, action: 'http.get', description: 'fetch', tool: 'http.get', params: {}, retryable: false },
+        {
+          id: 't1_step_2',
+          stepNumber: 2,
+          action: 'email.draft',
+          description: 'draft',
+          tool: 'email.draft',
+          params: { to: '{{steps.step_1.data.rows[-1].email}}' },
+          dependencies: ['t1_step_1'],
+          retryable: false,
+        },
+      ],
+      totalSteps: 2,
+      estimatedCredits: 0,
+      estimatedDuration: 0,
+      createdAt: new Date(),
+    };
+
+    const result = await new AgentExecutor('custom', {}, registry).execute(
+      { id: 't1', userId: 'u1', type: 'custom', goal: 'Fetch and draft', config: {}, createdAt: new Date() },
+      plan
+    );
+
+    expect(result.status).toBe('completed');
+    expect(isStoredOutput(result.trace[0].output)).toBe(true);
+    expect(send).toHaveBeenCalledWith({ to: 'lead500@example.com' }, expect.anything());
+  });
+});